@@ -0,0 +1,30 @@
+/**
+ * Expired Lot Write-off (Cron)
+ *
+ * Writes off stock in lots past their expiry date for all tenants.
+ * Scheduled in vercel.json; requires CRON_SECRET.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withCronSecret } from '@/lib/api-helpers';
+import { writeOffExpiredLots } from '@/lib/inventoryLots';
+
+export const GET = withCronSecret(async (req: NextRequest) => {
+  try {
+    console.log('⏰ Running expired lot write-off');
+    const summary = await writeOffExpiredLots();
+    console.log('✅ Expired lot write-off finished:', {
+      processed: summary.processed,
+      writtenOff: summary.writtenOff,
+      failed: summary.failed,
+    });
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error('❌ Expired lot write-off error:', error);
+    return NextResponse.json({
+      error: 'Failed to write off expired lots',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+});
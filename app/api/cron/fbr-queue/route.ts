@@ -0,0 +1,34 @@
+/**
+ * FBR Submission Queue Worker (Cron)
+ *
+ * Retries queued FBR submissions for all tenants whose next attempt is due.
+ * Scheduled in vercel.json; requires CRON_SECRET.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withCronSecret } from '@/lib/api-helpers';
+import { processDueFbrSubmissions } from '@/lib/fbr/queue';
+
+export const GET = withCronSecret(async (req: NextRequest) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const limit = parseInt(searchParams.get('limit') || '50');
+
+    console.log('⏰ Running FBR submission queue worker');
+    const summary = await processDueFbrSubmissions(undefined, limit);
+    console.log('✅ FBR submission queue worker finished:', {
+      processed: summary.processed,
+      posted: summary.posted,
+      requeued: summary.requeued,
+      failed: summary.failed,
+    });
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error('❌ FBR submission queue worker error:', error);
+    return NextResponse.json({
+      error: 'Failed to process FBR submission queue',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+});
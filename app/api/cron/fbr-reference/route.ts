@@ -0,0 +1,26 @@
+/**
+ * FBR Reference Data Sync (Cron)
+ *
+ * Refreshes the shared FBR reference lists from FBR's official gateway.
+ * Scheduled in vercel.json; requires CRON_SECRET.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withCronSecret } from '@/lib/api-helpers';
+import { syncFbrReferenceData } from '@/lib/fbr/reference';
+
+export const GET = withCronSecret(async (req: NextRequest) => {
+  try {
+    console.log('⏰ Running FBR reference data sync');
+    const result = await syncFbrReferenceData();
+    console.log('✅ FBR reference data sync finished:', { counts: result.counts, errors: result.errors });
+
+    return NextResponse.json(result, { status: result.success ? 200 : 502 });
+  } catch (error) {
+    console.error('❌ FBR reference data sync error:', error);
+    return NextResponse.json({
+      error: 'Failed to sync FBR reference data',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,33 @@
+/**
+ * Loyalty Points Maintenance (Cron)
+ *
+ * Activates pending points of delivered orders, expires old points,
+ * refreshes points expiring soon and emails expiry reminders for all tenants
+ * with loyalty enabled. Scheduled in vercel.json; requires CRON_SECRET.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withCronSecret } from '@/lib/api-helpers';
+import { runLoyaltyMaintenance } from '@/lib/loyaltyMaintenance';
+
+export const GET = withCronSecret(async (req: NextRequest) => {
+  try {
+    console.log('⏰ Running loyalty points maintenance');
+    const summary = await runLoyaltyMaintenance();
+    console.log('✅ Loyalty points maintenance finished:', {
+      tenants: summary.tenants,
+      activatedOrders: summary.activatedOrders,
+      expiredRecords: summary.expiredRecords,
+      remindersSent: summary.remindersSent,
+      failed: summary.failed,
+    });
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error('❌ Loyalty points maintenance error:', error);
+    return NextResponse.json({
+      error: 'Failed to run loyalty points maintenance',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,30 @@
+/**
+ * Expired Stock Reservations (Cron)
+ *
+ * Releases stock reserved by orders left unpaid past their tenant's
+ * reservation timeout. Scheduled in vercel.json; requires CRON_SECRET.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withCronSecret } from '@/lib/api-helpers';
+import { releaseExpiredReservations } from '@/lib/stockReservations';
+
+export const GET = withCronSecret(async (req: NextRequest) => {
+  try {
+    console.log('⏰ Releasing expired stock reservations');
+    const summary = await releaseExpiredReservations();
+    console.log('✅ Reservation release finished:', {
+      processed: summary.processed,
+      released: summary.released,
+      failed: summary.failed,
+    });
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error('❌ Reservation release error:', error);
+    return NextResponse.json({
+      error: 'Failed to release expired reservations',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+});
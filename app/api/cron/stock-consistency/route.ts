@@ -0,0 +1,41 @@
+/**
+ * Stock Consistency Check (Cron)
+ *
+ * Compares every tenant's inventory rows with their stock movements and open
+ * reservations and logs the drift. Nothing is changed; fixes are applied from
+ * POST /api/inventory/consistency. Scheduled in vercel.json; requires
+ * CRON_SECRET.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withCronSecret } from '@/lib/api-helpers';
+import { checkStockConsistency } from '@/lib/stockReservations';
+
+export const GET = withCronSecret(async (req: NextRequest) => {
+  try {
+    console.log('⏰ Running stock consistency check');
+    const report = await checkStockConsistency();
+    for (const drift of report.drifted) {
+      console.warn(`⚠️ Stock drift on inventory ${drift.inventoryId} (${drift.productName || drift.productId}):`, {
+        onHand: drift.onHand,
+        ledgerOnHand: drift.ledgerOnHand,
+        reserved: drift.reserved,
+        expectedReserved: drift.expectedReserved,
+        available: drift.available,
+        expectedAvailable: drift.expectedAvailable,
+      });
+    }
+    console.log('✅ Stock consistency check finished:', {
+      checked: report.checked,
+      drifted: report.drifted.length,
+    });
+
+    return NextResponse.json({ success: true, checked: report.checked, drifted: report.drifted.length });
+  } catch (error) {
+    console.error('❌ Stock consistency check error:', error);
+    return NextResponse.json({
+      error: 'Failed to check stock consistency',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+});
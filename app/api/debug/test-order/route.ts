@@ -2,10 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { user, orders, orderItems, userLoyaltyPoints, loyaltyPointsHistory, settings } from '@/lib/schema';
 import { v4 as uuidv4 } from 'uuid';
-import { eq } from 'drizzle-orm';
+import { eq, and } from 'drizzle-orm';
 
 // Copy the loyalty points function from orders API
-async function awardLoyaltyPoints(userId: string, orderId: string, orderAmount: number, subtotal: number, orderStatus: string) {
+async function awardLoyaltyPoints(tenantId: string, userId: string, orderId: string, orderAmount: number, subtotal: number, orderStatus: string) {
   console.log('=== AWARD POINTS FUNCTION ===');
   console.log('Parameters:', { userId, orderId, orderAmount, subtotal, orderStatus });
 
@@ -59,7 +59,7 @@ async function awardLoyaltyPoints(userId: string, orderId: string, orderAmount:
   const existingPoints = await db
     .select()
     .from(userLoyaltyPoints)
-    .where(eq(userLoyaltyPoints.userId, userId))
+    .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)))
     .limit(1);
 
   if (existingPoints.length === 0) {
@@ -67,6 +67,7 @@ async function awardLoyaltyPoints(userId: string, orderId: string, orderAmount:
     console.log('Creating new loyalty points record');
     await db.insert(userLoyaltyPoints).values({
       id: uuidv4(),
+      tenantId: tenantId,
       userId: userId,
       totalPointsEarned: pointsToAward,
       totalPointsRedeemed: 0,
@@ -91,7 +92,7 @@ async function awardLoyaltyPoints(userId: string, orderId: string, orderAmount:
         lastEarnedAt: new Date(),
         updatedAt: new Date()
       })
-      .where(eq(userLoyaltyPoints.userId, userId));
+      .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)));
     console.log('Updated existing loyalty points record');
   }
 
@@ -99,6 +100,7 @@ async function awardLoyaltyPoints(userId: string, orderId: string, orderAmount:
   console.log('Creating history record');
   await db.insert(loyaltyPointsHistory).values({
     id: uuidv4(),
+    tenantId: tenantId,
     userId: userId,
     orderId: orderId,
     transactionType: 'earned',
@@ -157,24 +159,25 @@ export async function POST() {
     }
 
     const userId = testUser[0].id;
+    const tenantId = testUser[0].tenantId;
     const orderId = uuidv4();
     const orderNumber = 'TEST-' + Date.now();
 
     // Test loyalty points directly
     console.log('\n🎯 Testing loyalty points function...');
-    await awardLoyaltyPoints(userId, orderId, 115.00, 100.00, 'pending');
+    await awardLoyaltyPoints(tenantId, userId, orderId, 115.00, 100.00, 'pending');
 
     // Check if points were created
     const userPoints = await db
       .select()
       .from(userLoyaltyPoints)
-      .where(eq(userLoyaltyPoints.userId, userId))
+      .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)))
       .limit(1);
 
     const pointsHistory = await db
       .select()
       .from(loyaltyPointsHistory)
-      .where(eq(loyaltyPointsHistory.userId, userId));
+      .where(and(eq(loyaltyPointsHistory.tenantId, tenantId), eq(loyaltyPointsHistory.userId, userId)));
 
     console.log('\n📊 === TEST RESULTS ===');
     console.log('User Points Record:', userPoints[0] || 'None');
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { getDeliveryRun, updateDeliveryRunStatus } from '@/lib/deliveryRuns';
+
+export const GET = withTenant(async (req: NextRequest, context, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params;
+
+    const run = await getDeliveryRun(context.tenantId, id);
+    if (!run) {
+      return NextResponse.json({ error: 'Delivery run not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(run);
+  } catch (error) {
+    console.error('Error fetching delivery run:', error);
+    return ErrorResponses.serverError('Failed to fetch delivery run');
+  }
+});
+
+export const PUT = withAuth(async (req: NextRequest, context, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params;
+    const { status } = await req.json();
+
+    const result = await updateDeliveryRunStatus(context.tenantId, id, status, context.userId);
+    if (!result.success) {
+      return result.error === 'Delivery run not found'
+        ? NextResponse.json({ error: result.error }, { status: 404 })
+        : ErrorResponses.invalidInput(result.error || 'Failed to update delivery run');
+    }
+
+    return NextResponse.json(result.run);
+  } catch (error) {
+    console.error('Error updating delivery run:', error);
+    return ErrorResponses.serverError('Failed to update delivery run');
+  }
+});
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { getDistanceMatrixProviders, getRunCandidates, getRunDrivers } from '@/lib/deliveryRuns';
+
+// Orders and drivers available for planning a run on a date and time window
+export const GET = withTenant(async (req: NextRequest, context) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const date = searchParams.get('date');
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return ErrorResponses.invalidInput('date is required (YYYY-MM-DD)');
+    }
+
+    const [orders, drivers] = await Promise.all([
+      getRunCandidates(
+        context.tenantId,
+        date,
+        searchParams.get('windowStart'),
+        searchParams.get('windowEnd'),
+        searchParams.get('includeUnscheduled') === 'true'
+      ),
+      getRunDrivers(context.tenantId),
+    ]);
+
+    return NextResponse.json({ orders, drivers, distanceMatrices: getDistanceMatrixProviders() });
+  } catch (error) {
+    console.error('Error fetching delivery run candidates:', error);
+    return ErrorResponses.serverError('Failed to fetch delivery run candidates');
+  }
+});
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { createDeliveryRun, listDeliveryRuns } from '@/lib/deliveryRuns';
+
+export const GET = withTenant(async (req: NextRequest, context) => {
+  try {
+    const { searchParams } = new URL(req.url);
+
+    const runs = await listDeliveryRuns(context.tenantId, {
+      runDate: searchParams.get('date'),
+      driverId: searchParams.get('driverId'),
+      status: searchParams.get('status'),
+    });
+    return NextResponse.json(runs);
+  } catch (error) {
+    console.error('Error fetching delivery runs:', error);
+    return ErrorResponses.serverError('Failed to fetch delivery runs');
+  }
+});
+
+export const POST = withAuth(async (req: NextRequest, context) => {
+  try {
+    const {
+      driverId,
+      runDate,
+      windowStart,
+      windowEnd,
+      departureTime,
+      orderIds,
+      locations,
+      distanceMatrix,
+      averageSpeedKmh,
+      serviceMinutes,
+      notes,
+    } = await req.json();
+
+    const result = await createDeliveryRun(context.tenantId, context.userId, {
+      driverId,
+      runDate,
+      windowStart,
+      windowEnd,
+      departureTime,
+      orderIds: Array.isArray(orderIds) ? orderIds : [],
+      locations,
+      distanceMatrix,
+      averageSpeedKmh,
+      serviceMinutes,
+      notes,
+    });
+    if (!result.success) {
+      return ErrorResponses.invalidInput(result.error || 'Failed to create delivery run');
+    }
+
+    return NextResponse.json(result.run, { status: 201 });
+  } catch (error) {
+    console.error('Error creating delivery run:', error);
+    return ErrorResponses.serverError('Failed to create delivery run');
+  }
+});
@@ -139,6 +139,7 @@ export async function PUT(
       currentLatitude,
       currentLongitude,
       maxDeliveryRadius,
+      maxActiveOrders,
       emergencyContact,
       emergencyContactName,
       status,
@@ -215,6 +216,7 @@ export async function PUT(
     if (currentLatitude !== undefined) driverUpdates.currentLatitude = currentLatitude ? parseFloat(currentLatitude) : null;
     if (currentLongitude !== undefined) driverUpdates.currentLongitude = currentLongitude ? parseFloat(currentLongitude) : null;
     if (maxDeliveryRadius) driverUpdates.maxDeliveryRadius = maxDeliveryRadius;
+    if (maxActiveOrders) driverUpdates.maxActiveOrders = maxActiveOrders;
     if (emergencyContact) driverUpdates.emergencyContact = emergencyContact;
     if (emergencyContactName) driverUpdates.emergencyContactName = emergencyContactName;
     if (status) driverUpdates.status = status;
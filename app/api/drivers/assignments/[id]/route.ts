@@ -8,6 +8,7 @@ import {
 } from '@/lib/schema';
 import { eq, and } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
+import { driverHasActiveRun } from '@/lib/deliveryRuns';
 
 export async function PUT(
   req: NextRequest,
@@ -56,19 +57,23 @@ export async function PUT(
           break;
         case 'delivered':
           updates.deliveredAt = now;
-          // Update driver status back to available
-          await db
-            .update(drivers)
-            .set({ status: 'available', updatedAt: now })
-            .where(eq(drivers.id, assignment.driverId));
+          // Update driver status back to available, unless other stops of their run remain
+          if (!(await driverHasActiveRun(assignment.driverId))) {
+            await db
+              .update(drivers)
+              .set({ status: 'available', updatedAt: now })
+              .where(eq(drivers.id, assignment.driverId));
+          }
           break;
         case 'failed':
           updates.failedAt = now;
-          // Update driver status back to available
-          await db
-            .update(drivers)
-            .set({ status: 'available', updatedAt: now })
-            .where(eq(drivers.id, assignment.driverId));
+          // Update driver status back to available, unless other stops of their run remain
+          if (!(await driverHasActiveRun(assignment.driverId))) {
+            await db
+              .update(drivers)
+              .set({ status: 'available', updatedAt: now })
+              .where(eq(drivers.id, assignment.driverId));
+          }
           break;
       }
     }
@@ -174,14 +179,16 @@ export async function DELETE(
       })
       .where(eq(driverAssignments.id, id));
 
-    // Update driver status back to available
-    await db
-      .update(drivers)
-      .set({
-        status: 'available',
-        updatedAt: new Date()
-      })
-      .where(eq(drivers.id, assignment.driverId));
+    // Update driver status back to available, unless other stops of their run remain
+    if (!(await driverHasActiveRun(assignment.driverId))) {
+      await db
+        .update(drivers)
+        .set({
+          status: 'available',
+          updatedAt: new Date()
+        })
+        .where(eq(drivers.id, assignment.driverId));
+    }
 
     // Update order to remove driver assignment
     await db
@@ -9,49 +9,7 @@ import {
 } from '@/lib/schema';
 import { eq, and, or, desc, sql } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
-
-// Haversine formula to calculate distance between two coordinates
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371; // Earth's radius in kilometers
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLon = (lon2 - lon1) * Math.PI / 180;
-  const a = 
-    Math.sin(dLat/2) * Math.sin(dLat/2) +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-    Math.sin(dLon/2) * Math.sin(dLon/2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-  return R * c;
-}
-
-// Simple geocoding function (in production, use a real geocoding service)
-async function geocodeAddress(address: string): Promise<{ lat: number; lng: number } | null> {
-  try {
-    // This is a placeholder - in production, integrate with Google Maps API, OpenStreetMap, etc.
-    // For now, return some default coordinates for major cities
-    const cityCoordinates: { [key: string]: { lat: number; lng: number } } = {
-      'dubai': { lat: 25.2048, lng: 55.2708 },
-      'abu dhabi': { lat: 24.4539, lng: 54.3773 },
-      'sharjah': { lat: 25.3463, lng: 55.4209 },
-      'ajman': { lat: 25.4052, lng: 55.5136 },
-      'ras al khaimah': { lat: 25.7889, lng: 55.9598 },
-      'fujairah': { lat: 25.1164, lng: 56.3269 },
-      'umm al quwain': { lat: 25.5641, lng: 55.6550 },
-    };
-
-    const lowerAddress = address.toLowerCase();
-    for (const [city, coords] of Object.entries(cityCoordinates)) {
-      if (lowerAddress.includes(city)) {
-        return coords;
-      }
-    }
-
-    // Default to Dubai coordinates if no match found
-    return { lat: 25.2048, lng: 55.2708 };
-  } catch (error) {
-    console.error('Geocoding error:', error);
-    return null;
-  }
-}
+import { autoDispatchOrder, closeDispatchQueueEntry } from '@/lib/driverDispatch';
 
 export async function POST(req: NextRequest) {
   try {
@@ -86,91 +44,41 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    let selectedDriverId = driverId;
-    let nearestDriver: any = null;
+    // No driver chosen: let auto-dispatch pick one, or queue the order for manual assignment
+    if (!driverId && assignmentType === 'automatic') {
+      const result = await autoDispatchOrder(order[0].tenantId, orderId, {
+        assignedBy,
+        priority,
+        reassign: true,
+      });
 
-    // If no driver specified, find the nearest available driver
-    if (!selectedDriverId && assignmentType === 'automatic') {
-      const orderData = order[0];
-      
-      // Build delivery address
-      const deliveryAddress = [
-        orderData.shippingAddress1,
-        orderData.shippingCity,
-        orderData.shippingState,
-        orderData.shippingCountry
-      ].filter(Boolean).join(', ');
-
-      // Get coordinates for delivery address
-      const deliveryCoords = await geocodeAddress(deliveryAddress);
-      
-      if (!deliveryCoords) {
+      if (!result.success) {
         return NextResponse.json(
-          { error: 'Could not geocode delivery address' },
+          { error: result.error },
           { status: 400 }
         );
       }
 
-      // Get available drivers with their base locations
-      const availableDrivers = await db
-        .select({
-          driver: drivers,
-          user: {
-            name: user.name,
-            phone: user.phone,
-          }
-        })
-        .from(drivers)
-        .innerJoin(user, eq(drivers.userId, user.id))
-        .where(
-          and(
-            eq(drivers.status, 'available'),
-            eq(drivers.isActive, true)
-          )
-        );
-
-      if (availableDrivers.length === 0) {
-        return NextResponse.json(
-          { error: 'No available drivers found' },
-          { status: 404 }
-        );
-      }
-
-      // Calculate distances and find nearest driver
-      let minDistance = Infinity;
-
-      for (const driverData of availableDrivers) {
-        const driver = driverData.driver;
-        
-        if (driver.baseLatitude && driver.baseLongitude) {
-          const distance = calculateDistance(
-            parseFloat(driver.baseLatitude.toString()),
-            parseFloat(driver.baseLongitude.toString()),
-            deliveryCoords.lat,
-            deliveryCoords.lng
-          );
-
-          // Check if driver can cover this distance
-          if (distance <= (driver.maxDeliveryRadius || 50) && distance < minDistance) {
-            minDistance = distance;
-            nearestDriver = {
-              ...driverData,
-              distance
-            };
-          }
-        }
+      if (!result.assigned) {
+        return NextResponse.json({
+          message: 'No driver qualifies; the order has been queued for manual assignment',
+          queued: true,
+          reason: result.reason,
+          assignmentType
+        }, { status: 202 });
       }
 
-      if (!nearestDriver) {
-        return NextResponse.json(
-          { error: 'No drivers available within delivery radius' },
-          { status: 404 }
-        );
-      }
-
-      selectedDriverId = nearestDriver.driver.id;
+      return NextResponse.json({
+        message: 'Driver assigned successfully',
+        assignmentId: result.assignmentId,
+        driverId: result.driverId,
+        distance: result.distanceKm,
+        assignmentType
+      }, { status: 201 });
     }
 
+    const selectedDriverId = driverId;
+
     if (!selectedDriverId) {
       return NextResponse.json(
         { error: 'Driver ID is required for manual assignment' },
@@ -232,7 +140,6 @@ export async function POST(req: NextRequest) {
       priority,
       deliveryStatus: 'assigned',
       deliveryNotes,
-      estimatedDistance: assignmentType === 'automatic' && nearestDriver ? nearestDriver.distance : null,
       isActive: true,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -271,6 +178,9 @@ export async function POST(req: NextRequest) {
       createdAt: new Date(),
     });
 
+    // A manual assignment settles the order's place on the dispatch queue
+    await closeDispatchQueueEntry(order[0].tenantId, orderId, 'assigned', assignedBy);
+
     return NextResponse.json({
       message: 'Driver assigned successfully',
       assignmentId,
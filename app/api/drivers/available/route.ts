@@ -1,16 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { drivers, user } from '@/lib/schema';
+import { drivers, orders, user } from '@/lib/schema';
 import { eq, and } from 'drizzle-orm';
+import { withTenant } from '@/lib/api-helpers';
+import { rankDrivers, resolveDeliveryPoint } from '@/lib/driverDispatch';
 
-export async function GET(req: NextRequest) {
+export const GET = withTenant(async (req: NextRequest, context) => {
   try {
     const { searchParams } = new URL(req.url);
     const includeAll = searchParams.get('includeAll') === 'true';
+    const orderId = searchParams.get('orderId');
 
     // Build where conditions
-    const whereConditions = [eq(drivers.isActive, true)];
-    
+    const whereConditions = [eq(drivers.tenantId, context.tenantId), eq(drivers.isActive, true)];
+
     if (!includeAll) {
       whereConditions.push(eq(drivers.status, 'available'));
     }
@@ -29,6 +32,7 @@ export async function GET(req: NextRequest) {
           baseLocation: drivers.baseLocation,
           status: drivers.status,
           maxDeliveryRadius: drivers.maxDeliveryRadius,
+          maxActiveOrders: drivers.maxActiveOrders,
         },
         user: {
           id: user.id,
@@ -41,6 +45,53 @@ export async function GET(req: NextRequest) {
       .where(and(...whereConditions))
       .orderBy(user.name);
 
+    // For an order, rank the drivers the way auto-dispatch would
+    if (orderId) {
+      const [order] = await db
+        .select()
+        .from(orders)
+        .where(and(eq(orders.id, orderId), eq(orders.tenantId, context.tenantId)))
+        .limit(1);
+
+      if (!order) {
+        return NextResponse.json(
+          { error: 'Order not found' },
+          { status: 404 }
+        );
+      }
+
+      const destination = await resolveDeliveryPoint(context.tenantId, order);
+      const ranking = await rankDrivers(context.tenantId, destination?.point || null);
+      const rank = new Map(ranking.map((candidate, index) => [candidate.driverId, { ...candidate, rank: index }]));
+
+      const rankedDrivers = availableDrivers
+        .map(driverData => {
+          const candidate = rank.get(driverData.driver.id);
+          return {
+            ...driverData,
+            dispatch: candidate
+              ? {
+                distanceKm: candidate.distanceKm,
+                load: candidate.load,
+                capacity: candidate.capacity,
+                qualifies: candidate.qualifies,
+                reason: candidate.reason,
+                score: candidate.score,
+              }
+              : null,
+            rank: candidate?.rank ?? Infinity,
+          };
+        })
+        .sort((a, b) => a.rank - b.rank)
+        .map(({ rank: _rank, ...driverData }) => driverData);
+
+      return NextResponse.json({
+        drivers: rankedDrivers,
+        count: rankedDrivers.length,
+        deliveryPoint: destination,
+      });
+    }
+
     return NextResponse.json({
       drivers: availableDrivers,
       count: availableDrivers.length
@@ -53,4 +104,4 @@ export async function GET(req: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
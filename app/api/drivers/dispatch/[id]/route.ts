@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, ErrorResponses } from '@/lib/api-helpers';
+import { resolveDispatchQueueEntry } from '@/lib/driverDispatch';
+
+// Resolve a queued order: { action: 'assign', driverId } | { action: 'retry' } | { action: 'dismiss' }
+export const PUT = withAuth(async (req: NextRequest, context, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params;
+    const { action, driverId } = await req.json();
+
+    if (action !== 'assign' && action !== 'retry' && action !== 'dismiss') {
+      return ErrorResponses.invalidInput('action must be one of: assign, retry, dismiss');
+    }
+
+    const result = await resolveDispatchQueueEntry(
+      context.tenantId,
+      id,
+      context.userId,
+      action === 'assign' ? { type: 'assign', driverId } : { type: action }
+    );
+    if (!result.success) {
+      return result.error === 'Queue entry not found'
+        ? NextResponse.json({ error: result.error }, { status: 404 })
+        : ErrorResponses.invalidInput(result.error || 'Failed to update queue entry');
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error resolving dispatch queue entry:', error);
+    return ErrorResponses.serverError('Failed to update queue entry');
+  }
+});
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, withTenant, ErrorResponses } from '@/lib/api-helpers';
+import {
+  autoDispatchOrder,
+  getCityCoordinates,
+  getDeliveryGeocoders,
+  isAutoDispatchEnabled,
+  listDispatchQueue,
+  parseCityCoordinates,
+  setAutoDispatchEnabled,
+  setCityCoordinates,
+} from '@/lib/driverDispatch';
+import type { GeoPoint } from '@/lib/deliveryRuns';
+
+// The dispatch queue, whether orders are auto-dispatched on confirmation, and
+// the geocoders and city table used to place orders without a drop-off point
+export const GET = withTenant(async (req: NextRequest, context) => {
+  try {
+    const { searchParams } = new URL(req.url);
+
+    const [queue, autoDispatchEnabled, cityCoordinates] = await Promise.all([
+      listDispatchQueue(context.tenantId, searchParams.get('status') || 'pending'),
+      isAutoDispatchEnabled(context.tenantId),
+      getCityCoordinates(context.tenantId),
+    ]);
+
+    return NextResponse.json({
+      queue,
+      autoDispatchEnabled,
+      cityCoordinates: cityCoordinates.cities,
+      cityCoordinatesDefault: cityCoordinates.isDefault,
+      geocoders: getDeliveryGeocoders(),
+    });
+  } catch (error) {
+    console.error('Error fetching dispatch queue:', error);
+    return ErrorResponses.serverError('Failed to fetch dispatch queue');
+  }
+});
+
+// Auto-dispatch one order now
+export const POST = withAuth(async (req: NextRequest, context) => {
+  try {
+    const { orderId, priority, reassign } = await req.json();
+    if (!orderId) {
+      return ErrorResponses.invalidInput('orderId is required');
+    }
+
+    const result = await autoDispatchOrder(context.tenantId, orderId, {
+      assignedBy: context.userId,
+      priority,
+      reassign: reassign === true,
+    });
+    if (!result.success) {
+      return result.error === 'Order not found'
+        ? NextResponse.json({ error: result.error }, { status: 404 })
+        : ErrorResponses.invalidInput(result.error || 'Failed to dispatch order');
+    }
+
+    return NextResponse.json(result, { status: result.assigned ? 201 : 200 });
+  } catch (error) {
+    console.error('Error dispatching order:', error);
+    return ErrorResponses.serverError('Failed to dispatch order');
+  }
+});
+
+// Either setting may be sent on its own; cityCoordinates null restores the default table
+export const PUT = withTenant(async (req: NextRequest, context) => {
+  try {
+    const body = await req.json();
+    const { autoDispatchEnabled } = body;
+    if (autoDispatchEnabled !== undefined && typeof autoDispatchEnabled !== 'boolean') {
+      return ErrorResponses.invalidInput('autoDispatchEnabled must be true or false');
+    }
+
+    let cities: Record<string, GeoPoint> | null | undefined;
+    if (body.cityCoordinates !== undefined) {
+      cities = body.cityCoordinates === null ? null : parseCityCoordinates(body.cityCoordinates);
+      if (body.cityCoordinates !== null && !cities) {
+        return ErrorResponses.invalidInput('cityCoordinates must map city names to { latitude, longitude }');
+      }
+    }
+
+    if (autoDispatchEnabled !== undefined) {
+      await setAutoDispatchEnabled(context.tenantId, autoDispatchEnabled);
+    }
+    if (cities !== undefined) {
+      await setCityCoordinates(context.tenantId, cities);
+    }
+
+    const cityCoordinates = await getCityCoordinates(context.tenantId);
+    return NextResponse.json({
+      autoDispatchEnabled: await isAutoDispatchEnabled(context.tenantId),
+      cityCoordinates: cityCoordinates.cities,
+      cityCoordinatesDefault: cityCoordinates.isDefault,
+    });
+  } catch (error) {
+    console.error('Error updating dispatch settings:', error);
+    return ErrorResponses.serverError('Failed to update dispatch settings');
+  }
+});
@@ -169,6 +169,7 @@ export async function POST(req: NextRequest) {
       baseLatitude,
       baseLongitude,
       maxDeliveryRadius,
+      maxActiveOrders,
       emergencyContact,
       emergencyContactName,
       status = 'offline'
@@ -248,6 +249,7 @@ export async function POST(req: NextRequest) {
       baseLatitude: baseLatitude || null,
       baseLongitude: baseLongitude || null,
       maxDeliveryRadius: maxDeliveryRadius || 50,
+      maxActiveOrders: maxActiveOrders || 5,
       emergencyContact: emergencyContact || null,
       emergencyContactName: emergencyContactName || null,
       status,
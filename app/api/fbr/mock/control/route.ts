@@ -0,0 +1,76 @@
+/**
+ * Mock FBR Control Endpoint
+ *
+ * Lets tests script the mock's next responses. Scripts are keyed by the
+ * bearer token the app will send, so each test should use its own token.
+ *
+ * GET    ?token=...                 - Pending scripts and request history
+ * POST   { token, scripts, append } - Set (or append) scripted responses
+ * DELETE ?token=...                 - Reset one token, or everything if omitted
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  addMockFbrScripts,
+  getMockFbrState,
+  isFbrMockEnabled,
+  resetMockFbr,
+  setMockFbrScripts,
+  type MockFbrScript,
+} from '@/lib/fbr/mock';
+
+const ACTIONS: MockFbrScript['action'][] = ['http_error', 'timeout', 'invalid', 'malformed_json', 'valid'];
+
+function disabled() {
+  return NextResponse.json({ error: 'Mock FBR service is disabled' }, { status: 404 });
+}
+
+export async function GET(req: NextRequest) {
+  if (!isFbrMockEnabled()) return disabled();
+
+  const token = new URL(req.url).searchParams.get('token');
+  if (!token) {
+    return NextResponse.json({ error: 'token is required' }, { status: 400 });
+  }
+
+  return NextResponse.json({ token, ...getMockFbrState(token) });
+}
+
+export async function POST(req: NextRequest) {
+  if (!isFbrMockEnabled()) return disabled();
+
+  try {
+    const { token, scripts, append } = await req.json();
+
+    if (!token || !Array.isArray(scripts)) {
+      return NextResponse.json({ error: 'token and scripts[] are required' }, { status: 400 });
+    }
+
+    const invalid = scripts.find((script: MockFbrScript) => !ACTIONS.includes(script?.action));
+    if (invalid) {
+      return NextResponse.json({
+        error: `Invalid script action. Allowed: ${ACTIONS.join(', ')}`,
+      }, { status: 400 });
+    }
+
+    if (append) {
+      addMockFbrScripts(token, scripts);
+    } else {
+      setMockFbrScripts(token, scripts);
+    }
+
+    return NextResponse.json({ success: true, token, ...getMockFbrState(token) });
+  } catch (error) {
+    console.error('Error scripting mock FBR:', error);
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  if (!isFbrMockEnabled()) return disabled();
+
+  const token = new URL(req.url).searchParams.get('token') || undefined;
+  resetMockFbr(token);
+
+  return NextResponse.json({ success: true, reset: token || 'all' });
+}
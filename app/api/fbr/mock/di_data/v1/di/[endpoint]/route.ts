@@ -0,0 +1,59 @@
+/**
+ * Mock FBR Digital Invoicing Endpoints
+ *
+ * Answers validateinvoicedata(_sb) and postinvoicedata(_sb) like FBR does.
+ * Set a tenant's fbr_base_url to `<app-url>/api/fbr/mock/di_data/v1/di`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { handleMockFbrRequest, isFbrMockEnabled, type MockFbrEndpoint } from '@/lib/fbr/mock';
+
+const ENDPOINTS: Record<string, MockFbrEndpoint> = {
+  validateinvoicedata: 'validate',
+  validateinvoicedata_sb: 'validate',
+  postinvoicedata: 'post',
+  postinvoicedata_sb: 'post',
+};
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ endpoint: string }> }
+) {
+  if (!isFbrMockEnabled()) {
+    return NextResponse.json({ error: 'Mock FBR service is disabled' }, { status: 404 });
+  }
+
+  const { endpoint } = await params;
+  const mockEndpoint = ENDPOINTS[endpoint];
+  if (!mockEndpoint) {
+    return NextResponse.json({ error: `Unknown endpoint ${endpoint}` }, { status: 404 });
+  }
+
+  const token = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '').trim();
+  if (!token) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let invoice;
+  try {
+    invoice = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const result = handleMockFbrRequest(mockEndpoint, token, invoice);
+  console.log(`🧪 Mock FBR ${endpoint}: ${result.status}`, result.body?.validationResponse?.status || '');
+
+  if (result.delayMs) {
+    await new Promise(resolve => setTimeout(resolve, result.delayMs));
+  }
+
+  if (result.raw !== undefined) {
+    return new NextResponse(result.raw, {
+      status: result.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  return NextResponse.json(result.body, { status: result.status });
+}
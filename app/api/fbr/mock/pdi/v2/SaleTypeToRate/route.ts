@@ -0,0 +1,20 @@
+/**
+ * Mock FBR SaleTypeToRate Reference Endpoint
+ *
+ * Used by getSaleTypeToRate() when FBR_BASE_URL points at the mock service.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMockSaleTypeToRate, isFbrMockEnabled } from '@/lib/fbr/mock';
+
+export async function GET(req: NextRequest) {
+  if (!isFbrMockEnabled()) {
+    return NextResponse.json({ error: 'Mock FBR service is disabled' }, { status: 404 });
+  }
+
+  if (!req.headers.get('authorization')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return NextResponse.json(getMockSaleTypeToRate());
+}
@@ -0,0 +1,67 @@
+/**
+ * FBR Debit/Credit Notes API Route
+ *
+ * GET  - Original invoice of an order with all notes issued against it (?orderId=)
+ * POST - Issue a Debit/Credit Note for a completed return or refund and submit it to FBR
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { createFbrNote, getFbrNoteChain } from '@/lib/fbr/notes';
+
+export const GET = withTenant(async (req: NextRequest, context) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const orderId = searchParams.get('orderId');
+
+    if (!orderId) {
+      return ErrorResponses.invalidInput('orderId is required');
+    }
+
+    const chain = await getFbrNoteChain(context.tenantId, orderId);
+    if (!chain) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(chain);
+  } catch (error) {
+    console.error('Error fetching FBR notes:', error);
+    return ErrorResponses.serverError('Failed to fetch FBR notes');
+  }
+});
+
+export const POST = withTenant(async (req: NextRequest, context) => {
+  try {
+    const body = await req.json();
+    const { returnId, refundId, noteType, reason } = body;
+
+    const result = await createFbrNote(context.tenantId, {
+      returnId,
+      refundId,
+      noteType,
+      reason,
+      createdBy: context.userId,
+    });
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: result.error,
+        note: result.note,
+        fbrError: result.submission,
+      }, { status: 400 });
+    }
+
+    const queued = !!result.submission && !result.submission.ok;
+    return NextResponse.json({
+      success: true,
+      note: result.note,
+      fbrResponse: result.submission,
+      message: queued
+        ? `${result.note?.noteType} ${result.note?.noteNumber} created. FBR is unavailable, the note has been queued for submission`
+        : `${result.note?.noteType} ${result.note?.noteNumber} posted with FBR Invoice ${result.note?.fbrInvoiceNumber}`,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating FBR note:', error);
+    return ErrorResponses.serverError('Failed to create FBR note');
+  }
+});
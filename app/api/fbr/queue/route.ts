@@ -0,0 +1,66 @@
+/**
+ * FBR Submission Queue API Route
+ *
+ * GET  - List the tenant's invoices that have not been posted to FBR yet
+ * POST - Run the queue worker for this tenant, or retry a single submission
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { getUnsubmittedFbrSubmissions, processDueFbrSubmissions, processFbrSubmission } from '@/lib/fbr/queue';
+import type { FbrSubmissionStatus } from '@/lib/fbr/types';
+
+const VALID_STATUSES: FbrSubmissionStatus[] = ['queued', 'validating', 'posted', 'rejected', 'failed'];
+
+export const GET = withTenant(async (req: NextRequest, context) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const statusParam = searchParams.get('status');
+
+    let statuses: FbrSubmissionStatus[] | undefined;
+    if (statusParam && statusParam !== 'all') {
+      statuses = statusParam.split(',').filter((s): s is FbrSubmissionStatus => VALID_STATUSES.includes(s as FbrSubmissionStatus));
+      if (statuses.length === 0) {
+        return ErrorResponses.invalidInput(`Invalid status. Expected one of: ${VALID_STATUSES.join(', ')}`);
+      }
+    }
+
+    const submissions = await getUnsubmittedFbrSubmissions(context.tenantId, statuses);
+
+    return NextResponse.json({
+      submissions,
+      counts: {
+        queued: submissions.filter(s => s.status === 'queued').length,
+        validating: submissions.filter(s => s.status === 'validating').length,
+        rejected: submissions.filter(s => s.status === 'rejected').length,
+        failed: submissions.filter(s => s.status === 'failed').length,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching FBR submission queue:', error);
+    return ErrorResponses.serverError('Failed to fetch FBR submission queue');
+  }
+});
+
+export const POST = withTenant(async (req: NextRequest, context) => {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const { submissionId } = body;
+
+    if (submissionId) {
+      // Manual retry from the unsubmitted invoices screen
+      const result = await processFbrSubmission(submissionId, context.tenantId, true);
+      if (!result) {
+        return NextResponse.json({ error: 'FBR submission not found' }, { status: 404 });
+      }
+
+      return NextResponse.json({ success: result.status === 'posted', ...result });
+    }
+
+    const summary = await processDueFbrSubmissions(context.tenantId);
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error('Error processing FBR submission queue:', error);
+    return ErrorResponses.serverError('Failed to process FBR submission queue');
+  }
+});
@@ -0,0 +1,78 @@
+/**
+ * FBR Reference Data API Route
+ *
+ * GET  - Search cached reference data (?type=hs_code|uom|hs_uom|province|sale_type_rate|sro_schedule|sro_item&q=)
+ *        Use ?hsCode= for hs_uom and ?sroId= for sro_item; ?status=true returns record counts per type
+ * POST - Import reference lists from FBR ({ types?, date? }); super admins only, as the lists
+ *        are shared by every tenant (the scheduled sync is /api/cron/fbr-reference)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { getFbrReferenceStatus, searchFbrReference, syncFbrReferenceData } from '@/lib/fbr/reference';
+import type { FbrReferenceType } from '@/lib/fbr/types';
+
+const REFERENCE_TYPES: FbrReferenceType[] = [
+  'hs_code', 'uom', 'hs_uom', 'province', 'sale_type_rate', 'sro_schedule', 'sro_item',
+];
+
+async function isSuperAdmin() {
+  const session = await getServerSession(authOptions);
+  return (session?.user as any)?.type === 'super-admin';
+}
+
+export const GET = withTenant(async (req: NextRequest) => {
+  try {
+    const { searchParams } = new URL(req.url);
+
+    if (searchParams.get('status') === 'true') {
+      return NextResponse.json({ status: await getFbrReferenceStatus() });
+    }
+
+    const type = searchParams.get('type') as FbrReferenceType;
+    if (!REFERENCE_TYPES.includes(type)) {
+      return ErrorResponses.invalidInput(`type must be one of: ${REFERENCE_TYPES.join(', ')}`);
+    }
+
+    const parentCode = searchParams.get('hsCode') || searchParams.get('sroId') || searchParams.get('rateId') || undefined;
+    if ((type === 'hs_uom' || type === 'sro_item') && !parentCode) {
+      return ErrorResponses.invalidInput(type === 'hs_uom' ? 'hsCode is required' : 'sroId is required');
+    }
+
+    const results = await searchFbrReference(type, {
+      q: searchParams.get('q')?.trim() || undefined,
+      parentCode,
+      date: searchParams.get('date') || undefined,
+      limit: parseInt(searchParams.get('limit') || '20'),
+    });
+
+    return NextResponse.json({ type, results });
+  } catch (error) {
+    console.error('Error searching FBR reference data:', error);
+    return ErrorResponses.serverError('Failed to search FBR reference data');
+  }
+});
+
+export const POST = withTenant(async (req: NextRequest) => {
+  try {
+    if (!(await isSuperAdmin())) {
+      return ErrorResponses.forbidden();
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const { types, date } = body;
+
+    if (types !== undefined && (!Array.isArray(types) || types.some((t: string) => !REFERENCE_TYPES.includes(t as FbrReferenceType)))) {
+      return ErrorResponses.invalidInput(`types must be an array of: ${REFERENCE_TYPES.join(', ')}`);
+    }
+
+    const result = await syncFbrReferenceData({ types, date });
+
+    return NextResponse.json(result, { status: result.success ? 200 : 502 });
+  } catch (error) {
+    console.error('Error syncing FBR reference data:', error);
+    return ErrorResponses.serverError('Failed to sync FBR reference data');
+  }
+});
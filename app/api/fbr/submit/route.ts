@@ -11,6 +11,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { validateInvoice, postInvoice } from '@/lib/fbr/client';
 import { mapOrderToFbrInvoice, validateOrderForFbr } from '@/lib/fbr/mapper';
+import { loadFbrReferenceForOrder } from '@/lib/fbr/reference';
+import { getScenarioRules } from '@/lib/fbr/scenarioRules';
 import type { Order, FbrApiResponse } from '@/lib/fbr/types';
 
 export async function POST(req: NextRequest) {
@@ -25,9 +27,9 @@ export async function POST(req: NextRequest) {
     
     const body = await req.json();
     
-    // Check if we received an FBR invoice directly or an order to convert
+    // Check if we received an FBR invoice directly or an order to convert.
+    // Tokens are never accepted from the request; they come from the tenant's stored credentials.
     let fbrInvoice;
-    let customToken: string | undefined;
     let isProductionMode = false;
     
     if (body.invoiceType && body.scenarioId && body.items &&
@@ -35,23 +37,22 @@ export async function POST(req: NextRequest) {
         body.items[0]?.hsCode && body.items[0]?.rate) {
       // Direct FBR invoice payload (has all required FBR fields)
       fbrInvoice = body;
-      customToken = body.fbrSandboxToken;
       isProductionMode = body.isProductionSubmission || false;
       console.log('📄 Received direct FBR invoice payload');
     } else {
       // Order object that needs to be converted
       const order: Order = body;
-      customToken = order.fbrSandboxToken;
       isProductionMode = order.isProductionSubmission || false;
-      const customBaseUrl = order.fbrBaseUrl;
       console.log('🔄 Converting order to FBR invoice format');
       
       if (isProductionMode) {
         console.log('🚨 PRODUCTION MODE DETECTED in FBR submit API');
       }
       
-      // Validate order data first
-      const validation = validateOrderForFbr(order);
+      // Validate order data first (including cached FBR reference data)
+      const reference = await loadFbrReferenceForOrder(order);
+      const rules = await getScenarioRules(tenantContext?.tenantId, order.invoiceDate);
+      const validation = validateOrderForFbr(order, reference, rules);
       if (!validation.isValid) {
         return NextResponse.json({
           step: 'validation',
@@ -63,7 +64,7 @@ export async function POST(req: NextRequest) {
       
       // Convert order to FBR format
       try {
-        fbrInvoice = await mapOrderToFbrInvoice(order);
+        fbrInvoice = await mapOrderToFbrInvoice(order, undefined, rules);
         console.log('✅ Order converted to FBR format successfully');
         
         // 🔍 DEBUG: Log the final FBR JSON payload
@@ -103,8 +104,7 @@ export async function POST(req: NextRequest) {
     });
     
     // Step 1: Validate invoice with FBR
-    const customBaseUrl = (body as any).fbrBaseUrl;
-    const validateResp = await validateInvoice(fbrInvoice, customToken, tenantContext?.tenantId, customBaseUrl, isProductionMode);
+    const validateResp = await validateInvoice(fbrInvoice, tenantContext?.tenantId, isProductionMode);
     const validationStatus = validateResp?.validationResponse?.status;
     
     if (validationStatus !== 'Valid') {
@@ -131,7 +131,9 @@ export async function POST(req: NextRequest) {
     console.log('✅ FBR validation successful, proceeding to post invoice');
     
     // Step 2: Post invoice to FBR
-    const postResp = await postInvoice(fbrInvoice, customToken, tenantContext?.tenantId, customBaseUrl, isProductionMode);
+    const postResp = await postInvoice(fbrInvoice, tenantContext?.tenantId, isProductionMode, {
+      userId: tenantContext?.userId,
+    });
     
     console.log('📤 FBR post completed:', {
       success: postResp.success,
@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { settings } from '@/lib/schema';
 import { eq, and } from 'drizzle-orm';
+import { rotateFbrCredential } from '@/lib/fbr/credentials';
+
+// Legacy plain-text token keys; tokens now live encrypted in fbr_credentials
+const TOKEN_SETTING_KEYS = ['fbr_sandbox_token', 'fbr_production_token'];
 
 export async function GET(req: NextRequest) {
   try {
@@ -26,8 +30,9 @@ export async function GET(req: NextRequest) {
 
     // Filter FBR-related settings
     const fbrOnly = fbrSettings.filter(setting => 
-      setting.key?.toLowerCase().includes('fbr') || 
-      setting.key?.toLowerCase().includes('FBR')
+      (setting.key?.toLowerCase().includes('fbr') || 
+      setting.key?.toLowerCase().includes('FBR')) &&
+      !TOKEN_SETTING_KEYS.includes(setting.key.toLowerCase())
     );
 
     return NextResponse.json({
@@ -64,17 +69,23 @@ export async function POST(req: NextRequest) {
       }, { status: 400 });
     }
 
+    // Tokens are stored encrypted, separately from the plain settings
+    const rotation = await rotateFbrCredential(
+      tenantContext.tenantId,
+      isProduction ? 'production' : 'sandbox',
+      token,
+      { userId: tenantContext.userId }
+    );
+    if (!rotation.success) {
+      return NextResponse.json({ error: rotation.error }, { status: 400 });
+    }
+
     // Define the settings to create/update
     const settingsToUpdate = [
       {
         key: 'fbr_base_url',
         value: baseUrl,
         description: `FBR ${isProduction ? 'Production' : 'Sandbox'} Base URL`
-      },
-      {
-        key: 'fbr_sandbox_token',
-        value: token,
-        description: `FBR ${isProduction ? 'Production' : 'Sandbox'} Token`
       }
     ];
 
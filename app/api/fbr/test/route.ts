@@ -13,14 +13,29 @@ import {
   testOrderMapping,
   testAllScenarios,
   generateTestData,
+  type FbrTestTarget,
 } from '@/lib/fbr/test';
 import type { ScenarioId } from '@/lib/fbr/types';
 
+/**
+ * Build a target pointing at the local mock FBR service (?mock=true)
+ */
+function getMockTarget(req: NextRequest): FbrTestTarget {
+  const { origin } = new URL(req.url);
+  return {
+    endpoint: {
+      baseUrl: `${origin}/api/fbr/mock/di_data/v1/di`,
+      token: new URL(req.url).searchParams.get('token') || 'mock-test-token',
+    },
+  };
+}
+
 export async function GET(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url);
     const testType = searchParams.get('type') || 'setup';
     const scenario = (searchParams.get('scenario') || 'SN026') as ScenarioId;
+    const target = searchParams.get('mock') === 'true' ? getMockTarget(req) : {};
     
     switch (testType) {
       case 'setup':
@@ -33,7 +48,7 @@ export async function GET(req: NextRequest) {
         
       case 'validation':
         // Test FBR validation with a specific scenario
-        const validationResult = await testFbrValidation(scenario);
+        const validationResult = await testFbrValidation(scenario, target);
         return NextResponse.json({
           test: 'validation',
           scenario,
@@ -42,7 +57,7 @@ export async function GET(req: NextRequest) {
         
       case 'flow':
         // Test complete FBR flow (validate + post)
-        const flowResult = await testFbrFlow(scenario);
+        const flowResult = await testFbrFlow(scenario, target);
         return NextResponse.json({
           test: 'flow',
           scenario,
@@ -59,7 +74,7 @@ export async function GET(req: NextRequest) {
         
       case 'all-scenarios':
         // Test all scenarios with basic validation
-        const allScenariosResult = await testAllScenarios();
+        const allScenariosResult = await testAllScenarios(target);
         return NextResponse.json({
           test: 'all-scenarios',
           ...allScenariosResult,
@@ -84,6 +99,7 @@ export async function GET(req: NextRequest) {
             'mapping': 'Test order to FBR mapping',
             'all-scenarios': 'Test all scenarios with basic validation',
             'generate-data': 'Generate test data for a scenario',
+            'mock': 'Add &mock=true to validation, flow or all-scenarios to use the local mock FBR service',
           },
           usage: {
             'Test setup': '/api/fbr/test?type=setup',
@@ -91,6 +107,7 @@ export async function GET(req: NextRequest) {
             'Test SN002 flow': '/api/fbr/test?type=flow&scenario=SN002',
             'Test mapping': '/api/fbr/test?type=mapping',
             'Test all scenarios': '/api/fbr/test?type=all-scenarios',
+            'Test all scenarios offline': '/api/fbr/test?type=all-scenarios&mock=true',
             'Generate SN008 data': '/api/fbr/test?type=generate-data&scenario=SN008',
           },
         }, { status: 400 });
@@ -1,54 +1,140 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { productInventory } from '@/lib/schema';
-import { eq } from 'drizzle-orm';
+import { productInventory, products, stockMovements } from '@/lib/schema';
+import { and, eq } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { isWeightBasedProduct } from '@/utils/weightUtils';
+import { normalizeExpiryDate, receiveLot } from '@/lib/inventoryLots';
+import { recordReceiptCost } from '@/lib/inventoryCosting';
 
-export async function PUT(
-  req: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const PUT = withTenant(async (req: NextRequest, context, { params }: { params: Promise<{ id: string }> }) => {
   try {
     const { id } = await params;
-    const { 
-      quantity, 
-      lastRestockDate, 
-      supplier, 
+    const {
+      quantity,
+      lastRestockDate,
+      supplier,
       location,
-      restockRecord 
+      lotNumber,
+      expiryDate,
+      restockRecord
     } = await req.json();
 
+    const [current] = await db
+      .select({
+        inventory: productInventory,
+        stockManagementType: products.stockManagementType,
+      })
+      .from(productInventory)
+      .leftJoin(products, eq(productInventory.productId, products.id))
+      .where(and(eq(productInventory.id, id), eq(productInventory.tenantId, context.tenantId)))
+      .limit(1);
+
+    if (!current) {
+      return NextResponse.json({ error: 'Inventory record not found' }, { status: 404 });
+    }
+
+    if (isWeightBasedProduct(current.stockManagementType || 'quantity')) {
+      return ErrorResponses.invalidInput('Weight-based products are restocked through stock movements');
+    }
+
+    // The restock record carries the amount received; older clients only send the new total
+    const inventory = current.inventory;
+    const addedQuantity = restockRecord?.quantity !== undefined
+      ? parseInt(restockRecord.quantity)
+      : parseInt(quantity) - inventory.quantity;
+
+    if (!Number.isInteger(addedQuantity) || addedQuantity <= 0) {
+      return ErrorResponses.invalidInput('Please enter a valid restock quantity');
+    }
+
+    const lotExpiryDate = normalizeExpiryDate(expiryDate);
+    if (lotExpiryDate === undefined) {
+      return ErrorResponses.invalidInput('Invalid expiry date');
+    }
+    if (lotExpiryDate && !lotNumber) {
+      return ErrorResponses.invalidInput('A lot number is required when an expiry date is given');
+    }
+
+    const newQuantity = inventory.quantity + addedQuantity;
+    const unitCost = restockRecord?.cost ?? null;
+
     // Update the inventory record
     await db
       .update(productInventory)
       .set({
-        quantity,
-        availableQuantity: quantity, // Assume no reserved quantity change for now
-        lastRestockDate: lastRestockDate ? new Date(lastRestockDate) : null,
+        quantity: newQuantity,
+        availableQuantity: newQuantity - (inventory.reservedQuantity || 0),
+        lastRestockDate: lastRestockDate ? new Date(lastRestockDate) : new Date(),
         supplier: supplier || null,
         location: location || null,
+        updatedAt: new Date(),
       })
       .where(eq(productInventory.id, id));
 
-    // Get the updated inventory record
-    const updatedInventory = await db.query.productInventory.findFirst({
-      where: eq(productInventory.id, id),
+    // Received stock with a lot number becomes its own lot
+    const lot = lotNumber && String(lotNumber).trim()
+      ? await receiveLot(context.tenantId, inventory, {
+          lotNumber: String(lotNumber),
+          expiryDate: lotExpiryDate,
+          amount: addedQuantity,
+          isWeightBased: false,
+          unitCost,
+          supplier: supplier || null,
+        })
+      : null;
+
+    const movementId = uuidv4();
+    await db.insert(stockMovements).values({
+      id: movementId,
+      tenantId: context.tenantId,
+      inventoryId: inventory.id,
+      productId: inventory.productId!,
+      variantId: inventory.variantId || null,
+      movementType: 'in',
+      quantity: addedQuantity,
+      previousQuantity: inventory.quantity,
+      newQuantity,
+      weightQuantity: '0.00',
+      previousWeightQuantity: '0.00',
+      newWeightQuantity: '0.00',
+      reason: 'Restock',
+      locationId: inventory.locationId,
+      location: location || null,
+      lotId: lot?.id || null,
+      reference: lot ? lot.lotNumber : null,
+      notes: [restockRecord?.reason, restockRecord?.notes].filter(Boolean).join(' - ') || null,
+      costPrice: unitCost !== null ? String(unitCost) : null,
+      supplier: supplier || null,
+      processedBy: context.userId || null,
+      createdAt: new Date(),
     });
 
-    if (!updatedInventory) {
-      return NextResponse.json({ error: 'Inventory record not found' }, { status: 404 });
-    }
+    await recordReceiptCost(context.tenantId, {
+      productId: inventory.productId!,
+      variantId: inventory.variantId,
+      amount: addedQuantity,
+      isWeightBased: false,
+      unitCost,
+      movementId,
+    });
+
+    // Get the updated inventory record
+    const [updatedInventory] = await db
+      .select()
+      .from(productInventory)
+      .where(eq(productInventory.id, id))
+      .limit(1);
 
-    // In a real application, you might want to store the restock record 
-    // in a separate restockHistory table for audit purposes
-    // For now, we'll just return the updated inventory
-    
     return NextResponse.json({
       inventory: updatedInventory,
+      lot,
       restockRecord: restockRecord,
       message: 'Inventory restocked successfully'
     });
   } catch (error) {
     console.error('Error restocking inventory:', error);
-    return NextResponse.json({ error: 'Failed to restock inventory' }, { status: 500 });
+    return ErrorResponses.serverError('Failed to restock inventory');
   }
-} 
\ No newline at end of file
+});
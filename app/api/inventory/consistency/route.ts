@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { checkStockConsistency } from '@/lib/stockReservations';
+
+// GET - inventory rows whose stock disagrees with their movements or open reservations
+export const GET = withTenant(async (req: NextRequest, context) => {
+  try {
+    const report = await checkStockConsistency(context.tenantId);
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error checking stock consistency:', error);
+    return ErrorResponses.serverError('Failed to check stock consistency');
+  }
+});
+
+// POST - recompute reserved and available stock for rows that have drifted
+export const POST = withTenant(async (req: NextRequest, context) => {
+  try {
+    const report = await checkStockConsistency(context.tenantId, true);
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error fixing stock consistency:', error);
+    return ErrorResponses.serverError('Failed to fix stock consistency');
+  }
+});
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { recordStockCountEntries } from '@/lib/stockCounts';
+
+// PUT - record counted values and approvals
+// ({ entries: [{ itemId | sku, quantity | weightQuantity (grams), mode?: 'set' | 'add', approved? }] })
+export const PUT = withTenant(async (req: NextRequest, context, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params;
+    const { entries } = await req.json();
+
+    const result = await recordStockCountEntries(context.tenantId, id, entries, context.userId);
+
+    if (!result.success) {
+      return result.error === 'Count not found'
+        ? NextResponse.json({ error: result.error }, { status: 404 })
+        : ErrorResponses.invalidInput(result.error || 'Failed to record counts');
+    }
+
+    return NextResponse.json({ updated: result.updated, unmatched: result.unmatched });
+  } catch (error) {
+    console.error('Error recording stock count entries:', error);
+    return ErrorResponses.serverError('Failed to record stock counts');
+  }
+});
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { cancelStockCount, getStockCountDetails, postStockCount } from '@/lib/stockCounts';
+
+export const GET = withTenant(async (req: NextRequest, context, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params;
+    const details = await getStockCountDetails(context.tenantId, id);
+
+    if (!details) {
+      return NextResponse.json({ error: 'Count not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(details);
+  } catch (error) {
+    console.error('Error fetching stock count:', error);
+    return ErrorResponses.serverError('Failed to fetch stock count');
+  }
+});
+
+// PATCH - post the approved variances or cancel an open count ({ action: 'post' | 'cancel' })
+export const PATCH = withTenant(async (req: NextRequest, context, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params;
+    const { action } = await req.json();
+
+    let result;
+    if (action === 'post') {
+      result = await postStockCount(context.tenantId, id, context.userId);
+    } else if (action === 'cancel') {
+      result = await cancelStockCount(context.tenantId, id, context.userId);
+    } else {
+      return ErrorResponses.invalidInput('Action must be post or cancel');
+    }
+
+    if (!result.success) {
+      return result.error === 'Count not found'
+        ? NextResponse.json({ error: result.error }, { status: 404 })
+        : ErrorResponses.invalidInput(result.error || 'Failed to update count');
+    }
+
+    return NextResponse.json(result.count);
+  } catch (error) {
+    console.error('Error updating stock count:', error);
+    return ErrorResponses.serverError('Failed to update stock count');
+  }
+});
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { createStockCount, listStockCounts } from '@/lib/stockCounts';
+
+export const GET = withTenant(async (req: NextRequest, context) => {
+  try {
+    const status = req.nextUrl.searchParams.get('status') || undefined;
+    const counts = await listStockCounts(context.tenantId, status);
+
+    return NextResponse.json(counts.map(row => ({
+      ...row.count,
+      locationName: row.locationName,
+      categoryName: row.categoryName,
+      itemCount: Number(row.itemCount || 0),
+      countedCount: Number(row.countedCount || 0),
+    })));
+  } catch (error) {
+    console.error('Error fetching stock counts:', error);
+    return ErrorResponses.serverError('Failed to fetch stock counts');
+  }
+});
+
+// POST - start a count ({ locationId, categoryId?, notes? }), freezing the expected stock
+export const POST = withTenant(async (req: NextRequest, context) => {
+  try {
+    const { locationId, categoryId, notes } = await req.json();
+
+    const result = await createStockCount(context.tenantId, {
+      locationId,
+      categoryId: categoryId || null,
+      notes,
+      createdBy: context.userId,
+    });
+
+    if (!result.success) {
+      return ErrorResponses.invalidInput(result.error || 'Failed to start count');
+    }
+
+    return NextResponse.json(result.count, { status: 201 });
+  } catch (error) {
+    console.error('Error creating stock count:', error);
+    return ErrorResponses.serverError('Failed to create stock count');
+  }
+});
@@ -1,105 +1,141 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { productInventory, products, productVariants, categories } from '@/lib/schema';
-import { eq, isNull, and } from 'drizzle-orm';
+import { eq } from 'drizzle-orm';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { getDefaultLocation, listLocations } from '@/lib/inventoryLocations';
+import { getStockManagementSettingDirect, resolveStockTracking } from '@/lib/stockManagement';
 
-export async function GET() {
+type InventoryRow = typeof productInventory.$inferSelect;
+
+// Sum stock levels across the inventory rows of one product/variant, with a per-location breakdown
+function summarizeStock(rows: InventoryRow[], locationNames: Map<string, string>, defaultLocationId: string) {
+  const totals = {
+    currentStock: 0,
+    reservedStock: 0,
+    availableStock: 0,
+    reorderPoint: 0,
+    currentWeight: 0,
+    reservedWeight: 0,
+    availableWeight: 0,
+    reorderWeightPoint: 0,
+    lastRestocked: null as Date | null,
+  };
+
+  const locations = rows.map((row) => {
+    const currentStock = row.quantity || 0;
+    const reservedStock = row.reservedQuantity || 0;
+    const currentWeight = parseFloat(row.weightQuantity || '0');
+    const reservedWeight = parseFloat(row.reservedWeight || '0');
+    const locationId = row.locationId || defaultLocationId;
+
+    totals.currentStock += currentStock;
+    totals.reservedStock += reservedStock;
+    totals.availableStock += currentStock - reservedStock;
+    totals.reorderPoint += row.reorderPoint || 0;
+    totals.currentWeight += currentWeight;
+    totals.reservedWeight += reservedWeight;
+    totals.availableWeight += currentWeight - reservedWeight;
+    totals.reorderWeightPoint += parseFloat(row.reorderWeightPoint || '0');
+    if (row.lastRestockDate && (!totals.lastRestocked || row.lastRestockDate > totals.lastRestocked)) {
+      totals.lastRestocked = row.lastRestockDate;
+    }
+
+    return {
+      inventoryId: row.id,
+      locationId,
+      locationName: locationNames.get(locationId) || 'Unknown location',
+      bin: row.location,
+      currentStock,
+      reservedStock,
+      availableStock: currentStock - reservedStock,
+      currentWeight,
+      reservedWeight,
+      availableWeight: currentWeight - reservedWeight,
+    };
+  });
+
+  return { ...totals, locations };
+}
+
+export const GET = withTenant(async (req: NextRequest, context) => {
   try {
-    // Fetch all products with their categories
-    const allProducts = await db
-      .select({
-        product: products,
-        category: categories,
-      })
-      .from(products)
-      .leftJoin(categories, eq(products.categoryId, categories.id));
+    // Optional location filter; without it stock is summed across all locations
+    const locationId = req.nextUrl.searchParams.get('locationId');
 
-    // Fetch all product variants
-    const allVariants = await db
-      .select({
-        variant: productVariants,
-      })
-      .from(productVariants);
+    const [allProducts, allVariants, allInventory, locations, defaultLocation, stockManagementEnabled] = await Promise.all([
+      db
+        .select({
+          product: products,
+          category: categories,
+        })
+        .from(products)
+        .leftJoin(categories, eq(products.categoryId, categories.id))
+        .where(eq(products.tenantId, context.tenantId)),
+      db
+        .select()
+        .from(productVariants)
+        .where(eq(productVariants.tenantId, context.tenantId)),
+      db
+        .select()
+        .from(productInventory)
+        .where(eq(productInventory.tenantId, context.tenantId)),
+      listLocations(context.tenantId, true),
+      getDefaultLocation(context.tenantId),
+      getStockManagementSettingDirect(context.tenantId),
+    ]);
 
-    // Fetch all inventory data
-    const allInventory = await db
-      .select({
-        inventory: productInventory,
-      })
-      .from(productInventory);
+    const locationNames = new Map(locations.map((location) => [location.id, location.name]));
+    const inLocation = (row: InventoryRow) =>
+      !locationId || (row.locationId || defaultLocation.id) === locationId;
 
     // Process and combine the data
-    const inventoryListing = allProducts.map((productItem) => {
-      const product = productItem.product;
-      const category = productItem.category;
-      
+    const inventoryListing = allProducts.map(({ product, category }) => {
+      const base = {
+        productId: product.id,
+        productName: product.name,
+        productSku: product.sku || '',
+        productType: product.productType || 'simple',
+        categoryName: category?.name || 'Uncategorized',
+        isActive: product.isActive,
+        stockManagementType: product.stockManagementType || 'quantity',
+        pricePerUnit: product.pricePerUnit ? parseFloat(product.pricePerUnit) : undefined,
+        baseWeightUnit: product.baseWeightUnit || 'grams',
+        stockTracking: resolveStockTracking(stockManagementEnabled, product),
+      };
+
       if (product.productType === 'variable') {
-        // Get variants for this product
-        const productVariants = allVariants.filter((v) => v.variant.productId === product.id);
-        
-        const variants = productVariants.map((variantItem) => {
-          const variant = variantItem.variant;
-          const variantInventory = allInventory.find((inv) => 
-            inv.inventory.variantId === variant.id
-          );
-          
-          const currentStock = variantInventory?.inventory.quantity || 0;
-          const reservedStock = variantInventory?.inventory.reservedQuantity || 0;
-          const availableStock = variantInventory?.inventory.availableQuantity || currentStock - reservedStock;
-          
-          return {
+        const variants = allVariants
+          .filter((variant) => variant.productId === product.id)
+          .map((variant) => ({
             variantId: variant.id,
             variantTitle: variant.title,
             variantSku: variant.sku || '',
-            currentStock,
-            reservedStock,
-            availableStock,
-            reorderPoint: variantInventory?.inventory.reorderPoint || 0,
-            lastRestocked: variantInventory?.inventory.lastRestockDate || null,
             isActive: variant.isActive,
-          };
-        });
-
-        return {
-          productId: product.id,
-          productName: product.name,
-          productSku: product.sku || '',
-          productType: product.productType || 'simple',
-          categoryName: category?.name || 'Uncategorized',
-          isActive: product.isActive,
-          variants,
-        };
-      } else {
-        // Simple product
-        const productInventory = allInventory.find((inv) => 
-          inv.inventory.productId === product.id && !inv.inventory.variantId
-        );
+            stockTracking: resolveStockTracking(stockManagementEnabled, product, variant),
+            ...summarizeStock(
+              allInventory.filter((row) => row.variantId === variant.id && inLocation(row)),
+              locationNames,
+              defaultLocation.id
+            ),
+          }));
 
-        const currentStock = productInventory?.inventory.quantity || 0;
-        const reservedStock = productInventory?.inventory.reservedQuantity || 0;
-        const availableStock = productInventory?.inventory.availableQuantity || currentStock - reservedStock;
-
-        return {
-          productId: product.id,
-          productName: product.name,
-          productSku: product.sku || '',
-          productType: product.productType || 'simple',
-          categoryName: category?.name || 'Uncategorized',
-          isActive: product.isActive,
-          simpleStock: {
-            currentStock,
-            reservedStock,
-            availableStock,
-            reorderPoint: productInventory?.inventory.reorderPoint || 0,
-            lastRestocked: productInventory?.inventory.lastRestockDate || null,
-          },
-        };
+        return { ...base, variants };
       }
+
+      return {
+        ...base,
+        simpleStock: summarizeStock(
+          allInventory.filter((row) => row.productId === product.id && !row.variantId && inLocation(row)),
+          locationNames,
+          defaultLocation.id
+        ),
+      };
     });
 
     return NextResponse.json(inventoryListing);
   } catch (error) {
     console.error('Error fetching inventory listing:', error);
-    return NextResponse.json({ error: 'Failed to fetch inventory listing' }, { status: 500 });
+    return ErrorResponses.serverError('Failed to fetch inventory listing');
   }
-} 
\ No newline at end of file
+});
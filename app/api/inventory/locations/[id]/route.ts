@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { deleteLocation, updateLocation } from '@/lib/inventoryLocations';
+
+export const PUT = withTenant(async (req: NextRequest, context, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params;
+    const { name, code, type, address, isDefault, isActive } = await req.json();
+
+    const result = await updateLocation(context.tenantId, id, { name, code, type, address, isDefault, isActive });
+    if (!result.success) {
+      return result.error === 'Location not found'
+        ? NextResponse.json({ error: result.error }, { status: 404 })
+        : ErrorResponses.invalidInput(result.error || 'Failed to update location');
+    }
+
+    return NextResponse.json(result.location);
+  } catch (error) {
+    console.error('Error updating inventory location:', error);
+    return ErrorResponses.serverError('Failed to update inventory location');
+  }
+});
+
+export const DELETE = withTenant(async (req: NextRequest, context, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params;
+
+    const result = await deleteLocation(context.tenantId, id);
+    if (!result.success) {
+      return result.error === 'Location not found'
+        ? NextResponse.json({ error: result.error }, { status: 404 })
+        : ErrorResponses.invalidInput(result.error || 'Failed to delete location');
+    }
+
+    return NextResponse.json({ message: 'Location deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting inventory location:', error);
+    return ErrorResponses.serverError('Failed to delete inventory location');
+  }
+});
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { createLocation, getDefaultLocation, listLocations } from '@/lib/inventoryLocations';
+
+export const GET = withTenant(async (req: NextRequest, context) => {
+  try {
+    const includeInactive = req.nextUrl.searchParams.get('includeInactive') === 'true';
+
+    // Ensure tenants without any locations get their default one
+    await getDefaultLocation(context.tenantId);
+    const locations = await listLocations(context.tenantId, includeInactive);
+
+    return NextResponse.json(locations);
+  } catch (error) {
+    console.error('Error fetching inventory locations:', error);
+    return ErrorResponses.serverError('Failed to fetch inventory locations');
+  }
+});
+
+export const POST = withTenant(async (req: NextRequest, context) => {
+  try {
+    const { name, code, type, address, isDefault, isActive } = await req.json();
+
+    const result = await createLocation(context.tenantId, { name, code, type, address, isDefault, isActive });
+    if (!result.success) {
+      return ErrorResponses.invalidInput(result.error || 'Failed to create location');
+    }
+
+    return NextResponse.json(result.location, { status: 201 });
+  } catch (error) {
+    console.error('Error creating inventory location:', error);
+    return ErrorResponses.serverError('Failed to create inventory location');
+  }
+});
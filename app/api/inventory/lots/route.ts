@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { listLots, type InventoryLotStatus } from '@/lib/inventoryLots';
+
+const LOT_STATUSES = ['active', 'depleted', 'expired', 'all'];
+
+// GET - lots report (?status=, ?expiringWithinDays=, ?expired=true, ?locationId=, ?productId=)
+export const GET = withTenant(async (req: NextRequest, context) => {
+  try {
+    const searchParams = req.nextUrl.searchParams;
+    const status = searchParams.get('status') || 'active';
+    const expiringWithinDays = searchParams.get('expiringWithinDays');
+
+    if (!LOT_STATUSES.includes(status)) {
+      return ErrorResponses.invalidInput('Invalid lot status');
+    }
+    if (expiringWithinDays !== null && (isNaN(parseInt(expiringWithinDays)) || parseInt(expiringWithinDays) < 0)) {
+      return ErrorResponses.invalidInput('expiringWithinDays must be a non-negative number');
+    }
+
+    const lots = await listLots(context.tenantId, {
+      status: status as InventoryLotStatus | 'all',
+      expiringWithinDays: expiringWithinDays !== null ? parseInt(expiringWithinDays) : undefined,
+      expiredOnly: searchParams.get('expired') === 'true',
+      locationId: searchParams.get('locationId') || undefined,
+      productId: searchParams.get('productId') || undefined,
+    });
+
+    return NextResponse.json(lots.map(row => ({
+      ...row.lot,
+      productName: row.product?.name || 'Unknown product',
+      productSku: row.product?.sku || '',
+      stockManagementType: row.product?.stockManagementType || 'quantity',
+      variantTitle: row.variant?.title || null,
+      variantSku: row.variant?.sku || null,
+      locationName: row.location?.name || null,
+      locationCode: row.location?.code || null,
+      daysToExpiry: row.daysToExpiry,
+    })));
+  } catch (error) {
+    console.error('Error fetching inventory lots:', error);
+    return ErrorResponses.serverError('Failed to fetch inventory lots');
+  }
+});
@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { writeOffExpiredLots } from '@/lib/inventoryLots';
+
+// POST - write off every expired lot of the tenant now instead of waiting for the cron run
+export const POST = withTenant(async (req: NextRequest, context) => {
+  try {
+    const summary = await writeOffExpiredLots(context.tenantId, context.userId);
+    return NextResponse.json({ success: summary.failed === 0, ...summary });
+  } catch (error) {
+    console.error('Error writing off expired lots:', error);
+    return ErrorResponses.serverError('Failed to write off expired lots');
+  }
+});
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { createDraftPurchaseOrders, getReorderSuggestions, type ReorderOptions } from '@/lib/replenishment';
+
+const parseOptions = (source: Record<string, any>): ReorderOptions => ({
+  locationId: source.locationId || null,
+  supplierId: source.supplierId || null,
+  useSalesVelocity: source.useSalesVelocity === true || source.useSalesVelocity === 'true',
+  velocityDays: source.velocityDays ? parseInt(source.velocityDays) : undefined,
+  coverDays: source.coverDays ? parseInt(source.coverDays) : undefined,
+});
+
+// GET - items at or below their reorder point (?locationId, supplierId, useSalesVelocity, velocityDays, coverDays)
+export const GET = withTenant(async (req: NextRequest, context) => {
+  try {
+    const options = parseOptions(Object.fromEntries(req.nextUrl.searchParams));
+    const suggestions = await getReorderSuggestions(context.tenantId, options);
+
+    return NextResponse.json(suggestions);
+  } catch (error) {
+    console.error('Error fetching reorder suggestions:', error);
+    return ErrorResponses.serverError('Failed to fetch reorder suggestions');
+  }
+});
+
+// POST - create draft purchase orders from suggestions ({ ...options, lines?: [{ inventoryId, quantity? }] })
+export const POST = withTenant(async (req: NextRequest, context) => {
+  try {
+    const body = await req.json();
+
+    if (body.lines !== undefined && !Array.isArray(body.lines)) {
+      return ErrorResponses.invalidInput('lines must be an array');
+    }
+
+    const result = await createDraftPurchaseOrders(context.tenantId, {
+      ...parseOptions(body),
+      lines: body.lines,
+    });
+
+    if (!result.success) {
+      return ErrorResponses.invalidInput(result.error || 'Failed to create purchase orders');
+    }
+
+    return NextResponse.json({ purchaseOrders: result.purchaseOrders, skipped: result.skipped }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating draft purchase orders:', error);
+    return ErrorResponses.serverError('Failed to create purchase orders');
+  }
+});
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { productInventory, products, productVariants, suppliers } from '@/lib/schema';
+import { inventoryLocations, productInventory, products, productVariants, suppliers } from '@/lib/schema';
 import { v4 as uuidv4 } from 'uuid';
 import { eq, inArray, and } from 'drizzle-orm';
 import { convertToGrams, isWeightBasedProduct } from '@/utils/weightUtils';
 import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { findInventoryAtLocation, resolveLocation } from '@/lib/inventoryLocations';
 
 export const GET = withTenant(async (request: NextRequest, context) => {
   try {
@@ -27,6 +28,11 @@ export const GET = withTenant(async (request: NextRequest, context) => {
           id: suppliers.id,
           name: suppliers.name,
           companyName: suppliers.companyName
+        },
+        inventoryLocation: {
+          id: inventoryLocations.id,
+          name: inventoryLocations.name,
+          code: inventoryLocations.code
         }
       })
       .from(productInventory)
@@ -42,6 +48,7 @@ export const GET = withTenant(async (request: NextRequest, context) => {
         eq(productInventory.supplierId, suppliers.id),
         eq(suppliers.tenantId, context.tenantId)
       ))
+      .leftJoin(inventoryLocations, eq(productInventory.locationId, inventoryLocations.id))
       .where(eq(productInventory.tenantId, context.tenantId));
       
     return NextResponse.json(allInventory);
@@ -69,6 +76,7 @@ export const POST = withTenant(async (req: NextRequest, context) => {
       reorderWeightPointUnit,
       reorderWeightQuantity,
       reorderWeightQuantityUnit,
+      locationId,
       location, 
       supplier, 
       lastRestockDate 
@@ -86,12 +94,24 @@ export const POST = withTenant(async (req: NextRequest, context) => {
     if (!product) {
       return ErrorResponses.tenantNotFound();
     }
+
+    const stockLocation = await resolveLocation(context.tenantId, locationId);
+    if (!stockLocation) {
+      return ErrorResponses.invalidInput('Location not found');
+    }
+
+    // Inventory is keyed by product/variant/location
+    const existing = await findInventoryAtLocation(context.tenantId, { productId, variantId }, stockLocation);
+    if (existing) {
+      return ErrorResponses.invalidInput(`An inventory record already exists for this item at ${stockLocation.name}`);
+    }
     
     let newInventory: any = {
       id: uuidv4(),
       tenantId: context.tenantId, // Add tenant ID
       productId: productId || null,
       variantId: variantId || null,
+      locationId: stockLocation.id,
       location: location || null,
       supplier: supplier || null,
       lastRestockDate: lastRestockDate ? new Date(lastRestockDate) : null,
@@ -1,16 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { productInventory, products, productVariants, stockMovements } from '@/lib/schema';
+import { inventoryLocations, productInventory, products, productVariants, stockMovements } from '@/lib/schema';
 import { v4 as uuidv4 } from 'uuid';
-import { eq, and, isNull, desc, inArray } from 'drizzle-orm';
+import { eq, and, desc, inArray } from 'drizzle-orm';
 import { convertToGrams, isWeightBasedProduct } from '@/utils/weightUtils';
 import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { findInventoryAtLocation, resolveLocation } from '@/lib/inventoryLocations';
+import { consumeLots, normalizeExpiryDate, receiveLot } from '@/lib/inventoryLots';
+import { recordReceiptCost } from '@/lib/inventoryCosting';
 
 // This would ideally be a separate table for stock movements
 // For now, we'll create a mock implementation that updates inventory directly
 
 export const GET = withTenant(async (request: NextRequest, context) => {
   try {
+    const locationId = request.nextUrl.searchParams.get('locationId');
+    const conditions = [eq(stockMovements.tenantId, context.tenantId)];
+    if (locationId) {
+      conditions.push(eq(stockMovements.locationId, locationId));
+    }
+
     // Fetch stock movements with product and variant information, filtered by tenant
     const movements = await db
       .select({
@@ -22,6 +31,7 @@ export const GET = withTenant(async (request: NextRequest, context) => {
           baseWeightUnit: products.baseWeightUnit
         },
         variant: productVariants,
+        locationName: inventoryLocations.name,
       })
       .from(stockMovements)
       .leftJoin(products, and(
@@ -32,11 +42,12 @@ export const GET = withTenant(async (request: NextRequest, context) => {
         eq(stockMovements.variantId, productVariants.id),
         eq(productVariants.tenantId, context.tenantId)
       ))
-      .where(eq(stockMovements.tenantId, context.tenantId))
+      .leftJoin(inventoryLocations, eq(stockMovements.locationId, inventoryLocations.id))
+      .where(and(...conditions))
       .orderBy(desc(stockMovements.createdAt))
       .limit(1000); // Limit to prevent too much data
 
-    const formattedMovements = movements.map(({ movement, product, variant }) => ({
+    const formattedMovements = movements.map(({ movement, product, variant, locationName }) => ({
       id: movement.id,
       productName: product?.name || 'Unknown Product',
       variantTitle: variant?.title || null,
@@ -51,7 +62,10 @@ export const GET = withTenant(async (request: NextRequest, context) => {
       stockManagementType: product?.stockManagementType || 'quantity',
       baseWeightUnit: product?.baseWeightUnit || 'grams',
       reason: movement.reason,
+      locationId: movement.locationId,
+      locationName: locationName || null,
       location: movement.location,
+      transferId: movement.transferId,
       reference: movement.reference,
       notes: movement.notes,
       costPrice: movement.costPrice,
@@ -79,12 +93,16 @@ export const POST = withTenant(async (req: NextRequest, context) => {
       weightQuantity,
       weightUnit,
       reason, 
+      locationId,
       location, 
       reference, 
       notes,
       costPrice,
       supplier,
-      supplierId 
+      supplierId,
+      // Lot tracking (Stock In only)
+      lotNumber,
+      expiryDate
     } = await req.json();
     
     // Get product to determine stock management type (within tenant)
@@ -117,23 +135,23 @@ export const POST = withTenant(async (req: NextRequest, context) => {
       }
     }
 
-    // Find existing inventory record within tenant
-    let whereConditions = [
-      eq(productInventory.productId, productId),
-      eq(productInventory.tenantId, context.tenantId)
-    ];
-    
-    if (variantId) {
-      whereConditions.push(eq(productInventory.variantId, variantId));
-    } else {
-      whereConditions.push(isNull(productInventory.variantId));
+    const lotExpiryDate = normalizeExpiryDate(expiryDate);
+    if (lotExpiryDate === undefined) {
+      return ErrorResponses.invalidInput('Invalid expiry date');
+    }
+    if (lotExpiryDate && !lotNumber) {
+      return ErrorResponses.invalidInput('A lot number is required when an expiry date is given');
+    }
+
+    // Movements apply to one location; the default location when none is given
+    const stockLocation = await resolveLocation(context.tenantId, locationId);
+    if (!stockLocation) {
+      return ErrorResponses.invalidInput('Location not found');
     }
 
-    const existingInventory = await db
-      .select()
-      .from(productInventory)
-      .where(and(...whereConditions))
-      .limit(1);
+    // Find existing inventory record at the location within tenant
+    const locationInventory = await findInventoryAtLocation(context.tenantId, { productId, variantId }, stockLocation);
+    const existingInventory = locationInventory ? [locationInventory] : [];
     
     let newQuantity = 0;
     let newWeightQuantity = 0;
@@ -237,6 +255,7 @@ export const POST = withTenant(async (req: NextRequest, context) => {
           availableWeight: newWeightQuantity.toString(),
           reorderWeightPoint: '0.00',
           reorderWeightQuantity: '0.00',
+          locationId: stockLocation.id,
           location: location || null,
           supplier: supplier || null,
           supplierId: supplierId || null,
@@ -261,6 +280,7 @@ export const POST = withTenant(async (req: NextRequest, context) => {
           availableWeight: '0.00',
           reorderWeightPoint: '0.00',
           reorderWeightQuantity: '0.00',
+          locationId: stockLocation.id,
           location: location || null,
           supplier: supplier || null,
           supplierId: supplierId || null,
@@ -269,6 +289,32 @@ export const POST = withTenant(async (req: NextRequest, context) => {
       }
     }
 
+    // Keep lots in step: stock in with a lot number books a lot, stock out takes lots FEFO
+    let lotId: string | null = null;
+    const movedAmount = isWeightBased ? weightInGrams : (quantity || 0);
+    if (movementType === 'in' || movementType === 'out') {
+      const [inventoryRow] = await db
+        .select()
+        .from(productInventory)
+        .where(eq(productInventory.id, inventoryId))
+        .limit(1);
+
+      if (movementType === 'in' && lotNumber && String(lotNumber).trim()) {
+        const lot = await receiveLot(context.tenantId, inventoryRow, {
+          lotNumber: String(lotNumber),
+          expiryDate: lotExpiryDate,
+          amount: movedAmount,
+          isWeightBased,
+          unitCost: costPrice,
+          supplier: supplier || null,
+          reference: reference || null,
+        });
+        lotId = lot.id;
+      } else if (movementType === 'out') {
+        await consumeLots(context.tenantId, inventoryRow, movedAmount, isWeightBased);
+      }
+    }
+
     // Insert record into stock_movements table for audit trail
     const movementId = uuidv4();
     const previousQuantity = existingInventory.length > 0 ? existingInventory[0].quantity : 0;
@@ -290,7 +336,9 @@ export const POST = withTenant(async (req: NextRequest, context) => {
       previousWeightQuantity: previousWeightQuantity.toString(),
       newWeightQuantity: newWeightQuantity.toString(),
       reason,
+      locationId: stockLocation.id,
       location: location || null,
+      lotId,
       reference: reference || null,
       notes: notes || null,
       costPrice: costPrice || null,
@@ -299,6 +347,18 @@ export const POST = withTenant(async (req: NextRequest, context) => {
       processedBy: context.userId || null, // Add current user ID
       createdAt: new Date(),
     });
+
+    // Stock In re-averages the product's cost
+    if (movementType === 'in') {
+      await recordReceiptCost(context.tenantId, {
+        productId,
+        variantId,
+        amount: movedAmount,
+        isWeightBased,
+        unitCost: costPrice,
+        movementId,
+      });
+    }
     
     const movementRecord = {
       id: movementId,
@@ -316,7 +376,9 @@ export const POST = withTenant(async (req: NextRequest, context) => {
       newWeightQuantity,
       stockManagementType: product.stockManagementType,
       reason,
+      locationId: stockLocation.id,
       location: location || null,
+      lotId,
       reference: reference || null,
       notes: notes || null,
       costPrice: costPrice || null,
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { cancelStockTransfer, completeStockTransfer, getStockTransferDetails } from '@/lib/stockTransfers';
+
+export const GET = withTenant(async (req: NextRequest, context, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params;
+    const details = await getStockTransferDetails(context.tenantId, id);
+
+    if (!details) {
+      return NextResponse.json({ error: 'Transfer not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(details);
+  } catch (error) {
+    console.error('Error fetching stock transfer:', error);
+    return ErrorResponses.serverError('Failed to fetch stock transfer');
+  }
+});
+
+// PATCH - complete or cancel a draft transfer ({ action: 'complete' | 'cancel' })
+export const PATCH = withTenant(async (req: NextRequest, context, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params;
+    const { action } = await req.json();
+
+    let result;
+    if (action === 'complete') {
+      result = await completeStockTransfer(context.tenantId, id, context.userId);
+    } else if (action === 'cancel') {
+      result = await cancelStockTransfer(context.tenantId, id, context.userId);
+    } else {
+      return ErrorResponses.invalidInput('Action must be complete or cancel');
+    }
+
+    if (!result.success) {
+      return result.error === 'Transfer not found'
+        ? NextResponse.json({ error: result.error }, { status: 404 })
+        : ErrorResponses.invalidInput(result.error || 'Failed to update transfer');
+    }
+
+    return NextResponse.json(result.transfer);
+  } catch (error) {
+    console.error('Error updating stock transfer:', error);
+    return ErrorResponses.serverError('Failed to update stock transfer');
+  }
+});
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { createStockTransfer, listStockTransfers } from '@/lib/stockTransfers';
+
+export const GET = withTenant(async (req: NextRequest, context) => {
+  try {
+    const status = req.nextUrl.searchParams.get('status') || undefined;
+    const transfers = await listStockTransfers(context.tenantId, status);
+
+    return NextResponse.json(transfers.map(row => ({
+      ...row.transfer,
+      fromLocationName: row.fromLocationName,
+      toLocationName: row.toLocationName,
+      itemCount: Number(row.itemCount || 0),
+    })));
+  } catch (error) {
+    console.error('Error fetching stock transfers:', error);
+    return ErrorResponses.serverError('Failed to fetch stock transfers');
+  }
+});
+
+// POST - draft a transfer ({ fromLocationId, toLocationId, items, notes?, complete? })
+export const POST = withTenant(async (req: NextRequest, context) => {
+  try {
+    const { fromLocationId, toLocationId, items, notes, complete } = await req.json();
+
+    const result = await createStockTransfer(context.tenantId, {
+      fromLocationId,
+      toLocationId,
+      items,
+      notes,
+      complete: !!complete,
+      createdBy: context.userId,
+    });
+
+    if (!result.success) {
+      return ErrorResponses.invalidInput(result.error || 'Failed to create transfer');
+    }
+
+    return NextResponse.json(result.transfer, { status: 201 });
+  } catch (error) {
+    console.error('Error creating stock transfer:', error);
+    return ErrorResponses.serverError('Failed to create stock transfer');
+  }
+});
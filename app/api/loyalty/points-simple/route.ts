@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { userLoyaltyPoints, loyaltyPointsHistory, settings, orders } from '@/lib/schema';
+import { userLoyaltyPoints, loyaltyPointsHistory } from '@/lib/schema';
 import { eq, and } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
+import { withTenant } from '@/lib/api-helpers';
+import { getLoyaltySettings, getPointsExpiryDate, isTenantUser, type LoyaltySettings } from '@/lib/loyalty';
 
 // Simple loyalty points API - rewritten from scratch
-export async function POST(req: NextRequest) {
+export const POST = withTenant(async (req: NextRequest, context) => {
   try {
     const body = await req.json();
     console.log('=== SIMPLE LOYALTY POINTS API ===');
@@ -21,14 +23,17 @@ export async function POST(req: NextRequest) {
       }, { status: 400 });
     }
 
+    if (!(await isTenantUser(context.tenantId, userId))) {
+      return NextResponse.json({ 
+        success: false, 
+        error: 'User not found' 
+      }, { status: 404 });
+    }
+
     // Check if loyalty is enabled
-    const loyaltyEnabled = await db
-      .select()
-      .from(settings)
-      .where(eq(settings.key, 'loyalty_enabled'))
-      .limit(1);
+    const loyaltySettings = await getLoyaltySettings(context.tenantId);
 
-    if (loyaltyEnabled.length === 0 || loyaltyEnabled[0]?.value !== 'true') {
+    if (!loyaltySettings.enabled) {
       console.log('Loyalty system is disabled');
       return NextResponse.json({ 
         success: false, 
@@ -38,16 +43,16 @@ export async function POST(req: NextRequest) {
 
     switch (action) {
       case 'award_points':
-        return await awardPointsSimple(userId, orderId, orderAmount || 0);
+        return await awardPointsSimple(context.tenantId, userId, orderId, orderAmount || 0, loyaltySettings);
       
       case 'award_pending_points':
-        return await awardPendingPointsSimple(userId, orderId, orderAmount || 0);
+        return await awardPendingPointsSimple(context.tenantId, userId, orderId, orderAmount || 0, loyaltySettings);
       
       case 'activate_pending_points':
-        return await activatePendingPointsSimple(userId, orderId);
+        return await activatePendingPointsSimple(context.tenantId, userId, orderId, loyaltySettings);
       
       case 'get_points':
-        return await getUserPointsSimple(userId);
+        return await getUserPointsSimple(context.tenantId, userId);
       
       default:
         return NextResponse.json({ 
@@ -64,9 +69,9 @@ export async function POST(req: NextRequest) {
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
-}
+});
 
-async function awardPointsSimple(userId: string, orderId: string, orderAmount: number) {
+async function awardPointsSimple(tenantId: string, userId: string, orderId: string, orderAmount: number, loyaltySettings: LoyaltySettings) {
   console.log(`=== AWARDING POINTS SIMPLE ===`);
   console.log(`userId: ${userId}, orderId: ${orderId}, orderAmount: ${orderAmount}`);
   
@@ -89,7 +94,7 @@ async function awardPointsSimple(userId: string, orderId: string, orderAmount: n
     const existingPoints = await db
       .select()
       .from(userLoyaltyPoints)
-      .where(eq(userLoyaltyPoints.userId, userId))
+      .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)))
       .limit(1);
 
     if (existingPoints.length === 0) {
@@ -97,6 +102,7 @@ async function awardPointsSimple(userId: string, orderId: string, orderAmount: n
       console.log('Creating new loyalty points record');
       await db.insert(userLoyaltyPoints).values({
         id: uuidv4(),
+        tenantId,
         userId: userId,
         totalPointsEarned: pointsToAward,
         totalPointsRedeemed: 0,
@@ -120,7 +126,7 @@ async function awardPointsSimple(userId: string, orderId: string, orderAmount: n
           lastEarnedAt: new Date(),
           updatedAt: new Date()
         })
-        .where(eq(userLoyaltyPoints.userId, userId));
+        .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)));
       console.log('Updated existing loyalty points record');
     }
 
@@ -128,6 +134,7 @@ async function awardPointsSimple(userId: string, orderId: string, orderAmount: n
     console.log('Creating history record');
     await db.insert(loyaltyPointsHistory).values({
       id: uuidv4(),
+      tenantId,
       userId: userId,
       orderId: orderId,
       transactionType: 'earned',
@@ -137,7 +144,7 @@ async function awardPointsSimple(userId: string, orderId: string, orderAmount: n
       description: `Points earned from order ${orderId}`,
       orderAmount: orderAmount.toString(),
       discountAmount: null,
-      expiresAt: null,
+      expiresAt: getPointsExpiryDate(loyaltySettings),
       isExpired: false,
       processedBy: null,
       metadata: null,
@@ -163,12 +170,12 @@ async function awardPointsSimple(userId: string, orderId: string, orderAmount: n
   }
 }
 
-async function getUserPointsSimple(userId: string) {
+async function getUserPointsSimple(tenantId: string, userId: string) {
   try {
     const userPoints = await db
       .select()
       .from(userLoyaltyPoints)
-      .where(eq(userLoyaltyPoints.userId, userId))
+      .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)))
       .limit(1);
 
     if (userPoints.length === 0) {
@@ -203,7 +210,7 @@ async function getUserPointsSimple(userId: string) {
   }
 }
 
-async function awardPendingPointsSimple(userId: string, orderId: string, orderAmount: number) {
+async function awardPendingPointsSimple(tenantId: string, userId: string, orderId: string, orderAmount: number, loyaltySettings: LoyaltySettings) {
   console.log(`=== AWARDING PENDING POINTS SIMPLE ===`);
   console.log(`userId: ${userId}, orderId: ${orderId}, orderAmount: ${orderAmount}`);
   
@@ -226,7 +233,7 @@ async function awardPendingPointsSimple(userId: string, orderId: string, orderAm
     const existingPoints = await db
       .select()
       .from(userLoyaltyPoints)
-      .where(eq(userLoyaltyPoints.userId, userId))
+      .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)))
       .limit(1);
 
     if (existingPoints.length === 0) {
@@ -234,6 +241,7 @@ async function awardPendingPointsSimple(userId: string, orderId: string, orderAm
       console.log('Creating new loyalty points record with pending points');
       await db.insert(userLoyaltyPoints).values({
         id: uuidv4(),
+        tenantId,
         userId: userId,
         totalPointsEarned: pointsToAward,
         totalPointsRedeemed: 0,
@@ -257,7 +265,7 @@ async function awardPendingPointsSimple(userId: string, orderId: string, orderAm
           lastEarnedAt: new Date(),
           updatedAt: new Date()
         })
-        .where(eq(userLoyaltyPoints.userId, userId));
+        .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)));
       console.log('Updated existing loyalty points record with pending points');
     }
 
@@ -265,6 +273,7 @@ async function awardPendingPointsSimple(userId: string, orderId: string, orderAm
     console.log('Creating pending history record');
     await db.insert(loyaltyPointsHistory).values({
       id: uuidv4(),
+      tenantId,
       userId: userId,
       orderId: orderId,
       transactionType: 'earned',
@@ -274,7 +283,7 @@ async function awardPendingPointsSimple(userId: string, orderId: string, orderAm
       description: `Pending points from order ${orderId}`,
       orderAmount: orderAmount.toString(),
       discountAmount: null,
-      expiresAt: null,
+      expiresAt: getPointsExpiryDate(loyaltySettings),
       isExpired: false,
       processedBy: null,
       metadata: null,
@@ -301,7 +310,7 @@ async function awardPendingPointsSimple(userId: string, orderId: string, orderAm
   }
 }
 
-async function activatePendingPointsSimple(userId: string, orderId: string) {
+async function activatePendingPointsSimple(tenantId: string, userId: string, orderId: string, loyaltySettings: LoyaltySettings) {
   console.log(`=== ACTIVATING PENDING POINTS SIMPLE ===`);
   console.log(`userId: ${userId}, orderId: ${orderId}`);
 
@@ -312,6 +321,7 @@ async function activatePendingPointsSimple(userId: string, orderId: string) {
       .from(loyaltyPointsHistory)
       .where(
         and(
+          eq(loyaltyPointsHistory.tenantId, tenantId),
           eq(loyaltyPointsHistory.userId, userId),
           eq(loyaltyPointsHistory.orderId, orderId),
           eq(loyaltyPointsHistory.status, 'pending'),
@@ -335,7 +345,7 @@ async function activatePendingPointsSimple(userId: string, orderId: string) {
     const userPoints = await db
       .select()
       .from(userLoyaltyPoints)
-      .where(eq(userLoyaltyPoints.userId, userId))
+      .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)))
       .limit(1);
 
     if (userPoints.length > 0) {
@@ -346,7 +356,7 @@ async function activatePendingPointsSimple(userId: string, orderId: string) {
           pendingPoints: Math.max(0, (current?.pendingPoints || 0) - pointsToActivate),
           updatedAt: new Date()
         })
-        .where(eq(userLoyaltyPoints.userId, userId));
+        .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)));
       console.log('Updated user points - moved from pending to available');
     }
 
@@ -355,7 +365,8 @@ async function activatePendingPointsSimple(userId: string, orderId: string) {
       await db.update(loyaltyPointsHistory)
         .set({
           status: 'available',
-          pointsBalance: (userPoints[0]?.availablePoints || 0) + pointsToActivate
+          pointsBalance: (userPoints[0]?.availablePoints || 0) + pointsToActivate,
+          expiresAt: getPointsExpiryDate(loyaltySettings)
         })
         .where(eq(loyaltyPointsHistory.id, record.id));
     }
@@ -379,7 +390,7 @@ async function activatePendingPointsSimple(userId: string, orderId: string) {
   }
 }
 
-export async function GET(req: NextRequest) {
+export const GET = withTenant(async (req: NextRequest, context) => {
   const { searchParams } = new URL(req.url);
   const userId = searchParams.get('userId');
   
@@ -390,5 +401,12 @@ export async function GET(req: NextRequest) {
     }, { status: 400 });
   }
 
-  return await getUserPointsSimple(userId);
-}
\ No newline at end of file
+  if (!(await isTenantUser(context.tenantId, userId))) {
+    return NextResponse.json({ 
+      success: false, 
+      error: 'User not found' 
+    }, { status: 404 });
+  }
+
+  return await getUserPointsSimple(context.tenantId, userId);
+});
\ No newline at end of file
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
+import { withTenant } from '@/lib/api-helpers';
 import { userLoyaltyPoints, loyaltyPointsHistory } from '@/lib/schema';
-import { eq } from 'drizzle-orm';
+import { eq, and } from 'drizzle-orm';
 
-export async function DELETE(req: NextRequest) {
+export const DELETE = withTenant(async (req: NextRequest, context) => {
   try {
     const { searchParams } = new URL(req.url);
     const userId = searchParams.get('userId');
@@ -16,10 +17,10 @@ export async function DELETE(req: NextRequest) {
     }
 
     // Delete all loyalty points history for the user
-    await db.delete(loyaltyPointsHistory).where(eq(loyaltyPointsHistory.userId, userId));
+    await db.delete(loyaltyPointsHistory).where(and(eq(loyaltyPointsHistory.tenantId, context.tenantId), eq(loyaltyPointsHistory.userId, userId)));
     
     // Reset user loyalty points to zero
-    await db.delete(userLoyaltyPoints).where(eq(userLoyaltyPoints.userId, userId));
+    await db.delete(userLoyaltyPoints).where(and(eq(userLoyaltyPoints.tenantId, context.tenantId), eq(userLoyaltyPoints.userId, userId)));
 
     return NextResponse.json({ 
       success: true, 
@@ -32,4 +33,4 @@ export async function DELETE(req: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
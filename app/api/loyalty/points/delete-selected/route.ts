@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
+import { withTenant } from '@/lib/api-helpers';
 import { loyaltyPointsHistory, userLoyaltyPoints } from '@/lib/schema';
 import { eq, inArray, and } from 'drizzle-orm';
 
-export async function DELETE(req: NextRequest) {
+export const DELETE = withTenant(async (req: NextRequest, context) => {
   try {
     const body = await req.json();
     const { userId, historyIds } = body;
@@ -21,6 +22,7 @@ export async function DELETE(req: NextRequest) {
       .from(loyaltyPointsHistory)
       .where(
         and(
+          eq(loyaltyPointsHistory.tenantId, context.tenantId),
           eq(loyaltyPointsHistory.userId, userId),
           inArray(loyaltyPointsHistory.id, historyIds)
         )
@@ -55,6 +57,7 @@ export async function DELETE(req: NextRequest) {
     // Delete the selected history records
     await db.delete(loyaltyPointsHistory).where(
       and(
+        eq(loyaltyPointsHistory.tenantId, context.tenantId),
         eq(loyaltyPointsHistory.userId, userId),
         inArray(loyaltyPointsHistory.id, historyIds)
       )
@@ -64,7 +67,7 @@ export async function DELETE(req: NextRequest) {
     const currentUserPoints = await db
       .select()
       .from(userLoyaltyPoints)
-      .where(eq(userLoyaltyPoints.userId, userId))
+      .where(and(eq(userLoyaltyPoints.tenantId, context.tenantId), eq(userLoyaltyPoints.userId, userId)))
       .limit(1);
 
     if (currentUserPoints.length > 0) {
@@ -76,7 +79,7 @@ export async function DELETE(req: NextRequest) {
           availablePoints: Math.max(0, (current.availablePoints || 0) - availablePointsToSubtract),
           updatedAt: new Date()
         })
-        .where(eq(userLoyaltyPoints.userId, userId));
+        .where(and(eq(userLoyaltyPoints.tenantId, context.tenantId), eq(userLoyaltyPoints.userId, userId)));
     }
 
     return NextResponse.json({ 
@@ -91,4 +94,4 @@ export async function DELETE(req: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
@@ -1,55 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { userLoyaltyPoints, loyaltyPointsHistory, user, orders, settings } from '@/lib/schema';
-import { eq, and, or, desc, gte, lte, sql } from 'drizzle-orm';
+import { userLoyaltyPoints, loyaltyPointsHistory } from '@/lib/schema';
+import { eq, and, desc, gte, lte, sql } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
-
-// Get loyalty settings
-async function getLoyaltySettings() {
-  const loyaltySettings = await db
-    .select()
-    .from(settings)
-    .where(
-      or(
-        eq(settings.key, 'loyalty_enabled'),
-        eq(settings.key, 'points_earning_rate'),
-        eq(settings.key, 'points_earning_basis'),
-        eq(settings.key, 'points_redemption_value'),
-        eq(settings.key, 'points_expiry_months'),
-        eq(settings.key, 'points_minimum_order'),
-        eq(settings.key, 'points_max_redemption_percent'),
-        eq(settings.key, 'points_redemption_minimum')
-      )
-    );
-
-  const settingsObj: { [key: string]: any } = {};
-  loyaltySettings.forEach(setting => {
-    let value: any = setting.value;
-    
-    // Convert values based on the setting key
-    if (setting.key === 'loyalty_enabled') {
-      value = value === 'true';
-    } else if (setting.key.includes('rate') || setting.key.includes('value') || setting.key.includes('minimum') || setting.key.includes('percent') || setting.key.includes('months')) {
-      value = parseFloat(value) || 0;
-    }
-    
-    settingsObj[setting.key] = value;
-  });
-
-  return {
-    enabled: settingsObj.loyalty_enabled === true || settingsObj.loyalty_enabled === 'true',
-    earningRate: Number(settingsObj.points_earning_rate) || 1,
-    earningBasis: settingsObj.points_earning_basis || 'subtotal',
-    redemptionValue: Number(settingsObj.points_redemption_value) || 0.01,
-    expiryMonths: Number(settingsObj.points_expiry_months) || 12,
-    minimumOrder: Number(settingsObj.points_minimum_order) || 0,
-    maxRedemptionPercent: Number(settingsObj.points_max_redemption_percent) || 50,
-    redemptionMinimum: Number(settingsObj.points_redemption_minimum) || 100
-  };
-}
+import { withTenant } from '@/lib/api-helpers';
+import { calculateOrderPoints, getLoyaltySettings, getLoyaltyTier, getPointsExpiryDate, isTenantUser, type LoyaltySettings } from '@/lib/loyalty';
+import { activatePendingOrderPoints, expireLoyaltyPoints, POINTS_EXPIRING_SOON_DAYS } from '@/lib/loyaltyMaintenance';
 
 // Award points for an order
-export async function POST(req: NextRequest) {
+export const POST = withTenant(async (req: NextRequest, context) => {
   try {
     const body = await req.json();
     const { action, userId, orderId, orderAmount, subtotalAmount, description, adminUserId } = body;
@@ -64,7 +23,14 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const loyaltySettings = await getLoyaltySettings();
+    if (userId && !(await isTenantUser(context.tenantId, userId))) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const loyaltySettings = await getLoyaltySettings(context.tenantId);
     console.log(`Loyalty settings: enabled=${loyaltySettings.enabled}, earningRate=${loyaltySettings.earningRate}`);
 
     if (!loyaltySettings.enabled) {
@@ -86,7 +52,7 @@ export async function POST(req: NextRequest) {
         }
         console.log('Calling awardPendingPoints function...');
         try {
-          const result = await awardPendingPoints(userId, orderId, orderAmount, subtotalAmount, loyaltySettings, description);
+          const result = await awardPendingPoints(context.tenantId, userId, orderId, orderAmount, subtotalAmount, loyaltySettings, description);
           console.log('awardPendingPoints completed successfully');
           return result;
         } catch (error) {
@@ -98,22 +64,22 @@ export async function POST(req: NextRequest) {
         }
       
       case 'activate_pending_points':
-        return await activatePendingPoints(userId, orderId, description);
+        return await activatePendingPoints(context.tenantId, userId, orderId, description);
       
       case 'award_points':
         // Legacy - still support direct awarding
-        return await awardPoints(userId, orderId, orderAmount, subtotalAmount, loyaltySettings, description);
+        return await awardPoints(context.tenantId, userId, orderId, orderAmount, subtotalAmount, loyaltySettings, description);
       
       case 'redeem_points':
         const { pointsToRedeem, discountAmount } = body;
-        return await redeemPoints(userId, orderId, pointsToRedeem, discountAmount, loyaltySettings, description);
+        return await redeemPoints(context.tenantId, userId, orderId, pointsToRedeem, discountAmount, loyaltySettings, description);
       
       case 'manual_adjustment':
         const { points, reason } = body;
-        return await manualAdjustment(userId, points, reason, adminUserId);
+        return await manualAdjustment(context.tenantId, userId, points, reason, adminUserId || context.userId);
       
       case 'expire_points':
-        return await expirePoints();
+        return await expirePoints(context.tenantId);
       
       default:
         return NextResponse.json(
@@ -133,26 +99,28 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // Award pending points when order is created
 async function awardPendingPoints(
+  tenantId: string,
   userId: string, 
   orderId: string, 
   orderAmount: number, 
   subtotalAmount: number, 
-  settings: any,
+  settings: LoyaltySettings,
   description?: string
 ) {
   console.log('=== AWARD PENDING POINTS FUNCTION CALLED ===');
   console.log(`Parameters: userId=${userId}, orderId=${orderId}, orderAmount=${orderAmount}, subtotalAmount=${subtotalAmount}`);
   console.log(`Settings:`, JSON.stringify(settings, null, 2));
   
-  // Calculate points based on settings
-  const baseAmount = settings.earningBasis === 'total' ? orderAmount : subtotalAmount;
+  // Calculate points from the earning rules and the customer's tier
+  const breakdown = await calculateOrderPoints(tenantId, { userId, orderId, orderAmount, subtotalAmount }, settings);
+  const { baseAmount } = breakdown;
   console.log(`Base amount for points calculation: ${baseAmount} (basis: ${settings.earningBasis})`);
   
-  if (baseAmount < settings.minimumOrder) {
+  if (breakdown.belowMinimum) {
     console.log(`Order amount ${baseAmount} is below minimum ${settings.minimumOrder}`);
     return NextResponse.json({
       success: false,
@@ -160,7 +128,7 @@ async function awardPendingPoints(
     });
   }
 
-  const pointsToAward = Math.floor(baseAmount * settings.earningRate);
+  const pointsToAward = breakdown.points;
   console.log(`Pending points to award: ${pointsToAward} (rate: ${settings.earningRate})`);
   
   if (pointsToAward <= 0) {
@@ -172,11 +140,7 @@ async function awardPendingPoints(
   }
 
   // Calculate expiry date
-  let expiresAt = null;
-  if (settings.expiryMonths > 0) {
-    expiresAt = new Date();
-    expiresAt.setMonth(expiresAt.getMonth() + settings.expiryMonths);
-  }
+  const expiresAt = getPointsExpiryDate(settings);
 
   // Get or create user loyalty points record
   console.log('Fetching user loyalty points record...');
@@ -185,7 +149,7 @@ async function awardPendingPoints(
     userPoints = await db
       .select()
       .from(userLoyaltyPoints)
-      .where(eq(userLoyaltyPoints.userId, userId))
+      .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)))
       .limit(1);
   } catch (dbError) {
     console.error('Database error fetching user loyalty points:', dbError);
@@ -203,6 +167,7 @@ async function awardPendingPoints(
     // Create new user loyalty points record
     const newRecord = {
       id: uuidv4(),
+      tenantId,
       userId,
       totalPointsEarned: pointsToAward,
       totalPointsRedeemed: 0,
@@ -243,7 +208,7 @@ async function awardPendingPoints(
     try {
       await db.update(userLoyaltyPoints)
         .set(updateData)
-        .where(eq(userLoyaltyPoints.userId, userId));
+        .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)));
       console.log('Successfully updated user loyalty points record');
     } catch (updateError) {
       console.error('Database error updating user loyalty points record:', updateError);
@@ -259,6 +224,7 @@ async function awardPendingPoints(
   console.log('Creating loyalty points history record...');
   const historyRecord = {
     id: uuidv4(),
+    tenantId,
     userId,
     orderId,
     transactionType: 'earned',
@@ -272,7 +238,8 @@ async function awardPendingPoints(
     metadata: {
       earningRate: settings.earningRate,
       earningBasis: settings.earningBasis,
-      baseAmount
+      baseAmount,
+      breakdown
     },
     createdAt: new Date()
   };
@@ -302,26 +269,16 @@ async function awardPendingPoints(
 
 // Activate pending points when order is delivered
 async function activatePendingPoints(
+  tenantId: string,
   userId: string,
   orderId: string,
   description?: string
 ) {
   console.log(`activatePendingPoints called: userId=${userId}, orderId=${orderId}`);
 
-  // Find pending points for this order
-  const pendingPoints = await db
-    .select()
-    .from(loyaltyPointsHistory)
-    .where(
-      and(
-        eq(loyaltyPointsHistory.userId, userId),
-        eq(loyaltyPointsHistory.orderId, orderId),
-        eq(loyaltyPointsHistory.transactionType, 'earned'),
-        eq(loyaltyPointsHistory.status, 'pending')
-      )
-    );
+  const { activated, availablePoints } = await activatePendingOrderPoints(tenantId, userId, orderId, description);
 
-  if (pendingPoints.length === 0) {
+  if (activated === 0) {
     console.log('No pending points found for this order');
     return NextResponse.json({
       success: false,
@@ -329,73 +286,34 @@ async function activatePendingPoints(
     });
   }
 
-  const totalPendingPoints = pendingPoints.reduce((sum, record) => sum + record.points, 0);
-  console.log(`Activating ${totalPendingPoints} pending points`);
-
-  // Update user loyalty points
-  const userPoints = await db
-    .select()
-    .from(userLoyaltyPoints)
-    .where(eq(userLoyaltyPoints.userId, userId))
-    .limit(1);
-
-  if (userPoints.length === 0) {
-    console.log('User loyalty points record not found');
-    return NextResponse.json({
-      success: false,
-      error: 'User loyalty points record not found'
-    });
-  }
-
-  const currentRecord = userPoints[0]!;
-  const newAvailableBalance = (currentRecord.availablePoints || 0) + totalPendingPoints;
-
-  // Update user points - move from pending to available
-  await db.update(userLoyaltyPoints)
-    .set({
-      availablePoints: newAvailableBalance,
-      pendingPoints: Math.max(0, (currentRecord.pendingPoints || 0) - totalPendingPoints),
-      updatedAt: new Date()
-    })
-    .where(eq(userLoyaltyPoints.userId, userId));
-
-  // Update history records from pending to available
-  for (const record of pendingPoints) {
-    await db.update(loyaltyPointsHistory)
-      .set({
-        status: 'available',
-        pointsBalance: newAvailableBalance,
-        description: description || `Points activated from delivered order #${orderId}`
-      })
-      .where(eq(loyaltyPointsHistory.id, record.id));
-  }
-
-  console.log(`Successfully activated ${totalPendingPoints} points for user ${userId}`);
+  console.log(`Successfully activated ${activated} points for user ${userId}`);
 
   return NextResponse.json({
     success: true,
-    pointsActivated: totalPendingPoints,
-    newAvailableBalance,
-    message: `${totalPendingPoints} points are now available`
+    pointsActivated: activated,
+    newAvailableBalance: availablePoints,
+    message: `${activated} points are now available`
   });
 }
 
 // Award points for order delivery (legacy function)
 async function awardPoints(
+  tenantId: string,
   userId: string, 
   orderId: string, 
   orderAmount: number, 
   subtotalAmount: number, 
-  settings: any,
+  settings: LoyaltySettings,
   description?: string
 ) {
   console.log(`awardPoints called: userId=${userId}, orderId=${orderId}, orderAmount=${orderAmount}, subtotalAmount=${subtotalAmount}`);
   
-  // Calculate points based on settings
-  const baseAmount = settings.earningBasis === 'total' ? orderAmount : subtotalAmount;
+  // Calculate points from the earning rules and the customer's tier
+  const breakdown = await calculateOrderPoints(tenantId, { userId, orderId, orderAmount, subtotalAmount }, settings);
+  const { baseAmount } = breakdown;
   console.log(`Base amount for points calculation: ${baseAmount} (basis: ${settings.earningBasis})`);
   
-  if (baseAmount < settings.minimumOrder) {
+  if (breakdown.belowMinimum) {
     console.log(`Order amount ${baseAmount} is below minimum ${settings.minimumOrder}`);
     return NextResponse.json({
       success: false,
@@ -403,7 +321,7 @@ async function awardPoints(
     });
   }
 
-  const pointsToAward = Math.floor(baseAmount * settings.earningRate);
+  const pointsToAward = breakdown.points;
   console.log(`Points to award: ${pointsToAward} (rate: ${settings.earningRate})`);
   
   if (pointsToAward <= 0) {
@@ -415,17 +333,13 @@ async function awardPoints(
   }
 
   // Calculate expiry date
-  let expiresAt = null;
-  if (settings.expiryMonths > 0) {
-    expiresAt = new Date();
-    expiresAt.setMonth(expiresAt.getMonth() + settings.expiryMonths);
-  }
+  const expiresAt = getPointsExpiryDate(settings);
 
   // Get or create user loyalty points record
   let userPoints = await db
     .select()
     .from(userLoyaltyPoints)
-    .where(eq(userLoyaltyPoints.userId, userId))
+    .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)))
     .limit(1);
 
   const newBalance = (userPoints[0]?.availablePoints || 0) + pointsToAward;
@@ -434,6 +348,7 @@ async function awardPoints(
     // Create new record
     await db.insert(userLoyaltyPoints).values({
       id: uuidv4(),
+      tenantId,
       userId,
       totalPointsEarned: pointsToAward,
       totalPointsRedeemed: 0,
@@ -450,12 +365,13 @@ async function awardPoints(
         lastEarnedAt: new Date(),
         updatedAt: new Date()
       })
-      .where(eq(userLoyaltyPoints.userId, userId));
+      .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)));
   }
 
   // Add history record
   await db.insert(loyaltyPointsHistory).values({
     id: uuidv4(),
+    tenantId,
     userId,
     orderId,
     transactionType: 'earned',
@@ -472,7 +388,8 @@ async function awardPoints(
       earningRate: settings.earningRate,
       earningBasis: settings.earningBasis,
       orderAmount,
-      subtotalAmount
+      subtotalAmount,
+      breakdown
     },
     createdAt: new Date()
   });
@@ -488,18 +405,19 @@ async function awardPoints(
 
 // Redeem points at checkout
 async function redeemPoints(
+  tenantId: string,
   userId: string,
   orderId: string,
   pointsToRedeem: number,
   discountAmount: number,
-  settings: any,
+  settings: LoyaltySettings,
   description?: string
 ) {
   // Get user's available points
   const userPoints = await db
     .select()
     .from(userLoyaltyPoints)
-    .where(eq(userLoyaltyPoints.userId, userId))
+    .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)))
     .limit(1);
 
   if (userPoints.length === 0 || (userPoints[0]?.availablePoints || 0) < pointsToRedeem) {
@@ -526,11 +444,12 @@ async function redeemPoints(
       lastRedeemedAt: new Date(),
       updatedAt: new Date()
     })
-    .where(eq(userLoyaltyPoints.userId, userId));
+    .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)));
 
   // Add history record
   await db.insert(loyaltyPointsHistory).values({
     id: uuidv4(),
+    tenantId,
     userId,
     orderId,
     transactionType: 'redeemed',
@@ -562,10 +481,11 @@ async function redeemPoints(
 
 // Manual adjustment by admin
 async function manualAdjustment(
+  tenantId: string,
   userId: string,
   points: number,
   reason: string,
-  adminUserId: string
+  adminUserId?: string
 ) {
   if (!adminUserId) {
     return NextResponse.json({
@@ -578,7 +498,7 @@ async function manualAdjustment(
   let userPoints = await db
     .select()
     .from(userLoyaltyPoints)
-    .where(eq(userLoyaltyPoints.userId, userId))
+    .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)))
     .limit(1);
 
   const currentBalance = userPoints[0]?.availablePoints || 0;
@@ -588,6 +508,7 @@ async function manualAdjustment(
     // Create new record
     await db.insert(userLoyaltyPoints).values({
       id: uuidv4(),
+      tenantId,
       userId,
       totalPointsEarned: Math.max(0, points),
       totalPointsRedeemed: Math.max(0, -points),
@@ -613,12 +534,13 @@ async function manualAdjustment(
 
     await db.update(userLoyaltyPoints)
       .set(updates)
-      .where(eq(userLoyaltyPoints.userId, userId));
+      .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)));
   }
 
   // Add history record
   await db.insert(loyaltyPointsHistory).values({
     id: uuidv4(),
+    tenantId,
     userId,
     orderId: null,
     transactionType: 'manual_adjustment',
@@ -646,118 +568,28 @@ async function manualAdjustment(
   });
 }
 
-// Expire old points (called by cron job or manually)
-async function expirePoints() {
-  const now = new Date();
-  
-  // Find points that should expire
-  const expiredPointsHistory = await db
-    .select()
-    .from(loyaltyPointsHistory)
-    .where(
-      and(
-        eq(loyaltyPointsHistory.transactionType, 'earned'),
-        lte(loyaltyPointsHistory.expiresAt, now),
-        eq(loyaltyPointsHistory.isExpired, false)
-      )
-    );
-
-  const expirationPromises = [];
-  const userUpdates: { [userId: string]: number } = {};
-
-  for (const historyRecord of expiredPointsHistory) {
-    // Mark as expired
-    expirationPromises.push(
-      db.update(loyaltyPointsHistory)
-        .set({ isExpired: true })
-        .where(eq(loyaltyPointsHistory.id, historyRecord.id))
-    );
-
-    // Track points to deduct per user
-    if (!userUpdates[historyRecord.userId]) {
-      userUpdates[historyRecord.userId] = 0;
-    }
-    userUpdates[historyRecord.userId] += historyRecord.points;
-
-    // Add expiration history record
-    expirationPromises.push(
-      db.insert(loyaltyPointsHistory).values({
-        id: uuidv4(),
-        userId: historyRecord.userId,
-        orderId: null,
-        transactionType: 'expired',
-        status: 'expired',
-        points: -historyRecord.points,
-        pointsBalance: 0, // Will be updated after calculating new balance
-        description: `Points expired from ${historyRecord.createdAt?.toDateString() || 'unknown date'}`,
-        orderAmount: null,
-        discountAmount: null,
-        expiresAt: null,
-        isExpired: true,
-        processedBy: null,
-        metadata: {
-          originalEarnedDate: historyRecord.createdAt,
-          originalOrderId: historyRecord.orderId
-        },
-        createdAt: new Date()
-      })
-    );
-  }
-
-  // Update user balances
-  for (const [userId, expiredPoints] of Object.entries(userUpdates)) {
-    const userPoints = await db
-      .select()
-      .from(userLoyaltyPoints)
-      .where(eq(userLoyaltyPoints.userId, userId))
-      .limit(1);
-
-    if (userPoints.length > 0) {
-      const newBalance = Math.max(0, (userPoints[0]?.availablePoints || 0) - expiredPoints);
-      
-      expirationPromises.push(
-        db.update(userLoyaltyPoints)
-          .set({
-            availablePoints: newBalance,
-            updatedAt: new Date()
-          })
-          .where(eq(userLoyaltyPoints.userId, userId))
-      );
-
-      // Update the balance in the expiration history record
-      expirationPromises.push(
-        db.update(loyaltyPointsHistory)
-          .set({ pointsBalance: newBalance })
-          .where(
-            and(
-              eq(loyaltyPointsHistory.userId, userId),
-              eq(loyaltyPointsHistory.transactionType, 'expired'),
-              eq(loyaltyPointsHistory.pointsBalance, 0) // Find the record we just created
-            )
-          )
-      );
-    }
-  }
-
-  await Promise.all(expirationPromises);
+// Expire old points (also run daily by /api/cron/loyalty-points)
+async function expirePoints(tenantId: string) {
+  const { expiredRecords, affectedUsers } = await expireLoyaltyPoints(tenantId);
 
   return NextResponse.json({
     success: true,
-    message: `Expired ${expiredPointsHistory.length} point records`,
-    expiredRecords: expiredPointsHistory.length,
-    affectedUsers: Object.keys(userUpdates).length
+    message: `Expired ${expiredRecords} point records`,
+    expiredRecords,
+    affectedUsers
   });
 }
 
 // Get user points and history
-export async function GET(req: NextRequest) {
+export const GET = withTenant(async (req: NextRequest, context) => {
   try {
+    const tenantId = context.tenantId;
     const { searchParams } = new URL(req.url);
     const userId = searchParams.get('userId');
     const action = searchParams.get('action');
 
     if (action === 'expire_points') {
-      return await expirePoints();
+      return await expirePoints(context.tenantId);
     }
 
     if (!userId) {
@@ -767,32 +599,41 @@ export async function GET(req: NextRequest) {
       );
     }
 
+    if (!(await isTenantUser(tenantId, userId))) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
     // Get user points
     const userPoints = await db
       .select()
       .from(userLoyaltyPoints)
-      .where(eq(userLoyaltyPoints.userId, userId))
+      .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)))
       .limit(1);
 
     // Get points history
     const history = await db
       .select()
       .from(loyaltyPointsHistory)
-      .where(eq(loyaltyPointsHistory.userId, userId))
+      .where(and(eq(loyaltyPointsHistory.tenantId, tenantId), eq(loyaltyPointsHistory.userId, userId)))
       .orderBy(desc(loyaltyPointsHistory.createdAt))
       .limit(50);
 
     // Calculate points expiring soon (next 30 days)
     const thirtyDaysFromNow = new Date();
-    thirtyDaysFromNow.setDate(thirtyDaysFromNow.getDate() + 30);
+    thirtyDaysFromNow.setDate(thirtyDaysFromNow.getDate() + POINTS_EXPIRING_SOON_DAYS);
 
     const pointsExpiringSoon = await db
       .select()
       .from(loyaltyPointsHistory)
       .where(
         and(
+          eq(loyaltyPointsHistory.tenantId, tenantId),
           eq(loyaltyPointsHistory.userId, userId),
           eq(loyaltyPointsHistory.transactionType, 'earned'),
+          eq(loyaltyPointsHistory.status, 'available'),
           eq(loyaltyPointsHistory.isExpired, false),
           lte(loyaltyPointsHistory.expiresAt, thirtyDaysFromNow),
           gte(loyaltyPointsHistory.expiresAt, new Date())
@@ -808,7 +649,7 @@ export async function GET(req: NextRequest) {
           pointsExpiringSoon: expiringSoonTotal,
           updatedAt: new Date()
         })
-        .where(eq(userLoyaltyPoints.userId, userId));
+        .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)));
     }
 
     // Calculate total money saved from points redemptions
@@ -819,6 +660,7 @@ export async function GET(req: NextRequest) {
       .from(loyaltyPointsHistory)
       .where(
         and(
+          eq(loyaltyPointsHistory.tenantId, tenantId),
           eq(loyaltyPointsHistory.userId, userId),
           eq(loyaltyPointsHistory.transactionType, 'redeemed'),
           sql`${loyaltyPointsHistory.discountAmount} > 0`
@@ -827,6 +669,9 @@ export async function GET(req: NextRequest) {
 
     const totalMoneySavedAmount = totalMoneySaved[0]?.totalSaved || 0;
 
+    // Membership tier from the last 12 months of spend
+    const tier = await getLoyaltyTier(tenantId, userId);
+
     return NextResponse.json({
       success: true,
       points: userPoints[0] || {
@@ -837,7 +682,8 @@ export async function GET(req: NextRequest) {
       },
       totalMoneySaved: totalMoneySavedAmount,
       history,
-      expiringSoon: pointsExpiringSoon
+      expiringSoon: pointsExpiringSoon,
+      tier
     });
 
   } catch (error) {
@@ -851,4 +697,4 @@ export async function GET(req: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { deleteEarningRule, saveEarningRule } from '@/lib/loyaltyRules';
+
+export const PUT = withTenant(async (req: NextRequest, context, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params;
+    const { name, scope, targetId, multiplier, startsAt, endsAt, isActive } = await req.json();
+
+    const result = await saveEarningRule(context.tenantId, id, { name, scope, targetId, multiplier, startsAt, endsAt, isActive });
+    if (!result.success) {
+      return result.error === 'Rule not found'
+        ? NextResponse.json({ error: result.error }, { status: 404 })
+        : ErrorResponses.invalidInput(result.error || 'Failed to update rule');
+    }
+
+    return NextResponse.json(result.rule);
+  } catch (error) {
+    console.error('Error updating loyalty earning rule:', error);
+    return ErrorResponses.serverError('Failed to update loyalty earning rule');
+  }
+});
+
+export const DELETE = withTenant(async (req: NextRequest, context, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params;
+
+    const result = await deleteEarningRule(context.tenantId, id);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Rule deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting loyalty earning rule:', error);
+    return ErrorResponses.serverError('Failed to delete loyalty earning rule');
+  }
+});
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { listEarningRules, saveEarningRule } from '@/lib/loyaltyRules';
+
+export const GET = withTenant(async (req: NextRequest, context) => {
+  try {
+    const rules = await listEarningRules(context.tenantId);
+    return NextResponse.json(rules);
+  } catch (error) {
+    console.error('Error fetching loyalty earning rules:', error);
+    return ErrorResponses.serverError('Failed to fetch loyalty earning rules');
+  }
+});
+
+export const POST = withTenant(async (req: NextRequest, context) => {
+  try {
+    const { name, scope, targetId, multiplier, startsAt, endsAt, isActive } = await req.json();
+
+    const result = await saveEarningRule(context.tenantId, null, { name, scope, targetId, multiplier, startsAt, endsAt, isActive });
+    if (!result.success) {
+      return ErrorResponses.invalidInput(result.error || 'Failed to create rule');
+    }
+
+    return NextResponse.json(result.rule, { status: 201 });
+  } catch (error) {
+    console.error('Error creating loyalty earning rule:', error);
+    return ErrorResponses.serverError('Failed to create loyalty earning rule');
+  }
+});
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { deleteLoyaltyTier, saveLoyaltyTier } from '@/lib/loyaltyRules';
+
+export const PUT = withTenant(async (req: NextRequest, context, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params;
+    const { name, minSpend, multiplier, isActive } = await req.json();
+
+    const result = await saveLoyaltyTier(context.tenantId, id, { name, minSpend, multiplier, isActive });
+    if (!result.success) {
+      return result.error === 'Tier not found'
+        ? NextResponse.json({ error: result.error }, { status: 404 })
+        : ErrorResponses.invalidInput(result.error || 'Failed to update tier');
+    }
+
+    return NextResponse.json(result.tier);
+  } catch (error) {
+    console.error('Error updating loyalty tier:', error);
+    return ErrorResponses.serverError('Failed to update loyalty tier');
+  }
+});
+
+export const DELETE = withTenant(async (req: NextRequest, context, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params;
+
+    const result = await deleteLoyaltyTier(context.tenantId, id);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Tier deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting loyalty tier:', error);
+    return ErrorResponses.serverError('Failed to delete loyalty tier');
+  }
+});
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { listLoyaltyTiers, saveLoyaltyTier } from '@/lib/loyaltyRules';
+
+export const GET = withTenant(async (req: NextRequest, context) => {
+  try {
+    const tiers = await listLoyaltyTiers(context.tenantId);
+    return NextResponse.json(tiers);
+  } catch (error) {
+    console.error('Error fetching loyalty tiers:', error);
+    return ErrorResponses.serverError('Failed to fetch loyalty tiers');
+  }
+});
+
+export const POST = withTenant(async (req: NextRequest, context) => {
+  try {
+    const { name, minSpend, multiplier, isActive } = await req.json();
+
+    const result = await saveLoyaltyTier(context.tenantId, null, { name, minSpend, multiplier, isActive });
+    if (!result.success) {
+      return ErrorResponses.invalidInput(result.error || 'Failed to create tier');
+    }
+
+    return NextResponse.json(result.tier, { status: 201 });
+  } catch (error) {
+    console.error('Error creating loyalty tier:', error);
+    return ErrorResponses.serverError('Failed to create loyalty tier');
+  }
+});
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { generateInvoicePdf } from '@/lib/fbr/invoicePdf';
+
+export const GET = withTenant(async (req: NextRequest, context, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id: orderId } = await params;
+    const result = await generateInvoicePdf(context.tenantId, orderId);
+
+    if (!result.success || !result.pdf) {
+      if (result.error === 'Order not found') {
+        return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+      }
+      return ErrorResponses.serverError(result.error || 'Failed to generate invoice PDF');
+    }
+
+    // ?download=false opens the PDF in the browser instead of saving it
+    const disposition = new URL(req.url).searchParams.get('download') === 'false' ? 'inline' : 'attachment';
+
+    return new NextResponse(new Uint8Array(result.pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `${disposition}; filename="${result.fileName}"`
+      }
+    });
+  } catch (error) {
+    console.error('Error generating invoice PDF:', error);
+    return ErrorResponses.serverError('Failed to generate invoice PDF');
+  }
+});
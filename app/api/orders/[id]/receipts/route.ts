@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { getPurchaseOrderReceiving, receiveGoods } from '@/lib/goodsReceipts';
+
+// GET - ordered, received and outstanding amounts per line, with the goods receipts so far
+export const GET = withTenant(async (req: NextRequest, context, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params;
+    const receiving = await getPurchaseOrderReceiving(context.tenantId, id);
+
+    if (!receiving) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(receiving);
+  } catch (error) {
+    console.error('Error fetching goods receipts:', error);
+    return ErrorResponses.serverError('Failed to fetch goods receipts');
+  }
+});
+
+// POST - receive goods ({ lines: [{ orderItemId, quantity | weightQuantity, unitCost?, lotNumber?, expiryDate? }],
+// locationId?, supplierReference?, freightCost?, dutyCost?, otherCost?, notes? })
+export const POST = withTenant(async (req: NextRequest, context, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+
+    if (!Array.isArray(body.lines)) {
+      return ErrorResponses.invalidInput('lines must be an array');
+    }
+
+    const result = await receiveGoods(context.tenantId, id, {
+      lines: body.lines,
+      locationId: body.locationId || null,
+      supplierReference: body.supplierReference,
+      freightCost: body.freightCost,
+      dutyCost: body.dutyCost,
+      otherCost: body.otherCost,
+      notes: body.notes,
+      receivedBy: context.userId,
+    });
+
+    if (!result.success) {
+      return result.error === 'Purchase order not found'
+        ? NextResponse.json({ error: result.error }, { status: 404 })
+        : ErrorResponses.invalidInput(result.error || 'Failed to receive goods');
+    }
+
+    return NextResponse.json({ receipt: result.receipt, orderStatus: result.orderStatus }, { status: 201 });
+  } catch (error) {
+    console.error('Error receiving goods:', error);
+    return ErrorResponses.serverError('Failed to receive goods');
+  }
+});
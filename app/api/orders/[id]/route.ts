@@ -1,11 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { orders, orderItems, productInventory, stockMovements, user, products, userLoyaltyPoints, loyaltyPointsHistory, settings, suppliers } from '@/lib/schema';
+import { orders, orderItems, orderItemComponents, orderItemLots, user, userLoyaltyPoints, loyaltyPointsHistory, suppliers } from '@/lib/schema';
 import { v4 as uuidv4 } from 'uuid';
-import { eq, and, isNull } from 'drizzle-orm';
-import { getStockManagementSettingDirect } from '@/lib/stockManagement';
-import { isWeightBasedProduct } from '@/utils/weightUtils';
+import { eq, and } from 'drizzle-orm';
 import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { getLoyaltySettings } from '@/lib/loyalty';
+import { activateOrderPointsIfDue } from '@/lib/loyaltyMaintenance';
+import { dispatchConfirmedOrder } from '@/lib/driverDispatch';
+import { InsufficientStockError } from '@/lib/inventoryLocations';
+import { stockStatusForOrder, syncOrderStock } from '@/lib/stockReservations';
+import { prepareFbrInvoice, attemptFbrSubmission } from '@/lib/fbr/queue';
+import { loadFbrReferenceForOrder } from '@/lib/fbr/reference';
+import { getScenarioRules } from '@/lib/fbr/scenarioRules';
 
 export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
@@ -34,10 +40,17 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ id:
       .from(orderItems)
       .where(eq(orderItems.orderId, orderId));
 
+    // Components of bundle lines
+    const components = await db
+      .select()
+      .from(orderItemComponents)
+      .where(eq(orderItemComponents.orderId, orderId));
+
     // Parse addons JSON for each item
     const itemsWithParsedAddons = items.map(item => ({
       ...item,
-      addons: item.addons ? JSON.parse(item.addons as string) : null
+      addons: item.addons ? JSON.parse(item.addons as string) : null,
+      components: components.filter(component => component.orderItemId === item.id)
     }));
 
     const order = {
@@ -87,7 +100,6 @@ export const PUT = withTenant(async (req: NextRequest, context: any) => {
       invoiceDate,
       validationResponse,
       isProductionSubmission,
-      productionToken,
       
       // FBR submission fields for edit order
       email,
@@ -109,8 +121,6 @@ export const PUT = withTenant(async (req: NextRequest, context: any) => {
       sellerBusinessName,
       sellerProvince,
       sellerAddress,
-      fbrSandboxToken,
-      fbrBaseUrl,
       
       // Billing/Shipping addresses
       billingFirstName,
@@ -136,7 +146,7 @@ export const PUT = withTenant(async (req: NextRequest, context: any) => {
       skipFbrSubmission
     } = body;
 
-    // Get current order and items for stock management
+    // Get current order
     const currentOrder = await db
       .select()
       .from(orders)
@@ -147,15 +157,10 @@ export const PUT = withTenant(async (req: NextRequest, context: any) => {
       return NextResponse.json({ error: 'Order not found' }, { status: 404 });
     }
 
-    const orderItemsData = await db
-      .select()
-      .from(orderItems)
-      .where(eq(orderItems.orderId, orderId));
-
     const order = currentOrder[0];
 
     // FBR Digital Invoicing Validation (BEFORE order update)
-    let fbrResponse = null;
+    let fbrResponse: any = null;
     let fbrInvoiceNumber = null;
     
     if (scenarioId && items && !skipFbrSubmission) {
@@ -222,8 +227,6 @@ export const PUT = withTenant(async (req: NextRequest, context: any) => {
           sellerBusinessName,
           sellerProvince,
           sellerAddress,
-          fbrSandboxToken,
-          fbrBaseUrl,
           
           // Billing/Shipping addresses for fallback buyer info
           billingFirstName: billingFirstName || order.billingFirstName,
@@ -278,7 +281,6 @@ export const PUT = withTenant(async (req: NextRequest, context: any) => {
           }))
         };
 
-        // Submit to FBR via our internal API (unless skipped)
         // 🔍 DEBUG: Log the exact JSON being sent to FBR
         console.log('\n🔍 === FBR SUBMISSION DEBUG (EDIT) ===');
         console.log('📤 Order data being sent to FBR mapper:');
@@ -288,28 +290,19 @@ export const PUT = withTenant(async (req: NextRequest, context: any) => {
         }
         console.log('=================================\n');
 
-        // Add production mode parameters to the FBR submission
-        const fbrPayload = {
-          ...orderForFbr,
-          // Override token and production flag if production mode is enabled
-          ...(isProductionSubmission && productionToken && {
-            fbrSandboxToken: productionToken,
-            isProductionSubmission: true
-          })
-        };
-
-        const fbrBaseUrl = process.env.NEXTAUTH_URL
-          || (process.env.NEXT_PUBLIC_ROOT_DOMAIN ? `https://${process.env.NEXT_PUBLIC_ROOT_DOMAIN}` : 'http://localhost:3000');
-        const fbrSubmissionResponse = await fetch(`${fbrBaseUrl}/api/fbr/submit`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(fbrPayload),
-        });
+        // Map, validate and submit in-process so the tenant's stored (server-only) tokens are used
+        const fbrReference = await loadFbrReferenceForOrder(orderForFbr as any);
+        const fbrRules = await getScenarioRules(context.tenantId, orderForFbr.invoiceDate);
+        const prepared = await prepareFbrInvoice(orderForFbr as any, undefined, { reference: fbrReference, rules: fbrRules });
 
-        const fbrResult = await fbrSubmissionResponse.json();
-        fbrResponse = fbrResult;
+        fbrResponse = prepared.ok
+          ? await attemptFbrSubmission(
+              prepared.fbrInvoice!,
+              context.tenantId,
+              !!isProductionSubmission,
+              { orderId, userId: context.userId }
+            )
+          : prepared;
 
         if (fbrResponse.ok && fbrResponse.response?.invoiceNumber) {
           console.log('✅ FBR submission successful:', {
@@ -372,20 +365,6 @@ export const PUT = withTenant(async (req: NextRequest, context: any) => {
       fbrResponse = { skipped: true, message: 'FBR submission skipped by user request' };
     }
 
-    // Check if stock management is enabled
-    const stockManagementEnabled = await getStockManagementSettingDirect();
-
-    // Handle stock management based on status changes (only if stock management is enabled)
-    if (stockManagementEnabled && status && status !== previousStatus) {
-      await handleStockManagement(
-        orderItemsData,
-        previousStatus,
-        status,
-        order.orderNumber,
-        context
-      );
-    }
-
     // Note: Payment status changes no longer affect inventory since stock is deducted at order creation
 
     // Calculate new total if shipping, discount, or points discount changed
@@ -400,64 +379,6 @@ export const PUT = withTenant(async (req: NextRequest, context: any) => {
       newTotalAmount = Math.max(0, subtotalAfterDiscounts + Number(order.taxAmount || 0) + newShipping);
     }
 
-    // Update order items if provided (for cases like "Fetch Products Data by SKU")
-    if (items && Array.isArray(items)) {
-      console.log(`\n=== UPDATING ORDER ITEMS ===`);
-      console.log(`Updating ${items.length} order items with fresh data`);
-      
-      // Update each order item with the new data
-      for (const item of items) {
-        if (!item.id) {
-          console.warn('Skipping item without ID:', item);
-          continue;
-        }
-        
-        const itemUpdateData: any = {
-          updatedAt: new Date(),
-        };
-        
-        // Update all the fields that might have been calculated
-        if (item.productName !== undefined) itemUpdateData.productName = item.productName;
-        if (item.productDescription !== undefined) itemUpdateData.productDescription = item.productDescription;
-        if (item.price !== undefined) itemUpdateData.price = item.price.toString();
-        if (item.totalPrice !== undefined) itemUpdateData.totalPrice = item.totalPrice.toString();
-        if (item.hsCode !== undefined) itemUpdateData.hsCode = item.hsCode;
-        if (item.uom !== undefined) itemUpdateData.uom = item.uom;
-        if (item.serialNumber !== undefined) itemUpdateData.serialNumber = item.serialNumber;
-        if (item.listNumber !== undefined) itemUpdateData.listNumber = item.listNumber;
-        if (item.bcNumber !== undefined) itemUpdateData.bcNumber = item.bcNumber;
-        if (item.lotNumber !== undefined) itemUpdateData.lotNumber = item.lotNumber;
-        if (item.expiryDate !== undefined) itemUpdateData.expiryDate = item.expiryDate;
-        if (item.saleType !== undefined) itemUpdateData.saleType = item.saleType;
-        
-        // Tax and pricing fields - these are the key ones for the fix
-        if (item.taxAmount !== undefined) itemUpdateData.taxAmount = item.taxAmount.toString();
-        if (item.taxPercentage !== undefined) itemUpdateData.taxPercentage = item.taxPercentage.toString();
-        if (item.priceIncludingTax !== undefined) itemUpdateData.priceIncludingTax = item.priceIncludingTax.toString();
-        if (item.priceExcludingTax !== undefined) itemUpdateData.priceExcludingTax = item.priceExcludingTax.toString();
-        if (item.extraTax !== undefined) itemUpdateData.extraTax = item.extraTax.toString();
-        if (item.furtherTax !== undefined) itemUpdateData.furtherTax = item.furtherTax.toString();
-        if (item.fedPayableTax !== undefined) itemUpdateData.fedPayableTax = item.fedPayableTax.toString();
-        if (item.discount !== undefined) itemUpdateData.discount = item.discount.toString();
-        if (item.fixedNotifiedValueOrRetailPrice !== undefined) itemUpdateData.fixedNotifiedValueOrRetailPrice = item.fixedNotifiedValueOrRetailPrice.toString();
-        
-        console.log(`Updating order item ${item.id} with calculated pricing:`, {
-          taxAmount: item.taxAmount,
-          taxPercentage: item.taxPercentage,
-          priceIncludingTax: item.priceIncludingTax,
-          priceExcludingTax: item.priceExcludingTax,
-          totalPrice: item.totalPrice
-        });
-        
-        await db
-          .update(orderItems)
-          .set(itemUpdateData)
-          .where(eq(orderItems.id, item.id));
-      }
-      console.log(`Successfully updated ${items.length} order items in database`);
-      console.log(`=== END UPDATING ORDER ITEMS ===\n`);
-    }
-
     // Update the main order record
     const updateData: any = {
       updatedAt: new Date(),
@@ -490,10 +411,95 @@ export const PUT = withTenant(async (req: NextRequest, context: any) => {
     if (taxAmount !== undefined) updateData.taxAmount = taxAmount;
     if (totalAmount !== undefined) updateData.totalAmount = totalAmount;
 
-    await db
-      .update(orders)
-      .set(updateData)
-      .where(eq(orders.id, orderId));
+    // Stock changes, item updates and the order update commit or roll back together.
+    // The order row is locked first and its stored status decides the stock transition,
+    // so two concurrent cancellations cannot both restore the stock.
+    await db.transaction(async (tx) => {
+      const [lockedOrder] = await tx
+        .select({ status: orders.status, fulfillmentStatus: orders.fulfillmentStatus })
+        .from(orders)
+        .where(eq(orders.id, orderId))
+        .for('update');
+
+      // Reserve, deduct or release the lines' stock when the status or fulfilment changes
+      // (only if stock management is enabled)
+      const statusChanged = !!status && status !== lockedOrder?.status;
+      const fulfillmentChanged = fulfillmentStatus !== undefined && fulfillmentStatus !== lockedOrder?.fulfillmentStatus;
+      // Lines record their own stock state (untracked lines stay 'none'), so no setting check here
+      if (lockedOrder && (statusChanged || fulfillmentChanged)) {
+        const target = stockStatusForOrder(status || lockedOrder.status, fulfillmentStatus ?? lockedOrder.fulfillmentStatus);
+        await syncOrderStock(tx, {
+          tenantId: context.tenantId,
+          orderId,
+          orderNumber: order.orderNumber,
+          event: target === 'deducted' ? 'Order Fulfilled' : target === 'released' ? 'Order Cancelled' : 'Order Reopened',
+          userId: context.userId,
+        }, target);
+      }
+
+      // Update order items if provided (for cases like "Fetch Products Data by SKU")
+      if (items && Array.isArray(items)) {
+        console.log(`\n=== UPDATING ORDER ITEMS ===`);
+        console.log(`Updating ${items.length} order items with fresh data`);
+      
+        // Update each order item with the new data
+        for (const item of items) {
+          if (!item.id) {
+            console.warn('Skipping item without ID:', item);
+            continue;
+          }
+        
+          const itemUpdateData: any = {
+            updatedAt: new Date(),
+          };
+        
+          // Update all the fields that might have been calculated
+          if (item.productName !== undefined) itemUpdateData.productName = item.productName;
+          if (item.productDescription !== undefined) itemUpdateData.productDescription = item.productDescription;
+          if (item.price !== undefined) itemUpdateData.price = item.price.toString();
+          if (item.totalPrice !== undefined) itemUpdateData.totalPrice = item.totalPrice.toString();
+          if (item.hsCode !== undefined) itemUpdateData.hsCode = item.hsCode;
+          if (item.uom !== undefined) itemUpdateData.uom = item.uom;
+          if (item.serialNumber !== undefined) itemUpdateData.serialNumber = item.serialNumber;
+          if (item.listNumber !== undefined) itemUpdateData.listNumber = item.listNumber;
+          if (item.bcNumber !== undefined) itemUpdateData.bcNumber = item.bcNumber;
+          if (item.lotNumber !== undefined) itemUpdateData.lotNumber = item.lotNumber;
+          if (item.expiryDate !== undefined) itemUpdateData.expiryDate = item.expiryDate;
+          if (item.saleType !== undefined) itemUpdateData.saleType = item.saleType;
+        
+          // Tax and pricing fields - these are the key ones for the fix
+          if (item.taxAmount !== undefined) itemUpdateData.taxAmount = item.taxAmount.toString();
+          if (item.taxPercentage !== undefined) itemUpdateData.taxPercentage = item.taxPercentage.toString();
+          if (item.priceIncludingTax !== undefined) itemUpdateData.priceIncludingTax = item.priceIncludingTax.toString();
+          if (item.priceExcludingTax !== undefined) itemUpdateData.priceExcludingTax = item.priceExcludingTax.toString();
+          if (item.extraTax !== undefined) itemUpdateData.extraTax = item.extraTax.toString();
+          if (item.furtherTax !== undefined) itemUpdateData.furtherTax = item.furtherTax.toString();
+          if (item.fedPayableTax !== undefined) itemUpdateData.fedPayableTax = item.fedPayableTax.toString();
+          if (item.discount !== undefined) itemUpdateData.discount = item.discount.toString();
+          if (item.fixedNotifiedValueOrRetailPrice !== undefined) itemUpdateData.fixedNotifiedValueOrRetailPrice = item.fixedNotifiedValueOrRetailPrice.toString();
+        
+          console.log(`Updating order item ${item.id} with calculated pricing:`, {
+            taxAmount: item.taxAmount,
+            taxPercentage: item.taxPercentage,
+            priceIncludingTax: item.priceIncludingTax,
+            priceExcludingTax: item.priceExcludingTax,
+            totalPrice: item.totalPrice
+          });
+        
+          await tx
+            .update(orderItems)
+            .set(itemUpdateData)
+            .where(eq(orderItems.id, item.id));
+        }
+        console.log(`Successfully updated ${items.length} order items in database`);
+        console.log(`=== END UPDATING ORDER ITEMS ===\n`);
+      }
+
+      await tx
+        .update(orders)
+        .set(updateData)
+        .where(eq(orders.id, orderId));
+    });
 
     // Handle points redemption changes if points were modified
     if (pointsToRedeem !== undefined && order.userId && pointsToRedeem > 0) {
@@ -508,6 +514,7 @@ export const PUT = withTenant(async (req: NextRequest, context: any) => {
           if (pointsDifference > 0) {
             // Additional points being redeemed
             await redeemLoyaltyPointsForEdit(
+              context.tenantId,
               order.userId, 
               orderId, 
               pointsDifference, 
@@ -518,6 +525,7 @@ export const PUT = withTenant(async (req: NextRequest, context: any) => {
           } else {
             // Points being refunded (negative difference)
             await refundLoyaltyPoints(
+              context.tenantId,
               order.userId,
               Math.abs(pointsDifference),
               `Points refund for order #${order.orderNumber} adjustment`
@@ -537,8 +545,9 @@ export const PUT = withTenant(async (req: NextRequest, context: any) => {
     if (status && status !== previousStatus && order.userId) {
       console.log(`Order status changed from ${previousStatus} to ${status} for order ${order.orderNumber} for user ${order.userId}`);
       try {
-        await updateLoyaltyPointsStatus(order.userId, orderId, previousStatus, status);
-        console.log(`Successfully processed points status update for user ${order.userId} for order ${order.orderNumber}`);
+        // Only activates once the return window has passed and no return is open; otherwise the daily job does
+        const activated = await activateOrderPointsIfDue(context.tenantId, orderId);
+        console.log(`Activated ${activated} pending points for user ${order.userId} for order ${order.orderNumber}`);
       } catch (pointsError) {
         console.error('Error updating loyalty points status:', pointsError);
         // Don't fail the order update if points update fails
@@ -547,6 +556,16 @@ export const PUT = withTenant(async (req: NextRequest, context: any) => {
       console.log(`Points status not updated - conditions not met: statusChanged=${status !== previousStatus}, hasUser=${!!order.userId}`);
     }
 
+    // Hand a newly confirmed order to the best placed driver (when the tenant auto-dispatches)
+    if (status === 'confirmed' && order.status !== 'confirmed') {
+      try {
+        await dispatchConfirmedOrder(context.tenantId, orderId, context.userId);
+      } catch (dispatchError) {
+        console.error('Error auto-dispatching order:', dispatchError);
+        // Don't fail the order update if dispatch fails
+      }
+    }
+
     // Fetch updated order with items
     const updatedOrderData = await db
       .select({
@@ -575,6 +594,9 @@ export const PUT = withTenant(async (req: NextRequest, context: any) => {
 
     return NextResponse.json(updatedOrder);
   } catch (error) {
+    if (error instanceof InsufficientStockError) {
+      return NextResponse.json({ error: error.message, step: 'stock' }, { status: 409 });
+    }
     console.error('Error updating order:', error);
     return NextResponse.json({ error: 'Failed to update order' }, { status: 500 });
   }
@@ -584,12 +606,6 @@ export async function DELETE(req: NextRequest, { params }: { params: Promise<{ i
   try {
     const { id: orderId } = await params;
 
-    // Get order items for stock restoration
-    const orderItemsData = await db
-      .select()
-      .from(orderItems)
-      .where(eq(orderItems.orderId, orderId));
-
     const order = await db
       .select()
       .from(orders)
@@ -607,20 +623,32 @@ export async function DELETE(req: NextRequest, { params }: { params: Promise<{ i
       );
     }
 
-    // Check if stock management is enabled for deletion
-    const stockManagementEnabledForDeletion = await getStockManagementSettingDirect();
-
-    // Restore inventory if order was not cancelled (only if stock management is enabled)
-    // Since inventory is now reserved when orders are created, we need to restore it unless it was already cancelled
-    if (stockManagementEnabledForDeletion && order[0].status !== 'cancelled') {
-      await restoreInventoryFromOrder(orderItemsData, order[0].orderNumber, { tenantId: 'default' }); // TODO: Get actual tenantId
-    }
-
-    // Delete order items first (foreign key constraint)
-    await db.delete(orderItems).where(eq(orderItems.orderId, orderId));
-    
-    // Delete the order
-    await db.delete(orders).where(eq(orders.id, orderId));
+    // Restoring stock and deleting the order happen in one transaction, with the
+    // order row locked so a concurrent cancellation cannot restore the same stock
+    await db.transaction(async (tx) => {
+      const [lockedOrder] = await tx
+        .select({ id: orders.id })
+        .from(orders)
+        .where(eq(orders.id, orderId))
+        .for('update');
+      if (!lockedOrder) return;
+
+      // Give back whatever the lines still hold, reserved or deducted
+      await syncOrderStock(tx, {
+        tenantId: order[0].tenantId,
+        orderId,
+        orderNumber: order[0].orderNumber,
+        event: 'Order Deleted',
+      }, 'released');
+
+      // Delete order items first (foreign key constraint)
+      await tx.delete(orderItemLots).where(eq(orderItemLots.orderId, orderId));
+      await tx.delete(orderItemComponents).where(eq(orderItemComponents.orderId, orderId));
+      await tx.delete(orderItems).where(eq(orderItems.orderId, orderId));
+
+      // Delete the order
+      await tx.delete(orders).where(eq(orders.id, orderId));
+    });
 
     return NextResponse.json({ message: 'Order deleted successfully' });
   } catch (error) {
@@ -629,367 +657,15 @@ export async function DELETE(req: NextRequest, { params }: { params: Promise<{ i
   }
 }
 
-// Helper function to handle stock management based on status changes
-async function handleStockManagement(
-  orderItems: any[],
-  previousStatus: string,
-  newStatus: string,
-  orderNumber: string,
-  context: any
-) {
-  for (const item of orderItems) {
-    // Get product to determine stock management type
-    const product = await db.query.products.findFirst({
-      where: eq(products.id, item.productId),
-      columns: { stockManagementType: true }
-    });
-
-    if (!product) {
-      console.warn(`Product not found for status change: ${item.productName}`);
-      continue;
-    }
-
-    const isWeightBased = isWeightBasedProduct(product.stockManagementType || 'quantity');
-
-    const inventoryConditions = [eq(productInventory.productId, item.productId)];
-    
-    if (item.variantId) {
-      inventoryConditions.push(eq(productInventory.variantId, item.variantId));
-    } else {
-      inventoryConditions.push(isNull(productInventory.variantId));
-    }
-
-    const currentInventory = await db
-      .select()
-      .from(productInventory)
-      .where(and(...inventoryConditions))
-      .limit(1);
-
-    if (currentInventory.length === 0) continue;
-
-    const inventory = currentInventory[0];
-    let updateNeeded = false;
-    let movementType = '';
-    let reason = '';
-
-    if (isWeightBased) {
-      // Handle weight-based inventory
-      let newWeightQuantity = parseFloat(inventory.weightQuantity || '0');
-      let newReservedWeight = parseFloat(inventory.reservedWeight || '0');
-      let newAvailableWeight = parseFloat(inventory.availableWeight || '0');
-      const itemWeight = parseFloat(item.weightQuantity || '0');
-
-      // Handle status transitions for weight-based products
-      if (newStatus === 'cancelled') {
-        // Restore weight when order is cancelled (inventory was deducted when order was created)
-        newWeightQuantity += itemWeight;
-        newAvailableWeight = newWeightQuantity - newReservedWeight;
-        movementType = 'in';
-        reason = 'Order Cancelled - Weight Restored';
-        updateNeeded = true;
-      }
-      // Note: No action needed for 'completed' status since stock was already deducted at order creation
-
-      if (updateNeeded) {
-        // Update weight-based inventory
-        await db
-          .update(productInventory)
-          .set({
-            weightQuantity: newWeightQuantity.toString(),
-            reservedWeight: newReservedWeight.toString(),
-            availableWeight: newAvailableWeight.toString(),
-            updatedAt: new Date(),
-          })
-          .where(eq(productInventory.id, inventory.id));
-
-        // Create stock movement record
-        await db.insert(stockMovements).values({
-          id: uuidv4(),
-          tenantId: context.tenantId,
-          inventoryId: inventory.id,
-          productId: item.productId,
-          variantId: item.variantId || null,
-          movementType,
-          quantity: 0, // No quantity change for weight-based
-          previousQuantity: inventory.quantity,
-          newQuantity: inventory.quantity,
-          weightQuantity: itemWeight.toString(),
-          previousWeightQuantity: parseFloat(inventory.weightQuantity || '0').toString(),
-          newWeightQuantity: newWeightQuantity.toString(),
-          reason,
-          reference: orderNumber,
-          notes: `Status changed from ${previousStatus} to ${newStatus}`,
-          processedBy: null,
-          createdAt: new Date(),
-        });
-      }
-    } else {
-      // Handle quantity-based inventory
-      let newQuantity = inventory.quantity;
-      let newReservedQuantity = inventory.reservedQuantity || 0;
-      let newAvailableQuantity = inventory.availableQuantity || 0;
-
-      // Handle status transitions for quantity-based products
-      if (newStatus === 'cancelled') {
-        // Restore quantity when order is cancelled (inventory was deducted when order was created)
-        newQuantity += item.quantity;
-        newAvailableQuantity = newQuantity - newReservedQuantity;
-        movementType = 'in';
-        reason = 'Order Cancelled - Quantity Restored';
-        updateNeeded = true;
-      }
-      // Note: No action needed for 'completed' status since stock was already deducted at order creation
-
-      if (updateNeeded) {
-        // Update quantity-based inventory
-        await db
-          .update(productInventory)
-          .set({
-            quantity: newQuantity,
-            reservedQuantity: newReservedQuantity,
-            availableQuantity: newAvailableQuantity,
-            updatedAt: new Date(),
-          })
-          .where(eq(productInventory.id, inventory.id));
-
-        // Create stock movement record
-        await db.insert(stockMovements).values({
-          id: uuidv4(),
-          tenantId: context.tenantId,
-          inventoryId: inventory.id,
-          productId: item.productId,
-          variantId: item.variantId || null,
-          movementType,
-          quantity: item.quantity,
-          previousQuantity: inventory.quantity,
-          newQuantity: newQuantity,
-          weightQuantity: '0.00',
-          previousWeightQuantity: '0.00',
-          newWeightQuantity: '0.00',
-          reason,
-          reference: orderNumber,
-          notes: `Status changed from ${previousStatus} to ${newStatus}`,
-          processedBy: null,
-          createdAt: new Date(),
-        });
-      }
-    }
-  }
-}
-
-
-
-// Helper function to restore inventory when order is deleted
-async function restoreInventoryFromOrder(orderItems: any[], orderNumber: string, context: any) {
-  for (const item of orderItems) {
-    // Get product to determine stock management type
-    const product = await db.query.products.findFirst({
-      where: eq(products.id, item.productId),
-      columns: { stockManagementType: true }
-    });
-
-    if (!product) {
-      console.warn(`Product not found for inventory restoration: ${item.productName}`);
-      continue;
-    }
-
-    const isWeightBased = isWeightBasedProduct(product.stockManagementType || 'quantity');
-
-    const inventoryConditions = [eq(productInventory.productId, item.productId)];
-    
-    if (item.variantId) {
-      inventoryConditions.push(eq(productInventory.variantId, item.variantId));
-    } else {
-      inventoryConditions.push(isNull(productInventory.variantId));
-    }
-
-    const currentInventory = await db
-      .select()
-      .from(productInventory)
-      .where(and(...inventoryConditions))
-      .limit(1);
-
-    if (currentInventory.length === 0) continue;
-
-    const inventory = currentInventory[0];
-
-    if (isWeightBased) {
-      // Handle weight-based inventory restoration
-      const currentReservedWeight = parseFloat(inventory.reservedWeight || '0');
-      const currentWeightQuantity = parseFloat(inventory.weightQuantity || '0');
-      const itemWeight = parseFloat(item.weightQuantity || '0');
-      
-      const newWeightQuantity = currentWeightQuantity + itemWeight;
-      const newAvailableWeight = newWeightQuantity - currentReservedWeight;
-
-      // Update inventory
-      await db
-        .update(productInventory)
-        .set({
-          weightQuantity: newWeightQuantity.toString(),
-          availableWeight: newAvailableWeight.toString(),
-          updatedAt: new Date(),
-        })
-        .where(eq(productInventory.id, inventory.id));
-
-      // Create stock movement record
-      await db.insert(stockMovements).values({
-        id: uuidv4(),
-        tenantId: context.tenantId,
-        inventoryId: inventory.id,
-        productId: item.productId,
-        variantId: item.variantId || null,
-        movementType: 'in',
-        quantity: 0, // No quantity change for weight-based
-        previousQuantity: inventory.quantity,
-        newQuantity: inventory.quantity,
-        weightQuantity: itemWeight.toString(),
-        previousWeightQuantity: currentWeightQuantity.toString(),
-        newWeightQuantity: newWeightQuantity.toString(),
-        reason: 'Order Deleted - Weight Restored',
-        reference: orderNumber,
-        notes: `Order ${orderNumber} was deleted, ${itemWeight}g restored to inventory`,
-        processedBy: null,
-        createdAt: new Date(),
-      });
-    } else {
-      // Handle quantity-based inventory restoration
-      const currentReservedQuantity = inventory.reservedQuantity || 0;
-      const newQuantity = inventory.quantity + item.quantity;
-      const newAvailableQuantity = newQuantity - currentReservedQuantity;
-
-      // Update inventory
-      await db
-        .update(productInventory)
-        .set({
-          quantity: newQuantity,
-          availableQuantity: newAvailableQuantity,
-          updatedAt: new Date(),
-        })
-        .where(eq(productInventory.id, inventory.id));
-
-      // Create stock movement record
-      await db.insert(stockMovements).values({
-        id: uuidv4(),
-        tenantId: context.tenantId,
-        inventoryId: inventory.id,
-        productId: item.productId,
-        variantId: item.variantId || null,
-        movementType: 'in',
-        quantity: item.quantity,
-        previousQuantity: inventory.quantity,
-        newQuantity: newQuantity,
-        weightQuantity: '0.00',
-        previousWeightQuantity: '0.00',
-        newWeightQuantity: '0.00',
-        reason: 'Order Deleted - Quantity Restored',
-        reference: orderNumber,
-        notes: `Order ${orderNumber} was deleted, ${item.quantity} units restored to inventory`,
-        processedBy: null,
-        createdAt: new Date(),
-      });
-    }
-  }
-}
-
-// Helper function to update loyalty points status
-async function updateLoyaltyPointsStatus(userId: string, orderId: string, previousStatus: string, newStatus: string) {
-  console.log('=== UPDATE POINTS STATUS FUNCTION ===');
-  console.log('Parameters:', { userId, orderId, previousStatus, newStatus });
-
-  // Check if loyalty is enabled
-  const loyaltyEnabled = await db
-    .select()
-    .from(settings)
-    .where(eq(settings.key, 'loyalty_enabled'))
-    .limit(1);
-
-  if (loyaltyEnabled.length === 0 || loyaltyEnabled[0]?.value !== 'true') {
-    console.log('Loyalty system is disabled');
-    return;
-  }
-
-  // Handle status change to completed - activate pending points
-  if (newStatus === 'completed' && previousStatus !== 'completed') {
-    console.log('Activating pending points for completed order');
-    
-    try {
-      // Get pending points for this order
-      const pendingHistory = await db
-        .select()
-        .from(loyaltyPointsHistory)
-        .where(
-          and(
-            eq(loyaltyPointsHistory.userId, userId),
-            eq(loyaltyPointsHistory.orderId, orderId),
-            eq(loyaltyPointsHistory.status, 'pending'),
-            eq(loyaltyPointsHistory.transactionType, 'earned')
-          )
-        );
-
-      if (pendingHistory.length === 0) {
-        console.log('No pending points found for this order');
-        return;
-      }
-
-      const pointsToActivate = pendingHistory.reduce((sum, record) => sum + (record.points || 0), 0);
-      console.log(`Points to activate: ${pointsToActivate}`);
-
-      // Update user points - move from pending to available
-      const userPoints = await db
-        .select()
-        .from(userLoyaltyPoints)
-        .where(eq(userLoyaltyPoints.userId, userId))
-        .limit(1);
-
-      if (userPoints.length > 0) {
-        const current = userPoints[0];
-        await db.update(userLoyaltyPoints)
-          .set({
-            availablePoints: (current?.availablePoints || 0) + pointsToActivate,
-            pendingPoints: Math.max(0, (current?.pendingPoints || 0) - pointsToActivate),
-            updatedAt: new Date()
-          })
-          .where(eq(userLoyaltyPoints.userId, userId));
-        console.log('Updated user points - moved from pending to available');
-      }
-
-      // Update history records to available status
-      for (const record of pendingHistory) {
-        await db.update(loyaltyPointsHistory)
-          .set({
-            status: 'available',
-            pointsBalance: (userPoints[0]?.availablePoints || 0) + pointsToActivate
-          })
-          .where(eq(loyaltyPointsHistory.id, record.id));
-      }
-      console.log('Updated history records to available status');
-
-      console.log(`Successfully activated ${pointsToActivate} points for user ${userId}`);
-
-    } catch (dbError) {
-      console.error('Database error in update points status:', dbError);
-      throw dbError;
-    }
-  }
-
-  // Handle other status changes (if needed in the future)
-  console.log(`No action needed for status change from ${previousStatus} to ${newStatus}`);
-}
-
 // Helper function to redeem loyalty points for edit order
-async function redeemLoyaltyPointsForEdit(userId: string, orderId: string, pointsToRedeem: number, discountAmount: number, description: string) {
+async function redeemLoyaltyPointsForEdit(tenantId: string, userId: string, orderId: string, pointsToRedeem: number, discountAmount: number, description: string) {
   console.log('=== REDEEM POINTS FOR EDIT FUNCTION ===');
   console.log('Parameters:', { userId, orderId, pointsToRedeem, discountAmount, description });
 
   // Check if loyalty is enabled
-  const loyaltyEnabled = await db
-    .select()
-    .from(settings)
-    .where(eq(settings.key, 'loyalty_enabled'))
-    .limit(1);
+  const loyaltySettings = await getLoyaltySettings(tenantId);
 
-  if (loyaltyEnabled.length === 0 || loyaltyEnabled[0]?.value !== 'true') {
+  if (!loyaltySettings.enabled) {
     console.log('Loyalty system is disabled');
     throw new Error('Loyalty points system is disabled');
   }
@@ -998,7 +674,7 @@ async function redeemLoyaltyPointsForEdit(userId: string, orderId: string, point
   const userPoints = await db
     .select()
     .from(userLoyaltyPoints)
-    .where(eq(userLoyaltyPoints.userId, userId))
+    .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)))
     .limit(1);
 
   if (userPoints.length === 0 || (userPoints[0]?.availablePoints || 0) < pointsToRedeem) {
@@ -1016,11 +692,12 @@ async function redeemLoyaltyPointsForEdit(userId: string, orderId: string, point
       lastRedeemedAt: new Date(),
       updatedAt: new Date()
     })
-    .where(eq(userLoyaltyPoints.userId, userId));
+    .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)));
 
   // Add history record
   await db.insert(loyaltyPointsHistory).values({
     id: uuidv4(),
+    tenantId,
     userId,
     orderId,
     transactionType: 'redeemed',
@@ -1044,7 +721,7 @@ async function redeemLoyaltyPointsForEdit(userId: string, orderId: string, point
 }
 
 // Helper function to refund loyalty points
-async function refundLoyaltyPoints(userId: string, pointsToRefund: number, reason: string) {
+async function refundLoyaltyPoints(tenantId: string, userId: string, pointsToRefund: number, reason: string) {
   console.log('=== REFUND POINTS FUNCTION ===');
   console.log('Parameters:', { userId, pointsToRefund, reason });
 
@@ -1052,7 +729,7 @@ async function refundLoyaltyPoints(userId: string, pointsToRefund: number, reaso
   const userPoints = await db
     .select()
     .from(userLoyaltyPoints)
-    .where(eq(userLoyaltyPoints.userId, userId))
+    .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)))
     .limit(1);
 
   if (userPoints.length === 0) {
@@ -1060,6 +737,7 @@ async function refundLoyaltyPoints(userId: string, pointsToRefund: number, reaso
     // Create new record if it doesn't exist
     await db.insert(userLoyaltyPoints).values({
       id: uuidv4(),
+      tenantId,
       userId,
       totalPointsEarned: 0,
       totalPointsRedeemed: Math.max(0, -pointsToRefund), // Adjust if refunding
@@ -1082,13 +760,14 @@ async function refundLoyaltyPoints(userId: string, pointsToRefund: number, reaso
         totalPointsRedeemed: newTotalRedeemed,
         updatedAt: new Date()
       })
-      .where(eq(userLoyaltyPoints.userId, userId));
+      .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)));
   }
 
   // Add history record
   const currentBalance = (userPoints[0]?.availablePoints || 0) + pointsToRefund;
   await db.insert(loyaltyPointsHistory).values({
     id: uuidv4(),
+    tenantId,
     userId,
     orderId: null,
     transactionType: 'manual_adjustment',
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { sendPurchaseOrder } from '@/lib/replenishment';
+
+// POST - email a draft purchase order to its supplier and mark it pending
+export const POST = withTenant(async (req: NextRequest, context, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params;
+    const result = await sendPurchaseOrder(context.tenantId, id);
+
+    if (!result.success) {
+      return result.error === 'Purchase order not found'
+        ? NextResponse.json({ error: result.error }, { status: 404 })
+        : ErrorResponses.invalidInput(result.error || 'Failed to send purchase order');
+    }
+
+    return NextResponse.json({ success: true, emailSent: result.emailSent });
+  } catch (error) {
+    console.error('Error sending purchase order:', error);
+    return ErrorResponses.serverError('Failed to send purchase order');
+  }
+});
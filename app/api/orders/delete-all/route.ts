@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { orders, orderItems, stockMovements, loyaltyPointsHistory } from '@/lib/schema';
+import { orders, orderItems, orderItemComponents, stockMovements, loyaltyPointsHistory } from '@/lib/schema';
 import { ne, inArray } from 'drizzle-orm';
 
 export async function DELETE(req: NextRequest) {
@@ -28,6 +28,10 @@ export async function DELETE(req: NextRequest) {
       inArray(stockMovements.reference, sandboxOrderNumbers)
     );
 
+    await db.delete(orderItemComponents).where(
+      inArray(orderItemComponents.orderId, sandboxOrderIds)
+    );
+
     await db.delete(orderItems).where(
       inArray(orderItems.orderId, sandboxOrderIds)
     );
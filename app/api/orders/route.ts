@@ -1,12 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { orders, orderItems, productInventory, stockMovements, products, productVariants, user, drivers, userLoyaltyPoints, loyaltyPointsHistory, settings, suppliers } from '@/lib/schema';
+import { orders, orderItems, orderItemComponents, productInventory, stockMovements, products, productVariants, user, drivers, userLoyaltyPoints, loyaltyPointsHistory, suppliers } from '@/lib/schema';
 import { v4 as uuidv4 } from 'uuid';
-import { eq, and, isNull, desc, or, sql } from 'drizzle-orm';
-import { getStockManagementSettingDirect } from '@/lib/stockManagement';
+import { eq, and, desc, or, sql } from 'drizzle-orm';
+import { getStockManagementSettingDirect, getStockTrackingDirect, type StockTrackingMode } from '@/lib/stockManagement';
+import { getCostingMethod, getIssueUnitCost } from '@/lib/inventoryCosting';
+import { componentAmount, getBundleComponents, type BundleComponent } from '@/lib/bundles';
 import { isWeightBasedProduct, convertToGrams } from '@/utils/weightUtils';
 import { sendInvoiceEmails } from '@/lib/email';
 import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { calculateOrderPoints, getLoyaltySettings, getPointsExpiryDate } from '@/lib/loyalty';
+import { dispatchConfirmedOrder } from '@/lib/driverDispatch';
+import {
+  findOrCreateInventoryAtLocation,
+  getDefaultLocation,
+  InsufficientStockError,
+  lockInventoryRows,
+  pickFulfillmentInventory,
+  resolveLocation,
+  type FulfillmentRequest,
+  type ProductInventoryRow,
+} from '@/lib/inventoryLocations';
+import { getReservableStock, stockStatusForOrder, transitionLineStock } from '@/lib/stockReservations';
+import { prepareFbrInvoice, checkFbrInvoice, enqueueFbrSubmission, processFbrSubmission, type FbrAttemptResult } from '@/lib/fbr/queue';
+import { loadFbrReferenceForOrder } from '@/lib/fbr/reference';
+import { getScenarioRules } from '@/lib/fbr/scenarioRules';
+import { generateInvoicePdf } from '@/lib/fbr/invoicePdf';
+import type { FbrPostResponse } from '@/lib/fbr/types';
+
+// Stock a bundle line takes from one of its components
+interface BundleComponentPick {
+  component: BundleComponent;
+  tracking: StockTrackingMode;
+  quantity: number;
+  weightQuantity: number; // grams
+  inventory: ProductInventoryRow | null; // null for untracked components
+}
 
 // Helper function to format date for FBR without timezone conversion
 function formatDateForFbr(dateInput: string | Date): string {
@@ -100,6 +129,7 @@ export const GET = withTenant(async (req: NextRequest, context) => {
       invoiceType: orderData.order.invoiceType,
       invoiceRefNo: orderData.order.invoiceRefNo,
       fbrEnvironment: orderData.order.fbrEnvironment,
+      fbrSubmissionStatus: orderData.order.fbrSubmissionStatus,
       scenarioId: orderData.order.scenarioId,
       validationResponse: orderData.order.validationResponse
     }));
@@ -147,6 +177,9 @@ export const POST = withTenant(async (req: NextRequest, context) => {
       // Driver assignment fields
       assignedDriverId,
       deliveryStatus = 'pending',
+
+      // Fulfilment location (optional; picked per item when omitted)
+      fulfillmentLocationId,
       
       // Loyalty points fields
       pointsToRedeem = 0,
@@ -195,17 +228,14 @@ export const POST = withTenant(async (req: NextRequest, context) => {
       sellerBusinessName,
       sellerProvince,
       sellerAddress,
-      fbrSandboxToken,
-      fbrBaseUrl,
       
       // Email and FBR submission control flags
       skipCustomerEmail,
       skipSellerEmail,
       skipFbrSubmission,
       
-      // Production environment fields
-      isProductionSubmission,
-      productionToken
+      // Production environment flag (tokens are resolved server-side from tenant credentials)
+      isProductionSubmission
     } = body;
 
     // Validate required fields
@@ -221,85 +251,140 @@ export const POST = withTenant(async (req: NextRequest, context) => {
     const orderNumber = 'ORD-' + Date.now() + '-' + Math.random().toString(36).substr(2, 5).toUpperCase();
     const orderId = uuidv4();
 
-    // Check if stock management is enabled
-    const stockManagementEnabled = await getStockManagementSettingDirect();
-
-    // Validate inventory for all items before creating order (only if stock management is enabled)
-    if (stockManagementEnabled) {
-      for (const item of items) {
-        // Get product to determine stock management type (within tenant)
-        const product = await db.query.products.findFirst({
-          where: and(
-            eq(products.id, item.productId),
-            eq(products.tenantId, context.tenantId)
-          ),
-          columns: { stockManagementType: true }
-        });
+    // Stock handling for each line: the tenant's setting with product/variant overrides.
+    // Purchase orders bring stock in when received, so they never reserve it.
+    const stockManagementEnabled = await getStockManagementSettingDirect(context.tenantId);
+    const costingMethod = await getCostingMethod(context.tenantId);
+    const stockTracking = await getStockTrackingDirect(context.tenantId, items, stockManagementEnabled);
+    const trackingFor = (item: any): StockTrackingMode =>
+      orderType === 'purchase_order'
+        ? 'untracked'
+        : stockTracking.get(`${item.productId}:${item.variantId || ''}`) || 'untracked';
+
+    // Requested fulfilment location must be an active location of this tenant
+    const preferredLocation = fulfillmentLocationId
+      ? await resolveLocation(context.tenantId, fulfillmentLocationId)
+      : null;
+    if (fulfillmentLocationId && !preferredLocation) {
+      return ErrorResponses.invalidInput('Fulfilment location not found');
+    }
 
-        if (!product) {
-          return ErrorResponses.invalidInput(`Product not found for ${item.productName}`);
+    // Inventory row each item will be picked from, by item index
+    const fulfillmentPicks = new Map<number, ProductInventoryRow>();
+
+    // Bundles hold no stock of their own; their components are picked instead (see lib/bundles.ts)
+    const bundleComponents = orderType === 'purchase_order'
+      ? new Map<string, BundleComponent[]>()
+      : await getBundleComponents(context.tenantId, items.map((item: any) => item.productId));
+    const componentTracking = await getStockTrackingDirect(context.tenantId, [...bundleComponents.values()].flat(), stockManagementEnabled);
+    const componentPicks = new Map<number, BundleComponentPick[]>();
+
+    // Find the inventory row a line or bundle component is taken from, or the reason it cannot be
+    const pickStock = async (
+      request: FulfillmentRequest,
+      tracking: StockTrackingMode,
+      itemLabel: string
+    ): Promise<{ inventory: ProductInventoryRow; error?: undefined } | { error: NextResponse }> => {
+      const pick = await pickFulfillmentInventory(context.tenantId, request, preferredLocation);
+
+      // Backorderable lines are taken from the requested (or default) location even when short
+      if (!pick.inventory && tracking === 'backorder') {
+        const location = preferredLocation || await getDefaultLocation(context.tenantId);
+        return { inventory: await findOrCreateInventoryAtLocation(context.tenantId, request, location) };
+      }
+
+      if (!pick.inventory) {
+        // When stock management is enabled, require inventory records for all products
+        if (pick.error === 'No inventory record found') {
+          return { error: ErrorResponses.invalidInput(`No inventory record found for ${itemLabel}. Please create an inventory record first or disable stock management.`) };
         }
 
-        const isWeightBased = isWeightBasedProduct(product.stockManagementType || 'quantity');
+        const requested = request.isWeightBased ? `${request.weightQuantity || 0}g` : request.quantity;
+        const available = request.isWeightBased ? `${pick.available || 0}g` : (pick.available || 0);
+        return { error: ErrorResponses.invalidInput(`Insufficient stock for ${itemLabel}. ${pick.error}. Available: ${available}, Requested: ${requested}`) };
+      }
 
-        const inventoryConditions = [
-          eq(productInventory.productId, item.productId),
-          eq(productInventory.tenantId, context.tenantId)
-        ];
-        
-        if (item.variantId) {
-          inventoryConditions.push(eq(productInventory.variantId, item.variantId));
-        } else {
-          inventoryConditions.push(isNull(productInventory.variantId));
-        }
+      // Stock in expired lots cannot be sold until it is written off
+      const requestedAmount = request.isWeightBased ? (request.weightQuantity || 0) : request.quantity;
+      const { reservable, expired } = await getReservableStock(context.tenantId, pick.inventory, request.isWeightBased);
+      if (tracking !== 'backorder' && expired > 0 && reservable < requestedAmount) {
+        const unit = request.isWeightBased ? 'g' : '';
+        return { error: ErrorResponses.invalidInput(`Insufficient unexpired stock for ${itemLabel}. ${expired}${unit} is in expired lots. Sellable: ${reservable}${unit}, Requested: ${requestedAmount}${unit}`) };
+      }
 
-        const currentInventory = await db
-          .select()
-          .from(productInventory)
-          .where(and(...inventoryConditions))
-          .limit(1);
+      return { inventory: pick.inventory };
+    };
 
-        // When stock management is enabled, require inventory records for all products
-        if (currentInventory.length === 0) {
-          return ErrorResponses.invalidInput(`No inventory record found for ${item.productName}${item.variantTitle ? ` (${item.variantTitle})` : ''}. Please create an inventory record first or disable stock management.`);
+    // Validate inventory for all stock-tracked items before creating order
+    for (const [index, item] of items.entries()) {
+      const components = bundleComponents.get(item.productId);
+      if (components) {
+        if (components.length === 0) {
+          return ErrorResponses.invalidInput(`Bundle ${item.productName} has no components`);
         }
 
-        const inventory = currentInventory[0];
+        const picks: BundleComponentPick[] = [];
+        for (const component of components) {
+          const amount = componentAmount(component, item.quantity);
+          const tracking = componentTracking.get(`${component.productId}:${component.variantId || ''}`) || 'untracked';
+          if (tracking === 'untracked') {
+            picks.push({ component, tracking, ...amount, inventory: null });
+            continue;
+          }
 
-        if (isWeightBased) {
-          // Weight-based stock validation
-          const availableWeight = parseFloat(inventory.availableWeight || '0');
-          const requestedWeight = item.weightQuantity || 0;
+          const componentLabel = `${component.productName}${component.variantTitle ? ` (${component.variantTitle})` : ''} in ${item.productName}`;
+          const picked = await pickStock({
+            productId: component.productId,
+            variantId: component.variantId,
+            ...amount,
+            isWeightBased: component.isWeightBased,
+          }, tracking, componentLabel);
+          if (picked.error) return picked.error;
 
-          if (availableWeight < requestedWeight) {
-            return ErrorResponses.invalidInput(`Insufficient stock for ${item.productName}${item.variantTitle ? ` (${item.variantTitle})` : ''}. Available: ${availableWeight}g, Requested: ${requestedWeight}g`);
-          }
+          picks.push({ component, tracking, ...amount, inventory: picked.inventory });
+        }
+        componentPicks.set(index, picks);
+        continue;
+      }
 
-          // Check if product has any stock
-          const totalWeight = parseFloat(inventory.weightQuantity || '0');
-          if (totalWeight <= 0) {
-            return ErrorResponses.invalidInput(`${item.productName}${item.variantTitle ? ` (${item.variantTitle})` : ''} is out of stock. Total weight: ${totalWeight}g`);
-          }
-        } else {
-          // Quantity-based stock validation
-          const availableStock = inventory.availableQuantity || 
-            (inventory.quantity - (inventory.reservedQuantity || 0));
+      const tracking = trackingFor(item);
+      if (tracking === 'untracked') continue;
 
-          if (availableStock < item.quantity) {
-            return ErrorResponses.invalidInput(`Insufficient stock for ${item.productName}${item.variantTitle ? ` (${item.variantTitle})` : ''}. Available: ${availableStock}, Requested: ${item.quantity}`);
-          }
+      // Get product to determine stock management type (within tenant)
+      const product = await db.query.products.findFirst({
+        where: and(
+          eq(products.id, item.productId),
+          eq(products.tenantId, context.tenantId)
+        ),
+        columns: { stockManagementType: true }
+      });
 
-          // Additional validation: Check if the product is active and available
-          if (inventory.quantity <= 0) {
-            return ErrorResponses.invalidInput(`${item.productName}${item.variantTitle ? ` (${item.variantTitle})` : ''} is out of stock. Total quantity: ${inventory.quantity}`);
-          }
-        }
+      if (!product) {
+        return ErrorResponses.invalidInput(`Product not found for ${item.productName}`);
       }
+
+      const isWeightBased = isWeightBasedProduct(product.stockManagementType || 'quantity');
+      const itemLabel = `${item.productName}${item.variantTitle ? ` (${item.variantTitle})` : ''}`;
+
+      const picked = await pickStock({
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity,
+        weightQuantity: item.weightQuantity || 0,
+        isWeightBased,
+      }, tracking, itemLabel);
+      if (picked.error) return picked.error;
+
+      fulfillmentPicks.set(index, picked.inventory);
     }
 
-    // FBR Digital Invoicing Validation (BEFORE order creation)
-    let fbrResponse = null;
-    let fbrInvoiceNumber = null;
+    // FBR Digital Invoicing Validation (BEFORE order creation). The invoice is only
+    // validated here; it is posted once the order and its stock are saved, so a
+    // failed save can never leave a posted FBR invoice without an order.
+    let fbrResponse: any = null;
+    let fbrInvoiceNumber: string | null | undefined = null;
+    let fbrAttempt: FbrAttemptResult | null = null;
+    let fbrSubmissionId: string | null = null;
     
     if (scenarioId) {
       console.log(`\n=== FBR DIGITAL INVOICING VALIDATION (PRE-ORDER) ===`);
@@ -338,8 +423,6 @@ export const POST = withTenant(async (req: NextRequest, context) => {
           sellerBusinessName,
           sellerProvince,
           sellerAddress,
-          fbrSandboxToken,
-          fbrBaseUrl,
           
           // Billing/Shipping addresses for fallback buyer info
           billingFirstName,
@@ -405,63 +488,58 @@ export const POST = withTenant(async (req: NextRequest, context) => {
           }
           console.log('=================================\n');
 
-          // Add production mode parameters to the FBR submission
-          const fbrPayload = {
-            ...orderForFbr,
-            // Override token and production flag if production mode is enabled
-            ...(isProductionSubmission && productionToken && {
-              fbrSandboxToken: productionToken,
-              isProductionSubmission: true
-            })
-          };
-
-          const fbrBaseUrl = process.env.NEXTAUTH_URL
-            || (process.env.NEXT_PUBLIC_ROOT_DOMAIN ? `https://${process.env.NEXT_PUBLIC_ROOT_DOMAIN}` : 'http://localhost:3000');
-          const fbrSubmissionResponse = await fetch(`${fbrBaseUrl}/api/fbr/submit`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-tenant-id': context.tenantId,
-              'x-tenant-slug': context.tenantSlug,
-            },
-            body: JSON.stringify(fbrPayload),
-          });
+          // Map the order once; mapping/validation problems are genuine rejections
+          const fbrReference = await loadFbrReferenceForOrder(orderForFbr as any);
+          const fbrRules = await getScenarioRules(context.tenantId, orderForFbr.invoiceDate);
+          const prepared = await prepareFbrInvoice(orderForFbr as any, undefined, { reference: fbrReference, rules: fbrRules });
+          if (!prepared.ok) {
+            return NextResponse.json({ 
+              error: `FBR Digital Invoice submission failed: ${prepared.error}`,
+              fbrError: prepared,
+              step: 'fbr_validation'
+            }, { status: 400 });
+          }
 
-          const fbrResult = await fbrSubmissionResponse.json();
-          fbrResponse = fbrResult;
+          fbrAttempt = await checkFbrInvoice(
+            prepared.fbrInvoice!,
+            context.tenantId,
+            !!isProductionSubmission
+          );
+          fbrResponse = fbrAttempt;
         } else {
           console.log('⏭️ Skipping FBR submission as requested');
           fbrResponse = { skipped: true, message: 'FBR submission skipped by user request' };
         }
 
-        if (!skipFbrSubmission) {
-          if (fbrResponse.ok && fbrResponse.response?.invoiceNumber) {
-            console.log('✅ FBR submission successful:', {
-              step: fbrResponse.step,
-              invoiceNumber: fbrResponse.response?.invoiceNumber,
-              message: fbrResponse.response?.message,
+        if (fbrAttempt) {
+          if (fbrAttempt.ok) {
+            console.log('✅ FBR validation passed, the invoice will be posted once the order is saved');
+          } else if (fbrAttempt.retryable) {
+            // FBR is unreachable - create the order anyway and let the queue worker retry
+            console.warn('⚠️ FBR unavailable, order will be queued for submission:', {
+              step: fbrAttempt.step,
+              error: fbrAttempt.error,
             });
-            
-            fbrInvoiceNumber = fbrResponse.response.invoiceNumber;
           } else {
             console.error('❌ FBR submission failed:', {
-              step: fbrResponse.step,
-              error: fbrResponse.error,
-              validationError: fbrResponse.response?.validationResponse?.error,
+              step: fbrAttempt.step,
+              error: fbrAttempt.error,
+              validationError: fbrAttempt.response?.validationResponse?.error,
             });
           
             // Return error immediately - don't create the order
             let errorMessage = 'FBR Digital Invoice submission failed';
             
-            if (fbrResponse.response?.validationResponse?.error) {
-              errorMessage += `: ${fbrResponse.response.validationResponse.error}`;
-            } else if (fbrResponse.error) {
-              errorMessage += `: ${fbrResponse.error}`;
+            if (fbrAttempt.response?.validationResponse?.error) {
+              errorMessage += `: ${fbrAttempt.response.validationResponse.error}`;
+            } else if (fbrAttempt.error) {
+              errorMessage += `: ${fbrAttempt.error}`;
             }
             
             // Include detailed validation errors if available
-            if (fbrResponse.response?.validationResponse?.invoiceStatuses) {
-              const itemErrors = fbrResponse.response.validationResponse.invoiceStatuses
+            const invoiceStatuses = (fbrAttempt.response as FbrPostResponse | undefined)?.validationResponse?.invoiceStatuses;
+            if (invoiceStatuses) {
+              const itemErrors = invoiceStatuses
                 .filter((status: any) => status.error)
                 .map((status: any) => `Item ${status.itemSNo}: ${status.error}`)
                 .join('; ');
@@ -473,10 +551,7 @@ export const POST = withTenant(async (req: NextRequest, context) => {
             
             return NextResponse.json({ 
               error: errorMessage,
-              fbrError: {
-                ...fbrResponse,
-                fbrInvoice: fbrResponse.fbrInvoice // Pass through the generated FBR payload
-              },
+              fbrError: fbrAttempt,
               step: 'fbr_validation'
             }, { status: 400 });
           }
@@ -492,303 +567,337 @@ export const POST = withTenant(async (req: NextRequest, context) => {
       console.log(`=== END FBR DIGITAL INVOICING VALIDATION ===\n`);
     }
 
-    // Create the order (only if FBR validation passed)
-    await db.insert(orders).values({
-      id: orderId,
-      tenantId: context.tenantId, // Add tenant ID
-      orderNumber,
-      userId: userId || null,
-      email,
-      phone: phone || null,
-      status,
-      paymentStatus,
-      fulfillmentStatus: 'pending',
-      subtotal,
-      taxAmount: taxAmount || 0,
-      shippingAmount: shippingAmount || 0,
-      discountAmount: discountAmount || 0,
-      totalAmount,
-      currency,
+    // Create the order (only if FBR validation passed) together with its items and
+    // stock deductions in one transaction. The picked inventory rows are locked and
+    // re-checked inside it, so concurrent orders cannot both pass validation and
+    // oversell, and a failure part-way through leaves no partial order or movements.
+    try {
+      await db.transaction(async (tx) => {
+        await tx.insert(orders).values({
+          id: orderId,
+          tenantId: context.tenantId, // Add tenant ID
+          orderNumber,
+          userId: userId || null,
+          email,
+          phone: phone || null,
+          status,
+          paymentStatus,
+          fulfillmentStatus: 'pending',
+          subtotal,
+          taxAmount: taxAmount || 0,
+          shippingAmount: shippingAmount || 0,
+          discountAmount: discountAmount || 0,
+          totalAmount,
+          currency,
       
-      // Driver assignment fields
-      assignedDriverId: assignedDriverId || null,
-      deliveryStatus,
+          // Driver assignment fields
+          assignedDriverId: assignedDriverId || null,
+          deliveryStatus,
+          fulfillmentLocationId: preferredLocation?.id || null,
       
-      // Loyalty points fields
-      pointsToRedeem: pointsToRedeem || 0,
-      pointsDiscountAmount: pointsDiscountAmount || 0,
+          // Loyalty points fields
+          pointsToRedeem: pointsToRedeem || 0,
+          pointsDiscountAmount: pointsDiscountAmount || 0,
       
-      // Purchase Order fields
-      orderType: orderType || 'customer',
-      supplierId: supplierId || null,
-      purchaseOrderNumber: purchaseOrderNumber || null,
-      expectedDeliveryDate: expectedDeliveryDate ? new Date(expectedDeliveryDate) : null,
+          // Purchase Order fields
+          orderType: orderType || 'customer',
+          supplierId: supplierId || null,
+          purchaseOrderNumber: purchaseOrderNumber || null,
+          expectedDeliveryDate: expectedDeliveryDate ? new Date(expectedDeliveryDate) : null,
       
-      // Invoice and validation fields
-      invoiceType: invoiceType || null,
-      invoiceRefNo: invoiceRefNo || null,
-      scenarioId: scenarioId || null,
-      invoiceNumber: fbrInvoiceNumber || invoiceNumber || null,
-      invoiceDate: invoiceDate ? (typeof invoiceDate === 'string' && invoiceDate.includes('T') ? new Date(invoiceDate) : new Date(invoiceDate + 'T00:00:00.000Z')) : null,
-      validationResponse: fbrResponse ? JSON.stringify(fbrResponse) : validationResponse || null,
-      fbrEnvironment: isProductionSubmission ? 'production' : 'sandbox',
+          // Invoice and validation fields
+          invoiceType: invoiceType || null,
+          invoiceRefNo: invoiceRefNo || null,
+          scenarioId: scenarioId || null,
+          invoiceNumber: invoiceNumber || null,
+          invoiceDate: invoiceDate ? (typeof invoiceDate === 'string' && invoiceDate.includes('T') ? new Date(invoiceDate) : new Date(invoiceDate + 'T00:00:00.000Z')) : null,
+          validationResponse: fbrResponse ? JSON.stringify(fbrResponse) : validationResponse || null,
+          fbrEnvironment: isProductionSubmission ? 'production' : 'sandbox',
+          fbrSubmissionStatus: fbrAttempt ? 'queued' : null,
       
-      // Billing address
-      billingFirstName: billingFirstName || null,
-      billingLastName: billingLastName || null,
-      billingAddress1: billingAddress1 || null,
-      billingAddress2: billingAddress2 || null,
-      billingCity: billingCity || null,
-      billingState: billingState || null,
-      billingPostalCode: billingPostalCode || null,
-      billingCountry: billingCountry || null,
+          // Billing address
+          billingFirstName: billingFirstName || null,
+          billingLastName: billingLastName || null,
+          billingAddress1: billingAddress1 || null,
+          billingAddress2: billingAddress2 || null,
+          billingCity: billingCity || null,
+          billingState: billingState || null,
+          billingPostalCode: billingPostalCode || null,
+          billingCountry: billingCountry || null,
       
-      // Shipping address
-      shippingFirstName: shippingFirstName || null,
-      shippingLastName: shippingLastName || null,
-      shippingAddress1: shippingAddress1 || null,
-      shippingAddress2: shippingAddress2 || null,
-      shippingCity: shippingCity || null,
-      shippingState: shippingState || null,
-      shippingPostalCode: shippingPostalCode || null,
-      shippingCountry: shippingCountry || null,
+          // Shipping address
+          shippingFirstName: shippingFirstName || null,
+          shippingLastName: shippingLastName || null,
+          shippingAddress1: shippingAddress1 || null,
+          shippingAddress2: shippingAddress2 || null,
+          shippingCity: shippingCity || null,
+          shippingState: shippingState || null,
+          shippingPostalCode: shippingPostalCode || null,
+          shippingCountry: shippingCountry || null,
       
-      // Buyer fields (from selected customer)
-      buyerNTNCNIC: buyerNTNCNIC || null,
-      buyerBusinessName: buyerBusinessName || null,
-      buyerProvince: buyerProvince || null,
-      buyerAddress: buyerAddress || null,
-      buyerRegistrationType: buyerRegistrationType || null,
+          // Buyer fields (from selected customer)
+          buyerNTNCNIC: buyerNTNCNIC || null,
+          buyerBusinessName: buyerBusinessName || null,
+          buyerProvince: buyerProvince || null,
+          buyerAddress: buyerAddress || null,
+          buyerRegistrationType: buyerRegistrationType || null,
       
-      notes: notes || null,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    });
-
-    // Create order items and manage inventory
-    for (const item of items) {
-      const orderItemId = uuidv4();
-
-      // Ensure addons are properly structured before saving
-      let addonsToSave = null;
-      if (item.addons && Array.isArray(item.addons) && item.addons.length > 0) {
-        // Validate and clean addon data
-        addonsToSave = item.addons.map((addon: any) => ({
-          addonId: addon.addonId,
-          addonTitle: addon.addonTitle || addon.title || addon.name || 'Unknown Addon',
-          price: Number(addon.price) || 0,
-          quantity: Number(addon.quantity) || 1
-        }));
-      }
+          notes: notes || null,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        });
 
-      // Get cost price from product or variant at time of sale
-      let costPrice = null;
-      let totalCost = null;
-      
-      try {
-        if (item.variantId) {
-          // Get cost price from variant (within tenant)
-          const variant = await db.query.productVariants.findFirst({
-            where: and(
-              eq(productVariants.id, item.variantId),
-              eq(productVariants.tenantId, context.tenantId)
-            ),
-            columns: { costPrice: true }
-          });
-          if (variant?.costPrice) {
-            costPrice = parseFloat(variant.costPrice);
-          }
-        } else {
-          // Get cost price from product (within tenant)
-          const product = await db.query.products.findFirst({
-            where: and(
-              eq(products.id, item.productId),
-              eq(products.tenantId, context.tenantId)
-            ),
-            columns: { costPrice: true, stockManagementType: true }
-          });
-          if (product?.costPrice) {
-            costPrice = parseFloat(product.costPrice);
-          }
+        // Queued with the order, so a saved order always has its FBR submission
+        if (fbrAttempt?.fbrInvoice) {
+          fbrSubmissionId = await enqueueFbrSubmission(tx, context.tenantId, orderId, fbrAttempt.fbrInvoice, !!isProductionSubmission);
         }
 
-        // Calculate total cost
-        if (costPrice) {
-          if (item.weightQuantity && item.weightQuantity > 0) {
-            // For weight-based products, cost is per gram/kg
-            totalCost = costPrice * (item.weightQuantity / 1000); // Assuming costPrice is per kg
-          } else {
-            totalCost = costPrice * item.quantity;
+        const targetStockStatus = stockStatusForOrder(status);
+        const stockContext = {
+          tenantId: context.tenantId,
+          orderId,
+          orderNumber,
+          event: 'Order Created',
+          userId: context.userId,
+        };
+
+        // Lock every picked inventory row up front (in a fixed order) before touching stock
+        const lockedInventory = await lockInventoryRows(tx, context.tenantId, [
+          ...[...fulfillmentPicks.values()].map(row => row.id),
+          ...[...componentPicks.values()].flat().flatMap(pick => pick.inventory ? [pick.inventory.id] : []),
+        ]);
+
+        // Create order items and manage inventory
+        for (const [index, item] of items.entries()) {
+          const orderItemId = uuidv4();
+          const pickedInventory = fulfillmentPicks.get(index);
+
+          // Ensure addons are properly structured before saving
+          let addonsToSave = null;
+          if (item.addons && Array.isArray(item.addons) && item.addons.length > 0) {
+            // Validate and clean addon data
+            addonsToSave = item.addons.map((addon: any) => ({
+              addonId: addon.addonId,
+              addonTitle: addon.addonTitle || addon.title || addon.name || 'Unknown Addon',
+              price: Number(addon.price) || 0,
+              quantity: Number(addon.quantity) || 1
+            }));
           }
-        }
-      } catch (error) {
-        console.warn(`Failed to get cost price for item ${item.productName}:`, error);
-      }
 
-      // Create order item
-      await db.insert(orderItems).values({
-        id: orderItemId,
-        tenantId: context.tenantId, // Add tenant ID
-        orderId,
-        productId: item.productId,
-        variantId: item.variantId || null,
-        productName: item.productName,
-        productDescription: item.productDescription || null,
-        variantTitle: item.variantTitle || null,
-        sku: item.sku || null,
-        hsCode: item.hsCode || null,
-        uom: item.uom || null,
-        itemSerialNumber: item.itemSerialNumber || null,
-        sroScheduleNumber: item.sroScheduleNumber || null,
-        // Product identification fields
-        serialNumber: item.serialNumber || null,
-        listNumber: item.listNumber || null,
-        bcNumber: item.bcNumber || null,
-        lotNumber: item.lotNumber || null,
-        expiryDate: item.expiryDate || null,
-        quantity: item.quantity,
-        price: item.price,
-        costPrice: costPrice ? costPrice.toString() : null,
-        totalPrice: item.totalPrice,
-        totalCost: totalCost ? totalCost.toString() : null,
-        productImage: null, // TODO: Get from product/variant
-        addons: addonsToSave ? JSON.stringify(addonsToSave) : null,
-        // Weight-based fields
-        weightQuantity: item.weightQuantity ? item.weightQuantity.toString() : '0.00',
-        weightUnit: item.weightUnit || null,
-        // Tax and discount fields
-        taxAmount: item.taxAmount ? item.taxAmount.toString() : '0.00',
-        taxPercentage: item.taxPercentage ? item.taxPercentage.toString() : '0.00',
-        priceIncludingTax: item.priceIncludingTax ? item.priceIncludingTax.toString() : '0.00',
-        priceExcludingTax: item.priceExcludingTax ? item.priceExcludingTax.toString() : '0.00',
-        extraTax: item.extraTax ? item.extraTax.toString() : '0.00',
-        furtherTax: item.furtherTax ? item.furtherTax.toString() : '0.00',
-        fedPayableTax: item.fedPayableTax ? item.fedPayableTax.toString() : '0.00',
-        discount: item.discount ? item.discount.toString() : '0.00',
-        // Additional tax fields
-        fixedNotifiedValueOrRetailPrice: item.fixedNotifiedValueOrRetailPrice ? item.fixedNotifiedValueOrRetailPrice.toString() : '0.00',
-        saleType: item.saleType || 'Goods at standard rate',
-        createdAt: new Date(),
-      });
+          // Stamp the stock cost at time of sale (weighted average or FIFO, see lib/inventoryCosting.ts)
+          let costPrice = null;
+          let totalCost = null;
+      
+          try {
+            const isWeightBasedLine = !!(item.weightQuantity && item.weightQuantity > 0);
+            const picks = componentPicks.get(index);
+            if (picks) {
+              // A bundle costs what its costed components cost
+              let bundleCost: number | null = null;
+              for (const pick of picks) {
+                const unitCost = await getIssueUnitCost(context.tenantId, {
+                  productId: pick.component.productId,
+                  variantId: pick.component.variantId,
+                  amount: pick.component.isWeightBased ? pick.weightQuantity : pick.quantity,
+                  isWeightBased: pick.component.isWeightBased,
+                }, costingMethod, tx);
+                if (unitCost !== null) {
+                  bundleCost = (bundleCost || 0) + (pick.component.isWeightBased ? unitCost * pick.weightQuantity / 1000 : unitCost * pick.quantity);
+                }
+              }
+              if (bundleCost !== null && item.quantity > 0) {
+                costPrice = bundleCost / item.quantity;
+              }
+            } else {
+              costPrice = await getIssueUnitCost(context.tenantId, {
+                productId: item.productId,
+                variantId: item.variantId || null,
+                amount: isWeightBasedLine ? item.weightQuantity : item.quantity,
+                isWeightBased: isWeightBasedLine,
+              }, costingMethod, tx);
+            }
 
-      // Deduct inventory immediately when order is created (only if stock management is enabled)
-      // This treats orders as immediate sales rather than reservations
-      if (stockManagementEnabled) {
-        // Get product to determine stock management type (within tenant)
-        const product = await db.query.products.findFirst({
-          where: and(
-            eq(products.id, item.productId),
-            eq(products.tenantId, context.tenantId)
-          ),
-          columns: { stockManagementType: true }
-        });
+            // Calculate total cost
+            if (costPrice) {
+              if (isWeightBasedLine) {
+                // For weight-based products, cost is per kg
+                totalCost = costPrice * (item.weightQuantity / 1000);
+              } else {
+                totalCost = costPrice * item.quantity;
+              }
+            }
+          } catch (error) {
+            console.warn(`Failed to get cost price for item ${item.productName}:`, error);
+          }
 
-        if (!product) {
-          console.warn(`Product not found for stock deduction: ${item.productName}`);
-          continue;
-        }
+          // Create order item
+          await tx.insert(orderItems).values({
+            id: orderItemId,
+            tenantId: context.tenantId, // Add tenant ID
+            orderId,
+            productId: item.productId,
+            variantId: item.variantId || null,
+            productName: item.productName,
+            productDescription: item.productDescription || null,
+            variantTitle: item.variantTitle || null,
+            sku: item.sku || null,
+            hsCode: item.hsCode || null,
+            uom: item.uom || null,
+            itemSerialNumber: item.itemSerialNumber || null,
+            sroScheduleNumber: item.sroScheduleNumber || null,
+            // Product identification fields
+            serialNumber: item.serialNumber || null,
+            listNumber: item.listNumber || null,
+            bcNumber: item.bcNumber || null,
+            lotNumber: item.lotNumber || null,
+            expiryDate: item.expiryDate || null,
+            quantity: item.quantity,
+            price: item.price,
+            costPrice: costPrice ? costPrice.toString() : null,
+            totalPrice: item.totalPrice,
+            totalCost: totalCost ? totalCost.toString() : null,
+            productImage: null, // TODO: Get from product/variant
+            addons: addonsToSave ? JSON.stringify(addonsToSave) : null,
+            // Weight-based fields
+            weightQuantity: item.weightQuantity ? item.weightQuantity.toString() : '0.00',
+            weightUnit: item.weightUnit || null,
+            locationId: pickedInventory?.locationId || null,
+            // Tax and discount fields
+            taxAmount: item.taxAmount ? item.taxAmount.toString() : '0.00',
+            taxPercentage: item.taxPercentage ? item.taxPercentage.toString() : '0.00',
+            priceIncludingTax: item.priceIncludingTax ? item.priceIncludingTax.toString() : '0.00',
+            priceExcludingTax: item.priceExcludingTax ? item.priceExcludingTax.toString() : '0.00',
+            extraTax: item.extraTax ? item.extraTax.toString() : '0.00',
+            furtherTax: item.furtherTax ? item.furtherTax.toString() : '0.00',
+            fedPayableTax: item.fedPayableTax ? item.fedPayableTax.toString() : '0.00',
+            discount: item.discount ? item.discount.toString() : '0.00',
+            // Additional tax fields
+            fixedNotifiedValueOrRetailPrice: item.fixedNotifiedValueOrRetailPrice ? item.fixedNotifiedValueOrRetailPrice.toString() : '0.00',
+            saleType: item.saleType || 'Goods at standard rate',
+            createdAt: new Date(),
+          });
 
-        const isWeightBased = isWeightBasedProduct(product.stockManagementType || 'quantity');
+          // Bundle lines hold their components' stock, each on its own order_item_components row
+          const picks = componentPicks.get(index);
+          if (picks) {
+            let holdsStock = false;
+            for (const pick of picks) {
+              const componentId = uuidv4();
+              await tx.insert(orderItemComponents).values({
+                id: componentId,
+                tenantId: context.tenantId,
+                orderId,
+                orderItemId,
+                productId: pick.component.productId,
+                variantId: pick.component.variantId,
+                productName: pick.component.productName,
+                variantTitle: pick.component.variantTitle,
+                quantity: pick.quantity,
+                weightQuantity: pick.weightQuantity.toFixed(2),
+                locationId: pick.inventory?.locationId || null,
+                stockStatus: pick.inventory ? 'released' : 'none',
+                createdAt: new Date(),
+              });
+              if (!pick.inventory) continue;
+
+              const inventory = lockedInventory.get(pick.inventory.id);
+              if (!inventory) {
+                throw new InsufficientStockError(`Inventory record for ${pick.component.productName} was removed while this order was being saved`, 0);
+              }
+              const componentLine = {
+                id: componentId,
+                orderId,
+                productId: pick.component.productId,
+                variantId: pick.component.variantId,
+                productName: pick.component.productName,
+                variantTitle: pick.component.variantTitle,
+                quantity: pick.quantity,
+                weightQuantity: pick.weightQuantity.toFixed(2),
+                bundleName: item.productName,
+              };
+              lockedInventory.set(
+                inventory.id,
+                await transitionLineStock(tx, inventory, componentLine, pick.component.isWeightBased, 'released', targetStockStatus, stockContext, pick.tracking === 'backorder')
+              );
+              holdsStock = true;
+            }
 
-        const inventoryConditions = [
-          eq(productInventory.productId, item.productId),
-          eq(productInventory.tenantId, context.tenantId)
-        ];
-        
-        if (item.variantId) {
-          inventoryConditions.push(eq(productInventory.variantId, item.variantId));
-        } else {
-          inventoryConditions.push(isNull(productInventory.variantId));
-        }
+            if (holdsStock) {
+              await tx.update(orderItems).set({ stockStatus: targetStockStatus }).where(eq(orderItems.id, orderItemId));
+            }
+            continue;
+          }
 
-        const currentInventory = await db
-          .select()
-          .from(productInventory)
-          .where(and(...inventoryConditions))
-          .limit(1);
+          // Reserve the stock for the new order, or take it straight off when the order is
+          // created as shipped/delivered (only for stock-tracked lines)
+          const tracking = trackingFor(item);
+          if (tracking !== 'untracked') {
+            // Get product to determine stock management type (within tenant)
+            const product = await tx.query.products.findFirst({
+              where: and(
+                eq(products.id, item.productId),
+                eq(products.tenantId, context.tenantId)
+              ),
+              columns: { stockManagementType: true }
+            });
 
-        if (currentInventory.length > 0) {
-          const inventory = currentInventory[0];
+            if (!product) {
+              console.warn(`Product not found for stock reservation: ${item.productName}`);
+              continue;
+            }
 
-          if (isWeightBased) {
-            // Handle weight-based stock deduction
-            const currentWeightQuantity = parseFloat(inventory.weightQuantity || '0');
-            const currentReservedWeight = parseFloat(inventory.reservedWeight || '0');
-            const requestedWeight = item.weightQuantity || 0;
-            
-            const newWeightQuantity = currentWeightQuantity - requestedWeight;
-            const newAvailableWeight = newWeightQuantity - currentReservedWeight;
-
-            // Update inventory
-            await db
-              .update(productInventory)
-              .set({
-                weightQuantity: newWeightQuantity.toString(),
-                availableWeight: newAvailableWeight.toString(),
-                updatedAt: new Date(),
-              })
-              .where(eq(productInventory.id, inventory.id));
-
-            // Create stock movement record
-            await db.insert(stockMovements).values({
-              id: uuidv4(),
-              tenantId: context.tenantId, // Add tenant ID
-              inventoryId: inventory.id,
-              productId: item.productId,
-              variantId: item.variantId || null,
-              movementType: 'out',
-              quantity: 0, // No quantity change for weight-based
-              previousQuantity: inventory.quantity,
-              newQuantity: inventory.quantity,
-              weightQuantity: requestedWeight.toString(),
-              previousWeightQuantity: currentWeightQuantity.toString(),
-              newWeightQuantity: newWeightQuantity.toString(),
-              reason: 'Order Created - Stock Sold',
-              reference: orderNumber,
-              notes: `Sold ${requestedWeight}g for new order ${orderNumber}`,
-              processedBy: context.userId || null, // Add current admin user
-              createdAt: new Date(),
-            });
-          } else {
-            // Handle quantity-based stock deduction
-            const currentReservedQuantity = inventory.reservedQuantity || 0;
-            const newQuantity = inventory.quantity - item.quantity;
-            const newAvailableQuantity = newQuantity - currentReservedQuantity;
-
-            // Update inventory
-            await db
-              .update(productInventory)
-              .set({
-                quantity: newQuantity,
-                availableQuantity: newAvailableQuantity,
-                updatedAt: new Date(),
-              })
-              .where(eq(productInventory.id, inventory.id));
-
-            // Create stock movement record
-            await db.insert(stockMovements).values({
-              id: uuidv4(),
-              tenantId: context.tenantId, // Add tenant ID
-              inventoryId: inventory.id,
-              productId: item.productId,
-              variantId: item.variantId || null,
-              movementType: 'out',
-              quantity: item.quantity,
-              previousQuantity: inventory.quantity,
-              newQuantity: newQuantity,
-              weightQuantity: '0.00',
-              previousWeightQuantity: '0.00',
-              newWeightQuantity: '0.00',
-              reason: 'Order Created - Stock Sold',
-              reference: orderNumber,
-              notes: `Sold ${item.quantity} units for new order ${orderNumber}`,
-              processedBy: context.userId || null, // Add current admin user
-              createdAt: new Date(),
-            });
+            const isWeightBased = isWeightBasedProduct(product.stockManagementType || 'quantity');
+
+            const itemLabel = `${item.productName}${item.variantTitle ? ` (${item.variantTitle})` : ''}`;
+
+            // The picked row is locked, so the stock check inside cannot race another order
+            const inventory = pickedInventory ? lockedInventory.get(pickedInventory.id) : undefined;
+
+            if (inventory) {
+              const line = {
+                id: orderItemId,
+                orderId,
+                productId: item.productId,
+                variantId: item.variantId || null,
+                productName: item.productName,
+                variantTitle: item.variantTitle || null,
+                quantity: item.quantity,
+                weightQuantity: item.weightQuantity ? item.weightQuantity.toString() : '0.00',
+              };
+              lockedInventory.set(
+                inventory.id,
+                await transitionLineStock(tx, inventory, line, isWeightBased, 'released', targetStockStatus, stockContext, tracking === 'backorder')
+              );
+            } else if (pickedInventory) {
+              throw new InsufficientStockError(`Inventory record for ${itemLabel} was removed while this order was being saved`, 0);
+            } else {
+              console.warn(`No inventory record found for product: ${item.productName}. Skipping inventory reservation.`);
+            }
           }
+        }
+      });
+    } catch (error) {
+      if (error instanceof InsufficientStockError) {
+        return NextResponse.json({ error: error.message, step: 'stock' }, { status: 409 });
+      }
+      throw error;
+    }
+
+    // Post the saved order's invoice now when FBR answered the validation; when it
+    // was unreachable the queue worker posts it later
+    if (fbrSubmissionId && fbrAttempt?.ok) {
+      try {
+        const submitted = await processFbrSubmission(fbrSubmissionId, context.tenantId, false, context.userId);
+        fbrResponse = submitted;
+        fbrInvoiceNumber = submitted?.invoiceNumber;
+        if (submitted?.status === 'posted') {
+          console.log('✅ FBR submission successful:', { invoiceNumber: submitted.invoiceNumber });
         } else {
-          console.warn(`No inventory record found for product: ${item.productName}. Skipping inventory reservation.`);
+          console.error(`❌ FBR post for order ${orderNumber} ended ${submitted?.status}:`, submitted?.error);
         }
+      } catch (submitError) {
+        // The entry stays queued (or its claim goes stale) for the worker to retry
+        console.error('❌ Failed to post FBR invoice, left for the queue worker:', submitError);
       }
     }
 
@@ -809,7 +918,7 @@ export const POST = withTenant(async (req: NextRequest, context) => {
       console.log(`\n=== POINTS REDEMPTION PROCESSING ===`);
       console.log(`Order: ${orderNumber}, UserId: ${userId}, Points to redeem: ${pointsToRedeem}, Discount: ${pointsDiscountAmount}`);
       try {
-        await redeemLoyaltyPoints(userId, orderId, pointsToRedeem, pointsDiscountAmount, `Redeemed at checkout for order #${orderNumber}`);
+        await redeemLoyaltyPoints(context.tenantId, userId, orderId, pointsToRedeem, pointsDiscountAmount, `Redeemed at checkout for order #${orderNumber}`);
         console.log(`✅ Successfully redeemed ${pointsToRedeem} points for user ${userId} for order ${orderNumber}`);
       } catch (pointsError) {
         console.error('❌ Error redeeming points:', pointsError);
@@ -825,7 +934,7 @@ export const POST = withTenant(async (req: NextRequest, context) => {
     if (userId) {
       console.log(`Attempting to award points for order ${orderNumber} to user ${userId}`);
       try {
-        await awardLoyaltyPoints(userId, orderId, totalAmount, subtotal, status);
+        await awardLoyaltyPoints(context.tenantId, userId, orderId, totalAmount, subtotal, status);
         console.log(`✅ Successfully processed points for user ${userId} for order ${orderNumber}`);
       } catch (pointsError) {
         console.error('❌ Error awarding loyalty points:', pointsError);
@@ -836,6 +945,16 @@ export const POST = withTenant(async (req: NextRequest, context) => {
     }
     console.log(`=== END LOYALTY POINTS PROCESSING ===\n`);
 
+    // Orders created already confirmed go straight to auto-dispatch (when the tenant uses it)
+    if (status === 'confirmed' && !assignedDriverId) {
+      try {
+        await dispatchConfirmedOrder(context.tenantId, orderId, context.userId);
+      } catch (dispatchError) {
+        console.error('❌ Error auto-dispatching order:', dispatchError);
+        // Don't fail the order creation if dispatch fails
+      }
+    }
+
     // Send invoice emails to customer and supplier
     console.log(`=== SENDING INVOICE EMAILS ===`);
     try {
@@ -872,7 +991,7 @@ export const POST = withTenant(async (req: NextRequest, context) => {
         shippingPostalCode,
         shippingCountry,
         // Invoice fields
-        invoiceNumber,
+        invoiceNumber: fbrInvoiceNumber || invoiceNumber,
         invoiceRefNo,
         invoiceType,
         scenarioId,
@@ -927,10 +1046,26 @@ export const POST = withTenant(async (req: NextRequest, context) => {
         }
       }
 
+      // FBR invoices go out with the seller registration, QR code and the PDF attached
+      let invoiceEmailOptions = undefined;
+      if (fbrInvoiceNumber && !skipCustomerEmail) {
+        const pdfResult = await generateInvoicePdf(context.tenantId, orderId);
+        if (pdfResult.success && pdfResult.invoice) {
+          invoiceEmailOptions = {
+            seller: pdfResult.invoice.seller,
+            qrCodeDataUrl: pdfResult.invoice.qrCodeDataUrl || undefined,
+            invoicePdf: { name: pdfResult.fileName!, content: pdfResult.pdf! },
+          };
+        } else {
+          console.warn('⚠️ Invoice PDF not attached:', pdfResult.error);
+        }
+      }
+
       // Send emails (conditionally based on checkboxes)
       const emailResults = await sendInvoiceEmails(orderForEmail, supplierForEmail, {
         skipCustomerEmail,
-        skipSellerEmail
+        skipSellerEmail,
+        invoice: invoiceEmailOptions
       });
       
       console.log('Email results:', emailResults);
@@ -954,7 +1089,13 @@ export const POST = withTenant(async (req: NextRequest, context) => {
       fbrResponse: fbrResponse, // Include FBR submission result
       fbrInvoiceNumber: fbrInvoiceNumber, // Include FBR invoice number
       success: true,
-      message: fbrInvoiceNumber ? `Order created successfully with FBR Invoice ${fbrInvoiceNumber}` : 'Order created successfully'
+      message: fbrInvoiceNumber
+        ? `Order created successfully with FBR Invoice ${fbrInvoiceNumber}`
+        : fbrResponse?.status === 'rejected'
+          ? `Order created, but FBR rejected the invoice: ${fbrResponse.error}. Retry it from the unsubmitted invoices list`
+          : fbrSubmissionId
+            ? 'Order created successfully. FBR is unavailable, the invoice has been queued for submission'
+            : 'Order created successfully'
     }, { status: 201 });
   } catch (error) {
     console.error('Error creating order:', error);
@@ -963,44 +1104,32 @@ export const POST = withTenant(async (req: NextRequest, context) => {
 });
 
 // Helper function to award loyalty points
-async function awardLoyaltyPoints(userId: string, orderId: string, orderAmount: number, subtotal: number, orderStatus: string) {
+async function awardLoyaltyPoints(tenantId: string, userId: string, orderId: string, orderAmount: number, subtotal: number, orderStatus: string) {
   console.log('=== AWARD POINTS FUNCTION ===');
   console.log('Parameters:', { userId, orderId, orderAmount, subtotal, orderStatus });
 
   // Check if loyalty is enabled
-  const loyaltyEnabled = await db
-    .select()
-    .from(settings)
-    .where(eq(settings.key, 'loyalty_enabled'))
-    .limit(1);
+  const loyaltySettings = await getLoyaltySettings(tenantId);
 
-  if (loyaltyEnabled.length === 0 || loyaltyEnabled[0]?.value !== 'true') {
+  if (!loyaltySettings.enabled) {
     console.log('Loyalty system is disabled');
     return;
   }
 
-  // Get earning settings
-  const [earningBasisSetting, earningRateSetting, minimumOrderSetting] = await Promise.all([
-    db.select().from(settings).where(eq(settings.key, 'points_earning_basis')).limit(1),
-    db.select().from(settings).where(eq(settings.key, 'points_earning_rate')).limit(1),
-    db.select().from(settings).where(eq(settings.key, 'points_minimum_order')).limit(1)
-  ]);
+  const { earningBasis, earningRate, minimumOrder } = loyaltySettings;
 
-  const earningBasis = earningBasisSetting[0]?.value || 'subtotal';
-  const earningRate = parseFloat(earningRateSetting[0]?.value || '1');
-  const minimumOrder = parseFloat(minimumOrderSetting[0]?.value || '0');
-
-  // Calculate points based on settings
-  const baseAmount = earningBasis === 'total' ? orderAmount : (subtotal || orderAmount);
+  // Calculate points from the earning rules and the customer's tier
+  const breakdown = await calculateOrderPoints(tenantId, { userId, orderId, orderAmount, subtotalAmount: subtotal }, loyaltySettings);
+  const { baseAmount } = breakdown;
   
   console.log(`Points calculation: baseAmount=${baseAmount}, minimumOrder=${minimumOrder}, earningRate=${earningRate}`);
   
-  if (baseAmount < minimumOrder) {
+  if (breakdown.belowMinimum) {
     console.log('Order amount below minimum - no points awarded');
     return;
   }
   
-  const pointsToAward = Math.floor(baseAmount * earningRate);
+  const pointsToAward = breakdown.points;
 
   if (pointsToAward <= 0) {
     console.log('No points to award - calculated points is 0');
@@ -1017,7 +1146,7 @@ async function awardLoyaltyPoints(userId: string, orderId: string, orderAmount:
   const existingPoints = await db
     .select()
     .from(userLoyaltyPoints)
-    .where(eq(userLoyaltyPoints.userId, userId))
+    .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)))
     .limit(1);
 
   if (existingPoints.length === 0) {
@@ -1025,6 +1154,7 @@ async function awardLoyaltyPoints(userId: string, orderId: string, orderAmount:
     console.log('Creating new loyalty points record');
     await db.insert(userLoyaltyPoints).values({
       id: uuidv4(),
+      tenantId,
       userId: userId,
       totalPointsEarned: pointsToAward,
       totalPointsRedeemed: 0,
@@ -1049,7 +1179,7 @@ async function awardLoyaltyPoints(userId: string, orderId: string, orderAmount:
         lastEarnedAt: new Date(),
         updatedAt: new Date()
       })
-      .where(eq(userLoyaltyPoints.userId, userId));
+      .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)));
     console.log('Updated existing loyalty points record');
   }
 
@@ -1057,6 +1187,7 @@ async function awardLoyaltyPoints(userId: string, orderId: string, orderAmount:
   console.log('Creating history record');
   await db.insert(loyaltyPointsHistory).values({
     id: uuidv4(),
+    tenantId,
     userId: userId,
     orderId: orderId,
     transactionType: 'earned',
@@ -1066,10 +1197,10 @@ async function awardLoyaltyPoints(userId: string, orderId: string, orderAmount:
     description: `Points earned from order ${orderId}`,
     orderAmount: orderAmount.toString(),
     discountAmount: null,
-    expiresAt: null,
+    expiresAt: getPointsExpiryDate(loyaltySettings),
     isExpired: false,
     processedBy: null,
-    metadata: null,
+    metadata: { earningRate, earningBasis, baseAmount, breakdown },
     createdAt: new Date()
   });
   console.log('Created history record');
@@ -1078,18 +1209,14 @@ async function awardLoyaltyPoints(userId: string, orderId: string, orderAmount:
 }
 
 // Helper function to redeem loyalty points
-async function redeemLoyaltyPoints(userId: string, orderId: string, pointsToRedeem: number, discountAmount: number, description?: string) {
+async function redeemLoyaltyPoints(tenantId: string, userId: string, orderId: string, pointsToRedeem: number, discountAmount: number, description?: string) {
   console.log('=== REDEEM POINTS FUNCTION ===');
   console.log('Parameters:', { userId, orderId, pointsToRedeem, discountAmount, description });
 
   // Check if loyalty is enabled
-  const loyaltyEnabled = await db
-    .select()
-    .from(settings)
-    .where(eq(settings.key, 'loyalty_enabled'))
-    .limit(1);
+  const loyaltySettings = await getLoyaltySettings(tenantId);
 
-  if (loyaltyEnabled.length === 0 || loyaltyEnabled[0]?.value !== 'true') {
+  if (!loyaltySettings.enabled) {
     console.log('Loyalty system is disabled');
     throw new Error('Loyalty points system is disabled');
   }
@@ -1098,7 +1225,7 @@ async function redeemLoyaltyPoints(userId: string, orderId: string, pointsToRede
   const userPoints = await db
     .select()
     .from(userLoyaltyPoints)
-    .where(eq(userLoyaltyPoints.userId, userId))
+    .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)))
     .limit(1);
 
   if (userPoints.length === 0 || (userPoints[0]?.availablePoints || 0) < pointsToRedeem) {
@@ -1106,14 +1233,7 @@ async function redeemLoyaltyPoints(userId: string, orderId: string, pointsToRede
     throw new Error('Insufficient points available');
   }
 
-  // Get redemption settings
-  const redemptionMinimumSetting = await db
-    .select()
-    .from(settings)
-    .where(eq(settings.key, 'points_redemption_minimum'))
-    .limit(1);
-
-  const redemptionMinimum = Number(redemptionMinimumSetting[0]?.value || '100');
+  const { redemptionMinimum } = loyaltySettings;
 
   if (pointsToRedeem < redemptionMinimum) {
     console.log(`Points below minimum. Required: ${redemptionMinimum}, Provided: ${pointsToRedeem}`);
@@ -1130,11 +1250,12 @@ async function redeemLoyaltyPoints(userId: string, orderId: string, pointsToRede
       lastRedeemedAt: new Date(),
       updatedAt: new Date()
     })
-    .where(eq(userLoyaltyPoints.userId, userId));
+    .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)));
 
   // Add history record
   await db.insert(loyaltyPointsHistory).values({
     id: uuidv4(),
+    tenantId,
     userId,
     orderId,
     transactionType: 'redeemed',
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { getBundleAvailability, saveBundleComponents } from '@/lib/bundles';
+
+// GET - bundle components with the number of bundles their stock covers (?locationId=)
+export const GET = withTenant(async (req: NextRequest, context, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params;
+    const availability = await getBundleAvailability(context.tenantId, id, req.nextUrl.searchParams.get('locationId'));
+    return NextResponse.json(availability);
+  } catch (error) {
+    console.error('Error fetching bundle components:', error);
+    return ErrorResponses.serverError('Failed to fetch bundle components');
+  }
+});
+
+// PUT - replace the components { components: [{ productId, variantId?, quantity | weightQuantity }] }
+export const PUT = withTenant(async (req: NextRequest, context, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params;
+    const { components } = await req.json();
+
+    const result = await saveBundleComponents(context.tenantId, id, components);
+    if (!result.success) {
+      return result.error === 'Product not found'
+        ? NextResponse.json({ error: result.error }, { status: 404 })
+        : ErrorResponses.invalidInput(result.error);
+    }
+
+    return NextResponse.json({ components: result.components });
+  } catch (error) {
+    console.error('Error saving bundle components:', error);
+    return ErrorResponses.serverError('Failed to save bundle components');
+  }
+});
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { products, productVariants, productAddons, productTags, tags } from '@/lib/schema';
+import { products, productVariants, productAddons, productTags, tags, productBundleItems } from '@/lib/schema';
 import { eq, and } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
 import { nanoid } from 'nanoid';
@@ -46,6 +46,11 @@ export async function PUT(
       productData.sku = null;
     }
 
+    // Empty stock tracking follows the store setting
+    if (productData.stockTracking === '') {
+      productData.stockTracking = null;
+    }
+
     // Convert numeric fields to strings for decimal storage
     if (productData.price) productData.price = productData.price.toString();
     if (productData.comparePrice) productData.comparePrice = productData.comparePrice.toString();
@@ -236,6 +241,10 @@ export async function DELETE(
   try {
     const { id } = await params;
     
+    await db
+      .delete(productBundleItems)
+      .where(eq(productBundleItems.bundleProductId, id));
+
     await db
       .delete(products)
       .where(eq(products.id, id));
@@ -5,6 +5,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { eq, and, sql, desc } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
 import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { BUNDLE_PRODUCT_TYPE, saveBundleComponents, validateBundleComponents } from '@/lib/bundles';
 
 export const GET = withTenant(async (request: NextRequest, context) => {
   try {
@@ -153,10 +154,13 @@ export const POST = withTenant(async (req: NextRequest, context) => {
       addons,
       // Weight-based stock management fields
       stockManagementType,
+      stockTracking,
       pricePerUnit,
       baseWeightUnit,
       // Initial stock quantity
       initialStock,
+      // Components of a bundle product
+      bundleComponents,
       // Cannabis-specific fields
       thc,
       cbd,
@@ -216,6 +220,17 @@ export const POST = withTenant(async (req: NextRequest, context) => {
       return NextResponse.json({ error: 'Group products with zero price must have at least one addon' }, { status: 400 });
     }
     
+    // Bundles hold no stock of their own, they are sold from their components
+    if (productType === BUNDLE_PRODUCT_TYPE) {
+      if (stockManagementType === 'weight') {
+        return NextResponse.json({ error: 'Bundles are sold by quantity' }, { status: 400 });
+      }
+      const bundleError = await validateBundleComponents(context.tenantId, bundleComponents);
+      if (bundleError) {
+        return NextResponse.json({ error: bundleError }, { status: 400 });
+      }
+    }
+    
     const newProduct = {
       id: uuidv4(),
       tenantId: context.tenantId, // Add tenant ID
@@ -246,6 +261,7 @@ export const POST = withTenant(async (req: NextRequest, context) => {
       variationAttributes: (variationMatrix?.attributes || variationAttributes) ? JSON.stringify(variationMatrix?.attributes || variationAttributes) : null,
       // Weight-based stock management fields
       stockManagementType: stockManagementType || 'quantity',
+      stockTracking: stockTracking || null,
       pricePerUnit: pricePerUnit ? pricePerUnit.toString() : null,
       baseWeightUnit: baseWeightUnit || 'grams',
       // Cannabis-specific fields
@@ -375,8 +391,12 @@ export const POST = withTenant(async (req: NextRequest, context) => {
       }
     }
     
+    if (productType === BUNDLE_PRODUCT_TYPE) {
+      await saveBundleComponents(context.tenantId, newProduct.id, bundleComponents);
+    }
+    
     // Handle initial stock if provided
-    if (initialStock !== undefined && initialStock !== null && initialStock > 0) {
+    if (productType !== BUNDLE_PRODUCT_TYPE && initialStock !== undefined && initialStock !== null && initialStock > 0) {
       const inventoryId = uuidv4();
       const stockMovementId = uuidv4();
       
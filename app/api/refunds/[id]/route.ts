@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { deleteRefund, failRefund, processRefund } from '@/lib/refunds';
+
+// PUT - process a pending refund ({ status: 'completed', transactionId?, notes? }) or mark it failed
+export const PUT = withTenant(async (req: NextRequest, context, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params;
+    const { status, transactionId, notes } = await req.json();
+
+    let result;
+    if (status === 'completed') {
+      result = await processRefund(context.tenantId, id, { processedBy: context.userId, transactionId, notes });
+    } else if (status === 'failed') {
+      result = await failRefund(context.tenantId, id, notes);
+    } else {
+      return ErrorResponses.invalidInput('Status must be "completed" or "failed"');
+    }
+
+    if (!result.success) {
+      return result.error === 'Refund not found'
+        ? NextResponse.json({ error: result.error }, { status: 404 })
+        : ErrorResponses.invalidInput(result.error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      refund: result.refund,
+      paymentStatus: result.paymentStatus,
+      loyalty: result.loyalty,
+    });
+  } catch (error) {
+    console.error('Error updating refund:', error);
+    return ErrorResponses.serverError('Failed to update refund');
+  }
+});
+
+export const DELETE = withTenant(async (req: NextRequest, context, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params;
+    const result = await deleteRefund(context.tenantId, id);
+
+    if (!result.success) {
+      return result.error === 'Refund not found'
+        ? NextResponse.json({ error: result.error }, { status: 404 })
+        : ErrorResponses.invalidInput(result.error);
+    }
+
+    return NextResponse.json({ success: true, message: 'Refund deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting refund:', error);
+    return ErrorResponses.serverError('Failed to delete refund');
+  }
+});
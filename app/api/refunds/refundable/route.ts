@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { getOrderRefundSummary } from '@/lib/refunds';
+
+// GET /api/refunds/refundable?order=<id or order number> - refunded, pending and remaining amounts
+export const GET = withTenant(async (req: NextRequest, context) => {
+  try {
+    const orderRef = new URL(req.url).searchParams.get('order')?.trim();
+    if (!orderRef) {
+      return ErrorResponses.invalidInput('order is required');
+    }
+
+    const summary = await getOrderRefundSummary(context.tenantId, orderRef);
+    if (!summary) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('Error fetching refundable amount:', error);
+    return ErrorResponses.serverError('Failed to fetch refundable amount');
+  }
+});
@@ -1,35 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/lib/db';
-import { refunds, orders, returns } from '@/lib/schema';
-import { v4 as uuidv4 } from 'uuid';
-import { eq } from 'drizzle-orm';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { createRefund, listRefunds } from '@/lib/refunds';
 
-export async function GET() {
+export const GET = withTenant(async (req: NextRequest, context) => {
   try {
-    const allRefunds = await db
-      .select({
-        refund: refunds,
-        order: {
-          id: orders.id,
-          orderNumber: orders.orderNumber
-        },
-        return: {
-          id: returns.id,
-          returnNumber: returns.returnNumber
-        }
-      })
-      .from(refunds)
-      .leftJoin(orders, eq(refunds.orderId, orders.id))
-      .leftJoin(returns, eq(refunds.returnId, returns.id));
-      
+    const { searchParams } = new URL(req.url);
+    const allRefunds = await listRefunds(context.tenantId, searchParams.get('orderId') || undefined);
+
     return NextResponse.json(allRefunds);
   } catch (error) {
     console.error('Error fetching refunds:', error);
-    return NextResponse.json({ error: 'Failed to fetch refunds' }, { status: 500 });
+    return ErrorResponses.serverError('Failed to fetch refunds');
   }
-}
+});
 
-export async function POST(req: NextRequest) {
+export const POST = withTenant(async (req: NextRequest, context) => {
   try {
     const { 
       orderId, 
@@ -38,33 +23,33 @@ export async function POST(req: NextRequest) {
       reason, 
       method, 
       transactionId, 
-      processedBy, 
-      notes 
+      notes,
+      process
     } = await req.json();
-    
-    // Validate required fields
-    if (!orderId || !amount) {
-      return NextResponse.json({ error: 'OrderId and amount are required' }, { status: 400 });
-    }
-    
-    const newRefund = {
-      id: uuidv4(),
+
+    const result = await createRefund(context.tenantId, {
       orderId,
-      returnId: returnId || null,
-      amount: amount.toString(),
-      reason: reason || null,
-      method: method || 'original_payment',
-      transactionId: transactionId || null,
-      status: 'pending',
-      processedBy: processedBy || null,
-      notes: notes || null,
-    };
-    
-    await db.insert(refunds).values(newRefund);
-    
-    return NextResponse.json(newRefund, { status: 201 });
+      returnId,
+      amount: Number(amount),
+      reason,
+      method,
+      transactionId,
+      notes,
+      processedBy: context.userId,
+      process: process === true,
+    });
+
+    if (!result.success) {
+      return ErrorResponses.invalidInput(result.error);
+    }
+
+    return NextResponse.json({
+      ...result.refund,
+      paymentStatus: result.paymentStatus,
+      loyalty: result.loyalty,
+    }, { status: 201 });
   } catch (error) {
     console.error('Error creating refund:', error);
-    return NextResponse.json({ error: 'Failed to create refund' }, { status: 500 });
+    return ErrorResponses.serverError('Failed to create refund');
   }
-} 
\ No newline at end of file
+});
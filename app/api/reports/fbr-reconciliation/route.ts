@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { getFbrReconciliationReport, getReconciliationExportRows } from '@/lib/fbr/reconciliation';
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Build an Excel 2003 XML (SpreadsheetML) workbook, which Excel opens natively
+ */
+function buildSpreadsheet(records: Array<Record<string, string | number>>, headers: string[]): string {
+  const cell = (value: string | number) => {
+    const isNumber = typeof value === 'number' || (value !== '' && !isNaN(Number(value)) && /^-?\d+(\.\d+)?$/.test(String(value)));
+    return `<Cell><Data ss:Type="${isNumber ? 'Number' : 'String'}">${escapeXml(String(value))}</Data></Cell>`;
+  };
+
+  const rows = [
+    `<Row>${headers.map(header => `<Cell ss:StyleID="header"><Data ss:Type="String">${escapeXml(header)}</Data></Cell>`).join('')}</Row>`,
+    ...records.map(record => `<Row>${headers.map(header => cell(record[header] ?? '')).join('')}</Row>`),
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<?mso-application progid="Excel.Sheet"?>',
+    '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">',
+    '<Styles><Style ss:ID="header"><Font ss:Bold="1"/></Style></Styles>',
+    '<Worksheet ss:Name="FBR Reconciliation"><Table>',
+    ...rows,
+    '</Table></Worksheet></Workbook>',
+  ].join('\n');
+}
+
+export const GET = withTenant(async (req: NextRequest, context) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+    const environment = searchParams.get('environment');
+    const status = searchParams.get('status');
+    const export_format = searchParams.get('export');
+
+    if (environment && environment !== 'sandbox' && environment !== 'production') {
+      return ErrorResponses.invalidInput('environment must be "sandbox" or "production"');
+    }
+
+    const report = await getFbrReconciliationReport(context.tenantId, {
+      startDate: startDate || undefined,
+      endDate: endDate || undefined,
+      environment: (environment as 'sandbox' | 'production') || undefined,
+    });
+
+    // Status filter applies to the listed/exported rows, the summary always covers the full range
+    const rows = status ? report.rows.filter(row => row.status === status) : report.rows;
+
+    if (export_format === 'csv' || export_format === 'excel') {
+      const exportData = getReconciliationExportRows(rows);
+      const headers = Object.keys(exportData[0] || {});
+      const fileDate = new Date().toISOString().split('T')[0];
+
+      if (export_format === 'excel') {
+        return new NextResponse(buildSpreadsheet(exportData, headers), {
+          headers: {
+            'Content-Type': 'application/vnd.ms-excel',
+            'Content-Disposition': `attachment; filename="fbr-reconciliation-${fileDate}.xls"`
+          }
+        });
+      }
+
+      const csvContent = [
+        headers.join(','),
+        ...exportData.map(row =>
+          headers.map(header => `"${String(row[header] ?? '').replace(/"/g, '""')}"`).join(',')
+        )
+      ].join('\n');
+
+      return new NextResponse(csvContent, {
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="fbr-reconciliation-${fileDate}.csv"`
+        }
+      });
+    }
+
+    return NextResponse.json({
+      summary: report.summary,
+      rows,
+      dateRange: {
+        startDate,
+        endDate
+      },
+      filters: {
+        environment,
+        status
+      }
+    });
+
+  } catch (error) {
+    console.error('Error building FBR reconciliation report:', error);
+    return ErrorResponses.serverError('Failed to build FBR reconciliation report');
+  }
+});
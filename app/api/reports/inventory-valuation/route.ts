@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { COSTING_METHODS, getInventoryValuation, type CostingMethod } from '@/lib/inventoryCosting';
+
+// GET - stock value by item, category and location (?asOf=YYYY-MM-DD, method, locationId, categoryId, export=csv)
+export const GET = withTenant(async (req: NextRequest, context) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const asOfParam = searchParams.get('asOf');
+    const method = searchParams.get('method');
+    const export_format = searchParams.get('export');
+
+    // A date covers the whole day
+    let asOf: Date | null = null;
+    if (asOfParam) {
+      asOf = new Date(asOfParam);
+      if (isNaN(asOf.getTime())) {
+        return ErrorResponses.invalidInput('Invalid asOf date');
+      }
+      asOf.setHours(23, 59, 59, 999);
+    }
+    if (method && !COSTING_METHODS.includes(method as CostingMethod)) {
+      return ErrorResponses.invalidInput(`method must be one of: ${COSTING_METHODS.join(', ')}`);
+    }
+
+    const valuation = await getInventoryValuation(context.tenantId, {
+      asOf,
+      method: (method as CostingMethod) || undefined,
+      locationId: searchParams.get('locationId'),
+      categoryId: searchParams.get('categoryId'),
+    });
+
+    if (export_format === 'csv') {
+      const csvHeaders = ['Product', 'Variant', 'SKU', 'Category', 'Location', 'On Hand', 'Unit', 'Unit Cost', 'Value'];
+      const csvContent = [
+        csvHeaders.join(','),
+        ...valuation.lines.map(line => [
+          line.productName,
+          line.variantTitle || '',
+          line.sku || '',
+          line.categoryName,
+          line.locationName,
+          line.onHand,
+          line.isWeightBased ? 'g' : 'unit',
+          line.unitCost ?? '',
+          line.value.toFixed(2),
+        ].map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(','))
+      ].join('\n');
+
+      return new NextResponse(csvContent, {
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="inventory-valuation-${asOfParam || new Date().toISOString().split('T')[0]}.csv"`
+        }
+      });
+    }
+
+    return NextResponse.json(valuation);
+  } catch (error) {
+    console.error('Error fetching inventory valuation:', error);
+    return ErrorResponses.serverError('Failed to fetch inventory valuation');
+  }
+});
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { orders, orderItems, products, productVariants } from '@/lib/schema';
-import { eq, and, gte, lte, desc } from 'drizzle-orm';
+import { eq, and, gte, lte, desc, ne, or, isNull } from 'drizzle-orm';
 import { calculateItemProfit, calculateOrderProfitSummary, formatProfitDataForExport, OrderItemData } from '@/utils/profitUtils';
 import { withTenant, ErrorResponses } from '@/lib/api-helpers';
 
@@ -31,7 +31,13 @@ export const GET = withTenant(async (req: NextRequest, context) => {
     }
 
     // Combine all filters including tenant filter
-    const whereConditions = [eq(orders.tenantId, context.tenantId), ...dateFilters, ...productFilters];
+    // Purchase orders carry supplier costs, not sales
+    const whereConditions = [
+      eq(orders.tenantId, context.tenantId),
+      or(isNull(orders.orderType), ne(orders.orderType, 'purchase_order')),
+      ...dateFilters,
+      ...productFilters
+    ];
 
     // Fetch orders with items that have cost prices
     const ordersWithItems = await db
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { PERMISSIONS } from '@/lib/rbac';
+import {
+  authorizeReturnAction,
+  deleteReturn,
+  getReturnDetails,
+  RETURN_STATUS_PERMISSIONS,
+  transitionReturn,
+  type ReturnStatus,
+} from '@/lib/returns';
+
+export const GET = withTenant(async (req: NextRequest, context, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { allowed } = await authorizeReturnAction(PERMISSIONS.RETURNS_VIEW);
+    if (!allowed) {
+      return ErrorResponses.forbidden();
+    }
+
+    const { id } = await params;
+    const details = await getReturnDetails(context.tenantId, id);
+
+    if (!details) {
+      return NextResponse.json({ error: 'Return not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(details);
+  } catch (error) {
+    console.error('Error fetching return:', error);
+    return ErrorResponses.serverError('Failed to fetch return');
+  }
+});
+
+// PATCH - move the return to its next status ({ status, adminNotes?, restock?, items?, refundMethod? })
+export const PATCH = withTenant(async (req: NextRequest, context, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params;
+    const { status, adminNotes, restock, items, refundMethod } = await req.json();
+
+    const requiredPermission = RETURN_STATUS_PERMISSIONS[status as ReturnStatus];
+    if (!requiredPermission) {
+      return ErrorResponses.invalidInput('Invalid status');
+    }
+
+    const { allowed, userId } = await authorizeReturnAction(requiredPermission);
+    if (!allowed) {
+      return ErrorResponses.forbidden();
+    }
+
+    const result = await transitionReturn(context.tenantId, id, {
+      status,
+      userId: userId || context.userId,
+      adminNotes,
+      restock,
+      items: Array.isArray(items) ? items : undefined,
+      refundMethod,
+    });
+
+    if (!result.success) {
+      return result.error === 'Return not found'
+        ? NextResponse.json({ error: result.error }, { status: 404 })
+        : ErrorResponses.invalidInput(result.error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Return ${result.return!.returnNumber} marked as ${status}`,
+      return: result.return,
+      items: result.items,
+      refund: result.refund || null,
+    });
+  } catch (error) {
+    console.error('Error updating return:', error);
+    return ErrorResponses.serverError('Failed to update return');
+  }
+});
+
+export const DELETE = withTenant(async (req: NextRequest, context, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { allowed } = await authorizeReturnAction(PERMISSIONS.RETURNS_DELETE);
+    if (!allowed) {
+      return ErrorResponses.forbidden();
+    }
+
+    const { id } = await params;
+    const result = await deleteReturn(context.tenantId, id);
+
+    if (!result.success) {
+      return result.error === 'Return not found'
+        ? NextResponse.json({ error: result.error }, { status: 404 })
+        : ErrorResponses.invalidInput(result.error);
+    }
+
+    return NextResponse.json({ success: true, message: 'Return deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting return:', error);
+    return ErrorResponses.serverError('Failed to delete return');
+  }
+});
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { PERMISSIONS } from '@/lib/rbac';
+import { authorizeReturnAction, getReturnableOrderItems } from '@/lib/returns';
+
+// GET /api/returns/returnable?order=<id or order number> - order lines with the quantity still returnable
+export const GET = withTenant(async (req: NextRequest, context) => {
+  try {
+    const { allowed } = await authorizeReturnAction(PERMISSIONS.RETURNS_CREATE);
+    if (!allowed) {
+      return ErrorResponses.forbidden();
+    }
+
+    const orderRef = new URL(req.url).searchParams.get('order')?.trim();
+    if (!orderRef) {
+      return ErrorResponses.invalidInput('order is required');
+    }
+
+    const result = await getReturnableOrderItems(context.tenantId, orderRef);
+    if (!result) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error fetching returnable items:', error);
+    return ErrorResponses.serverError('Failed to fetch returnable items');
+  }
+});
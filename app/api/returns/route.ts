@@ -1,74 +1,58 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/lib/db';
-import { returns, orders, user } from '@/lib/schema';
-import { v4 as uuidv4 } from 'uuid';
-import { eq } from 'drizzle-orm';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import { PERMISSIONS } from '@/lib/rbac';
+import { authorizeReturnAction, createReturn, listReturns } from '@/lib/returns';
 
-export async function GET() {
+export const GET = withTenant(async (req: NextRequest, context) => {
   try {
-    const allReturns = await db
-      .select({
-        return: returns,
-        order: {
-          id: orders.id,
-          orderNumber: orders.orderNumber,
-          totalAmount: orders.totalAmount
-        },
-        user: {
-          id: user.id,
-          name: user.name,
-          email: user.email
-        }
-      })
-      .from(returns)
-      .leftJoin(orders, eq(returns.orderId, orders.id))
-      .leftJoin(user, eq(returns.userId, user.id));
-      
+    const { allowed } = await authorizeReturnAction(PERMISSIONS.RETURNS_VIEW);
+    if (!allowed) {
+      return ErrorResponses.forbidden();
+    }
+
+    const { searchParams } = new URL(req.url);
+    const allReturns = await listReturns(context.tenantId, searchParams.get('status') || undefined);
+
     return NextResponse.json(allReturns);
   } catch (error) {
     console.error('Error fetching returns:', error);
-    return NextResponse.json({ error: 'Failed to fetch returns' }, { status: 500 });
+    return ErrorResponses.serverError('Failed to fetch returns');
   }
-}
+});
 
-export async function POST(req: NextRequest) {
+export const POST = withTenant(async (req: NextRequest, context) => {
   try {
-    const { 
-      orderId, 
-      userId, 
-      reason, 
-      description, 
-      refundAmount, 
-      restockFee, 
-      adminNotes 
-    } = await req.json();
-    
-    // Validate required fields
-    if (!orderId || !reason) {
-      return NextResponse.json({ error: 'OrderId and reason are required' }, { status: 400 });
+    const { allowed, userId } = await authorizeReturnAction(PERMISSIONS.RETURNS_CREATE);
+    if (!allowed) {
+      return ErrorResponses.forbidden();
     }
-    
-    // Generate return number
-    const returnNumber = `RET-${Date.now()}`;
-    
-    const newReturn = {
-      id: uuidv4(),
-      returnNumber,
+
+    const {
+      orderId,
+      reason,
+      description,
+      restockFee,
+      adminNotes,
+      items
+    } = await req.json();
+
+    const result = await createReturn(context.tenantId, {
       orderId,
-      userId: userId || null,
-      status: 'pending',
       reason,
-      description: description || null,
-      refundAmount: refundAmount ? refundAmount.toString() : null,
-      restockFee: restockFee ? restockFee.toString() : '0.00',
-      adminNotes: adminNotes || null,
-    };
-    
-    await db.insert(returns).values(newReturn);
-    
-    return NextResponse.json(newReturn, { status: 201 });
+      description,
+      restockFee: restockFee ? Number(restockFee) : 0,
+      adminNotes,
+      items: Array.isArray(items) ? items : [],
+      createdBy: userId || context.userId,
+    });
+
+    if (!result.success) {
+      return ErrorResponses.invalidInput(result.error);
+    }
+
+    return NextResponse.json({ ...result.return, items: result.items }, { status: 201 });
   } catch (error) {
     console.error('Error creating return:', error);
-    return NextResponse.json({ error: 'Failed to create return' }, { status: 500 });
+    return ErrorResponses.serverError('Failed to create return');
   }
-} 
\ No newline at end of file
+});
@@ -3,11 +3,11 @@ import { db } from '@/lib/db';
 import { settings } from '@/lib/schema';
 import { eq, and } from 'drizzle-orm';
 import { getTenantContext } from '@/lib/api-helpers';
+import { getFbrCredentialStatus } from '@/lib/fbr/credentials';
 
 // FBR Setting keys
 const FBR_SETTING_KEYS = {
   FBR_BASE_URL: 'fbr_base_url',
-  FBR_SANDBOX_TOKEN: 'fbr_sandbox_token',
   FBR_SELLER_NTNCNIC: 'fbr_seller_ntncnic',
   FBR_SELLER_BUSINESS_NAME: 'fbr_seller_business_name',
   FBR_SELLER_PROVINCE: 'fbr_seller_province',
@@ -17,7 +17,8 @@ const FBR_SETTING_KEYS = {
 /**
  * GET /api/seller-info
  * Returns seller information from tenant-specific settings
- * This is used to auto-fill seller fields in the order form
+ * This is used to auto-fill seller fields in the order form.
+ * FBR tokens stay on the server; only whether one is configured is returned.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -46,8 +47,8 @@ export async function GET(request: NextRequest) {
       sellerBusinessName: process.env.FBR_SELLER_BUSINESS_NAME || '',
       sellerProvince: process.env.FBR_SELLER_PROVINCE || '',
       sellerAddress: process.env.FBR_SELLER_ADDRESS || '',
-      fbrSandboxToken: process.env.FBR_SANDBOX_TOKEN || '',
-      fbrBaseUrl: process.env.FBR_BASE_URL || ''
+      fbrBaseUrl: process.env.FBR_BASE_URL || '',
+      fbrTokenConfigured: !!process.env.FBR_SANDBOX_TOKEN
     };
 
     // Override with tenant-specific settings if available
@@ -56,9 +57,6 @@ export async function GET(request: NextRequest) {
         case FBR_SETTING_KEYS.FBR_BASE_URL:
           sellerInfo.fbrBaseUrl = setting.value || sellerInfo.fbrBaseUrl;
           break;
-        case FBR_SETTING_KEYS.FBR_SANDBOX_TOKEN:
-          sellerInfo.fbrSandboxToken = setting.value || sellerInfo.fbrSandboxToken;
-          break;
         case FBR_SETTING_KEYS.FBR_SELLER_NTNCNIC:
           sellerInfo.sellerNTNCNIC = setting.value || sellerInfo.sellerNTNCNIC;
           break;
@@ -74,6 +72,9 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    const credentials = await getFbrCredentialStatus(tenantContext.tenantId);
+    sellerInfo.fbrTokenConfigured = sellerInfo.fbrTokenConfigured || credentials.sandbox.configured;
+
     return NextResponse.json(sellerInfo);
   } catch (error) {
     console.error('Error fetching seller info:', error);
@@ -0,0 +1,100 @@
+/**
+ * FBR Scenario Rules Settings API Route
+ *
+ * GET    - Rules in effect for the tenant (?date=) plus every stored version
+ * POST   - Save a rule version ({ scenarioId, effectiveFrom, saleType, defaultRate, ...flags, scope? })
+ * DELETE - Remove a rule version (?id=&scope=)
+ *
+ * scope "global" edits the platform-wide defaults and requires a super admin.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import {
+  deleteScenarioRule,
+  getScenarioRules,
+  listScenarioRuleVersions,
+  saveScenarioRule,
+} from '@/lib/fbr/scenarioRules';
+import { allScenarios } from '@/lib/fbr/saleTypes';
+
+async function isSuperAdmin() {
+  const session = await getServerSession(authOptions);
+  return (session?.user as any)?.type === 'super-admin';
+}
+
+export const GET = withTenant(async (req: NextRequest, context) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const date = searchParams.get('date') || new Date().toISOString().split('T')[0];
+
+    const [rules, versions] = await Promise.all([
+      getScenarioRules(context.tenantId, date),
+      listScenarioRuleVersions(context.tenantId),
+    ]);
+
+    return NextResponse.json({
+      date,
+      rules: allScenarios.map(scenarioId => rules[scenarioId]),
+      versions,
+      canEditGlobal: await isSuperAdmin(),
+    });
+  } catch (error) {
+    console.error('Error fetching FBR scenario rules:', error);
+    return ErrorResponses.serverError('Failed to fetch FBR scenario rules');
+  }
+});
+
+export const POST = withTenant(async (req: NextRequest, context) => {
+  try {
+    const body = await req.json();
+    const { scope = 'tenant', ...input } = body;
+
+    if (scope === 'global' && !(await isSuperAdmin())) {
+      return NextResponse.json({ error: 'Only super admins can edit the global scenario defaults' }, { status: 403 });
+    }
+
+    const result = await saveScenarioRule(
+      scope === 'global' ? null : context.tenantId,
+      input,
+      context.userId
+    );
+
+    if (!result.success) {
+      return ErrorResponses.invalidInput(result.error || 'Invalid scenario rule');
+    }
+
+    return NextResponse.json({ success: true, rule: result.rule });
+  } catch (error) {
+    console.error('Error saving FBR scenario rule:', error);
+    return ErrorResponses.serverError('Failed to save FBR scenario rule');
+  }
+});
+
+export const DELETE = withTenant(async (req: NextRequest, context) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const id = searchParams.get('id');
+    const scope = searchParams.get('scope') || 'tenant';
+
+    if (!id) {
+      return ErrorResponses.invalidInput('id is required');
+    }
+
+    if (scope === 'global' && !(await isSuperAdmin())) {
+      return NextResponse.json({ error: 'Only super admins can edit the global scenario defaults' }, { status: 403 });
+    }
+
+    const result = await deleteScenarioRule(scope === 'global' ? null : context.tenantId, id);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting FBR scenario rule:', error);
+    return ErrorResponses.serverError('Failed to delete FBR scenario rule');
+  }
+});
@@ -0,0 +1,113 @@
+/**
+ * FBR Credentials Settings API Route
+ *
+ * GET  - Token status per environment (last 4 characters, expiry), rotation history
+ *        and the credential audit log. Tokens themselves are never returned.
+ * POST - Rotate a token ({ environment, token, expiresAt? }), change the expiry
+ *        date of the current one ({ environment, expiresAt }), or encrypt a token
+ *        left in the old plain-text settings ({ environment, action: 'import_legacy' })
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenant, ErrorResponses } from '@/lib/api-helpers';
+import {
+  FBR_ENVIRONMENTS,
+  FBR_TOKEN_EXPIRY_WARNING_DAYS,
+  getFbrCredentialStatus,
+  importLegacyFbrToken,
+  isFbrTokenEncryptionConfigured,
+  listFbrCredentialAuditLog,
+  listFbrCredentialHistory,
+  rotateFbrCredential,
+  updateFbrCredentialExpiry,
+} from '@/lib/fbr/credentials';
+import type { FbrEnvironment } from '@/lib/fbr/types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const GET = withTenant(async (req: NextRequest, context) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    // ?summary=true skips history and audit log (used by the dashboard warning)
+    const summaryOnly = searchParams.get('summary') === 'true';
+
+    const credentials = await getFbrCredentialStatus(context.tenantId);
+
+    if (summaryOnly) {
+      return NextResponse.json({ success: true, credentials, warningDays: FBR_TOKEN_EXPIRY_WARNING_DAYS });
+    }
+
+    const [history, auditLog] = await Promise.all([
+      listFbrCredentialHistory(context.tenantId),
+      listFbrCredentialAuditLog(context.tenantId),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      credentials,
+      history,
+      auditLog,
+      encryptionConfigured: isFbrTokenEncryptionConfigured(),
+      warningDays: FBR_TOKEN_EXPIRY_WARNING_DAYS,
+    });
+  } catch (error) {
+    console.error('Error fetching FBR credentials:', error);
+    return ErrorResponses.serverError('Failed to fetch FBR credentials');
+  }
+});
+
+export const POST = withTenant(async (req: NextRequest, context) => {
+  try {
+    const body = await req.json();
+    const { environment, token, expiresAt, action } = body as {
+      environment: FbrEnvironment;
+      token?: string;
+      expiresAt?: string | null;
+      action?: 'import_legacy';
+    };
+
+    if (!FBR_ENVIRONMENTS.includes(environment)) {
+      return ErrorResponses.invalidInput('environment must be "sandbox" or "production"');
+    }
+
+    if (action === 'import_legacy') {
+      const imported = await importLegacyFbrToken(context.tenantId, environment, context.userId);
+      if (!imported.success) {
+        return ErrorResponses.invalidInput(imported.error || 'Failed to import FBR token');
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: imported.imported
+          ? `FBR ${environment} token imported and encrypted`
+          : `No plain-text FBR ${environment} token to import`,
+        credentials: await getFbrCredentialStatus(context.tenantId),
+      });
+    }
+    if (expiresAt && !DATE_PATTERN.test(expiresAt)) {
+      return ErrorResponses.invalidInput('expiresAt must be a date in YYYY-MM-DD format');
+    }
+
+    // Tokens are valid until the end of their expiry day
+    const expiryDate = expiresAt ? new Date(`${expiresAt}T23:59:59.000Z`) : null;
+
+    const result = token?.trim()
+      ? await rotateFbrCredential(context.tenantId, environment, token, { expiresAt: expiryDate, userId: context.userId })
+      : await updateFbrCredentialExpiry(context.tenantId, environment, expiryDate, context.userId);
+
+    if (!result.success) {
+      return ErrorResponses.invalidInput(result.error || 'Failed to update FBR token');
+    }
+
+    const credentials = await getFbrCredentialStatus(context.tenantId);
+
+    return NextResponse.json({
+      success: true,
+      message: token?.trim() ? `FBR ${environment} token updated successfully` : `FBR ${environment} token expiry updated`,
+      credentials,
+    });
+  } catch (error) {
+    console.error('Error updating FBR credentials:', error);
+    return ErrorResponses.serverError('Failed to update FBR credentials');
+  }
+});
@@ -4,12 +4,11 @@ import { settings } from '@/lib/schema';
 import { eq, and } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
 import { getTenantContext } from '@/lib/api-helpers';
+import { getFbrCredentialStatus } from '@/lib/fbr/credentials';
 
 // FBR Setting keys
 const FBR_SETTING_KEYS = {
   FBR_BASE_URL: 'fbr_base_url',
-  FBR_SANDBOX_TOKEN: 'fbr_sandbox_token',
-  FBR_PRODUCTION_TOKEN: 'fbr_production_token',
   FBR_SELLER_NTNCNIC: 'fbr_seller_ntncnic',
   FBR_SELLER_BUSINESS_NAME: 'fbr_seller_business_name',
   FBR_SELLER_PROVINCE: 'fbr_seller_province',
@@ -17,10 +16,9 @@ const FBR_SETTING_KEYS = {
   FBR_STRN_NUMBER: 'fbr_strn_number',
 } as const;
 
+// Tokens are managed separately through /api/settings/fbr/credentials and never returned here
 interface FbrSettings {
   fbrBaseUrl: string;
-  fbrSandboxToken: string;
-  fbrProductionToken: string;
   fbrSellerNTNCNIC: string;
   fbrSellerBusinessName: string;
   fbrSellerProvince: string;
@@ -30,8 +28,6 @@ interface FbrSettings {
 
 const DEFAULT_FBR_SETTINGS: FbrSettings = {
   fbrBaseUrl: '',
-  fbrSandboxToken: '',
-  fbrProductionToken: '',
   fbrSellerNTNCNIC: '',
   fbrSellerBusinessName: '',
   fbrSellerProvince: '',
@@ -69,12 +65,6 @@ export async function GET(request: NextRequest) {
         case FBR_SETTING_KEYS.FBR_BASE_URL:
           fbrSettings.fbrBaseUrl = setting.value || '';
           break;
-        case FBR_SETTING_KEYS.FBR_SANDBOX_TOKEN:
-          fbrSettings.fbrSandboxToken = setting.value || '';
-          break;
-        case FBR_SETTING_KEYS.FBR_PRODUCTION_TOKEN:
-          fbrSettings.fbrProductionToken = setting.value || '';
-          break;
         case FBR_SETTING_KEYS.FBR_SELLER_NTNCNIC:
           fbrSettings.fbrSellerNTNCNIC = setting.value || '';
           break;
@@ -95,7 +85,8 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      settings: fbrSettings
+      settings: fbrSettings,
+      credentials: await getFbrCredentialStatus(tenantContext.tenantId)
     });
   } catch (error) {
     console.error('Error getting FBR settings:', error);
@@ -129,7 +120,6 @@ export async function POST(request: NextRequest) {
     // Validate required fields
     const requiredFields = [
       'fbrBaseUrl',
-      'fbrSandboxToken', 
       'fbrSellerNTNCNIC',
       'fbrSellerBusinessName',
       'fbrSellerProvince',
@@ -148,8 +138,6 @@ export async function POST(request: NextRequest) {
     // Map of settings to update
     const settingsToUpdate = [
       { key: FBR_SETTING_KEYS.FBR_BASE_URL, value: newSettings.fbrBaseUrl, description: 'FBR API base URL' },
-      { key: FBR_SETTING_KEYS.FBR_SANDBOX_TOKEN, value: newSettings.fbrSandboxToken, description: 'FBR sandbox API token' },
-      { key: FBR_SETTING_KEYS.FBR_PRODUCTION_TOKEN, value: newSettings.fbrProductionToken, description: 'FBR production API token' },
       { key: FBR_SETTING_KEYS.FBR_SELLER_NTNCNIC, value: newSettings.fbrSellerNTNCNIC, description: 'Seller NTN/CNIC number' },
       { key: FBR_SETTING_KEYS.FBR_SELLER_BUSINESS_NAME, value: newSettings.fbrSellerBusinessName, description: 'Seller business name' },
       { key: FBR_SETTING_KEYS.FBR_SELLER_PROVINCE, value: newSettings.fbrSellerProvince, description: 'Seller province' },
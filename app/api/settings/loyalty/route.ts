@@ -3,7 +3,7 @@ import { db } from '@/lib/db';
 import { settings } from '@/lib/schema';
 import { eq, and } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
-import { getTenantContext } from '@/lib/api-helpers';
+import { withTenant } from '@/lib/api-helpers';
 
 // Default loyalty settings
 const DEFAULT_LOYALTY_SETTINGS = {
@@ -46,19 +46,26 @@ const DEFAULT_LOYALTY_SETTINGS = {
     value: "100",
     type: "number",
     description: "Minimum points required to redeem"
+  },
+  points_exclude_discounted_items: {
+    value: "false",
+    type: "boolean",
+    description: "Discounted or on-sale order items earn no points"
+  },
+  points_return_window_days: {
+    value: "0",
+    type: "number",
+    description: "Days after the order date before pending points of a delivered order become available (0 = on delivery)"
+  },
+  points_expiry_reminder_days: {
+    value: "7",
+    type: "number",
+    description: "Days before points expire to email the customer a reminder (0 = no reminders)"
   }
 };
 
-export async function GET(request: NextRequest) {
+export const GET = withTenant(async (request: NextRequest, tenantContext) => {
   try {
-    const tenantContext = await getTenantContext(request);
-    if (!tenantContext) {
-      return NextResponse.json(
-        { error: 'Unauthorized - No tenant context' },
-        { status: 401 }
-      );
-    }
-
     // Get all loyalty-related settings for this tenant
     const loyaltySettings = await db
       .select()
@@ -128,18 +135,10 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(req: NextRequest) {
+export const POST = withTenant(async (req: NextRequest, tenantContext) => {
   try {
-    const tenantContext = await getTenantContext(req);
-    if (!tenantContext) {
-      return NextResponse.json(
-        { error: 'Unauthorized - No tenant context' },
-        { status: 401 }
-      );
-    }
-
     const body = await req.json();
     const { settings: newSettings } = body;
 
@@ -258,4 +257,4 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
@@ -4,9 +4,37 @@ import { settings } from '@/lib/schema';
 import { eq, and } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
 import { getTenantContext } from '@/lib/api-helpers';
+import { getReservationTimeoutHours, STOCK_RESERVATION_TIMEOUT_KEY } from '@/lib/stockReservations';
+import { COSTING_METHODS, getCostingMethod, INVENTORY_COSTING_METHOD_KEY } from '@/lib/inventoryCosting';
 
 const STOCK_MANAGEMENT_KEY = 'stock_management_enabled';
 
+// Create or update one of the tenant's settings
+async function saveSetting(tenantId: string, key: string, value: string, type: string, description: string) {
+  const existingSetting = await db
+    .select()
+    .from(settings)
+    .where(and(eq(settings.tenantId, tenantId), eq(settings.key, key)))
+    .limit(1);
+
+  if (existingSetting.length > 0) {
+    await db
+      .update(settings)
+      .set({ value, updatedAt: new Date() })
+      .where(and(eq(settings.tenantId, tenantId), eq(settings.key, key)));
+  } else {
+    await db.insert(settings).values({
+      id: uuidv4(),
+      tenantId,
+      key,
+      value,
+      type,
+      description,
+      isActive: true,
+    });
+  }
+}
+
 export async function GET(request: NextRequest) {
   try {
     const tenantContext = await getTenantContext(request);
@@ -47,7 +75,10 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    return NextResponse.json({ stockManagementEnabled });
+    const reservationTimeoutHours = await getReservationTimeoutHours(tenantContext.tenantId);
+    const costingMethod = await getCostingMethod(tenantContext.tenantId);
+
+    return NextResponse.json({ stockManagementEnabled, reservationTimeoutHours, costingMethod });
   } catch (error) {
     console.error('Error getting stock management setting:', error);
     return NextResponse.json({ error: 'Failed to get setting' }, { status: 500 });
@@ -64,54 +95,58 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const { enabled } = await req.json();
+    const { enabled, reservationTimeoutHours, costingMethod } = await req.json();
     
-    if (typeof enabled !== 'boolean') {
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
       return NextResponse.json({ error: 'enabled must be a boolean value' }, { status: 400 });
     }
+    if (reservationTimeoutHours !== undefined && (typeof reservationTimeoutHours !== 'number' || !(reservationTimeoutHours >= 0))) {
+      return NextResponse.json({ error: 'reservationTimeoutHours must be a number of hours (0 to never release)' }, { status: 400 });
+    }
+    if (costingMethod !== undefined && !COSTING_METHODS.includes(costingMethod)) {
+      return NextResponse.json({ error: `costingMethod must be one of: ${COSTING_METHODS.join(', ')}` }, { status: 400 });
+    }
+    if (enabled === undefined && reservationTimeoutHours === undefined && costingMethod === undefined) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+    }
 
-    // Check if setting exists for this tenant
-    const existingSetting = await db
-      .select()
-      .from(settings)
-      .where(
-        and(
-          eq(settings.tenantId, tenantContext.tenantId),
-          eq(settings.key, STOCK_MANAGEMENT_KEY)
-        )
-      )
-      .limit(1);
+    if (enabled !== undefined) {
+      await saveSetting(
+        tenantContext.tenantId,
+        STOCK_MANAGEMENT_KEY,
+        enabled.toString(),
+        'boolean',
+        'Enable or disable stock management system'
+      );
+    }
 
-    if (existingSetting.length > 0) {
-      // Update existing setting for this tenant
-      await db
-        .update(settings)
-        .set({
-          value: enabled.toString(),
-          updatedAt: new Date(),
-        })
-        .where(
-          and(
-            eq(settings.tenantId, tenantContext.tenantId),
-            eq(settings.key, STOCK_MANAGEMENT_KEY)
-          )
-        );
-    } else {
-      // Create new setting for this tenant
-      await db.insert(settings).values({
-        id: uuidv4(),
-        tenantId: tenantContext.tenantId,
-        key: STOCK_MANAGEMENT_KEY,
-        value: enabled.toString(),
-        type: 'boolean',
-        description: 'Enable or disable stock management system',
-        isActive: true,
-      });
+    if (reservationTimeoutHours !== undefined) {
+      await saveSetting(
+        tenantContext.tenantId,
+        STOCK_RESERVATION_TIMEOUT_KEY,
+        reservationTimeoutHours.toString(),
+        'number',
+        'Hours after which stock reserved by unpaid orders is released (0 = never)'
+      );
+    }
+
+    if (costingMethod !== undefined) {
+      await saveSetting(
+        tenantContext.tenantId,
+        INVENTORY_COSTING_METHOD_KEY,
+        costingMethod,
+        'string',
+        'Inventory costing method (weighted_average or fifo)'
+      );
     }
     
     return NextResponse.json({ 
       stockManagementEnabled: enabled, 
-      message: `Stock management ${enabled ? 'enabled' : 'disabled'} successfully` 
+      reservationTimeoutHours,
+      costingMethod,
+      message: enabled !== undefined
+        ? `Stock management ${enabled ? 'enabled' : 'disabled'} successfully`
+        : 'Stock settings updated successfully'
     });
   } catch (error) {
     console.error('Error updating stock management setting:', error);
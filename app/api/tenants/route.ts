@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { tenants, orders, settings } from '@/lib/schema';
+import { tenants, orders, settings, fbrCredentials } from '@/lib/schema';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { v4 as uuidv4 } from 'uuid';
@@ -35,7 +35,8 @@ export async function GET() {
         createdAt: tenants.createdAt,
         updatedAt: tenants.updatedAt,
         productionOrdersCount: sql<number>`COUNT(CASE WHEN ${orders.fbrEnvironment} = 'production' THEN 1 END)`,
-        hasFbrProductionToken: sql<boolean>`MAX(CASE WHEN ${settings.key} = 'fbr_production_token' AND ${settings.value} IS NOT NULL AND ${settings.value} != '' THEN 1 ELSE 0 END) = 1`,
+        // Encrypted credential, or a legacy plain-text setting not yet imported
+        hasFbrProductionToken: sql<boolean>`(EXISTS (SELECT 1 FROM ${fbrCredentials} WHERE ${fbrCredentials.tenantId} = ${tenants.id} AND ${fbrCredentials.environment} = 'production' AND ${fbrCredentials.isActive} = true) OR MAX(CASE WHEN ${settings.key} = 'fbr_production_token' AND ${settings.value} IS NOT NULL AND ${settings.value} != '' THEN 1 ELSE 0 END) = 1)`,
       })
       .from(tenants)
       .leftJoin(orders, eq(orders.tenantId, tenants.id))
@@ -27,8 +27,8 @@ export const DELETE = withTenant(async (request: NextRequest, context) => {
     const userIds = tenantUserIds.map((u) => u.id);
 
     // 1) Loyalty: delete history and points
-    await db.delete(loyaltyPointsHistory).where(inArray(loyaltyPointsHistory.userId, userIds));
-    await db.delete(userLoyaltyPoints).where(inArray(userLoyaltyPoints.userId, userIds));
+    await db.delete(loyaltyPointsHistory).where(and(inArray(loyaltyPointsHistory.userId, userIds), eq(loyaltyPointsHistory.tenantId, context.tenantId)));
+    await db.delete(userLoyaltyPoints).where(and(inArray(userLoyaltyPoints.userId, userIds), eq(userLoyaltyPoints.tenantId, context.tenantId)));
 
     // 2) Orders/Returns: set userId to null to preserve historical records
     await db.update(orders).set({ userId: null }).where(inArray(orders.userId, userIds));
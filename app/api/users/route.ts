@@ -44,7 +44,7 @@ export const GET = withTenant(async (request: NextRequest, context) => {
           loyaltyPoints: userLoyaltyPoints
         })
         .from(user)
-        .leftJoin(userLoyaltyPoints, eq(user.id, userLoyaltyPoints.userId))
+        .leftJoin(userLoyaltyPoints, and(eq(user.id, userLoyaltyPoints.userId), eq(userLoyaltyPoints.tenantId, context.tenantId)))
         .where(userFilter)
         .orderBy(desc(user.createdAt))
         .limit(limitNum)
@@ -87,7 +87,7 @@ export const GET = withTenant(async (request: NextRequest, context) => {
           loyaltyPoints: userLoyaltyPoints
         })
         .from(user)
-        .leftJoin(userLoyaltyPoints, eq(user.id, userLoyaltyPoints.userId))
+        .leftJoin(userLoyaltyPoints, and(eq(user.id, userLoyaltyPoints.userId), eq(userLoyaltyPoints.tenantId, context.tenantId)))
         .where(userFilter)
         .orderBy(desc(user.createdAt));
 
@@ -0,0 +1,137 @@
+'use client';
+import React, { useEffect, useState } from 'react';
+
+export interface BundleComponentRow {
+  productId: string;
+  variantId: string;
+  quantity: string; // units per bundle
+  weightQuantity: string; // grams per bundle, for weight-based components
+}
+
+interface ProductOption {
+  id: string;
+  name: string;
+  productType: string;
+  stockManagementType: string;
+}
+
+interface VariantOption {
+  id: string;
+  title: string;
+}
+
+interface BundleComponentsEditorProps {
+  value: BundleComponentRow[];
+  onChange: (rows: BundleComponentRow[]) => void;
+  excludeProductId?: string; // The bundle being edited
+}
+
+export const toBundleComponentInputs = (rows: BundleComponentRow[]) => rows.map(row => ({
+  productId: row.productId,
+  variantId: row.variantId || null,
+  quantity: parseInt(row.quantity) || 0,
+  weightQuantity: parseFloat(row.weightQuantity) || 0,
+}));
+
+/**
+ * Picks the products or variants a bundle is made of and the amount of each per bundle.
+ * Bundles cannot contain other bundles, so they are left out of the product list.
+ */
+const BundleComponentsEditor: React.FC<BundleComponentsEditorProps> = ({ value, onChange, excludeProductId }) => {
+  const [productOptions, setProductOptions] = useState<ProductOption[]>([]);
+  const [variantsByProduct, setVariantsByProduct] = useState<Record<string, VariantOption[]>>({});
+
+  useEffect(() => {
+    fetch('/api/products')
+      .then(res => (res.ok ? res.json() : []))
+      .then((rows: Array<{ product: ProductOption }>) => {
+        setProductOptions(rows
+          .map(row => row.product)
+          .filter(product => product.productType !== 'bundle' && product.id !== excludeProductId));
+      })
+      .catch(err => console.error('Error fetching bundle component products:', err));
+  }, [excludeProductId]);
+
+  const productById = (id: string) => productOptions.find(product => product.id === id);
+
+  // Variable products need a variant; load their variants once they are picked
+  useEffect(() => {
+    const missing = [...new Set(value.map(row => row.productId))].filter(id =>
+      productById(id)?.productType === 'variable' && !variantsByProduct[id]
+    );
+    missing.forEach(async (productId) => {
+      try {
+        const res = await fetch(`/api/products/${productId}/variants`);
+        const data = res.ok ? await res.json() : { variants: [] };
+        setVariantsByProduct(prev => ({ ...prev, [productId]: data.variants || [] }));
+      } catch (err) {
+        console.error('Error fetching component variants:', err);
+      }
+    });
+  }, [value, productOptions]);
+
+  const updateRow = (index: number, changes: Partial<BundleComponentRow>) => {
+    onChange(value.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.map((row, index) => {
+        const product = productById(row.productId);
+        const isWeightBased = product?.stockManagementType === 'weight';
+        return (
+          <div key={index} className="grid grid-cols-1 md:grid-cols-12 gap-2 items-center">
+            <select
+              value={row.productId}
+              onChange={(e) => updateRow(index, { productId: e.target.value, variantId: '' })}
+              className="md:col-span-5 p-2 border rounded focus:border-blue-500 focus:outline-none"
+            >
+              <option value="">Select product</option>
+              {productOptions.map(option => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
+            <select
+              value={row.variantId}
+              onChange={(e) => updateRow(index, { variantId: e.target.value })}
+              disabled={product?.productType !== 'variable'}
+              className="md:col-span-3 p-2 border rounded focus:border-blue-500 focus:outline-none disabled:bg-gray-100"
+            >
+              <option value="">{product?.productType === 'variable' ? 'Select variant' : 'No variants'}</option>
+              {(variantsByProduct[row.productId] || []).map(variant => (
+                <option key={variant.id} value={variant.id}>{variant.title}</option>
+              ))}
+            </select>
+            <div className="md:col-span-3 flex items-center gap-2">
+              <input
+                type="number"
+                value={isWeightBased ? row.weightQuantity : row.quantity}
+                onChange={(e) => updateRow(index, isWeightBased ? { weightQuantity: e.target.value } : { quantity: e.target.value })}
+                className="w-full p-2 border rounded focus:border-blue-500 focus:outline-none"
+                step={isWeightBased ? '0.01' : '1'}
+                min="0"
+              />
+              <span className="text-sm text-gray-500">{isWeightBased ? 'g' : 'pcs'}</span>
+            </div>
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+              className="md:col-span-1 text-red-600 hover:text-red-800 text-sm"
+            >
+              Remove
+            </button>
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        onClick={() => onChange([...value, { productId: '', variantId: '', quantity: '1', weightQuantity: '' }])}
+        className="px-3 py-1 bg-indigo-600 text-white rounded hover:bg-indigo-700 text-sm"
+      >
+        + Add Component
+      </button>
+    </div>
+  );
+};
+
+export default BundleComponentsEditor;
@@ -0,0 +1,152 @@
+'use client';
+import React, { useEffect, useRef, useState } from 'react';
+
+export type FbrReferencePickerType = 'hs_code' | 'uom' | 'hs_uom' | 'province' | 'sro_schedule' | 'sro_item';
+
+export interface FbrReferencePickerOption {
+  code: string;
+  description: string;
+  parentCode?: string | null;
+}
+
+interface FbrReferencePickerProps {
+  type: FbrReferencePickerType;
+  value: string;
+  onChange: (value: string, option?: FbrReferencePickerOption) => void;
+  hsCode?: string; // Required for hs_uom
+  sroId?: string;  // Required for sro_item
+  id?: string;
+  name?: string;
+  placeholder?: string;
+  className?: string;
+  disabled?: boolean;
+}
+
+// HS codes are entered as codes; every other list stores the value FBR expects in the description
+const usesCodeAsValue = (type: FbrReferencePickerType) => type === 'hs_code';
+
+/**
+ * Free-text input with typeahead suggestions from the cached FBR reference data.
+ * Values outside the list are still accepted, but flagged so users notice before FBR rejects them.
+ */
+const FbrReferencePicker: React.FC<FbrReferencePickerProps> = ({
+  type,
+  value,
+  onChange,
+  hsCode,
+  sroId,
+  id,
+  name,
+  placeholder,
+  className = 'w-full p-2 border rounded focus:border-blue-500 focus:outline-none',
+  disabled = false,
+}) => {
+  const [options, setOptions] = useState<FbrReferencePickerOption[]>([]);
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [hasSearched, setHasSearched] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const parentMissing = (type === 'hs_uom' && !hsCode) || (type === 'sro_item' && !sroId);
+
+  useEffect(() => {
+    if (!open || parentMissing) return;
+
+    const timeout = setTimeout(async () => {
+      try {
+        setLoading(true);
+        const params = new URLSearchParams({ type, limit: '20' });
+        // Show the full list for dependent lists; filter everything else by the typed text
+        if (value && type !== 'hs_uom') params.set('q', value);
+        if (hsCode) params.set('hsCode', hsCode);
+        if (sroId) params.set('sroId', sroId);
+
+        const response = await fetch(`/api/fbr/reference?${params.toString()}`);
+        if (response.ok) {
+          const data = await response.json();
+          setOptions(data.results || []);
+          setHasSearched(true);
+        }
+      } catch (error) {
+        console.error('Error searching FBR reference data:', error);
+      } finally {
+        setLoading(false);
+      }
+    }, 250);
+
+    return () => clearTimeout(timeout);
+  }, [type, value, hsCode, sroId, open, parentMissing]);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const optionValue = (option: FbrReferencePickerOption) =>
+    usesCodeAsValue(type) ? option.code : option.description;
+
+  const isKnownValue = !value || options.some(option =>
+    optionValue(option).toLowerCase() === value.toLowerCase()
+  );
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <input
+        type="text"
+        id={id}
+        name={name}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        placeholder={placeholder}
+        className={className}
+        disabled={disabled}
+        autoComplete="off"
+      />
+
+      {open && !parentMissing && (loading || options.length > 0) && (
+        <div className="absolute z-20 mt-1 w-full max-h-60 overflow-y-auto bg-white border rounded shadow-lg">
+          {loading && options.length === 0 && (
+            <div className="px-3 py-2 text-sm text-gray-500">Searching FBR reference data...</div>
+          )}
+          {options.map(option => (
+            <button
+              type="button"
+              key={`${option.parentCode || ''}-${option.code}`}
+              onClick={() => {
+                onChange(optionValue(option), option);
+                setOpen(false);
+              }}
+              className="block w-full text-left px-3 py-2 text-sm hover:bg-blue-50"
+            >
+              {usesCodeAsValue(type) ? (
+                <>
+                  <span className="font-mono font-medium">{option.code}</span>
+                  <span className="text-gray-500"> — {option.description}</span>
+                </>
+              ) : (
+                option.description
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {hasSearched && !loading && !isKnownValue && options.length === 0 && (
+        <p className="text-xs text-amber-600 mt-1">
+          Not found in FBR reference data. FBR may reject this value.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default FbrReferencePicker;
@@ -7,6 +7,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert';
 import { 
   CalendarIcon, 
   TrendingUpIcon, 
@@ -21,7 +22,8 @@ import {
   PlusIcon,
   RefreshCwIcon,
   FilterIcon,
-  TargetIcon
+  TargetIcon,
+  KeyRoundIcon
 } from 'lucide-react';
 
 interface DashboardStats {
@@ -43,6 +45,13 @@ interface DashboardStats {
   };
 }
 
+interface FbrTokenWarning {
+  environment: 'sandbox' | 'production';
+  expired: boolean;
+  daysUntilExpiry?: number | null;
+  expiresAt?: string | null;
+}
+
 export default function Dashboard() {
   const router = useRouter();
   const [stats, setStats] = useState<DashboardStats>({
@@ -63,11 +72,29 @@ export default function Dashboard() {
   const [error, setError] = useState('');
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
+  const [fbrTokenWarnings, setFbrTokenWarnings] = useState<FbrTokenWarning[]>([]);
 
   useEffect(() => {
     fetchStats();
+    fetchFbrTokenWarnings();
   }, []);
 
+  const fetchFbrTokenWarnings = async () => {
+    try {
+      const response = await fetch('/api/settings/fbr/credentials?summary=true');
+      if (!response.ok) return;
+      const data = await response.json();
+      if (!data.success) return;
+
+      setFbrTokenWarnings(
+        Object.values(data.credentials as Record<string, FbrTokenWarning & { expiresSoon: boolean }>)
+          .filter(status => status.expired || status.expiresSoon)
+      );
+    } catch (err) {
+      console.error('Error fetching FBR token status:', err);
+    }
+  };
+
   const fetchStats = async () => {
     try {
       setLoading(true);
@@ -276,6 +303,26 @@ export default function Dashboard() {
         </div>
       </div>
 
+      {/* FBR Token Expiry Warning */}
+      {fbrTokenWarnings.length > 0 && (
+        <Alert variant={fbrTokenWarnings.some(warning => warning.expired) ? 'destructive' : 'default'} className="border-orange-300">
+          <KeyRoundIcon className="h-4 w-4" />
+          <AlertTitle>FBR token {fbrTokenWarnings.some(warning => warning.expired) ? 'expired' : 'expires soon'}</AlertTitle>
+          <AlertDescription>
+            {fbrTokenWarnings.map(warning => (
+              <div key={warning.environment}>
+                The {warning.environment} token {warning.expired
+                  ? `expired on ${new Date(warning.expiresAt!).toLocaleDateString()}`
+                  : `expires in ${warning.daysUntilExpiry} day${warning.daysUntilExpiry === 1 ? '' : 's'}`}.
+              </div>
+            ))}
+            <button onClick={() => router.push('/settings')} className="mt-1 text-sm font-medium underline">
+              Rotate it in Settings
+            </button>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Date Filters */}
       <Card className=''>
         <CardHeader>
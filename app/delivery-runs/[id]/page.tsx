@@ -0,0 +1,282 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { ArrowLeft, Printer, Play, CheckCircle, XCircle, MapPin } from 'lucide-react';
+
+interface RunStop {
+  stop: {
+    id: string;
+    sequence: number;
+    latitude: string | null;
+    longitude: string | null;
+    distanceFromPrevious: string | null;
+    plannedArrival: string | null;
+  };
+  order: {
+    id: string;
+    orderNumber: string;
+    status: string;
+    deliveryStatus: string | null;
+    paymentStatus: string;
+    totalAmount: string;
+    email: string;
+    phone: string | null;
+    shippingFirstName: string | null;
+    shippingLastName: string | null;
+    shippingAddress1: string | null;
+    shippingAddress2: string | null;
+    shippingCity: string | null;
+    serviceTime: string | null;
+    notes: string | null;
+  };
+}
+
+interface DeliveryRun {
+  id: string;
+  runNumber: string;
+  runDate: string;
+  windowStart: string | null;
+  windowEnd: string | null;
+  departureTime: string;
+  distanceMatrix: string;
+  averageSpeedKmh: string;
+  serviceMinutes: number;
+  totalDistance: string | null;
+  totalDuration: number | null;
+  status: string;
+  notes: string | null;
+  driver: {
+    id: string;
+    name: string | null;
+    phone: string | null;
+    vehicleType: string;
+    vehiclePlateNumber: string;
+    baseLocation: string;
+  } | null;
+  stops: RunStop[];
+}
+
+const statusColors: Record<string, string> = {
+  planned: 'bg-blue-100 text-blue-800',
+  in_progress: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+};
+
+const formatTime = (value: string | null) =>
+  value ? new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : '—';
+
+export default function DeliveryRunDetail() {
+  const params = useParams();
+  const [run, setRun] = useState<DeliveryRun | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchRun = async () => {
+    try {
+      const res = await fetch(`/api/delivery-runs/${params.id}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to load delivery run');
+        return;
+      }
+      setRun(data);
+    } catch (err) {
+      console.error('Error fetching delivery run:', err);
+      setError('Failed to load delivery run');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRun();
+  }, [params.id]);
+
+  const updateStatus = async (status: string) => {
+    if (status === 'cancelled' && !confirm('Cancel this run? Undelivered orders will be unassigned from the driver.')) return;
+
+    setUpdating(true);
+    setError('');
+    try {
+      const res = await fetch(`/api/delivery-runs/${params.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to update delivery run');
+        return;
+      }
+      setRun(data);
+    } catch (err) {
+      console.error('Error updating delivery run:', err);
+      setError('Failed to update delivery run');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="p-6 text-center text-gray-500">Loading…</div>;
+  }
+  if (!run) {
+    return <div className="p-6 text-center text-red-600">{error || 'Delivery run not found'}</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Actions (not printed) */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 print:hidden">
+        <Link href="/delivery-runs" className="inline-flex items-center text-gray-600 hover:text-gray-900">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Delivery Runs
+        </Link>
+        <div className="flex flex-wrap gap-2">
+          {run.status === 'planned' && (
+            <button
+              onClick={() => updateStatus('in_progress')}
+              disabled={updating}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Play className="w-4 h-4 mr-2" />
+              Start Run
+            </button>
+          )}
+          {run.status === 'in_progress' && (
+            <button
+              onClick={() => updateStatus('completed')}
+              disabled={updating}
+              className="inline-flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+            >
+              <CheckCircle className="w-4 h-4 mr-2" />
+              Complete Run
+            </button>
+          )}
+          {(run.status === 'planned' || run.status === 'in_progress') && (
+            <button
+              onClick={() => updateStatus('cancelled')}
+              disabled={updating}
+              className="inline-flex items-center px-4 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 disabled:opacity-50"
+            >
+              <XCircle className="w-4 h-4 mr-2" />
+              Cancel Run
+            </button>
+          )}
+          <button
+            onClick={() => window.print()}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+          >
+            <Printer className="w-4 h-4 mr-2" />
+            Print Run Sheet
+          </button>
+        </div>
+      </div>
+      {error && <p className="text-sm text-red-600 print:hidden">{error}</p>}
+
+      {/* Run sheet */}
+      <div className="bg-white p-6 rounded-lg border print:border-0 print:p-0">
+        <div className="flex flex-col sm:flex-row sm:justify-between gap-4 border-b pb-4 mb-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Run Sheet {run.runNumber}</h1>
+            <p className="text-gray-600">
+              {run.runDate}
+              {(run.windowStart || run.windowEnd) && ` · window ${run.windowStart || ''}–${run.windowEnd || ''}`}
+              {` · departs ${run.departureTime}`}
+            </p>
+            <span className={`inline-block mt-2 px-2 py-1 rounded-full text-xs font-medium print:hidden ${statusColors[run.status] || statusColors.cancelled}`}>
+              {run.status.replace('_', ' ')}
+            </span>
+          </div>
+          <div className="text-sm text-gray-700">
+            <div className="font-medium text-gray-900">{run.driver?.name || 'Unknown driver'}</div>
+            {run.driver?.phone && <div>{run.driver.phone}</div>}
+            {run.driver && <div>{run.driver.vehicleType} · {run.driver.vehiclePlateNumber}</div>}
+            {run.driver && (
+              <div className="flex items-center mt-1">
+                <MapPin className="w-4 h-4 mr-1 text-gray-400" />
+                Starts at {run.driver.baseLocation}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4 text-sm">
+          <div>
+            <div className="text-gray-500">Stops</div>
+            <div className="font-medium text-gray-900">{run.stops.length}</div>
+          </div>
+          <div>
+            <div className="text-gray-500">Distance</div>
+            <div className="font-medium text-gray-900">{Number(run.totalDistance || 0).toFixed(1)} km</div>
+          </div>
+          <div>
+            <div className="text-gray-500">Planned duration</div>
+            <div className="font-medium text-gray-900">{run.totalDuration || 0} min</div>
+          </div>
+          <div>
+            <div className="text-gray-500">Planning</div>
+            <div className="font-medium text-gray-900">
+              {run.distanceMatrix.replace(/_/g, ' ')}, {Number(run.averageSpeedKmh)} km/h, {run.serviceMinutes} min/stop
+            </div>
+          </div>
+        </div>
+        {run.notes && <p className="text-sm text-gray-700 mb-4">Notes: {run.notes}</p>}
+
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium text-gray-500">#</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-500">ETA</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-500">Order</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-500">Customer</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-500">Address</th>
+              <th className="px-3 py-2 text-right font-medium text-gray-500">Amount</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-500">Delivered / Signature</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {run.stops.map(({ stop, order }) => (
+              <tr key={stop.id} className="align-top">
+                <td className="px-3 py-2 font-medium text-gray-900">{stop.sequence}</td>
+                <td className="px-3 py-2 text-gray-900">
+                  {formatTime(stop.plannedArrival)}
+                  <div className="text-xs text-gray-500">
+                    {stop.distanceFromPrevious !== null ? `+${Number(stop.distanceFromPrevious).toFixed(1)} km` : 'No location'}
+                  </div>
+                </td>
+                <td className="px-3 py-2">
+                  <Link href={`/orders/${order.id}`} className="text-blue-600 hover:text-blue-800 print:text-gray-900">
+                    {order.orderNumber}
+                  </Link>
+                  <div className="text-xs text-gray-500 print:hidden">{order.deliveryStatus || order.status}</div>
+                </td>
+                <td className="px-3 py-2">
+                  <div className="text-gray-900">
+                    {[order.shippingFirstName, order.shippingLastName].filter(Boolean).join(' ') || order.email}
+                  </div>
+                  <div className="text-xs text-gray-500">{order.phone}</div>
+                </td>
+                <td className="px-3 py-2 text-gray-700">
+                  {[order.shippingAddress1, order.shippingAddress2, order.shippingCity].filter(Boolean).join(', ') || '—'}
+                  {order.notes && <div className="text-xs text-gray-500">{order.notes}</div>}
+                </td>
+                <td className="px-3 py-2 text-right text-gray-900">
+                  {Number(order.totalAmount).toFixed(2)}
+                  {order.paymentStatus !== 'paid' && <div className="text-xs text-orange-600">Collect</div>}
+                </td>
+                <td className="px-3 py-2">
+                  <div className="h-8 border-b border-gray-300 min-w-[8rem]"></div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
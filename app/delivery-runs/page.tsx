@@ -0,0 +1,501 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Route, Search, Eye } from 'lucide-react';
+
+interface RunRow {
+  run: {
+    id: string;
+    runNumber: string;
+    runDate: string;
+    windowStart: string | null;
+    windowEnd: string | null;
+    departureTime: string;
+    totalDistance: string | null;
+    totalDuration: number | null;
+    status: string;
+  };
+  driverName: string | null;
+  vehiclePlateNumber: string | null;
+  stops: number;
+}
+
+interface CandidateOrder {
+  id: string;
+  orderNumber: string;
+  serviceDate: string | null;
+  serviceTime: string | null;
+  customerName: string;
+  phone: string | null;
+  shippingAddress1: string | null;
+  shippingCity: string | null;
+  deliveryLatitude: string | null;
+  deliveryLongitude: string | null;
+  assignedDriverId: string | null;
+  deliveryStatus: string | null;
+}
+
+interface RunDriver {
+  id: string;
+  name: string | null;
+  status: string;
+  vehiclePlateNumber: string;
+  baseLocation: string;
+  baseLatitude: string | null;
+  baseLongitude: string | null;
+}
+
+const statusColors: Record<string, string> = {
+  planned: 'bg-blue-100 text-blue-800',
+  in_progress: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+};
+
+export default function DeliveryRunsPage() {
+  const router = useRouter();
+  const today = new Date().toISOString().slice(0, 10);
+
+  const [runs, setRuns] = useState<RunRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dateFilter, setDateFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState('');
+
+  const [plan, setPlan] = useState({
+    runDate: today,
+    windowStart: '',
+    windowEnd: '',
+    includeUnscheduled: false,
+    driverId: '',
+    departureTime: '',
+    distanceMatrix: 'straight_line',
+    averageSpeedKmh: '30',
+    serviceMinutes: '5',
+    notes: '',
+  });
+  const [candidates, setCandidates] = useState<CandidateOrder[]>([]);
+  const [drivers, setDrivers] = useState<RunDriver[]>([]);
+  const [distanceMatrices, setDistanceMatrices] = useState<string[]>(['straight_line']);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [locations, setLocations] = useState<Record<string, { latitude: string; longitude: string }>>({});
+  const [searching, setSearching] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchRuns = async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (dateFilter) params.append('date', dateFilter);
+      if (statusFilter) params.append('status', statusFilter);
+      const res = await fetch(`/api/delivery-runs?${params}`);
+      const data = await res.json();
+      if (res.ok) {
+        setRuns(data);
+      } else {
+        console.error('Failed to fetch delivery runs:', data.error);
+      }
+    } catch (err) {
+      console.error('Error fetching delivery runs:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRuns();
+  }, [dateFilter, statusFilter]);
+
+  const findOrders = async () => {
+    setSearching(true);
+    setError('');
+    try {
+      const params = new URLSearchParams({ date: plan.runDate });
+      if (plan.windowStart) params.append('windowStart', plan.windowStart);
+      if (plan.windowEnd) params.append('windowEnd', plan.windowEnd);
+      if (plan.includeUnscheduled) params.append('includeUnscheduled', 'true');
+      const res = await fetch(`/api/delivery-runs/candidates?${params}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to load orders');
+        return;
+      }
+      setCandidates(data.orders);
+      setDrivers(data.drivers);
+      setDistanceMatrices(data.distanceMatrices);
+      setSelected(data.orders.map((order: CandidateOrder) => order.id));
+      setLocations({});
+    } catch (err) {
+      console.error('Error fetching delivery run candidates:', err);
+      setError('Failed to load orders');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const toggleOrder = (orderId: string) => {
+    setSelected(prev => prev.includes(orderId) ? prev.filter(id => id !== orderId) : [...prev, orderId]);
+  };
+
+  const setLocation = (order: CandidateOrder, field: 'latitude' | 'longitude', value: string) => {
+    setLocations(prev => ({
+      ...prev,
+      [order.id]: {
+        ...(prev[order.id] || { latitude: order.deliveryLatitude || '', longitude: order.deliveryLongitude || '' }),
+        [field]: value,
+      },
+    }));
+  };
+
+  const createRun = async () => {
+    if (!plan.driverId) {
+      setError('Choose a driver for the run');
+      return;
+    }
+    if (selected.length === 0) {
+      setError('Choose at least one order for the run');
+      return;
+    }
+
+    setCreating(true);
+    setError('');
+    try {
+      const res = await fetch('/api/delivery-runs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          driverId: plan.driverId,
+          runDate: plan.runDate,
+          windowStart: plan.windowStart || null,
+          windowEnd: plan.windowEnd || null,
+          departureTime: plan.departureTime || null,
+          orderIds: selected,
+          locations,
+          distanceMatrix: plan.distanceMatrix,
+          averageSpeedKmh: plan.averageSpeedKmh,
+          serviceMinutes: plan.serviceMinutes,
+          notes: plan.notes || null,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to create delivery run');
+        return;
+      }
+      router.push(`/delivery-runs/${data.id}`);
+    } catch (err) {
+      console.error('Error creating delivery run:', err);
+      setError('Failed to create delivery run');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const selectedDriver = drivers.find(driver => driver.id === plan.driverId);
+  const missingLocation = candidates.filter(order =>
+    selected.includes(order.id) &&
+    !order.deliveryLatitude &&
+    !(locations[order.id]?.latitude && locations[order.id]?.longitude)
+  ).length;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Delivery Runs</h1>
+        <p className="text-gray-600">Batch a time window&apos;s orders for one driver with an optimised stop order</p>
+      </div>
+
+      {/* Planner */}
+      <div className="bg-white p-4 rounded-lg border space-y-4">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+          <Route className="w-5 h-5 mr-2" />
+          Plan a Run
+        </h2>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+            <input
+              type="date"
+              value={plan.runDate}
+              onChange={(e) => setPlan({ ...plan, runDate: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Window From</label>
+            <input
+              type="time"
+              value={plan.windowStart}
+              onChange={(e) => setPlan({ ...plan, windowStart: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Window To</label>
+            <input
+              type="time"
+              value={plan.windowEnd}
+              onChange={(e) => setPlan({ ...plan, windowEnd: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </div>
+          <div className="flex items-end">
+            <button
+              onClick={findOrders}
+              disabled={searching || !plan.runDate}
+              className="w-full inline-flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Search className="w-4 h-4 mr-2" />
+              {searching ? 'Finding…' : 'Find Orders'}
+            </button>
+          </div>
+        </div>
+        <label className="inline-flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={plan.includeUnscheduled}
+            onChange={(e) => setPlan({ ...plan, includeUnscheduled: e.target.checked })}
+            className="mr-2"
+          />
+          Include orders without a service date
+        </label>
+
+        {drivers.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Driver</label>
+              <select
+                value={plan.driverId}
+                onChange={(e) => setPlan({ ...plan, driverId: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              >
+                <option value="">Select driver</option>
+                {drivers.map(driver => (
+                  <option key={driver.id} value={driver.id} disabled={!driver.baseLatitude || !driver.baseLongitude}>
+                    {driver.name || driver.vehiclePlateNumber} ({driver.status}){!driver.baseLatitude || !driver.baseLongitude ? ' – no base location' : ''}
+                  </option>
+                ))}
+              </select>
+              {selectedDriver && (
+                <p className="text-xs text-gray-500 mt-1">Starts from {selectedDriver.baseLocation}</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Departure</label>
+              <input
+                type="time"
+                value={plan.departureTime}
+                placeholder={plan.windowStart || '09:00'}
+                onChange={(e) => setPlan({ ...plan, departureTime: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+              <p className="text-xs text-gray-500 mt-1">Defaults to the window start, or 09:00</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Distances</label>
+              <select
+                value={plan.distanceMatrix}
+                onChange={(e) => setPlan({ ...plan, distanceMatrix: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              >
+                {distanceMatrices.map(name => (
+                  <option key={name} value={name}>{name.replace(/_/g, ' ')}</option>
+                ))}
+              </select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Speed (km/h)</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={plan.averageSpeedKmh}
+                  onChange={(e) => setPlan({ ...plan, averageSpeedKmh: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Min / stop</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={plan.serviceMinutes}
+                  onChange={(e) => setPlan({ ...plan, serviceMinutes: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        {candidates.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2"></th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Order</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Slot</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Customer</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Address</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Drop-off (lat, lng)</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {candidates.map(order => (
+                  <tr key={order.id}>
+                    <td className="px-3 py-2">
+                      <input type="checkbox" checked={selected.includes(order.id)} onChange={() => toggleOrder(order.id)} />
+                    </td>
+                    <td className="px-3 py-2">
+                      <Link href={`/orders/${order.id}`} className="text-blue-600 hover:text-blue-800">{order.orderNumber}</Link>
+                      {order.assignedDriverId && <div className="text-xs text-orange-600">Will be reassigned</div>}
+                    </td>
+                    <td className="px-3 py-2 text-gray-600">
+                      {order.serviceDate || 'Unscheduled'} {order.serviceTime || ''}
+                    </td>
+                    <td className="px-3 py-2">
+                      <div className="text-gray-900">{order.customerName || '—'}</div>
+                      <div className="text-xs text-gray-500">{order.phone}</div>
+                    </td>
+                    <td className="px-3 py-2 text-gray-600">
+                      {[order.shippingAddress1, order.shippingCity].filter(Boolean).join(', ') || '—'}
+                    </td>
+                    <td className="px-3 py-2">
+                      <div className="flex gap-1">
+                        <input
+                          type="number"
+                          step="any"
+                          placeholder="lat"
+                          value={locations[order.id]?.latitude ?? order.deliveryLatitude ?? ''}
+                          onChange={(e) => setLocation(order, 'latitude', e.target.value)}
+                          className="w-28 px-2 py-1 border border-gray-300 rounded"
+                        />
+                        <input
+                          type="number"
+                          step="any"
+                          placeholder="lng"
+                          value={locations[order.id]?.longitude ?? order.deliveryLongitude ?? ''}
+                          onChange={(e) => setLocation(order, 'longitude', e.target.value)}
+                          className="w-28 px-2 py-1 border border-gray-300 rounded"
+                        />
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          !searching && drivers.length > 0 && <p className="text-sm text-gray-500">No open orders for this date and window.</p>
+        )}
+
+        {candidates.length > 0 && (
+          <div className="space-y-3">
+            <textarea
+              value={plan.notes}
+              onChange={(e) => setPlan({ ...plan, notes: e.target.value })}
+              placeholder="Notes for the driver (optional)"
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+            {missingLocation > 0 && (
+              <p className="text-sm text-orange-600">
+                {missingLocation} selected order(s) have no drop-off location; they will be listed at the end of the run without an arrival time.
+              </p>
+            )}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <button
+              onClick={createRun}
+              disabled={creating || selected.length === 0}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+            >
+              {creating ? 'Planning…' : `Create Run (${selected.length} stop${selected.length === 1 ? '' : 's'})`}
+            </button>
+          </div>
+        )}
+        {candidates.length === 0 && error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+
+      {/* Runs */}
+      <div className="bg-white p-4 rounded-lg border">
+        <div className="flex flex-col sm:flex-row gap-4">
+          <input
+            type="date"
+            value={dateFilter}
+            onChange={(e) => setDateFilter(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg"
+          />
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="sm:w-48 px-3 py-2 border border-gray-300 rounded-lg"
+          >
+            <option value="">All Status</option>
+            <option value="planned">Planned</option>
+            <option value="in_progress">In Progress</option>
+            <option value="completed">Completed</option>
+            <option value="cancelled">Cancelled</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg border overflow-x-auto">
+        {loading ? (
+          <div className="p-6 text-center text-gray-500">Loading…</div>
+        ) : runs.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">No delivery runs found</div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">Run</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">Date</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">Driver</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">Stops</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">Distance</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">Status</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {runs.map(({ run, driverName, vehiclePlateNumber, stops }) => (
+                <tr key={run.id}>
+                  <td className="px-4 py-3 font-medium text-gray-900">{run.runNumber}</td>
+                  <td className="px-4 py-3 text-gray-600">
+                    {run.runDate}
+                    <div className="text-xs text-gray-500">
+                      {run.windowStart || run.windowEnd ? `${run.windowStart || ''}–${run.windowEnd || ''}` : `From ${run.departureTime}`}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="text-gray-900">{driverName || '—'}</div>
+                    <div className="text-xs text-gray-500">{vehiclePlateNumber}</div>
+                  </td>
+                  <td className="px-4 py-3 text-gray-600">{stops}</td>
+                  <td className="px-4 py-3 text-gray-600">
+                    {Number(run.totalDistance || 0).toFixed(1)} km
+                    <div className="text-xs text-gray-500">{run.totalDuration || 0} min</div>
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusColors[run.status] || statusColors.cancelled}`}>
+                      {run.status.replace('_', ' ')}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">
+                    <Link href={`/delivery-runs/${run.id}`} className="text-blue-600 hover:text-blue-800" title="View Run">
+                      <Eye className="w-4 h-4" />
+                    </Link>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -38,6 +38,7 @@ interface DriverDetails {
     currentLatitude?: number;
     currentLongitude?: number;
     maxDeliveryRadius: number;
+    maxActiveOrders: number | null;
     emergencyContact?: string;
     emergencyContactName?: string;
     status: string;
@@ -409,6 +410,10 @@ export default function DriverDetailsPage() {
                 <p className="text-sm text-gray-600">Delivery Radius</p>
                 <p className="font-medium">{driver.driver.maxDeliveryRadius} km</p>
               </div>
+              <div>
+                <p className="text-sm text-gray-600">Max Open Deliveries</p>
+                <p className="font-medium">{driver.driver.maxActiveOrders ?? 5}</p>
+              </div>
               {driver.driver.emergencyContact && (
                 <div>
                   <p className="text-sm text-gray-600">Emergency Contact</p>
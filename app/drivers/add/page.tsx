@@ -33,6 +33,7 @@ export default function AddDriver() {
     baseLatitude: '',
     baseLongitude: '',
     maxDeliveryRadius: '50',
+    maxActiveOrders: '5',
     emergencyContact: '',
     emergencyContactName: '',
     status: 'offline'
@@ -439,6 +440,23 @@ export default function AddDriver() {
                   placeholder="50"
                 />
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Max Open Deliveries
+                </label>
+                <input
+                  type="number"
+                  name="maxActiveOrders"
+                  value={formData.maxActiveOrders}
+                  onChange={handleChange}
+                  min="1"
+                  max="100"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="5"
+                />
+                <p className="text-xs text-gray-500 mt-1">Auto-dispatch stops giving the driver orders at this many</p>
+              </div>
             </div>
 
             {/* Hidden input for base location to ensure form validation */}
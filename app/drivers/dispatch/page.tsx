@@ -0,0 +1,371 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, RefreshCw, UserCheck, XCircle } from 'lucide-react';
+
+interface QueueRow {
+  entry: {
+    id: string;
+    orderId: string;
+    priority: string | null;
+    reason: string | null;
+    attempts: number;
+    status: string;
+    lastAttemptAt: string | null;
+    resolvedAt: string | null;
+    createdAt: string;
+  };
+  order: {
+    id: string;
+    orderNumber: string;
+    status: string;
+    shippingFirstName: string | null;
+    shippingLastName: string | null;
+    shippingAddress1: string | null;
+    shippingCity: string | null;
+    serviceDate: string | null;
+    serviceTime: string | null;
+    totalAmount: string;
+  };
+}
+
+interface RankedDriver {
+  driver: {
+    id: string;
+    vehicleType: string | null;
+    vehiclePlateNumber: string | null;
+    status: string | null;
+  };
+  user: {
+    name: string | null;
+  };
+  dispatch: {
+    distanceKm: number | null;
+    load: number;
+    capacity: number;
+    qualifies: boolean;
+    reason?: string;
+  } | null;
+}
+
+const priorityColors: Record<string, string> = {
+  urgent: 'bg-red-100 text-red-800',
+  high: 'bg-orange-100 text-orange-800',
+  normal: 'bg-blue-100 text-blue-800',
+  low: 'bg-gray-100 text-gray-800',
+};
+
+export default function DispatchQueuePage() {
+  const [queue, setQueue] = useState<QueueRow[]>([]);
+  const [statusFilter, setStatusFilter] = useState('pending');
+  const [autoDispatchEnabled, setAutoDispatchEnabled] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [drivers, setDrivers] = useState<RankedDriver[]>([]);
+  const [selectedDriver, setSelectedDriver] = useState('');
+  const [working, setWorking] = useState(false);
+  const [message, setMessage] = useState('');
+  const [cityTable, setCityTable] = useState('');
+  const [cityTableDefault, setCityTableDefault] = useState(true);
+  const [geocoders, setGeocoders] = useState<string[]>([]);
+  const [showCityTable, setShowCityTable] = useState(false);
+
+  const fetchQueue = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/drivers/dispatch?status=${statusFilter}`);
+      const data = await res.json();
+      if (res.ok) {
+        setQueue(data.queue);
+        setAutoDispatchEnabled(data.autoDispatchEnabled);
+        setCityTable(JSON.stringify(data.cityCoordinates, null, 2));
+        setCityTableDefault(data.cityCoordinatesDefault);
+        setGeocoders(data.geocoders || []);
+      } else {
+        console.error('Failed to fetch dispatch queue:', data.error);
+      }
+    } catch (error) {
+      console.error('Error fetching dispatch queue:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchQueue();
+  }, [statusFilter]);
+
+  const toggleAutoDispatch = async () => {
+    try {
+      const res = await fetch('/api/drivers/dispatch', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ autoDispatchEnabled: !autoDispatchEnabled }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setAutoDispatchEnabled(data.autoDispatchEnabled);
+      } else {
+        alert(data.error || 'Failed to update setting');
+      }
+    } catch (error) {
+      console.error('Error updating auto-dispatch setting:', error);
+      alert('Failed to update setting');
+    }
+  };
+
+  const saveCityTable = async (reset: boolean) => {
+    let cityCoordinates = null;
+    if (!reset) {
+      try {
+        cityCoordinates = JSON.parse(cityTable);
+      } catch {
+        alert('The city table is not valid JSON');
+        return;
+      }
+    }
+
+    try {
+      const res = await fetch('/api/drivers/dispatch', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cityCoordinates }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setCityTable(JSON.stringify(data.cityCoordinates, null, 2));
+        setCityTableDefault(data.cityCoordinatesDefault);
+      } else {
+        alert(data.error || 'Failed to save city table');
+      }
+    } catch (error) {
+      console.error('Error saving city table:', error);
+      alert('Failed to save city table');
+    }
+  };
+
+  const openAssign = async (row: QueueRow) => {
+    if (expanded === row.entry.id) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded(row.entry.id);
+    setSelectedDriver('');
+    setDrivers([]);
+    try {
+      const res = await fetch(`/api/drivers/available?includeAll=true&orderId=${row.order.id}`);
+      const data = await res.json();
+      if (res.ok) {
+        setDrivers(data.drivers);
+      }
+    } catch (error) {
+      console.error('Error fetching drivers:', error);
+    }
+  };
+
+  const resolve = async (entryId: string, action: 'assign' | 'retry' | 'dismiss') => {
+    if (action === 'dismiss' && !confirm('Remove this order from the queue without assigning a driver?')) return;
+    if (action === 'assign' && !selectedDriver) {
+      alert('Please select a driver');
+      return;
+    }
+
+    setWorking(true);
+    setMessage('');
+    try {
+      const res = await fetch(`/api/drivers/dispatch/${entryId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, driverId: action === 'assign' ? selectedDriver : undefined }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || 'Failed to update queue entry');
+        return;
+      }
+      if (action === 'retry' && !data.assigned) {
+        setMessage(`Still no driver qualifies: ${data.reason}`);
+      }
+      setExpanded(null);
+      await fetchQueue();
+    } catch (error) {
+      console.error('Error resolving queue entry:', error);
+      alert('Failed to update queue entry');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <Link href="/drivers" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-2">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Drivers
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900">Dispatch Queue</h1>
+          <p className="text-gray-600">Orders auto-dispatch could not give to any driver</p>
+        </div>
+        <label className="inline-flex items-center bg-white px-4 py-3 rounded-lg border cursor-pointer">
+          <input type="checkbox" checked={autoDispatchEnabled} onChange={toggleAutoDispatch} className="mr-3" />
+          <span>
+            <span className="block font-medium text-gray-900">Auto-dispatch confirmed orders</span>
+            <span className="block text-xs text-gray-500">Assign the nearest driver with room when an order is confirmed</span>
+          </span>
+        </label>
+      </div>
+
+      <div className="bg-white p-4 rounded-lg border space-y-3">
+        <button
+          onClick={() => setShowCityTable(!showCityTable)}
+          className="text-sm font-medium text-blue-600 hover:text-blue-800"
+        >
+          {showCityTable ? 'Hide' : 'Edit'} city table{cityTableDefault ? ' (default)' : ''}
+        </button>
+        {showCityTable && (
+          <>
+            <p className="text-xs text-gray-500">
+              {geocoders.length > 0
+                ? `Orders without a drop-off point are located by address (${geocoders.join(', ')}); those it cannot find are placed`
+                : 'No geocoder is configured, so orders without a drop-off point are placed only'}{' '}
+              at the centre of the first city below named in their shipping address. Orders matching no city wait
+              here for manual assignment.
+            </p>
+            <textarea
+              value={cityTable}
+              onChange={(e) => setCityTable(e.target.value)}
+              rows={10}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-xs"
+            />
+            <div className="flex gap-2">
+              <button
+                onClick={() => saveCityTable(false)}
+                className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm"
+              >
+                Save
+              </button>
+              {!cityTableDefault && (
+                <button
+                  onClick={() => saveCityTable(true)}
+                  className="px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 text-sm"
+                >
+                  Restore Default
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="bg-white p-4 rounded-lg border">
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value)}
+          className="sm:w-48 px-3 py-2 border border-gray-300 rounded-lg"
+        >
+          <option value="pending">Waiting</option>
+          <option value="assigned">Assigned</option>
+          <option value="dismissed">Dismissed</option>
+        </select>
+      </div>
+
+      {message && <p className="text-sm text-orange-600">{message}</p>}
+
+      <div className="bg-white rounded-lg border divide-y">
+        {loading ? (
+          <div className="p-6 text-center text-gray-500">Loading…</div>
+        ) : queue.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">
+            {statusFilter === 'pending' ? 'No orders are waiting for a driver' : 'No orders found'}
+          </div>
+        ) : (
+          queue.map((row) => (
+            <div key={row.entry.id} className="p-4 space-y-3">
+              <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-3">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <Link href={`/orders/${row.order.id}`} className="font-medium text-blue-600 hover:text-blue-800">
+                      {row.order.orderNumber}
+                    </Link>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${priorityColors[row.entry.priority || 'normal'] || priorityColors.normal}`}>
+                      {row.entry.priority || 'normal'}
+                    </span>
+                  </div>
+                  <div className="text-sm text-gray-700">
+                    {[row.order.shippingFirstName, row.order.shippingLastName].filter(Boolean).join(' ') || '—'}
+                    {' · '}
+                    {[row.order.shippingAddress1, row.order.shippingCity].filter(Boolean).join(', ') || 'No address'}
+                  </div>
+                  {row.order.serviceDate && (
+                    <div className="text-xs text-gray-500">Slot {row.order.serviceDate} {row.order.serviceTime || ''}</div>
+                  )}
+                  <div className="text-sm text-orange-700 mt-1">{row.entry.reason}</div>
+                  <div className="text-xs text-gray-500">
+                    {row.entry.attempts} attempt{row.entry.attempts === 1 ? '' : 's'}, queued {new Date(row.entry.createdAt).toLocaleString()}
+                  </div>
+                </div>
+                {row.entry.status === 'pending' && (
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      onClick={() => openAssign(row)}
+                      className="inline-flex items-center px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm"
+                    >
+                      <UserCheck className="w-4 h-4 mr-1" />
+                      Assign
+                    </button>
+                    <button
+                      onClick={() => resolve(row.entry.id, 'retry')}
+                      disabled={working}
+                      className="inline-flex items-center px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 text-sm disabled:opacity-50"
+                    >
+                      <RefreshCw className="w-4 h-4 mr-1" />
+                      Retry Auto
+                    </button>
+                    <button
+                      onClick={() => resolve(row.entry.id, 'dismiss')}
+                      disabled={working}
+                      className="inline-flex items-center px-3 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 text-sm disabled:opacity-50"
+                    >
+                      <XCircle className="w-4 h-4 mr-1" />
+                      Dismiss
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {expanded === row.entry.id && (
+                <div className="bg-gray-50 p-3 rounded-lg flex flex-col sm:flex-row gap-2">
+                  <select
+                    value={selectedDriver}
+                    onChange={(e) => setSelectedDriver(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg"
+                  >
+                    <option value="">-- Select a driver --</option>
+                    {drivers.map((driverData) => (
+                      <option key={driverData.driver.id} value={driverData.driver.id}>
+                        {driverData.user.name || driverData.driver.vehiclePlateNumber} ({driverData.driver.status})
+                        {driverData.dispatch?.distanceKm !== null && driverData.dispatch?.distanceKm !== undefined
+                          ? ` – ${driverData.dispatch.distanceKm.toFixed(1)} km`
+                          : ''}
+                        {driverData.dispatch ? `, ${driverData.dispatch.load}/${driverData.dispatch.capacity} open` : ''}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => resolve(row.entry.id, 'assign')}
+                    disabled={working || !selectedDriver}
+                    className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                  >
+                    Assign Driver
+                  </button>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -22,6 +22,7 @@ interface Driver {
     currentLatitude?: number;
     currentLongitude?: number;
     maxDeliveryRadius: number;
+    maxActiveOrders: number | null;
     emergencyContact?: string;
     emergencyContactName?: string;
     status: string;
@@ -73,6 +74,7 @@ export default function EditDriver() {
     currentLatitude: '',
     currentLongitude: '',
     maxDeliveryRadius: '50',
+    maxActiveOrders: '5',
     emergencyContact: '',
     emergencyContactName: '',
     status: 'offline',
@@ -109,6 +111,7 @@ export default function EditDriver() {
           currentLatitude: data.driver.currentLatitude?.toString() || '',
           currentLongitude: data.driver.currentLongitude?.toString() || '',
           maxDeliveryRadius: data.driver.maxDeliveryRadius?.toString() || '50',
+          maxActiveOrders: data.driver.maxActiveOrders?.toString() || '5',
           emergencyContact: data.driver.emergencyContact || '',
           emergencyContactName: data.driver.emergencyContactName || '',
           status: data.driver.status || 'offline',
@@ -618,6 +621,23 @@ export default function EditDriver() {
                   placeholder="50"
                 />
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Max Open Deliveries
+                </label>
+                <input
+                  type="number"
+                  name="maxActiveOrders"
+                  value={formData.maxActiveOrders}
+                  onChange={handleChange}
+                  min="1"
+                  max="100"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="5"
+                />
+                <p className="text-xs text-gray-500 mt-1">Auto-dispatch stops giving the driver orders at this many</p>
+              </div>
             </div>
 
             {/* Hidden input for base location to ensure form validation */}
@@ -299,13 +299,21 @@ export default function DriversList() {
           <h1 className="text-2xl font-bold text-gray-900">Drivers</h1>
           <p className="text-gray-600">Manage delivery drivers and their assignments</p>
         </div>
-        <Link
-          href="/drivers/add"
-          className="mt-4 sm:mt-0 inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-        >
-          <Plus className="w-4 h-4 mr-2" />
-          Add Driver
-        </Link>
+        <div className="mt-4 sm:mt-0 flex gap-2">
+          <Link
+            href="/drivers/dispatch"
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Dispatch Queue
+          </Link>
+          <Link
+            href="/drivers/add"
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Driver
+          </Link>
+        </div>
       </div>
 
       {/* Stats Cards */}
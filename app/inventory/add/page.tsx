@@ -12,6 +12,7 @@ export default function AddInventory() {
     reservedQuantity: 0,
     reorderPoint: 0,
     reorderQuantity: 0,
+    locationId: '',
     location: '',
     supplier: '',
     lastRestockDate: '',
@@ -21,6 +22,7 @@ export default function AddInventory() {
   
   const [products, setProducts] = useState([]);
   const [variants, setVariants] = useState([]);
+  const [locations, setLocations] = useState<any[]>([]);
   const [selectedProduct, setSelectedProduct] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
@@ -43,9 +45,20 @@ export default function AddInventory() {
 
   const fetchProducts = async () => {
     try {
-      const response = await fetch('/api/products');
-      const data = await response.json();
-      setProducts(data);
+      const [productsRes, locationsRes] = await Promise.all([
+        fetch('/api/products'),
+        fetch('/api/inventory/locations'),
+      ]);
+      setProducts(await productsRes.json());
+
+      if (locationsRes.ok) {
+        const locationsData = await locationsRes.json();
+        setLocations(locationsData);
+        const defaultLocation = locationsData.find((l: any) => l.isDefault) || locationsData[0];
+        if (defaultLocation) {
+          setFormData(prev => ({ ...prev, locationId: prev.locationId || defaultLocation.id }));
+        }
+      }
     } catch (err) {
       console.error('Error fetching products:', err);
       setError('Failed to load products');
@@ -319,9 +332,29 @@ export default function AddInventory() {
             <div className="mb-6">
               <h3 className="text-lg font-semibold mb-4">Location & Supplier</h3>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-gray-700 mb-2" htmlFor="locationId">
+                    Warehouse / Store
+                  </label>
+                  <select
+                    id="locationId"
+                    name="locationId"
+                    value={formData.locationId}
+                    onChange={handleChange}
+                    className="w-full p-2 border rounded focus:border-blue-500 focus:outline-none"
+                    required
+                  >
+                    {locations.map((location: any) => (
+                      <option key={location.id} value={location.id}>
+                        {location.name} ({location.code})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
                 <div>
                   <label className="block text-gray-700 mb-2" htmlFor="location">
-                    Storage Location
+                    Bin / Shelf
                   </label>
                   <input
                     type="text"
@@ -330,7 +363,7 @@ export default function AddInventory() {
                     value={formData.location}
                     onChange={handleChange}
                     className="w-full p-2 border rounded focus:border-blue-500 focus:outline-none"
-                    placeholder="e.g., Warehouse A, Shelf 3"
+                    placeholder="e.g., Aisle 2, Shelf 3"
                   />
                 </div>
 
@@ -0,0 +1,387 @@
+'use client';
+import React, { useState, useEffect, useRef } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import CurrencySymbol from '../../../components/CurrencySymbol';
+import { formatWeightAuto, isWeightBasedProduct } from '@/utils/weightUtils';
+
+const STATUS_COLORS: Record<string, string> = {
+  open: 'bg-yellow-100 text-yellow-800',
+  posted: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+};
+
+// Rows of "sku,counted" (weights in grams); a header row is skipped
+function parseCountCsv(text: string) {
+  const entries: { sku: string; quantity: number; weightQuantity: number }[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const [sku, value] = line.split(',').map(cell => cell.trim().replace(/^"|"$/g, ''));
+    const amount = parseFloat(value);
+    if (!sku || Number.isNaN(amount)) continue;
+    entries.push({ sku, quantity: amount, weightQuantity: amount });
+  }
+  return entries;
+}
+
+export default function StockCountDetails() {
+  const params = useParams();
+  const id = params.id as string;
+  const [details, setDetails] = useState<any>(null);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [scanCode, setScanCode] = useState('');
+  const [search, setSearch] = useState('');
+  const [varianceOnly, setVarianceOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const fetchCount = async () => {
+    try {
+      const res = await fetch(`/api/inventory/counts/${id}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Count not found');
+        return;
+      }
+      setDetails(data);
+    } catch (err) {
+      console.error('Error fetching count:', err);
+      setError('Failed to load count');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCount();
+  }, [id]);
+
+  const sendEntries = async (entries: any[]) => {
+    setSaving(true);
+    setError('');
+    try {
+      const res = await fetch(`/api/inventory/counts/${id}/items`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ entries }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to save counts');
+        return null;
+      }
+      await fetchCount();
+      return data;
+    } catch (err) {
+      console.error('Error saving counts:', err);
+      setError('Failed to save counts');
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const entries = Object.entries(drafts)
+      .filter(([, value]) => value !== '')
+      .map(([itemId, value]) => ({ itemId, quantity: parseFloat(value), weightQuantity: parseFloat(value) }));
+    if (entries.length === 0) return;
+
+    const result = await sendEntries(entries);
+    if (result) {
+      setDrafts({});
+      setMessage(`Saved ${result.updated} count(s)`);
+    }
+  };
+
+  // Scanners type the code and press Enter; each scan counts one unit
+  const handleScan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const sku = scanCode.trim();
+    if (!sku) return;
+
+    const result = await sendEntries([{ sku, quantity: 1, mode: 'add' }]);
+    if (result) {
+      setMessage(result.unmatched?.length ? `No product with SKU ${sku} in this count` : `Counted 1 × ${sku}`);
+    }
+    setScanCode('');
+  };
+
+  const handleCsvUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const entries = parseCountCsv(await file.text());
+    if (fileInput.current) fileInput.current.value = '';
+    if (entries.length === 0) {
+      setError('No "sku,counted" rows found in the file');
+      return;
+    }
+
+    const result = await sendEntries(entries);
+    if (result) {
+      setMessage(
+        `Imported ${result.updated} count(s)` +
+        (result.unmatched?.length ? `. Unknown SKUs: ${result.unmatched.join(', ')}` : '')
+      );
+    }
+  };
+
+  const handleApprove = (itemId: string, approved: boolean) => sendEntries([{ itemId, approved }]);
+
+  const handleApproveAll = () => {
+    const entries = details.items
+      .filter((item: any) => item.variance && !item.approved)
+      .map((item: any) => ({ itemId: item.id, approved: true }));
+    if (entries.length > 0) sendEntries(entries);
+  };
+
+  const handleAction = async (action: 'post' | 'cancel') => {
+    const message = action === 'post'
+      ? `Post ${details.summary.approved} approved line(s)? Their variances will be booked as stock adjustments.`
+      : 'Cancel this count? Nothing will be posted.';
+    if (!confirm(message)) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      const res = await fetch(`/api/inventory/counts/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || `Failed to ${action} count`);
+        return;
+      }
+      setMessage('');
+      await fetchCount();
+    } catch (err) {
+      console.error(`Error trying to ${action} count:`, err);
+      setError(`Failed to ${action} count`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) return <div>Loading...</div>;
+
+  if (!details) {
+    return (
+      <div className="p-4">
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-700 rounded">{error || 'Count not found'}</div>
+        <Link href="/inventory/counts" className="text-blue-600 hover:underline">Back to Counts</Link>
+      </div>
+    );
+  }
+
+  const { count, location, category, items, summary } = details;
+  const isOpen = count.status === 'open';
+  const formatAmount = (item: any, value: number | null) => {
+    if (value === null) return '-';
+    return isWeightBasedProduct(item.stockManagementType) ? formatWeightAuto(value).formattedString : value;
+  };
+
+  const visibleItems = items.filter((item: any) =>
+    (!varianceOnly || item.variance) &&
+    (!search ||
+      item.productName.toLowerCase().includes(search.toLowerCase()) ||
+      (item.variantTitle || '').toLowerCase().includes(search.toLowerCase()) ||
+      (item.sku || '').toLowerCase().includes(search.toLowerCase()))
+  );
+
+  return (
+    <div className="p-4">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">Stock Count {count.countNumber}</h1>
+          <div className="text-sm text-gray-600">
+            {location?.name || 'Unknown location'} · {category?.name || 'All categories'} · started{' '}
+            {count.createdAt ? new Date(count.createdAt).toLocaleString() : '-'}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className={`px-3 py-1 rounded text-sm capitalize ${STATUS_COLORS[count.status] || 'bg-gray-100 text-gray-800'}`}>
+            {count.status}
+          </span>
+          <Link href="/inventory/counts" className="px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600">
+            Back
+          </Link>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-700 rounded">{error}</div>
+      )}
+      {message && (
+        <div className="mb-4 p-3 bg-blue-50 border border-blue-200 text-blue-800 rounded">{message}</div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6 text-sm">
+        <div className="p-4 border rounded">
+          <div className="text-gray-500">Counted</div>
+          <div className="text-lg font-semibold">{summary.counted} / {summary.lines}</div>
+        </div>
+        <div className="p-4 border rounded">
+          <div className="text-gray-500">With variance</div>
+          <div className="text-lg font-semibold">{summary.withVariance}</div>
+        </div>
+        <div className="p-4 border rounded">
+          <div className="text-gray-500">Approved</div>
+          <div className="text-lg font-semibold">{summary.approved}</div>
+        </div>
+        <div className="p-4 border rounded">
+          <div className="text-gray-500">Gain / Loss</div>
+          <div className="text-lg font-semibold">
+            <span className="text-green-700"><CurrencySymbol />{summary.costGain.toFixed(2)}</span>
+            {' / '}
+            <span className="text-red-700"><CurrencySymbol />{Math.abs(summary.costLoss).toFixed(2)}</span>
+          </div>
+        </div>
+        <div className="p-4 border rounded">
+          <div className="text-gray-500">Net cost impact</div>
+          <div className={`text-lg font-semibold ${summary.netCost < 0 ? 'text-red-700' : 'text-green-700'}`}>
+            <CurrencySymbol />{summary.netCost.toFixed(2)}
+          </div>
+        </div>
+      </div>
+
+      {isOpen && (
+        <div className="flex flex-wrap gap-4 items-end mb-4 p-4 border rounded bg-gray-50">
+          <form onSubmit={handleScan} className="flex gap-2 items-end">
+            <div>
+              <label className="block mb-1 text-sm font-medium">Scan barcode / SKU</label>
+              <input
+                type="text"
+                value={scanCode}
+                onChange={(e) => setScanCode(e.target.value)}
+                placeholder="Scan or type, then Enter"
+                className="p-2 border rounded w-64"
+                autoFocus
+              />
+            </div>
+            <button type="submit" disabled={saving} className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50">
+              Add 1
+            </button>
+          </form>
+          <div>
+            <label className="block mb-1 text-sm font-medium">Upload CSV (sku,counted; weights in grams)</label>
+            <input ref={fileInput} type="file" accept=".csv,text/csv" onChange={handleCsvUpload} disabled={saving} className="text-sm" />
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-4 items-center mb-2">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search products or SKU..."
+          className="p-2 border rounded flex-1 min-w-[16rem]"
+        />
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={varianceOnly} onChange={(e) => setVarianceOnly(e.target.checked)} />
+          Variances only
+        </label>
+      </div>
+
+      <div className="overflow-x-auto border rounded mb-6">
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="border p-2 text-left">Item</th>
+              <th className="border p-2 text-right">Expected</th>
+              <th className="border p-2 text-left">Counted</th>
+              <th className="border p-2 text-right">Variance</th>
+              <th className="border p-2 text-right">Cost Impact</th>
+              <th className="border p-2 text-center">Approved</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleItems.length === 0 ? (
+              <tr><td colSpan={6} className="border p-4 text-center text-gray-500">No lines to show</td></tr>
+            ) : visibleItems.map((item: any) => {
+              const isWeightBased = isWeightBasedProduct(item.stockManagementType);
+              return (
+                <tr key={item.id} className={item.variance ? (item.variance < 0 ? 'bg-red-50' : 'bg-green-50') : ''}>
+                  <td className="border p-2">
+                    <div className="font-medium">{item.productName}</div>
+                    {item.variantTitle && <div className="text-sm text-gray-500">{item.variantTitle}</div>}
+                    {item.sku && <div className="text-xs text-gray-400 font-mono">{item.sku}</div>}
+                  </td>
+                  <td className="border p-2 text-right">{formatAmount(item, item.expected)}</td>
+                  <td className="border p-2">
+                    {isOpen ? (
+                      <div className="flex items-center gap-1">
+                        <input
+                          type="number"
+                          min="0"
+                          step={isWeightBased ? '0.01' : '1'}
+                          value={drafts[item.id] ?? (item.counted ?? '')}
+                          onChange={(e) => setDrafts({ ...drafts, [item.id]: e.target.value })}
+                          className="w-28 p-1 border rounded"
+                        />
+                        {isWeightBased && <span className="text-sm text-gray-500">g</span>}
+                      </div>
+                    ) : formatAmount(item, item.counted)}
+                  </td>
+                  <td className={`border p-2 text-right font-medium ${item.variance < 0 ? 'text-red-700' : item.variance > 0 ? 'text-green-700' : ''}`}>
+                    {item.variance === null ? '-' : `${item.variance > 0 ? '+' : ''}${formatAmount(item, item.variance)}`}
+                  </td>
+                  <td className="border p-2 text-right">
+                    {item.costImpact !== null ? <><CurrencySymbol />{item.costImpact.toFixed(2)}</> : '-'}
+                  </td>
+                  <td className="border p-2 text-center">
+                    <input
+                      type="checkbox"
+                      checked={!!item.approved}
+                      disabled={!isOpen || saving || item.counted === null}
+                      onChange={(e) => handleApprove(item.id, e.target.checked)}
+                    />
+                    {item.movementId && <div className="text-xs text-green-700">Posted</div>}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {isOpen && (
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={handleSave}
+            disabled={saving || Object.keys(drafts).length === 0}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+          >
+            Save Counts
+          </button>
+          <button
+            onClick={handleApproveAll}
+            disabled={saving}
+            className="px-4 py-2 bg-indigo-500 text-white rounded hover:bg-indigo-600 disabled:opacity-50"
+          >
+            Approve All Variances
+          </button>
+          <button
+            onClick={() => handleAction('post')}
+            disabled={saving || summary.approved === 0}
+            className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 disabled:opacity-50"
+          >
+            Post Approved Variances
+          </button>
+          <button
+            onClick={() => handleAction('cancel')}
+            disabled={saving}
+            className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 disabled:opacity-50"
+          >
+            Cancel Count
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+'use client';
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+
+interface InventoryLocation {
+  id: string;
+  name: string;
+  code: string;
+  isDefault: boolean;
+}
+
+interface Category {
+  id: string;
+  name: string;
+}
+
+export default function AddStockCount() {
+  const router = useRouter();
+  const [locations, setLocations] = useState<InventoryLocation[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [locationId, setLocationId] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      try {
+        const [locationsRes, categoriesRes] = await Promise.all([
+          fetch('/api/inventory/locations'),
+          fetch('/api/categories'),
+        ]);
+        const [locationsData, categoriesData] = await Promise.all([locationsRes.json(), categoriesRes.json()]);
+        if (!locationsRes.ok) {
+          setError(locationsData.error || 'Failed to load locations');
+          return;
+        }
+        setLocations(locationsData);
+        const defaultLocation = locationsData.find((l: InventoryLocation) => l.isDefault) || locationsData[0];
+        if (defaultLocation) setLocationId(defaultLocation.id);
+        if (categoriesRes.ok) setCategories(categoriesData);
+      } catch (err) {
+        console.error('Error fetching count options:', err);
+        setError('Failed to load locations');
+      }
+    };
+    fetchOptions();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSubmitting(true);
+    setError('');
+    try {
+      const res = await fetch('/api/inventory/counts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ locationId, categoryId: categoryId || null, notes }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to start count');
+        return;
+      }
+      router.push(`/inventory/counts/${data.id}`);
+    } catch (err) {
+      console.error('Error starting count:', err);
+      setError('Failed to start count');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="p-4 max-w-2xl">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">New Stock Count</h1>
+        <Link href="/inventory/counts" className="px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600">
+          Back to Counts
+        </Link>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-700 rounded">{error}</div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label className="block mb-1 font-medium">Location *</label>
+          <select
+            value={locationId}
+            onChange={(e) => setLocationId(e.target.value)}
+            className="w-full p-2 border rounded"
+            required
+          >
+            {locations.map(location => (
+              <option key={location.id} value={location.id}>{location.name} ({location.code})</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block mb-1 font-medium">Category</label>
+          <select
+            value={categoryId}
+            onChange={(e) => setCategoryId(e.target.value)}
+            className="w-full p-2 border rounded"
+          >
+            <option value="">All categories</option>
+            {categories.map(category => (
+              <option key={category.id} value={category.id}>{category.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block mb-1 font-medium">Notes</label>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className="w-full p-2 border rounded"
+            rows={2}
+          />
+        </div>
+
+        <p className="text-sm text-gray-600">
+          Starting the count records the expected stock of every tracked item at this location now.
+          Variances are measured against that snapshot, so sales during the count are not counted as losses.
+        </p>
+
+        <button
+          type="submit"
+          disabled={submitting || !locationId}
+          className="px-6 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+        >
+          {submitting ? 'Starting...' : 'Start Count'}
+        </button>
+      </form>
+    </div>
+  );
+}
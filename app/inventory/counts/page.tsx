@@ -0,0 +1,114 @@
+'use client';
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+
+const STATUS_COLORS: Record<string, string> = {
+  open: 'bg-yellow-100 text-yellow-800',
+  posted: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+};
+
+export default function StockCounts() {
+  const [counts, setCounts] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState('');
+  const [error, setError] = useState('');
+
+  const fetchCounts = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/inventory/counts${statusFilter ? `?status=${statusFilter}` : ''}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to load counts');
+        setCounts([]);
+        return;
+      }
+      setError('');
+      setCounts(data);
+    } catch (err) {
+      console.error('Error fetching counts:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCounts();
+  }, [statusFilter]);
+
+  if (loading) return <div>Loading...</div>;
+
+  return (
+    <div className="p-4">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">📋 Stock Counts</h1>
+        <div className="flex gap-2">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="p-2 border rounded"
+          >
+            <option value="">All Statuses</option>
+            <option value="open">Open</option>
+            <option value="posted">Posted</option>
+            <option value="cancelled">Cancelled</option>
+          </select>
+          <Link href="/inventory/counts/add" className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600">
+            New Count
+          </Link>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-700 rounded">{error}</div>
+      )}
+
+      <table className="w-full border-collapse">
+        <thead>
+          <tr className="bg-gray-100">
+            <th className="border p-2 text-left">Count #</th>
+            <th className="border p-2 text-left">Location</th>
+            <th className="border p-2 text-left">Category</th>
+            <th className="border p-2 text-right">Counted</th>
+            <th className="border p-2 text-left">Status</th>
+            <th className="border p-2 text-left">Started</th>
+            <th className="border p-2 text-left">Actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {counts.length > 0 ? counts.map(count => (
+            <tr key={count.id}>
+              <td className="border p-2 font-mono">
+                <Link href={`/inventory/counts/${count.id}`} className="text-blue-600 hover:underline">
+                  {count.countNumber}
+                </Link>
+              </td>
+              <td className="border p-2">{count.locationName || '-'}</td>
+              <td className="border p-2">{count.categoryName || 'All categories'}</td>
+              <td className="border p-2 text-right">{count.countedCount} / {count.itemCount}</td>
+              <td className="border p-2">
+                <span className={`px-2 py-1 rounded text-sm capitalize ${STATUS_COLORS[count.status] || 'bg-gray-100 text-gray-800'}`}>
+                  {count.status}
+                </span>
+              </td>
+              <td className="border p-2">{count.createdAt ? new Date(count.createdAt).toLocaleDateString() : '-'}</td>
+              <td className="border p-2">
+                <Link
+                  href={`/inventory/counts/${count.id}`}
+                  className="px-2 py-1 bg-gray-500 text-white rounded hover:bg-gray-600 text-sm"
+                >
+                  {count.status === 'open' ? 'Count' : 'View'}
+                </Link>
+              </td>
+            </tr>
+          )) : (
+            <tr>
+              <td colSpan={7} className="border p-6 text-center text-gray-500">No stock counts found</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
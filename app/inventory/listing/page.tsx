@@ -1,6 +1,7 @@
 'use client';
 import React, { useState, useEffect } from 'react';
 import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
 import { 
   formatWeightAuto, 
   isWeightBasedProduct, 
@@ -8,6 +9,26 @@ import {
   getWeightStockStatus
 } from '@/utils/weightUtils';
 
+interface LocationStock {
+  inventoryId: string;
+  locationId: string;
+  locationName: string;
+  bin: string | null;
+  currentStock: number;
+  reservedStock: number;
+  availableStock: number;
+  currentWeight: number;
+  reservedWeight: number;
+  availableWeight: number;
+}
+
+interface InventoryLocation {
+  id: string;
+  name: string;
+  code: string;
+  isDefault: boolean;
+}
+
 interface ProductInventory {
   productId: string;
   productName: string;
@@ -19,6 +40,8 @@ interface ProductInventory {
   stockManagementType?: string;
   pricePerUnit?: number;
   baseWeightUnit?: string;
+  // track, untracked or backorder after the store setting and product/variant overrides
+  stockTracking?: string;
   variants?: {
     variantId: string;
     variantTitle: string;
@@ -34,6 +57,8 @@ interface ProductInventory {
     reorderWeightPoint: number;
     lastRestocked: string | null;
     isActive: boolean;
+    stockTracking?: string;
+    locations: LocationStock[];
   }[];
   simpleStock?: {
     currentStock: number;
@@ -46,6 +71,7 @@ interface ProductInventory {
     availableWeight: number;
     reorderWeightPoint: number;
     lastRestocked: string | null;
+    locations: LocationStock[];
   };
 }
 
@@ -62,9 +88,12 @@ interface QuickStockUpdate {
 }
 
 export default function InventoryListing() {
+  const searchParams = useSearchParams();
   const [inventory, setInventory] = useState<ProductInventory[]>([]);
   const [filteredInventory, setFilteredInventory] = useState<ProductInventory[]>([]);
   const [suppliers, setSuppliers] = useState([]);
+  const [locations, setLocations] = useState<InventoryLocation[]>([]);
+  const [locationFilter, setLocationFilter] = useState(searchParams.get('locationId') || 'all');
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [categoryFilter, setCategoryFilter] = useState('all');
@@ -78,6 +107,7 @@ export default function InventoryListing() {
     quantity: 0,
     reason: 'Purchase Order',
     reference: '',
+    locationId: '',
     location: '',
     supplierId: '',
     // Weight-based fields
@@ -99,7 +129,7 @@ export default function InventoryListing() {
 
   useEffect(() => {
     fetchInventoryData();
-  }, []);
+  }, [locationFilter]);
 
   useEffect(() => {
     filterInventory();
@@ -108,9 +138,13 @@ export default function InventoryListing() {
   const fetchInventoryData = async () => {
     setLoading(true);
     try {
-      const [inventoryRes, suppliersRes] = await Promise.all([
-        fetch('/api/inventory/listing'),
+      const listingUrl = locationFilter === 'all'
+        ? '/api/inventory/listing'
+        : `/api/inventory/listing?locationId=${encodeURIComponent(locationFilter)}`;
+      const [inventoryRes, suppliersRes, locationsRes] = await Promise.all([
+        fetch(listingUrl),
         fetch('/api/suppliers'),
+        fetch('/api/inventory/locations'),
       ]);
       
       if (inventoryRes.ok) {
@@ -125,6 +159,10 @@ export default function InventoryListing() {
         const suppliersData = await suppliersRes.json();
         setSuppliers(suppliersData.filter((s: any) => s.isActive));
       }
+
+      if (locationsRes.ok) {
+        setLocations(await locationsRes.json());
+      }
     } catch (err) {
       console.error('Error fetching data:', err);
     } finally {
@@ -214,6 +252,9 @@ export default function InventoryListing() {
       quantity: 0,
       reason: 'Purchase Order',
       reference: '',
+      locationId: locationFilter !== 'all'
+        ? locationFilter
+        : (locations.find(l => l.isDefault) || locations[0])?.id || '',
       location: '',
       supplierId: '',
       weightQuantity: '',
@@ -246,6 +287,7 @@ export default function InventoryListing() {
         variantId: quickAddData.variantId || null,
         movementType: 'in',
         reason: quickAddForm.reason,
+        locationId: quickAddForm.locationId || null,
         location: quickAddForm.location,
         reference: quickAddForm.reference,
         supplierId: quickAddForm.supplierId || null
@@ -314,6 +356,32 @@ export default function InventoryListing() {
     return { totalItems, outOfStock, lowStock, inStock };
   };
 
+  // Orders skip stock checks for untracked and backorderable items
+  const renderTrackingBadge = (stockTracking?: string) => {
+    if (stockTracking === 'untracked') {
+      return <div className="mt-1 text-xs text-gray-500">Not tracked</div>;
+    }
+    if (stockTracking === 'backorder') {
+      return <div className="mt-1 text-xs text-blue-600">Backorder allowed</div>;
+    }
+    return null;
+  };
+
+  // Per-location split shown under the totals when viewing all locations
+  const renderLocationBreakdown = (stockLocations: LocationStock[] | undefined, isWeightBased: boolean) => {
+    if (locationFilter !== 'all' || locations.length < 2 || !stockLocations || stockLocations.length === 0) return null;
+    return (
+      <div className="mt-1 space-y-0.5">
+        {stockLocations.map(loc => (
+          <div key={loc.inventoryId} className="text-xs text-gray-500">
+            {loc.locationName}{loc.bin ? ` · ${loc.bin}` : ''}:{' '}
+            {isWeightBased ? formatWeightAuto(loc.currentWeight).formattedString : loc.currentStock}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   if (loading) return <div className="p-8 text-center">Loading inventory...</div>;
 
   const stats = getInventoryStats();
@@ -331,6 +399,18 @@ export default function InventoryListing() {
           >
             {loading ? 'Refreshing...' : '🔄 Refresh'}
           </button>
+          <Link 
+            href="/inventory/transfers" 
+            className="px-4 py-2 bg-indigo-500 text-white rounded-lg hover:bg-indigo-600 transition-colors"
+          >
+            🚚 Transfers
+          </Link>
+          <Link 
+            href="/inventory/locations" 
+            className="px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600 transition-colors"
+          >
+            🏬 Locations
+          </Link>
           <Link 
             href="/inventory/stock-movements/add" 
             className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors"
@@ -368,7 +448,7 @@ export default function InventoryListing() {
 
       {/* Filters */}
       <div className="bg-white border rounded-lg p-4 mb-6">
-        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">Search</label>
             <input
@@ -379,6 +459,19 @@ export default function InventoryListing() {
               className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
             />
           </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Location</label>
+            <select
+              value={locationFilter}
+              onChange={(e) => setLocationFilter(e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="all">All Locations</option>
+              {locations.map(location => (
+                <option key={location.id} value={location.id}>{location.name}</option>
+              ))}
+            </select>
+          </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
             <select
@@ -424,6 +517,7 @@ export default function InventoryListing() {
                 setCategoryFilter('all');
                 setProductTypeFilter('all');
                 setStockFilter('all');
+                setLocationFilter('all');
               }}
               className="w-full px-3 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600 transition-colors"
             >
@@ -501,6 +595,7 @@ export default function InventoryListing() {
                                   ({formatWeightAuto(item.simpleStock.reservedWeight || 0).formattedString} reserved)
                                 </span>
                               )}
+                              {renderLocationBreakdown(item.simpleStock.locations, true)}
                             </div>
                           ) : (
                             <div>
@@ -510,6 +605,7 @@ export default function InventoryListing() {
                                   ({item.simpleStock.reservedStock} reserved)
                                 </span>
                               )}
+                              {renderLocationBreakdown(item.simpleStock.locations, false)}
                             </div>
                           )}
                         </td>
@@ -525,6 +621,7 @@ export default function InventoryListing() {
                           <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusColor}`}>
                             {status}
                           </span>
+                          {renderTrackingBadge(item.stockTracking)}
                         </td>
                         <td className="border-b p-3 text-sm">
                           {item.simpleStock.lastRestocked 
@@ -611,6 +708,7 @@ export default function InventoryListing() {
                                     ({formatWeightAuto(variant.reservedWeight || 0).formattedString} reserved)
                                   </span>
                                 )}
+                                {renderLocationBreakdown(variant.locations, true)}
                               </div>
                             ) : (
                               <div>
@@ -620,6 +718,7 @@ export default function InventoryListing() {
                                     ({variant.reservedStock} reserved)
                                   </span>
                                 )}
+                                {renderLocationBreakdown(variant.locations, false)}
                               </div>
                             )}
                           </td>
@@ -635,6 +734,7 @@ export default function InventoryListing() {
                             <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusColor}`}>
                               {status}
                             </span>
+                            {renderTrackingBadge(variant.stockTracking)}
                           </td>
                           <td className="border-b p-3 text-sm">
                             {variant.lastRestocked 
@@ -667,7 +767,7 @@ export default function InventoryListing() {
               ) : (
                 <tr>
                   <td colSpan={10} className="border-b p-8 text-center text-gray-500">
-                    {searchTerm || categoryFilter !== 'all' || stockFilter !== 'all' || productTypeFilter !== 'all'
+                    {searchTerm || categoryFilter !== 'all' || stockFilter !== 'all' || productTypeFilter !== 'all' || locationFilter !== 'all'
                       ? 'No inventory items match your filters' 
                       : 'No inventory items found'
                     }
@@ -772,13 +872,29 @@ export default function InventoryListing() {
               </div>
 
               <div className="mb-4">
-                <label className="block text-gray-700 mb-2">Location</label>
+                <label className="block text-gray-700 mb-2">
+                  Location <span className="text-red-500">*</span>
+                </label>
+                <select
+                  value={quickAddForm.locationId}
+                  onChange={(e) => setQuickAddForm({...quickAddForm, locationId: e.target.value})}
+                  className="w-full p-2 border rounded focus:border-blue-500 focus:outline-none"
+                  required
+                >
+                  {locations.map(location => (
+                    <option key={location.id} value={location.id}>{location.name} ({location.code})</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="mb-4">
+                <label className="block text-gray-700 mb-2">Bin / Shelf</label>
                 <input
                   type="text"
                   value={quickAddForm.location}
                   onChange={(e) => setQuickAddForm({...quickAddForm, location: e.target.value})}
                   className="w-full p-2 border rounded focus:border-blue-500 focus:outline-none"
-                  placeholder="Warehouse, shelf, etc."
+                  placeholder="Aisle, shelf, bin, etc."
                 />
               </div>
 
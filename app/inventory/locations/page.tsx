@@ -0,0 +1,271 @@
+'use client';
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+
+interface InventoryLocation {
+  id: string;
+  name: string;
+  code: string;
+  type: string;
+  address: string | null;
+  isDefault: boolean;
+  isActive: boolean;
+}
+
+const EMPTY_FORM = { name: '', code: '', type: 'warehouse', address: '', isDefault: false, isActive: true };
+
+export default function InventoryLocations() {
+  const [locations, setLocations] = useState<InventoryLocation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const fetchLocations = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch('/api/inventory/locations?includeInactive=true');
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to load locations');
+        return;
+      }
+      setLocations(data);
+    } catch (err) {
+      console.error('Error fetching locations:', err);
+      setError('Failed to load locations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchLocations();
+  }, []);
+
+  const openForm = (location?: InventoryLocation) => {
+    setEditingId(location?.id || null);
+    setFormData(location
+      ? {
+          name: location.name,
+          code: location.code,
+          type: location.type || 'warehouse',
+          address: location.address || '',
+          isDefault: location.isDefault,
+          isActive: location.isActive,
+        }
+      : EMPTY_FORM);
+    setError('');
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+    try {
+      const res = await fetch(editingId ? `/api/inventory/locations/${editingId}` : '/api/inventory/locations', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to save location');
+        return;
+      }
+      setShowForm(false);
+      await fetchLocations();
+    } catch (err) {
+      console.error('Error saving location:', err);
+      setError('Failed to save location');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (location: InventoryLocation) => {
+    if (!confirm(`Delete ${location.name}? Only locations without stock can be deleted.`)) return;
+    try {
+      const res = await fetch(`/api/inventory/locations/${location.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json();
+        alert(`Failed to delete location: ${data.error}`);
+        return;
+      }
+      setLocations(locations.filter(l => l.id !== location.id));
+    } catch (err) {
+      console.error('Error deleting location:', err);
+    }
+  };
+
+  if (loading) return <div>Loading...</div>;
+
+  return (
+    <div className="p-4">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">🏬 Inventory Locations</h1>
+        <div className="flex gap-2">
+          <button
+            onClick={() => openForm()}
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600"
+          >
+            Add Location
+          </button>
+          <Link href="/inventory/listing" className="px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600">
+            Back to Inventory
+          </Link>
+        </div>
+      </div>
+
+      {error && !showForm && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-700 rounded">{error}</div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="mb-6 p-4 border rounded bg-gray-50 space-y-4">
+          <h2 className="text-lg font-semibold">{editingId ? 'Edit Location' : 'New Location'}</h2>
+          {error && (
+            <div className="p-3 bg-red-100 border border-red-300 text-red-700 rounded">{error}</div>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block mb-1 font-medium">Name *</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className="w-full p-2 border rounded"
+                required
+              />
+            </div>
+            <div>
+              <label className="block mb-1 font-medium">Code *</label>
+              <input
+                type="text"
+                value={formData.code}
+                onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+                className="w-full p-2 border rounded font-mono"
+                placeholder="e.g. LHR-01"
+                required
+              />
+            </div>
+            <div>
+              <label className="block mb-1 font-medium">Type</label>
+              <select
+                value={formData.type}
+                onChange={(e) => setFormData({ ...formData, type: e.target.value })}
+                className="w-full p-2 border rounded"
+              >
+                <option value="warehouse">Warehouse</option>
+                <option value="store">Store</option>
+              </select>
+            </div>
+            <div className="md:col-span-3">
+              <label className="block mb-1 font-medium">Address</label>
+              <textarea
+                value={formData.address}
+                onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                className="w-full p-2 border rounded"
+                rows={2}
+              />
+            </div>
+          </div>
+          <div className="flex gap-6 text-sm">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={formData.isDefault}
+                onChange={(e) => setFormData({ ...formData, isDefault: e.target.checked })}
+              />
+              Default fulfilment location
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={formData.isActive}
+                onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+              />
+              Active
+            </label>
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 bg-gray-300 text-gray-700 rounded hover:bg-gray-400"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      <table className="w-full border-collapse">
+        <thead>
+          <tr className="bg-gray-100">
+            <th className="border p-2 text-left">Name</th>
+            <th className="border p-2 text-left">Code</th>
+            <th className="border p-2 text-left">Type</th>
+            <th className="border p-2 text-left">Address</th>
+            <th className="border p-2 text-left">Status</th>
+            <th className="border p-2 text-left">Actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {locations.map(location => (
+            <tr key={location.id}>
+              <td className="border p-2">
+                {location.name}
+                {location.isDefault && (
+                  <span className="ml-2 px-2 py-0.5 bg-blue-100 text-blue-800 rounded text-xs">Default</span>
+                )}
+              </td>
+              <td className="border p-2 font-mono">{location.code}</td>
+              <td className="border p-2 capitalize">{location.type}</td>
+              <td className="border p-2 text-sm">{location.address || '-'}</td>
+              <td className="border p-2">
+                <span className={`px-2 py-1 rounded text-sm ${location.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}`}>
+                  {location.isActive ? 'Active' : 'Inactive'}
+                </span>
+              </td>
+              <td className="border p-2">
+                <div className="flex gap-2">
+                  <Link
+                    href={`/inventory/listing?locationId=${location.id}`}
+                    className="px-2 py-1 bg-gray-500 text-white rounded hover:bg-gray-600 text-sm"
+                  >
+                    Stock
+                  </Link>
+                  <button
+                    onClick={() => openForm(location)}
+                    className="px-2 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 text-sm"
+                  >
+                    Edit
+                  </button>
+                  {!location.isDefault && (
+                    <button
+                      onClick={() => handleDelete(location)}
+                      className="px-2 py-1 bg-red-500 text-white rounded hover:bg-red-600 text-sm"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+'use client';
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import CurrencySymbol from '../../components/CurrencySymbol';
+import { formatWeightAuto, isWeightBasedProduct } from '@/utils/weightUtils';
+
+type LotView = 'expiring' | 'expired' | 'active' | 'all';
+
+const STATUS_COLORS: Record<string, string> = {
+  active: 'bg-green-100 text-green-800',
+  depleted: 'bg-gray-100 text-gray-800',
+  expired: 'bg-red-100 text-red-800',
+};
+
+export default function InventoryLots() {
+  const [lots, setLots] = useState<any[]>([]);
+  const [locations, setLocations] = useState<any[]>([]);
+  const [view, setView] = useState<LotView>('expiring');
+  const [withinDays, setWithinDays] = useState(30);
+  const [locationId, setLocationId] = useState('');
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [writingOff, setWritingOff] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetch('/api/inventory/locations')
+      .then(res => res.ok ? res.json() : [])
+      .then(setLocations)
+      .catch(err => console.error('Error fetching locations:', err));
+  }, []);
+
+  const fetchLots = async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (view === 'expiring') params.set('expiringWithinDays', String(withinDays));
+      if (view === 'expired') params.set('expired', 'true');
+      if (view === 'all') params.set('status', 'all');
+      if (locationId) params.set('locationId', locationId);
+
+      const res = await fetch(`/api/inventory/lots?${params.toString()}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to load lots');
+        setLots([]);
+        return;
+      }
+      setError('');
+      setLots(data);
+    } catch (err) {
+      console.error('Error fetching lots:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchLots();
+  }, [view, withinDays, locationId]);
+
+  const handleWriteOff = async () => {
+    if (!confirm('Write off all expired lots? Their remaining stock will be removed from inventory.')) return;
+
+    setWritingOff(true);
+    try {
+      const res = await fetch('/api/inventory/lots/write-off-expired', { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(`Failed to write off expired lots: ${data.error}`);
+        return;
+      }
+      alert(`Wrote off ${data.writtenOff} expired lot(s)${data.failed ? `, ${data.failed} failed` : ''}`);
+      await fetchLots();
+    } catch (err) {
+      console.error('Error writing off expired lots:', err);
+    } finally {
+      setWritingOff(false);
+    }
+  };
+
+  const formatAmount = (lot: any, field: 'remaining' | 'received') => {
+    if (isWeightBasedProduct(lot.stockManagementType)) {
+      const grams = parseFloat((field === 'remaining' ? lot.weightQuantity : lot.receivedWeight) || '0');
+      return formatWeightAuto(grams).formattedString;
+    }
+    return field === 'remaining' ? lot.quantity : lot.receivedQuantity;
+  };
+
+  // Value of the remaining stock at the lot's cost (per unit, or per kg for weight-based products)
+  const lotValue = (lot: any) => {
+    if (!lot.unitCost) return null;
+    const remaining = isWeightBasedProduct(lot.stockManagementType)
+      ? parseFloat(lot.weightQuantity || '0') / 1000
+      : lot.quantity;
+    return parseFloat(lot.unitCost) * remaining;
+  };
+
+  const expiryBadge = (lot: any) => {
+    if (lot.daysToExpiry === null) return <span className="text-gray-500">No expiry</span>;
+    if (lot.daysToExpiry < 0) return <span className="text-red-600 font-semibold">Expired {Math.abs(lot.daysToExpiry)}d ago</span>;
+    if (lot.daysToExpiry === 0) return <span className="text-red-600 font-semibold">Expires today</span>;
+    if (lot.daysToExpiry <= 7) return <span className="text-orange-600 font-semibold">{lot.daysToExpiry}d left</span>;
+    return <span className="text-gray-700">{lot.daysToExpiry}d left</span>;
+  };
+
+  const visibleLots = lots.filter(lot =>
+    !search ||
+    lot.productName.toLowerCase().includes(search.toLowerCase()) ||
+    lot.lotNumber.toLowerCase().includes(search.toLowerCase()) ||
+    (lot.variantTitle || '').toLowerCase().includes(search.toLowerCase())
+  );
+
+  const expiredCount = lots.filter(lot => lot.status === 'active' && lot.daysToExpiry !== null && lot.daysToExpiry < 0).length;
+  const totalValue = visibleLots.reduce((sum, lot) => sum + (lot.status === 'active' ? lotValue(lot) || 0 : 0), 0);
+
+  return (
+    <div className="p-4">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">🗓️ Lots & Expiry</h1>
+        <div className="flex gap-2">
+          <button
+            onClick={handleWriteOff}
+            disabled={writingOff}
+            className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 disabled:opacity-50"
+          >
+            {writingOff ? 'Writing off...' : 'Write Off Expired Lots'}
+          </button>
+          <Link href="/inventory/stock-movements/add" className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600">
+            Receive Stock
+          </Link>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+        <select
+          value={view}
+          onChange={(e) => setView(e.target.value as LotView)}
+          className="p-2 border rounded"
+        >
+          <option value="expiring">Expiring soon</option>
+          <option value="expired">Expired (not written off)</option>
+          <option value="active">All lots in stock</option>
+          <option value="all">All lots incl. depleted</option>
+        </select>
+        {view === 'expiring' ? (
+          <select
+            value={withinDays}
+            onChange={(e) => setWithinDays(parseInt(e.target.value))}
+            className="p-2 border rounded"
+          >
+            <option value={7}>Within 7 days</option>
+            <option value={30}>Within 30 days</option>
+            <option value={60}>Within 60 days</option>
+            <option value={90}>Within 90 days</option>
+          </select>
+        ) : <div />}
+        <select
+          value={locationId}
+          onChange={(e) => setLocationId(e.target.value)}
+          className="p-2 border rounded"
+        >
+          <option value="">All Locations</option>
+          {locations.map(location => (
+            <option key={location.id} value={location.id}>{location.name}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search product or lot..."
+          className="p-2 border rounded"
+        />
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-700 rounded">{error}</div>
+      )}
+
+      {expiredCount > 0 && view !== 'expired' && (
+        <div className="mb-4 p-3 bg-orange-50 border border-orange-200 text-orange-800 rounded">
+          {expiredCount} lot(s) listed here are past their expiry date and cannot be sold until written off.
+        </div>
+      )}
+
+      {loading ? (
+        <div>Loading...</div>
+      ) : (
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="border p-2 text-left">Product</th>
+              <th className="border p-2 text-left">Lot #</th>
+              <th className="border p-2 text-left">Location</th>
+              <th className="border p-2 text-left">Expiry</th>
+              <th className="border p-2 text-left">Days</th>
+              <th className="border p-2 text-right">Remaining</th>
+              <th className="border p-2 text-right">Received</th>
+              <th className="border p-2 text-right">Value</th>
+              <th className="border p-2 text-left">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleLots.length > 0 ? visibleLots.map(lot => {
+              const value = lotValue(lot);
+              return (
+                <tr key={lot.id}>
+                  <td className="border p-2">
+                    <div className="font-medium">{lot.productName}</div>
+                    {lot.variantTitle && <div className="text-sm text-gray-500">{lot.variantTitle}</div>}
+                  </td>
+                  <td className="border p-2 font-mono">{lot.lotNumber}</td>
+                  <td className="border p-2">{lot.locationName || '-'}</td>
+                  <td className="border p-2">{lot.expiryDate || '-'}</td>
+                  <td className="border p-2">{expiryBadge(lot)}</td>
+                  <td className="border p-2 text-right">{formatAmount(lot, 'remaining')}</td>
+                  <td className="border p-2 text-right text-gray-500">{formatAmount(lot, 'received')}</td>
+                  <td className="border p-2 text-right">
+                    {value !== null ? <><CurrencySymbol />{value.toFixed(2)}</> : '-'}
+                  </td>
+                  <td className="border p-2">
+                    <span className={`px-2 py-1 rounded text-sm capitalize ${STATUS_COLORS[lot.status] || 'bg-gray-100 text-gray-800'}`}>
+                      {lot.status}
+                    </span>
+                  </td>
+                </tr>
+              );
+            }) : (
+              <tr>
+                <td colSpan={9} className="border p-6 text-center text-gray-500">No lots found</td>
+              </tr>
+            )}
+          </tbody>
+          {visibleLots.length > 0 && (
+            <tfoot>
+              <tr className="bg-gray-50 font-semibold">
+                <td colSpan={7} className="border p-2 text-right">Value in stock</td>
+                <td className="border p-2 text-right"><CurrencySymbol />{totalValue.toFixed(2)}</td>
+                <td className="border p-2" />
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+'use client';
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { formatWeightAuto } from '@/utils/weightUtils';
+
+interface InventoryLocation {
+  id: string;
+  name: string;
+  isDefault: boolean;
+}
+
+interface Supplier {
+  id: string;
+  name: string;
+  companyName?: string;
+}
+
+interface Suggestion {
+  inventoryId: string;
+  productName: string;
+  variantTitle: string | null;
+  sku: string | null;
+  locationName: string;
+  supplierId: string | null;
+  supplierName: string | null;
+  isWeightBased: boolean;
+  available: number;
+  onOrder: number;
+  reorderPoint: number;
+  dailySales: number | null;
+  daysOfCover: number | null;
+  suggestedQuantity: number;
+  unitCost: number | null;
+  reason: 'reorder_point' | 'low_cover';
+}
+
+export default function ReorderSuggestions() {
+  const router = useRouter();
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [locations, setLocations] = useState<InventoryLocation[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [locationId, setLocationId] = useState('');
+  const [supplierId, setSupplierId] = useState('');
+  const [useSalesVelocity, setUseSalesVelocity] = useState(false);
+  const [velocityDays, setVelocityDays] = useState('30');
+  const [coverDays, setCoverDays] = useState('14');
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState('');
+
+  const formatAmount = (suggestion: Suggestion, amount: number) =>
+    suggestion.isWeightBased ? formatWeightAuto(amount).formattedString : amount;
+
+  const fetchSuggestions = async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (locationId) params.set('locationId', locationId);
+      if (supplierId) params.set('supplierId', supplierId);
+      if (useSalesVelocity) {
+        params.set('useSalesVelocity', 'true');
+        params.set('velocityDays', velocityDays);
+        params.set('coverDays', coverDays);
+      }
+      const res = await fetch(`/api/inventory/replenishment?${params.toString()}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to load suggestions');
+        setSuggestions([]);
+        return;
+      }
+      setError('');
+      setSuggestions(data);
+      setSelected(Object.fromEntries(data.filter((s: Suggestion) => s.supplierId).map((s: Suggestion) => [s.inventoryId, true])));
+      setQuantities(Object.fromEntries(data.map((s: Suggestion) => [s.inventoryId, String(s.suggestedQuantity)])));
+    } catch (err) {
+      console.error('Error fetching reorder suggestions:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      try {
+        const [locationsRes, suppliersRes] = await Promise.all([
+          fetch('/api/inventory/locations'),
+          fetch('/api/suppliers'),
+        ]);
+        if (locationsRes.ok) setLocations(await locationsRes.json());
+        if (suppliersRes.ok) setSuppliers(await suppliersRes.json());
+      } catch (err) {
+        console.error('Error fetching reorder options:', err);
+      }
+    };
+    fetchOptions();
+  }, []);
+
+  useEffect(() => {
+    fetchSuggestions();
+  }, [locationId, supplierId, useSalesVelocity]);
+
+  const handleCreate = async () => {
+    const lines = suggestions
+      .filter(s => selected[s.inventoryId])
+      .map(s => ({ inventoryId: s.inventoryId, quantity: parseFloat(quantities[s.inventoryId]) }));
+    if (lines.length === 0) {
+      setError('Select at least one item to order');
+      return;
+    }
+
+    setCreating(true);
+    setError('');
+    try {
+      const res = await fetch('/api/inventory/replenishment', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          locationId: locationId || null,
+          supplierId: supplierId || null,
+          useSalesVelocity,
+          velocityDays,
+          coverDays,
+          lines,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to create purchase orders');
+        return;
+      }
+      if (data.skipped?.length > 0) {
+        alert(`${data.purchaseOrders.length} draft purchase order(s) created; ${data.skipped.length} item(s) skipped.`);
+      }
+      router.push('/orders/purchase');
+    } catch (err) {
+      console.error('Error creating purchase orders:', err);
+      setError('Failed to create purchase orders');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const selectedCount = suggestions.filter(s => selected[s.inventoryId]).length;
+
+  return (
+    <div className="p-4">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">🛒 Reorder Suggestions</h1>
+        <div className="flex gap-2">
+          <Link href="/orders/purchase" className="px-4 py-2 bg-gray-200 rounded-lg hover:bg-gray-300">
+            Purchase Orders
+          </Link>
+          <button
+            onClick={handleCreate}
+            disabled={creating || selectedCount === 0}
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+          >
+            {creating ? 'Creating...' : `Create Draft POs (${selectedCount})`}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-4 items-end mb-4">
+        <div>
+          <label className="block text-sm font-medium mb-1">Location</label>
+          <select value={locationId} onChange={(e) => setLocationId(e.target.value)} className="p-2 border rounded">
+            <option value="">All Locations</option>
+            {locations.map(location => (
+              <option key={location.id} value={location.id}>{location.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Supplier</label>
+          <select value={supplierId} onChange={(e) => setSupplierId(e.target.value)} className="p-2 border rounded">
+            <option value="">All Suppliers</option>
+            {suppliers.map(supplier => (
+              <option key={supplier.id} value={supplier.id}>{supplier.companyName || supplier.name}</option>
+            ))}
+          </select>
+        </div>
+        <label className="flex items-center gap-2 p-2">
+          <input type="checkbox" checked={useSalesVelocity} onChange={(e) => setUseSalesVelocity(e.target.checked)} />
+          Use sales velocity
+        </label>
+        {useSalesVelocity && (
+          <>
+            <div>
+              <label className="block text-sm font-medium mb-1">Sales history (days)</label>
+              <input type="number" min="1" value={velocityDays} onChange={(e) => setVelocityDays(e.target.value)} className="p-2 border rounded w-28" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Target cover (days)</label>
+              <input type="number" min="1" value={coverDays} onChange={(e) => setCoverDays(e.target.value)} className="p-2 border rounded w-28" />
+            </div>
+            <button onClick={fetchSuggestions} className="px-4 py-2 bg-gray-200 rounded-lg hover:bg-gray-300">
+              Recalculate
+            </button>
+          </>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-700 rounded">{error}</div>
+      )}
+
+      {loading ? (
+        <div>Loading...</div>
+      ) : (
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="border p-2"></th>
+              <th className="border p-2 text-left">Product</th>
+              <th className="border p-2 text-left">Location</th>
+              <th className="border p-2 text-left">Supplier</th>
+              <th className="border p-2 text-right">Available</th>
+              <th className="border p-2 text-right">On Order</th>
+              <th className="border p-2 text-right">Reorder Point</th>
+              {useSalesVelocity && <th className="border p-2 text-right">Days of Cover</th>}
+              <th className="border p-2 text-right">Order</th>
+              <th className="border p-2 text-right">Est. Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {suggestions.length > 0 ? suggestions.map(suggestion => (
+              <tr key={suggestion.inventoryId}>
+                <td className="border p-2 text-center">
+                  <input
+                    type="checkbox"
+                    checked={!!selected[suggestion.inventoryId]}
+                    disabled={!suggestion.supplierId}
+                    onChange={(e) => setSelected({ ...selected, [suggestion.inventoryId]: e.target.checked })}
+                  />
+                </td>
+                <td className="border p-2">
+                  <div>{suggestion.productName}{suggestion.variantTitle && ` - ${suggestion.variantTitle}`}</div>
+                  <div className="text-xs text-gray-500">
+                    {suggestion.sku || 'No SKU'} · {suggestion.reason === 'reorder_point' ? 'At reorder point' : 'Low cover'}
+                  </div>
+                </td>
+                <td className="border p-2">{suggestion.locationName}</td>
+                <td className="border p-2">
+                  {suggestion.supplierName || <span className="text-red-600 text-sm">No supplier</span>}
+                </td>
+                <td className="border p-2 text-right">{formatAmount(suggestion, suggestion.available)}</td>
+                <td className="border p-2 text-right">{formatAmount(suggestion, suggestion.onOrder)}</td>
+                <td className="border p-2 text-right">{formatAmount(suggestion, suggestion.reorderPoint)}</td>
+                {useSalesVelocity && (
+                  <td className="border p-2 text-right">{suggestion.daysOfCover ?? '-'}</td>
+                )}
+                <td className="border p-2 text-right">
+                  <input
+                    type="number"
+                    min="0"
+                    step={suggestion.isWeightBased ? '0.01' : '1'}
+                    value={quantities[suggestion.inventoryId] || ''}
+                    onChange={(e) => setQuantities({ ...quantities, [suggestion.inventoryId]: e.target.value })}
+                    className="p-1 border rounded w-24 text-right"
+                  />
+                  {suggestion.isWeightBased && <span className="ml-1 text-xs text-gray-500">g</span>}
+                </td>
+                <td className="border p-2 text-right">
+                  {suggestion.unitCost !== null
+                    ? (suggestion.unitCost * (parseFloat(quantities[suggestion.inventoryId]) || 0) / (suggestion.isWeightBased ? 1000 : 1)).toFixed(2)
+                    : '-'}
+                </td>
+              </tr>
+            )) : (
+              <tr>
+                <td colSpan={useSalesVelocity ? 10 : 9} className="border p-4 text-center text-gray-500">
+                  Nothing needs reordering
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
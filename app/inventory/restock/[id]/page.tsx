@@ -15,7 +15,9 @@ export default function RestockInventory() {
     cost: '',
     supplier: '',
     notes: '',
-    location: ''
+    location: '',
+    lotNumber: '',
+    expiryDate: ''
   });
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
@@ -67,6 +69,8 @@ export default function RestockInventory() {
         lastRestockDate: new Date().toISOString(),
         supplier: restockData.supplier || inventory.inventory.supplier,
         location: restockData.location || inventory.inventory.location,
+        lotNumber: restockData.lotNumber || undefined,
+        expiryDate: restockData.lotNumber ? restockData.expiryDate || undefined : undefined,
         restockRecord: {
           quantity: parseInt(restockData.quantity),
           reason: restockData.reason,
@@ -265,6 +269,36 @@ export default function RestockInventory() {
                       className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                     />
                   </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2" htmlFor="lotNumber">
+                      Lot / Batch Number
+                    </label>
+                    <input
+                      type="text"
+                      id="lotNumber"
+                      name="lotNumber"
+                      value={restockData.lotNumber}
+                      onChange={handleChange}
+                      className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      placeholder="Leave empty for untracked stock"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2" htmlFor="expiryDate">
+                      Expiry Date
+                    </label>
+                    <input
+                      type="date"
+                      id="expiryDate"
+                      name="expiryDate"
+                      value={restockData.expiryDate}
+                      onChange={handleChange}
+                      disabled={!restockData.lotNumber}
+                      className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+                    />
+                  </div>
                 </div>
 
                 <div>
@@ -20,12 +20,16 @@ export default function AddStockMovement() {
     movementType: 'in',
     quantity: 0,
     reason: '',
+    locationId: '',
     location: '',
     reference: '',
     notes: '',
     costPrice: 0,
     supplier: '',
     supplierId: '',
+    // Lot tracking (Stock In)
+    lotNumber: '',
+    expiryDate: '',
     // Weight-based fields
     weightQuantity: '',
     weightUnit: 'grams' as 'grams' | 'kg'
@@ -34,6 +38,7 @@ export default function AddStockMovement() {
   const [products, setProducts] = useState([]);
   const [variants, setVariants] = useState([]);
   const [suppliers, setSuppliers] = useState([]);
+  const [locations, setLocations] = useState<any[]>([]);
   const [selectedProduct, setSelectedProduct] = useState<any>(null);
   const [currentInventory, setCurrentInventory] = useState<any>(null);
   const [loading, setLoading] = useState(true);
@@ -90,13 +95,14 @@ export default function AddStockMovement() {
       setSelectedProduct(null);
       setCurrentInventory(null);
     }
-  }, [formData.productId, formData.variantId, products]);
+  }, [formData.productId, formData.variantId, formData.locationId, products]);
 
   const fetchProducts = async () => {
     try {
-      const [productsRes, suppliersRes] = await Promise.all([
+      const [productsRes, suppliersRes, locationsRes] = await Promise.all([
         fetch('/api/products'),
         fetch('/api/suppliers'),
+        fetch('/api/inventory/locations'),
       ]);
       
       if (productsRes.ok) {
@@ -108,6 +114,15 @@ export default function AddStockMovement() {
         const suppliersData = await suppliersRes.json();
         setSuppliers(suppliersData.filter((s: any) => s.isActive));
       }
+
+      if (locationsRes.ok) {
+        const locationsData = await locationsRes.json();
+        setLocations(locationsData);
+        const defaultLocation = locationsData.find((l: any) => l.isDefault) || locationsData[0];
+        if (defaultLocation) {
+          setFormData(prev => ({ ...prev, locationId: prev.locationId || defaultLocation.id }));
+        }
+      }
     } catch (err) {
       console.error('Error fetching data:', err);
       setError('Failed to load data');
@@ -131,8 +146,14 @@ export default function AddStockMovement() {
       const response = await fetch('/api/inventory');
       const data = await response.json();
       
-      // Find current inventory for the selected product/variant
+      // Rows without a location belong to the default location
+      const defaultLocationId = locations.find((l: any) => l.isDefault)?.id;
+
+      // Find current inventory for the selected product/variant at the selected location
       const inventory = data.find((item: any) => {
+        if ((item.inventory.locationId || defaultLocationId) !== formData.locationId) {
+          return false;
+        }
         if (formData.variantId) {
           return item.inventory.variantId === formData.variantId;
         } else {
@@ -266,6 +287,9 @@ export default function AddStockMovement() {
         ...formData,
         variantId: formData.variantId || null,
         supplierId: formData.supplierId || null,
+        // Lots are only booked on Stock In
+        lotNumber: formData.movementType === 'in' ? formData.lotNumber : '',
+        expiryDate: formData.movementType === 'in' && formData.lotNumber ? formData.expiryDate : '',
         // Add weight fields if it's a weight-based product
         ...(isWeightBased && {
           weightQuantity: parseFloat(formData.weightQuantity),
@@ -524,9 +548,29 @@ export default function AddStockMovement() {
                   </select>
                 </div>
 
+                <div>
+                  <label className="block text-gray-700 mb-2" htmlFor="locationId">
+                    Warehouse / Store
+                  </label>
+                  <select
+                    id="locationId"
+                    name="locationId"
+                    value={formData.locationId}
+                    onChange={handleChange}
+                    className="w-full p-2 border rounded focus:border-blue-500 focus:outline-none"
+                    required
+                  >
+                    {locations.map((location: any) => (
+                      <option key={location.id} value={location.id}>
+                        {location.name} ({location.code})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
                 <div>
                   <label className="block text-gray-700 mb-2" htmlFor="location">
-                    Location
+                    Bin / Shelf
                   </label>
                   <input
                     type="text"
@@ -535,7 +579,7 @@ export default function AddStockMovement() {
                     value={formData.location}
                     onChange={handleChange}
                     className="w-full p-2 border rounded focus:border-blue-500 focus:outline-none"
-                    placeholder="Warehouse, shelf, etc."
+                    placeholder="Aisle, shelf, bin, etc."
                   />
                 </div>
 
@@ -602,6 +646,39 @@ export default function AddStockMovement() {
                         Optional field. <Link href="/suppliers/add" className="text-blue-500 hover:underline">Add new supplier</Link> if needed.
                       </p>
                     </div>
+
+                    <div>
+                      <label className="block text-gray-700 mb-2" htmlFor="lotNumber">
+                        Lot / Batch Number
+                      </label>
+                      <input
+                        type="text"
+                        id="lotNumber"
+                        name="lotNumber"
+                        value={formData.lotNumber}
+                        onChange={handleChange}
+                        className="w-full p-2 border rounded focus:border-blue-500 focus:outline-none"
+                        placeholder="Leave empty for untracked stock"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-gray-700 mb-2" htmlFor="expiryDate">
+                        Expiry Date
+                      </label>
+                      <input
+                        type="date"
+                        id="expiryDate"
+                        name="expiryDate"
+                        value={formData.expiryDate}
+                        onChange={handleChange}
+                        className="w-full p-2 border rounded focus:border-blue-500 focus:outline-none"
+                        disabled={!formData.lotNumber}
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Stock out takes the earliest-expiring lots first.
+                      </p>
+                    </div>
                   </>
                 )}
               </div>
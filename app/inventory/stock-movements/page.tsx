@@ -7,7 +7,7 @@ interface StockMovement {
   id: string;
   productName: string;
   variantTitle?: string;
-  movementType: 'in' | 'out' | 'adjustment';
+  movementType: 'in' | 'out' | 'adjustment' | 'write_off';
   quantity: number;
   previousQuantity?: number;
   newQuantity?: number;
@@ -166,6 +166,7 @@ export default function StockMovements() {
       case 'in': return '📈';
       case 'out': return '📉';
       case 'adjustment': return '🔧';
+      case 'write_off': return '🗑️';
       default: return '📦';
     }
   };
@@ -175,6 +176,7 @@ export default function StockMovements() {
       case 'in': return 'text-green-600 bg-green-100';
       case 'out': return 'text-red-600 bg-red-100';
       case 'adjustment': return 'text-blue-600 bg-blue-100';
+      case 'write_off': return 'text-orange-600 bg-orange-100';
       default: return 'text-gray-600 bg-gray-100';
     }
   };
@@ -305,6 +307,7 @@ export default function StockMovements() {
               <option value="in">Stock In</option>
               <option value="out">Stock Out</option>
               <option value="adjustment">Adjustments</option>
+              <option value="write_off">Write-offs</option>
             </select>
           </div>
           <div>
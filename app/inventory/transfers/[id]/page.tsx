@@ -0,0 +1,170 @@
+'use client';
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { formatWeightAuto, isWeightBasedProduct } from '@/utils/weightUtils';
+
+const STATUS_COLORS: Record<string, string> = {
+  draft: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+};
+
+export default function StockTransferDetails() {
+  const params = useParams();
+  const id = params.id as string;
+  const [details, setDetails] = useState<any>(null);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchTransfer = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/inventory/transfers/${id}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Transfer not found');
+        return;
+      }
+      setDetails(data);
+    } catch (err) {
+      console.error('Error fetching transfer:', err);
+      setError('Failed to load transfer');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTransfer();
+  }, [id]);
+
+  const handleAction = async (action: 'complete' | 'cancel') => {
+    const message = action === 'complete'
+      ? 'Complete this transfer? Stock will be moved between the locations.'
+      : 'Cancel this transfer?';
+    if (!confirm(message)) return;
+
+    setUpdating(true);
+    setError('');
+    try {
+      const res = await fetch(`/api/inventory/transfers/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || `Failed to ${action} transfer`);
+        return;
+      }
+      await fetchTransfer();
+    } catch (err) {
+      console.error(`Error trying to ${action} transfer:`, err);
+      setError(`Failed to ${action} transfer`);
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  if (loading) return <div>Loading...</div>;
+
+  if (!details) {
+    return (
+      <div className="p-4">
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-700 rounded">{error || 'Transfer not found'}</div>
+        <Link href="/inventory/transfers" className="text-blue-600 hover:underline">Back to Transfers</Link>
+      </div>
+    );
+  }
+
+  const { transfer, fromLocation, toLocation, items } = details;
+
+  return (
+    <div className="p-4 max-w-4xl">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">Transfer {transfer.transferNumber}</h1>
+          <div className="text-sm text-gray-600">
+            {fromLocation?.name || 'Unknown'} → {toLocation?.name || 'Unknown'}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className={`px-3 py-1 rounded text-sm capitalize ${STATUS_COLORS[transfer.status] || 'bg-gray-100 text-gray-800'}`}>
+            {transfer.status}
+          </span>
+          <Link href="/inventory/transfers" className="px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600">
+            Back
+          </Link>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-700 rounded">{error}</div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6 text-sm">
+        <div className="p-4 border rounded">
+          <div className="text-gray-500">Created</div>
+          <div>{transfer.createdAt ? new Date(transfer.createdAt).toLocaleString() : '-'}</div>
+        </div>
+        <div className="p-4 border rounded">
+          <div className="text-gray-500">{transfer.status === 'cancelled' ? 'Cancelled' : 'Completed'}</div>
+          <div>
+            {transfer.completedAt
+              ? new Date(transfer.completedAt).toLocaleString()
+              : transfer.cancelledAt ? new Date(transfer.cancelledAt).toLocaleString() : '-'}
+          </div>
+        </div>
+        <div className="p-4 border rounded">
+          <div className="text-gray-500">Notes</div>
+          <div>{transfer.notes || '-'}</div>
+        </div>
+      </div>
+
+      <table className="w-full border-collapse mb-6">
+        <thead>
+          <tr className="bg-gray-100">
+            <th className="border p-2 text-left">Item</th>
+            <th className="border p-2 text-right">Quantity</th>
+          </tr>
+        </thead>
+        <tbody>
+          {items.map((item: any) => (
+            <tr key={item.id}>
+              <td className="border p-2">
+                <div className="font-medium">{item.productName}</div>
+                {item.variantTitle && <div className="text-sm text-gray-500">{item.variantTitle}</div>}
+              </td>
+              <td className="border p-2 text-right">
+                {isWeightBasedProduct(item.stockManagementType)
+                  ? formatWeightAuto(parseFloat(item.weightQuantity || '0')).formattedString
+                  : item.quantity}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {transfer.status === 'draft' && (
+        <div className="flex gap-2">
+          <button
+            onClick={() => handleAction('complete')}
+            disabled={updating}
+            className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 disabled:opacity-50"
+          >
+            Complete Transfer
+          </button>
+          <button
+            onClick={() => handleAction('cancel')}
+            disabled={updating}
+            className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 disabled:opacity-50"
+          >
+            Cancel Transfer
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
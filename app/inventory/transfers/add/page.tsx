@@ -0,0 +1,331 @@
+'use client';
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { convertToGrams, formatWeightAuto, isWeightBasedProduct } from '@/utils/weightUtils';
+
+interface InventoryLocation {
+  id: string;
+  name: string;
+  code: string;
+  isDefault: boolean;
+}
+
+// One product/variant with stock at the source location
+interface TransferableLine {
+  key: string;
+  productId: string;
+  variantId: string | null;
+  productName: string;
+  variantTitle: string | null;
+  isWeightBased: boolean;
+  available: number; // units, or grams for weight-based products
+}
+
+interface SelectedLine {
+  amount: string;
+  weightUnit: 'grams' | 'kg';
+}
+
+export default function AddStockTransfer() {
+  const router = useRouter();
+  const [locations, setLocations] = useState<InventoryLocation[]>([]);
+  const [fromLocationId, setFromLocationId] = useState('');
+  const [toLocationId, setToLocationId] = useState('');
+  const [lines, setLines] = useState<TransferableLine[]>([]);
+  const [selected, setSelected] = useState<Record<string, SelectedLine>>({});
+  const [search, setSearch] = useState('');
+  const [notes, setNotes] = useState('');
+  const [completeNow, setCompleteNow] = useState(true);
+  const [loadingStock, setLoadingStock] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchLocations = async () => {
+      try {
+        const res = await fetch('/api/inventory/locations');
+        const data = await res.json();
+        if (!res.ok) {
+          setError(data.error || 'Failed to load locations');
+          return;
+        }
+        setLocations(data);
+        const defaultLocation = data.find((l: InventoryLocation) => l.isDefault) || data[0];
+        if (defaultLocation) setFromLocationId(defaultLocation.id);
+      } catch (err) {
+        console.error('Error fetching locations:', err);
+        setError('Failed to load locations');
+      }
+    };
+    fetchLocations();
+  }, []);
+
+  useEffect(() => {
+    if (!fromLocationId) return;
+
+    const fetchSourceStock = async () => {
+      setLoadingStock(true);
+      setSelected({});
+      try {
+        const res = await fetch(`/api/inventory/listing?locationId=${encodeURIComponent(fromLocationId)}`);
+        const data = await res.json();
+        if (!res.ok) {
+          setError(data.error || 'Failed to load stock');
+          return;
+        }
+
+        const available: TransferableLine[] = [];
+        for (const item of data) {
+          const isWeightBased = isWeightBasedProduct(item.stockManagementType || 'quantity');
+          const stockRows = item.productType === 'variable'
+            ? (item.variants || []).map((variant: any) => ({ ...variant, stock: variant }))
+            : item.simpleStock ? [{ variantId: null, variantTitle: null, stock: item.simpleStock }] : [];
+
+          for (const row of stockRows) {
+            const amount = isWeightBased ? row.stock.availableWeight : row.stock.availableStock;
+            if (amount > 0) {
+              available.push({
+                key: `${item.productId}:${row.variantId || ''}`,
+                productId: item.productId,
+                variantId: row.variantId,
+                productName: item.productName,
+                variantTitle: row.variantTitle,
+                isWeightBased,
+                available: amount,
+              });
+            }
+          }
+        }
+        setLines(available);
+      } catch (err) {
+        console.error('Error fetching source stock:', err);
+        setError('Failed to load stock');
+      } finally {
+        setLoadingStock(false);
+      }
+    };
+    fetchSourceStock();
+  }, [fromLocationId]);
+
+  const toggleLine = (line: TransferableLine, checked: boolean) => {
+    const next = { ...selected };
+    if (checked) {
+      next[line.key] = { amount: line.isWeightBased ? '' : '1', weightUnit: 'grams' };
+    } else {
+      delete next[line.key];
+    }
+    setSelected(next);
+  };
+
+  const updateLine = (key: string, updates: Partial<SelectedLine>) => {
+    setSelected({ ...selected, [key]: { ...selected[key], ...updates } });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!toLocationId || toLocationId === fromLocationId) {
+      setError('Choose a destination different from the source');
+      return;
+    }
+
+    const items = [];
+    for (const line of lines) {
+      const entry = selected[line.key];
+      if (!entry) continue;
+
+      const amount = parseFloat(entry.amount);
+      const requested = line.isWeightBased ? convertToGrams(amount || 0, entry.weightUnit) : amount;
+      if (!requested || requested <= 0) {
+        setError(`Enter an amount for ${line.productName}`);
+        return;
+      }
+      if (requested > line.available) {
+        setError(`Only ${line.isWeightBased ? formatWeightAuto(line.available).formattedString : line.available} of ${line.productName} is available`);
+        return;
+      }
+
+      items.push(line.isWeightBased
+        ? { productId: line.productId, variantId: line.variantId, weightQuantity: requested }
+        : { productId: line.productId, variantId: line.variantId, quantity: requested });
+    }
+
+    if (items.length === 0) {
+      setError('Select at least one item to transfer');
+      return;
+    }
+
+    setSubmitting(true);
+    setError('');
+    try {
+      const res = await fetch('/api/inventory/transfers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fromLocationId, toLocationId, items, notes, complete: completeNow }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to create transfer');
+        return;
+      }
+      router.push(`/inventory/transfers/${data.id}`);
+    } catch (err) {
+      console.error('Error creating transfer:', err);
+      setError('Failed to create transfer');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const visibleLines = lines.filter(line =>
+    !search ||
+    line.productName.toLowerCase().includes(search.toLowerCase()) ||
+    (line.variantTitle || '').toLowerCase().includes(search.toLowerCase())
+  );
+
+  return (
+    <div className="p-4 max-w-5xl">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">New Stock Transfer</h1>
+        <Link href="/inventory/transfers" className="px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600">
+          Back to Transfers
+        </Link>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-700 rounded">{error}</div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block mb-1 font-medium">From *</label>
+            <select
+              value={fromLocationId}
+              onChange={(e) => setFromLocationId(e.target.value)}
+              className="w-full p-2 border rounded"
+              required
+            >
+              {locations.map(location => (
+                <option key={location.id} value={location.id}>{location.name} ({location.code})</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block mb-1 font-medium">To *</label>
+            <select
+              value={toLocationId}
+              onChange={(e) => setToLocationId(e.target.value)}
+              className="w-full p-2 border rounded"
+              required
+            >
+              <option value="">Select destination</option>
+              {locations.filter(location => location.id !== fromLocationId).map(location => (
+                <option key={location.id} value={location.id}>{location.name} ({location.code})</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search products..."
+            className="w-full p-2 border rounded mb-2"
+          />
+          <div className="overflow-x-auto max-h-[28rem] overflow-y-auto border rounded">
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="bg-gray-100">
+                  <th className="border p-2 text-left">Move</th>
+                  <th className="border p-2 text-left">Item</th>
+                  <th className="border p-2 text-right">Available at Source</th>
+                  <th className="border p-2 text-left">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {loadingStock ? (
+                  <tr><td colSpan={4} className="border p-4 text-center text-gray-500">Loading stock...</td></tr>
+                ) : visibleLines.length === 0 ? (
+                  <tr><td colSpan={4} className="border p-4 text-center text-gray-500">No stock available at this location</td></tr>
+                ) : visibleLines.map(line => {
+                  const entry = selected[line.key];
+                  return (
+                    <tr key={line.key}>
+                      <td className="border p-2">
+                        <input
+                          type="checkbox"
+                          checked={!!entry}
+                          onChange={(e) => toggleLine(line, e.target.checked)}
+                        />
+                      </td>
+                      <td className="border p-2">
+                        <div className="font-medium">{line.productName}</div>
+                        {line.variantTitle && <div className="text-sm text-gray-500">{line.variantTitle}</div>}
+                      </td>
+                      <td className="border p-2 text-right">
+                        {line.isWeightBased ? formatWeightAuto(line.available).formattedString : line.available}
+                      </td>
+                      <td className="border p-2">
+                        {entry && (
+                          <div className="flex gap-2">
+                            <input
+                              type="number"
+                              min={line.isWeightBased ? 0.001 : 1}
+                              step={line.isWeightBased ? '0.001' : '1'}
+                              max={line.isWeightBased ? undefined : line.available}
+                              value={entry.amount}
+                              onChange={(e) => updateLine(line.key, { amount: e.target.value })}
+                              className="w-28 p-1 border rounded"
+                              required
+                            />
+                            {line.isWeightBased && (
+                              <select
+                                value={entry.weightUnit}
+                                onChange={(e) => updateLine(line.key, { weightUnit: e.target.value as 'grams' | 'kg' })}
+                                className="p-1 border rounded"
+                              >
+                                <option value="grams">g</option>
+                                <option value="kg">kg</option>
+                              </select>
+                            )}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div>
+          <label className="block mb-1 font-medium">Notes</label>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className="w-full p-2 border rounded"
+            rows={2}
+          />
+        </div>
+
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={completeNow} onChange={(e) => setCompleteNow(e.target.checked)} />
+          Complete now (move the stock immediately instead of saving a draft)
+        </label>
+
+        <button
+          type="submit"
+          disabled={submitting}
+          className="px-6 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+        >
+          {submitting ? 'Saving...' : completeNow ? 'Transfer Stock' : 'Save Draft'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+'use client';
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+
+const STATUS_COLORS: Record<string, string> = {
+  draft: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+};
+
+export default function StockTransfers() {
+  const [transfers, setTransfers] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState('');
+  const [error, setError] = useState('');
+
+  const fetchTransfers = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/inventory/transfers${statusFilter ? `?status=${statusFilter}` : ''}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to load transfers');
+        setTransfers([]);
+        return;
+      }
+      setError('');
+      setTransfers(data);
+    } catch (err) {
+      console.error('Error fetching transfers:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTransfers();
+  }, [statusFilter]);
+
+  const handleAction = async (id: string, action: 'complete' | 'cancel') => {
+    const message = action === 'complete'
+      ? 'Complete this transfer? Stock will be moved between the locations.'
+      : 'Cancel this transfer?';
+    if (!confirm(message)) return;
+
+    try {
+      const res = await fetch(`/api/inventory/transfers/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(`Failed to ${action} transfer: ${data.error}`);
+        return;
+      }
+      await fetchTransfers();
+    } catch (err) {
+      console.error(`Error trying to ${action} transfer:`, err);
+    }
+  };
+
+  if (loading) return <div>Loading...</div>;
+
+  return (
+    <div className="p-4">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">🚚 Stock Transfers</h1>
+        <div className="flex gap-2">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="p-2 border rounded"
+          >
+            <option value="">All Statuses</option>
+            <option value="draft">Draft</option>
+            <option value="completed">Completed</option>
+            <option value="cancelled">Cancelled</option>
+          </select>
+          <Link href="/inventory/transfers/add" className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600">
+            New Transfer
+          </Link>
+          <Link href="/inventory/locations" className="px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600">
+            Locations
+          </Link>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-700 rounded">{error}</div>
+      )}
+
+      <table className="w-full border-collapse">
+        <thead>
+          <tr className="bg-gray-100">
+            <th className="border p-2 text-left">Transfer #</th>
+            <th className="border p-2 text-left">From</th>
+            <th className="border p-2 text-left">To</th>
+            <th className="border p-2 text-right">Lines</th>
+            <th className="border p-2 text-left">Status</th>
+            <th className="border p-2 text-left">Created</th>
+            <th className="border p-2 text-left">Actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {transfers.length > 0 ? transfers.map(transfer => (
+            <tr key={transfer.id}>
+              <td className="border p-2 font-mono">
+                <Link href={`/inventory/transfers/${transfer.id}`} className="text-blue-600 hover:underline">
+                  {transfer.transferNumber}
+                </Link>
+              </td>
+              <td className="border p-2">{transfer.fromLocationName || '-'}</td>
+              <td className="border p-2">{transfer.toLocationName || '-'}</td>
+              <td className="border p-2 text-right">{transfer.itemCount}</td>
+              <td className="border p-2">
+                <span className={`px-2 py-1 rounded text-sm capitalize ${STATUS_COLORS[transfer.status] || 'bg-gray-100 text-gray-800'}`}>
+                  {transfer.status}
+                </span>
+              </td>
+              <td className="border p-2">{transfer.createdAt ? new Date(transfer.createdAt).toLocaleDateString() : '-'}</td>
+              <td className="border p-2">
+                <div className="flex gap-2">
+                  <Link
+                    href={`/inventory/transfers/${transfer.id}`}
+                    className="px-2 py-1 bg-gray-500 text-white rounded hover:bg-gray-600 text-sm"
+                  >
+                    View
+                  </Link>
+                  {transfer.status === 'draft' && (
+                    <>
+                      <button
+                        onClick={() => handleAction(transfer.id, 'complete')}
+                        className="px-2 py-1 bg-green-500 text-white rounded hover:bg-green-600 text-sm"
+                      >
+                        Complete
+                      </button>
+                      <button
+                        onClick={() => handleAction(transfer.id, 'cancel')}
+                        className="px-2 py-1 bg-red-500 text-white rounded hover:bg-red-600 text-sm"
+                      >
+                        Cancel
+                      </button>
+                    </>
+                  )}
+                </div>
+              </td>
+            </tr>
+          )) : (
+            <tr>
+              <td colSpan={7} className="border p-6 text-center text-gray-500">No transfers found</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
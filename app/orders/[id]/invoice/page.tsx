@@ -20,11 +20,13 @@ import {
   CreditCard,
   Phone,
   Mail,
-  MapPin
+  MapPin,
+  Download
 } from 'lucide-react';
 import CurrencySymbol from '../../../components/CurrencySymbol';
 import { formatWeightAuto } from '@/utils/weightUtils';
 import { useCurrency } from '@/app/contexts/CurrencyContext';
+import { generateFbrQrDataUrl } from '@/lib/fbr/qr';
 
 export default function OrderInvoice() {
   const params = useParams();
@@ -35,6 +37,8 @@ export default function OrderInvoice() {
   const [addons, setAddons] = useState<any[]>([]);
   const [sellerInfo, setSellerInfo] = useState<any>(null);
   const [logoUrl, setLogoUrl] = useState<string>('');
+  const [noteChain, setNoteChain] = useState<any>(null);
+  const [qrCodeDataUrl, setQrCodeDataUrl] = useState<string>('');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [debugJson, setDebugJson] = useState<{
@@ -51,8 +55,54 @@ export default function OrderInvoice() {
     fetchAddons();
     fetchSellerInfo();
     fetchLogo();
+    fetchNoteChain();
   }, [orderId]);
 
+  // FBR requires a QR code of the invoice on printed invoices
+  useEffect(() => {
+    if (!order?.invoiceNumber) return;
+    const items = (order.items || []).map((item: any) => {
+      const quantity = item.isWeightBased && item.weightQuantity ? 1 : (Number(item.quantity) || 1);
+      const valueExcludingST = (Number(item.priceExcludingTax) || 0) * quantity;
+      const salesTax = (Number(item.taxAmount) || 0) * quantity;
+      const furtherTax = Number(item.furtherTax) || 0;
+      const extraTax = Number(item.extraTax) || 0;
+      const fedPayable = Number(item.fedPayableTax) || 0;
+      return {
+        hsCode: item.hsCode || '',
+        rate: Number(item.taxPercentage) > 0 ? `${Number(item.taxPercentage)}%` : '',
+        valueExcludingST,
+        salesTax,
+        furtherTax,
+        extraTax,
+        fedPayable,
+        total: valueExcludingST + salesTax + furtherTax + extraTax + fedPayable - (Number(item.discount) || 0),
+      };
+    });
+
+    generateFbrQrDataUrl({
+      invoiceNumber: order.invoiceNumber,
+      invoiceDate: (order.invoiceDate || order.createdAt || '').toString().split('T')[0] || null,
+      sellerNTNCNIC: sellerInfo?.fbrSellerNTNCNIC,
+      buyerNTNCNIC: order.buyerNTNCNIC || order.user?.buyerNTNCNIC,
+      scenarioId: order.scenarioId,
+      items,
+    }, 300)
+      .then(setQrCodeDataUrl)
+      .catch(err => console.error('Failed to generate FBR QR code:', err));
+  }, [order, sellerInfo?.fbrSellerNTNCNIC]);
+
+  const fetchNoteChain = async () => {
+    try {
+      const res = await fetch(`/api/fbr/notes?orderId=${orderId}`);
+      if (res.ok) {
+        setNoteChain(await res.json());
+      }
+    } catch (err) {
+      console.error('Error fetching FBR notes:', err);
+    }
+  };
+
   const fetchOrderData = async () => {
     try {
       setLoading(true);
@@ -466,6 +516,12 @@ export default function OrderInvoice() {
               filter: drop-shadow(0 2px 4px rgba(0,0,0,0.1));
             }
             
+            .fbr-logos img.fbr-qr {
+              width: 1in;
+              height: 1in;
+              filter: none;
+            }
+            
             .totals-box {
               background: linear-gradient(135deg, #1e293b 0%, #334155 100%);
               color: white;
@@ -635,6 +691,8 @@ export default function OrderInvoice() {
             <div class="info-box">
               <h3>Invoice Information</h3>
               ${order.invoiceDate ? `<p>Invoice Date: ${formatDateTime(order.invoiceDate)}</p>` : ''}
+              ${order.invoiceType ? `<p>Invoice Type: ${order.invoiceType}</p>` : ''}
+              ${order.scenarioId ? `<p>Scenario: ${order.scenarioId}${orderItems[0]?.saleType ? ` (${orderItems[0].saleType})` : ''}</p>` : ''}
               ${order.trackingNumber ? `<p>Tracking: ${order.trackingNumber}</p>` : ''}
             </div>
           </div>
@@ -661,6 +719,7 @@ export default function OrderInvoice() {
                     <div class="product-name">${item.productName}</div>
                     ${item.variantTitle ? `<div class="product-details">Variant: ${item.variantTitle}</div>` : ''}
                     ${item.sku ? `<div class="product-details">SKU: ${item.sku}</div>` : ''}
+                    ${item.hsCode ? `<div class="product-details">HS Code: ${item.hsCode}${item.uom ? ` · UOM: ${item.uom}` : ''}</div>` : ''}
                     ${item.isWeightBased && item.weightQuantity ? `<div class="product-details">Weight: ${formatWeightAuto(item.weightQuantity).formattedString}</div>` : ''}
                   </td>
                   <td class="text-center">
@@ -751,6 +810,7 @@ export default function OrderInvoice() {
             <div class="fbr-logos">
               <img src="/digital-invoicing-logo.webp" alt="FBR Digital Invoicing" />
               <img src="/fbr-pakistan-logo.png" alt="FBR Pakistan" />
+              ${qrCodeDataUrl ? `<img src="${qrCodeDataUrl}" alt="FBR Invoice QR Code" class="fbr-qr" />` : ''}
             </div>
             ` : '<div></div>'}
             
@@ -1035,6 +1095,16 @@ export default function OrderInvoice() {
               <Printer className="h-4 w-4 mr-2" />
               Print Invoice
             </Button>
+
+            <Button
+              variant="outline"
+              size="lg"
+              className="shadow-md hover:shadow-lg transition-shadow"
+              onClick={() => window.open(`/api/orders/${orderId}/invoice/pdf`, '_blank')}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Download PDF
+            </Button>
             
             {/* Debug JSON Button */}
             <Dialog>
@@ -1313,6 +1383,20 @@ export default function OrderInvoice() {
                         <span className='text-sm text-gray-500'>{formatDateTime(order.invoiceDate)}</span>
                       </div>
                     )}
+                    {order.invoiceType && (
+                      <div className="flex justify-between">
+                        <span className="text-sm text-gray-500">Invoice Type:</span>
+                        <span className="text-sm text-gray-500">{order.invoiceType}</span>
+                      </div>
+                    )}
+                    {order.scenarioId && (
+                      <div className="flex justify-between gap-4">
+                        <span className="text-sm text-gray-500">Scenario:</span>
+                        <span className="text-sm text-gray-500 text-right">
+                          {order.scenarioId}{orderItems[0]?.saleType ? ` (${orderItems[0].saleType})` : ''}
+                        </span>
+                      </div>
+                    )}
                     {order.trackingNumber && (
                       <div className="flex justify-between">
                         <span className='text-sm text-gray-500'>Tracking:</span>
@@ -1638,6 +1722,13 @@ export default function OrderInvoice() {
                       alt="FBR Pakistan" 
                       className="h-20 w-auto object-contain"
                     />
+                    {qrCodeDataUrl && (
+                      <img
+                        src={qrCodeDataUrl}
+                        alt="FBR Invoice QR Code"
+                        className="h-24 w-24"
+                      />
+                    )}
                   </div>
                 )}
                 
@@ -1719,6 +1810,64 @@ export default function OrderInvoice() {
               </div>
             </CardContent>
           </Card>
+
+          {/* FBR Invoice Chain - original invoice and debit/credit notes issued against it */}
+          {order.invoiceNumber && noteChain?.notes?.length > 0 && (
+            <Card className="mt-6 shadow-lg">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <FileText className="h-5 w-5 text-emerald-600" />
+                  FBR Invoice Chain
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Number</TableHead>
+                      <TableHead>FBR Invoice Number</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    <TableRow>
+                      <TableCell className="font-medium">{order.invoiceType || 'Sale Invoice'}</TableCell>
+                      <TableCell className="font-mono">{order.orderNumber}</TableCell>
+                      <TableCell className="font-mono">{order.invoiceNumber}</TableCell>
+                      <TableCell>{order.invoiceDate ? new Date(order.invoiceDate).toLocaleDateString() : '-'}</TableCell>
+                      <TableCell>-</TableCell>
+                      <TableCell><div className="flex justify-end">{formatAmount(noteChain.order.totalAmount)}</div></TableCell>
+                      <TableCell><Badge variant="secondary">{noteChain.order.fbrSubmissionStatus || 'posted'}</Badge></TableCell>
+                    </TableRow>
+                    {noteChain.notes.map((note: any) => (
+                      <TableRow key={note.id}>
+                        <TableCell className="font-medium pl-6">↳ {note.noteType}</TableCell>
+                        <TableCell className="font-mono">{note.noteNumber}</TableCell>
+                        <TableCell className="font-mono">{note.fbrInvoiceNumber || '-'}</TableCell>
+                        <TableCell>{new Date(note.invoiceDate).toLocaleDateString()}</TableCell>
+                        <TableCell>{note.reason || '-'}</TableCell>
+                        <TableCell><div className="flex justify-end gap-1 text-red-600">-{formatAmount(note.totalAmount)}</div></TableCell>
+                        <TableCell>
+                          <Badge variant={note.fbrSubmissionStatus === 'posted' ? 'secondary' : 'destructive'}>
+                            {note.fbrSubmissionStatus}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow>
+                      <TableCell colSpan={5} className="font-semibold text-right">Net after posted notes:</TableCell>
+                      <TableCell><div className="flex justify-end font-semibold">{formatAmount(noteChain.netAmount)}</div></TableCell>
+                      <TableCell />
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
         </div>
     </div>
   );
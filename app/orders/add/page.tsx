@@ -2,6 +2,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import CurrencySymbol from '../../components/CurrencySymbol';
+import FbrReferencePicker from '../../components/FbrReferencePicker';
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Button } from "@/components/ui/button";
@@ -26,6 +27,7 @@ import {
   getWeightUnits
 } from '@/utils/weightUtils';
 import { safeFormatPrice } from '@/utils/priceUtils';
+import { resolveStockTracking } from '@/lib/stockManagement';
 import { useCurrency } from '@/app/contexts/CurrencyContext';
 
 interface Product {
@@ -42,6 +44,7 @@ interface Product {
   hsCode?: string; // Harmonized System Code
   // Weight-based fields
   stockManagementType?: string;
+  stockTracking?: string | null;
   pricePerUnit?: number;
   baseWeightUnit?: string;
   // Tax and discount fields
@@ -68,6 +71,8 @@ interface ProductVariant {
   price: number;
   isActive: boolean;
   inventoryQuantity: number;
+  inventoryManagement?: boolean;
+  allowBackorder?: boolean;
 }
 
 interface Addon {
@@ -167,6 +172,9 @@ const formatDateForFbr = (date: Date): string => {
   return `${year}-${month}-${day}`;
 };
 
+// Matches the shadcn Input styling for the FBR reference typeahead
+const FBR_PICKER_INPUT_CLASS = "border-input flex h-9 w-full min-w-0 rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]";
+
 export default function AddOrder() {
   const router = useRouter();
   const { currentCurrency } = useCurrency();
@@ -177,6 +185,7 @@ export default function AddOrder() {
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState('');
   const [stockManagementEnabled, setStockManagementEnabled] = useState(true);
+  const [inventoryLocations, setInventoryLocations] = useState<any[]>([]);
   
   // Error scroll reference
   const errorRef = useRef<HTMLDivElement>(null);
@@ -222,8 +231,8 @@ export default function AddOrder() {
     sellerBusinessName: '',
     sellerProvince: '',
     sellerAddress: '',
-    fbrSandboxToken: '',
-    fbrBaseUrl: ''
+    fbrBaseUrl: '',
+    fbrTokenConfigured: false
   });
 
   // Email and FBR submission control checkboxes
@@ -233,7 +242,7 @@ export default function AddOrder() {
   
   // Production environment submission
   const [isProductionSubmission, setIsProductionSubmission] = useState(false);
-  const [productionToken, setProductionToken] = useState('');
+  const [productionTokenConfigured, setProductionTokenConfigured] = useState(false);
   const [showProductionConfirmation, setShowProductionConfirmation] = useState(false);
   
   // FBR invoice preview
@@ -258,6 +267,8 @@ export default function AddOrder() {
     assignedDriverId: '',
     deliveryStatus: 'pending',
     assignmentType: 'manual',
+    // Fulfilment location ('' = pick automatically per item)
+    fulfillmentLocationId: '',
     // Loyalty points fields
     pointsToRedeem: 0,
     pointsDiscountAmount: 0,
@@ -375,7 +386,6 @@ export default function AddOrder() {
   // Combobox states
   const [customerComboboxOpen, setCustomerComboboxOpen] = useState(false);
   const [productComboboxOpen, setProductComboboxOpen] = useState(false);
-  const [uomComboboxOpen, setUomComboboxOpen] = useState(false);
   
   // New user/product form data
   const [newUserData, setNewUserData] = useState({
@@ -459,8 +469,9 @@ export default function AddOrder() {
           serialNumber: product.serialNumber || '',
           listNumber: product.listNumber || '',
           bcNumber: product.bcNumber || '',
-          lotNumber: product.lotNumber || '',
-          expiryDate: product.expiryDate || '',
+          // Lot and expiry are assigned from inventory lots (FEFO) when the order is saved
+          lotNumber: '',
+          expiryDate: '',
           // Populate UOM from product
           uom: product.uom || ''
         }));
@@ -514,14 +525,15 @@ export default function AddOrder() {
 
   const fetchInitialData = async () => {
     try {
-      const [productsRes, customersRes, stockSettingRes, driversRes, loyaltyRes, sellerInfoRes, fbrSettingsRes] = await Promise.all([
+      const [productsRes, customersRes, stockSettingRes, driversRes, loyaltyRes, sellerInfoRes, fbrSettingsRes, locationsRes] = await Promise.all([
         fetch('/api/products'),
         fetch('/api/users'),
         fetch('/api/settings/stock-management'),
         fetch('/api/drivers/available?includeAll=true'),
         fetch('/api/settings/loyalty'),
         fetch('/api/seller-info'),
-        fetch('/api/settings/fbr')
+        fetch('/api/settings/fbr'),
+        fetch('/api/inventory/locations')
       ]);
 
       const productsData = await productsRes.json();
@@ -568,6 +580,9 @@ export default function AddOrder() {
       setCustomers(customersData);
       setStockManagementEnabled(stockData.stockManagementEnabled ?? true);
       setAvailableDrivers(driversData.drivers || []);
+      if (locationsRes.ok) {
+        setInventoryLocations(await locationsRes.json());
+      }
       
       // Set loyalty settings
       console.log('Loyalty API response:', loyaltyData);
@@ -601,10 +616,9 @@ export default function AddOrder() {
         console.log('Seller info fetch failed or empty:', sellerInfoData);
       }
 
-      // Set production token from FBR settings
-      if (fbrSettingsData && fbrSettingsData.success && fbrSettingsData.settings) {
-        console.log('Setting production token from FBR settings');
-        setProductionToken(fbrSettingsData.settings.fbrProductionToken || '');
+      // Production token stays on the server; only check that one is configured
+      if (fbrSettingsData && fbrSettingsData.success && fbrSettingsData.credentials) {
+        setProductionTokenConfigured(!!fbrSettingsData.credentials.production?.configured);
       } else {
         console.log('FBR settings fetch failed or empty:', fbrSettingsData);
       }
@@ -944,8 +958,8 @@ export default function AddOrder() {
       price = parseFloat(customPrice);
     }
 
-    // Stock validation when stock management is enabled
-    if (stockManagementEnabled) {
+    // Stock validation for tracked items (untracked and backorderable items are never short)
+    if (resolveStockTracking(stockManagementEnabled, product, variant) === 'track') {
       // Check if we have inventory information for this product/variant
       const inventoryKey = selectedVariantId ? `${selectedProductId}-${selectedVariantId}` : selectedProductId;
       
@@ -1515,8 +1529,6 @@ export default function AddOrder() {
       sellerBusinessName: sellerInfo.sellerBusinessName || null,
       sellerProvince: sellerInfo.sellerProvince || null,
       sellerAddress: sellerInfo.sellerAddress || null,
-      fbrSandboxToken: sellerInfo.fbrSandboxToken || null,
-      fbrBaseUrl: sellerInfo.fbrBaseUrl || null,
       
       // Email and FBR submission control flags
       skipCustomerEmail,
@@ -1568,8 +1580,8 @@ export default function AddOrder() {
     }
 
     // Validate production token if production mode is enabled
-    if (isProductionSubmission && !skipFbrSubmission && !productionToken.trim()) {
-      setError('Please provide production environment token');
+    if (isProductionSubmission && !skipFbrSubmission && !productionTokenConfigured) {
+      setError('No FBR production token is configured. Add one in Settings → FBR Digital Invoicing');
       setSubmitting(false);
       setTimeout(() => {
         if (errorRef.current) {
@@ -1612,6 +1624,9 @@ export default function AddOrder() {
         // Driver assignment fields
         assignedDriverId: orderData.assignedDriverId || null,
         deliveryStatus: orderData.deliveryStatus,
+
+        // Fulfilment location
+        fulfillmentLocationId: orderData.fulfillmentLocationId || null,
         
         // Loyalty points fields
         pointsToRedeem: orderData.pointsToRedeem,
@@ -1652,17 +1667,14 @@ export default function AddOrder() {
         sellerBusinessName: sellerInfo.sellerBusinessName || null,
         sellerProvince: sellerInfo.sellerProvince || null,
         sellerAddress: sellerInfo.sellerAddress || null,
-        fbrSandboxToken: sellerInfo.fbrSandboxToken || null,
-        fbrBaseUrl: sellerInfo.fbrBaseUrl || null,
         
         // Email and FBR submission control flags
         skipCustomerEmail,
         skipSellerEmail,
         skipFbrSubmission,
         
-        // Production environment fields
-        isProductionSubmission,
-        productionToken: isProductionSubmission ? productionToken : null
+        // Production environment flag (the token is resolved on the server)
+        isProductionSubmission
       };
 
       // 🔍 DEBUG: Capture the order data for display
@@ -1717,8 +1729,8 @@ export default function AddOrder() {
       const orderResponse = await response.json();
       const orderId = orderResponse.orderId;
 
-      // Create driver assignment record if driver is assigned
-      if (orderData.assignedDriverId && orderData.assignmentType === 'manual') {
+      // Create driver assignment record if a driver is chosen, or let auto-dispatch pick one
+      if ((orderData.assignedDriverId && orderData.assignmentType === 'manual') || orderData.assignmentType === 'automatic') {
         try {
           await handleAssignDriver(orderId);
         } catch (driverError) {
@@ -1828,8 +1840,6 @@ export default function AddOrder() {
         sellerBusinessName: sellerInfo.sellerBusinessName || '',
         sellerProvince: sellerInfo.sellerProvince || '',
         sellerAddress: sellerInfo.sellerAddress || '',
-        fbrSandboxToken: isProductionSubmission ? productionToken : sellerInfo.fbrSandboxToken,
-        fbrBaseUrl: sellerInfo.fbrBaseUrl || '',
         isProductionSubmission: isProductionSubmission
       };
 
@@ -2341,30 +2351,26 @@ export default function AddOrder() {
                     id="fbr-base-url"
                     type="url"
                     value={sellerInfo.fbrBaseUrl}
-                    onChange={(e) => setSellerInfo({...sellerInfo, fbrBaseUrl: e.target.value})}
-                    placeholder={isProductionSubmission ? "https://gw.fbr.gov.pk/di_data/v1/di" : "https://sandbox-api.fbr.gov.pk/di_data/v1/di"}
+                    readOnly
+                    placeholder="Not configured"
                   />
                   <p className="text-sm text-muted-foreground">
-                    FBR API base URL. {isProductionSubmission ? "Production: https://gw.fbr.gov.pk/di_data/v1/di" : "Sandbox: https://sandbox-api.fbr.gov.pk/di_data/v1/di"}
+                    Managed in <a href="/settings" className="text-blue-600 hover:underline">Settings</a>. Production submissions switch to the production gateway automatically.
                   </p>
                 </div>
                 
                 <div className="space-y-2">
-                  <Label htmlFor="fbr-token">FBR Sandbox Token</Label>
-                  <Input
-                    id="fbr-token"
-                    type="password"
-                    value={sellerInfo.fbrSandboxToken}
-                    onChange={(e) => setSellerInfo({...sellerInfo, fbrSandboxToken: e.target.value})}
-                    placeholder="Enter your FBR sandbox token"
-                  />
+                  <Label>FBR Sandbox Token</Label>
+                  <p className={`text-sm font-medium ${sellerInfo.fbrTokenConfigured ? 'text-green-600' : 'text-yellow-700'}`}>
+                    {sellerInfo.fbrTokenConfigured ? '✅ Configured' : '⚠️ Not configured'}
+                  </p>
                   <p className="text-sm text-muted-foreground">
-                    Your FBR sandbox token for API authentication. Auto-filled from settings.
+                    Tokens are stored encrypted on the server. Manage them in <a href="/settings" className="text-blue-600 hover:underline">Settings</a>.
                   </p>
                 </div>
               </div>
               
-              {(!sellerInfo.sellerNTNCNIC || !sellerInfo.sellerBusinessName || !sellerInfo.fbrSandboxToken || !sellerInfo.fbrBaseUrl) && (
+              {(!sellerInfo.sellerNTNCNIC || !sellerInfo.sellerBusinessName || !sellerInfo.fbrTokenConfigured || !sellerInfo.fbrBaseUrl) && (
                 <div className="p-4 bg-muted/50 border rounded-lg">
                   <div className="flex items-center gap-2 text-yellow-800">
                     <span>⚠️</span>
@@ -2795,21 +2801,7 @@ export default function AddOrder() {
                   type="checkbox"
                   id="production-submission"
                   checked={isProductionSubmission}
-                  onChange={(e) => {
-                    setIsProductionSubmission(e.target.checked);
-                    // Auto-set the correct base URL for production mode
-                    if (e.target.checked) {
-                      setSellerInfo(prev => ({
-                        ...prev,
-                        fbrBaseUrl: 'https://gw.fbr.gov.pk/di_data/v1/di'
-                      }));
-                    } else {
-                      setSellerInfo(prev => ({
-                        ...prev,
-                        fbrBaseUrl: 'https://sandbox-api.fbr.gov.pk/di_data/v1/di'
-                      }));
-                    }
-                  }}
+                  onChange={(e) => setIsProductionSubmission(e.target.checked)}
                   className="rounded border-gray-300"
                   disabled={skipFbrSubmission}
                 />
@@ -2818,20 +2810,15 @@ export default function AddOrder() {
                 </Label>
               </div>
               
-              {/* Production Token Field */}
+              {/* Production Token Status */}
               {isProductionSubmission && !skipFbrSubmission && (
                 <div className="ml-6 space-y-2">
-                  <Label htmlFor="production-token" className="text-sm font-medium">
+                  <Label className="text-sm font-medium">
                     Production Environment Token
                   </Label>
-                  <Input
-                    id="production-token"
-                    type="password"
-                    value={productionToken}
-                    onChange={(e) => setProductionToken(e.target.value)}
-                    placeholder="Enter production FBR token..."
-                    className="max-w-md"
-                  />
+                  <p className={`text-sm font-medium ${productionTokenConfigured ? 'text-green-600' : 'text-red-600'}`}>
+                    {productionTokenConfigured ? '✅ Configured' : '❌ Not configured - add it in Settings'}
+                  </p>
                   <p className="text-xs text-orange-600">
                     ⚠️ This will submit to production FBR environment
                   </p>
@@ -3204,83 +3191,20 @@ export default function AddOrder() {
               </div>
 
               {/* UOM field for non-weight based products */}
-              {selectedProduct && !isWeightBasedProduct(selectedProduct.stockManagementType || 'quantity') && (() => {
-                const uomOptions = ["MT", "Bill of lading", "SET", "KWH", "40KG", "Liter", "SqY", "Bag", "KG", "MMBTU", "Meter", "Pcs", "Carat", "Cubic Metre", "Dozen", "Gram", "Gallon", "Kilogram", "Pound", "Timber Logs", "Numbers, pieces, units", "Packs", "Pair", "Square Foot", "Square Metre", "Thousand Unit", "Mega Watt", "Foot", "Barrels", "NO", "1000 kWh"];
-                const isCustomUom = productSelection.uom && !uomOptions.includes(productSelection.uom);
-                
-                return (
-                  <div className="space-y-2">
-                    <Label htmlFor="uom">Unit of Measurement (UOM)</Label>
-                    <div className="flex gap-2">
-                      <Popover open={uomComboboxOpen} onOpenChange={setUomComboboxOpen}>
-                        <PopoverTrigger asChild>
-                          <Button
-                            variant="outline"
-                            role="combobox"
-                            aria-expanded={uomComboboxOpen}
-                            className="justify-between"
-                          >
-                            {productSelection.uom && uomOptions.includes(productSelection.uom)
-                              ? productSelection.uom
-                              : isCustomUom 
-                                ? "Others"
-                                : productSelection.uom
-                                  ? "Others"
-                                  : "Select UOM..."}
-                            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
-                          </Button>
-                        </PopoverTrigger>
-                        <PopoverContent className="w-full p-0" style={{ width: 'var(--radix-popover-trigger-width)' }}>
-                          <Command>
-                            <CommandInput placeholder="Search UOM..." />
-                            <CommandList className="h-[200px]">
-                              <CommandEmpty>No UOM found.</CommandEmpty>
-                              <CommandGroup>
-                                {uomOptions.map((uom) => (
-                                  <CommandItem
-                                    key={uom}
-                                    value={uom}
-                                    onSelect={() => {
-                                      setProductSelection({...productSelection, uom: uom});
-                                      setUomComboboxOpen(false);
-                                    }}
-                                  >
-                                    <Check
-                                      className={`mr-2 h-4 w-4 ${productSelection.uom === uom ? "opacity-100" : "opacity-0"}`}
-                                    />
-                                    {uom}
-                                  </CommandItem>
-                                ))}
-                                <CommandItem
-                                  value="Others"
-                                  onSelect={() => {
-                                    setProductSelection({...productSelection, uom: ""});
-                                    setUomComboboxOpen(false);
-                                  }}
-                                >
-                                  <Check
-                                    className={`mr-2 h-4 w-4 ${isCustomUom || (productSelection.uom && !uomOptions.includes(productSelection.uom)) ? "opacity-100" : "opacity-0"}`}
-                                  />
-                                  Others (Custom)
-                                </CommandItem>
-                              </CommandGroup>
-                            </CommandList>
-                          </Command>
-                        </PopoverContent>
-                      </Popover>
-                      {(productSelection.uom === "" || isCustomUom || (productSelection.uom && !uomOptions.includes(productSelection.uom))) && (
-                        <Input
-                          className="flex-1"
-                          type="text"
-                          value={isCustomUom || (productSelection.uom && !uomOptions.includes(productSelection.uom)) ? productSelection.uom : ""}
-                          onChange={(e) => setProductSelection({...productSelection, uom: e.target.value})}
-                          placeholder="Enter custom UOM"
-                        />
-                      )}
-                    </div>
-                  </div>
-                );
-              })()}
+              {selectedProduct && !isWeightBasedProduct(selectedProduct.stockManagementType || 'quantity') && (
+                <div className="space-y-2">
+                  <Label htmlFor="uom">Unit of Measurement (UOM)</Label>
+                  <FbrReferencePicker
+                    type={productSelection.hsCode ? 'hs_uom' : 'uom'}
+                    id="uom"
+                    value={productSelection.uom}
+                    hsCode={productSelection.hsCode || undefined}
+                    onChange={(value) => setProductSelection(prev => ({ ...prev, uom: value }))}
+                    placeholder="Search FBR units of measurement"
+                    className={FBR_PICKER_INPUT_CLASS}
+                  />
+                </div>
+              )}
             </div>
 
             {/* Editable Product and Tax Fields */}
@@ -3323,14 +3247,14 @@ export default function AddOrder() {
                       
                       <div className="space-y-2">
                         <Label htmlFor="hs-code-edit" className="text-sm">HS Code</Label>
-                        <Input
+                        <FbrReferencePicker
+                          type="hs_code"
                           id="hs-code-edit"
-                        type="text"
-                        value={productSelection.hsCode}
-                        onChange={(e) => setProductSelection({...productSelection, hsCode: e.target.value})}
-                        placeholder="Harmonized System Code"
-                          className="text-sm"
-                      />
+                          value={productSelection.hsCode}
+                          onChange={(value) => setProductSelection(prev => ({ ...prev, hsCode: value }))}
+                          placeholder="Search HS code or description"
+                          className={FBR_PICKER_INPUT_CLASS}
+                        />
                     </div>
                     
                       <div className="space-y-2">
@@ -3347,14 +3271,14 @@ export default function AddOrder() {
                     
                       <div className="space-y-2">
                         <Label htmlFor="sro-schedule-edit" className="text-sm">SRO / Schedule No.</Label>
-                        <Input
+                        <FbrReferencePicker
+                          type="sro_schedule"
                           id="sro-schedule-edit"
-                        type="text"
-                        value={productSelection.sroScheduleNumber}
-                        onChange={(e) => setProductSelection({...productSelection, sroScheduleNumber: e.target.value})}
-                        placeholder="SRO or Schedule number"
-                          className="text-sm"
-                      />
+                          value={productSelection.sroScheduleNumber}
+                          onChange={(value) => setProductSelection(prev => ({ ...prev, sroScheduleNumber: value }))}
+                          placeholder="Search SRO or Schedule"
+                          className={FBR_PICKER_INPUT_CLASS}
+                        />
                     </div>
                     
                       <div className="space-y-2">
@@ -3400,7 +3324,7 @@ export default function AddOrder() {
                         type="text"
                         value={productSelection.lotNumber}
                         onChange={(e) => setProductSelection({...productSelection, lotNumber: e.target.value})}
-                        placeholder="Batch or lot number"
+                        placeholder="Assigned from stock lots when tracked"
                           className="text-sm"
                       />
                     </div>
@@ -4071,6 +3995,24 @@ export default function AddOrder() {
                 placeholder="Internal notes about this order..."
               />
             </div>
+
+            {stockManagementEnabled && inventoryLocations.length > 1 && (
+              <div className="mt-4">
+                <label className="block text-gray-700 mb-2">Fulfil From</label>
+                <select
+                  value={orderData.fulfillmentLocationId}
+                  onChange={(e) => setOrderData({...orderData, fulfillmentLocationId: e.target.value})}
+                  className="w-full p-2 border rounded focus:border-blue-500 focus:outline-none"
+                >
+                  <option value="">Automatic (default location, then any location with stock)</option>
+                  {inventoryLocations.map((location: any) => (
+                    <option key={location.id} value={location.id}>
+                      {location.name} ({location.code})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
           </div>
 
           
@@ -4132,7 +4074,7 @@ export default function AddOrder() {
               {orderData.assignmentType === 'automatic' && (
                 <div className="bg-muted/50 p-3 rounded">
                   <p className="text-sm text-blue-700">
-                    📍 The system will automatically assign the nearest available driver based on the delivery address.
+                    📍 The system will assign the best placed driver by distance, delivery radius and current load. If no driver qualifies, the order goes to the dispatch queue.
                   </p>
                 </div>
               )}
@@ -279,15 +279,16 @@ export default function EditOrder() {
     sellerBusinessName: '',
     sellerProvince: '',
     sellerAddress: '',
-    fbrSandboxToken: '',
-    fbrBaseUrl: ''
+    fbrBaseUrl: '',
+    fbrTokenConfigured: false
   });
 
   const [skipCustomerEmail, setSkipCustomerEmail] = useState(true);
   const [skipSellerEmail, setSkipSellerEmail] = useState(true);
   const [skipFbrSubmission, setSkipFbrSubmission] = useState(false);
   const [isProductionSubmission, setIsProductionSubmission] = useState(false);
-  const [productionToken, setProductionToken] = useState('');
+  // Tokens stay on the server; only their status is loaded
+  const [productionTokenStatus, setProductionTokenStatus] = useState<{ configured: boolean; tokenHint?: string | null }>({ configured: false });
   const [isUpdating, setIsUpdating] = useState(false);
 
   // Order form data
@@ -464,8 +465,6 @@ export default function EditOrder() {
         sellerBusinessName: sellerInfo.sellerBusinessName || '',
         sellerProvince: sellerInfo.sellerProvince || '',
         sellerAddress: sellerInfo.sellerAddress || '',
-        fbrSandboxToken: isProductionSubmission ? productionToken : sellerInfo.fbrSandboxToken,
-        fbrBaseUrl: sellerInfo.fbrBaseUrl || '',
         isProductionSubmission: isProductionSubmission
       };
 
@@ -1178,8 +1177,8 @@ export default function EditOrder() {
           sellerBusinessName: data.sellerBusinessName || '',
           sellerProvince: data.sellerProvince || '',
           sellerAddress: data.sellerAddress || '',
-          fbrSandboxToken: data.fbrSandboxToken || '',
-          fbrBaseUrl: data.fbrBaseUrl || ''
+          fbrBaseUrl: data.fbrBaseUrl || '',
+          fbrTokenConfigured: !!data.fbrTokenConfigured
         });
 
         // Set custom seller province flag if the loaded province is not in predefined list
@@ -1205,7 +1204,7 @@ export default function EditOrder() {
           // Update seller info with FBR settings (only if values exist in settings)
           setSellerInfo(prev => ({
             ...prev,
-            fbrSandboxToken: data.settings.fbrSandboxToken || prev.fbrSandboxToken,
+            fbrTokenConfigured: !!data.credentials?.sandbox?.configured || prev.fbrTokenConfigured,
             fbrBaseUrl: data.settings.fbrBaseUrl || prev.fbrBaseUrl,
             // Update seller details from FBR settings if available (but preserve existing if not)
             sellerNTNCNIC: data.settings.fbrSellerNTNCNIC || prev.sellerNTNCNIC,
@@ -1214,9 +1213,11 @@ export default function EditOrder() {
             sellerAddress: data.settings.fbrSellerAddress || prev.sellerAddress
           }));
 
-          // Set production token
-          setProductionToken(data.settings.fbrProductionToken || '');
-          console.log('FBR Production token loaded:', data.settings.fbrProductionToken ? '✅ Token found (***' + data.settings.fbrProductionToken.slice(-4) + ')' : '❌ No production token found');
+          // Production token status (the token itself is never sent to the browser)
+          setProductionTokenStatus({
+            configured: !!data.credentials?.production?.configured,
+            tokenHint: data.credentials?.production?.tokenHint
+          });
         }
       } else {
         console.error('Failed to fetch FBR settings, status:', response.status);
@@ -1792,8 +1793,8 @@ export default function EditOrder() {
     }
 
     // Validate production token if production mode is enabled
-    if (isProductionSubmission && !skipFbrSubmission && !productionToken.trim()) {
-      setError('Please provide production environment token');
+    if (isProductionSubmission && !skipFbrSubmission && !productionTokenStatus.configured) {
+      setError('No FBR production token is configured. Add one in Settings → FBR Digital Invoicing');
       return;
     }
 
@@ -1861,17 +1862,14 @@ export default function EditOrder() {
         sellerBusinessName: sellerInfo.sellerBusinessName || null,
         sellerProvince: sellerInfo.sellerProvince || null,
         sellerAddress: sellerInfo.sellerAddress || null,
-        fbrSandboxToken: sellerInfo.fbrSandboxToken || null,
-        fbrBaseUrl: sellerInfo.fbrBaseUrl || null,
 
         // Email and FBR submission control flags
         skipCustomerEmail,
         skipSellerEmail,
         skipFbrSubmission,
 
-        // Production environment fields
+        // Production environment flag (the token is resolved on the server)
         isProductionSubmission,
-        productionToken: isProductionSubmission ? productionToken : undefined,
         isCustomScenario,
         isCustomProvince,
         isCustomSellerProvince
@@ -3630,6 +3628,7 @@ export default function EditOrder() {
                         <SelectItem value="pending">Pending</SelectItem>
                         <SelectItem value="paid">Paid</SelectItem>
                         <SelectItem value="failed">Failed</SelectItem>
+                        <SelectItem value="partially_refunded">Partially Refunded</SelectItem>
                         <SelectItem value="refunded">Refunded</SelectItem>
                       </SelectContent>
                     </Select>
@@ -3757,14 +3756,13 @@ export default function EditOrder() {
                     />
                   </div>
                   <div>
-                    <Label htmlFor="fbr-sandbox-token">FBR Sandbox Token</Label>
-                    <Input
-                      id="fbr-sandbox-token"
-                      type="text"
-                      value={sellerInfo.fbrSandboxToken}
-                      onChange={(e) => setSellerInfo({ ...sellerInfo, fbrSandboxToken: e.target.value })}
-                      placeholder="FBR sandbox token"
-                    />
+                    <Label>FBR Sandbox Token</Label>
+                    <p className={`text-sm font-medium mt-2 ${sellerInfo.fbrTokenConfigured ? 'text-green-600' : 'text-yellow-700'}`}>
+                      {sellerInfo.fbrTokenConfigured ? '✅ Configured' : '⚠️ Not configured'}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      Managed in <a href="/settings" className="text-blue-600 hover:underline">Settings</a>
+                    </p>
                   </div>
                   <div>
                     <Label htmlFor="fbr-base-url">FBR Base URL</Label>
@@ -3772,13 +3770,16 @@ export default function EditOrder() {
                       id="fbr-base-url"
                       type="text"
                       value={sellerInfo.fbrBaseUrl}
-                      onChange={(e) => setSellerInfo({ ...sellerInfo, fbrBaseUrl: e.target.value })}
-                      placeholder="FBR base URL"
+                      readOnly
+                      placeholder="Not configured"
                     />
+                    <p className="text-xs text-gray-500">
+                      Managed in <a href="/settings" className="text-blue-600 hover:underline">Settings</a>
+                    </p>
                   </div>
                 </div>
 
-                {(!sellerInfo.sellerNTNCNIC || !sellerInfo.sellerBusinessName || !sellerInfo.fbrSandboxToken || !sellerInfo.fbrBaseUrl) && (
+                {(!sellerInfo.sellerNTNCNIC || !sellerInfo.sellerBusinessName || !sellerInfo.fbrTokenConfigured || !sellerInfo.fbrBaseUrl) && (
                   <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
                     <div className="flex items-center gap-2 text-yellow-800">
                       <span>⚠️</span>
@@ -3958,12 +3959,7 @@ export default function EditOrder() {
                       type="checkbox"
                       id="production-submission"
                       checked={isProductionSubmission}
-                      onChange={(e) => {
-                        setIsProductionSubmission(e.target.checked);
-                        if (!e.target.checked) {
-                          setProductionToken('');
-                        }
-                      }}
+                      onChange={(e) => setIsProductionSubmission(e.target.checked)}
                       className="rounded border-gray-300"
                       disabled={skipFbrSubmission}
                     />
@@ -3972,22 +3968,17 @@ export default function EditOrder() {
                     </Label>
                   </div>
 
-                  {/* Production Token Field */}
+                  {/* Production Token Status */}
                   {isProductionSubmission && !skipFbrSubmission && (
                     <div className="ml-6 space-y-2">
-                      <Label htmlFor="production-token" className="text-sm font-medium">
+                      <Label className="text-sm font-medium">
                         Production Environment Token
                       </Label>
-                      <Input
-                        id="production-token"
-                        type="password"
-                        value={productionToken}
-                        onChange={(e) => setProductionToken(e.target.value)}
-                        placeholder="Enter production environment token"
-                        className="font-mono text-sm"
-                      />
+                      <p className={`text-sm font-medium ${productionTokenStatus.configured ? 'text-green-600' : 'text-red-600'}`}>
+                        {productionTokenStatus.configured ? '✅ Configured' : '❌ Not configured - add it in Settings'}
+                      </p>
                       <div className="text-xs text-gray-500">
-                        ⚠️ This token will be used for live FBR submission
+                        ⚠️ The stored production token will be used for live FBR submission
                       </div>
                     </div>
                   )}
@@ -4447,7 +4438,7 @@ export default function EditOrder() {
                 <div className="text-sm text-orange-800">
                   <strong>🏭 Production Submission:</strong> This order will be submitted to FBR production environment.
                   <div className="mt-1 text-xs">
-                    Token: {productionToken ? '***' + productionToken.slice(-4) : 'Not provided'}
+                    Token: {productionTokenStatus.configured ? (productionTokenStatus.tokenHint ? '***' + productionTokenStatus.tokenHint : 'Configured') : 'Not configured'}
                   </div>
                 </div>
               </div>
@@ -78,6 +78,7 @@ interface Order {
   invoiceType?: string;
   invoiceRefNo?: string;
   fbrEnvironment?: string;
+  fbrSubmissionStatus?: string;
   scenarioId?: string;
   validationResponse?: string;
 }
@@ -494,12 +495,13 @@ export default function OrdersList() {
       pending: 'secondary',
       paid: 'default',
       failed: 'destructive',
+      partially_refunded: 'outline',
       refunded: 'outline',
     };
 
     return (
       <Badge variant={variants[status] || 'secondary'}>
-        {status.charAt(0).toUpperCase() + status.slice(1)}
+        {(status.charAt(0).toUpperCase() + status.slice(1)).replace(/_/g, ' ')}
       </Badge>
     );
   };
@@ -760,6 +762,27 @@ export default function OrdersList() {
         );
       },
       mobileHidden: true
+    },
+    {
+      key: 'fbrSubmissionStatus',
+      title: 'FBR Status',
+      width: '100px',
+      render: (_: any, order: Order) => {
+        if (!order.fbrSubmissionStatus) return <span className="text-xs text-gray-400">-</span>;
+        const statusColors: Record<string, string> = {
+          queued: 'bg-yellow-100 text-yellow-800',
+          validating: 'bg-blue-100 text-blue-800',
+          posted: 'bg-green-100 text-green-800',
+          rejected: 'bg-red-100 text-red-800',
+          failed: 'bg-red-100 text-red-800'
+        };
+        return (
+          <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${statusColors[order.fbrSubmissionStatus] || 'bg-gray-100 text-gray-800'}`}>
+            {order.fbrSubmissionStatus.charAt(0).toUpperCase() + order.fbrSubmissionStatus.slice(1)}
+          </span>
+        );
+      },
+      mobileHidden: true
     }
   ];
 
@@ -0,0 +1,347 @@
+'use client';
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import CurrencySymbol from '../../../../components/CurrencySymbol';
+import { formatWeightAuto } from '@/utils/weightUtils';
+
+const RECEIVABLE_STATUSES = ['pending', 'confirmed', 'processing', 'shipped', 'partially_received'];
+
+interface InventoryLocation {
+  id: string;
+  name: string;
+}
+
+interface LineDraft {
+  amount: string;
+  unitCost: string;
+  lotNumber: string;
+  expiryDate: string;
+}
+
+export default function ReceivePurchaseOrder() {
+  const params = useParams();
+  const id = params.id as string;
+  const [details, setDetails] = useState<any>(null);
+  const [locations, setLocations] = useState<InventoryLocation[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, LineDraft>>({});
+  const [locationId, setLocationId] = useState('');
+  const [supplierReference, setSupplierReference] = useState('');
+  const [freightCost, setFreightCost] = useState('');
+  const [dutyCost, setDutyCost] = useState('');
+  const [otherCost, setOtherCost] = useState('');
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const formatAmount = (line: any, amount: number) =>
+    line.isWeightBased ? formatWeightAuto(amount).formattedString : amount;
+
+  const fetchReceiving = async () => {
+    try {
+      const res = await fetch(`/api/orders/${id}/receipts`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Purchase order not found');
+        return;
+      }
+      setDetails(data);
+      setLocationId(current => current || data.order.fulfillmentLocationId || '');
+      // Default each line to everything still outstanding at the PO cost
+      setDrafts(Object.fromEntries(data.lines.map((line: any) => [line.id, {
+        amount: line.outstanding > 0 ? String(line.outstanding) : '',
+        unitCost: line.unitCost || '',
+        lotNumber: '',
+        expiryDate: '',
+      }])));
+    } catch (err) {
+      console.error('Error fetching purchase order:', err);
+      setError('Failed to load purchase order');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReceiving();
+    fetch('/api/inventory/locations')
+      .then(res => (res.ok ? res.json() : []))
+      .then(setLocations)
+      .catch(err => console.error('Error fetching locations:', err));
+  }, [id]);
+
+  const updateDraft = (lineId: string, changes: Partial<LineDraft>) => {
+    setDrafts({ ...drafts, [lineId]: { ...drafts[lineId], ...changes } });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const lines = details.lines
+      .filter((line: any) => parseFloat(drafts[line.id]?.amount) > 0)
+      .map((line: any) => {
+        const draft = drafts[line.id];
+        const amount = parseFloat(draft.amount);
+        return {
+          orderItemId: line.id,
+          ...(line.isWeightBased ? { weightQuantity: amount } : { quantity: amount }),
+          unitCost: draft.unitCost,
+          lotNumber: draft.lotNumber || null,
+          expiryDate: draft.expiryDate || null,
+        };
+      });
+
+    if (lines.length === 0) {
+      setError('Enter the amount received for at least one line');
+      return;
+    }
+
+    setSubmitting(true);
+    setError('');
+    setMessage('');
+    try {
+      const res = await fetch(`/api/orders/${id}/receipts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          lines,
+          locationId: locationId || null,
+          supplierReference,
+          freightCost,
+          dutyCost,
+          otherCost,
+          notes,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to receive goods');
+        return;
+      }
+      setMessage(`${data.receipt.receiptNumber} recorded${data.orderStatus === 'received' ? '; the purchase order is fully received' : ''}`);
+      setSupplierReference('');
+      setFreightCost('');
+      setDutyCost('');
+      setOtherCost('');
+      setNotes('');
+      fetchReceiving();
+    } catch (err) {
+      console.error('Error receiving goods:', err);
+      setError('Failed to receive goods');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) return <div>Loading...</div>;
+  if (!details) return <div className="p-4 text-red-600">{error || 'Purchase order not found'}</div>;
+
+  const { order, supplier, lines, receipts } = details;
+  const canReceive = RECEIVABLE_STATUSES.includes(order.status);
+
+  return (
+    <div className="p-4">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">📥 Receive {order.purchaseOrderNumber || order.orderNumber}</h1>
+          <p className="text-gray-600">
+            {supplier ? supplier.companyName || supplier.name : 'No supplier'} · Status: {order.status.replace('_', ' ')}
+          </p>
+        </div>
+        <Link href="/orders/purchase" className="px-4 py-2 bg-gray-200 rounded-lg hover:bg-gray-300">
+          Back to Purchase Orders
+        </Link>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-700 rounded">{error}</div>
+      )}
+      {message && (
+        <div className="mb-4 p-3 bg-green-100 border border-green-300 text-green-700 rounded">{message}</div>
+      )}
+      {order.status === 'draft' && (
+        <div className="mb-4 p-3 bg-yellow-100 border border-yellow-300 text-yellow-800 rounded">
+          Send this purchase order to the supplier before receiving goods against it.
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit}>
+        <table className="w-full border-collapse mb-4">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="border p-2 text-left">Product</th>
+              <th className="border p-2 text-right">Ordered</th>
+              <th className="border p-2 text-right">Received</th>
+              <th className="border p-2 text-right">Outstanding</th>
+              {canReceive && (
+                <>
+                  <th className="border p-2 text-right">Receive Now</th>
+                  <th className="border p-2 text-right">Unit Cost</th>
+                  <th className="border p-2 text-left">Lot / Expiry</th>
+                </>
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {lines.map((line: any) => (
+              <tr key={line.id}>
+                <td className="border p-2">
+                  <div>{line.productName}{line.variantTitle && ` - ${line.variantTitle}`}</div>
+                  <div className="text-xs text-gray-500">{line.sku || 'No SKU'}</div>
+                </td>
+                <td className="border p-2 text-right">{formatAmount(line, line.ordered)}</td>
+                <td className="border p-2 text-right">{formatAmount(line, line.received)}</td>
+                <td className="border p-2 text-right">{formatAmount(line, line.outstanding)}</td>
+                {canReceive && (
+                  <>
+                    <td className="border p-2 text-right">
+                      <input
+                        type="number"
+                        min="0"
+                        max={line.outstanding}
+                        step={line.isWeightBased ? '0.01' : '1'}
+                        value={drafts[line.id]?.amount || ''}
+                        onChange={(e) => updateDraft(line.id, { amount: e.target.value })}
+                        disabled={line.outstanding === 0}
+                        className="p-1 border rounded w-24 text-right"
+                      />
+                      {line.isWeightBased && <span className="ml-1 text-xs text-gray-500">g</span>}
+                    </td>
+                    <td className="border p-2 text-right">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={drafts[line.id]?.unitCost || ''}
+                        onChange={(e) => updateDraft(line.id, { unitCost: e.target.value })}
+                        disabled={line.outstanding === 0}
+                        className="p-1 border rounded w-24 text-right"
+                      />
+                      {line.isWeightBased && <span className="ml-1 text-xs text-gray-500">/kg</span>}
+                    </td>
+                    <td className="border p-2">
+                      <div className="flex gap-1">
+                        <input
+                          type="text"
+                          placeholder="Lot #"
+                          value={drafts[line.id]?.lotNumber || ''}
+                          onChange={(e) => updateDraft(line.id, { lotNumber: e.target.value })}
+                          disabled={line.outstanding === 0}
+                          className="p-1 border rounded w-24"
+                        />
+                        <input
+                          type="date"
+                          value={drafts[line.id]?.expiryDate || ''}
+                          onChange={(e) => updateDraft(line.id, { expiryDate: e.target.value })}
+                          disabled={line.outstanding === 0}
+                          className="p-1 border rounded"
+                        />
+                      </div>
+                    </td>
+                  </>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {canReceive && (
+          <div className="bg-white border rounded-lg p-4 mb-6">
+            <h2 className="font-semibold mb-3">Goods Received Note</h2>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">Receive Into</label>
+                <select value={locationId} onChange={(e) => setLocationId(e.target.value)} className="w-full p-2 border rounded">
+                  <option value="">Default location</option>
+                  {locations.map(location => (
+                    <option key={location.id} value={location.id}>{location.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Supplier Reference</label>
+                <input
+                  type="text"
+                  placeholder="Delivery note / invoice #"
+                  value={supplierReference}
+                  onChange={(e) => setSupplierReference(e.target.value)}
+                  className="w-full p-2 border rounded"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Notes</label>
+                <input type="text" value={notes} onChange={(e) => setNotes(e.target.value)} className="w-full p-2 border rounded" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Freight</label>
+                <input type="number" min="0" step="0.01" value={freightCost} onChange={(e) => setFreightCost(e.target.value)} className="w-full p-2 border rounded" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Duties</label>
+                <input type="number" min="0" step="0.01" value={dutyCost} onChange={(e) => setDutyCost(e.target.value)} className="w-full p-2 border rounded" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Other Costs</label>
+                <input type="number" min="0" step="0.01" value={otherCost} onChange={(e) => setOtherCost(e.target.value)} className="w-full p-2 border rounded" />
+              </div>
+            </div>
+            <p className="text-sm text-gray-500 mb-4">
+              Freight, duties and other costs are spread over the received lines by value and added to their unit cost.
+            </p>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+            >
+              {submitting ? 'Receiving...' : 'Receive Goods'}
+            </button>
+          </div>
+        )}
+      </form>
+
+      <h2 className="text-xl font-semibold mb-3">Goods Receipts</h2>
+      {receipts.length > 0 ? receipts.map((receipt: any) => (
+        <div key={receipt.id} className="border rounded-lg p-4 mb-3">
+          <div className="flex justify-between mb-2">
+            <div className="font-medium">
+              {receipt.receiptNumber}
+              {receipt.supplierReference && <span className="text-gray-500 text-sm ml-2">({receipt.supplierReference})</span>}
+            </div>
+            <div className="text-sm text-gray-500">{new Date(receipt.receivedAt).toLocaleString()}</div>
+          </div>
+          <table className="w-full border-collapse text-sm">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="border p-1 text-left">Product</th>
+                <th className="border p-1 text-right">Received</th>
+                <th className="border p-1 text-right">Unit Cost</th>
+                <th className="border p-1 text-right">Landed Cost</th>
+                <th className="border p-1 text-right">Landed Unit Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {receipt.items.map((item: any) => (
+                <tr key={item.id}>
+                  <td className="border p-1">{item.productName}{item.variantTitle && ` - ${item.variantTitle}`}</td>
+                  <td className="border p-1 text-right">
+                    {parseFloat(item.weightQuantity || '0') > 0 ? formatWeightAuto(parseFloat(item.weightQuantity)).formattedString : item.quantity}
+                  </td>
+                  <td className="border p-1 text-right"><CurrencySymbol />{item.unitCost}</td>
+                  <td className="border p-1 text-right"><CurrencySymbol />{item.landedCost}</td>
+                  <td className="border p-1 text-right"><CurrencySymbol />{item.landedUnitCost}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="text-sm text-gray-600 mt-2">
+            Goods <CurrencySymbol />{receipt.goodsValue} · Freight <CurrencySymbol />{receipt.freightCost} · Duties <CurrencySymbol />{receipt.dutyCost} · Other <CurrencySymbol />{receipt.otherCost}
+          </div>
+        </div>
+      )) : (
+        <p className="text-gray-500">No goods received yet</p>
+      )}
+    </div>
+  );
+}
@@ -12,10 +12,15 @@ import {
   EyeIcon,
   BuildingIcon,
   CalendarIcon,
-  PackageIcon
+  PackageIcon,
+  SendIcon,
+  TruckIcon
 } from 'lucide-react';
 import CurrencySymbol from '../../components/CurrencySymbol';
 
+// Statuses goods can be received against (see lib/goodsReceipts.ts)
+const RECEIVABLE_STATUSES = ['pending', 'confirmed', 'processing', 'shipped', 'partially_received'];
+
 interface PurchaseOrder {
   id: string;
   orderNumber: string;
@@ -38,6 +43,7 @@ export default function PurchaseOrdersPage() {
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [filteredOrders, setFilteredOrders] = useState<PurchaseOrder[]>([]);
+  const [sendingId, setSendingId] = useState<string | null>(null);
 
   useEffect(() => {
     fetchPurchaseOrders();
@@ -74,8 +80,34 @@ export default function PurchaseOrdersPage() {
     }
   };
 
+  const handleSend = async (order: PurchaseOrder) => {
+    if (!confirm(`Send ${order.purchaseOrderNumber || order.orderNumber} to ${order.supplierName || 'the supplier'}?`)) return;
+
+    setSendingId(order.id);
+    try {
+      const response = await fetch(`/api/orders/${order.id}/send`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.error || 'Failed to send purchase order');
+        return;
+      }
+      if (!data.emailSent) {
+        alert('Purchase order marked as sent, but the email to the supplier could not be delivered.');
+      }
+      fetchPurchaseOrders();
+    } catch (error) {
+      console.error('Error sending purchase order:', error);
+      alert('Failed to send purchase order');
+    } finally {
+      setSendingId(null);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
+      case 'draft': return 'outline';
+      case 'partially_received': return 'secondary';
+      case 'received': return 'default';
       case 'pending': return 'secondary';
       case 'confirmed': return 'default';
       case 'processing': return 'default';
@@ -152,7 +184,7 @@ export default function PurchaseOrdersPage() {
       title: 'Status',
       render: (order: PurchaseOrder) => (
         <Badge variant={getStatusColor(order.status)}>
-          {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+          {(order.status.charAt(0).toUpperCase() + order.status.slice(1)).replace('_', ' ')}
         </Badge>
       ),
     },
@@ -171,6 +203,18 @@ export default function PurchaseOrdersPage() {
               <EditIcon className="h-4 w-4" />
             </Button>
           </Link>
+          {order.status === 'draft' && (
+            <Button variant="outline" size="sm" onClick={() => handleSend(order)} disabled={sendingId === order.id}>
+              <SendIcon className="h-4 w-4" />
+            </Button>
+          )}
+          {RECEIVABLE_STATUSES.includes(order.status) && (
+            <Link href={`/orders/purchase/${order.id}/receive`}>
+              <Button variant="outline" size="sm">
+                <TruckIcon className="h-4 w-4" />
+              </Button>
+            </Link>
+          )}
         </div>
       ),
     },
@@ -193,12 +237,20 @@ export default function PurchaseOrdersPage() {
             Manage orders to suppliers and track deliveries
           </p>
         </div>
-        <Link href="/orders/purchase/add">
-          <Button>
-            <PlusIcon className="mr-2 h-4 w-4" />
-            Create Purchase Order
-          </Button>
-        </Link>
+        <div className="flex gap-2">
+          <Link href="/inventory/reorder">
+            <Button variant="outline">
+              <PackageIcon className="mr-2 h-4 w-4" />
+              Reorder Suggestions
+            </Button>
+          </Link>
+          <Link href="/orders/purchase/add">
+            <Button>
+              <PlusIcon className="mr-2 h-4 w-4" />
+              Create Purchase Order
+            </Button>
+          </Link>
+        </div>
       </div>
 
       <div className="flex flex-col sm:flex-row gap-4">
@@ -217,11 +269,14 @@ export default function PurchaseOrdersPage() {
           className="px-3 py-2 border border-input bg-background rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
         >
           <option value="all">All Statuses</option>
+          <option value="draft">Draft</option>
           <option value="pending">Pending</option>
           <option value="confirmed">Confirmed</option>
           <option value="processing">Processing</option>
           <option value="shipped">Shipped</option>
           <option value="delivered">Delivered</option>
+          <option value="partially_received">Partially Received</option>
+          <option value="received">Received</option>
           <option value="cancelled">Cancelled</option>
         </select>
       </div>
@@ -0,0 +1,178 @@
+'use client';
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+
+export default function UnsubmittedInvoices() {
+  const [submissions, setSubmissions] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState('');
+
+  const fetchSubmissions = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/fbr/queue${statusFilter ? `?status=${statusFilter}` : ''}`);
+      const data = await res.json();
+      setSubmissions(data.submissions || []);
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSubmissions();
+  }, [statusFilter]);
+
+  const getStatusBadge = (status: string) => {
+    const statusColors = {
+      queued: 'bg-yellow-100 text-yellow-800',
+      validating: 'bg-blue-100 text-blue-800',
+      posted: 'bg-green-100 text-green-800',
+      rejected: 'bg-red-100 text-red-800',
+      failed: 'bg-red-100 text-red-800'
+    };
+    
+    return statusColors[status as keyof typeof statusColors] || 'bg-gray-100 text-gray-800';
+  };
+
+  const handleRetry = async (id: string) => {
+    setRetryingId(id);
+    try {
+      const res = await fetch('/api/fbr/queue', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ submissionId: id }),
+      });
+      const data = await res.json();
+      if (data.status === 'posted') {
+        alert(`Invoice posted to FBR: ${data.invoiceNumber}`);
+      } else if (data.error) {
+        alert(`FBR submission ${data.status || 'failed'}: ${data.error}`);
+      }
+      await fetchSubmissions();
+    } catch (error) {
+      console.error('Error retrying FBR submission:', error);
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  const handleProcessQueue = async () => {
+    setProcessing(true);
+    try {
+      const res = await fetch('/api/fbr/queue', { method: 'POST' });
+      const data = await res.json();
+      alert(`Processed ${data.processed || 0} submission(s): ${data.posted || 0} posted, ${data.requeued || 0} still queued`);
+      await fetchSubmissions();
+    } catch (error) {
+      console.error('Error processing FBR queue:', error);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  if (loading) return <div>Loading...</div>;
+
+  return (
+    <div className="p-4">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">Unsubmitted Invoices</h1>
+          <p className="text-sm text-gray-500">Orders whose FBR invoice is queued for retry or was rejected</p>
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="px-3 py-2 border rounded-lg"
+          >
+            <option value="">All pending</option>
+            <option value="queued">Queued</option>
+            <option value="validating">Validating</option>
+            <option value="rejected">Rejected</option>
+            <option value="failed">Failed</option>
+          </select>
+          <button
+            onClick={handleProcessQueue}
+            disabled={processing}
+            className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {processing ? 'Processing...' : '📤 Process Queue'}
+          </button>
+          <button
+            onClick={fetchSubmissions}
+            disabled={loading}
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {loading ? 'Refreshing...' : '🔄 Refresh'}
+          </button>
+        </div>
+      </div>
+      
+      <div className="overflow-x-auto">
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="border p-2 text-left">Order #</th>
+              <th className="border p-2 text-left">Customer</th>
+              <th className="border p-2 text-left">Amount</th>
+              <th className="border p-2 text-left">Environment</th>
+              <th className="border p-2 text-left">Status</th>
+              <th className="border p-2 text-left">Attempts</th>
+              <th className="border p-2 text-left">Last Error</th>
+              <th className="border p-2 text-left">Next Attempt</th>
+              <th className="border p-2 text-left">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {submissions.length > 0 ? (
+              submissions.map((item: any) => (
+                <tr key={item.id}>
+                  <td className="border p-2 font-mono text-sm">
+                    <Link href={`/orders/${item.orderId}/invoice`} className="text-blue-600 hover:underline">
+                      {item.orderNumber || 'N/A'}
+                    </Link>
+                    {item.noteNumber && (
+                      <div className="text-xs text-gray-500">{item.noteType}: {item.noteNumber}</div>
+                    )}
+                  </td>
+                  <td className="border p-2 text-sm">{item.email || 'N/A'}</td>
+                  <td className="border p-2">{item.totalAmount}</td>
+                  <td className="border p-2 text-sm">{item.isProduction ? 'Production' : 'Sandbox'}</td>
+                  <td className="border p-2">
+                    <span className={`px-2 py-1 rounded text-xs ${getStatusBadge(item.status)}`}>
+                      {item.status.charAt(0).toUpperCase() + item.status.slice(1)}
+                    </span>
+                  </td>
+                  <td className="border p-2 text-sm">{item.attempts}/{item.maxAttempts}</td>
+                  <td className="border p-2 text-sm text-red-600 max-w-xs truncate" title={item.lastError || ''}>
+                    {item.lastError || '-'}
+                  </td>
+                  <td className="border p-2 text-sm">
+                    {item.status === 'queued' && item.nextAttemptAt ? new Date(item.nextAttemptAt).toLocaleString() : '-'}
+                  </td>
+                  <td className="border p-2">
+                    <button 
+                      onClick={() => handleRetry(item.id)}
+                      disabled={retryingId === item.id || item.status === 'validating'}
+                      className="px-2 py-1 bg-blue-500 text-white rounded text-sm hover:bg-blue-600 disabled:opacity-50"
+                    >
+                      {retryingId === item.id ? 'Retrying...' : 'Retry Now'}
+                    </button>
+                  </td>
+                </tr>
+              ))
+            ) : (
+              <tr>
+                <td colSpan={9} className="border p-2 text-center">All invoices have been submitted to FBR</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import ImageUploader from '../../components/ImageUploader';
 import CurrencySymbol from '../../components/CurrencySymbol';
 import RichTextEditor from '../../components/RichTextEditor';
 import TagSelector from '../../components/TagSelector';
+import FbrReferencePicker from '../../components/FbrReferencePicker';
+import BundleComponentsEditor, { toBundleComponentInputs, type BundleComponentRow } from '../../components/BundleComponentsEditor';
 import { formatPrice, generateSlug, isValidSlug } from '../../../utils/priceUtils';
 
 interface DatabaseVariationAttribute {
@@ -123,6 +125,7 @@ export default function AddProduct() {
     banner: '', // Banner image URL
     // Weight-based stock management fields
     stockManagementType: 'quantity', // 'quantity' or 'weight'
+    stockTracking: '', // '' follows the store setting; 'track', 'untracked' or 'backorder'
     pricePerUnit: '', // Price per gram for weight-based products
     baseWeightUnit: 'grams', // 'grams' or 'kg'
     // Cannabis-specific fields
@@ -155,6 +158,9 @@ export default function AddProduct() {
   const [availableAddons, setAvailableAddons] = useState<Addon[]>([]);
   const [selectedAddons, setSelectedAddons] = useState<SelectedAddon[]>([]);
   
+  // Bundle product specific states
+  const [bundleComponents, setBundleComponents] = useState<BundleComponentRow[]>([]);
+  
   // Tag selection state
   const [selectedTags, setSelectedTags] = useState<SelectedTag[]>([]);
   
@@ -418,7 +424,8 @@ export default function AddProduct() {
         return acc;
           }, {} as { [key: string]: string })
         } : null,
-        addons: selectedAddons.length > 0 ? selectedAddons : null
+        addons: selectedAddons.length > 0 ? selectedAddons : null,
+        bundleComponents: formData.productType === 'bundle' ? toBundleComponentInputs(bundleComponents) : null
       };
 
       const response = await fetch('/api/products', {
@@ -493,6 +500,17 @@ export default function AddProduct() {
                 className="mr-2"
               />
               Group Product (with addons)
+            </label>
+            <label className="flex items-center">
+              <input
+                type="radio"
+                name="productType"
+                value="bundle"
+                checked={formData.productType === 'bundle'}
+                onChange={(e) => setFormData({ ...formData, productType: e.target.value, stockManagementType: 'quantity' })}
+                className="mr-2"
+              />
+              Bundle (kit of existing products)
             </label>
               </div>
               </div>
@@ -534,6 +552,27 @@ export default function AddProduct() {
               )}
             </div>
 
+            <div>
+              <label className="block text-gray-700 mb-2" htmlFor="stockTracking">
+                Stock Tracking
+              </label>
+              <select
+                id="stockTracking"
+                name="stockTracking"
+                value={formData.stockTracking}
+                onChange={handleChange}
+                className="w-full md:w-1/2 p-2 border rounded focus:border-blue-500 focus:outline-none"
+              >
+                <option value="">Follow store setting</option>
+                <option value="track">Track stock</option>
+                <option value="untracked">Don&apos;t track stock</option>
+                <option value="backorder">Track stock, allow backorders</option>
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Untracked products never reserve or deduct stock; backorderable products can be ordered when out of stock.
+              </p>
+            </div>
+
             {/* Weight-based specific fields */}
             {formData.stockManagementType === 'weight' && (
               <div className="mt-4 p-4 bg-white border rounded-lg">
@@ -732,7 +771,7 @@ export default function AddProduct() {
             <h3 className="text-lg font-semibold">Pricing & Details</h3>
             
             {/* Only show pricing fields for simple products and quantity-based */}
-            {formData.productType === 'simple' && formData.stockManagementType === 'quantity' && (
+            {(formData.productType === 'simple' || formData.productType === 'bundle') && formData.stockManagementType === 'quantity' && (
               <>
                 <div>
                   <label className="block text-gray-700 mb-2" htmlFor="price">
@@ -1061,15 +1100,13 @@ export default function AddProduct() {
               <label className="block text-gray-700 mb-2" htmlFor="hsCode">
                 Product HS Code
               </label>
-              <input
-                type="text"
+              <FbrReferencePicker
+                type="hs_code"
                 id="hsCode"
                 name="hsCode"
                 value={formData.hsCode}
-                onChange={handleChange}
-                className="w-full p-2 border rounded focus:border-blue-500 focus:outline-none"
-                placeholder="e.g., 1234.56.78"
-                maxLength={20}
+                onChange={(value) => setFormData(prev => ({ ...prev, hsCode: value }))}
+                placeholder="Search HS code or description, e.g., 0101.2100"
               />
               <p className="text-xs text-gray-500 mt-1">
                 Harmonized System Code for customs and tax classification
@@ -1167,61 +1204,17 @@ export default function AddProduct() {
                   <label className="block text-gray-700 mb-2" htmlFor="uom">
                     Unit of Measurement (UOM)
                   </label>
-                  <div className="flex gap-2">
-                    <select
-                      id="uom"
-                      name="uom"
-                      value={formData.uom}
-                      onChange={handleChange}
-                      className="flex-1 p-2 border rounded focus:border-blue-500 focus:outline-none"
-                    >
-                      <option value="">Select UOM</option>
-                      <option value="MT">MT</option>
-                      <option value="Bill of lading">Bill of lading</option>
-                      <option value="SET">SET</option>
-                      <option value="KWH">KWH</option>
-                      <option value="40KG">40KG</option>
-                      <option value="Liter">Liter</option>
-                      <option value="SqY">SqY</option>
-                      <option value="Bag">Bag</option>
-                      <option value="KG">KG</option>
-                      <option value="MMBTU">MMBTU</option>
-                      <option value="Meter">Meter</option>
-                      <option value="Pcs">Pcs</option>
-                      <option value="Carat">Carat</option>
-                      <option value="Cubic Metre">Cubic Metre</option>
-                      <option value="Dozen">Dozen</option>
-                      <option value="Gram">Gram</option>
-                      <option value="Gallon">Gallon</option>
-                      <option value="Kilogram">Kilogram</option>
-                      <option value="Pound">Pound</option>
-                      <option value="Timber Logs">Timber Logs</option>
-                      <option value="Numbers, pieces, units">Numbers, pieces, units</option>
-                      <option value="Packs">Packs</option>
-                      <option value="Pair">Pair</option>
-                      <option value="Square Foot">Square Foot</option>
-                      <option value="Square Metre">Square Metre</option>
-                      <option value="Thousand Unit">Thousand Unit</option>
-                      <option value="Mega Watt">Mega Watt</option>
-                      <option value="Foot">Foot</option>
-                      <option value="Barrels">Barrels</option>
-                      <option value="NO">NO</option>
-                      <option value="1000 kWh">1000 kWh</option>
-                      <option value="custom">Custom (Enter below)</option>
-                    </select>
-                  </div>
-                  {formData.uom === 'custom' && (
-                    <div className="mt-2">
-                      <input
-                        type="text"
-                        placeholder="Enter custom UOM"
-                        className="w-full p-2 border rounded focus:border-blue-500 focus:outline-none"
-                        onChange={(e) => setFormData(prev => ({ ...prev, uom: e.target.value }))}
-                      />
-                    </div>
-                  )}
+                  <FbrReferencePicker
+                    type={formData.hsCode ? 'hs_uom' : 'uom'}
+                    id="uom"
+                    name="uom"
+                    value={formData.uom}
+                    hsCode={formData.hsCode || undefined}
+                    onChange={(value) => setFormData(prev => ({ ...prev, uom: value }))}
+                    placeholder="Search FBR units of measurement"
+                  />
                   <p className="text-xs text-gray-500 mt-1">
-                    Select the unit of measurement for this product or enter a custom one
+                    Units come from FBR's list; once an HS code is set only the units FBR allows for it are suggested
                   </p>
                 </div>
               </div>
@@ -1473,6 +1466,17 @@ export default function AddProduct() {
           </div>
         )}
 
+        {/* Bundle Components */}
+        {formData.productType === 'bundle' && (
+          <div className="mt-8 p-6 border rounded-lg bg-indigo-50">
+            <h3 className="text-lg font-semibold mb-2 text-indigo-800">Bundle Components</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              Selling one bundle reserves and deducts these amounts from each component&apos;s stock. The bundle itself holds no stock.
+            </p>
+            <BundleComponentsEditor value={bundleComponents} onChange={setBundleComponents} />
+          </div>
+        )}
+
         {/* Group Product Addons */}
         {formData.productType === 'group' && (
           <div className="mt-8 p-6 border rounded-lg bg-green-50">
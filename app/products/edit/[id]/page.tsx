@@ -5,6 +5,7 @@ import ImageUploader from '../../../components/ImageUploader';
 import CurrencySymbol from '../../../components/CurrencySymbol';
 import RichTextEditor from '../../../components/RichTextEditor';
 import TagSelector from '../../../components/TagSelector';
+import BundleComponentsEditor, { toBundleComponentInputs, type BundleComponentRow } from '../../../components/BundleComponentsEditor';
 import VariantManager from '../../../../components/VariantManager';
 import useProductVariants from '../../../../hooks/useProductVariants';
 import { formatPrice, calculatePriceRange, generateSlug, isValidSlug } from '../../../../utils/priceUtils';
@@ -127,6 +128,7 @@ export default function EditProduct() {
     banner: '', // Banner image URL
     // Weight-based stock management fields
     stockManagementType: 'quantity', // 'quantity' or 'weight'
+    stockTracking: '', // '' follows the store setting; 'track', 'untracked' or 'backorder'
     pricePerUnit: '', // Price per gram for weight-based products
     baseWeightUnit: 'grams', // 'grams' or 'kg'
     // Cannabis-specific fields
@@ -157,6 +159,10 @@ export default function EditProduct() {
   const [availableAddons, setAvailableAddons] = useState<Addon[]>([]);
   const [selectedAddons, setSelectedAddons] = useState<SelectedAddon[]>([]);
   
+  // Bundle product specific states
+  const [bundleComponents, setBundleComponents] = useState<BundleComponentRow[]>([]);
+  const [bundleAvailable, setBundleAvailable] = useState<number | null>(null);
+  
   // Tag selection state
   const [selectedTags, setSelectedTags] = useState<SelectedTag[]>([]);
   
@@ -244,6 +250,7 @@ export default function EditProduct() {
         banner: product.banner || '', // Banner image URL
         // Weight-based stock management fields
         stockManagementType: product.stockManagementType || 'quantity',
+        stockTracking: product.stockTracking || '',
         pricePerUnit: product.pricePerUnit || '',
         baseWeightUnit: product.baseWeightUnit || 'grams',
         // Cannabis-specific fields
@@ -285,6 +292,20 @@ export default function EditProduct() {
         setCustomUom(productUom);
       }
       
+      if (product.productType === 'bundle') {
+        const bundleRes = await fetch(`/api/products/${productId}/bundle`);
+        if (bundleRes.ok) {
+          const bundleData = await bundleRes.json();
+          setBundleAvailable(bundleData.available);
+          setBundleComponents(bundleData.components.map((component: any) => ({
+            productId: component.productId,
+            variantId: component.variantId || '',
+            quantity: component.quantity ? component.quantity.toString() : '',
+            weightQuantity: component.weightQuantity ? component.weightQuantity.toString() : '',
+          })));
+        }
+      }
+      
       setImages(Array.isArray(productImages) ? productImages : []);
       setCategories(categoriesData);
       setAvailableAttributes(attributesData);
@@ -642,6 +663,21 @@ export default function EditProduct() {
         throw new Error(data.error || 'Failed to update product');
       }
 
+      if (formData.productType === 'bundle') {
+        const bundleResponse = await fetch(`/api/products/${productId}/bundle`, {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ components: toBundleComponentInputs(bundleComponents) }),
+        });
+
+        if (!bundleResponse.ok) {
+          const data = await bundleResponse.json();
+          throw new Error(data.error || 'Failed to update bundle components');
+        }
+      }
+
       router.push('/products');
     } catch (err: any) {
       setError(err.message);
@@ -727,6 +763,18 @@ export default function EditProduct() {
               />
               Group Product (with addons)
             </label>
+            <label className="flex items-center">
+              <input
+                type="radio"
+                name="productType"
+                value="bundle"
+                checked={formData.productType === 'bundle'}
+                onChange={handleChange}
+                className="mr-2"
+                disabled={true}
+              />
+              Bundle (kit of existing products)
+            </label>
           </div>
         </div>
 
@@ -767,6 +815,27 @@ export default function EditProduct() {
               )}
             </div>
 
+            <div>
+              <label className="block text-gray-700 mb-2" htmlFor="stockTracking">
+                Stock Tracking
+              </label>
+              <select
+                id="stockTracking"
+                name="stockTracking"
+                value={formData.stockTracking}
+                onChange={handleChange}
+                className="w-full md:w-1/2 p-2 border rounded focus:border-blue-500 focus:outline-none"
+              >
+                <option value="">Follow store setting</option>
+                <option value="track">Track stock</option>
+                <option value="untracked">Don&apos;t track stock</option>
+                <option value="backorder">Track stock, allow backorders</option>
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Untracked products never reserve or deduct stock; backorderable products can be ordered when out of stock.
+              </p>
+            </div>
+
                          {/* Weight-based specific fields */}
              {formData.stockManagementType === 'weight' && (
                <div className="mt-4 p-4 bg-white border rounded-lg">
@@ -1075,7 +1144,7 @@ export default function EditProduct() {
             </div>
             
             {/* Only show pricing fields for simple products and quantity-based */}
-            {formData.productType === 'simple' && formData.stockManagementType === 'quantity' && (
+            {(formData.productType === 'simple' || formData.productType === 'bundle') && formData.stockManagementType === 'quantity' && (
               <>
                 <div>
                   <label className="block text-gray-700 mb-2" htmlFor="price">
@@ -1774,6 +1843,22 @@ export default function EditProduct() {
         </div>
 
 
+        {/* Bundle Components */}
+        {formData.productType === 'bundle' && (
+          <div className="mt-6 p-6 border rounded-lg bg-indigo-50">
+            <div className="flex justify-between items-start mb-2">
+              <h3 className="text-lg font-semibold text-indigo-800">Bundle Components</h3>
+              <span className="text-sm text-indigo-800">
+                Available: <strong>{bundleAvailable === null ? 'Not limited' : bundleAvailable}</strong>
+              </span>
+            </div>
+            <p className="text-sm text-gray-600 mb-4">
+              Selling one bundle reserves and deducts these amounts from each component&apos;s stock. The bundle itself holds no stock.
+            </p>
+            <BundleComponentsEditor value={bundleComponents} onChange={setBundleComponents} excludeProductId={productId} />
+          </div>
+        )}
+
         {/* Variable Product Variants - Using our optimized VariantManager */}
         {formData.productType === 'variable' && (
           <div className="mt-6">
@@ -0,0 +1,260 @@
+'use client';
+import React, { useState, useEffect } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import CurrencySymbol from '../../components/CurrencySymbol';
+
+interface RefundSummary {
+  order: {
+    id: string;
+    orderNumber: string;
+    email: string;
+    status: string;
+    paymentStatus: string | null;
+    totalAmount: string;
+  };
+  refundedAmount: number;
+  pendingAmount: number;
+  refundableAmount: number;
+}
+
+export default function AddRefund() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [orderRef, setOrderRef] = useState(searchParams.get('order') || '');
+  const [summary, setSummary] = useState<RefundSummary | null>(null);
+  const [formData, setFormData] = useState({
+    amount: '',
+    reason: '',
+    method: 'original_payment',
+    transactionId: '',
+    notes: '',
+    process: true,
+  });
+  const [lookingUp, setLookingUp] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const lookupOrder = async (ref: string) => {
+    if (!ref.trim()) return;
+    setLookingUp(true);
+    setError('');
+    setSummary(null);
+    try {
+      const res = await fetch(`/api/refunds/refundable?order=${encodeURIComponent(ref.trim())}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Order not found');
+        return;
+      }
+      setSummary(data);
+      setFormData(prev => ({ ...prev, amount: data.refundableAmount > 0 ? data.refundableAmount.toFixed(2) : '' }));
+    } catch (err) {
+      console.error('Error looking up order:', err);
+      setError('Failed to load order');
+    } finally {
+      setLookingUp(false);
+    }
+  };
+
+  useEffect(() => {
+    // Opened from an order screen with ?order=<id>
+    if (orderRef) lookupOrder(orderRef);
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!summary) return;
+
+    const amount = parseFloat(formData.amount);
+    if (!amount || amount <= 0) {
+      setError('Enter a refund amount greater than zero');
+      return;
+    }
+    if (amount > summary.refundableAmount) {
+      setError(`Refund cannot exceed ${summary.refundableAmount.toFixed(2)}`);
+      return;
+    }
+
+    setSubmitting(true);
+    setError('');
+    try {
+      const res = await fetch('/api/refunds', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          orderId: summary.order.id,
+          amount,
+          reason: formData.reason,
+          method: formData.method,
+          transactionId: formData.transactionId,
+          notes: formData.notes,
+          process: formData.process,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to create refund');
+        return;
+      }
+      router.push('/refunds');
+    } catch (err) {
+      console.error('Error creating refund:', err);
+      setError('Failed to create refund');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="p-4 max-w-3xl">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Process New Refund</h1>
+        <Link href="/refunds" className="px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600">
+          Back to Refunds
+        </Link>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-700 rounded">{error}</div>
+      )}
+
+      <div className="mb-6 flex gap-2">
+        <input
+          type="text"
+          value={orderRef}
+          onChange={(e) => setOrderRef(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); lookupOrder(orderRef); } }}
+          placeholder="Order number (e.g. ORD-...)"
+          className="flex-1 p-2 border rounded"
+        />
+        <button
+          type="button"
+          onClick={() => lookupOrder(orderRef)}
+          disabled={lookingUp || !orderRef.trim()}
+          className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+        >
+          {lookingUp ? 'Looking up...' : 'Find Order'}
+        </button>
+      </div>
+
+      {summary && (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="p-4 bg-gray-50 border rounded">
+            <div className="font-medium">Order {summary.order.orderNumber}</div>
+            <div className="text-sm text-gray-600">
+              {summary.order.email} · Payment: {(summary.order.paymentStatus || 'pending').replace(/_/g, ' ')}
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mt-3 text-sm">
+              <div>
+                <div className="text-gray-500">Order Total</div>
+                <div className="flex items-center gap-1 font-medium"><CurrencySymbol />{parseFloat(summary.order.totalAmount).toFixed(2)}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Refunded</div>
+                <div className="flex items-center gap-1 font-medium"><CurrencySymbol />{summary.refundedAmount.toFixed(2)}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Pending</div>
+                <div className="flex items-center gap-1 font-medium"><CurrencySymbol />{summary.pendingAmount.toFixed(2)}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Refundable</div>
+                <div className="flex items-center gap-1 font-semibold text-green-700"><CurrencySymbol />{summary.refundableAmount.toFixed(2)}</div>
+              </div>
+            </div>
+          </div>
+
+          {summary.refundableAmount <= 0 ? (
+            <div className="p-3 bg-yellow-50 border border-yellow-200 text-yellow-800 rounded">
+              This order has nothing left to refund.
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block mb-1 font-medium">Amount *</label>
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      min={0.01}
+                      max={summary.refundableAmount}
+                      step="0.01"
+                      value={formData.amount}
+                      onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                      className="flex-1 p-2 border rounded"
+                      required
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setFormData({ ...formData, amount: summary.refundableAmount.toFixed(2) })}
+                      className="px-3 py-2 bg-gray-200 rounded hover:bg-gray-300 text-sm"
+                    >
+                      Full
+                    </button>
+                  </div>
+                </div>
+                <div>
+                  <label className="block mb-1 font-medium">Method</label>
+                  <select
+                    value={formData.method}
+                    onChange={(e) => setFormData({ ...formData, method: e.target.value })}
+                    className="w-full p-2 border rounded"
+                  >
+                    <option value="original_payment">Original Payment</option>
+                    <option value="store_credit">Store Credit</option>
+                    <option value="manual">Manual</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block mb-1 font-medium">Reason</label>
+                  <input
+                    type="text"
+                    value={formData.reason}
+                    onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                    className="w-full p-2 border rounded"
+                  />
+                </div>
+                <div>
+                  <label className="block mb-1 font-medium">Transaction ID</label>
+                  <input
+                    type="text"
+                    value={formData.transactionId}
+                    onChange={(e) => setFormData({ ...formData, transactionId: e.target.value })}
+                    className="w-full p-2 border rounded"
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block mb-1 font-medium">Notes</label>
+                  <textarea
+                    value={formData.notes}
+                    onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                    className="w-full p-2 border rounded"
+                    rows={2}
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={formData.process}
+                  onChange={(e) => setFormData({ ...formData, process: e.target.checked })}
+                />
+                Complete now (updates the order&apos;s payment status and reverses loyalty points)
+              </label>
+
+              <button
+                type="submit"
+                disabled={submitting}
+                className="px-6 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+              >
+                {submitting ? 'Saving...' : formData.process ? 'Process Refund' : 'Create Pending Refund'}
+              </button>
+            </>
+          )}
+        </form>
+      )}
+    </div>
+  );
+}
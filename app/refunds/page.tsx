@@ -45,29 +45,61 @@ export default function RefundsList() {
   };
 
   const handleStatusUpdate = async (id: string, newStatus: string) => {
+    let transactionId: string | null = null;
+    if (newStatus === 'completed') {
+      transactionId = prompt('Payment transaction reference (optional):');
+      if (transactionId === null) return;
+    } else if (!confirm('Mark this refund as failed?')) {
+      return;
+    }
+
     try {
       const response = await fetch(`/api/refunds/${id}`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify({ status: newStatus, transactionId: transactionId || undefined }),
       });
+      const data = await response.json();
 
       if (response.ok) {
+        if (data.loyalty && (data.loyalty.pointsClawedBack || data.loyalty.pointsRestored)) {
+          alert(`Refund completed. Loyalty points reversed: ${data.loyalty.pointsClawedBack}, restored: ${data.loyalty.pointsRestored}`);
+        }
         fetchRefunds(); // Refresh the list
       } else {
-        console.error('Failed to update refund status');
+        alert(`Failed to update refund: ${data.error}`);
       }
     } catch (error) {
       console.error('Error updating refund status:', error);
     }
   };
 
+  const handleIssueFbrNote = async (id: string) => {
+    if (!confirm('Issue an FBR Debit Note for this refund? It will be submitted to FBR against the original invoice.')) return;
+    try {
+      const res = await fetch('/api/fbr/notes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refundId: id, noteType: 'Debit Note' }),
+      });
+      const data = await res.json();
+      alert(res.ok ? data.message : `Failed to issue FBR note: ${data.error}`);
+    } catch (error) {
+      console.error('Error issuing FBR note:', error);
+    }
+  };
+
   const handleDelete = async (id: string) => {
     if (confirm('Are you sure you want to delete this refund record?')) {
       try {
-        await fetch(`/api/refunds/${id}`, { method: 'DELETE' });
+        const res = await fetch(`/api/refunds/${id}`, { method: 'DELETE' });
+        if (!res.ok) {
+          const data = await res.json();
+          alert(`Failed to delete refund: ${data.error}`);
+          return;
+        }
         setRefunds(refunds.filter((refund: any) => refund.refund.id !== id));
       } catch (error) {
         console.error('Error deleting refund:', error);
@@ -122,8 +154,9 @@ export default function RefundsList() {
         </div>
         
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-          <div className="text-2xl font-bold text-blue-800">
-            ${refunds.reduce((sum: number, r: any) => 
+          <div className="text-2xl font-bold text-blue-800 flex items-center gap-1">
+            <CurrencySymbol />
+            {refunds.reduce((sum: number, r: any) => 
               r.refund.status === 'completed' ? sum + parseFloat(r.refund.amount) : sum, 0
             ).toFixed(2)}
           </div>
@@ -156,7 +189,7 @@ export default function RefundsList() {
                   <td className="border p-2">{item.return?.returnNumber || 'N/A'}</td>
                   <td className="border p-2 font-semibold">{formatAmount(item.refund.amount)}</td>
                   <td className="border p-2">{item.refund.reason || 'No reason provided'}</td>
-                  <td className="border p-2 capitalize">{item.refund.method || 'original_payment'}</td>
+                  <td className="border p-2 capitalize">{(item.refund.method || 'original_payment').replace(/_/g, ' ')}</td>
                   <td className="border p-2">
                     <span className={`px-2 py-1 rounded text-xs ${getStatusBadge(item.refund.status)}`}>
                       {item.refund.status}
@@ -182,18 +215,22 @@ export default function RefundsList() {
                           </button>
                         </>
                       )}
-                      <Link 
-                        href={`/refunds/edit/${item.refund.id}`}
-                        className="px-2 py-1 bg-blue-500 text-white rounded text-xs hover:bg-blue-600"
-                      >
-                        Edit
-                      </Link>
-                      <button 
-                        onClick={() => handleDelete(item.refund.id)}
-                        className="px-2 py-1 bg-gray-500 text-white rounded text-xs hover:bg-gray-600"
-                      >
-                        Delete
-                      </button>
+                      {item.refund.status === 'completed' && (
+                        <button 
+                          onClick={() => handleIssueFbrNote(item.refund.id)}
+                          className="px-2 py-1 bg-purple-500 text-white rounded text-xs hover:bg-purple-600"
+                        >
+                          FBR Note
+                        </button>
+                      )}
+                      {item.refund.status !== 'completed' && (
+                        <button 
+                          onClick={() => handleDelete(item.refund.id)}
+                          className="px-2 py-1 bg-gray-500 text-white rounded text-xs hover:bg-gray-600"
+                        >
+                          Delete
+                        </button>
+                      )}
                     </div>
                   </td>
                 </tr>
@@ -0,0 +1,438 @@
+'use client';
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import CurrencySymbol from '../../components/CurrencySymbol';
+import { getDateRanges } from '@/utils/profitUtils';
+
+type ReconciliationStatus = 'matched' | 'pending' | 'missing' | 'duplicate' | 'rejected' | 'mismatch';
+
+interface ReconciliationRow {
+  orderId: string;
+  orderNumber: string;
+  createdAt: string | null;
+  invoiceNumber: string | null;
+  fbrInvoiceNumber: string | null;
+  fbrEnvironment: string | null;
+  submissionStatus: string | null;
+  localTotal: number;
+  fbrTotal: number | null;
+  localTax: number;
+  fbrTax: number | null;
+  localFurtherTax: number;
+  fbrFurtherTax: number | null;
+  localExtraTax: number;
+  fbrExtraTax: number | null;
+  status: ReconciliationStatus;
+  issues: Array<{ type: string; message: string }>;
+  items: Array<{
+    productName: string;
+    hsCode?: string | null;
+    quantity: number;
+    fbrQuantity?: number;
+    taxAmount: number;
+    fbrSalesTax?: number;
+    furtherTax: number;
+    fbrFurtherTax?: number;
+    extraTax: number;
+    fbrExtraTax?: number;
+    matched: boolean;
+  }>;
+}
+
+interface ReconciliationData {
+  summary: {
+    totalOrders: number;
+    matched: number;
+    pending: number;
+    missing: number;
+    duplicate: number;
+    rejected: number;
+    mismatch: number;
+    localTotal: number;
+    fbrTotal: number;
+    localTax: number;
+    fbrTax: number;
+  };
+  rows: ReconciliationRow[];
+}
+
+const STATUS_TABS: Array<{ key: '' | ReconciliationStatus; label: string }> = [
+  { key: '', label: 'All' },
+  { key: 'missing', label: 'Missing' },
+  { key: 'duplicate', label: 'Duplicate' },
+  { key: 'rejected', label: 'Rejected' },
+  { key: 'mismatch', label: 'Amount Mismatch' },
+  { key: 'pending', label: 'Pending' },
+  { key: 'matched', label: 'Matched' },
+];
+
+export default function FbrReconciliationReport() {
+  const [data, setData] = useState<ReconciliationData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [expandedOrderId, setExpandedOrderId] = useState<string | null>(null);
+
+  // Filters
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [environment, setEnvironment] = useState('');
+  const [selectedStatus, setSelectedStatus] = useState<'' | ReconciliationStatus>('');
+
+  const dateRanges = getDateRanges();
+
+  const formatAmount = (amount: number | null | undefined) => {
+    if (amount === null || amount === undefined) return <span className="text-gray-400">—</span>;
+    return (
+      <span className="flex items-center gap-1">
+        <CurrencySymbol />{Number(amount).toFixed(2)}
+      </span>
+    );
+  };
+
+  useEffect(() => {
+    fetchReport();
+  }, [startDate, endDate, environment]);
+
+  const buildParams = () => {
+    const params = new URLSearchParams();
+    if (startDate) params.append('startDate', startDate);
+    if (endDate) params.append('endDate', endDate);
+    if (environment) params.append('environment', environment);
+    return params;
+  };
+
+  const fetchReport = async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/reports/fbr-reconciliation?${buildParams().toString()}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch reconciliation data');
+      }
+
+      const result = await response.json();
+      setData(result);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExport = (format: 'csv' | 'excel') => {
+    const params = buildParams();
+    if (selectedStatus) params.append('status', selectedStatus);
+    params.append('export', format);
+
+    window.open(`/api/reports/fbr-reconciliation?${params.toString()}`, '_blank');
+  };
+
+  const setPresetDateRange = (preset: keyof typeof dateRanges) => {
+    const range = dateRanges[preset];
+    setStartDate(range.startDate);
+    setEndDate(range.endDate);
+  };
+
+  const clearFilters = () => {
+    setStartDate('');
+    setEndDate('');
+    setEnvironment('');
+    setSelectedStatus('');
+  };
+
+  const getStatusBadgeColor = (status: string) => {
+    const colors: { [key: string]: string } = {
+      matched: 'bg-green-100 text-green-800',
+      pending: 'bg-yellow-100 text-yellow-800',
+      missing: 'bg-red-100 text-red-800',
+      duplicate: 'bg-orange-100 text-orange-800',
+      rejected: 'bg-red-100 text-red-800',
+      mismatch: 'bg-purple-100 text-purple-800'
+    };
+    return colors[status] || 'bg-gray-100 text-gray-800';
+  };
+
+  const countForTab = (key: '' | ReconciliationStatus) => {
+    if (!data) return 0;
+    if (!key) return data.summary.totalOrders;
+    return data.rows.filter(row => row.status === key).length;
+  };
+
+  const visibleRows = data ? data.rows.filter(row => !selectedStatus || row.status === selectedStatus) : [];
+
+  if (loading && !data) return (
+    <div className="p-8 text-center">
+      <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-blue-500 mx-auto"></div>
+      <p className="mt-4 text-gray-600">Loading reconciliation data...</p>
+    </div>
+  );
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800">FBR Reconciliation</h1>
+          <p className="text-gray-600 mt-1">Compare local orders with the invoices posted to FBR</p>
+        </div>
+        <div className="flex gap-3">
+          <button
+            onClick={() => handleExport('csv')}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+            disabled={!data}
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => handleExport('excel')}
+            className="px-4 py-2 bg-emerald-700 text-white rounded-lg hover:bg-emerald-800 transition-colors"
+            disabled={!data}
+          >
+            Export Excel
+          </button>
+          <Link
+            href="/reports"
+            className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+          >
+            ← Back to Reports
+          </Link>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-xl shadow-lg border p-6 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Start Date</label>
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">End Date</label>
+            <input
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">FBR Environment</label>
+            <select
+              value={environment}
+              onChange={(e) => setEnvironment(e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">All Environments</option>
+              <option value="production">Production</option>
+              <option value="sandbox">Sandbox</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {Object.entries(dateRanges).map(([key, range]) => (
+            <button
+              key={key}
+              onClick={() => setPresetDateRange(key as keyof typeof dateRanges)}
+              className="px-3 py-1 text-sm bg-blue-100 text-blue-700 rounded-full hover:bg-blue-200 transition-colors"
+            >
+              {range.label}
+            </button>
+          ))}
+          <button
+            onClick={clearFilters}
+            className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-full hover:bg-gray-200 transition-colors"
+          >
+            Clear All
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-100 border border-red-300 text-red-700 rounded-lg">
+          Error: {error}
+        </div>
+      )}
+
+      {data && (
+        <>
+          {/* Summary Cards */}
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-6">
+            <div className="bg-white rounded-xl shadow-lg border p-4">
+              <p className="text-sm font-medium text-gray-600">Invoiced Orders</p>
+              <p className="text-2xl font-bold text-blue-600">{data.summary.totalOrders}</p>
+            </div>
+            <div className="bg-white rounded-xl shadow-lg border p-4">
+              <p className="text-sm font-medium text-gray-600">Matched</p>
+              <p className="text-2xl font-bold text-green-600">{data.summary.matched}</p>
+            </div>
+            <div className="bg-white rounded-xl shadow-lg border p-4">
+              <p className="text-sm font-medium text-gray-600">Missing</p>
+              <p className="text-2xl font-bold text-red-600">{data.summary.missing}</p>
+            </div>
+            <div className="bg-white rounded-xl shadow-lg border p-4">
+              <p className="text-sm font-medium text-gray-600">Duplicate</p>
+              <p className="text-2xl font-bold text-orange-600">{data.summary.duplicate}</p>
+            </div>
+            <div className="bg-white rounded-xl shadow-lg border p-4">
+              <p className="text-sm font-medium text-gray-600">Rejected</p>
+              <p className="text-2xl font-bold text-red-600">{data.summary.rejected}</p>
+            </div>
+            <div className="bg-white rounded-xl shadow-lg border p-4">
+              <p className="text-sm font-medium text-gray-600">Amount Mismatch</p>
+              <p className="text-2xl font-bold text-purple-600">{data.summary.mismatch}</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            <div className="bg-white rounded-xl shadow-lg border p-4 flex justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-600">Local Total (excl. shipping)</p>
+                <p className="text-xl font-bold">{formatAmount(data.summary.localTotal)}</p>
+              </div>
+              <div className="text-right">
+                <p className="text-sm font-medium text-gray-600">Posted to FBR</p>
+                <p className="text-xl font-bold">{formatAmount(data.summary.fbrTotal)}</p>
+              </div>
+            </div>
+            <div className="bg-white rounded-xl shadow-lg border p-4 flex justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-600">Local Sales Tax</p>
+                <p className="text-xl font-bold">{formatAmount(data.summary.localTax)}</p>
+              </div>
+              <div className="text-right">
+                <p className="text-sm font-medium text-gray-600">FBR Sales Tax</p>
+                <p className="text-xl font-bold">{formatAmount(data.summary.fbrTax)}</p>
+              </div>
+            </div>
+          </div>
+
+          {/* Status Tabs */}
+          <div className="flex flex-wrap gap-2 mb-4">
+            {STATUS_TABS.map(tab => (
+              <button
+                key={tab.key || 'all'}
+                onClick={() => setSelectedStatus(tab.key)}
+                className={`px-3 py-1 text-sm rounded-full transition-colors ${
+                  selectedStatus === tab.key ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {tab.label} ({countForTab(tab.key)})
+              </button>
+            ))}
+          </div>
+
+          {/* Orders Table */}
+          <div className="bg-white shadow-md rounded-lg overflow-x-auto">
+            <table className="min-w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Order</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Invoice Number</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Environment</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Total / FBR</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Tax / FBR</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Issues</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {visibleRows.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-8 text-center text-gray-500">No invoices found for this period</td>
+                  </tr>
+                ) : visibleRows.map(row => (
+                  <React.Fragment key={row.orderId}>
+                    <tr
+                      className="align-top hover:bg-gray-50 cursor-pointer"
+                      onClick={() => setExpandedOrderId(expandedOrderId === row.orderId ? null : row.orderId)}
+                    >
+                      <td className="px-4 py-3">
+                        <Link
+                          href={`/orders/${row.orderId}`}
+                          className="text-blue-600 hover:underline font-medium"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          {row.orderNumber}
+                        </Link>
+                        <div className="text-xs text-gray-500">
+                          {row.createdAt ? new Date(row.createdAt).toLocaleDateString() : ''}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        {row.invoiceNumber || <span className="text-gray-400">—</span>}
+                        {row.fbrInvoiceNumber && row.fbrInvoiceNumber !== row.invoiceNumber && (
+                          <div className="text-xs text-gray-500">FBR: {row.fbrInvoiceNumber}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm capitalize">
+                        {row.fbrEnvironment || '—'}
+                        {row.submissionStatus && <div className="text-xs text-gray-500">{row.submissionStatus}</div>}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        {formatAmount(row.localTotal)}
+                        <div className="text-xs text-gray-500">{formatAmount(row.fbrTotal)}</div>
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        {formatAmount(row.localTax)}
+                        <div className="text-xs text-gray-500">{formatAmount(row.fbrTax)}</div>
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-1 rounded-full text-xs capitalize ${getStatusBadgeColor(row.status)}`}>
+                          {row.status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-xs text-gray-600">
+                        {row.issues.length === 0 ? '—' : row.issues.map((issue, index) => (
+                          <div key={index}>{issue.message}</div>
+                        ))}
+                      </td>
+                    </tr>
+                    {expandedOrderId === row.orderId && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={7} className="px-4 py-3">
+                          <table className="min-w-full text-xs">
+                            <thead>
+                              <tr className="text-gray-500">
+                                <th className="px-2 py-1 text-left">Item</th>
+                                <th className="px-2 py-1 text-left">HS Code</th>
+                                <th className="px-2 py-1 text-right">Qty / FBR</th>
+                                <th className="px-2 py-1 text-right">Tax / FBR</th>
+                                <th className="px-2 py-1 text-right">Further Tax / FBR</th>
+                                <th className="px-2 py-1 text-right">Extra Tax / FBR</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {row.items.map((item, index) => (
+                                <tr key={index} className={item.matched ? '' : 'text-red-700'}>
+                                  <td className="px-2 py-1">{item.productName}</td>
+                                  <td className="px-2 py-1">{item.hsCode || '—'}</td>
+                                  <td className="px-2 py-1 text-right">{item.quantity} / {item.fbrQuantity ?? '—'}</td>
+                                  <td className="px-2 py-1 text-right">{item.taxAmount.toFixed(2)} / {item.fbrSalesTax?.toFixed(2) ?? '—'}</td>
+                                  <td className="px-2 py-1 text-right">{item.furtherTax.toFixed(2)} / {item.fbrFurtherTax?.toFixed(2) ?? '—'}</td>
+                                  <td className="px-2 py-1 text-right">{item.extraTax.toFixed(2)} / {item.fbrExtraTax?.toFixed(2) ?? '—'}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+'use client';
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import CurrencySymbol from '../../components/CurrencySymbol';
+import { formatWeightAuto } from '@/utils/weightUtils';
+
+interface ValuationLine {
+  inventoryId: string;
+  productName: string;
+  variantTitle: string | null;
+  sku: string | null;
+  categoryName: string;
+  locationName: string;
+  isWeightBased: boolean;
+  onHand: number;
+  unitCost: number | null;
+  value: number;
+}
+
+interface ValuationData {
+  asOf: string | null;
+  method: 'weighted_average' | 'fifo';
+  totalValue: number;
+  uncostedLines: number;
+  byCategory: Array<{ categoryId: string | null; categoryName: string; lines: number; value: number }>;
+  byLocation: Array<{ locationId: string; locationName: string; lines: number; value: number }>;
+  lines: ValuationLine[];
+}
+
+const METHOD_LABELS: Record<string, string> = {
+  weighted_average: 'Weighted average',
+  fifo: 'FIFO',
+};
+
+export default function InventoryValuationReport() {
+  const [data, setData] = useState<ValuationData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [locations, setLocations] = useState<Array<{ id: string; name: string }>>([]);
+  const [categories, setCategories] = useState<Array<{ id: string; name: string }>>([]);
+
+  // Filters
+  const [asOf, setAsOf] = useState('');
+  const [method, setMethod] = useState('');
+  const [locationId, setLocationId] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+
+  const formatAmount = (amount: number) => (
+    <span className="flex items-center justify-end gap-1">
+      <CurrencySymbol />{amount.toFixed(2)}
+    </span>
+  );
+
+  useEffect(() => {
+    Promise.all([fetch('/api/inventory/locations'), fetch('/api/categories')])
+      .then(async ([locationsRes, categoriesRes]) => {
+        if (locationsRes.ok) setLocations(await locationsRes.json());
+        if (categoriesRes.ok) setCategories(await categoriesRes.json());
+      })
+      .catch(err => console.error('Error fetching valuation filters:', err));
+  }, []);
+
+  useEffect(() => {
+    fetchReport();
+  }, [asOf, method, locationId, categoryId]);
+
+  const buildParams = () => {
+    const params = new URLSearchParams();
+    if (asOf) params.append('asOf', asOf);
+    if (method) params.append('method', method);
+    if (locationId) params.append('locationId', locationId);
+    if (categoryId) params.append('categoryId', categoryId);
+    return params;
+  };
+
+  const fetchReport = async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/reports/inventory-valuation?${buildParams().toString()}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch inventory valuation');
+      }
+
+      setData(await response.json());
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExport = () => {
+    const params = buildParams();
+    params.append('export', 'csv');
+    window.open(`/api/reports/inventory-valuation?${params.toString()}`, '_blank');
+  };
+
+  if (loading && !data) return (
+    <div className="p-8 text-center">
+      <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-blue-500 mx-auto"></div>
+      <p className="mt-4 text-gray-600">Loading inventory valuation...</p>
+    </div>
+  );
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800">Inventory Valuation</h1>
+          <p className="text-gray-600 mt-1">
+            Stock value {data?.asOf ? `as of ${new Date(data.asOf).toLocaleDateString()}` : 'today'}
+            {data && ` · ${METHOD_LABELS[data.method]} costing`}
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <button
+            onClick={handleExport}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+            disabled={!data}
+          >
+            Export CSV
+          </button>
+          <Link
+            href="/reports"
+            className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+          >
+            ← Back to Reports
+          </Link>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white p-4 rounded-lg shadow mb-6 grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">As of</label>
+          <input type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} className="w-full p-2 border rounded" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Costing Method</label>
+          <select value={method} onChange={(e) => setMethod(e.target.value)} className="w-full p-2 border rounded">
+            <option value="">Store setting</option>
+            <option value="weighted_average">Weighted average</option>
+            <option value="fifo">FIFO</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+          <select value={locationId} onChange={(e) => setLocationId(e.target.value)} className="w-full p-2 border rounded">
+            <option value="">All Locations</option>
+            {locations.map(location => (
+              <option key={location.id} value={location.id}>{location.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+          <select value={categoryId} onChange={(e) => setCategoryId(e.target.value)} className="w-full p-2 border rounded">
+            <option value="">All Categories</option>
+            {categories.map(category => (
+              <option key={category.id} value={category.id}>{category.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-700 rounded">{error}</div>
+      )}
+
+      {data && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            <div className="bg-white p-4 rounded-lg shadow">
+              <div className="text-sm text-gray-500">Total Stock Value</div>
+              <div className="text-2xl font-bold">{formatAmount(data.totalValue)}</div>
+            </div>
+            <div className="bg-white p-4 rounded-lg shadow">
+              <div className="text-sm text-gray-500">Stocked Lines</div>
+              <div className="text-2xl font-bold">{data.lines.length}</div>
+            </div>
+            <div className="bg-white p-4 rounded-lg shadow">
+              <div className="text-sm text-gray-500">Lines Without a Cost</div>
+              <div className={`text-2xl font-bold ${data.uncostedLines > 0 ? 'text-orange-600' : ''}`}>{data.uncostedLines}</div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+            <div className="bg-white p-4 rounded-lg shadow">
+              <h2 className="text-xl font-semibold mb-3">By Category</h2>
+              <table className="w-full text-sm">
+                <tbody>
+                  {data.byCategory.map(category => (
+                    <tr key={category.categoryId || 'none'} className="border-b">
+                      <td className="py-2">{category.categoryName}</td>
+                      <td className="py-2 text-gray-500 text-right">{category.lines} line(s)</td>
+                      <td className="py-2 text-right font-medium">{formatAmount(category.value)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="bg-white p-4 rounded-lg shadow">
+              <h2 className="text-xl font-semibold mb-3">By Location</h2>
+              <table className="w-full text-sm">
+                <tbody>
+                  {data.byLocation.map(location => (
+                    <tr key={location.locationId} className="border-b">
+                      <td className="py-2">{location.locationName}</td>
+                      <td className="py-2 text-gray-500 text-right">{location.lines} line(s)</td>
+                      <td className="py-2 text-right font-medium">{formatAmount(location.value)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="p-3 text-left">Product</th>
+                  <th className="p-3 text-left">Category</th>
+                  <th className="p-3 text-left">Location</th>
+                  <th className="p-3 text-right">On Hand</th>
+                  <th className="p-3 text-right">Unit Cost</th>
+                  <th className="p-3 text-right">Value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.lines.length > 0 ? data.lines.map(line => (
+                  <tr key={line.inventoryId} className="border-t">
+                    <td className="p-3">
+                      <div>{line.productName}{line.variantTitle && ` - ${line.variantTitle}`}</div>
+                      <div className="text-xs text-gray-500">{line.sku || 'No SKU'}</div>
+                    </td>
+                    <td className="p-3">{line.categoryName}</td>
+                    <td className="p-3">{line.locationName}</td>
+                    <td className="p-3 text-right">
+                      {line.isWeightBased ? formatWeightAuto(line.onHand).formattedString : line.onHand}
+                    </td>
+                    <td className="p-3 text-right">
+                      {line.unitCost !== null ? (
+                        <span className="flex items-center justify-end gap-1">
+                          <CurrencySymbol />{line.unitCost.toFixed(2)}{line.isWeightBased && '/kg'}
+                        </span>
+                      ) : (
+                        <span className="text-orange-600">No cost</span>
+                      )}
+                    </td>
+                    <td className="p-3 text-right font-medium">{formatAmount(line.value)}</td>
+                  </tr>
+                )) : (
+                  <tr>
+                    <td colSpan={6} className="p-6 text-center text-gray-500">No stock on hand</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
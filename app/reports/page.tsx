@@ -48,6 +48,28 @@ export default function ReportsHub() {
             </svg>
           ),
           color: 'bg-purple-500 hover:bg-purple-600'
+        },
+        {
+          title: 'FBR Reconciliation',
+          description: 'Match local invoices against what was posted to FBR',
+          href: '/reports/fbr-reconciliation',
+          icon: (
+            <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24">
+              <path d="M14,2H6A2,2 0 0,0 4,4V20A2,2 0 0,0 6,22H18A2,2 0 0,0 20,20V8L14,2M10.5,18L7,14.5L8.41,13.09L10.5,15.17L15.59,10.09L17,11.5L10.5,18M13,9V3.5L18.5,9H13Z"/>
+            </svg>
+          ),
+          color: 'bg-teal-500 hover:bg-teal-600'
+        },
+        {
+          title: 'Inventory Valuation',
+          description: 'Stock value as of any date by category and location',
+          href: '/reports/inventory-valuation',
+          icon: (
+            <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24">
+              <path d="M12,2L2,7V17L12,22L22,17V7L12,2M12,4.18L19.82,8.09L12,12L4.18,8.09L12,4.18M4,9.64L11,13.14V19.64L4,16.14V9.64M13,19.64V13.14L20,9.64V16.14L13,19.64Z"/>
+            </svg>
+          ),
+          color: 'bg-amber-500 hover:bg-amber-600'
         }
       ]
     },
@@ -142,7 +164,7 @@ export default function ReportsHub() {
     },
     {
       title: 'Export Formats',
-      value: 'CSV, PDF',
+      value: 'CSV, PDF, Excel',
       icon: (
         <svg className="w-8 h-8" fill="currentColor" viewBox="0 0 24 24">
           <path d="M14,2H6A2,2 0 0,0 4,4V20A2,2 0 0,0 6,22H18A2,2 0 0,0 20,20V8L14,2M18,20H6V4H13V9H18V20Z"/>
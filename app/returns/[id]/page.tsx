@@ -0,0 +1,303 @@
+'use client';
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+
+const STATUS_COLORS: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  received: 'bg-purple-100 text-purple-800',
+  rejected: 'bg-red-100 text-red-800',
+  completed: 'bg-blue-100 text-blue-800',
+};
+
+const TRANSITION_LABELS: Record<string, { label: string; className: string; confirm: string }> = {
+  approved: {
+    label: 'Approve',
+    className: 'bg-green-500 hover:bg-green-600',
+    confirm: 'Approve this return? The customer can then send the items back.',
+  },
+  received: {
+    label: 'Mark as Received',
+    className: 'bg-purple-500 hover:bg-purple-600',
+    confirm: 'Mark the goods as received? Stock will be updated based on each item\'s condition.',
+  },
+  completed: {
+    label: 'Complete & Refund',
+    className: 'bg-blue-500 hover:bg-blue-600',
+    confirm: 'Complete this return? A refund for the refund amount will be created.',
+  },
+  rejected: {
+    label: 'Reject',
+    className: 'bg-red-500 hover:bg-red-600',
+    confirm: 'Reject this return?',
+  },
+};
+
+const RESTOCK_LABELS: Record<string, string> = {
+  restocked: 'Restocked',
+  written_off: 'Written off',
+  none: 'No stock change',
+};
+
+export default function ReturnDetails() {
+  const params = useParams();
+  const id = params.id as string;
+  const [details, setDetails] = useState<any>(null);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [error, setError] = useState('');
+  const [adminNotes, setAdminNotes] = useState('');
+  const [restock, setRestock] = useState(true);
+  const [refundMethod, setRefundMethod] = useState('original_payment');
+  const [conditions, setConditions] = useState<Record<string, string>>({});
+
+  const fetchReturn = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/returns/${id}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error === 'Forbidden' ? 'You do not have permission to view returns' : data.error);
+        return;
+      }
+      setDetails(data);
+      setAdminNotes(data.return.adminNotes || '');
+      setConditions(Object.fromEntries(data.items.map((item: any) => [item.id, item.condition || 'new'])));
+    } catch (err) {
+      console.error('Error fetching return:', err);
+      setError('Failed to load return');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReturn();
+  }, [id]);
+
+  const handleTransition = async (status: string) => {
+    if (!confirm(TRANSITION_LABELS[status].confirm)) return;
+
+    setUpdating(true);
+    setError('');
+    try {
+      const res = await fetch(`/api/returns/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          status,
+          adminNotes,
+          restock,
+          refundMethod,
+          items: status === 'received'
+            ? Object.entries(conditions).map(([itemId, condition]) => ({ id: itemId, condition }))
+            : undefined,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error === 'Forbidden' ? 'You do not have permission for this action' : data.error);
+        return;
+      }
+      await fetchReturn();
+    } catch (err) {
+      console.error('Error updating return:', err);
+      setError('Failed to update return');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  if (loading) return <div>Loading...</div>;
+
+  if (!details) {
+    return (
+      <div className="p-4">
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-700 rounded">{error || 'Return not found'}</div>
+        <Link href="/returns" className="text-blue-600 hover:underline">Back to Returns</Link>
+      </div>
+    );
+  }
+
+  const ret = details.return;
+  const canEditConditions = details.allowedTransitions.includes('received');
+
+  const timeline = [
+    { label: 'Created', at: ret.createdAt },
+    { label: 'Approved', at: ret.approvedAt },
+    { label: 'Received', at: ret.receivedAt },
+    { label: 'Completed', at: ret.completedAt },
+    { label: 'Rejected', at: ret.rejectedAt },
+  ].filter(step => step.at);
+
+  return (
+    <div className="p-4 max-w-5xl">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">Return {ret.returnNumber}</h1>
+          <div className="text-sm text-gray-600">
+            Order{' '}
+            {details.order ? (
+              <Link href={`/orders/${details.order.id}/invoice`} className="text-blue-600 hover:underline font-mono">
+                {details.order.orderNumber}
+              </Link>
+            ) : 'N/A'}
+            {' · '}{details.user?.name || 'Guest'}{details.user?.email ? ` (${details.user.email})` : ''}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className={`px-3 py-1 rounded text-sm ${STATUS_COLORS[ret.status] || 'bg-gray-100 text-gray-800'}`}>
+            {ret.status.charAt(0).toUpperCase() + ret.status.slice(1)}
+          </span>
+          <Link href="/returns" className="px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600">
+            Back
+          </Link>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-700 rounded">{error}</div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="p-4 border rounded">
+          <div className="text-sm text-gray-500">Reason</div>
+          <div className="font-medium">{ret.reason}</div>
+          {ret.description && <div className="text-sm text-gray-600 mt-1">{ret.description}</div>}
+        </div>
+        <div className="p-4 border rounded">
+          <div className="text-sm text-gray-500">Refund Amount</div>
+          <div className="font-medium">{parseFloat(ret.refundAmount || '0').toFixed(2)}</div>
+          <div className="text-sm text-gray-600 mt-1">Restock fee: {parseFloat(ret.restockFee || '0').toFixed(2)}</div>
+        </div>
+        <div className="p-4 border rounded">
+          <div className="text-sm text-gray-500 mb-1">Timeline</div>
+          {timeline.map(step => (
+            <div key={step.label} className="text-sm">
+              <span className="font-medium">{step.label}:</span> {new Date(step.at).toLocaleString()}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto mb-6">
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="border p-2 text-left">Item</th>
+              <th className="border p-2 text-right">Qty Returned</th>
+              <th className="border p-2 text-right">Unit Price</th>
+              <th className="border p-2 text-right">Line Total</th>
+              <th className="border p-2 text-left">Condition</th>
+              <th className="border p-2 text-left">Stock</th>
+            </tr>
+          </thead>
+          <tbody>
+            {details.items.map((item: any) => (
+              <tr key={item.id}>
+                <td className="border p-2">
+                  <div className="font-medium">{item.productName}</div>
+                  {item.variantTitle && <div className="text-sm text-gray-500">{item.variantTitle}</div>}
+                  {item.sku && <div className="text-xs text-gray-400 font-mono">{item.sku}</div>}
+                </td>
+                <td className="border p-2 text-right">{item.quantity} / {item.soldQuantity}</td>
+                <td className="border p-2 text-right">{parseFloat(item.unitPrice || '0').toFixed(2)}</td>
+                <td className="border p-2 text-right">{(parseFloat(item.unitPrice || '0') * item.quantity).toFixed(2)}</td>
+                <td className="border p-2">
+                  {canEditConditions ? (
+                    <select
+                      value={conditions[item.id] || 'new'}
+                      onChange={(e) => setConditions({ ...conditions, [item.id]: e.target.value })}
+                      className="p-1 border rounded"
+                    >
+                      <option value="new">New (restock)</option>
+                      <option value="used">Used</option>
+                      <option value="damaged">Damaged (write-off)</option>
+                    </select>
+                  ) : (
+                    <span className="capitalize">{item.condition || '-'}</span>
+                  )}
+                </td>
+                <td className="border p-2 text-sm">{item.restockAction ? RESTOCK_LABELS[item.restockAction] : 'Pending'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {details.refunds.length > 0 && (
+        <div className="mb-6">
+          <h2 className="text-lg font-semibold mb-2">Refunds</h2>
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="bg-gray-100">
+                <th className="border p-2 text-left">Amount</th>
+                <th className="border p-2 text-left">Method</th>
+                <th className="border p-2 text-left">Status</th>
+                <th className="border p-2 text-left">Created</th>
+              </tr>
+            </thead>
+            <tbody>
+              {details.refunds.map((refund: any) => (
+                <tr key={refund.id}>
+                  <td className="border p-2">{parseFloat(refund.amount).toFixed(2)}</td>
+                  <td className="border p-2">{refund.method?.replace(/_/g, ' ')}</td>
+                  <td className="border p-2 capitalize">{refund.status}</td>
+                  <td className="border p-2">{new Date(refund.createdAt).toLocaleDateString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {details.allowedTransitions.length > 0 && (
+        <div className="p-4 border rounded space-y-4">
+          <h2 className="text-lg font-semibold">Update Status</h2>
+          <div>
+            <label className="block mb-1 font-medium">Admin Notes</label>
+            <textarea
+              value={adminNotes}
+              onChange={(e) => setAdminNotes(e.target.value)}
+              className="w-full p-2 border rounded"
+              rows={2}
+            />
+          </div>
+          {details.allowedTransitions.includes('received') && (
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={restock} onChange={(e) => setRestock(e.target.checked)} />
+              Update stock on receipt (new items are restocked, damaged items are written off)
+            </label>
+          )}
+          {details.allowedTransitions.includes('completed') && (
+            <div>
+              <label className="block mb-1 font-medium">Refund Method</label>
+              <select
+                value={refundMethod}
+                onChange={(e) => setRefundMethod(e.target.value)}
+                className="p-2 border rounded"
+              >
+                <option value="original_payment">Original Payment</option>
+                <option value="store_credit">Store Credit</option>
+                <option value="manual">Manual</option>
+              </select>
+            </div>
+          )}
+          <div className="flex gap-2">
+            {details.allowedTransitions.map((status: string) => (
+              <button
+                key={status}
+                onClick={() => handleTransition(status)}
+                disabled={updating}
+                className={`px-4 py-2 text-white rounded disabled:opacity-50 ${TRANSITION_LABELS[status]?.className}`}
+              >
+                {TRANSITION_LABELS[status]?.label || status}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
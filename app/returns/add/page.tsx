@@ -0,0 +1,334 @@
+'use client';
+import React, { useState, useEffect } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+
+interface ReturnableItem {
+  orderItemId: string;
+  productName: string;
+  variantTitle: string | null;
+  sku: string | null;
+  unitPrice: number;
+  soldQuantity: number;
+  returnedQuantity: number;
+  returnableQuantity: number;
+}
+
+interface OrderSummary {
+  id: string;
+  orderNumber: string;
+  status: string;
+  email: string;
+  totalAmount: string;
+}
+
+interface SelectedLine {
+  quantity: number;
+  condition: string;
+}
+
+const RETURN_REASONS = [
+  'Damaged on arrival',
+  'Wrong item sent',
+  'Not as described',
+  'Changed mind',
+  'Defective',
+  'Other',
+];
+
+export default function AddReturn() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [orderRef, setOrderRef] = useState(searchParams.get('order') || '');
+  const [order, setOrder] = useState<OrderSummary | null>(null);
+  const [returnable, setReturnable] = useState(true);
+  const [items, setItems] = useState<ReturnableItem[]>([]);
+  const [selected, setSelected] = useState<Record<string, SelectedLine>>({});
+  const [formData, setFormData] = useState({
+    reason: '',
+    description: '',
+    restockFee: '',
+    adminNotes: '',
+  });
+  const [lookingUp, setLookingUp] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const lookupOrder = async (ref: string) => {
+    if (!ref.trim()) return;
+    setLookingUp(true);
+    setError('');
+    setOrder(null);
+    setItems([]);
+    setSelected({});
+    try {
+      const res = await fetch(`/api/returns/returnable?order=${encodeURIComponent(ref.trim())}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Order not found');
+        return;
+      }
+      setOrder(data.order);
+      setReturnable(data.returnable);
+      setItems(data.items);
+    } catch (err) {
+      console.error('Error looking up order:', err);
+      setError('Failed to load order');
+    } finally {
+      setLookingUp(false);
+    }
+  };
+
+  useEffect(() => {
+    // Opened from an order screen with ?order=<id>
+    if (orderRef) lookupOrder(orderRef);
+  }, []);
+
+  const toggleLine = (item: ReturnableItem, checked: boolean) => {
+    const next = { ...selected };
+    if (checked) {
+      next[item.orderItemId] = { quantity: 1, condition: 'new' };
+    } else {
+      delete next[item.orderItemId];
+    }
+    setSelected(next);
+  };
+
+  const updateLine = (orderItemId: string, updates: Partial<SelectedLine>) => {
+    setSelected({ ...selected, [orderItemId]: { ...selected[orderItemId], ...updates } });
+  };
+
+  const itemsTotal = items.reduce((sum, item) => {
+    const line = selected[item.orderItemId];
+    return line ? sum + item.unitPrice * line.quantity : sum;
+  }, 0);
+  const restockFee = parseFloat(formData.restockFee) || 0;
+  const refundAmount = Math.max(itemsTotal - restockFee, 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order) return;
+
+    const lines = Object.entries(selected).map(([orderItemId, line]) => ({
+      orderItemId,
+      quantity: line.quantity,
+      condition: line.condition,
+    }));
+
+    if (lines.length === 0) {
+      setError('Select at least one item to return');
+      return;
+    }
+    if (!formData.reason) {
+      setError('Please select a reason');
+      return;
+    }
+
+    setSubmitting(true);
+    setError('');
+    try {
+      const res = await fetch('/api/returns', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          orderId: order.id,
+          reason: formData.reason,
+          description: formData.description,
+          restockFee,
+          adminNotes: formData.adminNotes,
+          items: lines,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to create return');
+        return;
+      }
+      router.push(`/returns/${data.id}`);
+    } catch (err) {
+      console.error('Error creating return:', err);
+      setError('Failed to create return');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="p-4 max-w-5xl">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">New Return (RMA)</h1>
+        <Link href="/returns" className="px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600">
+          Back to Returns
+        </Link>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-700 rounded">{error}</div>
+      )}
+
+      <div className="mb-6 flex gap-2">
+        <input
+          type="text"
+          value={orderRef}
+          onChange={(e) => setOrderRef(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); lookupOrder(orderRef); } }}
+          placeholder="Order number (e.g. ORD-...)"
+          className="flex-1 p-2 border rounded"
+        />
+        <button
+          type="button"
+          onClick={() => lookupOrder(orderRef)}
+          disabled={lookingUp || !orderRef.trim()}
+          className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+        >
+          {lookingUp ? 'Looking up...' : 'Find Order'}
+        </button>
+      </div>
+
+      {order && (
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="p-4 bg-gray-50 border rounded">
+            <div className="font-medium">Order {order.orderNumber}</div>
+            <div className="text-sm text-gray-600">
+              {order.email} · Status: {order.status} · Total: {parseFloat(order.totalAmount).toFixed(2)}
+            </div>
+            {!returnable && (
+              <div className="mt-2 text-sm text-red-600">Items cannot be returned from a {order.status} order.</div>
+            )}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="bg-gray-100">
+                  <th className="border p-2 text-left">Return</th>
+                  <th className="border p-2 text-left">Item</th>
+                  <th className="border p-2 text-right">Unit Price</th>
+                  <th className="border p-2 text-right">Sold</th>
+                  <th className="border p-2 text-right">Already Returned</th>
+                  <th className="border p-2 text-left">Quantity</th>
+                  <th className="border p-2 text-left">Condition</th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map(item => {
+                  const line = selected[item.orderItemId];
+                  const disabled = !returnable || item.returnableQuantity === 0;
+                  return (
+                    <tr key={item.orderItemId} className={disabled ? 'text-gray-400' : ''}>
+                      <td className="border p-2">
+                        <input
+                          type="checkbox"
+                          checked={!!line}
+                          disabled={disabled}
+                          onChange={(e) => toggleLine(item, e.target.checked)}
+                        />
+                      </td>
+                      <td className="border p-2">
+                        <div className="font-medium">{item.productName}</div>
+                        {item.variantTitle && <div className="text-sm text-gray-500">{item.variantTitle}</div>}
+                        {item.sku && <div className="text-xs text-gray-400 font-mono">{item.sku}</div>}
+                      </td>
+                      <td className="border p-2 text-right">{item.unitPrice.toFixed(2)}</td>
+                      <td className="border p-2 text-right">{item.soldQuantity}</td>
+                      <td className="border p-2 text-right">{item.returnedQuantity}</td>
+                      <td className="border p-2">
+                        {line ? (
+                          <input
+                            type="number"
+                            min={1}
+                            max={item.returnableQuantity}
+                            value={line.quantity}
+                            onChange={(e) => updateLine(item.orderItemId, {
+                              quantity: Math.min(Math.max(parseInt(e.target.value) || 1, 1), item.returnableQuantity),
+                            })}
+                            className="w-20 p-1 border rounded"
+                          />
+                        ) : (
+                          <span className="text-sm">{item.returnableQuantity} returnable</span>
+                        )}
+                      </td>
+                      <td className="border p-2">
+                        {line && (
+                          <select
+                            value={line.condition}
+                            onChange={(e) => updateLine(item.orderItemId, { condition: e.target.value })}
+                            className="p-1 border rounded"
+                          >
+                            <option value="new">New (restock)</option>
+                            <option value="used">Used</option>
+                            <option value="damaged">Damaged (write-off)</option>
+                          </select>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block mb-1 font-medium">Reason *</label>
+              <select
+                value={formData.reason}
+                onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                className="w-full p-2 border rounded"
+                required
+              >
+                <option value="">Select a reason</option>
+                {RETURN_REASONS.map(reason => (
+                  <option key={reason} value={reason}>{reason}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block mb-1 font-medium">Restock Fee</label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={formData.restockFee}
+                onChange={(e) => setFormData({ ...formData, restockFee: e.target.value })}
+                className="w-full p-2 border rounded"
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block mb-1 font-medium">Description</label>
+              <textarea
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                className="w-full p-2 border rounded"
+                rows={3}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block mb-1 font-medium">Admin Notes</label>
+              <textarea
+                value={formData.adminNotes}
+                onChange={(e) => setFormData({ ...formData, adminNotes: e.target.value })}
+                className="w-full p-2 border rounded"
+                rows={2}
+              />
+            </div>
+          </div>
+
+          <div className="p-4 bg-blue-50 border border-blue-200 rounded text-sm space-y-1">
+            <div className="flex justify-between"><span>Items</span><span>{itemsTotal.toFixed(2)}</span></div>
+            <div className="flex justify-between"><span>Restock Fee</span><span>-{restockFee.toFixed(2)}</span></div>
+            <div className="flex justify-between font-semibold"><span>Refund Amount</span><span>{refundAmount.toFixed(2)}</span></div>
+          </div>
+
+          <button
+            type="submit"
+            disabled={submitting || !returnable}
+            className="px-6 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+          >
+            {submitting ? 'Creating...' : 'Create Return'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -5,12 +5,20 @@ import Link from 'next/link';
 export default function ReturnsList() {
   const [returns, setReturns] = useState([]);
   const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState('');
+  const [error, setError] = useState('');
 
   const fetchReturns = async () => {
     setLoading(true);
     try {
-      const res = await fetch('/api/returns');
+      const res = await fetch(`/api/returns${statusFilter ? `?status=${statusFilter}` : ''}`);
       const data = await res.json();
+      if (!res.ok) {
+        setError(data.error === 'Forbidden' ? 'You do not have permission to view returns' : data.error);
+        setReturns([]);
+        return;
+      }
+      setError('');
       setReturns(data);
     } catch (err) {
       console.error(err);
@@ -21,12 +29,13 @@ export default function ReturnsList() {
 
   useEffect(() => {
     fetchReturns();
-  }, []);
+  }, [statusFilter]);
 
   const getStatusBadge = (status: string) => {
     const statusColors = {
       pending: 'bg-yellow-100 text-yellow-800',
       approved: 'bg-green-100 text-green-800',
+      received: 'bg-purple-100 text-purple-800',
       rejected: 'bg-red-100 text-red-800',
       completed: 'bg-blue-100 text-blue-800'
     };
@@ -34,10 +43,30 @@ export default function ReturnsList() {
     return statusColors[status as keyof typeof statusColors] || 'bg-gray-100 text-gray-800';
   };
 
+  const handleIssueFbrNote = async (id: string) => {
+    if (!confirm('Issue an FBR Debit Note for this return? It will be submitted to FBR against the original invoice.')) return;
+    try {
+      const res = await fetch('/api/fbr/notes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ returnId: id, noteType: 'Debit Note' }),
+      });
+      const data = await res.json();
+      alert(res.ok ? data.message : `Failed to issue FBR note: ${data.error}`);
+    } catch (error) {
+      console.error('Error issuing FBR note:', error);
+    }
+  };
+
   const handleDelete = async (id: string) => {
     if (confirm('Are you sure you want to delete this return?')) {
       try {
-        await fetch(`/api/returns/${id}`, { method: 'DELETE' });
+        const res = await fetch(`/api/returns/${id}`, { method: 'DELETE' });
+        if (!res.ok) {
+          const data = await res.json();
+          alert(`Failed to delete return: ${data.error}`);
+          return;
+        }
         setReturns(returns.filter((ret: any) => ret.return.id !== id));
       } catch (error) {
         console.error('Error deleting return:', error);
@@ -52,6 +81,24 @@ export default function ReturnsList() {
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold">Returns Management</h1>
         <div className="flex gap-2">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="px-3 py-2 border rounded-lg"
+          >
+            <option value="">All Statuses</option>
+            <option value="pending">Pending</option>
+            <option value="approved">Approved</option>
+            <option value="received">Received</option>
+            <option value="completed">Completed</option>
+            <option value="rejected">Rejected</option>
+          </select>
+          <Link
+            href="/returns/add"
+            className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors"
+          >
+            + New Return
+          </Link>
           <button
             onClick={fetchReturns}
             disabled={loading}
@@ -61,6 +108,10 @@ export default function ReturnsList() {
           </button>
         </div>
       </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-700 rounded">{error}</div>
+      )}
       
       <div className="overflow-x-auto">
         <table className="w-full border-collapse">
@@ -70,6 +121,7 @@ export default function ReturnsList() {
               <th className="border p-2 text-left">Order #</th>
               <th className="border p-2 text-left">Customer</th>
               <th className="border p-2 text-left">Reason</th>
+              <th className="border p-2 text-left">Refund</th>
               <th className="border p-2 text-left">Status</th>
               <th className="border p-2 text-left">Created</th>
               <th className="border p-2 text-left">Actions</th>
@@ -88,6 +140,7 @@ export default function ReturnsList() {
                     </div>
                   </td>
                   <td className="border p-2">{item.return.reason}</td>
+                  <td className="border p-2">{item.return.refundAmount ? parseFloat(item.return.refundAmount).toFixed(2) : '-'}</td>
                   <td className="border p-2">
                     <span className={`px-2 py-1 rounded text-xs ${getStatusBadge(item.return.status)}`}>
                       {item.return.status.charAt(0).toUpperCase() + item.return.status.slice(1)}
@@ -96,25 +149,35 @@ export default function ReturnsList() {
                   <td className="border p-2">{new Date(item.return.createdAt).toLocaleDateString()}</td>
                   <td className="border p-2">
                     <div className="flex gap-2">
+                      {item.return.status === 'completed' && (
+                        <button 
+                          onClick={() => handleIssueFbrNote(item.return.id)}
+                          className="px-2 py-1 bg-purple-500 text-white rounded text-sm hover:bg-purple-600"
+                        >
+                          FBR Note
+                        </button>
+                      )}
                       <Link 
-                        href={`/returns/edit/${item.return.id}`}
+                        href={`/returns/${item.return.id}`}
                         className="px-2 py-1 bg-green-500 text-white rounded text-sm hover:bg-green-600"
                       >
-                        Edit
+                        View
                       </Link>
-                      <button 
-                        onClick={() => handleDelete(item.return.id)}
-                        className="px-2 py-1 bg-red-500 text-white rounded text-sm hover:bg-red-600"
-                      >
-                        Delete
-                      </button>
+                      {['pending', 'rejected'].includes(item.return.status) && (
+                        <button 
+                          onClick={() => handleDelete(item.return.id)}
+                          className="px-2 py-1 bg-red-500 text-white rounded text-sm hover:bg-red-600"
+                        >
+                          Delete
+                        </button>
+                      )}
                     </div>
                   </td>
                 </tr>
               ))
             ) : (
               <tr>
-                <td colSpan={7} className="border p-2 text-center">No returns found</td>
+                <td colSpan={8} className="border p-2 text-center">No returns found</td>
               </tr>
             )}
           </tbody>
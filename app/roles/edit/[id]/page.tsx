@@ -41,6 +41,17 @@ const permissionModules = [
       { id: 'orders_fulfill', label: 'Fulfill Orders' },
     ]
   },
+  {
+    name: 'Returns Management',
+    permissions: [
+      { id: 'returns_view', label: 'View Returns' },
+      { id: 'returns_create', label: 'Create Returns' },
+      { id: 'returns_approve', label: 'Approve/Reject Returns' },
+      { id: 'returns_receive', label: 'Receive Returned Goods' },
+      { id: 'returns_complete', label: 'Complete Returns & Refund' },
+      { id: 'returns_delete', label: 'Delete Returns' },
+    ]
+  },
 ];
 
 export default function EditRole() {
@@ -0,0 +1,299 @@
+'use client';
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+
+interface ScenarioRule {
+  scenarioId: string;
+  saleType: string;
+  defaultRate: string;
+  requiresWithholdingTax: boolean;
+  exemptOrZeroRated: boolean;
+  requiresRetailPrice: boolean;
+  requiresFedPayable: boolean;
+  isRetail: boolean;
+  isServices: boolean;
+  sroScheduleNo?: string | null;
+  effectiveFrom?: string | null;
+  source: 'built-in' | 'global' | 'tenant';
+}
+
+interface ScenarioRuleVersion extends Omit<ScenarioRule, 'source'> {
+  id: string;
+  scope: 'tenant' | 'global';
+  notes?: string | null;
+}
+
+const FLAGS: Array<{ key: keyof ScenarioRule; label: string }> = [
+  { key: 'requiresWithholdingTax', label: 'Withholding tax' },
+  { key: 'exemptOrZeroRated', label: 'Exempt / zero-rated' },
+  { key: 'requiresRetailPrice', label: '3rd Schedule retail price' },
+  { key: 'requiresFedPayable', label: 'FED payable' },
+  { key: 'isRetail', label: 'Retail' },
+  { key: 'isServices', label: 'Services' },
+];
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export default function FbrScenarioRules() {
+  const [date, setDate] = useState(today());
+  const [rules, setRules] = useState<ScenarioRule[]>([]);
+  const [versions, setVersions] = useState<ScenarioRuleVersion[]>([]);
+  const [canEditGlobal, setCanEditGlobal] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<(ScenarioRule & { scope: 'tenant' | 'global'; notes?: string }) | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchRules = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/settings/fbr-scenarios?date=${date}`);
+      const data = await res.json();
+      if (res.ok) {
+        setRules(data.rules || []);
+        setVersions(data.versions || []);
+        setCanEditGlobal(!!data.canEditGlobal);
+      }
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRules();
+  }, [date]);
+
+  const startEdit = (rule: ScenarioRule) => {
+    setError('');
+    setEditing({ ...rule, effectiveFrom: today(), scope: 'tenant', notes: '' });
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    setSaving(true);
+    setError('');
+    try {
+      const res = await fetch('/api/settings/fbr-scenarios', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(editing),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to save rule');
+        return;
+      }
+      setEditing(null);
+      fetchRules();
+    } catch (err) {
+      console.error(err);
+      setError('Failed to save rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (version: ScenarioRuleVersion) => {
+    if (!confirm(`Delete the ${version.scope} rule for ${version.scenarioId} effective ${version.effectiveFrom}?`)) return;
+    try {
+      const res = await fetch(`/api/settings/fbr-scenarios?id=${version.id}&scope=${version.scope}`, { method: 'DELETE' });
+      if (res.ok) {
+        fetchRules();
+      } else {
+        const data = await res.json();
+        alert(data.error || 'Failed to delete rule');
+      }
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const sourceBadge = (source: ScenarioRule['source']) => {
+    const colors = {
+      'built-in': 'bg-gray-100 text-gray-800',
+      global: 'bg-blue-100 text-blue-800',
+      tenant: 'bg-green-100 text-green-800',
+    };
+    return colors[source];
+  };
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">FBR Scenario Rules</h1>
+          <p className="text-gray-600 text-sm mt-1">
+            Sale type, default rate and required fields per scenario. New versions apply to invoices dated on or after their effective date.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-gray-700" htmlFor="rules-date">Rules in effect on</label>
+          <input
+            id="rules-date"
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="p-2 border rounded"
+          />
+          <Link href="/settings" className="bg-gray-500 text-white px-4 py-2 rounded hover:bg-gray-600">
+            Back to Settings
+          </Link>
+        </div>
+      </div>
+
+      {editing && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 mb-6">
+          <h2 className="text-lg font-semibold mb-4">New rule version for {editing.scenarioId}</h2>
+          {error && <div className="mb-4 p-3 bg-red-100 text-red-700 rounded">{error}</div>}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Sale Type</label>
+              <input
+                type="text"
+                value={editing.saleType}
+                onChange={(e) => setEditing({ ...editing, saleType: e.target.value })}
+                className="w-full p-2 border rounded"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Default Rate</label>
+              <input
+                type="text"
+                value={editing.defaultRate}
+                onChange={(e) => setEditing({ ...editing, defaultRate: e.target.value })}
+                className="w-full p-2 border rounded"
+                placeholder="18% or Exempt"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Effective From</label>
+              <input
+                type="date"
+                value={editing.effectiveFrom || ''}
+                onChange={(e) => setEditing({ ...editing, effectiveFrom: e.target.value })}
+                className="w-full p-2 border rounded"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Default SRO / Schedule</label>
+              <input
+                type="text"
+                value={editing.sroScheduleNo || ''}
+                onChange={(e) => setEditing({ ...editing, sroScheduleNo: e.target.value })}
+                className="w-full p-2 border rounded"
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-4 mt-4">
+            {FLAGS.map(flag => (
+              <label key={flag.key} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={!!editing[flag.key]}
+                  onChange={(e) => setEditing({ ...editing, [flag.key]: e.target.checked })}
+                />
+                {flag.label}
+              </label>
+            ))}
+          </div>
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <input
+              type="text"
+              value={editing.notes || ''}
+              onChange={(e) => setEditing({ ...editing, notes: e.target.value })}
+              className="w-full p-2 border rounded"
+              placeholder="e.g., SRO 123(I)/2025 reduced rate"
+            />
+          </div>
+          <div className="flex justify-between items-center mt-4">
+            {canEditGlobal ? (
+              <select
+                value={editing.scope}
+                onChange={(e) => setEditing({ ...editing, scope: e.target.value as 'tenant' | 'global' })}
+                className="p-2 border rounded"
+              >
+                <option value="tenant">This tenant only</option>
+                <option value="global">Global default (all tenants)</option>
+              </select>
+            ) : <span />}
+            <div className="flex gap-2">
+              <button onClick={() => setEditing(null)} className="px-4 py-2 border rounded hover:bg-gray-50">
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save Version'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white shadow-md rounded-lg overflow-hidden">
+        <table className="min-w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Scenario</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Sale Type</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Rate</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Requirements</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Source</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Versions</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {loading ? (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-gray-500">Loading...</td>
+              </tr>
+            ) : rules.map(rule => {
+              const scenarioVersions = versions.filter(v => v.scenarioId === rule.scenarioId);
+              return (
+                <tr key={rule.scenarioId} className="align-top">
+                  <td className="px-4 py-3 font-medium">{rule.scenarioId}</td>
+                  <td className="px-4 py-3 text-sm">
+                    {rule.saleType}
+                    {rule.sroScheduleNo && <div className="text-xs text-gray-500">SRO: {rule.sroScheduleNo}</div>}
+                  </td>
+                  <td className="px-4 py-3 text-sm">{rule.defaultRate}</td>
+                  <td className="px-4 py-3 text-xs text-gray-600">
+                    {FLAGS.filter(flag => rule[flag.key]).map(flag => flag.label).join(', ') || '—'}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-1 rounded-full text-xs ${sourceBadge(rule.source)}`}>
+                      {rule.source}{rule.effectiveFrom ? ` · ${rule.effectiveFrom}` : ''}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-xs">
+                    {scenarioVersions.length === 0 ? '—' : scenarioVersions.map(version => (
+                      <div key={version.id} className="flex items-center gap-2">
+                        <span>{version.effectiveFrom} · {version.scope} · {version.defaultRate}</span>
+                        {(version.scope === 'tenant' || canEditGlobal) && (
+                          <button onClick={() => handleDelete(version)} className="text-red-600 hover:underline">
+                            Delete
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </td>
+                  <td className="px-4 py-3">
+                    <button onClick={() => startEdit(rule)} className="text-blue-600 hover:underline text-sm">
+                      New Version
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,484 @@
+'use client';
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import CurrencySymbol from '../../components/CurrencySymbol';
+
+interface LoyaltyTier {
+  id: string;
+  name: string;
+  minSpend: string;
+  multiplier: string;
+  isActive: boolean;
+}
+
+interface EarningRule {
+  id: string;
+  name: string;
+  scope: 'all' | 'category' | 'product' | 'tag';
+  targetId: string | null;
+  targetName: string | null;
+  multiplier: string;
+  startsAt: string | null;
+  endsAt: string | null;
+  isActive: boolean;
+}
+
+interface TierForm {
+  id?: string;
+  name: string;
+  minSpend: string;
+  multiplier: string;
+  isActive: boolean;
+}
+
+interface RuleForm {
+  id?: string;
+  name: string;
+  scope: EarningRule['scope'];
+  targetId: string;
+  multiplier: string;
+  startsAt: string;
+  endsAt: string;
+  isActive: boolean;
+}
+
+const SCOPE_LABELS: Record<EarningRule['scope'], string> = {
+  all: 'All items',
+  category: 'Category',
+  product: 'Product',
+  tag: 'Tag',
+};
+
+const EMPTY_TIER: TierForm = { name: '', minSpend: '', multiplier: '1.25', isActive: true };
+const EMPTY_RULE: RuleForm = { name: '', scope: 'all', targetId: '', multiplier: '2', startsAt: '', endsAt: '', isActive: true };
+
+// datetime-local inputs take local time without seconds or zone
+const toLocalInput = (value: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const ruleStatus = (rule: EarningRule) => {
+  const now = new Date();
+  if (!rule.isActive) return { label: 'Inactive', color: 'bg-gray-100 text-gray-800' };
+  if (rule.startsAt && new Date(rule.startsAt) > now) return { label: 'Scheduled', color: 'bg-blue-100 text-blue-800' };
+  if (rule.endsAt && new Date(rule.endsAt) < now) return { label: 'Ended', color: 'bg-gray-100 text-gray-800' };
+  return { label: 'Running', color: 'bg-green-100 text-green-800' };
+};
+
+export default function LoyaltyTiersAndRules() {
+  const [tiers, setTiers] = useState<LoyaltyTier[]>([]);
+  const [rules, setRules] = useState<EarningRule[]>([]);
+  const [targets, setTargets] = useState<Record<'category' | 'product' | 'tag', Array<{ id: string; name: string }>>>({
+    category: [],
+    product: [],
+    tag: [],
+  });
+  const [loading, setLoading] = useState(true);
+  const [tierForm, setTierForm] = useState<TierForm | null>(null);
+  const [ruleForm, setRuleForm] = useState<RuleForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchData = async () => {
+    setLoading(true);
+    try {
+      const [tiersRes, rulesRes] = await Promise.all([fetch('/api/loyalty/tiers'), fetch('/api/loyalty/rules')]);
+      if (tiersRes.ok) setTiers(await tiersRes.json());
+      if (rulesRes.ok) setRules(await rulesRes.json());
+    } catch (err) {
+      console.error('Error fetching loyalty tiers and rules:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+    Promise.all([fetch('/api/categories'), fetch('/api/products'), fetch('/api/tags')])
+      .then(async ([categoriesRes, productsRes, tagsRes]) => {
+        const categories = categoriesRes.ok ? await categoriesRes.json() : [];
+        const products = productsRes.ok ? await productsRes.json() : [];
+        const tags = tagsRes.ok ? await tagsRes.json() : [];
+        setTargets({
+          category: categories.map((c: any) => ({ id: c.id, name: c.name })),
+          product: products.map((row: any) => ({ id: row.product.id, name: row.product.name })),
+          tag: tags.map((t: any) => ({ id: t.id, name: t.name })),
+        });
+      })
+      .catch(err => console.error('Error fetching rule targets:', err));
+  }, []);
+
+  const save = async (url: string, method: 'POST' | 'PUT', body: object, onDone: () => void) => {
+    setSaving(true);
+    setError('');
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to save');
+        return;
+      }
+      onDone();
+      fetchData();
+    } catch (err) {
+      console.error(err);
+      setError('Failed to save');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveTier = () => {
+    if (!tierForm) return;
+    const { id, ...body } = tierForm;
+    save(id ? `/api/loyalty/tiers/${id}` : '/api/loyalty/tiers', id ? 'PUT' : 'POST', body, () => setTierForm(null));
+  };
+
+  const handleSaveRule = () => {
+    if (!ruleForm) return;
+    const { id, startsAt, endsAt, ...rest } = ruleForm;
+    const body = {
+      ...rest,
+      startsAt: startsAt ? new Date(startsAt).toISOString() : null,
+      endsAt: endsAt ? new Date(endsAt).toISOString() : null,
+    };
+    save(id ? `/api/loyalty/rules/${id}` : '/api/loyalty/rules', id ? 'PUT' : 'POST', body, () => setRuleForm(null));
+  };
+
+  const handleDelete = async (url: string, label: string) => {
+    if (!confirm(`Delete ${label}?`)) return;
+    try {
+      const res = await fetch(url, { method: 'DELETE' });
+      if (res.ok) {
+        fetchData();
+      } else {
+        const data = await res.json();
+        alert(data.error || 'Failed to delete');
+      }
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">Loyalty Tiers & Earning Rules</h1>
+          <p className="text-gray-600 text-sm mt-1">
+            Points are worked out when an order earns them: each item at the earning rate times its best matching rule, then the whole order times the customer&apos;s tier.
+          </p>
+        </div>
+        <Link href="/settings" className="bg-gray-500 text-white px-4 py-2 rounded hover:bg-gray-600">
+          Back to Settings
+        </Link>
+      </div>
+
+      {error && <div className="mb-4 p-3 bg-red-100 text-red-700 rounded">{error}</div>}
+
+      {/* Tiers */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 mb-6">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-lg font-semibold">Membership Tiers</h2>
+            <p className="text-gray-600 text-sm">Reached by spend over the last 12 months. Customers below every tier earn at the base rate.</p>
+          </div>
+          <button
+            onClick={() => { setError(''); setTierForm({ ...EMPTY_TIER }); }}
+            className="px-4 py-2 bg-purple-600 text-white rounded hover:bg-purple-700"
+          >
+            + Add Tier
+          </button>
+        </div>
+
+        {tierForm && (
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end mb-4 p-4 bg-purple-50 rounded-lg">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={tierForm.name}
+                onChange={(e) => setTierForm({ ...tierForm, name: e.target.value })}
+                className="w-full p-2 border rounded"
+                placeholder="Gold"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">12-Month Spend From</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={tierForm.minSpend}
+                onChange={(e) => setTierForm({ ...tierForm, minSpend: e.target.value })}
+                className="w-full p-2 border rounded"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Points Multiplier</label>
+              <input
+                type="number"
+                min="0"
+                step="0.05"
+                value={tierForm.multiplier}
+                onChange={(e) => setTierForm({ ...tierForm, multiplier: e.target.value })}
+                className="w-full p-2 border rounded"
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm pb-2">
+              <input
+                type="checkbox"
+                checked={tierForm.isActive}
+                onChange={(e) => setTierForm({ ...tierForm, isActive: e.target.checked })}
+              />
+              Active
+            </label>
+            <div className="flex gap-2">
+              <button onClick={() => setTierForm(null)} className="px-4 py-2 border rounded hover:bg-gray-50">
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveTier}
+                disabled={saving}
+                className="px-4 py-2 bg-purple-600 text-white rounded hover:bg-purple-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <table className="min-w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Tier</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">12-Month Spend</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Multiplier</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {loading ? (
+              <tr>
+                <td colSpan={5} className="px-4 py-8 text-center text-gray-500">Loading...</td>
+              </tr>
+            ) : tiers.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-4 py-8 text-center text-gray-500">No tiers yet</td>
+              </tr>
+            ) : tiers.map(tier => (
+              <tr key={tier.id}>
+                <td className="px-4 py-3 font-medium">{tier.name}</td>
+                <td className="px-4 py-3"><CurrencySymbol />{parseFloat(tier.minSpend).toFixed(2)}+</td>
+                <td className="px-4 py-3">x{parseFloat(tier.multiplier)}</td>
+                <td className="px-4 py-3">
+                  <span className={`px-2 py-1 rounded text-xs ${tier.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}`}>
+                    {tier.isActive ? 'Active' : 'Inactive'}
+                  </span>
+                </td>
+                <td className="px-4 py-3 space-x-3 text-sm">
+                  <button
+                    onClick={() => { setError(''); setTierForm({ id: tier.id, name: tier.name, minSpend: tier.minSpend, multiplier: tier.multiplier, isActive: tier.isActive }); }}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    Edit
+                  </button>
+                  <button onClick={() => handleDelete(`/api/loyalty/tiers/${tier.id}`, `the ${tier.name} tier`)} className="text-red-600 hover:text-red-800">
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Earning rules and campaigns */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-lg font-semibold">Earning Rules & Campaigns</h2>
+            <p className="text-gray-600 text-sm">
+              Bonus multipliers for matching items. Give a rule start and end dates to run it as a campaign. When several rules match an item, the highest multiplier applies.
+            </p>
+          </div>
+          <button
+            onClick={() => { setError(''); setRuleForm({ ...EMPTY_RULE }); }}
+            className="px-4 py-2 bg-purple-600 text-white rounded hover:bg-purple-700"
+          >
+            + Add Rule
+          </button>
+        </div>
+
+        {ruleForm && (
+          <div className="mb-4 p-4 bg-purple-50 rounded-lg">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={ruleForm.name}
+                  onChange={(e) => setRuleForm({ ...ruleForm, name: e.target.value })}
+                  className="w-full p-2 border rounded"
+                  placeholder="Double points weekend"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Applies To</label>
+                <select
+                  value={ruleForm.scope}
+                  onChange={(e) => setRuleForm({ ...ruleForm, scope: e.target.value as EarningRule['scope'], targetId: '' })}
+                  className="w-full p-2 border rounded"
+                >
+                  {Object.entries(SCOPE_LABELS).map(([scope, label]) => (
+                    <option key={scope} value={scope}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{ruleForm.scope === 'all' ? 'Target' : SCOPE_LABELS[ruleForm.scope]}</label>
+                <select
+                  value={ruleForm.targetId}
+                  onChange={(e) => setRuleForm({ ...ruleForm, targetId: e.target.value })}
+                  disabled={ruleForm.scope === 'all'}
+                  className="w-full p-2 border rounded disabled:bg-gray-100"
+                >
+                  <option value="">{ruleForm.scope === 'all' ? 'Every item' : `Select ${ruleForm.scope}`}</option>
+                  {ruleForm.scope !== 'all' && targets[ruleForm.scope].map(target => (
+                    <option key={target.id} value={target.id}>{target.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Points Multiplier</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.05"
+                  value={ruleForm.multiplier}
+                  onChange={(e) => setRuleForm({ ...ruleForm, multiplier: e.target.value })}
+                  className="w-full p-2 border rounded"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Starts</label>
+                <input
+                  type="datetime-local"
+                  value={ruleForm.startsAt}
+                  onChange={(e) => setRuleForm({ ...ruleForm, startsAt: e.target.value })}
+                  className="w-full p-2 border rounded"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Ends</label>
+                <input
+                  type="datetime-local"
+                  value={ruleForm.endsAt}
+                  onChange={(e) => setRuleForm({ ...ruleForm, endsAt: e.target.value })}
+                  className="w-full p-2 border rounded"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm pt-6">
+                <input
+                  type="checkbox"
+                  checked={ruleForm.isActive}
+                  onChange={(e) => setRuleForm({ ...ruleForm, isActive: e.target.checked })}
+                />
+                Active
+              </label>
+              <div className="flex gap-2 items-end justify-end">
+                <button onClick={() => setRuleForm(null)} className="px-4 py-2 border rounded hover:bg-gray-50">
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSaveRule}
+                  disabled={saving}
+                  className="px-4 py-2 bg-purple-600 text-white rounded hover:bg-purple-700 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <table className="min-w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Rule</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Applies To</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Multiplier</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Dates</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {loading ? (
+              <tr>
+                <td colSpan={6} className="px-4 py-8 text-center text-gray-500">Loading...</td>
+              </tr>
+            ) : rules.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-4 py-8 text-center text-gray-500">No earning rules yet</td>
+              </tr>
+            ) : rules.map(rule => {
+              const status = ruleStatus(rule);
+              return (
+                <tr key={rule.id}>
+                  <td className="px-4 py-3 font-medium">{rule.name}</td>
+                  <td className="px-4 py-3">
+                    {rule.scope === 'all' ? SCOPE_LABELS.all : `${SCOPE_LABELS[rule.scope]}: ${rule.targetName || 'Removed'}`}
+                  </td>
+                  <td className="px-4 py-3">x{parseFloat(rule.multiplier)}</td>
+                  <td className="px-4 py-3 text-sm text-gray-600">
+                    {rule.startsAt || rule.endsAt ? (
+                      <>
+                        {rule.startsAt ? new Date(rule.startsAt).toLocaleString() : 'Any time'}
+                        {' → '}
+                        {rule.endsAt ? new Date(rule.endsAt).toLocaleString() : 'No end'}
+                      </>
+                    ) : 'Always'}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-1 rounded text-xs ${status.color}`}>{status.label}</span>
+                  </td>
+                  <td className="px-4 py-3 space-x-3 text-sm">
+                    <button
+                      onClick={() => {
+                        setError('');
+                        setRuleForm({
+                          id: rule.id,
+                          name: rule.name,
+                          scope: rule.scope,
+                          targetId: rule.targetId || '',
+                          multiplier: rule.multiplier,
+                          startsAt: toLocalInput(rule.startsAt),
+                          endsAt: toLocalInput(rule.endsAt),
+                          isActive: rule.isActive,
+                        });
+                      }}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      Edit
+                    </button>
+                    <button onClick={() => handleDelete(`/api/loyalty/rules/${rule.id}`, `the rule ${rule.name}`)} className="text-red-600 hover:text-red-800">
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
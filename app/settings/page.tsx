@@ -11,6 +11,26 @@ interface TaxSetting {
   value: number;
 }
 
+type FbrEnvironment = 'sandbox' | 'production';
+
+interface FbrCredentialStatus {
+  configured: boolean;
+  legacy?: boolean;
+  tokenHint?: string | null;
+  expiresAt?: string | null;
+  daysUntilExpiry?: number | null;
+  expired: boolean;
+  expiresSoon: boolean;
+  rotatedAt?: string | null;
+}
+
+const FBR_ACTION_LABELS: Record<string, string> = {
+  created: 'Token added',
+  rotated: 'Token rotated',
+  expiry_updated: 'Expiry changed',
+  used: 'Production post',
+};
+
 export default function SettingsPage() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -22,6 +42,8 @@ export default function SettingsPage() {
   
   // Stock management setting
   const [stockManagementEnabled, setStockManagementEnabled] = useState(true);
+  const [reservationTimeoutHours, setReservationTimeoutHours] = useState(0);
+  const [costingMethod, setCostingMethod] = useState<'weighted_average' | 'fifo'>('weighted_average');
   
   // Tax settings
   const [vatTax, setVatTax] = useState<TaxSetting>({
@@ -45,14 +67,15 @@ export default function SettingsPage() {
     points_expiry_months: { value: 12, type: 'number', description: '' },
     points_minimum_order: { value: 0, type: 'number', description: '' },
     points_max_redemption_percent: { value: 50, type: 'number', description: '' },
-    points_redemption_minimum: { value: 100, type: 'number', description: '' }
+    points_redemption_minimum: { value: 100, type: 'number', description: '' },
+    points_exclude_discounted_items: { value: false, type: 'boolean', description: '' },
+    points_return_window_days: { value: 0, type: 'number', description: '' },
+    points_expiry_reminder_days: { value: 7, type: 'number', description: '' }
   });
 
   // FBR settings
   const [fbrSettings, setFbrSettings] = useState({
     fbrBaseUrl: '',
-    fbrSandboxToken: '',
-    fbrProductionToken: '',
     fbrSellerNTNCNIC: '',
     fbrSellerBusinessName: '',
     fbrSellerProvince: '',
@@ -60,14 +83,44 @@ export default function SettingsPage() {
     fbrStrnNumber: ''
   });
 
+  // FBR tokens (stored encrypted on the server; only their status is loaded)
+  const [fbrCredentials, setFbrCredentials] = useState<Record<FbrEnvironment, FbrCredentialStatus> | null>(null);
+  const [fbrTokenForms, setFbrTokenForms] = useState<Record<FbrEnvironment, { token: string; expiresAt: string }>>({
+    sandbox: { token: '', expiresAt: '' },
+    production: { token: '', expiresAt: '' }
+  });
+  const [fbrCredentialHistory, setFbrCredentialHistory] = useState<any[]>([]);
+  const [fbrCredentialAuditLog, setFbrCredentialAuditLog] = useState<any[]>([]);
+  const [fbrEncryptionConfigured, setFbrEncryptionConfigured] = useState(true);
+
   // Logo settings
   const [logoUrl, setLogoUrl] = useState<string>('');
   const [uploadingLogo, setUploadingLogo] = useState(false);
 
   useEffect(() => {
     fetchSettings();
+    fetchFbrCredentials();
   }, []);
 
+  const fetchFbrCredentials = async () => {
+    try {
+      const response = await fetch('/api/settings/fbr/credentials');
+      const data = await response.json();
+      if (!data.success) return;
+
+      setFbrCredentials(data.credentials);
+      setFbrCredentialHistory(data.history || []);
+      setFbrCredentialAuditLog(data.auditLog || []);
+      setFbrEncryptionConfigured(data.encryptionConfigured);
+      setFbrTokenForms({
+        sandbox: { token: '', expiresAt: data.credentials.sandbox.expiresAt?.split('T')[0] || '' },
+        production: { token: '', expiresAt: data.credentials.production.expiresAt?.split('T')[0] || '' }
+      });
+    } catch (err) {
+      console.error('Error fetching FBR credentials:', err);
+    }
+  };
+
   const fetchSettings = async () => {
     try {
       const [stockRes, taxRes, loyaltyRes, fbrRes, logoRes] = await Promise.all([
@@ -85,6 +138,8 @@ export default function SettingsPage() {
       const logoData = await logoRes.json();
       
       setStockManagementEnabled(stockData.stockManagementEnabled);
+      setReservationTimeoutHours(stockData.reservationTimeoutHours || 0);
+      setCostingMethod(stockData.costingMethod || 'weighted_average');
       setVatTax(taxData.vatTax);
       setServiceTax(taxData.serviceTax);
       
@@ -132,6 +187,57 @@ export default function SettingsPage() {
     }
   };
 
+  const handleReservationTimeoutSave = async () => {
+    try {
+      setSaving(true);
+      setError('');
+      
+      const response = await fetch('/api/settings/stock-management', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reservationTimeoutHours })
+      });
+      
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update reservation timeout');
+      }
+      
+      setSuccess('Reservation timeout updated successfully');
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCostingMethodChange = async (method: 'weighted_average' | 'fifo') => {
+    try {
+      setSaving(true);
+      setError('');
+      
+      const response = await fetch('/api/settings/stock-management', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ costingMethod: method })
+      });
+      
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update costing method');
+      }
+      
+      setCostingMethod(method);
+      setSuccess('Costing method updated successfully');
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const handleCurrencyChange = async (currency: CurrencyCode) => {
     try {
       setSaving(true);
@@ -266,6 +372,74 @@ export default function SettingsPage() {
     }));
   };
 
+  const handleFbrTokenFormChange = (environment: FbrEnvironment, key: 'token' | 'expiresAt', value: string) => {
+    setFbrTokenForms(prev => ({
+      ...prev,
+      [environment]: { ...prev[environment], [key]: value }
+    }));
+  };
+
+  const handleSaveFbrToken = async (environment: FbrEnvironment) => {
+    try {
+      setSaving(true);
+      setError('');
+
+      const form = fbrTokenForms[environment];
+      if (!form.token.trim() && !fbrCredentials?.[environment]?.configured) {
+        throw new Error(`Enter the FBR ${environment} token`);
+      }
+
+      const response = await fetch('/api/settings/fbr/credentials', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          environment,
+          token: form.token.trim() || undefined,
+          expiresAt: form.expiresAt || null
+        })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update FBR token');
+      }
+
+      await fetchFbrCredentials();
+      setSuccess(data.message || 'FBR token updated successfully');
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleImportLegacyFbrToken = async (environment: FbrEnvironment) => {
+    try {
+      setSaving(true);
+      setError('');
+
+      const response = await fetch('/api/settings/fbr/credentials', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ environment, action: 'import_legacy' })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import FBR token');
+      }
+
+      await fetchFbrCredentials();
+      setSuccess(data.message || 'FBR token imported successfully');
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const handleLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -321,7 +495,7 @@ export default function SettingsPage() {
       if (!fbrSettings.fbrBaseUrl.trim()) {
         throw new Error('FBR Base URL is required');
       }
-      if (!fbrSettings.fbrSandboxToken.trim()) {
+      if (!fbrCredentials?.sandbox.configured) {
         throw new Error('FBR Sandbox Token is required');
       }
       if (!fbrSettings.fbrSellerNTNCNIC.trim()) {
@@ -357,6 +531,8 @@ export default function SettingsPage() {
     }
   };
 
+  const isFbrConfigured = Object.values(fbrSettings).every(value => value.trim() !== '') && !!fbrCredentials?.sandbox.configured;
+
   if (loading) return <div className="p-8">Loading settings...</div>;
 
   return (
@@ -468,11 +644,58 @@ export default function SettingsPage() {
           
           <div className="text-sm text-gray-500">
             {stockManagementEnabled ? (
-              <p>✅ Orders will check and update inventory levels automatically</p>
+              <p>✅ Orders reserve stock when placed and deduct it once shipped or delivered</p>
             ) : (
               <p>❌ Orders will be created without inventory validation</p>
             )}
           </div>
+
+          {stockManagementEnabled && (
+            <div className="mt-4 pt-4 border-t border-gray-100">
+              <label className="block text-sm font-medium text-gray-700 mb-2" htmlFor="reservationTimeoutHours">
+                Release reservations of unpaid orders after (hours)
+              </label>
+              <div className="flex items-center gap-3">
+                <input
+                  id="reservationTimeoutHours"
+                  type="number"
+                  min="0"
+                  value={reservationTimeoutHours}
+                  onChange={(e) => setReservationTimeoutHours(Math.max(0, parseFloat(e.target.value) || 0))}
+                  className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  onClick={handleReservationTimeoutSave}
+                  disabled={saving}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Save
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                0 keeps reservations until the order is cancelled. Leave it at 0 for cash-on-delivery orders that stay unpaid until delivery.
+              </p>
+            </div>
+          )}
+
+          <div className="mt-4 pt-4 border-t border-gray-100">
+            <label className="block text-sm font-medium text-gray-700 mb-2" htmlFor="costingMethod">
+              Inventory costing method
+            </label>
+            <select
+              id="costingMethod"
+              value={costingMethod}
+              onChange={(e) => handleCostingMethodChange(e.target.value as 'weighted_average' | 'fifo')}
+              disabled={saving}
+              className="w-64 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="weighted_average">Weighted average</option>
+              <option value="fifo">FIFO (first in, first out)</option>
+            </select>
+            <p className="text-xs text-gray-500 mt-2">
+              Used to cost sold items and to value stock in the inventory valuation report.
+            </p>
+          </div>
         </div>
 
         {/* Currency Settings Section */}
@@ -808,6 +1031,25 @@ export default function SettingsPage() {
                       Minimum order amount required to earn points (0 = no minimum)
                     </p>
                   </div>
+
+                  <label className="flex items-start gap-2">
+                    <input
+                      type="checkbox"
+                      checked={loyaltySettings.points_exclude_discounted_items.value === true}
+                      onChange={(e) => handleLoyaltySettingChange('points_exclude_discounted_items', e.target.checked)}
+                      className="mt-1"
+                    />
+                    <span className="text-sm text-gray-700">
+                      Exclude discounted items
+                      <span className="block text-xs text-gray-500">
+                        Items sold with a discount or below their compare-at price earn no points
+                      </span>
+                    </span>
+                  </label>
+
+                  <a href="/settings/loyalty" className="inline-block text-sm text-purple-600 hover:underline">
+                    Manage tiers, bonus rules and campaigns →
+                  </a>
                 </div>
 
                 <div className="space-y-4">
@@ -892,6 +1134,40 @@ export default function SettingsPage() {
                     Number of months after which points expire (0 = never expire)
                   </p>
                 </div>
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Expiry Reminder (Days Before)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={loyaltySettings.points_expiry_reminder_days.value}
+                      onChange={(e) => handleLoyaltySettingChange('points_expiry_reminder_days', parseInt(e.target.value) || 0)}
+                      className="w-full p-2 border border-gray-300 rounded-md focus:ring-purple-500 focus:border-purple-500"
+                      placeholder="7"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Email customers this many days before their points expire (0 = no reminders)
+                    </p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Return Window (Days)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={loyaltySettings.points_return_window_days.value}
+                      onChange={(e) => handleLoyaltySettingChange('points_return_window_days', parseInt(e.target.value) || 0)}
+                      className="w-full p-2 border border-gray-300 rounded-md focus:ring-purple-500 focus:border-purple-500"
+                      placeholder="0"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Pending points of a delivered order become available this many days after the order date (0 = on delivery)
+                    </p>
+                  </div>
+                </div>
               </div>
 
               {/* Preview Section */}
@@ -927,6 +1203,9 @@ export default function SettingsPage() {
             <p className="text-gray-600 text-sm mt-1">
               Configure FBR (Federal Board of Revenue) settings for digital invoicing compliance
             </p>
+            <a href="/settings/fbr-scenarios" className="inline-block mt-2 text-sm text-blue-600 hover:underline">
+              Manage scenario rules (sale types, default rates, required fields) →
+            </a>
           </div>
 
           <div className="space-y-6">
@@ -950,41 +1229,164 @@ export default function SettingsPage() {
                     The base URL for FBR API endpoints
                   </p>
                 </div>
+              </div>
 
-                <div className="space-y-2">
-                  <label className="block text-sm font-medium text-gray-700">
-                    FBR Sandbox Token
-                  </label>
-                  <input
-                    type="password"
-                    value={fbrSettings.fbrSandboxToken}
-                    onChange={(e) => handleFbrSettingChange('fbrSandboxToken', e.target.value)}
-                    className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
-                    placeholder="Enter your FBR sandbox token"
-                  />
-                  <p className="text-xs text-gray-500">
-                    Your FBR sandbox API token for testing
-                  </p>
+              {!fbrEncryptionConfigured && (
+                <div className="p-3 bg-red-50 text-red-700 rounded-md border border-red-200 text-sm">
+                  FBR_TOKEN_ENCRYPTION_KEY is not set on the server. Tokens cannot be saved until it is configured.
                 </div>
-              </div>
+              )}
 
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <label className="block text-sm font-medium text-orange-600">
-                    Production Environment Token
-                  </label>
-                  <input
-                    type="password"
-                    value={fbrSettings.fbrProductionToken}
-                    onChange={(e) => handleFbrSettingChange('fbrProductionToken', e.target.value)}
-                    className="w-full p-3 border border-orange-300 rounded-md focus:ring-orange-500 focus:border-orange-500"
-                    placeholder="Enter your FBR production token"
-                  />
-                  <p className="text-xs text-orange-600">
-                    ⚠️ Your FBR production API token for live invoice submissions
-                  </p>
-                </div>
+                {(['sandbox', 'production'] as FbrEnvironment[]).map(environment => {
+                  const status = fbrCredentials?.[environment];
+                  const isProduction = environment === 'production';
+                  return (
+                    <div
+                      key={environment}
+                      className={`space-y-3 p-4 rounded-lg border ${isProduction ? 'border-orange-300' : 'border-gray-200'}`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <label className={`block text-sm font-medium ${isProduction ? 'text-orange-600' : 'text-gray-700'}`}>
+                          {isProduction ? 'Production Environment Token' : 'FBR Sandbox Token'}
+                        </label>
+                        {status?.configured ? (
+                          <span className="text-xs text-green-700 bg-green-100 px-2 py-1 rounded">
+                            Configured{status.tokenHint ? ` (••••${status.tokenHint})` : ''}
+                          </span>
+                        ) : (
+                          <span className="text-xs text-gray-600 bg-gray-100 px-2 py-1 rounded">Not configured</span>
+                        )}
+                      </div>
+
+                      {status?.legacy && (
+                        <div className="flex items-center justify-between gap-2 p-2 bg-yellow-50 border border-yellow-200 rounded text-xs text-yellow-800">
+                          <span>⚠️ This token is stored in plain text from an older version.</span>
+                          <button
+                            onClick={() => handleImportLegacyFbrToken(environment)}
+                            disabled={saving || !fbrEncryptionConfigured}
+                            className="px-2 py-1 bg-yellow-600 text-white rounded hover:bg-yellow-700 disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+                          >
+                            Encrypt Token
+                          </button>
+                        </div>
+                      )}
+                      {status?.expired && (
+                        <p className="text-xs text-red-600">⚠️ This token expired on {new Date(status.expiresAt!).toLocaleDateString()}</p>
+                      )}
+                      {status?.expiresSoon && (
+                        <p className="text-xs text-orange-600">
+                          ⚠️ This token expires in {status.daysUntilExpiry} day{status.daysUntilExpiry === 1 ? '' : 's'}
+                        </p>
+                      )}
+
+                      <input
+                        type="password"
+                        autoComplete="new-password"
+                        value={fbrTokenForms[environment].token}
+                        onChange={(e) => handleFbrTokenFormChange(environment, 'token', e.target.value)}
+                        className={`w-full p-3 border rounded-md ${isProduction ? 'border-orange-300 focus:ring-orange-500 focus:border-orange-500' : 'border-gray-300 focus:ring-blue-500 focus:border-blue-500'}`}
+                        placeholder={status?.configured ? 'Enter a new token to rotate' : `Enter your FBR ${environment} token`}
+                      />
+
+                      <div className="space-y-1">
+                        <label className="block text-xs font-medium text-gray-600">Expires On</label>
+                        <input
+                          type="date"
+                          value={fbrTokenForms[environment].expiresAt}
+                          onChange={(e) => handleFbrTokenFormChange(environment, 'expiresAt', e.target.value)}
+                          className="w-full p-2 border border-gray-300 rounded-md text-sm"
+                        />
+                      </div>
+
+                      <div className="flex items-center justify-between">
+                        <p className={`text-xs ${isProduction ? 'text-orange-600' : 'text-gray-500'}`}>
+                          {isProduction
+                            ? '⚠️ Used for live invoice submissions'
+                            : 'Used for testing against the FBR sandbox'}
+                        </p>
+                        <button
+                          onClick={() => handleSaveFbrToken(environment)}
+                          disabled={saving || !fbrEncryptionConfigured}
+                          className="px-3 py-1.5 text-sm bg-gray-800 text-white rounded-md hover:bg-gray-900 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {fbrTokenForms[environment].token.trim() ? (status?.configured ? 'Rotate Token' : 'Save Token') : 'Update Expiry'}
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
               </div>
+
+              <p className="text-xs text-gray-500">
+                Tokens are encrypted on the server and never shown again after saving.
+              </p>
+
+              {/* Token History and Audit Log */}
+              {(fbrCredentialHistory.length > 0 || fbrCredentialAuditLog.length > 0) && (
+                <details className="border border-gray-200 rounded-lg">
+                  <summary className="px-4 py-2 cursor-pointer text-sm font-medium text-gray-700">
+                    Token history and audit log
+                  </summary>
+                  <div className="p-4 space-y-4">
+                    <div>
+                      <h4 className="text-sm font-medium text-gray-700 mb-2">Rotation History</h4>
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="text-left text-gray-500 border-b">
+                            <th className="py-1">Environment</th>
+                            <th className="py-1">Token</th>
+                            <th className="py-1">Added</th>
+                            <th className="py-1">Expires</th>
+                            <th className="py-1">Replaced</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {fbrCredentialHistory.map(entry => (
+                            <tr key={entry.id} className="border-b last:border-0">
+                              <td className="py-1 capitalize">{entry.environment}</td>
+                              <td className="py-1 font-mono">••••{entry.tokenHint}{entry.isActive && <span className="ml-1 text-green-600">(current)</span>}</td>
+                              <td className="py-1">{new Date(entry.createdAt).toLocaleString()}</td>
+                              <td className="py-1">{entry.expiresAt ? new Date(entry.expiresAt).toLocaleDateString() : '-'}</td>
+                              <td className="py-1">{entry.revokedAt ? new Date(entry.revokedAt).toLocaleString() : '-'}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+
+                    <div>
+                      <h4 className="text-sm font-medium text-gray-700 mb-2">Audit Log (latest 50)</h4>
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="text-left text-gray-500 border-b">
+                            <th className="py-1">Date</th>
+                            <th className="py-1">Action</th>
+                            <th className="py-1">Environment</th>
+                            <th className="py-1">Invoice</th>
+                            <th className="py-1">Result</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {fbrCredentialAuditLog.map(entry => (
+                            <tr key={entry.id} className="border-b last:border-0">
+                              <td className="py-1">{new Date(entry.createdAt).toLocaleString()}</td>
+                              <td className="py-1">{FBR_ACTION_LABELS[entry.action] || entry.action}</td>
+                              <td className="py-1 capitalize">{entry.environment}</td>
+                              <td className="py-1 font-mono">{entry.invoiceNumber || '-'}</td>
+                              <td className="py-1">
+                                {entry.success === null ? '-' : entry.success
+                                  ? <span className="text-green-600">Posted</span>
+                                  : <span className="text-red-600">{entry.details?.error || 'Failed'}</span>}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                </details>
+              )}
             </div>
 
             <Separator />
@@ -1091,7 +1493,7 @@ export default function SettingsPage() {
             <div className="bg-blue-50 p-4 rounded-lg border border-blue-200">
               <div className="flex items-start space-x-2">
                 <div className="flex-shrink-0">
-                  {Object.values(fbrSettings).every(value => value.trim() !== '') ? (
+                  {isFbrConfigured ? (
                     <div className="text-green-600">✅</div>
                   ) : (
                     <div className="text-yellow-600">⚠️</div>
@@ -1100,7 +1502,7 @@ export default function SettingsPage() {
                 <div>
                   <h4 className="text-sm font-medium text-blue-900">Configuration Status</h4>
                   <p className="text-sm text-blue-800 mt-1">
-                    {Object.values(fbrSettings).every(value => value.trim() !== '') 
+                    {isFbrConfigured
                       ? 'All FBR settings are configured. Digital invoicing is ready.'
                       : 'Some FBR settings are missing. Please complete all fields to enable digital invoicing.'
                     }
@@ -39,7 +39,7 @@ interface LoyaltyPoints {
 
 interface PointsHistory {
   id: string;
-  transactionType: 'earned' | 'redeemed' | 'expired' | 'manual_adjustment';
+  transactionType: 'earned' | 'redeemed' | 'expired' | 'manual_adjustment' | 'refund_adjustment';
   points: number;
   pointsBalance: number;
   description: string;
@@ -52,6 +52,32 @@ interface PointsHistory {
   createdAt: string;
 }
 
+interface PointsBreakdown {
+  earningRate: number;
+  baseAmount: number;
+  lines: Array<{
+    orderItemId: string;
+    productName: string;
+    amount: number;
+    multiplier: number;
+    rule: string | null;
+    excluded: boolean;
+    points: number;
+  }>;
+  otherAmount: number;
+  otherPoints: number;
+  linePoints: number;
+  tier: { name: string; multiplier: number } | null;
+  tierBonus: number;
+  points: number;
+}
+
+interface TierStatus {
+  tier: { id: string; name: string; multiplier: number } | null;
+  spend: number;
+  nextTier: { name: string; minSpend: number } | null;
+}
+
 interface ExpiringSoon {
   points: number;
   expiresAt: string;
@@ -69,6 +95,7 @@ export default function UserPointsHistoryPage() {
   const [totalMoneySaved, setTotalMoneySaved] = useState<number>(0);
   const [history, setHistory] = useState<PointsHistory[]>([]);
   const [expiringSoon, setExpiringSoon] = useState<ExpiringSoon[]>([]);
+  const [tierStatus, setTierStatus] = useState<TierStatus | null>(null);
   const [selectedHistory, setSelectedHistory] = useState<Set<string>>(new Set());
   const [selectAll, setSelectAll] = useState(false);
   const [error, setError] = useState('');
@@ -105,6 +132,7 @@ export default function UserPointsHistoryPage() {
           setTotalMoneySaved(data.totalMoneySaved || 0);
           setHistory(data.history || []);
           setExpiringSoon(data.expiringSoon || []);
+          setTierStatus(data.tier || null);
         } else {
           setError(data.error || 'Failed to fetch points data');
         }
@@ -218,6 +246,8 @@ export default function UserPointsHistoryPage() {
         return <ClockIcon className="h-4 w-4 text-red-600" />;
       case 'manual_adjustment':
         return <UserIcon className="h-4 w-4 text-purple-600" />;
+      case 'refund_adjustment':
+        return <RefreshCwIcon className="h-4 w-4 text-orange-600" />;
       default:
         return <GiftIcon className="h-4 w-4 text-gray-600" />;
     }
@@ -233,6 +263,8 @@ export default function UserPointsHistoryPage() {
         return 'text-red-600';
       case 'manual_adjustment':
         return 'text-purple-600';
+      case 'refund_adjustment':
+        return 'text-orange-600';
       default:
         return 'text-gray-600';
     }
@@ -247,6 +279,46 @@ export default function UserPointsHistoryPage() {
     return points > 0 ? `+${points}` : points.toString();
   };
 
+  // How an order's points were worked out: per item rule multipliers, then the tier
+  const renderBreakdown = (breakdown: PointsBreakdown) => (
+    <details className="text-xs text-gray-600 mt-1">
+      <summary className="cursor-pointer text-purple-600">Points breakdown</summary>
+      <div className="mt-1 space-y-1">
+        {breakdown.lines.map(line => (
+          <div key={line.orderItemId} className="flex justify-between gap-4">
+            <span>
+              {line.productName} (<CurrencySymbol />{line.amount.toFixed(2)})
+              {line.excluded
+                ? <span className="text-orange-600"> · discounted, excluded</span>
+                : line.rule && <span className="text-purple-600"> · {line.rule} x{line.multiplier}</span>}
+            </span>
+            <span>{line.points.toFixed(2)}</span>
+          </div>
+        ))}
+        {breakdown.otherAmount > 0 && (
+          <div className="flex justify-between gap-4">
+            <span>Tax, shipping and other (<CurrencySymbol />{breakdown.otherAmount.toFixed(2)})</span>
+            <span>{breakdown.otherPoints.toFixed(2)}</span>
+          </div>
+        )}
+        <div className="flex justify-between gap-4 border-t pt-1">
+          <span>At {breakdown.earningRate} point(s) per <CurrencySymbol />1</span>
+          <span>{breakdown.linePoints.toFixed(2)}</span>
+        </div>
+        {breakdown.tier && (
+          <div className="flex justify-between gap-4">
+            <span>{breakdown.tier.name} tier x{breakdown.tier.multiplier}</span>
+            <span>{breakdown.tierBonus >= 0 ? '+' : ''}{breakdown.tierBonus}</span>
+          </div>
+        )}
+        <div className="flex justify-between gap-4 font-medium">
+          <span>Points earned</span>
+          <span>{breakdown.points}</span>
+        </div>
+      </div>
+    </details>
+  );
+
   const columns = [
     {
       key: 'select',
@@ -331,6 +403,7 @@ export default function UserPointsHistoryPage() {
               Redeemed: {record.metadata.pointsToRedeem} points
             </div>
           )}
+          {record.metadata?.breakdown && renderBreakdown(record.metadata.breakdown)}
         </div>
       )
     },
@@ -432,7 +505,7 @@ export default function UserPointsHistoryPage() {
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <div>
               <p className="text-sm font-medium text-gray-500">Name</p>
               <p className="text-lg">{user?.name || 'No name provided'}</p>
@@ -445,6 +518,20 @@ export default function UserPointsHistoryPage() {
               <p className="text-sm font-medium text-gray-500">Phone</p>
               <p className="text-lg">{user?.phone || 'No phone provided'}</p>
             </div>
+            <div>
+              <p className="text-sm font-medium text-gray-500">Loyalty Tier</p>
+              <p className="text-lg">
+                {tierStatus?.tier ? `${tierStatus.tier.name} (x${tierStatus.tier.multiplier})` : 'No tier'}
+              </p>
+              {tierStatus && (
+                <p className="text-xs text-gray-500">
+                  <CurrencySymbol />{tierStatus.spend.toFixed(2)} spent in the last 12 months
+                  {tierStatus.nextTier && (
+                    <> · <CurrencySymbol />{Math.max(0, tierStatus.nextTier.minSpend - tierStatus.spend).toFixed(2)} more for {tierStatus.nextTier.name}</>
+                  )}
+                </p>
+              )}
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -92,6 +92,11 @@ export function AppSidebar() {
       children: [
         { name: 'All Orders', href: '/orders' },
         { name: 'Add Order', href: '/orders/add' },
+        { name: 'Unsubmitted Invoices', href: '/orders/unsubmitted' },
+        { name: 'Returns', href: '/returns' },
+        { name: 'Refunds', href: '/refunds' },
+        { name: 'Delivery Runs', href: '/delivery-runs' },
+        { name: 'Dispatch Queue', href: '/drivers/dispatch' },
         { name: 'Bulk Upload', href: '/users/bulk-upload?tab=orders' },
       ],
     },
@@ -107,6 +112,11 @@ export function AppSidebar() {
       children: [
         { name: 'Overview', href: '/inventory' },
         { name: 'Listing', href: '/inventory/listing' },
+        { name: 'Locations', href: '/inventory/locations' },
+        { name: 'Transfers', href: '/inventory/transfers' },
+        { name: 'Stock Counts', href: '/inventory/counts' },
+        { name: 'Reorder', href: '/inventory/reorder' },
+        { name: 'Lots & Expiry', href: '/inventory/lots' },
         { name: 'Reports', href: '/inventory/reports' },
       ],
     },
@@ -139,6 +149,8 @@ export function AppSidebar() {
         { name: 'Customer Reports', href: '/reports/customers' },
         { name: 'Order Reports', href: '/reports/orders' },
         { name: 'Profit Reports', href: '/reports/profits' },
+        { name: 'FBR Reconciliation', href: '/reports/fbr-reconciliation' },
+        { name: 'Inventory Valuation', href: '/reports/inventory-valuation' },
       ],
     },
   ];
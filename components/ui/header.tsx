@@ -83,6 +83,8 @@ export function Header({ className }: HeaderProps) {
       children: [
         { name: 'All Orders', href: '/orders' },
         { name: 'Add Order', href: '/orders/add' },
+        { name: 'Returns', href: '/returns' },
+        { name: 'Refunds', href: '/refunds' },
       ],
     },
     {
@@ -97,6 +99,11 @@ export function Header({ className }: HeaderProps) {
       children: [
         { name: 'Overview', href: '/inventory' },
         { name: 'Listing', href: '/inventory/listing' },
+        { name: 'Locations', href: '/inventory/locations' },
+        { name: 'Transfers', href: '/inventory/transfers' },
+        { name: 'Stock Counts', href: '/inventory/counts' },
+        { name: 'Reorder', href: '/inventory/reorder' },
+        { name: 'Lots & Expiry', href: '/inventory/lots' },
         { name: 'Reports', href: '/inventory/reports' },
       ],
     },
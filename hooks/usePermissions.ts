@@ -81,8 +81,8 @@ export function usePermissions(): UserPermissions {
  * Check if user has a specific permission
  */
 export function hasPermission(userPermissions: string[], requiredPermission: string): boolean {
-  // Super admin has all permissions
-  if (userPermissions.includes('*')) {
+  // Super admin has all permissions ('all' is what tenant registration grants the owner role)
+  if (userPermissions.includes('*') || userPermissions.includes('all')) {
     return true;
   }
   
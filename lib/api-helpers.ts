@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { getTenantFromRequest } from '@/lib/tenant';
@@ -78,6 +79,32 @@ export function withAuth<T extends any[]>(
   });
 }
 
+/**
+ * Higher-order function to wrap cron routes, which run for all tenants
+ *
+ * Requires `Authorization: Bearer <CRON_SECRET>`. Fails closed: when
+ * CRON_SECRET is not configured every request is refused.
+ */
+export function withCronSecret<T extends any[]>(
+  handler: (request: NextRequest, ...args: T) => Promise<NextResponse>
+) {
+  return async (request: NextRequest, ...args: T): Promise<NextResponse> => {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+      console.error('❌ CRON_SECRET is not configured; refusing cron request');
+      return ErrorResponses.serverError('Cron is not configured');
+    }
+
+    const expected = Buffer.from(`Bearer ${cronSecret}`);
+    const received = Buffer.from(request.headers.get('authorization') || '');
+    if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+      return ErrorResponses.unauthorized();
+    }
+
+    return handler(request, ...args);
+  };
+}
+
 /**
  * Add tenant filter to Drizzle query conditions
  */
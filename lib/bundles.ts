@@ -0,0 +1,324 @@
+/**
+ * Product Bundles
+ *
+ * A bundle (products.product_type = 'bundle') is sold as a single order line
+ * with its own price, tax and HS code, but holds no stock of its own. Its
+ * components (product_bundle_items) are existing products or variants with
+ * an amount per bundle: units, or grams for weight-based components.
+ *
+ * Availability of a bundle is derived from its components: the number of
+ * whole bundles the scarcest stock-tracked component can still cover.
+ * Components that are untracked or backorderable never limit it.
+ *
+ * When a bundle is ordered, each component is copied onto the order line as
+ * an order_item_components row that reserves and deducts that component's
+ * stock like an order line of its own (see lib/stockReservations.ts). The
+ * bundle line itself never touches stock, so invoices and FBR see one line.
+ */
+
+import { db, type DbExecutor } from '@/lib/db';
+import { inventoryLocations, productBundleItems, productInventory, products, productVariants } from '@/lib/schema';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { isWeightBasedProduct } from '@/utils/weightUtils';
+import { getStockTrackingDirect, type StockTrackingMode } from '@/lib/stockManagement';
+
+export const BUNDLE_PRODUCT_TYPE = 'bundle';
+
+export interface BundleComponentInput {
+  productId: string;
+  variantId?: string | null;
+  quantity?: number; // units per bundle
+  weightQuantity?: number; // grams per bundle, for weight-based components
+}
+
+export interface BundleComponent {
+  id: string;
+  productId: string;
+  variantId: string | null;
+  productName: string;
+  variantTitle: string | null;
+  sku: string | null;
+  isWeightBased: boolean;
+  quantity: number;
+  weightQuantity: number;
+}
+
+export interface BundleComponentAvailability extends BundleComponent {
+  tracking: StockTrackingMode;
+  available: number; // units, or grams for weight-based components
+  bundles: number | null; // Whole bundles this component covers; null when it does not limit
+}
+
+export interface BundleAvailability {
+  available: number | null; // null when no component limits the bundle
+  components: BundleComponentAvailability[];
+}
+
+export interface BundleResult {
+  success: boolean;
+  error?: string;
+  components?: BundleComponent[];
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Amount of a component needed for a number of bundles
+ */
+export function componentAmount(component: BundleComponent, bundles: number): { quantity: number; weightQuantity: number } {
+  return component.isWeightBased
+    ? { quantity: 0, weightQuantity: round2(component.weightQuantity * bundles) }
+    : { quantity: component.quantity * bundles, weightQuantity: 0 };
+}
+
+/**
+ * The components of the given products that are bundles
+ *
+ * @returns Components by bundle product id; products that are not bundles are left out,
+ *          bundles without components map to an empty list
+ */
+export async function getBundleComponents(
+  tenantId: string,
+  productIds: string[],
+  executor: DbExecutor = db
+): Promise<Map<string, BundleComponent[]>> {
+  const ids = [...new Set(productIds)];
+  if (ids.length === 0) return new Map();
+
+  const bundles = await executor
+    .select({ id: products.id })
+    .from(products)
+    .where(and(
+      eq(products.tenantId, tenantId),
+      inArray(products.id, ids),
+      eq(products.productType, BUNDLE_PRODUCT_TYPE)
+    ));
+  if (bundles.length === 0) return new Map();
+
+  const rows = await executor
+    .select({
+      item: productBundleItems,
+      productName: products.name,
+      productSku: products.sku,
+      stockManagementType: products.stockManagementType,
+      variantTitle: productVariants.title,
+      variantSku: productVariants.sku,
+    })
+    .from(productBundleItems)
+    .innerJoin(products, and(eq(productBundleItems.productId, products.id), eq(products.tenantId, tenantId)))
+    .leftJoin(productVariants, eq(productBundleItems.variantId, productVariants.id))
+    .where(and(
+      eq(productBundleItems.tenantId, tenantId),
+      inArray(productBundleItems.bundleProductId, bundles.map(bundle => bundle.id))
+    ))
+    .orderBy(asc(productBundleItems.sortOrder), asc(productBundleItems.createdAt));
+
+  const components = new Map<string, BundleComponent[]>(bundles.map(bundle => [bundle.id, []]));
+  for (const row of rows) {
+    components.get(row.item.bundleProductId)!.push({
+      id: row.item.id,
+      productId: row.item.productId,
+      variantId: row.item.variantId,
+      productName: row.productName,
+      variantTitle: row.variantTitle,
+      sku: row.variantSku || row.productSku,
+      isWeightBased: isWeightBasedProduct(row.stockManagementType || 'quantity'),
+      quantity: row.item.quantity,
+      weightQuantity: parseFloat(row.item.weightQuantity || '0'),
+    });
+  }
+  return components;
+}
+
+/**
+ * Check components and turn them into product_bundle_items rows
+ *
+ * Components must be products of the same tenant that are not bundles
+ * themselves; variable products need a variant. Each needs a positive amount
+ * per bundle (whole units, or grams for weight-based components).
+ */
+async function buildBundleItems(
+  tenantId: string,
+  bundleProductId: string | null,
+  inputs: BundleComponentInput[]
+): Promise<{ error: string; values?: undefined } | { error?: undefined; values: Array<typeof productBundleItems.$inferInsert> }> {
+  if (!Array.isArray(inputs) || inputs.length === 0) {
+    return { error: 'A bundle needs at least one component' };
+  }
+
+  const productIds = [...new Set(inputs.map(input => input.productId).filter(Boolean))];
+  const variantIds = [...new Set(inputs.map(input => input.variantId).filter((id): id is string => !!id))];
+
+  const [productRows, variantRows] = await Promise.all([
+    productIds.length > 0
+      ? db
+          .select({ id: products.id, name: products.name, productType: products.productType, stockManagementType: products.stockManagementType })
+          .from(products)
+          .where(and(eq(products.tenantId, tenantId), inArray(products.id, productIds)))
+      : [],
+    variantIds.length > 0
+      ? db
+          .select({ id: productVariants.id, productId: productVariants.productId })
+          .from(productVariants)
+          .where(and(eq(productVariants.tenantId, tenantId), inArray(productVariants.id, variantIds)))
+      : [],
+  ]);
+  const productById = new Map(productRows.map(row => [row.id, row]));
+  const variantById = new Map(variantRows.map(row => [row.id, row]));
+
+  const seen = new Set<string>();
+  const values: Array<typeof productBundleItems.$inferInsert> = [];
+
+  for (const [index, input] of inputs.entries()) {
+    const product = productById.get(input.productId);
+    if (!product) {
+      return { error: `Component ${index + 1}: product not found` };
+    }
+    if (product.id === bundleProductId || product.productType === BUNDLE_PRODUCT_TYPE) {
+      return { error: `${product.name} is a bundle and cannot be a component` };
+    }
+    if (input.variantId) {
+      if (variantById.get(input.variantId)?.productId !== product.id) {
+        return { error: `Component ${index + 1}: variant not found for ${product.name}` };
+      }
+    } else if (product.productType === 'variable') {
+      return { error: `Choose a variant of ${product.name}` };
+    }
+
+    const key = `${product.id}:${input.variantId || ''}`;
+    if (seen.has(key)) {
+      return { error: `${product.name} is listed more than once` };
+    }
+    seen.add(key);
+
+    const isWeightBased = isWeightBasedProduct(product.stockManagementType || 'quantity');
+    const quantity = Number(input.quantity) || 0;
+    const weightQuantity = Number(input.weightQuantity) || 0;
+    if (isWeightBased ? weightQuantity <= 0 : (quantity <= 0 || !Number.isInteger(quantity))) {
+      return {
+        error: isWeightBased
+          ? `Enter the grams of ${product.name} per bundle`
+          : `Enter a whole number of ${product.name} per bundle`,
+      };
+    }
+
+    values.push({
+      id: uuidv4(),
+      tenantId,
+      bundleProductId: bundleProductId || '',
+      productId: product.id,
+      variantId: input.variantId || null,
+      quantity: isWeightBased ? 0 : quantity,
+      weightQuantity: isWeightBased ? round2(weightQuantity).toFixed(2) : '0.00',
+      sortOrder: index,
+      createdAt: new Date(),
+    });
+  }
+
+  return { values };
+}
+
+/**
+ * Check the components of a bundle that is about to be created
+ *
+ * @returns The problem with the components, or null when they can be saved
+ */
+export async function validateBundleComponents(tenantId: string, inputs: BundleComponentInput[]): Promise<string | null> {
+  const result = await buildBundleItems(tenantId, null, inputs);
+  return result.error || null;
+}
+
+/**
+ * Replace the components of a bundle product
+ */
+export async function saveBundleComponents(
+  tenantId: string,
+  bundleProductId: string,
+  inputs: BundleComponentInput[]
+): Promise<BundleResult> {
+  const [bundle] = await db
+    .select({ id: products.id, productType: products.productType })
+    .from(products)
+    .where(and(eq(products.id, bundleProductId), eq(products.tenantId, tenantId)))
+    .limit(1);
+
+  if (!bundle) {
+    return { success: false, error: 'Product not found' };
+  }
+  if (bundle.productType !== BUNDLE_PRODUCT_TYPE) {
+    return { success: false, error: 'Only bundle products have components' };
+  }
+
+  const built = await buildBundleItems(tenantId, bundleProductId, inputs);
+  if (built.error !== undefined) {
+    return { success: false, error: built.error };
+  }
+  const values = built.values;
+
+  await db.transaction(async (tx) => {
+    await tx
+      .delete(productBundleItems)
+      .where(and(eq(productBundleItems.tenantId, tenantId), eq(productBundleItems.bundleProductId, bundleProductId)));
+    await tx.insert(productBundleItems).values(values);
+  });
+
+  console.log(`🎁 Saved ${values.length} component(s) for bundle ${bundleProductId}`);
+  const components = await getBundleComponents(tenantId, [bundleProductId]);
+  return { success: true, components: components.get(bundleProductId) || [] };
+}
+
+/**
+ * How many bundles the component stock can still cover
+ *
+ * @param locationId Only count stock at this location; all active locations when omitted
+ */
+export async function getBundleAvailability(
+  tenantId: string,
+  bundleProductId: string,
+  locationId?: string | null
+): Promise<BundleAvailability> {
+  const components = (await getBundleComponents(tenantId, [bundleProductId])).get(bundleProductId) || [];
+  if (components.length === 0) {
+    return { available: 0, components: [] };
+  }
+
+  const tracking = await getStockTrackingDirect(tenantId, components);
+
+  const conditions = [
+    eq(productInventory.tenantId, tenantId),
+    eq(inventoryLocations.isActive, true),
+    inArray(productInventory.productId, [...new Set(components.map(component => component.productId))]),
+  ];
+  if (locationId) {
+    conditions.push(eq(productInventory.locationId, locationId));
+  }
+
+  const rows = await db
+    .select({ inventory: productInventory })
+    .from(productInventory)
+    .innerJoin(inventoryLocations, eq(productInventory.locationId, inventoryLocations.id))
+    .where(and(...conditions));
+
+  let available: number | null = null;
+  const result = components.map(component => {
+    const mode = tracking.get(`${component.productId}:${component.variantId || ''}`) || 'untracked';
+    const inStock = round2(rows
+      .filter(({ inventory }) => inventory.productId === component.productId && (inventory.variantId || null) === component.variantId)
+      .reduce((sum, { inventory }) => sum + (component.isWeightBased
+        ? parseFloat(inventory.availableWeight || '0')
+        : inventory.availableQuantity || 0), 0));
+
+    const perBundle = component.isWeightBased ? component.weightQuantity : component.quantity;
+    const bundles = mode === 'track' && perBundle > 0 ? Math.max(0, Math.floor(inStock / perBundle)) : null;
+    if (bundles !== null) {
+      available = available === null ? bundles : Math.min(available, bundles);
+    }
+
+    return { ...component, tracking: mode, available: inStock, bundles };
+  });
+
+  return { available, components: result };
+}
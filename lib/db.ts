@@ -11,3 +11,8 @@ const pool = mysql.createPool({
 });
 
 export const db = drizzle(pool, { schema, mode: "default" });
+
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// The shared pool or an open transaction; helpers that take one default to `db`
+export type DbExecutor = typeof db | DbTransaction;
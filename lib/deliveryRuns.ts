@@ -0,0 +1,770 @@
+/**
+ * Delivery Runs
+ *
+ * A delivery run batches the orders scheduled for one date and time window
+ * (orders.service_date / service_time) and hands them to one driver. Creating
+ * a run assigns every order to the driver (driver_assignments, as a single
+ * assignment would) and plans the stop sequence:
+ *
+ * - Distances come from a distance matrix provider. The built-in ones need no
+ *   external service: 'straight_line' (great-circle distance) and
+ *   'road_estimate' (straight line times a typical road detour factor).
+ *   Others, such as a routing API, can be added with
+ *   registerDistanceMatrixProvider.
+ * - The route starts at the driver's base (base_latitude / base_longitude),
+ *   is built nearest-stop-first and then improved with 2-opt.
+ * - Planned arrival per stop = departure time + travel at the run's average
+ *   speed + the service time spent at each earlier stop.
+ *
+ * Orders without a drop-off point (orders.delivery_latitude / longitude) are
+ * kept on the run after the planned stops, without an arrival time.
+ */
+
+import { db } from '@/lib/db';
+import {
+  deliveryRuns,
+  deliveryRunStops,
+  driverAssignmentHistory,
+  driverAssignments,
+  drivers,
+  orders,
+  user,
+} from '@/lib/schema';
+import { and, asc, desc, eq, inArray, isNull, ne, notExists, notInArray, or, sql } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+
+const RUN_NUMBER_PREFIX = 'RUN-';
+const RUN_NUMBER_DIGITS = 6;
+
+export const DELIVERY_RUN_STATUSES = ['planned', 'in_progress', 'completed', 'cancelled'] as const;
+export type DeliveryRunStatus = typeof DELIVERY_RUN_STATUSES[number];
+
+// Runs whose orders cannot be put on another run
+const ACTIVE_RUN_STATUSES: DeliveryRunStatus[] = ['planned', 'in_progress'];
+
+// Orders that no longer need delivering
+const CLOSED_ORDER_STATUSES = ['cancelled', 'delivered', 'completed', 'refunded'];
+
+// Roads are rarely straight; typical urban detour over the great-circle distance
+const ROAD_CIRCUITY_FACTOR = 1.3;
+
+export const DEFAULT_AVERAGE_SPEED_KMH = 30;
+const DEFAULT_SERVICE_MINUTES = 5;
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Distances in km between every pair of points; matrix[i][j] is from i to j
+ */
+export type DistanceMatrixProvider = (points: GeoPoint[]) => number[][] | Promise<number[][]>;
+
+export interface DeliveryRunInput {
+  driverId?: string;
+  runDate?: string; // YYYY-MM-DD
+  windowStart?: string | null; // HH:MM
+  windowEnd?: string | null; // HH:MM
+  departureTime?: string | null; // HH:MM; defaults to the window start
+  orderIds?: string[];
+  // Drop-off points to save on the orders before planning, keyed by order id
+  locations?: Record<string, { latitude?: number | string | null; longitude?: number | string | null }>;
+  distanceMatrix?: string;
+  averageSpeedKmh?: number | string;
+  serviceMinutes?: number | string;
+  notes?: string | null;
+}
+
+export interface DeliveryRunResult {
+  success: boolean;
+  error?: string;
+  run?: NonNullable<Awaited<ReturnType<typeof getDeliveryRun>>>;
+}
+
+export interface PlannedStop {
+  orderId: string;
+  sequence: number;
+  point: GeoPoint | null;
+  distanceFromPrevious: number | null;
+  plannedArrival: Date | null;
+}
+
+/**
+ * Great-circle distance between two points in km
+ */
+export function haversineKm(from: GeoPoint, to: GeoPoint): number {
+  const R = 6371; // Earth's radius in kilometers
+  const dLat = (to.latitude - from.latitude) * Math.PI / 180;
+  const dLon = (to.longitude - from.longitude) * Math.PI / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(from.latitude * Math.PI / 180) * Math.cos(to.latitude * Math.PI / 180) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function straightLineMatrix(points: GeoPoint[]): number[][] {
+  return points.map(from => points.map(to => haversineKm(from, to)));
+}
+
+const distanceMatrixProviders = new Map<string, DistanceMatrixProvider>([
+  ['straight_line', straightLineMatrix],
+  ['road_estimate', (points) => straightLineMatrix(points).map(row => row.map(km => km * ROAD_CIRCUITY_FACTOR))],
+]);
+
+/**
+ * Make a distance matrix provider available to delivery runs under a name
+ */
+export function registerDistanceMatrixProvider(name: string, provider: DistanceMatrixProvider): void {
+  distanceMatrixProviders.set(name, provider);
+}
+
+export function getDistanceMatrixProviders(): string[] {
+  return [...distanceMatrixProviders.keys()];
+}
+
+/**
+ * Latitude/longitude columns as a point, or null when either is missing
+ */
+export function toGeoPoint(latitude: string | number | null | undefined, longitude: string | number | null | undefined): GeoPoint | null {
+  if (latitude === null || latitude === undefined || longitude === null || longitude === undefined) return null;
+  const point = { latitude: Number(latitude), longitude: Number(longitude) };
+  return Number.isFinite(point.latitude) && Number.isFinite(point.longitude) ? point : null;
+}
+
+function routeDistance(matrix: number[][], route: number[]): number {
+  let total = 0;
+  for (let i = 1; i < route.length; i++) {
+    total += matrix[route[i - 1]!]![route[i]!]!;
+  }
+  return total;
+}
+
+/**
+ * Shortest-found visiting order of the stops, starting at point 0 (the base)
+ *
+ * Nearest neighbour gives a first route, which 2-opt then improves by
+ * reversing segments while that shortens it. The route ends at the last stop;
+ * the return to base is not counted.
+ *
+ * @returns Indexes into the matrix of the stops (1..n) in visiting order
+ */
+export function optimiseRoute(matrix: number[][]): number[] {
+  const stopCount = matrix.length - 1;
+  if (stopCount <= 0) return [];
+
+  const unvisited = new Set(Array.from({ length: stopCount }, (_, i) => i + 1));
+  const route = [0];
+  while (unvisited.size > 0) {
+    const current = route[route.length - 1]!;
+    let next = -1;
+    for (const candidate of unvisited) {
+      if (next === -1 || matrix[current]![candidate]! < matrix[current]![next]!) {
+        next = candidate;
+      }
+    }
+    route.push(next);
+    unvisited.delete(next);
+  }
+
+  let best = routeDistance(matrix, route);
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 1; i < route.length - 1; i++) {
+      for (let k = i + 1; k < route.length; k++) {
+        const candidate = [...route.slice(0, i), ...route.slice(i, k + 1).reverse(), ...route.slice(k + 1)];
+        const distance = routeDistance(matrix, candidate);
+        if (distance < best - 1e-9) {
+          route.splice(0, route.length, ...candidate);
+          best = distance;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return route.slice(1);
+}
+
+/**
+ * Stop sequence, distances and planned arrivals for a run
+ *
+ * @param departure When the driver leaves base
+ */
+export async function planRoute(
+  base: GeoPoint,
+  stops: Array<{ orderId: string; point: GeoPoint | null }>,
+  options: { departure: Date; distanceMatrix: string; averageSpeedKmh: number; serviceMinutes: number }
+): Promise<PlannedStop[]> {
+  const provider = distanceMatrixProviders.get(options.distanceMatrix);
+  if (!provider) {
+    throw new Error(`Unknown distance matrix: ${options.distanceMatrix}`);
+  }
+
+  const located = stops.filter((stop): stop is { orderId: string; point: GeoPoint } => !!stop.point);
+  const unlocated = stops.filter(stop => !stop.point);
+
+  const matrix = await provider([base, ...located.map(stop => stop.point)]);
+  const order = optimiseRoute(matrix);
+
+  const planned: PlannedStop[] = [];
+  let previous = 0;
+  let elapsedMinutes = 0;
+  for (const index of order) {
+    const distance = matrix[previous]![index]!;
+    elapsedMinutes += (distance / options.averageSpeedKmh) * 60;
+    planned.push({
+      orderId: located[index - 1]!.orderId,
+      sequence: planned.length + 1,
+      point: located[index - 1]!.point,
+      distanceFromPrevious: Math.round(distance * 100) / 100,
+      plannedArrival: new Date(options.departure.getTime() + Math.round(elapsedMinutes) * 60000),
+    });
+    elapsedMinutes += options.serviceMinutes;
+    previous = index;
+  }
+
+  for (const stop of unlocated) {
+    planned.push({
+      orderId: stop.orderId,
+      sequence: planned.length + 1,
+      point: null,
+      distanceFromPrevious: null,
+      plannedArrival: null,
+    });
+  }
+
+  return planned;
+}
+
+/**
+ * Next sequential run number for a tenant (RUN-000001, RUN-000002, …)
+ */
+async function generateRunNumber(tenantId: string): Promise<string> {
+  const [row] = await db
+    .select({
+      maxNumber: sql<string | null>`MAX(CAST(SUBSTRING(${deliveryRuns.runNumber}, ${RUN_NUMBER_PREFIX.length + 1}) AS UNSIGNED))`,
+    })
+    .from(deliveryRuns)
+    .where(eq(deliveryRuns.tenantId, tenantId));
+
+  const next = parseInt(row?.maxNumber || '0') + 1;
+  return `${RUN_NUMBER_PREFIX}${String(next).padStart(RUN_NUMBER_DIGITS, '0')}`;
+}
+
+function isTime(value: string | null | undefined): value is string {
+  return !!value && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+}
+
+// Orders already on a planned or running delivery run
+function onActiveRun() {
+  return db
+    .select({ id: deliveryRunStops.id })
+    .from(deliveryRunStops)
+    .innerJoin(deliveryRuns, eq(deliveryRunStops.runId, deliveryRuns.id))
+    .where(and(
+      eq(deliveryRunStops.orderId, orders.id),
+      inArray(deliveryRuns.status, ACTIVE_RUN_STATUSES)
+    ));
+}
+
+/**
+ * Whether the driver is on a planned or running delivery run, and so stays
+ * busy when a single stop is delivered or cancelled
+ */
+export async function driverHasActiveRun(driverId: string): Promise<boolean> {
+  const [run] = await db
+    .select({ id: deliveryRuns.id })
+    .from(deliveryRuns)
+    .where(and(eq(deliveryRuns.driverId, driverId), inArray(deliveryRuns.status, ACTIVE_RUN_STATUSES)))
+    .limit(1);
+  return !!run;
+}
+
+/**
+ * Orders that can go on a run for the date and time window
+ *
+ * These are the tenant's open customer orders scheduled for the date (and
+ * within the window when one is given) that are not on another active run.
+ *
+ * @param includeUnscheduled Also list open orders without a service date
+ */
+export async function getRunCandidates(
+  tenantId: string,
+  runDate: string,
+  windowStart?: string | null,
+  windowEnd?: string | null,
+  includeUnscheduled = false
+) {
+  const scheduled = [eq(orders.serviceDate, runDate)];
+  if (isTime(windowStart)) scheduled.push(sql`${orders.serviceTime} >= ${windowStart}`);
+  if (isTime(windowEnd)) scheduled.push(sql`${orders.serviceTime} <= ${windowEnd}`);
+
+  return db
+    .select({
+      id: orders.id,
+      orderNumber: orders.orderNumber,
+      status: orders.status,
+      deliveryStatus: orders.deliveryStatus,
+      assignedDriverId: orders.assignedDriverId,
+      serviceDate: orders.serviceDate,
+      serviceTime: orders.serviceTime,
+      customerName: sql<string>`TRIM(CONCAT(COALESCE(${orders.shippingFirstName}, ''), ' ', COALESCE(${orders.shippingLastName}, '')))`,
+      phone: orders.phone,
+      shippingAddress1: orders.shippingAddress1,
+      shippingCity: orders.shippingCity,
+      deliveryLatitude: orders.deliveryLatitude,
+      deliveryLongitude: orders.deliveryLongitude,
+      totalAmount: orders.totalAmount,
+    })
+    .from(orders)
+    .where(and(
+      eq(orders.tenantId, tenantId),
+      or(eq(orders.orderType, 'customer'), isNull(orders.orderType)),
+      notInArray(orders.status, CLOSED_ORDER_STATUSES),
+      or(isNull(orders.deliveryStatus), notInArray(orders.deliveryStatus, ['delivered'])),
+      includeUnscheduled ? or(and(...scheduled), isNull(orders.serviceDate)) : and(...scheduled),
+      notExists(onActiveRun())
+    ))
+    .orderBy(asc(orders.serviceTime), asc(orders.createdAt));
+}
+
+/**
+ * The tenant's active drivers; only those with a base location can take a run
+ */
+export async function getRunDrivers(tenantId: string) {
+  return db
+    .select({
+      id: drivers.id,
+      name: user.name,
+      status: drivers.status,
+      vehicleType: drivers.vehicleType,
+      vehiclePlateNumber: drivers.vehiclePlateNumber,
+      baseLocation: drivers.baseLocation,
+      baseLatitude: drivers.baseLatitude,
+      baseLongitude: drivers.baseLongitude,
+    })
+    .from(drivers)
+    .innerJoin(user, eq(drivers.userId, user.id))
+    .where(and(eq(drivers.tenantId, tenantId), eq(drivers.isActive, true)))
+    .orderBy(asc(user.name));
+}
+
+/**
+ * Create a run: assign its orders to the driver and plan the stop sequence
+ */
+export async function createDeliveryRun(
+  tenantId: string,
+  adminUserId: string,
+  input: DeliveryRunInput
+): Promise<DeliveryRunResult> {
+  const runDate = input.runDate || '';
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(runDate)) {
+    return { success: false, error: 'Run date is required (YYYY-MM-DD)' };
+  }
+  const windowStart = input.windowStart || null;
+  const windowEnd = input.windowEnd || null;
+  if ((windowStart && !isTime(windowStart)) || (windowEnd && !isTime(windowEnd))) {
+    return { success: false, error: 'Time window must be given as HH:MM' };
+  }
+  if (windowStart && windowEnd && windowEnd < windowStart) {
+    return { success: false, error: 'Time window must end after it starts' };
+  }
+  const departureTime = input.departureTime || windowStart || '09:00';
+  if (!isTime(departureTime)) {
+    return { success: false, error: 'Departure time must be given as HH:MM' };
+  }
+  const distanceMatrix = input.distanceMatrix || 'straight_line';
+  if (!distanceMatrixProviders.has(distanceMatrix)) {
+    return { success: false, error: `Distance matrix must be one of: ${getDistanceMatrixProviders().join(', ')}` };
+  }
+  const averageSpeedKmh = input.averageSpeedKmh !== undefined && input.averageSpeedKmh !== ''
+    ? Number(input.averageSpeedKmh)
+    : DEFAULT_AVERAGE_SPEED_KMH;
+  if (!Number.isFinite(averageSpeedKmh) || averageSpeedKmh <= 0) {
+    return { success: false, error: 'Average speed must be greater than 0' };
+  }
+  const serviceMinutes = input.serviceMinutes !== undefined && input.serviceMinutes !== ''
+    ? Number(input.serviceMinutes)
+    : DEFAULT_SERVICE_MINUTES;
+  if (!Number.isInteger(serviceMinutes) || serviceMinutes < 0) {
+    return { success: false, error: 'Time per stop must be a whole number of minutes' };
+  }
+
+  const orderIds = [...new Set(input.orderIds || [])];
+  if (orderIds.length === 0) {
+    return { success: false, error: 'Choose at least one order for the run' };
+  }
+
+  if (!input.driverId) {
+    return { success: false, error: 'Choose a driver for the run' };
+  }
+  const [driver] = await db
+    .select()
+    .from(drivers)
+    .where(and(eq(drivers.id, input.driverId), eq(drivers.tenantId, tenantId)))
+    .limit(1);
+  if (!driver || !driver.isActive) {
+    return { success: false, error: 'Driver not found' };
+  }
+  const base = toGeoPoint(driver.baseLatitude, driver.baseLongitude);
+  if (!base) {
+    return { success: false, error: 'Set the driver\'s base location before planning a run' };
+  }
+
+  const locations = new Map<string, GeoPoint>();
+  for (const [orderId, location] of Object.entries(input.locations || {})) {
+    if (!orderIds.includes(orderId) || location.latitude === '' || location.longitude === '') continue;
+    const point = toGeoPoint(location.latitude, location.longitude);
+    if (!point) continue;
+    if (Math.abs(point.latitude) > 90 || Math.abs(point.longitude) > 180) {
+      return { success: false, error: 'Latitude must be within ±90 and longitude within ±180' };
+    }
+    locations.set(orderId, point);
+  }
+  for (const [orderId, point] of locations) {
+    await db
+      .update(orders)
+      .set({ deliveryLatitude: point.latitude.toFixed(8), deliveryLongitude: point.longitude.toFixed(8), updatedAt: new Date() })
+      .where(and(eq(orders.id, orderId), eq(orders.tenantId, tenantId)));
+  }
+
+  const orderRows = await db
+    .select({
+      id: orders.id,
+      orderNumber: orders.orderNumber,
+      status: orders.status,
+      assignedDriverId: orders.assignedDriverId,
+      deliveryLatitude: orders.deliveryLatitude,
+      deliveryLongitude: orders.deliveryLongitude,
+      onActiveRun: sql<number>`EXISTS(${onActiveRun()})`,
+    })
+    .from(orders)
+    .where(and(eq(orders.tenantId, tenantId), inArray(orders.id, orderIds)));
+
+  if (orderRows.length !== orderIds.length) {
+    return { success: false, error: 'One or more orders were not found' };
+  }
+  for (const order of orderRows) {
+    if (CLOSED_ORDER_STATUSES.includes(order.status)) {
+      return { success: false, error: `Order ${order.orderNumber} is ${order.status}` };
+    }
+    if (Number(order.onActiveRun)) {
+      return { success: false, error: `Order ${order.orderNumber} is already on another delivery run` };
+    }
+  }
+
+  const departure = new Date(`${runDate}T${departureTime}:00`);
+  let planned: PlannedStop[];
+  try {
+    planned = await planRoute(
+      base,
+      orderRows.map(order => ({ orderId: order.id, point: toGeoPoint(order.deliveryLatitude, order.deliveryLongitude) })),
+      { departure, distanceMatrix, averageSpeedKmh, serviceMinutes }
+    );
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to plan the route' };
+  }
+
+  const routed = planned.filter(stop => stop.plannedArrival);
+  const totalDistance = routed.reduce((sum, stop) => sum + (stop.distanceFromPrevious || 0), 0);
+  const lastArrival = routed[routed.length - 1]?.plannedArrival;
+  const totalDuration = lastArrival ? Math.round((lastArrival.getTime() - departure.getTime()) / 60000) : 0;
+
+  const runId = uuidv4();
+  const runNumber = await generateRunNumber(tenantId);
+  const orderById = new Map(orderRows.map(order => [order.id, order]));
+
+  await db.transaction(async (tx) => {
+    await tx.insert(deliveryRuns).values({
+      id: runId,
+      tenantId,
+      runNumber,
+      driverId: driver.id,
+      runDate,
+      windowStart,
+      windowEnd,
+      departureTime,
+      distanceMatrix,
+      averageSpeedKmh: averageSpeedKmh.toFixed(2),
+      serviceMinutes,
+      totalDistance: totalDistance.toFixed(2),
+      totalDuration,
+      status: 'planned',
+      notes: input.notes || null,
+      createdBy: adminUserId,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    let cumulativeDistance = 0;
+    for (const stop of planned) {
+      const order = orderById.get(stop.orderId)!;
+      cumulativeDistance += stop.distanceFromPrevious || 0;
+
+      // Replace any earlier assignment, as a single reassignment would
+      const [existing] = await tx
+        .select({ id: driverAssignments.id, driverId: driverAssignments.driverId })
+        .from(driverAssignments)
+        .where(and(eq(driverAssignments.orderId, order.id), eq(driverAssignments.isActive, true)))
+        .limit(1);
+      if (existing) {
+        await tx
+          .update(driverAssignments)
+          .set({ isActive: false, updatedAt: new Date() })
+          .where(eq(driverAssignments.id, existing.id));
+      }
+
+      const assignmentId = uuidv4();
+      await tx.insert(driverAssignments).values({
+        id: assignmentId,
+        orderId: order.id,
+        driverId: driver.id,
+        assignedBy: adminUserId,
+        assignmentType: 'manual',
+        priority: 'normal',
+        deliveryStatus: 'assigned',
+        deliveryNotes: `Stop ${stop.sequence} of delivery run ${runNumber}`,
+        estimatedDistance: stop.plannedArrival ? cumulativeDistance.toFixed(2) : null,
+        estimatedDuration: stop.plannedArrival ? Math.round((stop.plannedArrival.getTime() - departure.getTime()) / 60000) : null,
+        isActive: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      await tx.insert(deliveryRunStops).values({
+        id: uuidv4(),
+        tenantId,
+        runId,
+        orderId: order.id,
+        assignmentId,
+        sequence: stop.sequence,
+        latitude: stop.point ? stop.point.latitude.toFixed(8) : null,
+        longitude: stop.point ? stop.point.longitude.toFixed(8) : null,
+        distanceFromPrevious: stop.distanceFromPrevious !== null ? stop.distanceFromPrevious.toFixed(2) : null,
+        plannedArrival: stop.plannedArrival,
+        createdAt: new Date(),
+      });
+
+      await tx
+        .update(orders)
+        .set({ assignedDriverId: driver.id, deliveryStatus: 'assigned', updatedAt: new Date() })
+        .where(eq(orders.id, order.id));
+
+      await tx.insert(driverAssignmentHistory).values({
+        id: uuidv4(),
+        orderId: order.id,
+        assignmentId,
+        previousDriverId: existing?.driverId || null,
+        newDriverId: driver.id,
+        changeType: existing ? 'reassigned' : 'assigned',
+        changeReason: `Delivery run ${runNumber}`,
+        changedBy: adminUserId,
+        createdAt: new Date(),
+      });
+    }
+
+    await tx
+      .update(drivers)
+      .set({ status: 'busy', updatedAt: new Date() })
+      .where(eq(drivers.id, driver.id));
+  });
+
+  console.log(`🚚 Planned delivery run ${runNumber}: ${planned.length} stop(s), ${totalDistance.toFixed(1)} km, ${totalDuration} min`);
+  return { success: true, run: (await getDeliveryRun(tenantId, runId))! };
+}
+
+/**
+ * The tenant's runs, newest date first
+ */
+export async function listDeliveryRuns(
+  tenantId: string,
+  filters: { runDate?: string | null; driverId?: string | null; status?: string | null } = {}
+) {
+  const conditions = [eq(deliveryRuns.tenantId, tenantId)];
+  if (filters.runDate) conditions.push(eq(deliveryRuns.runDate, filters.runDate));
+  if (filters.driverId) conditions.push(eq(deliveryRuns.driverId, filters.driverId));
+  if (filters.status) conditions.push(eq(deliveryRuns.status, filters.status));
+
+  return db
+    .select({
+      run: deliveryRuns,
+      driverName: user.name,
+      vehiclePlateNumber: drivers.vehiclePlateNumber,
+      stops: sql<number>`(SELECT COUNT(*) FROM ${deliveryRunStops} WHERE ${deliveryRunStops.runId} = ${deliveryRuns.id})`,
+    })
+    .from(deliveryRuns)
+    .leftJoin(drivers, eq(deliveryRuns.driverId, drivers.id))
+    .leftJoin(user, eq(drivers.userId, user.id))
+    .where(and(...conditions))
+    .orderBy(desc(deliveryRuns.runDate), desc(deliveryRuns.createdAt));
+}
+
+/**
+ * A run with its driver and stops in driving order, for the run sheet
+ */
+export async function getDeliveryRun(tenantId: string, runId: string) {
+  const [row] = await db
+    .select({
+      run: deliveryRuns,
+      driver: {
+        id: drivers.id,
+        name: user.name,
+        phone: user.phone,
+        vehicleType: drivers.vehicleType,
+        vehiclePlateNumber: drivers.vehiclePlateNumber,
+        baseLocation: drivers.baseLocation,
+        baseLatitude: drivers.baseLatitude,
+        baseLongitude: drivers.baseLongitude,
+      },
+    })
+    .from(deliveryRuns)
+    .leftJoin(drivers, eq(deliveryRuns.driverId, drivers.id))
+    .leftJoin(user, eq(drivers.userId, user.id))
+    .where(and(eq(deliveryRuns.id, runId), eq(deliveryRuns.tenantId, tenantId)))
+    .limit(1);
+  if (!row) return null;
+
+  const stops = await db
+    .select({
+      stop: deliveryRunStops,
+      order: {
+        id: orders.id,
+        orderNumber: orders.orderNumber,
+        status: orders.status,
+        deliveryStatus: orders.deliveryStatus,
+        paymentStatus: orders.paymentStatus,
+        totalAmount: orders.totalAmount,
+        email: orders.email,
+        phone: orders.phone,
+        shippingFirstName: orders.shippingFirstName,
+        shippingLastName: orders.shippingLastName,
+        shippingAddress1: orders.shippingAddress1,
+        shippingAddress2: orders.shippingAddress2,
+        shippingCity: orders.shippingCity,
+        serviceTime: orders.serviceTime,
+        notes: orders.notes,
+      },
+    })
+    .from(deliveryRunStops)
+    .innerJoin(orders, eq(deliveryRunStops.orderId, orders.id))
+    .where(and(eq(deliveryRunStops.runId, runId), eq(deliveryRunStops.tenantId, tenantId)))
+    .orderBy(asc(deliveryRunStops.sequence));
+
+  return { ...row.run, driver: row.driver, stops };
+}
+
+/**
+ * Start, complete or cancel a run
+ *
+ * Starting sends every undelivered stop out for delivery. Cancelling takes
+ * the driver off the orders that were not delivered, so they can be planned
+ * again. Completing or cancelling frees the driver.
+ */
+export async function updateDeliveryRunStatus(
+  tenantId: string,
+  runId: string,
+  status: string,
+  adminUserId: string
+): Promise<DeliveryRunResult> {
+  if (!DELIVERY_RUN_STATUSES.includes(status as DeliveryRunStatus) || status === 'planned') {
+    return { success: false, error: 'Status must be one of: in_progress, completed, cancelled' };
+  }
+
+  const [run] = await db
+    .select()
+    .from(deliveryRuns)
+    .where(and(eq(deliveryRuns.id, runId), eq(deliveryRuns.tenantId, tenantId)))
+    .limit(1);
+  if (!run) {
+    return { success: false, error: 'Delivery run not found' };
+  }
+
+  const allowed: Record<string, string[]> = {
+    planned: ['in_progress', 'cancelled'],
+    in_progress: ['completed', 'cancelled'],
+  };
+  if (!(allowed[run.status] || []).includes(status)) {
+    return { success: false, error: `A ${run.status.replace('_', ' ')} run cannot be set to ${status.replace('_', ' ')}` };
+  }
+
+  const stops = await db
+    .select({ orderId: deliveryRunStops.orderId, assignmentId: deliveryRunStops.assignmentId })
+    .from(deliveryRunStops)
+    .where(and(eq(deliveryRunStops.runId, runId), eq(deliveryRunStops.tenantId, tenantId)));
+  const assignmentIds = stops.map(stop => stop.assignmentId).filter((id): id is string => !!id);
+
+  await db.transaction(async (tx) => {
+    const now = new Date();
+
+    if (status === 'in_progress' && assignmentIds.length > 0) {
+      const open = await tx
+        .select({ id: driverAssignments.id, orderId: driverAssignments.orderId })
+        .from(driverAssignments)
+        .where(and(
+          inArray(driverAssignments.id, assignmentIds),
+          eq(driverAssignments.isActive, true),
+          inArray(driverAssignments.deliveryStatus, ['assigned', 'picked_up'])
+        ));
+      if (open.length > 0) {
+        await tx
+          .update(driverAssignments)
+          .set({ deliveryStatus: 'out_for_delivery', outForDeliveryAt: now, updatedAt: now })
+          .where(inArray(driverAssignments.id, open.map(row => row.id)));
+        await tx
+          .update(orders)
+          .set({ deliveryStatus: 'out_for_delivery', updatedAt: now })
+          .where(and(eq(orders.tenantId, tenantId), inArray(orders.id, open.map(row => row.orderId))));
+      }
+    }
+
+    if (status === 'cancelled' && assignmentIds.length > 0) {
+      const undelivered = await tx
+        .select({ id: driverAssignments.id, orderId: driverAssignments.orderId })
+        .from(driverAssignments)
+        .where(and(
+          inArray(driverAssignments.id, assignmentIds),
+          eq(driverAssignments.isActive, true),
+          ne(driverAssignments.deliveryStatus, 'delivered')
+        ));
+      if (undelivered.length > 0) {
+        await tx
+          .update(driverAssignments)
+          .set({ isActive: false, updatedAt: now })
+          .where(inArray(driverAssignments.id, undelivered.map(row => row.id)));
+        await tx
+          .update(orders)
+          .set({ assignedDriverId: null, deliveryStatus: 'pending', updatedAt: now })
+          .where(and(eq(orders.tenantId, tenantId), inArray(orders.id, undelivered.map(row => row.orderId))));
+        await tx.insert(driverAssignmentHistory).values(undelivered.map(row => ({
+          id: uuidv4(),
+          orderId: row.orderId,
+          assignmentId: row.id,
+          previousDriverId: run.driverId,
+          newDriverId: null,
+          changeType: 'unassigned',
+          changeReason: `Delivery run ${run.runNumber} cancelled`,
+          changedBy: adminUserId,
+          createdAt: now,
+        })));
+      }
+    }
+
+    if (status === 'completed' || status === 'cancelled') {
+      await tx
+        .update(drivers)
+        .set({ status: 'available', updatedAt: now })
+        .where(and(eq(drivers.id, run.driverId), eq(drivers.tenantId, tenantId)));
+    }
+
+    await tx
+      .update(deliveryRuns)
+      .set({ status, updatedAt: now })
+      .where(eq(deliveryRuns.id, runId));
+  });
+
+  console.log(`🚚 Delivery run ${run.runNumber} is now ${status}`);
+  return { success: true, run: (await getDeliveryRun(tenantId, runId))! };
+}
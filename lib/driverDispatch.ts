@@ -0,0 +1,757 @@
+/**
+ * Driver Auto-Dispatch
+ *
+ * Assigns a driver to an order without an admin choosing one. When a tenant
+ * enables it (setting 'driver_auto_dispatch_enabled'), orders are dispatched
+ * as they are confirmed; the assignments API also dispatches on request
+ * (assignmentType 'automatic').
+ *
+ * The tenant's active, non-offline drivers are scored against the order's
+ * drop-off point, measured from where the driver is now (current_latitude /
+ * current_longitude, else their base). A driver qualifies when the point is
+ * within their max_delivery_radius and their open deliveries are below
+ * max_active_orders. The lowest score wins:
+ *
+ *   score = distance weight × distance / radius + load weight × load / capacity
+ *
+ * Urgent and high priority orders weigh distance more, low priority ones
+ * weigh spreading the load more (DISPATCH_WEIGHTS). Orders no driver
+ * qualifies for go to the dispatch queue (driver_dispatch_queue) for an admin
+ * to assign by hand.
+ *
+ * The drop-off point is found in this order (resolveDeliveryPoint):
+ *
+ * 1. The order's own delivery_latitude / delivery_longitude
+ * 2. Geocoders added with registerDeliveryGeocoder, in the order they were
+ *    added. The built-in 'google' geocoder (Google Geocoding API) is added
+ *    when GOOGLE_MAPS_GEOCODING_API_KEY or NEXT_PUBLIC_GOOGLE_MAPS_API_KEY is
+ *    set; without a key only the city table below is used
+ * 3. The centre of the first city named in the shipping address, from the
+ *    tenant's city table (setting 'driver_dispatch_city_coordinates'), or
+ *    DEFAULT_CITY_COORDINATES when the tenant has not set one
+ *
+ * An order none of these can place is not auto-dispatched; it is queued with
+ * "Delivery address could not be located".
+ */
+
+import { db, type DbExecutor, type DbTransaction } from '@/lib/db';
+import {
+  driverAssignmentHistory,
+  driverAssignments,
+  driverDispatchQueue,
+  drivers,
+  orders,
+  settings,
+  user,
+} from '@/lib/schema';
+import { and, asc, desc, eq, inArray, ne, sql } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { DEFAULT_AVERAGE_SPEED_KMH, haversineKm, toGeoPoint, type GeoPoint } from '@/lib/deliveryRuns';
+
+export const DRIVER_AUTO_DISPATCH_KEY = 'driver_auto_dispatch_enabled';
+export const DRIVER_DISPATCH_CITIES_KEY = 'driver_dispatch_city_coordinates';
+
+export const DISPATCH_PRIORITIES = ['low', 'normal', 'high', 'urgent'] as const;
+export type DispatchPriority = typeof DISPATCH_PRIORITIES[number];
+
+export const DISPATCH_WEIGHTS: Record<DispatchPriority, { distance: number; load: number }> = {
+  urgent: { distance: 0.85, load: 0.15 },
+  high: { distance: 0.75, load: 0.25 },
+  normal: { distance: 0.6, load: 0.4 },
+  low: { distance: 0.4, load: 0.6 },
+};
+
+const DEFAULT_DELIVERY_RADIUS_KM = 50;
+const DEFAULT_MAX_ACTIVE_ORDERS = 5;
+
+// Assignment states that still occupy the driver
+const OPEN_DELIVERY_STATUSES = ['assigned', 'picked_up', 'out_for_delivery'];
+
+// City centres used when the tenant has no city table of its own
+export const DEFAULT_CITY_COORDINATES: Record<string, GeoPoint> = {
+  'dubai': { latitude: 25.2048, longitude: 55.2708 },
+  'abu dhabi': { latitude: 24.4539, longitude: 54.3773 },
+  'sharjah': { latitude: 25.3463, longitude: 55.4209 },
+  'ajman': { latitude: 25.4052, longitude: 55.5136 },
+  'ras al khaimah': { latitude: 25.7889, longitude: 55.9598 },
+  'fujairah': { latitude: 25.1164, longitude: 56.3269 },
+  'umm al quwain': { latitude: 25.5641, longitude: 55.6550 },
+};
+
+export interface DeliveryPoint {
+  point: GeoPoint;
+  source: 'order' | 'geocoder' | 'city';
+}
+
+export interface DeliveryAddress {
+  shippingAddress1?: string | null;
+  shippingCity?: string | null;
+  shippingState?: string | null;
+  shippingCountry?: string | null;
+}
+
+/**
+ * Finds the point of an address, or null when it cannot
+ */
+export type DeliveryGeocoder = (tenantId: string, address: DeliveryAddress) => GeoPoint | null | Promise<GeoPoint | null>;
+
+const deliveryGeocoders = new Map<string, DeliveryGeocoder>();
+
+/**
+ * Make a geocoder available to dispatch under a name
+ *
+ * Registered geocoders are asked in the order they were added, before the
+ * city table. A geocoder that throws is skipped.
+ */
+export function registerDeliveryGeocoder(name: string, geocoder: DeliveryGeocoder): void {
+  deliveryGeocoders.set(name, geocoder);
+}
+
+export function getDeliveryGeocoders(): string[] {
+  return [...deliveryGeocoders.keys()];
+}
+
+const GOOGLE_GEOCODE_URL = 'https://maps.googleapis.com/maps/api/geocode/json';
+const GEOCODE_CACHE_SIZE = 1000;
+
+// Addresses already looked up (null when Google found nothing), oldest first
+const googleGeocodeCache = new Map<string, GeoPoint | null>();
+
+/**
+ * Look an address up with the Google Geocoding API
+ */
+function createGoogleGeocoder(apiKey: string): DeliveryGeocoder {
+  return async (_tenantId, address) => {
+    const query = [address.shippingAddress1, address.shippingCity, address.shippingState, address.shippingCountry]
+      .map(part => part?.trim())
+      .filter(Boolean)
+      .join(', ');
+    if (!query) return null;
+
+    const cacheKey = query.toLowerCase();
+    if (googleGeocodeCache.has(cacheKey)) {
+      return googleGeocodeCache.get(cacheKey)!;
+    }
+
+    const params = new URLSearchParams({ address: query, key: apiKey });
+    const response = await fetch(`${GOOGLE_GEOCODE_URL}?${params}`, { signal: AbortSignal.timeout(5000) });
+    if (!response.ok) {
+      throw new Error(`Google Geocoding API returned HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (data.status !== 'OK' && data.status !== 'ZERO_RESULTS') {
+      throw new Error(`Google Geocoding API returned ${data.status}${data.error_message ? `: ${data.error_message}` : ''}`);
+    }
+
+    const location = data.results?.[0]?.geometry?.location;
+    const point = location ? toGeoPoint(location.lat, location.lng) : null;
+
+    if (googleGeocodeCache.size >= GEOCODE_CACHE_SIZE) {
+      googleGeocodeCache.delete(googleGeocodeCache.keys().next().value!);
+    }
+    googleGeocodeCache.set(cacheKey, point);
+    return point;
+  };
+}
+
+const googleGeocodingApiKey = process.env.GOOGLE_MAPS_GEOCODING_API_KEY || process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
+if (googleGeocodingApiKey) {
+  registerDeliveryGeocoder('google', createGoogleGeocoder(googleGeocodingApiKey));
+}
+
+export interface DriverCandidate {
+  driverId: string;
+  name: string | null;
+  phone: string | null;
+  vehicleType: string | null;
+  vehiclePlateNumber: string | null;
+  status: string | null;
+  distanceKm: number | null;
+  radiusKm: number;
+  load: number;
+  capacity: number;
+  qualifies: boolean;
+  reason?: string;
+  score: number | null;
+}
+
+export interface DispatchResult {
+  success: boolean;
+  error?: string;
+  assigned?: boolean;
+  assignmentId?: string;
+  driverId?: string;
+  distanceKm?: number | null;
+  queued?: boolean;
+  reason?: string;
+}
+
+export async function isAutoDispatchEnabled(tenantId: string): Promise<boolean> {
+  const [setting] = await db
+    .select()
+    .from(settings)
+    .where(and(eq(settings.tenantId, tenantId), eq(settings.key, DRIVER_AUTO_DISPATCH_KEY)))
+    .limit(1);
+  return setting?.value === 'true';
+}
+
+async function saveSetting(
+  tenantId: string,
+  key: string,
+  value: string,
+  type: string,
+  description: string
+): Promise<void> {
+  const [existing] = await db
+    .select({ id: settings.id })
+    .from(settings)
+    .where(and(eq(settings.tenantId, tenantId), eq(settings.key, key)))
+    .limit(1);
+
+  if (existing) {
+    await db
+      .update(settings)
+      .set({ value, updatedAt: new Date() })
+      .where(eq(settings.id, existing.id));
+  } else {
+    await db.insert(settings).values({
+      id: uuidv4(),
+      tenantId,
+      key,
+      value,
+      type,
+      description,
+      isActive: true,
+    });
+  }
+}
+
+export async function setAutoDispatchEnabled(tenantId: string, enabled: boolean): Promise<void> {
+  await saveSetting(
+    tenantId,
+    DRIVER_AUTO_DISPATCH_KEY,
+    enabled ? 'true' : 'false',
+    'boolean',
+    'Assign the best placed driver automatically when an order is confirmed'
+  );
+}
+
+/**
+ * A city table keyed by city name, or null when the value is not one
+ *
+ * Names are matched case-insensitively against the shipping address.
+ */
+export function parseCityCoordinates(value: unknown): Record<string, GeoPoint> | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+
+  const cities: Record<string, GeoPoint> = {};
+  for (const [name, coordinates] of Object.entries(value as Record<string, any>)) {
+    const city = name.trim().toLowerCase();
+    const point = toGeoPoint(coordinates?.latitude, coordinates?.longitude);
+    if (!city || !point || Math.abs(point.latitude) > 90 || Math.abs(point.longitude) > 180) return null;
+    cities[city] = point;
+  }
+  return cities;
+}
+
+/**
+ * The tenant's city table, or DEFAULT_CITY_COORDINATES when it has none
+ */
+export async function getCityCoordinates(tenantId: string): Promise<{ cities: Record<string, GeoPoint>; isDefault: boolean }> {
+  const [setting] = await db
+    .select()
+    .from(settings)
+    .where(and(eq(settings.tenantId, tenantId), eq(settings.key, DRIVER_DISPATCH_CITIES_KEY)))
+    .limit(1);
+
+  let cities: Record<string, GeoPoint> | null = null;
+  if (setting?.value) {
+    try {
+      cities = parseCityCoordinates(JSON.parse(setting.value));
+    } catch {
+      cities = null;
+    }
+    if (!cities) console.warn(`Ignoring invalid ${DRIVER_DISPATCH_CITIES_KEY} setting for tenant ${tenantId}`);
+  }
+
+  return cities ? { cities, isDefault: false } : { cities: DEFAULT_CITY_COORDINATES, isDefault: true };
+}
+
+/**
+ * Replace the tenant's city table; null goes back to DEFAULT_CITY_COORDINATES
+ */
+export async function setCityCoordinates(tenantId: string, cities: Record<string, GeoPoint> | null): Promise<void> {
+  if (!cities) {
+    await db
+      .delete(settings)
+      .where(and(eq(settings.tenantId, tenantId), eq(settings.key, DRIVER_DISPATCH_CITIES_KEY)));
+    return;
+  }
+
+  await saveSetting(
+    tenantId,
+    DRIVER_DISPATCH_CITIES_KEY,
+    JSON.stringify(cities),
+    'json',
+    'City centres used to place orders without a drop-off point for driver dispatch'
+  );
+}
+
+/**
+ * Where an order is delivered: its own drop-off point, else what a registered
+ * geocoder finds, else the centre of a city from the tenant's table named in
+ * its shipping address
+ */
+export async function resolveDeliveryPoint(
+  tenantId: string,
+  order: DeliveryAddress & {
+    deliveryLatitude: string | null;
+    deliveryLongitude: string | null;
+  }
+): Promise<DeliveryPoint | null> {
+  const point = toGeoPoint(order.deliveryLatitude, order.deliveryLongitude);
+  if (point) return { point, source: 'order' };
+
+  const address: DeliveryAddress = {
+    shippingAddress1: order.shippingAddress1,
+    shippingCity: order.shippingCity,
+    shippingState: order.shippingState,
+    shippingCountry: order.shippingCountry,
+  };
+  for (const [name, geocoder] of deliveryGeocoders) {
+    try {
+      const found = await geocoder(tenantId, address);
+      if (found) return { point: found, source: 'geocoder' };
+    } catch (error) {
+      console.error(`Delivery geocoder ${name} failed:`, error);
+    }
+  }
+
+  const text = [order.shippingAddress1, order.shippingCity, order.shippingState, order.shippingCountry]
+    .filter(Boolean)
+    .join(', ')
+    .toLowerCase();
+  const { cities } = await getCityCoordinates(tenantId);
+  for (const [city, coordinates] of Object.entries(cities)) {
+    if (text.includes(city)) {
+      return { point: coordinates, source: 'city' };
+    }
+  }
+  return null;
+}
+
+function normalisePriority(priority: string | null | undefined): DispatchPriority {
+  return DISPATCH_PRIORITIES.includes(priority as DispatchPriority) ? priority as DispatchPriority : 'normal';
+}
+
+// Open deliveries per driver
+async function getDriverLoads(executor: DbExecutor, driverIds: string[]): Promise<Map<string, number>> {
+  if (driverIds.length === 0) return new Map();
+  const rows = await executor
+    .select({ driverId: driverAssignments.driverId, load: sql<number>`COUNT(*)` })
+    .from(driverAssignments)
+    .where(and(
+      inArray(driverAssignments.driverId, driverIds),
+      eq(driverAssignments.isActive, true),
+      inArray(driverAssignments.deliveryStatus, OPEN_DELIVERY_STATUSES)
+    ))
+    .groupBy(driverAssignments.driverId);
+  return new Map(rows.map(row => [row.driverId, Number(row.load)]));
+}
+
+/**
+ * The tenant's drivers scored for a drop-off point, best first
+ *
+ * Drivers that do not qualify are listed after those that do, nearest first,
+ * with the reason. Without a point nobody qualifies, but loads are still
+ * reported for manual assignment.
+ */
+export async function rankDrivers(
+  tenantId: string,
+  point: GeoPoint | null,
+  priority?: string | null
+): Promise<DriverCandidate[]> {
+  const weights = DISPATCH_WEIGHTS[normalisePriority(priority)];
+
+  const rows = await db
+    .select({ driver: drivers, name: user.name, phone: user.phone })
+    .from(drivers)
+    .innerJoin(user, eq(drivers.userId, user.id))
+    .where(and(eq(drivers.tenantId, tenantId), eq(drivers.isActive, true), ne(drivers.status, 'offline')))
+    .orderBy(asc(user.name));
+
+  const loads = await getDriverLoads(db, rows.map(row => row.driver.id));
+
+  const candidates: DriverCandidate[] = rows.map(({ driver, name, phone }) => {
+    const position = toGeoPoint(driver.currentLatitude, driver.currentLongitude)
+      || toGeoPoint(driver.baseLatitude, driver.baseLongitude);
+    const radiusKm = driver.maxDeliveryRadius || DEFAULT_DELIVERY_RADIUS_KM;
+    const capacity = driver.maxActiveOrders ?? DEFAULT_MAX_ACTIVE_ORDERS;
+    const load = loads.get(driver.id) || 0;
+    const distanceKm = point && position ? Math.round(haversineKm(position, point) * 100) / 100 : null;
+
+    let reason: string | undefined;
+    if (!point) reason = 'Delivery address could not be located';
+    else if (!position) reason = 'Driver has no current or base location';
+    else if (distanceKm! > radiusKm) reason = `${distanceKm!.toFixed(1)} km away, beyond their ${radiusKm} km radius`;
+    else if (load >= capacity) reason = `Already has ${load} of ${capacity} open deliveries`;
+
+    const qualifies = !reason;
+    return {
+      driverId: driver.id,
+      name,
+      phone,
+      vehicleType: driver.vehicleType,
+      vehiclePlateNumber: driver.vehiclePlateNumber,
+      status: driver.status,
+      distanceKm,
+      radiusKm,
+      load,
+      capacity,
+      qualifies,
+      reason,
+      score: qualifies
+        ? Math.round((weights.distance * distanceKm! / radiusKm + weights.load * load / Math.max(capacity, 1)) * 10000) / 10000
+        : null,
+    };
+  });
+
+  return candidates.sort((a, b) => {
+    if (a.qualifies !== b.qualifies) return a.qualifies ? -1 : 1;
+    if (a.qualifies) return a.score! - b.score!;
+    return (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity);
+  });
+}
+
+/**
+ * Give the order to the driver, replacing any earlier assignment
+ */
+async function assignDriver(
+  tx: DbTransaction,
+  orderId: string,
+  driverId: string,
+  options: {
+    assignedBy: string;
+    assignmentType: 'manual' | 'automatic';
+    priority: DispatchPriority;
+    distanceKm: number | null;
+    reason: string;
+  }
+): Promise<string> {
+  const [existing] = await tx
+    .select({ id: driverAssignments.id, driverId: driverAssignments.driverId })
+    .from(driverAssignments)
+    .where(and(eq(driverAssignments.orderId, orderId), eq(driverAssignments.isActive, true)))
+    .limit(1);
+  if (existing) {
+    await tx
+      .update(driverAssignments)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(driverAssignments.id, existing.id));
+  }
+
+  const assignmentId = uuidv4();
+  await tx.insert(driverAssignments).values({
+    id: assignmentId,
+    orderId,
+    driverId,
+    assignedBy: options.assignedBy,
+    assignmentType: options.assignmentType,
+    priority: options.priority,
+    deliveryStatus: 'assigned',
+    estimatedDistance: options.distanceKm !== null ? options.distanceKm.toFixed(2) : null,
+    estimatedDuration: options.distanceKm !== null ? Math.round((options.distanceKm / DEFAULT_AVERAGE_SPEED_KMH) * 60) : null,
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  await tx
+    .update(orders)
+    .set({ assignedDriverId: driverId, deliveryStatus: 'assigned', updatedAt: new Date() })
+    .where(eq(orders.id, orderId));
+
+  await tx
+    .update(drivers)
+    .set({ status: 'busy', updatedAt: new Date() })
+    .where(eq(drivers.id, driverId));
+
+  await tx.insert(driverAssignmentHistory).values({
+    id: uuidv4(),
+    orderId,
+    assignmentId,
+    previousDriverId: existing?.driverId || null,
+    newDriverId: driverId,
+    changeType: existing ? 'reassigned' : 'assigned',
+    changeReason: options.reason,
+    changedBy: options.assignedBy,
+    createdAt: new Date(),
+  });
+
+  return assignmentId;
+}
+
+/**
+ * Put the order on the dispatch queue, or refresh its entry
+ */
+async function queueForManualAssignment(
+  tenantId: string,
+  orderId: string,
+  priority: DispatchPriority,
+  reason: string
+): Promise<void> {
+  const [entry] = await db
+    .select({ id: driverDispatchQueue.id, status: driverDispatchQueue.status })
+    .from(driverDispatchQueue)
+    .where(and(eq(driverDispatchQueue.tenantId, tenantId), eq(driverDispatchQueue.orderId, orderId)))
+    .limit(1);
+
+  if (entry) {
+    await db
+      .update(driverDispatchQueue)
+      .set({
+        priority,
+        reason,
+        status: 'pending',
+        attempts: entry.status === 'pending' ? sql`${driverDispatchQueue.attempts} + 1` : 1,
+        lastAttemptAt: new Date(),
+        resolvedAt: null,
+        resolvedBy: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(driverDispatchQueue.id, entry.id));
+  } else {
+    await db.insert(driverDispatchQueue).values({
+      id: uuidv4(),
+      tenantId,
+      orderId,
+      priority,
+      reason,
+      attempts: 1,
+      status: 'pending',
+      lastAttemptAt: new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+}
+
+/**
+ * Take an order off the dispatch queue once it has a driver or needs none
+ */
+export async function closeDispatchQueueEntry(
+  tenantId: string,
+  orderId: string,
+  status: 'assigned' | 'dismissed',
+  resolvedBy: string
+): Promise<void> {
+  await db
+    .update(driverDispatchQueue)
+    .set({ status, resolvedAt: new Date(), resolvedBy, updatedAt: new Date() })
+    .where(and(
+      eq(driverDispatchQueue.tenantId, tenantId),
+      eq(driverDispatchQueue.orderId, orderId),
+      eq(driverDispatchQueue.status, 'pending')
+    ));
+}
+
+/**
+ * Assign the best placed driver to an order, or queue it for manual assignment
+ *
+ * Orders that already have an active assignment are left alone unless
+ * reassign is set.
+ */
+export async function autoDispatchOrder(
+  tenantId: string,
+  orderId: string,
+  options: { assignedBy?: string | null; priority?: string | null; reassign?: boolean } = {}
+): Promise<DispatchResult> {
+  const [order] = await db
+    .select()
+    .from(orders)
+    .where(and(eq(orders.id, orderId), eq(orders.tenantId, tenantId)))
+    .limit(1);
+  if (!order) {
+    return { success: false, error: 'Order not found' };
+  }
+  if (['cancelled', 'delivered', 'completed', 'refunded'].includes(order.status)) {
+    return { success: false, error: `Order ${order.orderNumber} is ${order.status}` };
+  }
+
+  if (!options.reassign) {
+    const [active] = await db
+      .select({ id: driverAssignments.id, driverId: driverAssignments.driverId })
+      .from(driverAssignments)
+      .where(and(eq(driverAssignments.orderId, orderId), eq(driverAssignments.isActive, true)))
+      .limit(1);
+    if (active) {
+      return { success: true, assigned: false, assignmentId: active.id, driverId: active.driverId, reason: 'Order already has a driver' };
+    }
+  }
+
+  const priority = normalisePriority(options.priority);
+  const assignedBy = options.assignedBy || 'system';
+  const destination = await resolveDeliveryPoint(tenantId, order);
+  const candidates = await rankDrivers(tenantId, destination?.point || null, priority);
+
+  // Re-check the load under a lock so two orders dispatched together cannot both take the last slot
+  for (const candidate of candidates.filter(c => c.qualifies)) {
+    const assignmentId = await db.transaction(async (tx) => {
+      const [driver] = await tx
+        .select({ id: drivers.id, isActive: drivers.isActive, status: drivers.status })
+        .from(drivers)
+        .where(eq(drivers.id, candidate.driverId))
+        .for('update');
+      const load = (await getDriverLoads(tx, [candidate.driverId])).get(candidate.driverId) || 0;
+      if (!driver?.isActive || driver.status === 'offline' || load >= candidate.capacity) {
+        return null;
+      }
+
+      const located = destination?.source === 'city' ? ' (city centre)' : '';
+      return assignDriver(tx, orderId, candidate.driverId, {
+        assignedBy,
+        assignmentType: 'automatic',
+        priority,
+        distanceKm: candidate.distanceKm,
+        reason: `Auto-dispatch: ${candidate.distanceKm!.toFixed(1)} km away${located}, ${load} of ${candidate.capacity} open deliveries`,
+      });
+    });
+
+    if (assignmentId) {
+      await closeDispatchQueueEntry(tenantId, orderId, 'assigned', assignedBy);
+      console.log(`🛵 Auto-dispatched order ${order.orderNumber} to driver ${candidate.name || candidate.driverId} (${candidate.distanceKm} km)`);
+      return { success: true, assigned: true, assignmentId, driverId: candidate.driverId, distanceKm: candidate.distanceKm };
+    }
+  }
+
+  const reason = !destination
+    ? 'Delivery address could not be located'
+    : candidates.length === 0
+      ? 'No drivers are on duty'
+      : candidates.some(c => c.qualifies)
+        ? 'Every qualifying driver filled up before the order could be assigned'
+        : `No driver qualifies: ${candidates.slice(0, 3).map(c => `${c.name || 'driver'} – ${c.reason}`).join('; ')}`;
+
+  await queueForManualAssignment(tenantId, orderId, priority, reason);
+  console.log(`📋 Order ${order.orderNumber} queued for manual dispatch: ${reason}`);
+  return { success: true, assigned: false, queued: true, reason };
+}
+
+/**
+ * Auto-dispatch a customer order that has just been confirmed, when the
+ * tenant has auto-dispatch enabled
+ *
+ * @returns null when auto-dispatch does not apply
+ */
+export async function dispatchConfirmedOrder(
+  tenantId: string,
+  orderId: string,
+  assignedBy?: string | null
+): Promise<DispatchResult | null> {
+  if (!(await isAutoDispatchEnabled(tenantId))) return null;
+
+  const [order] = await db
+    .select({ orderType: orders.orderType })
+    .from(orders)
+    .where(and(eq(orders.id, orderId), eq(orders.tenantId, tenantId)))
+    .limit(1);
+  if (!order || order.orderType === 'purchase_order') return null;
+
+  return autoDispatchOrder(tenantId, orderId, { assignedBy });
+}
+
+/**
+ * Orders on the dispatch queue, urgent and oldest first
+ */
+export async function listDispatchQueue(tenantId: string, status: string = 'pending') {
+  return db
+    .select({
+      entry: driverDispatchQueue,
+      order: {
+        id: orders.id,
+        orderNumber: orders.orderNumber,
+        status: orders.status,
+        deliveryStatus: orders.deliveryStatus,
+        assignedDriverId: orders.assignedDriverId,
+        shippingFirstName: orders.shippingFirstName,
+        shippingLastName: orders.shippingLastName,
+        shippingAddress1: orders.shippingAddress1,
+        shippingCity: orders.shippingCity,
+        serviceDate: orders.serviceDate,
+        serviceTime: orders.serviceTime,
+        totalAmount: orders.totalAmount,
+      },
+    })
+    .from(driverDispatchQueue)
+    .innerJoin(orders, eq(driverDispatchQueue.orderId, orders.id))
+    .where(and(eq(driverDispatchQueue.tenantId, tenantId), eq(driverDispatchQueue.status, status)))
+    .orderBy(
+      sql`FIELD(${driverDispatchQueue.priority}, 'urgent', 'high', 'normal', 'low')`,
+      status === 'pending' ? asc(driverDispatchQueue.createdAt) : desc(driverDispatchQueue.resolvedAt)
+    );
+}
+
+/**
+ * Resolve a queued order by hand: assign a chosen driver, retry auto-dispatch
+ * or dismiss it (for example when the customer collects)
+ */
+export async function resolveDispatchQueueEntry(
+  tenantId: string,
+  entryId: string,
+  adminUserId: string,
+  action: { type: 'assign'; driverId?: string } | { type: 'retry' } | { type: 'dismiss' }
+): Promise<DispatchResult> {
+  const [entry] = await db
+    .select()
+    .from(driverDispatchQueue)
+    .where(and(eq(driverDispatchQueue.id, entryId), eq(driverDispatchQueue.tenantId, tenantId)))
+    .limit(1);
+  if (!entry) {
+    return { success: false, error: 'Queue entry not found' };
+  }
+  if (entry.status !== 'pending') {
+    return { success: false, error: `This order has already been ${entry.status}` };
+  }
+
+  if (action.type === 'dismiss') {
+    await closeDispatchQueueEntry(tenantId, entry.orderId, 'dismissed', adminUserId);
+    return { success: true, assigned: false };
+  }
+
+  if (action.type === 'retry') {
+    return autoDispatchOrder(tenantId, entry.orderId, { assignedBy: adminUserId, priority: entry.priority, reassign: true });
+  }
+
+  if (!action.driverId) {
+    return { success: false, error: 'Choose a driver' };
+  }
+  const [driver] = await db
+    .select()
+    .from(drivers)
+    .where(and(eq(drivers.id, action.driverId), eq(drivers.tenantId, tenantId), eq(drivers.isActive, true)))
+    .limit(1);
+  if (!driver) {
+    return { success: false, error: 'Driver not found' };
+  }
+
+  const [order] = await db
+    .select()
+    .from(orders)
+    .where(and(eq(orders.id, entry.orderId), eq(orders.tenantId, tenantId)))
+    .limit(1);
+  const destination = order ? await resolveDeliveryPoint(tenantId, order) : null;
+  const position = toGeoPoint(driver.currentLatitude, driver.currentLongitude) || toGeoPoint(driver.baseLatitude, driver.baseLongitude);
+  const distanceKm = destination && position ? Math.round(haversineKm(position, destination.point) * 100) / 100 : null;
+
+  const assignmentId = await db.transaction(async (tx) => assignDriver(tx, entry.orderId, driver.id, {
+    assignedBy: adminUserId,
+    assignmentType: 'manual',
+    priority: normalisePriority(entry.priority),
+    distanceKm,
+    reason: 'Assigned from the dispatch queue',
+  }));
+  await closeDispatchQueueEntry(tenantId, entry.orderId, 'assigned', adminUserId);
+
+  return { success: true, assigned: true, assignmentId, driverId: driver.id, distanceKm };
+}
@@ -24,7 +24,12 @@ export async function sendTextEmail(to: string, subject: string, text: string) {
   return await res.json();
 }
 
-export async function sendHtmlEmail(to: string, subject: string, htmlContent: string, textContent?: string) {
+export interface EmailAttachment {
+  name: string;
+  content: Buffer;
+}
+
+export async function sendHtmlEmail(to: string, subject: string, htmlContent: string, textContent?: string, attachments?: EmailAttachment[]) {
   const res = await fetch('https://api.brevo.com/v3/smtp/email', {
     method: 'POST',
     headers: {
@@ -37,6 +42,9 @@ export async function sendHtmlEmail(to: string, subject: string, htmlContent: st
       subject,
       htmlContent,
       textContent: textContent || htmlContent.replace(/<[^>]*>/g, ''), // Strip HTML for text version
+      ...(attachments?.length ? {
+        attachment: attachments.map(file => ({ name: file.name, content: file.content.toString('base64') })),
+      } : {}),
     }),
   });
 
@@ -182,8 +190,22 @@ interface Supplier {
   secondaryContactMobile?: string;
 }
 
+// FBR details for compliant invoices (seller registration, logos and QR code)
+export interface InvoiceHtmlOptions {
+  seller?: {
+    businessName: string;
+    ntncnic: string;
+    strn?: string;
+    address?: string;
+    province?: string;
+  };
+  qrCodeDataUrl?: string;
+  /** Absolute site URL used to load the FBR logos in email clients */
+  assetBaseUrl?: string;
+}
+
 // Generate invoice HTML template
-export function generateInvoiceHtml(order: Order, isForSupplier: boolean = false): string {
+export function generateInvoiceHtml(order: Order, isForSupplier: boolean = false, options: InvoiceHtmlOptions = {}): string {
   const currencySymbol = order.currency === 'PKR' ? '₨' : order.currency === 'USD' ? '$' : order.currency === 'AED' ? 'د.إ' : order.currency;
   
   const formatAmount = (amount: number) => `${currencySymbol}${amount.toFixed(2)}`;
@@ -201,6 +223,10 @@ export function generateInvoiceHtml(order: Order, isForSupplier: boolean = false
     return date.toLocaleDateString('en-US', options).replace(',', ' at');
   };
   
+  const assetBaseUrl = options.assetBaseUrl ?? process.env.NEXTAUTH_URL ?? '';
+  const itemHasTaxDetails = (item: OrderItem) => [item.taxAmount, item.taxPercentage, item.discount, item.extraTax, item.furtherTax, item.fedPayableTax]
+    .some(value => value && Number(value) > 0);
+  
   const recipientType = isForSupplier ? 'Supplier' : 'Customer';
   const emailTitle = isForSupplier ? 'New Order Notification' : 'Order Confirmation';
   
@@ -253,6 +279,11 @@ export function generateInvoiceHtml(order: Order, isForSupplier: boolean = false
         .status-confirmed { background: #dbeafe; color: #1e40af; }
         .status-processing { background: #d1fae5; color: #065f46; }
         .status-paid { background: #d1fae5; color: #065f46; }
+        .fbr-block { display: flex; justify-content: space-between; align-items: center; gap: 20px; padding: 16px 20px; margin-bottom: 30px; border: 2px solid #e2e8f0; border-radius: 8px; background: #f8fafc; }
+        .fbr-block .fbr-logos img { height: 48px; width: auto; margin-right: 12px; vertical-align: middle; }
+        .fbr-block .fbr-number { font-size: 14px; color: #374151; }
+        .fbr-block .fbr-number strong { display: block; font-family: monospace; font-size: 16px; margin-top: 4px; }
+        .fbr-block .fbr-qr img { width: 96px; height: 96px; display: block; }
         @media (max-width: 768px) {
             .invoice-details { grid-template-columns: 1fr; gap: 20px; }
             .items-table { font-size: 13px; }
@@ -275,14 +306,38 @@ export function generateInvoiceHtml(order: Order, isForSupplier: boolean = false
         <div class="content">
             <!-- Company Header -->
             <div class="company-header">
+                ${options.seller ? `
+                <h2>${options.seller.businessName}</h2>
+                ${options.seller.ntncnic ? `<p>NTN/CNIC: ${options.seller.ntncnic}</p>` : ''}
+                ${options.seller.strn ? `<p>STRN: ${options.seller.strn}</p>` : ''}
+                ${options.seller.address ? `<p>${options.seller.address}</p>` : ''}
+                ${options.seller.province ? `<p>${options.seller.province} Province</p>` : ''}
+                ` : `
                 <h2>Hisaab360</h2>
                 <p>Alrasheed arcade second floor
 Flat no 1 mujahid street ,
 Defence road , Rawalpindi</p>
                 <p>Phone: 0321-4250013</p>
                 <p>Email: support@hisaab360invoicing.com</p>
+                `}
             </div>
 
+            ${order.invoiceNumber ? `
+            <!-- FBR Digital Invoicing -->
+            <div class="fbr-block">
+                <div class="fbr-logos">
+                    <img src="${assetBaseUrl}/fbr/digital-invoicing-logo.png" alt="FBR Digital Invoicing" />
+                    <img src="${assetBaseUrl}/fbr/fbr-pakistan-logo.png" alt="FBR Pakistan" />
+                </div>
+                <div class="fbr-number">
+                    FBR Invoice Number
+                    <strong>${order.invoiceNumber}</strong>
+                    ${order.scenarioId ? `<span>Scenario ${order.scenarioId}</span>` : ''}
+                </div>
+                ${options.qrCodeDataUrl ? `<div class="fbr-qr"><img src="${options.qrCodeDataUrl}" alt="FBR invoice QR code" /></div>` : ''}
+            </div>
+            ` : ''}
+
             <!-- Invoice Details Grid -->
             <div class="invoice-details">
                 <!-- Supplier Section -->
@@ -387,7 +442,7 @@ Defence road , Rawalpindi</p>
                                         ${item.hsCode ? `<div class="hs-code">HS Code: ${item.hsCode}</div>` : ''}
                                         ${item.isWeightBased && item.weightQuantity ? `<div class="weight">⚖️ Weight: ${item.weightQuantity}${item.weightUnit || 'g'}</div>` : ''}
                                     </div>
-                                    ${(item.taxAmount && Number(item.taxAmount) > 0) || (item.discount && Number(item.discount) > 0) || (item.taxPercentage && Number(item.taxPercentage) > 0) ? `
+                                    ${itemHasTaxDetails(item) ? `
                                         <div class="tax-details">
                                             <h5>💰 Tax & Discount Details</h5>
                                             <div class="tax-grid">
@@ -483,12 +538,12 @@ Defence road , Rawalpindi</p>
   `.trim();
 }
 
-// Send invoice email to customer
-export async function sendCustomerInvoiceEmail(order: Order): Promise<void> {
+// Send invoice email to customer (with the invoice PDF attached when provided)
+export async function sendCustomerInvoiceEmail(order: Order, options: InvoiceHtmlOptions & { invoicePdf?: EmailAttachment } = {}): Promise<void> {
   const subject = `Order Confirmation - ${order.orderNumber}`;
-  const htmlContent = generateInvoiceHtml(order, false);
+  const htmlContent = generateInvoiceHtml(order, false, options);
   
-  await sendHtmlEmail(order.email, subject, htmlContent);
+  await sendHtmlEmail(order.email, subject, htmlContent, undefined, options.invoicePdf ? [options.invoicePdf] : undefined);
 }
 
 // Send invoice email to supplier
@@ -503,6 +558,7 @@ export async function sendSupplierInvoiceEmail(order: Order, supplier: Supplier)
 export async function sendInvoiceEmails(order: Order, supplier?: Supplier, options?: {
   skipCustomerEmail?: boolean;
   skipSellerEmail?: boolean;
+  invoice?: InvoiceHtmlOptions & { invoicePdf?: EmailAttachment };
 }): Promise<{
   customerEmailSent: boolean;
   supplierEmailSent: boolean;
@@ -517,7 +573,7 @@ export async function sendInvoiceEmails(order: Order, supplier?: Supplier, optio
   // Send email to customer (unless skipped)
   if (!options?.skipCustomerEmail) {
     try {
-      await sendCustomerInvoiceEmail(order);
+      await sendCustomerInvoiceEmail(order, options?.invoice);
       results.customerEmailSent = true;
       console.log(`Invoice email sent to customer: ${order.email}`);
     } catch (error: any) {
@@ -544,3 +600,29 @@ export async function sendInvoiceEmails(order: Order, supplier?: Supplier, optio
 
   return results;
 }
+
+// Remind a customer that some of their loyalty points are about to expire
+export async function sendPointsExpiryReminderEmail(to: string, reminder: {
+  customerName?: string | null;
+  storeName: string;
+  points: number;
+  availablePoints: number;
+  expiresAt: Date;
+}): Promise<void> {
+  const expiryDate = reminder.expiresAt.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+  const subject = `${reminder.points} ${reminder.storeName} points expire on ${expiryDate}`;
+  const htmlContent = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; color: #333;">
+      <h2 style="color: #7c3aed;">Your points are expiring soon</h2>
+      <p>Hello${reminder.customerName ? ` ${reminder.customerName}` : ''},</p>
+      <p>
+        <strong>${reminder.points} loyalty points</strong> in your ${reminder.storeName} account
+        expire on <strong>${expiryDate}</strong>.
+      </p>
+      <p>You have ${reminder.availablePoints} points available in total. Use them on your next order before they expire.</p>
+      <p style="color: #666; font-size: 12px;">${reminder.storeName}</p>
+    </div>
+  `;
+
+  await sendHtmlEmail(to, subject, htmlContent);
+}
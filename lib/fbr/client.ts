@@ -8,7 +8,7 @@
  * The FBR token must remain server-only for security.
  */
 
-import type { FbrInvoice, FbrValidationResponse, FbrPostResponse } from './types';
+import type { FbrInvoice, FbrValidationResponse, FbrPostResponse, FbrTokenUsage } from './types';
 
 /**
  * Check if FBR post response indicates success
@@ -24,37 +24,45 @@ function isPostSuccess(resp: FbrPostResponse): boolean {
 
 /**
  * Get FBR settings from tenant database
+ * Tokens are decrypted from the tenant's stored credentials (see credentials.ts)
  * @param tenantId The tenant ID to get settings for
- * @returns FBR settings object with baseUrl and token
+ * @returns FBR settings object with baseUrl and tokens
  */
-async function getTenantFbrSettings(tenantId: string): Promise<{ baseUrl?: string; token?: string }> {
+export async function getTenantFbrSettings(tenantId: string): Promise<{
+  baseUrl?: string;
+  token?: string;
+  productionToken?: string;
+  productionCredentialId?: string | null;
+}> {
   try {
     const { db } = await import('@/lib/db');
     const { settings } = await import('@/lib/schema');
-    const { eq, and } = await import('drizzle-orm');
+    const { eq, and, inArray } = await import('drizzle-orm');
+    const { getActiveFbrToken } = await import('./credentials');
     
-    const fbrSettings = await db
+    const [baseUrlSetting] = await db
       .select()
       .from(settings)
       .where(
         and(
           eq(settings.tenantId, tenantId),
+          inArray(settings.key, ['fbr_base_url', 'FBR_BASE_URL']),
           eq(settings.isActive, true)
         )
-      );
+      )
+      .limit(1);
 
-    let baseUrl = '';
-    let token = '';
+    const [sandbox, production] = await Promise.all([
+      getActiveFbrToken(tenantId, 'sandbox'),
+      getActiveFbrToken(tenantId, 'production'),
+    ]);
 
-    for (const setting of fbrSettings) {
-      if (setting.key === 'fbr_base_url' || setting.key === 'FBR_BASE_URL') {
-        baseUrl = setting.value || '';
-      } else if (setting.key === 'fbr_sandbox_token' || setting.key === 'FBR_SANDBOX_TOKEN') {
-        token = setting.value || '';
-      }
-    }
-
-    return { baseUrl, token };
+    return {
+      baseUrl: baseUrlSetting?.value || '',
+      token: sandbox?.token || '',
+      productionToken: production?.token || '',
+      productionCredentialId: production?.credentialId,
+    };
   } catch (error) {
     console.warn('Error fetching tenant FBR settings:', error);
     return {};
@@ -65,6 +73,9 @@ async function getTenantFbrSettings(tenantId: string): Promise<{ baseUrl?: strin
 const BASE_URL = process.env.FBR_BASE_URL;
 const TOKEN = process.env.FBR_SANDBOX_TOKEN;
 
+// Abort FBR requests that hang so callers (and the submission queue) can retry later
+const REQUEST_TIMEOUT_MS = Number(process.env.FBR_REQUEST_TIMEOUT_MS) || 30000;
+
 if (!BASE_URL || !TOKEN) {
   console.warn('⚠️  FBR environment variables not configured. Will use tenant-specific settings if available.');
 }
@@ -161,30 +172,50 @@ export function sanitize(obj: any, isPreview: boolean = false): any {
 }
 
 /**
- * Validate invoice data with FBR
- * 
- * @param payload The FBR invoice payload
- * @param customToken Optional custom token to use instead of environment variable
- * @param tenantId Optional tenant ID to get tenant-specific FBR settings
- * @returns Validation response from FBR
+ * A base URL and token supplied together, bypassing the configured FBR
+ * environment. Only the test utilities use this, to reach the mock service;
+ * a tenant's stored tokens are never sent to an endpoint given this way.
  */
-export async function validateInvoice(payload: FbrInvoice, customToken?: string, tenantId?: string, customBaseUrl?: string, isProductionMode?: boolean): Promise<FbrValidationResponse> {
-  let baseUrl = customBaseUrl || BASE_URL;
-  let token = customToken || TOKEN;
+export interface FbrTestEndpoint {
+  baseUrl: string;
+  token: string;
+}
+
+/**
+ * Where to send a request and with which token: the explicit test endpoint
+ * when given, else the tenant's settings and credentials, else the environment.
+ * The base URL is never taken from request input.
+ */
+async function resolveFbrTarget(
+  tenantId: string | undefined,
+  isProductionMode: boolean | undefined,
+  testEndpoint?: FbrTestEndpoint
+): Promise<{ baseUrl?: string; token?: string; productionCredentialId?: string | null }> {
+  if (testEndpoint) {
+    return { baseUrl: testEndpoint.baseUrl, token: testEndpoint.token };
+  }
+
+  let baseUrl = BASE_URL;
+  let token = TOKEN;
+  let productionCredentialId: string | null | undefined;
 
   // Try to get tenant-specific settings if tenantId is provided
   if (tenantId) {
     const tenantSettings = await getTenantFbrSettings(tenantId);
-    if (tenantSettings.baseUrl && !customBaseUrl) {
+    if (tenantSettings.baseUrl) {
       baseUrl = tenantSettings.baseUrl;
     }
-    if (tenantSettings.token && !customToken) {
+    if (tenantSettings.token) {
       token = tenantSettings.token;
     }
+    if (isProductionMode && tenantSettings.productionToken) {
+      token = tenantSettings.productionToken;
+      productionCredentialId = tenantSettings.productionCredentialId;
+    }
   }
 
   // Auto-switch to production base URL if production mode is enabled
-  if (isProductionMode && baseUrl && !customBaseUrl) {
+  if (isProductionMode && baseUrl) {
     // Convert sandbox URL to production URL
     if (baseUrl.includes('sandbox.fbr.gov.pk')) {
       baseUrl = baseUrl.replace('sandbox.fbr.gov.pk/api', 'gw.fbr.gov.pk');
@@ -199,6 +230,21 @@ export async function validateInvoice(payload: FbrInvoice, customToken?: string,
   if (!token) {
     throw new Error('FBR token is not configured (neither environment variable nor tenant-specific token found)');
   }
+
+  return { baseUrl, token, productionCredentialId };
+}
+
+/**
+ * Validate invoice data with FBR
+ * 
+ * @param payload The FBR invoice payload
+ * @param tenantId Optional tenant ID to get tenant-specific FBR settings
+ * @param isProductionMode Use production endpoints and token
+ * @param testEndpoint Explicit base URL and token for test runs (mock service)
+ * @returns Validation response from FBR
+ */
+export async function validateInvoice(payload: FbrInvoice, tenantId?: string, isProductionMode?: boolean, testEndpoint?: FbrTestEndpoint): Promise<FbrValidationResponse> {
+  const { baseUrl, token } = await resolveFbrTarget(tenantId, isProductionMode, testEndpoint);
   
   try {
     const sanitizedPayload = sanitize(payload, false); // false for FBR submission (removes display fields)
@@ -216,6 +262,7 @@ export async function validateInvoice(payload: FbrInvoice, customToken?: string,
       method: 'POST',
       headers: getHeaders(token),
       body: JSON.stringify(sanitizedPayload),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
     });
     
     // Get raw response text first to handle malformed JSON
@@ -244,6 +291,8 @@ export async function validateInvoice(payload: FbrInvoice, customToken?: string,
         isProductionMode: isProductionMode || false,
         endpoint: `${baseUrl}/${endpoint}`
       });
+      // Expose the HTTP status so callers can tell gateway outages from invalid invoices
+      result = { ...result, httpStatus: response.status };
     } else {
       console.log('✅ FBR validation response:', {
         status: result.validationResponse?.status,
@@ -263,41 +312,21 @@ export async function validateInvoice(payload: FbrInvoice, customToken?: string,
  * Post invoice data to FBR after successful validation
  * 
  * @param payload The FBR invoice payload (should be pre-validated)
- * @param customToken Optional custom token to use instead of environment variable
  * @param tenantId Optional tenant ID to get tenant-specific FBR settings
+ * @param isProductionMode Use production endpoints and token
+ * @param usage Order/note the post is for, recorded in the credential audit log for production posts
+ * @param testEndpoint Explicit base URL and token for test runs (mock service)
  * @returns Post response from FBR
  */
-export async function postInvoice(payload: FbrInvoice, customToken?: string, tenantId?: string, customBaseUrl?: string, isProductionMode?: boolean): Promise<FbrPostResponse> {
-  let baseUrl = customBaseUrl || BASE_URL;
-  let token = customToken || TOKEN;
-
-  // Try to get tenant-specific settings if tenantId is provided
-  if (tenantId) {
-    const tenantSettings = await getTenantFbrSettings(tenantId);
-    if (tenantSettings.baseUrl && !customBaseUrl) {
-      baseUrl = tenantSettings.baseUrl;
-    }
-    if (tenantSettings.token && !customToken) {
-      token = tenantSettings.token;
-    }
-  }
-
-  // Auto-switch to production base URL if production mode is enabled
-  if (isProductionMode && baseUrl && !customBaseUrl) {
-    // Convert sandbox URL to production URL
-    if (baseUrl.includes('sandbox.fbr.gov.pk')) {
-      baseUrl = baseUrl.replace('sandbox.fbr.gov.pk/api', 'gw.fbr.gov.pk');
-      console.log('🚨 Production mode: Switched base URL to', baseUrl);
-    }
-  }
+export async function postInvoice(payload: FbrInvoice, tenantId?: string, isProductionMode?: boolean, usage?: FbrTokenUsage, testEndpoint?: FbrTestEndpoint): Promise<FbrPostResponse> {
+  const { baseUrl, token, productionCredentialId } = await resolveFbrTarget(tenantId, isProductionMode, testEndpoint);
 
-  if (!baseUrl) {
-    throw new Error('FBR_BASE_URL environment variable is not configured and no tenant-specific base URL found');
-  }
-  
-  if (!token) {
-    throw new Error('FBR token is not configured (neither environment variable nor tenant-specific token found)');
-  }
+  // Every production post made with a tenant's stored token is audited
+  const auditTokenUsage = async (success: boolean, invoiceNumber?: string, error?: string) => {
+    if (!tenantId || productionCredentialId === undefined) return;
+    const { recordFbrTokenUsage } = await import('./credentials');
+    await recordFbrTokenUsage(tenantId, productionCredentialId, { ...usage, invoiceNumber, success, error });
+  };
   
   try {
     const sanitizedPayload = sanitize(payload, false); // false for FBR submission (removes display fields)
@@ -315,6 +344,7 @@ export async function postInvoice(payload: FbrInvoice, customToken?: string, ten
       method: 'POST',
       headers: getHeaders(token),
       body: JSON.stringify(sanitizedPayload),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
     });
     
     // Get raw response text first to handle malformed JSON
@@ -343,9 +373,12 @@ export async function postInvoice(payload: FbrInvoice, customToken?: string, ten
         isProductionMode: isProductionMode || false,
         endpoint: `${baseUrl}/${endpoint}`
       });
+
+      await auditTokenUsage(false, result.invoiceNumber, `HTTP ${response.status}`);
       
       return {
         success: false,
+        httpStatus: response.status,
         error: `HTTP ${response.status}: ${response.statusText}`,
         invoiceNumber: result.invoiceNumber,
         validationResponse: result.validationResponse,
@@ -374,6 +407,8 @@ export async function postInvoice(payload: FbrInvoice, customToken?: string, ten
         isProductionMode: isProductionMode || false,
       });
     }
+
+    await auditTokenUsage(success, result.invoiceNumber, success ? undefined : result.validationResponse?.error);
     
     return {
       success,
@@ -384,6 +419,7 @@ export async function postInvoice(payload: FbrInvoice, customToken?: string, ten
     };
   } catch (error) {
     console.error('❌ Error posting invoice to FBR:', error);
+    await auditTokenUsage(false, undefined, error instanceof Error ? error.message : String(error));
     throw new Error(`Failed to post invoice: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
@@ -0,0 +1,476 @@
+/**
+ * FBR Credentials
+ *
+ * Server-only storage for each tenant's FBR API tokens. Tokens are encrypted at
+ * rest with AES-256-GCM using a key derived from FBR_TOKEN_ENCRYPTION_KEY and are
+ * only decrypted here, right before a request to FBR. API routes expose the
+ * status (last 4 characters, expiry) but never the token itself.
+ *
+ * Rotating a token deactivates the previous row, so inactive rows form the
+ * rotation history. Token changes and every production post are written to the
+ * credential audit log.
+ *
+ * Tokens left in the plain-text settings used before encryption are only read
+ * (and reported as legacy) until an admin imports them with
+ * importLegacyFbrToken (POST /api/settings/fbr/credentials { action: 'import_legacy' }).
+ *
+ * IMPORTANT: This module should NEVER be imported on the client side.
+ */
+
+import crypto from 'crypto';
+import { db, type DbExecutor, type DbTransaction } from '@/lib/db';
+import { fbrCredentialAuditLogs, fbrCredentials, settings } from '@/lib/schema';
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import type { FbrCredentialStatus, FbrEnvironment, FbrTokenUsage } from './types';
+
+const ENCRYPTION_VERSION = 'v1';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Warn on the dashboard this many days before a token expires
+export const FBR_TOKEN_EXPIRY_WARNING_DAYS = 14;
+
+export const FBR_ENVIRONMENTS: FbrEnvironment[] = ['sandbox', 'production'];
+
+// Plain-text settings used before tokens were encrypted; imported by importLegacyFbrToken
+const LEGACY_TOKEN_KEYS: Record<FbrEnvironment, string[]> = {
+  sandbox: ['fbr_sandbox_token', 'FBR_SANDBOX_TOKEN'],
+  production: ['fbr_production_token', 'FBR_PRODUCTION_TOKEN'],
+};
+
+type FbrCredentialRow = typeof fbrCredentials.$inferSelect;
+
+export interface ActiveFbrToken {
+  credentialId: string | null; // null for legacy plain-text settings that could not be imported
+  token: string;
+  expiresAt: Date | null;
+}
+
+function getEncryptionKey(): Buffer {
+  const secret = process.env.FBR_TOKEN_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error('FBR_TOKEN_ENCRYPTION_KEY is not configured');
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Whether tokens can be encrypted/decrypted on this server
+ */
+export function isFbrTokenEncryptionConfigured(): boolean {
+  return !!process.env.FBR_TOKEN_ENCRYPTION_KEY;
+}
+
+/**
+ * Encrypt a token for storage
+ *
+ * @returns "v1:<iv>:<auth tag>:<ciphertext>" (base64 parts)
+ */
+export function encryptFbrToken(token: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(token, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [ENCRYPTION_VERSION, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+/**
+ * Decrypt a stored token
+ */
+export function decryptFbrToken(value: string): string {
+  const [version, iv, tag, ciphertext] = value.split(':');
+  if (version !== ENCRYPTION_VERSION || !iv || !tag || !ciphertext) {
+    throw new Error('Unrecognised encrypted FBR token format');
+  }
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
+
+function getTokenHint(token: string): string {
+  return token.slice(-4);
+}
+
+async function writeAuditLog(executor: DbExecutor, entry: {
+  tenantId: string;
+  environment: FbrEnvironment;
+  action: 'created' | 'rotated' | 'expiry_updated' | 'used';
+  credentialId?: string | null;
+  orderId?: string | null;
+  noteId?: string | null;
+  invoiceNumber?: string | null;
+  success?: boolean;
+  userId?: string | null;
+  details?: Record<string, any>;
+}) {
+  await executor.insert(fbrCredentialAuditLogs).values({
+    id: uuidv4(),
+    tenantId: entry.tenantId,
+    credentialId: entry.credentialId || null,
+    environment: entry.environment,
+    action: entry.action,
+    orderId: entry.orderId || null,
+    noteId: entry.noteId || null,
+    invoiceNumber: entry.invoiceNumber || null,
+    success: entry.success ?? null,
+    userId: entry.userId || null,
+    details: entry.details || null,
+    createdAt: new Date(),
+  });
+}
+
+async function getActiveCredentialRow(
+  tenantId: string,
+  environment: FbrEnvironment,
+  executor: DbExecutor = db
+): Promise<FbrCredentialRow | undefined> {
+  const [row] = await executor
+    .select()
+    .from(fbrCredentials)
+    .where(and(
+      eq(fbrCredentials.tenantId, tenantId),
+      eq(fbrCredentials.environment, environment),
+      eq(fbrCredentials.isActive, true)
+    ))
+    .orderBy(desc(fbrCredentials.createdAt))
+    .limit(1);
+
+  return row;
+}
+
+/**
+ * Deactivate the current token and insert a new one (callers provide the transaction)
+ *
+ * The active rows are locked first, so two rotations of the same environment
+ * cannot both leave an active token behind.
+ */
+async function storeCredential(
+  tx: DbTransaction,
+  tenantId: string,
+  environment: FbrEnvironment,
+  token: string,
+  options: { expiresAt?: Date | null; userId?: string; details?: Record<string, any> }
+): Promise<{ credentialId: string; previous?: FbrCredentialRow }> {
+  const now = new Date();
+  const credentialId = uuidv4();
+
+  const [previous] = await tx
+    .select()
+    .from(fbrCredentials)
+    .where(and(
+      eq(fbrCredentials.tenantId, tenantId),
+      eq(fbrCredentials.environment, environment),
+      eq(fbrCredentials.isActive, true)
+    ))
+    .orderBy(desc(fbrCredentials.createdAt))
+    .for('update');
+
+  if (previous) {
+    await tx
+      .update(fbrCredentials)
+      .set({ isActive: false, revokedAt: now, revokedBy: options.userId || null })
+      .where(and(
+        eq(fbrCredentials.tenantId, tenantId),
+        eq(fbrCredentials.environment, environment),
+        eq(fbrCredentials.isActive, true)
+      ));
+  }
+
+  await tx.insert(fbrCredentials).values({
+    id: credentialId,
+    tenantId,
+    environment,
+    encryptedToken: encryptFbrToken(token),
+    tokenHint: getTokenHint(token),
+    expiresAt: options.expiresAt || null,
+    isActive: true,
+    createdBy: options.userId || null,
+    createdAt: now,
+  });
+
+  await writeAuditLog(tx, {
+    tenantId,
+    environment,
+    action: previous ? 'rotated' : 'created',
+    credentialId,
+    userId: options.userId,
+    details: {
+      ...options.details,
+      ...(previous && { previousCredentialId: previous.id, previousTokenHint: previous.tokenHint }),
+      expiresAt: options.expiresAt ? options.expiresAt.toISOString() : null,
+    },
+  });
+
+  return { credentialId, previous };
+}
+
+/**
+ * Store a new token for an environment, deactivating the current one
+ *
+ * @param tenantId Tenant ID
+ * @param environment sandbox or production
+ * @param token The plain token issued by FBR
+ * @param options.expiresAt Expiry date shown on the FBR portal
+ * @param options.userId Admin user making the change
+ */
+export async function rotateFbrCredential(
+  tenantId: string,
+  environment: FbrEnvironment,
+  token: string,
+  options: { expiresAt?: Date | null; userId?: string; details?: Record<string, any> } = {}
+): Promise<{ success: boolean; credentialId?: string; error?: string }> {
+  const trimmed = token.trim();
+  if (!trimmed) {
+    return { success: false, error: 'Token is required' };
+  }
+  if (!FBR_ENVIRONMENTS.includes(environment)) {
+    return { success: false, error: 'environment must be "sandbox" or "production"' };
+  }
+  if (!isFbrTokenEncryptionConfigured()) {
+    return { success: false, error: 'FBR_TOKEN_ENCRYPTION_KEY is not configured on the server' };
+  }
+
+  const { credentialId, previous } = await db.transaction(tx => storeCredential(tx, tenantId, environment, trimmed, options));
+
+  console.log(`🔐 FBR ${environment} token ${previous ? 'rotated' : 'stored'} for tenant ${tenantId}`);
+  return { success: true, credentialId };
+}
+
+/**
+ * Change the expiry date of the current token without rotating it
+ */
+export async function updateFbrCredentialExpiry(
+  tenantId: string,
+  environment: FbrEnvironment,
+  expiresAt: Date | null,
+  userId?: string
+): Promise<{ success: boolean; error?: string }> {
+  const current = await getActiveCredentialRow(tenantId, environment);
+  if (!current) {
+    return { success: false, error: `No ${environment} token is configured` };
+  }
+
+  await db
+    .update(fbrCredentials)
+    .set({ expiresAt })
+    .where(eq(fbrCredentials.id, current.id));
+
+  await writeAuditLog(db, {
+    tenantId,
+    environment,
+    action: 'expiry_updated',
+    credentialId: current.id,
+    userId,
+    details: {
+      previousExpiresAt: current.expiresAt ? current.expiresAt.toISOString() : null,
+      expiresAt: expiresAt ? expiresAt.toISOString() : null,
+    },
+  });
+
+  return { success: true };
+}
+
+/**
+ * Read a plain-text token left in the settings table by older versions
+ */
+async function getLegacyToken(tenantId: string, environment: FbrEnvironment, executor: DbExecutor = db): Promise<string | null> {
+  const legacy = await executor
+    .select()
+    .from(settings)
+    .where(and(
+      eq(settings.tenantId, tenantId),
+      inArray(settings.key, LEGACY_TOKEN_KEYS[environment]),
+      eq(settings.isActive, true)
+    ));
+
+  return legacy.find(setting => setting.value?.trim())?.value?.trim() || null;
+}
+
+/**
+ * Encrypt a plain-text token left in the settings table, then blank the setting
+ *
+ * Does nothing when the environment already has an encrypted token.
+ *
+ * @param tenantId Tenant ID
+ * @param environment sandbox or production
+ * @param userId Admin user running the import
+ */
+export async function importLegacyFbrToken(
+  tenantId: string,
+  environment: FbrEnvironment,
+  userId?: string
+): Promise<{ success: boolean; imported: boolean; credentialId?: string; error?: string }> {
+  if (!isFbrTokenEncryptionConfigured()) {
+    return { success: false, imported: false, error: 'FBR_TOKEN_ENCRYPTION_KEY is not configured on the server' };
+  }
+
+  const credentialId = await db.transaction(async (tx) => {
+    if (await getActiveCredentialRow(tenantId, environment, tx)) {
+      return null;
+    }
+
+    const token = await getLegacyToken(tenantId, environment, tx);
+    if (!token) {
+      return null;
+    }
+
+    const result = await storeCredential(tx, tenantId, environment, token, { userId, details: { source: 'legacy_setting' } });
+
+    await tx
+      .update(settings)
+      .set({ value: '', updatedAt: new Date() })
+      .where(and(
+        eq(settings.tenantId, tenantId),
+        inArray(settings.key, LEGACY_TOKEN_KEYS[environment])
+      ));
+
+    return result.credentialId;
+  });
+
+  if (credentialId) {
+    console.log(`🔐 FBR ${environment} token imported from settings for tenant ${tenantId}`);
+  }
+  return { success: true, imported: !!credentialId, credentialId: credentialId || undefined };
+}
+
+/**
+ * Get the decrypted token currently in use for an environment
+ *
+ * Falls back to a legacy plain-text setting (without importing it).
+ *
+ * @param tenantId Tenant ID
+ * @param environment sandbox or production
+ * @returns The token, or null when none is configured
+ */
+export async function getActiveFbrToken(tenantId: string, environment: FbrEnvironment): Promise<ActiveFbrToken | null> {
+  const current = await getActiveCredentialRow(tenantId, environment);
+  if (!current) {
+    const token = await getLegacyToken(tenantId, environment);
+    if (!token) {
+      return null;
+    }
+
+    console.warn(`⚠️  FBR ${environment} token for tenant ${tenantId} is stored in plain text; import it from the FBR settings`);
+    return { credentialId: null, token, expiresAt: null };
+  }
+
+  if (current.expiresAt && current.expiresAt.getTime() < Date.now()) {
+    console.warn(`⚠️  FBR ${environment} token for tenant ${tenantId} expired on ${current.expiresAt.toISOString().split('T')[0]}`);
+  }
+
+  return {
+    credentialId: current.id,
+    token: decryptFbrToken(current.encryptedToken),
+    expiresAt: current.expiresAt,
+  };
+}
+
+function toStatus(environment: FbrEnvironment, row?: FbrCredentialRow, legacyConfigured: boolean = false): FbrCredentialStatus {
+  if (!row) {
+    return { environment, configured: legacyConfigured, legacy: legacyConfigured, expired: false, expiresSoon: false };
+  }
+
+  const daysUntilExpiry = row.expiresAt
+    ? Math.ceil((row.expiresAt.getTime() - Date.now()) / DAY_MS)
+    : null;
+
+  return {
+    environment,
+    configured: true,
+    tokenHint: row.tokenHint,
+    expiresAt: row.expiresAt ? row.expiresAt.toISOString() : null,
+    daysUntilExpiry,
+    expired: daysUntilExpiry !== null && daysUntilExpiry < 0,
+    expiresSoon: daysUntilExpiry !== null && daysUntilExpiry >= 0 && daysUntilExpiry <= FBR_TOKEN_EXPIRY_WARNING_DAYS,
+    rotatedAt: row.createdAt ? row.createdAt.toISOString() : null,
+  };
+}
+
+/**
+ * Get the status of the sandbox and production tokens (safe to return to the browser)
+ *
+ * @param tenantId Tenant ID
+ */
+export async function getFbrCredentialStatus(tenantId: string): Promise<Record<FbrEnvironment, FbrCredentialStatus>> {
+  const status = {} as Record<FbrEnvironment, FbrCredentialStatus>;
+
+  for (const environment of FBR_ENVIRONMENTS) {
+    const row = await getActiveCredentialRow(tenantId, environment);
+    const legacyConfigured = !row && !!(await getLegacyToken(tenantId, environment));
+
+    status[environment] = toStatus(environment, row, legacyConfigured);
+  }
+
+  return status;
+}
+
+/**
+ * List every token a tenant has used, newest first (without the tokens)
+ *
+ * @param tenantId Tenant ID
+ */
+export async function listFbrCredentialHistory(tenantId: string) {
+  return db
+    .select({
+      id: fbrCredentials.id,
+      environment: fbrCredentials.environment,
+      tokenHint: fbrCredentials.tokenHint,
+      expiresAt: fbrCredentials.expiresAt,
+      isActive: fbrCredentials.isActive,
+      createdBy: fbrCredentials.createdBy,
+      createdAt: fbrCredentials.createdAt,
+      revokedAt: fbrCredentials.revokedAt,
+      revokedBy: fbrCredentials.revokedBy,
+    })
+    .from(fbrCredentials)
+    .where(eq(fbrCredentials.tenantId, tenantId))
+    .orderBy(desc(fbrCredentials.createdAt));
+}
+
+/**
+ * List recent credential audit entries, newest first
+ *
+ * @param tenantId Tenant ID
+ * @param limit Maximum number of entries
+ */
+export async function listFbrCredentialAuditLog(tenantId: string, limit: number = 50) {
+  return db
+    .select()
+    .from(fbrCredentialAuditLogs)
+    .where(eq(fbrCredentialAuditLogs.tenantId, tenantId))
+    .orderBy(desc(fbrCredentialAuditLogs.createdAt))
+    .limit(limit);
+}
+
+/**
+ * Record that a production token was used to post an invoice to FBR
+ *
+ * Failures are logged and swallowed so auditing never blocks a submission.
+ */
+export async function recordFbrTokenUsage(
+  tenantId: string,
+  credentialId: string | null,
+  usage: FbrTokenUsage & { invoiceNumber?: string | null; success: boolean; error?: string }
+): Promise<void> {
+  try {
+    await writeAuditLog(db, {
+      tenantId,
+      environment: 'production',
+      action: 'used',
+      credentialId,
+      orderId: usage.orderId,
+      noteId: usage.noteId,
+      invoiceNumber: usage.invoiceNumber,
+      success: usage.success,
+      userId: usage.userId,
+      details: {
+        ...(usage.submissionId && { submissionId: usage.submissionId }),
+        ...(usage.error && { error: usage.error }),
+      },
+    });
+  } catch (error) {
+    console.error('❌ Failed to record FBR token usage:', error);
+  }
+}
@@ -17,6 +17,11 @@ export type {
   SellerInfo,
   ScenarioId,
   RateLabel,
+  FbrSubmissionStatus,
+  FbrNoteType,
+  FbrEnvironment,
+  FbrCredentialStatus,
+  FbrTokenUsage,
 } from './types';
 
 // Sale Types and Scenario Utilities
@@ -32,6 +37,7 @@ export {
   requiresFedPayable,
   isRetailScenario,
   isServicesScenario,
+  getBuiltInScenarioRule,
   allScenarios,
 } from './saleTypes';
 
@@ -53,11 +59,106 @@ export {
   getRateLabelForScenario,
   mapOrderToFbrInvoice,
   validateOrderForFbr,
+  isNoteInvoiceType,
   createTestFbrInvoice,
 } from './mapper';
 
+// Submission Queue (Server-only)
+export {
+  prepareFbrInvoice,
+  checkFbrInvoice,
+  attemptFbrSubmission,
+  recordFbrSubmission,
+  enqueueFbrSubmission,
+  processFbrSubmission,
+  processDueFbrSubmissions,
+  getUnsubmittedFbrSubmissions,
+} from './queue';
+export type { FbrAttemptResult } from './queue';
+
+// Debit/Credit Notes (Server-only)
+export {
+  createFbrNote,
+  getTenantSellerInfo,
+  getFbrNoteChain,
+} from './notes';
+export type { CreateFbrNoteInput, CreateFbrNoteResult } from './notes';
+
+// Scenario Rules (Server-only)
+export {
+  getScenarioRules,
+  listScenarioRuleVersions,
+  saveScenarioRule,
+  deleteScenarioRule,
+  invalidateScenarioRulesCache,
+} from './scenarioRules';
+export type { ScenarioRuleInput } from './scenarioRules';
+
+// Reference Data Cache (Server-only)
+export {
+  syncFbrReferenceData,
+  searchFbrReference,
+  getFbrReferenceStatus,
+  loadFbrReferenceForOrder,
+} from './reference';
+export type { SyncFbrReferenceResult } from './reference';
+
+// Invoice Reconciliation (Server-only)
+export {
+  getFbrReconciliationReport,
+  getReconciliationExportRows,
+  findPostedFbrInvoice,
+} from './reconciliation';
+export type {
+  ReconciliationRow,
+  ReconciliationSummary,
+  ReconciliationIssue,
+  ReconciliationFilters,
+} from './reconciliation';
+
+// Printed Invoice, QR Code and PDF (Server-only)
+export { generateFbrQrDataUrl, FBR_QR_SIZE_PX } from './qr';
+export { getPrintableInvoice, renderInvoicePdf, generateInvoicePdf } from './invoicePdf';
+export type { PrintableInvoice, PrintableInvoiceItem } from './invoicePdf';
+
+// Encrypted Credentials (Server-only)
+export {
+  rotateFbrCredential,
+  updateFbrCredentialExpiry,
+  importLegacyFbrToken,
+  getActiveFbrToken,
+  getFbrCredentialStatus,
+  listFbrCredentialHistory,
+  listFbrCredentialAuditLog,
+  recordFbrTokenUsage,
+  isFbrTokenEncryptionConfigured,
+  FBR_TOKEN_EXPIRY_WARNING_DAYS,
+} from './credentials';
+export type { ActiveFbrToken } from './credentials';
+
+// Mock FBR Service (local development and CI)
+export {
+  isFbrMockEnabled,
+  validateMockInvoice,
+  handleMockFbrRequest,
+  setMockFbrScripts,
+  addMockFbrScripts,
+  resetMockFbr,
+  getMockFbrState,
+} from './mock';
+export type { MockFbrScript, MockFbrEndpoint } from './mock';
+
 // Re-export everything for convenience
 export * from './types';
 export * from './saleTypes';
 export * from './client';
 export * from './mapper';
+export * from './queue';
+export * from './notes';
+export * from './scenarioRules';
+export * from './reference';
+export * from './reconciliation';
+export * from './qr';
+export * from './invoicePdf';
+export * from './credentials';
+export * from './mock';
@@ -0,0 +1,478 @@
+/**
+ * FBR Printed Invoice
+ *
+ * Builds the printable form of an order's FBR invoice and renders it to PDF on
+ * the server, so it can be downloaded or attached to customer emails.
+ *
+ * The item breakdown is taken from the payload that was posted to FBR, so the
+ * printed figures match what FBR holds. Orders that were never posted fall back
+ * to their local item amounts and are printed without the FBR logo and QR code.
+ *
+ * The FBR logos are read from public/fbr, which next.config.ts traces into the
+ * API functions' bundle. A PDF is still produced without a logo that cannot be
+ * read or decoded.
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { jsPDF } from 'jspdf';
+import { db } from '@/lib/db';
+import { fbrSubmissions, orderItems, orders, user } from '@/lib/schema';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import { getTenantSellerInfo } from './notes';
+import { generateFbrQrDataUrl } from './qr';
+import { findPostedFbrInvoice } from './reconciliation';
+import type { SellerInfo } from './types';
+
+export interface PrintableInvoiceItem {
+  description: string;
+  hsCode: string;
+  uom: string;
+  quantity: number;
+  rate: string;
+  saleType: string;
+  valueExcludingST: number;
+  salesTax: number;
+  furtherTax: number;
+  extraTax: number;
+  fedPayable: number;
+  discount: number;
+  total: number;
+}
+
+export interface PrintableInvoice {
+  orderId: string;
+  orderNumber: string;
+  invoiceType: string;
+  invoiceNumber: string | null;
+  invoiceDate: string;
+  invoiceRefNo: string | null;
+  scenarioId: string | null;
+  saleType: string | null;
+  fbrEnvironment: string | null;
+  currency: string;
+  seller: SellerInfo;
+  buyer: {
+    name: string;
+    ntncnic: string | null;
+    registrationType: string | null;
+    province: string | null;
+    address: string | null;
+  };
+  items: PrintableInvoiceItem[];
+  totals: {
+    valueExcludingST: number;
+    salesTax: number;
+    furtherTax: number;
+    extraTax: number;
+    fedPayable: number;
+    discount: number;
+    invoiceTotal: number;
+    shipping: number;
+    amountPayable: number;
+  };
+  /** True when the invoice was accepted by FBR and carries an FBR invoice number */
+  reportedToFbr: boolean;
+  qrCodeDataUrl: string | null;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function toNumber(value: unknown): number {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? '0'));
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+/**
+ * Load everything needed to print an order's invoice
+ *
+ * @param tenantId Tenant ID
+ * @param orderId Order ID
+ * @returns The printable invoice, or null when the order does not exist for the tenant
+ */
+export async function getPrintableInvoice(tenantId: string, orderId: string): Promise<PrintableInvoice | null> {
+  const [row] = await db
+    .select({ order: orders, user })
+    .from(orders)
+    .leftJoin(user, eq(orders.userId, user.id))
+    .where(and(eq(orders.id, orderId), eq(orders.tenantId, tenantId)))
+    .limit(1);
+
+  if (!row) {
+    return null;
+  }
+
+  const { order } = row;
+
+  const [localItems, submissions, seller] = await Promise.all([
+    db.select().from(orderItems).where(eq(orderItems.orderId, orderId)),
+    db
+      .select()
+      .from(fbrSubmissions)
+      .where(and(
+        eq(fbrSubmissions.tenantId, tenantId),
+        eq(fbrSubmissions.orderId, orderId),
+        isNull(fbrSubmissions.noteId)
+      ))
+      .orderBy(desc(fbrSubmissions.createdAt)),
+    getTenantSellerInfo(tenantId),
+  ]);
+
+  const posted = findPostedFbrInvoice(order, submissions);
+  const invoiceNumber = order.invoiceNumber || posted.invoiceNumber;
+
+  let items: PrintableInvoiceItem[];
+  if (posted.invoice?.items?.length) {
+    items = posted.invoice.items.map(item => ({
+      description: item.productDescription,
+      hsCode: item.hsCode,
+      uom: item.uoM,
+      quantity: toNumber(item.quantity),
+      rate: item.rate,
+      saleType: item.saleType,
+      valueExcludingST: round2(toNumber(item.valueSalesExcludingST)),
+      salesTax: round2(toNumber(item.salesTaxApplicable)),
+      furtherTax: round2(toNumber(item.furtherTax)),
+      extraTax: round2(toNumber(item.extraTax)),
+      fedPayable: round2(toNumber(item.fedPayable)),
+      discount: round2(toNumber(item.discount)),
+      total: round2(toNumber(item.totalValues)),
+    }));
+  } else {
+    items = localItems.map(item => {
+      const isWeightBased = toNumber(item.weightQuantity) > 0;
+      const units = isWeightBased ? 1 : toNumber(item.quantity) || 1;
+      const priceExcludingTax = toNumber(item.priceExcludingTax);
+      const valueExcludingST = round2(priceExcludingTax > 0 ? priceExcludingTax * units : toNumber(item.totalPrice));
+      const salesTax = round2(toNumber(item.taxAmount));
+      const furtherTax = round2(toNumber(item.furtherTax));
+      const extraTax = round2(toNumber(item.extraTax));
+      const fedPayable = round2(toNumber(item.fedPayableTax));
+      const discount = round2(toNumber(item.discount));
+      const taxPercentage = toNumber(item.taxPercentage);
+
+      return {
+        description: item.productDescription || item.productName,
+        hsCode: item.hsCode || '',
+        uom: item.uom || '',
+        quantity: isWeightBased ? toNumber(item.weightQuantity) : toNumber(item.quantity),
+        rate: taxPercentage > 0 ? `${taxPercentage}%` : '',
+        saleType: item.saleType || '',
+        valueExcludingST,
+        salesTax,
+        furtherTax,
+        extraTax,
+        fedPayable,
+        discount,
+        total: round2(valueExcludingST + salesTax + furtherTax + extraTax + fedPayable - discount),
+      };
+    });
+  }
+
+  const sum = (key: keyof PrintableInvoiceItem) => round2(items.reduce((total, item) => total + toNumber(item[key]), 0));
+  const reportedToFbr = !!invoiceNumber && (!!posted.invoice || order.fbrSubmissionStatus === 'posted');
+
+  const invoiceDate = (order.invoiceDate || order.createdAt || new Date()).toISOString().split('T')[0];
+  const scenarioId = order.scenarioId || posted.invoice?.scenarioId || null;
+  const buyerNTNCNIC = order.buyerNTNCNIC || row.user?.buyerNTNCNIC || null;
+  const buyerName = order.buyerBusinessName
+    || row.user?.name
+    || `${order.billingFirstName || ''} ${order.billingLastName || ''}`.trim()
+    || order.email;
+
+  return {
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    invoiceType: order.invoiceType || posted.invoice?.invoiceType || 'Sale Invoice',
+    invoiceNumber: invoiceNumber || null,
+    invoiceDate,
+    invoiceRefNo: order.invoiceRefNo,
+    scenarioId,
+    saleType: items.find(item => item.saleType)?.saleType || null,
+    fbrEnvironment: order.fbrEnvironment,
+    currency: order.currency || 'PKR',
+    seller,
+    buyer: {
+      name: buyerName,
+      ntncnic: buyerNTNCNIC,
+      registrationType: order.buyerRegistrationType,
+      province: order.buyerProvince,
+      address: order.buyerAddress || row.user?.buyerAddress || order.billingAddress1,
+    },
+    items,
+    totals: {
+      valueExcludingST: sum('valueExcludingST'),
+      salesTax: sum('salesTax'),
+      furtherTax: sum('furtherTax'),
+      extraTax: sum('extraTax'),
+      fedPayable: sum('fedPayable'),
+      discount: sum('discount'),
+      invoiceTotal: sum('total'),
+      shipping: round2(toNumber(order.shippingAmount)),
+      amountPayable: round2(toNumber(order.totalAmount)),
+    },
+    reportedToFbr,
+    qrCodeDataUrl: reportedToFbr
+      ? await generateFbrQrDataUrl({
+        invoiceNumber: invoiceNumber!,
+        invoiceDate,
+        sellerNTNCNIC: seller.ntncnic,
+        buyerNTNCNIC: buyerNTNCNIC,
+        scenarioId,
+        items,
+      }, 300)
+      : null,
+  };
+}
+
+// Printed on every FBR invoice; listed in next.config.ts outputFileTracingIncludes
+const FBR_LOGO_FILES = {
+  digitalInvoicing: 'fbr/digital-invoicing-logo.png',
+  fbr: 'fbr/fbr-pakistan-logo.png',
+} as const;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Logos only change with a deploy, so each instance reads them once
+const logoCache = new Map<string, Promise<string | null>>();
+
+/**
+ * Read a PNG from /public as a data URL (jsPDF needs the bytes on the server)
+ */
+function loadPublicPng(fileName: string): Promise<string | null> {
+  let dataUrl = logoCache.get(fileName);
+  if (!dataUrl) {
+    dataUrl = readFile(path.join(process.cwd(), 'public', fileName))
+      .then(data => {
+        if (!data.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+          throw new Error('not a PNG file');
+        }
+        return `data:image/png;base64,${data.toString('base64')}`;
+      })
+      .catch(error => {
+        console.warn(`⚠️  Could not load public/${fileName} for invoice PDF:`, error);
+        return null;
+      });
+    logoCache.set(fileName, dataUrl);
+  }
+  return dataUrl;
+}
+
+/**
+ * Draw a PNG, leaving the space empty if jsPDF cannot decode it
+ */
+function addPng(doc: jsPDF, dataUrl: string, x: number, y: number, width: number, height: number) {
+  try {
+    doc.addImage(dataUrl, 'PNG', x, y, width, height, undefined, 'FAST');
+  } catch (error) {
+    console.warn('⚠️  Could not draw image on invoice PDF:', error);
+  }
+}
+
+/**
+ * Render a printable invoice as an A4 PDF
+ *
+ * @param invoice Invoice from getPrintableInvoice
+ * @returns PDF bytes
+ */
+export async function renderInvoicePdf(invoice: PrintableInvoice): Promise<Buffer> {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 12;
+  const amount = (value: number) => value.toFixed(2);
+  const money = (value: number) => `${invoice.currency} ${amount(value)}`;
+
+  // Header: seller on the left, FBR logos and QR code on the right
+  doc.setFontSize(16);
+  doc.setFont('helvetica', 'bold');
+  doc.text(invoice.invoiceType === 'Sale Invoice' ? 'SALES TAX INVOICE' : invoice.invoiceType.toUpperCase(), margin, 18);
+
+  doc.setFontSize(11);
+  doc.text(invoice.seller.businessName || 'Business Name', margin, 26);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  const sellerLines = [
+    invoice.seller.ntncnic ? `NTN/CNIC: ${invoice.seller.ntncnic}` : '',
+    invoice.seller.strn ? `STRN: ${invoice.seller.strn}` : '',
+    invoice.seller.address,
+    invoice.seller.province ? `${invoice.seller.province} Province` : '',
+  ].filter(Boolean);
+  doc.text(sellerLines, margin, 31);
+
+  const qrSize = 25.4; // FBR requires a 1 x 1 inch QR code
+  if (invoice.reportedToFbr) {
+    const [diLogo, fbrLogo] = await Promise.all([
+      loadPublicPng(FBR_LOGO_FILES.digitalInvoicing),
+      loadPublicPng(FBR_LOGO_FILES.fbr),
+    ]);
+    const logoHeight = 12;
+    if (diLogo) addPng(doc, diLogo, pageWidth - margin - qrSize - 66, 12, 35, logoHeight);
+    if (fbrLogo) addPng(doc, fbrLogo, pageWidth - margin - qrSize - 28, 12, 26, logoHeight);
+    if (invoice.qrCodeDataUrl) {
+      addPng(doc, invoice.qrCodeDataUrl, pageWidth - margin - qrSize, 10, qrSize, qrSize);
+    }
+  }
+
+  // Invoice and buyer details
+  let y = 48;
+  doc.setDrawColor(200);
+  doc.line(margin, y - 4, pageWidth - margin, y - 4);
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.text('Invoice', margin, y);
+  doc.text('Buyer', pageWidth / 2, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+
+  const invoiceLines = [
+    invoice.invoiceNumber ? `FBR Invoice No: ${invoice.invoiceNumber}` : 'Not reported to FBR',
+    `Invoice Date: ${invoice.invoiceDate}`,
+    `Order: ${invoice.orderNumber}`,
+    invoice.invoiceRefNo ? `Reference Invoice: ${invoice.invoiceRefNo}` : '',
+    invoice.scenarioId ? `Scenario: ${invoice.scenarioId}${invoice.saleType ? ` - ${invoice.saleType}` : ''}` : '',
+  ].filter(Boolean);
+  const buyerLines = [
+    invoice.buyer.name,
+    invoice.buyer.ntncnic ? `NTN/CNIC: ${invoice.buyer.ntncnic}` : '',
+    invoice.buyer.registrationType ? `Registration: ${invoice.buyer.registrationType}` : '',
+    invoice.buyer.address || '',
+    invoice.buyer.province ? `${invoice.buyer.province} Province` : '',
+  ].filter(Boolean);
+
+  const detailWidth = pageWidth / 2 - margin - 4;
+  const invoiceText = doc.splitTextToSize(invoiceLines.join('\n'), detailWidth);
+  const buyerText = doc.splitTextToSize(buyerLines.join('\n'), detailWidth);
+  doc.text(invoiceText, margin, y + 5);
+  doc.text(buyerText, pageWidth / 2, y + 5);
+  y += 8 + Math.max(invoiceText.length, buyerText.length) * 4;
+
+  // Items table with the per-item tax breakdown
+  const columns = [
+    { label: '#', width: 6, align: 'left' as const },
+    { label: 'Description / HS Code', width: 52, align: 'left' as const },
+    { label: 'Qty', width: 14, align: 'right' as const },
+    { label: 'Rate', width: 12, align: 'right' as const },
+    { label: 'Value excl. ST', width: 22, align: 'right' as const },
+    { label: 'Sales Tax', width: 18, align: 'right' as const },
+    { label: 'Further Tax', width: 18, align: 'right' as const },
+    { label: 'Extra Tax', width: 18, align: 'right' as const },
+    { label: 'Total', width: 26, align: 'right' as const },
+  ];
+
+  const drawRow = (cells: string[][], rowY: number) => {
+    let x = margin;
+    columns.forEach((column, index) => {
+      const textX = column.align === 'right' ? x + column.width - 1 : x + 1;
+      doc.text(cells[index], textX, rowY, { align: column.align });
+      x += column.width;
+    });
+  };
+
+  const drawHeader = () => {
+    doc.setFillColor(241, 245, 249);
+    doc.rect(margin, y - 4, pageWidth - margin * 2, 7, 'F');
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(7.5);
+    drawRow(columns.map(column => [column.label]), y);
+    doc.setFont('helvetica', 'normal');
+    y += 6;
+  };
+
+  drawHeader();
+  invoice.items.forEach((item, index) => {
+    const extras = [
+      item.uom,
+      item.fedPayable > 0 ? `FED ${amount(item.fedPayable)}` : '',
+      item.discount > 0 ? `Discount ${amount(item.discount)}` : '',
+      item.saleType && item.saleType !== invoice.saleType ? item.saleType : '',
+    ].filter(Boolean).join(' · ');
+    const description = [
+      ...doc.splitTextToSize(item.description, columns[1].width - 2),
+      `HS ${item.hsCode || '-'}${extras ? ` · ${extras}` : ''}`,
+    ];
+    const rowHeight = description.length * 3.5 + 2;
+
+    if (y + rowHeight > pageHeight - 60) {
+      doc.addPage();
+      y = 18;
+      drawHeader();
+    }
+
+    drawRow([
+      [String(index + 1)],
+      description,
+      [String(item.quantity)],
+      [item.rate],
+      [amount(item.valueExcludingST)],
+      [amount(item.salesTax)],
+      [amount(item.furtherTax)],
+      [amount(item.extraTax)],
+      [amount(item.total)],
+    ], y);
+    y += rowHeight;
+    doc.setDrawColor(230);
+    doc.line(margin, y - 3, pageWidth - margin, y - 3);
+  });
+
+  // Totals
+  y += 4;
+  const totals: Array<[string, number]> = [
+    ['Value excl. Sales Tax', invoice.totals.valueExcludingST],
+    ['Sales Tax', invoice.totals.salesTax],
+  ];
+  if (invoice.totals.furtherTax > 0) totals.push(['Further Tax', invoice.totals.furtherTax]);
+  if (invoice.totals.extraTax > 0) totals.push(['Extra Tax', invoice.totals.extraTax]);
+  if (invoice.totals.fedPayable > 0) totals.push(['FED Payable', invoice.totals.fedPayable]);
+  if (invoice.totals.discount > 0) totals.push(['Discount', -invoice.totals.discount]);
+  totals.push(['Invoice Total', invoice.totals.invoiceTotal]);
+  if (invoice.totals.shipping > 0) totals.push(['Shipping', invoice.totals.shipping]);
+  totals.push(['Amount Payable', invoice.totals.amountPayable]);
+
+  doc.setFontSize(9);
+  totals.forEach(([label, value], index) => {
+    const isLast = index === totals.length - 1;
+    doc.setFont('helvetica', isLast ? 'bold' : 'normal');
+    doc.text(label, pageWidth - margin - 70, y);
+    doc.text(money(value), pageWidth - margin, y, { align: 'right' });
+    y += 5;
+  });
+
+  // Footer
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(100);
+  const footer = invoice.reportedToFbr
+    ? `This invoice has been reported to FBR Digital Invoicing${invoice.fbrEnvironment === 'sandbox' ? ' (sandbox)' : ''}. Scan the QR code to verify.`
+    : 'This invoice has not been reported to FBR.';
+  doc.text(footer, pageWidth / 2, pageHeight - 10, { align: 'center' });
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
+
+/**
+ * Build the PDF for an order's invoice
+ *
+ * @param tenantId Tenant ID
+ * @param orderId Order ID
+ */
+export async function generateInvoicePdf(
+  tenantId: string,
+  orderId: string
+): Promise<{ success: boolean; pdf?: Buffer; fileName?: string; invoice?: PrintableInvoice; error?: string }> {
+  try {
+    const invoice = await getPrintableInvoice(tenantId, orderId);
+    if (!invoice) {
+      return { success: false, error: 'Order not found' };
+    }
+
+    const pdf = await renderInvoicePdf(invoice);
+    const fileName = `invoice-${(invoice.invoiceNumber || invoice.orderNumber).replace(/[^A-Za-z0-9_-]/g, '_')}.pdf`;
+
+    return { success: true, pdf, fileName, invoice };
+  } catch (error) {
+    console.error('❌ Failed to generate invoice PDF:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
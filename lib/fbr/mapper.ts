@@ -5,7 +5,7 @@
  * Handles field renaming, tax calculations, and scenario-specific logic.
  */
 
-import type { Order, OrderItem, FbrInvoice, FbrItem, ScenarioId, RateLabel, SellerInfo } from './types';
+import type { Order, OrderItem, FbrInvoice, FbrItem, FbrNoteType, FbrReferenceLookup, ScenarioId, ScenarioRuleSet, RateLabel, SellerInfo } from './types';
 import {
   getSaleTypeForScenario,
   getDefaultRateForScenario,
@@ -101,9 +101,10 @@ function getSellerInfo(): SellerInfo {
  * Calculate tax amounts for an order item based on scenario
  * @param item Order item
  * @param scenarioId FBR scenario ID
+ * @param rules Resolved scenario rules (built-in defaults when omitted)
  * @returns Calculated tax amounts
  */
-function calculateItemTax(item: OrderItem, scenarioId: ScenarioId) {
+function calculateItemTax(item: OrderItem, scenarioId: ScenarioId, rules?: ScenarioRuleSet) {
   // Base amount should be the price excluding tax (not totalPrice which includes tax)
   // Try priceExcludingTax first, then calculate from priceIncludingTax, then fall back to price
   let baseAmount;
@@ -126,11 +127,11 @@ function calculateItemTax(item: OrderItem, scenarioId: ScenarioId) {
       // If we only have priceIncludingTax but no tax percentage, we need to determine if there's tax
       // For scenarios that are exempt or zero-rated, use priceIncludingTax directly
       // For scenarios with tax, we need to calculate backwards using default rate
-      if (isExemptOrZeroRated(scenarioId)) {
+      if (isExemptOrZeroRated(scenarioId, rules)) {
         baseAmount = priceIncludingTax * quantity;
       } else {
         // Use the default tax rate for this scenario to calculate backwards
-        const defaultRate = parseRate(getDefaultRateForScenario(scenarioId));
+        const defaultRate = parseRate(getDefaultRateForScenario(scenarioId, rules));
         if (defaultRate > 0) {
           // priceIncludingTax is per-unit, so calculate per-unit priceExcludingTax and multiply by quantity
           baseAmount = (priceIncludingTax / (1 + defaultRate)) * quantity;
@@ -159,10 +160,10 @@ function calculateItemTax(item: OrderItem, scenarioId: ScenarioId) {
   // Calculate based on tax rate (preferred path to avoid per-unit/total ambiguity)
   const taxRate = item.taxPercentage !== undefined && item.taxPercentage !== null 
     ? (typeof item.taxPercentage === 'string' ? parseFloat(item.taxPercentage as any) : item.taxPercentage) / 100 
-    : parseRate(getDefaultRateForScenario(scenarioId));
+    : parseRate(getDefaultRateForScenario(scenarioId, rules));
 
   // Always prefer calculation from baseAmount and taxRate if we have both
-  if (!isExemptOrZeroRated(scenarioId) || (item.taxPercentage !== undefined && Number(item.taxPercentage) > 0)) {
+  if (!isExemptOrZeroRated(scenarioId, rules) || (item.taxPercentage !== undefined && Number(item.taxPercentage) > 0)) {
     salesTaxApplicable = baseAmount * taxRate;
   }
 
@@ -177,7 +178,7 @@ function calculateItemTax(item: OrderItem, scenarioId: ScenarioId) {
   // Calculate withholding tax - only use user-provided value or 0
   if (item.extraTax !== undefined && item.extraTax !== null && item.extraTax > 0) {
     salesTaxWithheldAtSource = item.extraTax;
-  } else if (requiresWithholdingTax(scenarioId)) {
+  } else if (requiresWithholdingTax(scenarioId, rules)) {
     // Only auto-calculate for scenarios that specifically require it (like SN002)
     // and only if user hasn't explicitly set it to 0
     salesTaxWithheldAtSource = baseAmount * 0.02;
@@ -186,7 +187,7 @@ function calculateItemTax(item: OrderItem, scenarioId: ScenarioId) {
   }
   
   // Calculate FED payable for FED-in-ST scenarios
-  if (requiresFedPayable(scenarioId)) {
+  if (requiresFedPayable(scenarioId, rules)) {
     // Use user-provided value if available, otherwise default to 0
     fedPayable = item.fedPayableTax || 0;
   }
@@ -204,9 +205,16 @@ function calculateItemTax(item: OrderItem, scenarioId: ScenarioId) {
  * @param scenarioId FBR scenario ID
  * @param saleType Sale type for the scenario
  * @param invoiceDate Invoice date for rate lookup
+ * @param rules Resolved scenario rules (built-in defaults when omitted)
  * @returns FBR item
  */
-async function mapOrderItemToFbrItem(item: OrderItem, scenarioId: ScenarioId, saleType: string, invoiceDate?: string): Promise<FbrItem> {
+async function mapOrderItemToFbrItem(
+  item: OrderItem,
+  scenarioId: ScenarioId,
+  saleType: string,
+  invoiceDate?: string,
+  rules?: ScenarioRuleSet
+): Promise<FbrItem> {
   
   // Base amount should be the price excluding tax (not totalPrice which includes tax)
   // Try priceExcludingTax first, then calculate from priceIncludingTax, then fall back to price
@@ -230,11 +238,11 @@ async function mapOrderItemToFbrItem(item: OrderItem, scenarioId: ScenarioId, sa
       // If we only have priceIncludingTax but no tax percentage, we need to determine if there's tax
       // For scenarios that are exempt or zero-rated, use priceIncludingTax directly
       // For scenarios with tax, we need to calculate backwards using default rate
-      if (isExemptOrZeroRated(scenarioId)) {
+      if (isExemptOrZeroRated(scenarioId, rules)) {
         baseAmount = priceIncludingTax * quantity;
       } else {
         // Use the default tax rate for this scenario to calculate backwards
-        const defaultRate = parseRate(getDefaultRateForScenario(scenarioId));
+        const defaultRate = parseRate(getDefaultRateForScenario(scenarioId, rules));
         if (defaultRate > 0) {
           // priceIncludingTax is per-unit, so calculate per-unit priceExcludingTax and multiply by quantity
           baseAmount = (priceIncludingTax / (1 + defaultRate)) * quantity;
@@ -256,7 +264,7 @@ async function mapOrderItemToFbrItem(item: OrderItem, scenarioId: ScenarioId, sa
   }
 
 
-  const taxCalc = calculateItemTax(item, scenarioId);
+  const taxCalc = calculateItemTax(item, scenarioId, rules);
   
   // Get rate label - prioritize user input, then FBR API, then scenario defaults
   let rateLabel: string;
@@ -266,14 +274,14 @@ async function mapOrderItemToFbrItem(item: OrderItem, scenarioId: ScenarioId, sa
     const percentage = item.taxPercentage > 1 ? item.taxPercentage : item.taxPercentage * 100;
     if (percentage === 0) {
       // Check if the scenario should use "Exempt" instead of "0%"
-      const defaultRate = getDefaultRateForScenario(scenarioId);
+      const defaultRate = getDefaultRateForScenario(scenarioId, rules);
       rateLabel = defaultRate === 'Exempt' ? 'Exempt' : '0%';
     } else {
       rateLabel = `${Math.round(percentage)}%`;
     }
   } else {
     // No user input - use default rate (FBR API lookup can be inconsistent)
-    rateLabel = getDefaultRateForScenario(scenarioId);
+    rateLabel = getDefaultRateForScenario(scenarioId, rules);
   }
   
   // Build FBR item with exact field names (based on working format)
@@ -324,14 +332,14 @@ async function mapOrderItemToFbrItem(item: OrderItem, scenarioId: ScenarioId, sa
   }
   
   // 3rd Schedule (SN008) - override the default 0
-  if (supportsThirdSchedule(scenarioId)) {
+  if (supportsThirdSchedule(scenarioId, rules)) {
     // For 3rd Schedule scenarios, fixedNotifiedValueOrRetailPrice is mandatory
     // Use the provided value or fallback to price if not specified
     fbrItem.fixedNotifiedValueOrRetailPrice = parseFloat((item.fixedNotifiedValueOrRetailPrice || item.price).toString()) || 0;
   }
   
-  // SRO Schedule Number (use empty string as per working example)
-  fbrItem.sroScheduleNo = item.sroScheduleNumber || "";
+  // SRO Schedule Number (item value, then the scenario rule's default, else empty string as per working example)
+  fbrItem.sroScheduleNo = item.sroScheduleNumber || rules?.[scenarioId]?.sroScheduleNo || "";
   
   // SRO Item Serial Number (use empty string as per working example)
   fbrItem.sroItemSerialNo = item.itemSerialNumber || "";
@@ -420,17 +428,20 @@ async function mapOrderItemToFbrItem(item: OrderItem, scenarioId: ScenarioId, sa
  * Get sale type for scenario, optionally verified against FBR's SaleTypeToRate
  * @param scenarioId FBR scenario ID
  * @param date Invoice date (YYYY-MM-DD)
+ * @param rules Resolved scenario rules (built-in defaults when omitted)
  * @returns Sale type string
  */
 export async function getSaleTypeForScenarioWithFallback(
   scenarioId: ScenarioId,
-  date?: string
+  date?: string,
+  rules?: ScenarioRuleSet
 ): Promise<string> {
-  // Start with our local mapping
-  let saleType = getSaleTypeForScenario(scenarioId);
+  // Start with the tenant/global rule or our local mapping
+  let saleType = getSaleTypeForScenario(scenarioId, rules);
   
-  // Optionally verify against FBR's current data
-  if (date) {
+  // Rules configured in settings are authoritative; only verify the built-in mapping against FBR
+  const ruleSource = rules?.[scenarioId]?.source;
+  if (date && (!ruleSource || ruleSource === 'built-in')) {
     try {
       const saleTypeData = await getSaleTypeToRate(date);
       if (saleTypeData && Array.isArray(saleTypeData)) {
@@ -457,15 +468,17 @@ export async function getSaleTypeForScenarioWithFallback(
  * @param scenarioId FBR scenario ID
  * @param saleType Sale type string
  * @param date Invoice date (YYYY-MM-DD)
+ * @param rules Resolved scenario rules (built-in defaults when omitted)
  * @returns Rate label from FBR API or default
  */
 export async function getRateLabelForScenario(
   scenarioId: ScenarioId,
   saleType: string,
-  date?: string
+  date?: string,
+  rules?: ScenarioRuleSet
 ): Promise<string> {
   // Get default rate as fallback
-  const defaultRate = getDefaultRateForScenario(scenarioId);
+  const defaultRate = getDefaultRateForScenario(scenarioId, rules);
   
   if (!date) {
     return defaultRate;
@@ -496,15 +509,26 @@ export async function getRateLabelForScenario(
   return defaultRate;
 }
 
+/**
+ * Check whether an invoice type is a Debit/Credit Note (requires invoiceRefNo)
+ * @param invoiceType The invoice type
+ * @returns True for Debit Note and Credit Note
+ */
+export function isNoteInvoiceType(invoiceType?: string): invoiceType is FbrNoteType {
+  return invoiceType === "Debit Note" || invoiceType === "Credit Note";
+}
+
 /**
  * Map our order to FBR invoice format
  * @param order Our internal order object
  * @param sellerInfo Optional seller information (uses env vars if not provided)
+ * @param rules Tenant scenario rules (see getScenarioRules); built-in defaults when omitted
  * @returns FBR invoice object
  */
 export async function mapOrderToFbrInvoice(
   order: Order,
-  sellerInfo?: SellerInfo
+  sellerInfo?: SellerInfo,
+  rules?: ScenarioRuleSet
 ): Promise<FbrInvoice> {
   // Use seller info from order if available, otherwise fall back to sellerInfo param or env variables
   const seller = (order.sellerNTNCNIC || order.sellerBusinessName) ? {
@@ -533,19 +557,20 @@ export async function mapOrderToFbrInvoice(
   const invoiceDate = order.invoiceDate;
   
   // Get sale type (with optional FBR verification)
-  const saleType = await getSaleTypeForScenarioWithFallback(scenarioId, invoiceDate);
+  const saleType = await getSaleTypeForScenarioWithFallback(scenarioId, invoiceDate, rules);
   
-  // Map items to FBR format
+  // Map items to FBR format, one per order line. A bundle is a single line with its own
+  // price, tax and HS code; its components only move stock and are never reported.
   const fbrItems: FbrItem[] = await Promise.all(order.items.map(async item => {
     // Use item-specific sale type if provided, otherwise use scenario default
     const itemSaleType = item.saleType || saleType;
-    return await mapOrderItemToFbrItem(item, scenarioId, itemSaleType, invoiceDate);
+    return await mapOrderItemToFbrItem(item, scenarioId, itemSaleType, invoiceDate, rules);
   }));
   
   // Build FBR invoice with exact field names
   const fbrInvoice: FbrInvoice = {
     // Header fields using exact FBR labels
-    invoiceType: (order.invoiceType as "Sale Invoice" | "Debit Note") || "Sale Invoice",
+    invoiceType: (order.invoiceType as FbrInvoice['invoiceType']) || "Sale Invoice",
     invoiceDate,
     sellerNTNCNIC: seller.ntncnic,
     sellerBusinessName: seller.businessName,
@@ -567,20 +592,86 @@ export async function mapOrderToFbrInvoice(
   // Add empty invoiceRefNo as per working format
   fbrInvoice.invoiceRefNo = order.invoiceRefNo || "";
   
-  // Add invoice reference number if this is a Debit Note
-  if (order.invoiceType === "Debit Note" && order.invoiceRefNo) {
+  // Add invoice reference number if this is a Debit/Credit Note
+  if (isNoteInvoiceType(order.invoiceType) && order.invoiceRefNo) {
     fbrInvoice.invoiceRefNo = order.invoiceRefNo;
   }
   
   return fbrInvoice;
 }
 
+/**
+ * Normalize an HS code for comparison ("0101.2100" and "01012100" are equal)
+ */
+export function normalizeHsCodeDigits(hsCode: string): string {
+  return (hsCode || '').replace(/\D/g, '');
+}
+
+/**
+ * Normalize a province name ("Khyber Pakhtunkhwa (KPK)" matches "KHYBER PAKHTUNKHWA")
+ */
+export function normalizeProvinceName(province: string): string {
+  return (province || '')
+    .replace(/\(.*?\)/g, '')
+    .replace(/&/g, 'AND')
+    .replace(/[^a-zA-Z]/g, '')
+    .toUpperCase();
+}
+
+function normalizeReferenceText(value: string): string {
+  return (value || '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Check order values against cached FBR reference data
+ */
+function validateAgainstReference(order: Order, reference: FbrReferenceLookup): string[] {
+  const errors: string[] = [];
+
+  if (reference.provinces && reference.provinces.length > 0) {
+    const known = new Set(reference.provinces.map(normalizeProvinceName));
+    const provinces: Array<[string, string | undefined]> = [
+      ['Seller', order.sellerProvince],
+      ['Buyer', order.buyerProvince],
+    ];
+    for (const [party, province] of provinces) {
+      if (province && province !== 'N/A' && !known.has(normalizeProvinceName(province))) {
+        errors.push(`${party} province "${province}" is not a valid FBR province`);
+      }
+    }
+  }
+
+  order.items?.forEach((item, index) => {
+    if (item.hsCode && reference.hsCodes && !reference.hsCodes.includes(normalizeHsCodeDigits(item.hsCode))) {
+      errors.push(`Item ${index + 1}: HS code ${item.hsCode} is not in FBR's HS code list`);
+    }
+
+    const allowedUoms = item.hsCode ? reference.hsUoms?.[normalizeHsCodeDigits(item.hsCode)] : undefined;
+    if (item.uom && allowedUoms && !allowedUoms.some(uom => normalizeReferenceText(uom) === normalizeReferenceText(item.uom!))) {
+      errors.push(`Item ${index + 1}: UOM "${item.uom}" is not valid for HS code ${item.hsCode} (expected ${allowedUoms.join(', ')})`);
+    }
+
+    if (item.sroScheduleNumber && reference.sroSchedules &&
+        !reference.sroSchedules.some(sro => normalizeReferenceText(sro) === normalizeReferenceText(item.sroScheduleNumber!))) {
+      errors.push(`Item ${index + 1}: SRO/Schedule "${item.sroScheduleNumber}" is not in FBR's SRO schedule list`);
+    }
+  });
+
+  return errors;
+}
+
 /**
  * Validate order data before mapping to FBR format
  * @param order Order to validate
+ * @param reference Optional cached FBR reference data (see loadFbrReferenceForOrder)
+ * @param rules Tenant scenario rules (see getScenarioRules); built-in defaults when omitted
  * @returns Validation result
  */
-export function validateOrderForFbr(order: Order): { isValid: boolean; errors: string[] } {
+export function validateOrderForFbr(
+  order: Order,
+  reference?: FbrReferenceLookup,
+  rules?: ScenarioRuleSet
+): { isValid: boolean; errors: string[] } {
   const errors: string[] = [];
   
   // Check required fields
@@ -623,8 +714,8 @@ export function validateOrderForFbr(order: Order): { isValid: boolean; errors: s
   // Scenario-specific validations
   const scenarioId = order.scenarioId as ScenarioId;
   
-  if (order.invoiceType === "Debit Note" && !order.invoiceRefNo) {
-    errors.push('Debit Note must have an invoice reference number');
+  if (isNoteInvoiceType(order.invoiceType) && !order.invoiceRefNo) {
+    errors.push(`${order.invoiceType} must have an invoice reference number`);
   }
   
   if (order.buyerRegistrationType === "Registered" && !order.buyerNTNCNIC) {
@@ -632,7 +723,7 @@ export function validateOrderForFbr(order: Order): { isValid: boolean; errors: s
   }
   
   // Check for withholding tax requirements
-  if (requiresWithholdingTax(scenarioId)) {
+  if (requiresWithholdingTax(scenarioId, rules)) {
     const hasWithholdingTax = order.items.some(item => 
       item.extraTax && item.extraTax > 0
     );
@@ -641,8 +732,16 @@ export function validateOrderForFbr(order: Order): { isValid: boolean; errors: s
     }
   }
   
+  // Check for FED requirements (FED in ST mode)
+  if (requiresFedPayable(scenarioId, rules)) {
+    const hasFed = order.items.some(item => item.fedPayableTax && item.fedPayableTax > 0);
+    if (!hasFed) {
+      console.warn(`⚠️  Scenario ${scenarioId} typically requires FED payable at item level`);
+    }
+  }
+  
   // Check for 3rd Schedule requirements (SN008)
-  if (supportsThirdSchedule(scenarioId)) {
+  if (supportsThirdSchedule(scenarioId, rules)) {
     order.items?.forEach((item, index) => {
       // For 3rd Schedule scenarios, fixedNotifiedValueOrRetailPrice is mandatory
       // We'll allow it to be 0, but it must be explicitly set or we'll use the item price
@@ -652,6 +751,10 @@ export function validateOrderForFbr(order: Order): { isValid: boolean; errors: s
     });
   }
   
+  if (reference) {
+    errors.push(...validateAgainstReference(order, reference));
+  }
+  
   return {
     isValid: errors.length === 0,
     errors,
@@ -0,0 +1,387 @@
+/**
+ * Mock FBR Digital Invoicing Service
+ *
+ * An offline stand-in for FBR's sandbox used in local development and CI.
+ * Point a tenant's `fbr_base_url` setting (or FBR_BASE_URL) at
+ * `<app-url>/api/fbr/mock/di_data/v1/di` and every validate/post call made by
+ * `lib/fbr/client.ts` is answered here instead of by FBR.
+ *
+ * The mock applies FBR-like rules (HS code format, rate vs scenario, decimal
+ * precision, sales tax arithmetic) and returns per-item `invoiceStatuses`.
+ * Tests can script responses (HTTP errors, timeouts, forced rejections) per
+ * bearer token, so parallel tests using different tokens don't interfere.
+ *
+ * Error codes returned by the mock are mock-specific and only mirror the
+ * shape of FBR responses.
+ *
+ * IMPORTANT: Disabled in production unless FBR_MOCK_ENABLED=true.
+ */
+
+import {
+  allScenarios,
+  getDefaultRateForScenario,
+  getSaleTypeForScenario,
+  isExemptOrZeroRated,
+  supportsThirdSchedule,
+} from './saleTypes';
+import type { FbrInvoice, FbrItem, ScenarioId } from './types';
+
+export type MockFbrEndpoint = 'validate' | 'post';
+
+export interface MockFbrScript {
+  endpoint?: MockFbrEndpoint | 'any';  // Which endpoint the script applies to (default: any)
+  scenarioId?: string;                 // Only match invoices for this scenario
+  times?: number;                      // Number of requests to affect (default: 1)
+  action: 'http_error' | 'timeout' | 'invalid' | 'malformed_json' | 'valid';
+  httpStatus?: number;                 // For http_error (default: 500)
+  delayMs?: number;                    // For timeout (default: 35000)
+  error?: string;                      // Header error for invalid
+  itemErrors?: Array<{ itemSNo: string; errorCode: string; error: string }>; // Per-item errors for invalid
+}
+
+export interface MockFbrRequestLog {
+  endpoint: MockFbrEndpoint;
+  scenarioId?: string;
+  status: number;
+  scripted: boolean;
+  invoiceNumber?: string;
+  at: string;
+}
+
+export interface MockFbrResponse {
+  status: number;
+  body: any;
+  raw?: string;    // Sent as-is instead of JSON (malformed responses)
+  delayMs?: number;
+}
+
+interface MockFbrState {
+  scripts: Map<string, MockFbrScript[]>;
+  requests: Map<string, MockFbrRequestLog[]>;
+  sequence: number;
+}
+
+// Mock-specific error codes
+export const MOCK_FBR_ERROR_CODES = {
+  INVALID_HEADER: '0001',
+  INVALID_SCENARIO: '0002',
+  MISSING_REFERENCE: '0003',
+  INVALID_BUYER: '0004',
+  INVALID_HS_CODE: '0101',
+  INVALID_RATE: '0102',
+  INVALID_UOM: '0103',
+  PRECISION: '0104',
+  SALES_TAX_MISMATCH: '0105',
+  INVALID_QUANTITY: '0106',
+  SCRIPTED: '0999',
+} as const;
+
+const VALID_RATE_PATTERN = /^(Exempt|\d+(\.\d+)?%)$/;
+const HS_CODE_PATTERN = /^\d{4}\.\d{4}$|^\d{8,10}$/;
+const NTN_CNIC_PATTERN = /^(\d{7}|\d{13})$/;
+
+// Keep state on globalThis so it survives module reloads in `next dev`
+const globalForMock = globalThis as unknown as { __mockFbrState?: MockFbrState };
+const state: MockFbrState = globalForMock.__mockFbrState || {
+  scripts: new Map(),
+  requests: new Map(),
+  sequence: 0,
+};
+globalForMock.__mockFbrState = state;
+
+/**
+ * Check whether the mock FBR service may be used in this environment
+ */
+export function isFbrMockEnabled(): boolean {
+  return process.env.FBR_MOCK_ENABLED === 'true' || process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * Replace the scripted responses for a token
+ */
+export function setMockFbrScripts(token: string, scripts: MockFbrScript[]) {
+  state.scripts.set(token, scripts.map(script => ({ ...script, times: script.times ?? 1 })));
+}
+
+/**
+ * Append scripted responses for a token
+ */
+export function addMockFbrScripts(token: string, scripts: MockFbrScript[]) {
+  const existing = state.scripts.get(token) || [];
+  state.scripts.set(token, [...existing, ...scripts.map(script => ({ ...script, times: script.times ?? 1 }))]);
+}
+
+/**
+ * Clear scripts and request history (for one token, or everything)
+ */
+export function resetMockFbr(token?: string) {
+  if (token) {
+    state.scripts.delete(token);
+    state.requests.delete(token);
+  } else {
+    state.scripts.clear();
+    state.requests.clear();
+  }
+}
+
+/**
+ * Get pending scripts and the request history for a token
+ */
+export function getMockFbrState(token: string) {
+  return {
+    scripts: state.scripts.get(token) || [],
+    requests: state.requests.get(token) || [],
+  };
+}
+
+function consumeScript(token: string, endpoint: MockFbrEndpoint, scenarioId?: string): MockFbrScript | null {
+  const scripts = state.scripts.get(token);
+  if (!scripts) return null;
+
+  const index = scripts.findIndex(script =>
+    (!script.endpoint || script.endpoint === 'any' || script.endpoint === endpoint) &&
+    (!script.scenarioId || script.scenarioId === scenarioId)
+  );
+  if (index === -1) return null;
+
+  const script = scripts[index];
+  script.times = (script.times ?? 1) - 1;
+  if (script.times <= 0) {
+    scripts.splice(index, 1);
+  }
+  return script;
+}
+
+function logRequest(token: string, entry: Omit<MockFbrRequestLog, 'at'>) {
+  const log = state.requests.get(token) || [];
+  log.push({ ...entry, at: new Date().toISOString() });
+  // Keep the history bounded
+  state.requests.set(token, log.slice(-200));
+}
+
+function hasMoreDecimals(value: number | undefined, decimals: number): boolean {
+  if (value === undefined || value === null) return false;
+  const factor = Math.pow(10, decimals);
+  return Math.abs(Math.round(value * factor) - value * factor) > 1e-6;
+}
+
+function parseRateLabel(rate: string): number {
+  return rate === 'Exempt' ? 0 : parseFloat(rate) / 100;
+}
+
+/**
+ * Validate a single item against the scenario rules
+ */
+function validateMockItem(item: FbrItem, scenarioId: ScenarioId): { errorCode: string; error: string } | null {
+  const codes = MOCK_FBR_ERROR_CODES;
+
+  if (!item.hsCode || !HS_CODE_PATTERN.test(item.hsCode)) {
+    return { errorCode: codes.INVALID_HS_CODE, error: `Invalid HS Code "${item.hsCode || ''}". Provide HS Code in DDDD.DDDD format` };
+  }
+
+  if (!item.uoM) {
+    return { errorCode: codes.INVALID_UOM, error: 'UoM is required' };
+  }
+
+  if (!item.quantity || item.quantity <= 0) {
+    return { errorCode: codes.INVALID_QUANTITY, error: 'Quantity must be greater than zero' };
+  }
+
+  if (!item.rate || !VALID_RATE_PATTERN.test(item.rate)) {
+    return { errorCode: codes.INVALID_RATE, error: `Invalid rate "${item.rate || ''}"` };
+  }
+
+  // Rate must be compatible with the scenario
+  const isZeroRate = item.rate === 'Exempt' || parseRateLabel(item.rate) === 0;
+  if (isExemptOrZeroRated(scenarioId) && !isZeroRate) {
+    return { errorCode: codes.INVALID_RATE, error: `Rate ${item.rate} is not allowed for ${scenarioId} (${getSaleTypeForScenario(scenarioId)})` };
+  }
+  if (!isExemptOrZeroRated(scenarioId) && isZeroRate) {
+    return { errorCode: codes.INVALID_RATE, error: `Rate ${item.rate} is not allowed for ${scenarioId}; expected ${getDefaultRateForScenario(scenarioId)}` };
+  }
+  if (getSaleTypeForScenario(scenarioId).startsWith('Goods at standard rate') && item.rate !== getDefaultRateForScenario(scenarioId)) {
+    return { errorCode: codes.INVALID_RATE, error: `Rate ${item.rate} does not match standard rate ${getDefaultRateForScenario(scenarioId)} for ${scenarioId}` };
+  }
+
+  // Decimal precision: amounts 2 places, quantity 4 places
+  if (hasMoreDecimals(item.quantity, 4)) {
+    return { errorCode: codes.PRECISION, error: 'Quantity allows a maximum of 4 decimal places' };
+  }
+  const amountFields: Array<keyof FbrItem> = [
+    'valueSalesExcludingST', 'totalValues', 'salesTaxApplicable', 'salesTaxWithheldAtSource',
+    'extraTax', 'furtherTax', 'fedPayable', 'discount', 'fixedNotifiedValueOrRetailPrice',
+  ];
+  for (const field of amountFields) {
+    if (hasMoreDecimals(item[field] as number | undefined, 2)) {
+      return { errorCode: codes.PRECISION, error: `${field} allows a maximum of 2 decimal places` };
+    }
+  }
+
+  // Sales tax arithmetic (3rd Schedule is taxed on retail price, so skip)
+  if (!supportsThirdSchedule(scenarioId) && item.rate !== 'Exempt') {
+    const expectedTax = item.valueSalesExcludingST * parseRateLabel(item.rate);
+    if (Math.abs(expectedTax - item.salesTaxApplicable) > 1) {
+      return {
+        errorCode: codes.SALES_TAX_MISMATCH,
+        error: `Sales tax ${item.salesTaxApplicable} does not match value ${item.valueSalesExcludingST} at ${item.rate} (expected ${expectedTax.toFixed(2)})`,
+      };
+    }
+  }
+
+  if (supportsThirdSchedule(scenarioId) && !item.fixedNotifiedValueOrRetailPrice) {
+    return { errorCode: codes.PRECISION, error: 'Fixed/notified value or retail price is required for 3rd Schedule goods' };
+  }
+
+  return null;
+}
+
+/**
+ * Validate an invoice the way FBR does, returning an FBR-shaped validationResponse
+ */
+export function validateMockInvoice(invoice: FbrInvoice, invoiceNumber?: string) {
+  const codes = MOCK_FBR_ERROR_CODES;
+  let headerError: { errorCode: string; error: string } | null = null;
+
+  if (!invoice || !invoice.invoiceType || !['Sale Invoice', 'Debit Note', 'Credit Note'].includes(invoice.invoiceType)) {
+    headerError = { errorCode: codes.INVALID_HEADER, error: 'Invalid invoice type' };
+  } else if (!invoice.invoiceDate || !/^\d{4}-\d{2}-\d{2}$/.test(invoice.invoiceDate)) {
+    headerError = { errorCode: codes.INVALID_HEADER, error: 'Invoice date must be in YYYY-MM-DD format' };
+  } else if (!allScenarios.includes(invoice.scenarioId as ScenarioId)) {
+    headerError = { errorCode: codes.INVALID_SCENARIO, error: `Unknown scenario ${invoice.scenarioId}` };
+  } else if (!invoice.sellerNTNCNIC || !NTN_CNIC_PATTERN.test(invoice.sellerNTNCNIC)) {
+    headerError = { errorCode: codes.INVALID_HEADER, error: 'Seller NTN/CNIC must be 7 or 13 digits' };
+  } else if (invoice.buyerRegistrationType === 'Registered' && !NTN_CNIC_PATTERN.test(invoice.buyerNTNCNIC || '')) {
+    headerError = { errorCode: codes.INVALID_BUYER, error: 'Registered buyer NTN/CNIC must be 7 or 13 digits' };
+  } else if (invoice.invoiceType !== 'Sale Invoice' && !invoice.invoiceRefNo) {
+    headerError = { errorCode: codes.MISSING_REFERENCE, error: `${invoice.invoiceType} requires invoiceRefNo` };
+  } else if (!Array.isArray(invoice.items) || invoice.items.length === 0) {
+    headerError = { errorCode: codes.INVALID_HEADER, error: 'Invoice must contain at least one item' };
+  }
+
+  if (headerError) {
+    return {
+      statusCode: '01',
+      status: 'Invalid',
+      errorCode: headerError.errorCode,
+      error: headerError.error,
+      invoiceStatuses: [],
+    };
+  }
+
+  const invoiceStatuses = invoice.items.map((item, index) => {
+    const itemError = validateMockItem(item, invoice.scenarioId as ScenarioId);
+    return {
+      itemSNo: String(index + 1),
+      statusCode: itemError ? '01' : '00',
+      status: itemError ? 'Invalid' : 'Valid',
+      invoiceNo: !itemError && invoiceNumber ? `${invoiceNumber}-${index + 1}` : null,
+      errorCode: itemError?.errorCode || '',
+      error: itemError?.error || '',
+    };
+  });
+
+  const valid = invoiceStatuses.every(status => status.status === 'Valid');
+  return {
+    statusCode: valid ? '00' : '01',
+    status: valid ? 'Valid' : 'Invalid',
+    error: valid ? '' : invoiceStatuses.filter(s => s.error).map(s => `Item ${s.itemSNo}: ${s.error}`).join('; '),
+    invoiceStatuses,
+  };
+}
+
+function applyScriptedInvalid(script: MockFbrScript, invoice: FbrInvoice) {
+  const itemErrors = script.itemErrors || [];
+  const invoiceStatuses = (invoice?.items || []).map((_, index) => {
+    const itemSNo = String(index + 1);
+    const scripted = itemErrors.find(e => e.itemSNo === itemSNo);
+    return {
+      itemSNo,
+      statusCode: scripted ? '01' : '00',
+      status: scripted ? 'Invalid' : 'Valid',
+      invoiceNo: null,
+      errorCode: scripted?.errorCode || '',
+      error: scripted?.error || '',
+    };
+  });
+
+  return {
+    statusCode: '01',
+    status: 'Invalid',
+    errorCode: MOCK_FBR_ERROR_CODES.SCRIPTED,
+    error: script.error || itemErrors.map(e => `Item ${e.itemSNo}: ${e.error}`).join('; ') || 'Scripted rejection',
+    invoiceStatuses,
+  };
+}
+
+/**
+ * Handle a validate/post request against the mock
+ *
+ * @param endpoint Which FBR endpoint was called
+ * @param token The bearer token (scripts and history are keyed by it)
+ * @param invoice The request body
+ */
+export function handleMockFbrRequest(endpoint: MockFbrEndpoint, token: string, invoice: FbrInvoice): MockFbrResponse {
+  const scenarioId = invoice?.scenarioId;
+  const script = consumeScript(token, endpoint, scenarioId);
+
+  let response: MockFbrResponse;
+
+  if (script?.action === 'http_error') {
+    const status = script.httpStatus || 500;
+    response = { status, body: { error: script.error || `Mock FBR HTTP ${status}` } };
+  } else if (script?.action === 'timeout') {
+    response = { status: 504, body: { error: 'Mock FBR timeout' }, delayMs: script.delayMs ?? 35000 };
+  } else if (script?.action === 'malformed_json') {
+    response = { status: 200, body: null, raw: '{"validationResponse": {"status": "Valid",, }' };
+  } else if (script?.action === 'invalid') {
+    response = { status: 200, body: { validationResponse: applyScriptedInvalid(script, invoice) } };
+  } else {
+    const invoiceNumber = endpoint === 'post'
+      ? `${invoice?.sellerNTNCNIC || '0000000'}DI${Date.now()}${++state.sequence}`
+      : undefined;
+    const validationResponse = script?.action === 'valid'
+      ? { statusCode: '00', status: 'Valid', error: '', invoiceStatuses: (invoice?.items || []).map((_, i) => ({
+          itemSNo: String(i + 1), statusCode: '00', status: 'Valid', invoiceNo: invoiceNumber ? `${invoiceNumber}-${i + 1}` : null, errorCode: '', error: '',
+        })) }
+      : validateMockInvoice(invoice, invoiceNumber);
+
+    const valid = validationResponse.status === 'Valid';
+    response = {
+      status: 200,
+      body: endpoint === 'post' && valid
+        ? { invoiceNumber, dated: new Date().toISOString().replace('T', ' ').substring(0, 19), validationResponse }
+        : { validationResponse },
+    };
+  }
+
+  logRequest(token, {
+    endpoint,
+    scenarioId,
+    status: response.status,
+    scripted: !!script,
+    invoiceNumber: response.body?.invoiceNumber,
+  });
+
+  return response;
+}
+
+/**
+ * Reference data for the SaleTypeToRate endpoint used by `getSaleTypeToRate`
+ */
+export function getMockSaleTypeToRate() {
+  const seen = new Set<string>();
+  return allScenarios
+    .map(scenarioId => ({ label: getSaleTypeForScenario(scenarioId), rate: getDefaultRateForScenario(scenarioId) }))
+    .filter(entry => {
+      const key = `${entry.label}|${entry.rate}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map((entry, index) => ({
+      ratE_ID: index + 1,
+      ratE_DESC: entry.rate,
+      ratE_VALUE: parseRateLabel(entry.rate) * 100,
+      salE_TYPE: entry.label,
+    }));
+}
@@ -0,0 +1,415 @@
+/**
+ * FBR Debit/Credit Notes
+ *
+ * Builds a Debit Note or Credit Note from a completed return or refund and
+ * submits it through the same validate → post flow as sale invoices.
+ * Every note references the original order's FBR invoice number via
+ * `invoiceRefNo`, so the full chain can be reconstructed per order.
+ *
+ * Notes are numbered per tenant (DN-000001, CN-000001, …). A return or refund
+ * gets at most one note: `source_key` is unique per tenant, and a rejected
+ * note gives up its key when a new note replaces it.
+ */
+
+import { db } from '@/lib/db';
+import { fbrNotes, orderItems, orders, refunds, returnItems, returns, settings } from '@/lib/schema';
+import { and, asc, eq, sql } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { attemptFbrSubmission, prepareFbrInvoice, recordFbrSubmission, type FbrAttemptResult } from './queue';
+import { getScenarioRules } from './scenarioRules';
+import type { FbrNoteType, Order, OrderItem, SellerInfo } from './types';
+
+export interface CreateFbrNoteInput {
+  returnId?: string;
+  refundId?: string;
+  noteType?: FbrNoteType;
+  reason?: string;
+  createdBy?: string;
+}
+
+export interface CreateFbrNoteResult {
+  success: boolean;
+  error?: string;
+  note?: typeof fbrNotes.$inferSelect;
+  submission?: FbrAttemptResult;
+}
+
+const NOTE_NUMBER_DIGITS = 6;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Next sequential note number of a type for a tenant (DN-000001, CN-000001, …)
+ *
+ * Numbers from the old `DN-<timestamp>` format are ignored when picking the next value.
+ */
+async function generateNoteNumber(tenantId: string, noteType: FbrNoteType): Promise<string> {
+  const prefix = noteType === 'Debit Note' ? 'DN-' : 'CN-';
+  const [row] = await db
+    .select({
+      maxNumber: sql<string | null>`MAX(CAST(SUBSTRING(${fbrNotes.noteNumber}, ${prefix.length + 1}) AS UNSIGNED))`,
+    })
+    .from(fbrNotes)
+    .where(and(
+      eq(fbrNotes.tenantId, tenantId),
+      sql`${fbrNotes.noteNumber} REGEXP ${`^${prefix}[0-9]{${NOTE_NUMBER_DIGITS},9}$`}`
+    ));
+
+  const next = parseInt(row?.maxNumber || '0') + 1;
+  return `${prefix}${String(next).padStart(NOTE_NUMBER_DIGITS, '0')}`;
+}
+
+/**
+ * Get seller information from tenant FBR settings (falls back to env vars)
+ */
+export async function getTenantSellerInfo(tenantId: string): Promise<SellerInfo> {
+  const rows = await db
+    .select()
+    .from(settings)
+    .where(and(eq(settings.tenantId, tenantId), eq(settings.isActive, true)));
+
+  const values = new Map(rows.map(row => [row.key, row.value || '']));
+
+  return {
+    ntncnic: values.get('fbr_seller_ntncnic') || process.env.FBR_SELLER_NTNCNIC || '',
+    businessName: values.get('fbr_seller_business_name') || process.env.FBR_SELLER_BUSINESS_NAME || '',
+    province: values.get('fbr_seller_province') || process.env.FBR_SELLER_PROVINCE || '',
+    address: values.get('fbr_seller_address') || process.env.FBR_SELLER_ADDRESS || '',
+    strn: values.get('fbr_strn_number') || undefined,
+  };
+}
+
+/**
+ * Scale an order item line to a partial quantity/amount
+ *
+ * The mapper multiplies the unit prices by the quantity, so they are recomputed
+ * from the scaled (tax-inclusive) line total rather than copied from the order.
+ */
+export function scaleOrderItem(item: typeof orderItems.$inferSelect, ratio: number, quantity: number): OrderItem {
+  const scale = (value: string | null) => round2(parseFloat(value || '0') * ratio);
+  const weightQuantity = parseFloat(item.weightQuantity || '0');
+  const totalPrice = scale(item.totalPrice);
+  const taxAmount = scale(item.taxAmount);
+
+  return {
+    id: item.id,
+    productId: item.productId,
+    variantId: item.variantId || undefined,
+    productName: item.productName,
+    productDescription: item.productDescription || undefined,
+    variantTitle: item.variantTitle || undefined,
+    sku: item.sku || undefined,
+    hsCode: item.hsCode || undefined,
+    uom: item.uom || undefined,
+    itemSerialNumber: item.itemSerialNumber || undefined,
+    sroScheduleNumber: item.sroScheduleNumber || undefined,
+    quantity,
+    price: parseFloat(item.price),
+    totalPrice,
+    isWeightBased: weightQuantity > 0,
+    weightQuantity: weightQuantity > 0 ? round2(weightQuantity * ratio) : undefined,
+    weightUnit: item.weightUnit || undefined,
+    taxAmount,
+    taxPercentage: parseFloat(item.taxPercentage || '0'),
+    priceIncludingTax: quantity > 0 ? totalPrice / quantity : parseFloat(item.priceIncludingTax || '0'),
+    priceExcludingTax: quantity > 0 ? (totalPrice - taxAmount) / quantity : parseFloat(item.priceExcludingTax || '0'),
+    extraTax: scale(item.extraTax),
+    furtherTax: scale(item.furtherTax),
+    fedPayableTax: scale(item.fedPayableTax),
+    discount: scale(item.discount),
+    fixedNotifiedValueOrRetailPrice: scale(item.fixedNotifiedValueOrRetailPrice),
+    saleType: item.saleType || undefined,
+  };
+}
+
+/**
+ * Totals of a note from its lines
+ *
+ * Line totals already include tax, so the subtotal is what remains after taking it out.
+ */
+export function getNoteTotals(items: Array<Pick<OrderItem, 'totalPrice' | 'taxAmount'>>) {
+  const totalAmount = round2(items.reduce((sum, item) => sum + item.totalPrice, 0));
+  const taxAmount = round2(items.reduce((sum, item) => sum + (item.taxAmount || 0), 0));
+  return { subtotal: round2(totalAmount - taxAmount), taxAmount, totalAmount };
+}
+
+/**
+ * Build note lines from the items of a return
+ */
+async function getReturnNoteItems(returnId: string, orderId: string): Promise<OrderItem[]> {
+  const rows = await db
+    .select({ returnItem: returnItems, orderItem: orderItems })
+    .from(returnItems)
+    .innerJoin(orderItems, eq(returnItems.orderItemId, orderItems.id))
+    .where(and(eq(returnItems.returnId, returnId), eq(orderItems.orderId, orderId)));
+
+  return rows
+    .filter(row => row.returnItem.quantity > 0 && row.orderItem.quantity > 0)
+    .map(row => scaleOrderItem(
+      row.orderItem,
+      Math.min(row.returnItem.quantity / row.orderItem.quantity, 1),
+      Math.min(row.returnItem.quantity, row.orderItem.quantity)
+    ));
+}
+
+/**
+ * Build note lines for a refund without a return by pro-rating every order line
+ */
+async function getRefundNoteItems(orderId: string, refundAmount: number, orderTotal: number): Promise<OrderItem[]> {
+  const items = await db
+    .select()
+    .from(orderItems)
+    .where(eq(orderItems.orderId, orderId));
+
+  const ratio = orderTotal > 0 ? Math.min(refundAmount / orderTotal, 1) : 0;
+  return items.map(item => scaleOrderItem(item, ratio, item.quantity));
+}
+
+/**
+ * Create a Debit/Credit Note for a completed return or refund and submit it to FBR
+ *
+ * @param tenantId The tenant issuing the note
+ * @param input The return or refund to report, plus the note type
+ * @returns The created note and the FBR submission result
+ */
+export async function createFbrNote(tenantId: string, input: CreateFbrNoteInput): Promise<CreateFbrNoteResult> {
+  const noteType: FbrNoteType = input.noteType || 'Debit Note';
+  if (noteType !== 'Debit Note' && noteType !== 'Credit Note') {
+    return { success: false, error: 'Note type must be "Debit Note" or "Credit Note"' };
+  }
+
+  if (!input.returnId && !input.refundId) {
+    return { success: false, error: 'A returnId or refundId is required' };
+  }
+
+  // Resolve the source document
+  let returnRecord: typeof returns.$inferSelect | undefined;
+  let refundRecord: typeof refunds.$inferSelect | undefined;
+
+  if (input.refundId) {
+    [refundRecord] = await db
+      .select()
+      .from(refunds)
+      .where(and(eq(refunds.id, input.refundId), eq(refunds.tenantId, tenantId)))
+      .limit(1);
+
+    if (!refundRecord) {
+      return { success: false, error: 'Refund not found' };
+    }
+    if (refundRecord.status !== 'completed') {
+      return { success: false, error: 'Only completed refunds can be reported to FBR' };
+    }
+  }
+
+  const returnId = input.returnId || refundRecord?.returnId || undefined;
+  if (returnId) {
+    [returnRecord] = await db
+      .select()
+      .from(returns)
+      .where(and(eq(returns.id, returnId), eq(returns.tenantId, tenantId)))
+      .limit(1);
+
+    if (!returnRecord) {
+      return { success: false, error: 'Return not found' };
+    }
+    if (!refundRecord && returnRecord.status !== 'completed') {
+      return { success: false, error: 'Only completed returns can be reported to FBR' };
+    }
+  }
+
+  const orderId = refundRecord?.orderId || returnRecord!.orderId;
+
+  // A refund of a return shares the return's note
+  const sourceKey = returnRecord ? `return:${returnRecord.id}` : `refund:${refundRecord!.id}`;
+
+  const [order] = await db
+    .select()
+    .from(orders)
+    .where(and(eq(orders.id, orderId), eq(orders.tenantId, tenantId)))
+    .limit(1);
+
+  if (!order) {
+    return { success: false, error: 'Original order not found' };
+  }
+  if (!order.invoiceNumber || (order.fbrSubmissionStatus && order.fbrSubmissionStatus !== 'posted')) {
+    return { success: false, error: 'The original order has not been posted to FBR yet' };
+  }
+  if (!order.scenarioId) {
+    return { success: false, error: 'The original order has no FBR scenario' };
+  }
+
+  // Build note lines
+  const items = returnRecord
+    ? await getReturnNoteItems(returnRecord.id, order.id)
+    : await getRefundNoteItems(order.id, parseFloat(refundRecord!.amount), parseFloat(order.totalAmount));
+
+  if (items.length === 0) {
+    return { success: false, error: 'No items found to include in the note' };
+  }
+
+  const { subtotal, taxAmount, totalAmount } = getNoteTotals(items);
+  const invoiceDate = new Date().toISOString().split('T')[0];
+  const isProduction = order.fbrEnvironment === 'production';
+
+  const noteOrder: Order = {
+    email: order.email,
+    scenarioId: order.scenarioId,
+    invoiceType: noteType,
+    invoiceRefNo: order.invoiceNumber,
+    invoiceDate,
+    subtotal,
+    taxAmount,
+    totalAmount,
+    currency: order.currency || undefined,
+    buyerNTNCNIC: order.buyerNTNCNIC || undefined,
+    buyerBusinessName: order.buyerBusinessName || undefined,
+    buyerProvince: order.buyerProvince || undefined,
+    buyerAddress: order.buyerAddress || undefined,
+    buyerRegistrationType: (order.buyerRegistrationType as Order['buyerRegistrationType']) || 'Unregistered',
+    billingAddress1: order.billingAddress1 || undefined,
+    billingCity: order.billingCity || undefined,
+    billingState: order.billingState || undefined,
+    shippingAddress1: order.shippingAddress1 || undefined,
+    shippingCity: order.shippingCity || undefined,
+    shippingState: order.shippingState || undefined,
+    items,
+  };
+
+  const rules = await getScenarioRules(tenantId, noteOrder.invoiceDate);
+  const prepared = await prepareFbrInvoice(noteOrder, await getTenantSellerInfo(tenantId), { rules });
+  if (!prepared.ok) {
+    return { success: false, error: prepared.error, submission: prepared };
+  }
+
+  // A rejected note no longer counts; the new one takes over its source
+  await db
+    .update(fbrNotes)
+    .set({ sourceKey: null, updatedAt: new Date() })
+    .where(and(eq(fbrNotes.tenantId, tenantId), eq(fbrNotes.sourceKey, sourceKey), eq(fbrNotes.fbrSubmissionStatus, 'rejected')));
+
+  const noteId = uuidv4();
+  const noteValues = {
+    id: noteId,
+    tenantId,
+    noteType,
+    orderId: order.id,
+    returnId: returnRecord?.id || null,
+    refundId: refundRecord?.id || null,
+    sourceKey,
+    invoiceRefNo: order.invoiceNumber,
+    invoiceDate: new Date(`${invoiceDate}T00:00:00.000Z`),
+    reason: input.reason || refundRecord?.reason || returnRecord?.reason || null,
+    items,
+    subtotal: subtotal.toString(),
+    taxAmount: taxAmount.toString(),
+    totalAmount: totalAmount.toString(),
+    fbrSubmissionStatus: 'validating' as const,
+    fbrEnvironment: isProduction ? 'production' as const : 'sandbox' as const,
+    createdBy: input.createdBy || null,
+  };
+
+  // The unique source key stops a second note for the same return/refund;
+  // a number taken by a concurrent note is retried with the next one
+  let noteNumber = '';
+  for (let attempt = 1; ; attempt++) {
+    noteNumber = await generateNoteNumber(tenantId, noteType);
+    try {
+      await db.insert(fbrNotes).values({ ...noteValues, noteNumber, createdAt: new Date(), updatedAt: new Date() });
+      break;
+    } catch (error: any) {
+      if (error?.code !== 'ER_DUP_ENTRY') throw error;
+
+      if (error.message?.includes('fbr_notes_tenant_source_unique')) {
+        const [activeNote] = await db
+          .select({ noteNumber: fbrNotes.noteNumber })
+          .from(fbrNotes)
+          .where(and(eq(fbrNotes.tenantId, tenantId), eq(fbrNotes.sourceKey, sourceKey)))
+          .limit(1);
+        return {
+          success: false,
+          error: `Note ${activeNote?.noteNumber ?? ''} has already been issued for this ${returnRecord ? 'return' : 'refund'}`,
+        };
+      }
+      if (attempt >= 3) throw error;
+    }
+  }
+
+  console.log(`🧾 Submitting ${noteType} ${noteNumber} against FBR invoice ${order.invoiceNumber}`);
+
+  const submission = await attemptFbrSubmission(prepared.fbrInvoice!, tenantId, isProduction, {
+    orderId: order.id,
+    noteId,
+    userId: input.createdBy,
+  });
+  await recordFbrSubmission(tenantId, order.id, submission, isProduction, noteId);
+
+  const [note] = await db
+    .select()
+    .from(fbrNotes)
+    .where(eq(fbrNotes.id, noteId))
+    .limit(1);
+
+  return {
+    success: submission.ok || submission.retryable,
+    error: submission.ok ? undefined : submission.error,
+    note,
+    submission,
+  };
+}
+
+/**
+ * Get the original invoice of an order together with every note issued against it
+ *
+ * @param tenantId The tenant
+ * @param orderId The original order ID
+ */
+export async function getFbrNoteChain(tenantId: string, orderId: string) {
+  const [order] = await db
+    .select({
+      id: orders.id,
+      orderNumber: orders.orderNumber,
+      invoiceNumber: orders.invoiceNumber,
+      invoiceDate: orders.invoiceDate,
+      invoiceType: orders.invoiceType,
+      totalAmount: orders.totalAmount,
+      fbrSubmissionStatus: orders.fbrSubmissionStatus,
+      fbrEnvironment: orders.fbrEnvironment,
+    })
+    .from(orders)
+    .where(and(eq(orders.id, orderId), eq(orders.tenantId, tenantId)))
+    .limit(1);
+
+  if (!order) {
+    return null;
+  }
+
+  const notes = await db
+    .select({
+      id: fbrNotes.id,
+      noteNumber: fbrNotes.noteNumber,
+      noteType: fbrNotes.noteType,
+      returnId: fbrNotes.returnId,
+      refundId: fbrNotes.refundId,
+      invoiceRefNo: fbrNotes.invoiceRefNo,
+      invoiceDate: fbrNotes.invoiceDate,
+      reason: fbrNotes.reason,
+      totalAmount: fbrNotes.totalAmount,
+      fbrInvoiceNumber: fbrNotes.fbrInvoiceNumber,
+      fbrSubmissionStatus: fbrNotes.fbrSubmissionStatus,
+      createdAt: fbrNotes.createdAt,
+    })
+    .from(fbrNotes)
+    .where(and(eq(fbrNotes.tenantId, tenantId), eq(fbrNotes.orderId, orderId)))
+    .orderBy(asc(fbrNotes.createdAt));
+
+  // Notes are raised from returns/refunds, so every posted note reduces the original sale
+  const netAmount = notes
+    .filter(note => note.fbrSubmissionStatus === 'posted')
+    .reduce((total, note) => total - parseFloat(note.totalAmount), parseFloat(order.totalAmount));
+
+  return {
+    order,
+    notes,
+    netAmount: round2(netAmount),
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * FBR Invoice QR Code
+ *
+ * Printed Digital Invoicing invoices carry a QR code, printed at 1 x 1 inch, so
+ * buyers can check them against FBR's record with the Tax Asaan app.
+ *
+ * The code holds a compact JSON summary of the invoice (see buildFbrQrText):
+ * the FBR invoice number, invoice date, seller and buyer NTN/CNIC, scenario and
+ * the tax breakdown of every item. That does not fit a version 2 (25x25) code,
+ * so the version grows with the invoice; when even the largest code cannot hold
+ * every item, the items are left out and the invoice totals are kept.
+ *
+ * Safe to use on both server and client (no database access).
+ */
+
+import QRCode from 'qrcode';
+
+// 1 inch at 96 DPI
+export const FBR_QR_SIZE_PX = 96;
+
+export interface FbrQrItem {
+  hsCode: string;
+  /** Sales tax rate as printed, e.g. "18%" */
+  rate: string;
+  valueExcludingST: number;
+  salesTax: number;
+  furtherTax: number;
+  extraTax: number;
+  fedPayable: number;
+  total: number;
+}
+
+export interface FbrQrPayload {
+  /** FBR invoice number returned by postinvoicedata */
+  invoiceNumber: string;
+  invoiceDate?: string | null;
+  sellerNTNCNIC?: string | null;
+  buyerNTNCNIC?: string | null;
+  scenarioId?: string | null;
+  items: FbrQrItem[];
+}
+
+const round2 = (value: number) => Math.round((Number(value) || 0) * 100) / 100;
+
+/**
+ * Encode an invoice as the text stored in its QR code
+ *
+ * Keys are kept short because every character costs code size:
+ * inv, date, seller, buyer, scenario, then per item hs, rate, value (excluding
+ * sales tax), st (sales tax), ft (further tax), et (extra tax), fed and total,
+ * followed by the invoice totals of the same amounts.
+ *
+ * @param includeItems Whether to list the items (the totals are always included)
+ */
+export function buildFbrQrText(payload: FbrQrPayload, includeItems: boolean = true): string {
+  const sum = (key: keyof Omit<FbrQrItem, 'hsCode' | 'rate'>) =>
+    round2(payload.items.reduce((total, item) => total + (Number(item[key]) || 0), 0));
+
+  return JSON.stringify({
+    inv: payload.invoiceNumber,
+    date: payload.invoiceDate || undefined,
+    seller: payload.sellerNTNCNIC || undefined,
+    buyer: payload.buyerNTNCNIC || undefined,
+    scenario: payload.scenarioId || undefined,
+    items: includeItems
+      ? payload.items.map(item => ({
+        hs: item.hsCode,
+        rate: item.rate,
+        value: round2(item.valueExcludingST),
+        st: round2(item.salesTax),
+        ft: round2(item.furtherTax),
+        et: round2(item.extraTax),
+        fed: round2(item.fedPayable),
+        total: round2(item.total),
+      }))
+      : undefined,
+    totals: {
+      value: sum('valueExcludingST'),
+      st: sum('salesTax'),
+      ft: sum('furtherTax'),
+      et: sum('extraTax'),
+      fed: sum('fedPayable'),
+      total: sum('total'),
+    },
+  });
+}
+
+/**
+ * Render the QR code for an FBR invoice as a PNG data URL
+ *
+ * @param payload The invoice to encode
+ * @param size Image width in pixels
+ */
+export async function generateFbrQrDataUrl(payload: FbrQrPayload, size: number = FBR_QR_SIZE_PX): Promise<string> {
+  const options = { errorCorrectionLevel: 'L' as const, margin: 1, width: size };
+
+  try {
+    return await QRCode.toDataURL(buildFbrQrText(payload), options);
+  } catch {
+    // Too many items for the largest code: keep the header and totals
+    return await QRCode.toDataURL(buildFbrQrText(payload, false), options);
+  }
+}
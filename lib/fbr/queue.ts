@@ -0,0 +1,677 @@
+/**
+ * FBR Submission Queue
+ *
+ * Durable validate → post attempts for FBR Digital Invoicing.
+ *
+ * Every submission is recorded in `fbr_submissions` together with the mapped
+ * FBR payload. When FBR is unreachable (network errors, timeouts, 5xx/429)
+ * the submission stays queued and is retried with exponential backoff by the
+ * worker (`processDueFbrSubmissions`). Invoices that FBR explicitly rejects are
+ * marked `rejected` and are not retried automatically.
+ *
+ * A worker claims an entry by moving it to `validating` and stamping
+ * `claimed_at`. Should the worker die mid-attempt, the claim goes stale after
+ * CLAIM_TIMEOUT_MS and the entry is picked up again like a queued one.
+ * `post_started_at` is stamped right before the invoice is posted and cleared
+ * with the outcome. A reclaimed entry that still carries it may already be
+ * posted, so it is marked `failed` for someone to check FBR instead of being
+ * posted a second time; a manual retry posts it regardless.
+ *
+ * A manual retry of an order submission that FBR never accepted maps the
+ * order again, so corrected order data is sent instead of the stored payload.
+ *
+ * The current state is mirrored on `orders.fbrSubmissionStatus`, or on
+ * `fbr_notes.fbr_submission_status` for debit/credit notes.
+ */
+
+import { db, type DbExecutor } from '@/lib/db';
+import { fbrNotes, fbrSubmissions, orderItems, orders } from '@/lib/schema';
+import { and, asc, eq, inArray, isNull, lte, or } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { validateInvoice, postInvoice } from './client';
+import { mapOrderToFbrInvoice, validateOrderForFbr } from './mapper';
+import { loadFbrReferenceForOrder } from './reference';
+import { getScenarioRules } from './scenarioRules';
+import type { FbrInvoice, FbrPostResponse, FbrReferenceLookup, FbrSubmissionStatus, FbrTokenUsage, FbrValidationResponse, Order, ScenarioRuleSet, SellerInfo } from './types';
+
+// Retry schedule: 1m, 2m, 4m, ... capped at 6h between attempts
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 8;
+
+// Well beyond a validate + post round trip (each capped by FBR_REQUEST_TIMEOUT_MS)
+const CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface FbrAttemptResult {
+  step: 'validation' | 'mapping' | 'validate' | 'post' | 'error';
+  ok: boolean;
+  /** True when the failure was caused by FBR being unavailable (safe to retry later) */
+  retryable: boolean;
+  error?: string;
+  invoiceNumber?: string;
+  fbrInvoice?: FbrInvoice;
+  validation?: FbrValidationResponse;
+  response?: FbrValidationResponse | FbrPostResponse;
+}
+
+/**
+ * Check whether an HTTP status from FBR indicates a temporary outage
+ */
+function isRetryableHttpStatus(status?: number): boolean {
+  if (!status) return false;
+  return status >= 500 || status === 408 || status === 429;
+}
+
+/**
+ * Delay before the next attempt after `attempts` attempts (exponential backoff)
+ */
+export function getFbrRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0)), RETRY_MAX_DELAY_MS);
+}
+
+function getNextAttemptAt(attempts: number): Date {
+  return new Date(Date.now() + getFbrRetryDelayMs(attempts));
+}
+
+/**
+ * Whether a 'validating' entry's claim was abandoned; entries claimed before
+ * claimed_at existed count as abandoned
+ */
+function isStaleClaim(claimedAt: Date | null): boolean {
+  return !claimedAt || claimedAt.getTime() <= Date.now() - CLAIM_TIMEOUT_MS;
+}
+
+/**
+ * Whether a worker may claim a submission: queued ones, abandoned claims, and
+ * rejected or failed ones when an admin forces a retry
+ */
+export function canProcessFbrSubmission(
+  submission: { status: string | null; claimedAt: Date | null },
+  force: boolean = false
+): boolean {
+  return submission.status === 'queued'
+    || (submission.status === 'validating' && isStaleClaim(submission.claimedAt))
+    || (force && (submission.status === 'rejected' || submission.status === 'failed'));
+}
+
+/**
+ * The status a submission moves to after an attempt
+ *
+ * @param postUncertain An earlier attempt started posting and never finished,
+ *   so FBR may already hold the invoice; it fails for an admin to check
+ */
+export function getFbrSubmissionOutcome(
+  result: Pick<FbrAttemptResult, 'ok' | 'retryable'>,
+  attempts: number,
+  maxAttempts: number,
+  postUncertain: boolean = false
+): FbrSubmissionStatus {
+  if (result.ok) return 'posted';
+  if (postUncertain) return 'failed';
+  if (!result.retryable) return 'rejected';
+  return attempts >= maxAttempts ? 'failed' : 'queued';
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Mirror the submission state onto the order (or debit/credit note) it belongs to
+ */
+async function syncSubmissionTarget(
+  target: { tenantId: string; orderId: string; noteId?: string | null },
+  status: FbrSubmissionStatus,
+  result?: FbrAttemptResult
+) {
+  const now = new Date();
+  const validationResponse = result ? JSON.stringify({
+    step: result.step,
+    ok: result.ok,
+    error: result.error,
+    response: result.response,
+    validation: result.validation,
+    fbrInvoice: result.fbrInvoice,
+  }) : undefined;
+
+  if (target.noteId) {
+    const noteUpdate: Record<string, any> = { fbrSubmissionStatus: status, updatedAt: now };
+    if (validationResponse) noteUpdate.validationResponse = validationResponse;
+    if (result?.ok) noteUpdate.fbrInvoiceNumber = result.invoiceNumber;
+
+    await db
+      .update(fbrNotes)
+      .set(noteUpdate)
+      .where(and(eq(fbrNotes.id, target.noteId), eq(fbrNotes.tenantId, target.tenantId)));
+    return;
+  }
+
+  // Orders keep their original response unless the invoice was posted
+  const orderUpdate: Record<string, any> = { fbrSubmissionStatus: status, updatedAt: now };
+  if (result?.ok) {
+    orderUpdate.invoiceNumber = result.invoiceNumber;
+    orderUpdate.validationResponse = validationResponse;
+  }
+
+  await db
+    .update(orders)
+    .set(orderUpdate)
+    .where(and(eq(orders.id, target.orderId), eq(orders.tenantId, target.tenantId)));
+}
+
+/**
+ * Map an order to the FBR invoice format, reporting order data problems as rejections
+ *
+ * @param order The order (or note) to map
+ * @param sellerInfo Optional seller information when the order carries none
+ * @param options.reference FBR reference data to check HS codes, UOMs, provinces and SROs against
+ * @param options.rules Tenant scenario rules (built-in defaults when omitted)
+ */
+export async function prepareFbrInvoice(
+  order: Order,
+  sellerInfo?: SellerInfo,
+  options: { reference?: FbrReferenceLookup; rules?: ScenarioRuleSet } = {}
+): Promise<FbrAttemptResult> {
+  const validation = validateOrderForFbr(order, options.reference, options.rules);
+  if (!validation.isValid) {
+    const error = `Order validation failed: ${validation.errors.join(', ')}`;
+    return {
+      step: 'validation',
+      ok: false,
+      retryable: false,
+      error,
+      response: { validationResponse: { status: 'Invalid', error: validation.errors.join(', ') } },
+    };
+  }
+
+  try {
+    const fbrInvoice = await mapOrderToFbrInvoice(order, sellerInfo, options.rules);
+    return { step: 'mapping', ok: true, retryable: false, fbrInvoice };
+  } catch (mappingError) {
+    return {
+      step: 'mapping',
+      ok: false,
+      retryable: false,
+      error: `Failed to convert order to FBR format: ${errorMessage(mappingError)}`,
+      response: { validationResponse: { status: 'Invalid', error: errorMessage(mappingError) } },
+    };
+  }
+}
+
+/**
+ * Validate an invoice with FBR without posting it
+ *
+ * Validation has no legal effect, so it can run before the order is saved to
+ * turn away invoices FBR would reject.
+ *
+ * @param fbrInvoice The mapped FBR invoice payload
+ * @param tenantId Tenant whose FBR settings (base URL, tokens) should be used
+ * @param isProductionMode Use production endpoints and token
+ */
+export async function checkFbrInvoice(
+  fbrInvoice: FbrInvoice,
+  tenantId: string,
+  isProductionMode: boolean = false
+): Promise<FbrAttemptResult> {
+  let validateResp: FbrValidationResponse;
+  try {
+    validateResp = await validateInvoice(fbrInvoice, tenantId, isProductionMode);
+  } catch (error) {
+    return { step: 'error', ok: false, retryable: true, error: errorMessage(error), fbrInvoice };
+  }
+
+  if (validateResp?.validationResponse?.status !== 'Valid') {
+    const retryable = isRetryableHttpStatus(validateResp?.httpStatus);
+    return {
+      step: 'validate',
+      ok: false,
+      retryable,
+      error: validateResp?.validationResponse?.error || (retryable ? `FBR unavailable (HTTP ${validateResp.httpStatus})` : 'FBR validation failed'),
+      response: validateResp,
+      fbrInvoice,
+    };
+  }
+
+  return { step: 'validate', ok: true, retryable: false, validation: validateResp, response: validateResp, fbrInvoice };
+}
+
+/**
+ * Run a single validate → post attempt against FBR
+ *
+ * @param fbrInvoice The mapped FBR invoice payload
+ * @param tenantId Tenant whose FBR settings (base URL, tokens) should be used
+ * @param isProductionMode Use production endpoints and token
+ * @param usage Order/note being submitted, for the production token audit log
+ * @param beforePost Called once validation passed, right before the invoice is posted
+ */
+export async function attemptFbrSubmission(
+  fbrInvoice: FbrInvoice,
+  tenantId: string,
+  isProductionMode: boolean = false,
+  usage?: FbrTokenUsage,
+  beforePost?: () => Promise<void>
+): Promise<FbrAttemptResult> {
+  // Step 1: Validate invoice with FBR
+  const checked = await checkFbrInvoice(fbrInvoice, tenantId, isProductionMode);
+  if (!checked.ok) {
+    return checked;
+  }
+  const validateResp = checked.validation!;
+
+  // Step 2: Post invoice to FBR
+  await beforePost?.();
+  let postResp: FbrPostResponse;
+  try {
+    postResp = await postInvoice(fbrInvoice, tenantId, isProductionMode, usage);
+  } catch (error) {
+    return { step: 'error', ok: false, retryable: true, error: errorMessage(error), validation: validateResp, fbrInvoice };
+  }
+
+  if (!postResp.success || !postResp.invoiceNumber) {
+    const retryable = isRetryableHttpStatus(postResp.httpStatus);
+    return {
+      step: 'post',
+      ok: false,
+      retryable,
+      error: `FBR post failed: ${postResp.message || postResp.validationResponse?.error || postResp.error || 'Unknown error'}`,
+      response: postResp,
+      validation: validateResp,
+      fbrInvoice,
+    };
+  }
+
+  return {
+    step: 'post',
+    ok: true,
+    retryable: false,
+    invoiceNumber: postResp.invoiceNumber,
+    response: postResp,
+    validation: validateResp,
+    fbrInvoice,
+  };
+}
+
+/**
+ * Map a saved order to an FBR invoice again from its current data
+ */
+async function rebuildOrderInvoice(tenantId: string, orderId: string): Promise<FbrAttemptResult> {
+  const [order] = await db
+    .select()
+    .from(orders)
+    .where(and(eq(orders.id, orderId), eq(orders.tenantId, tenantId)))
+    .limit(1);
+  if (!order) {
+    return { step: 'mapping', ok: false, retryable: false, error: 'Order not found' };
+  }
+
+  const items = await db
+    .select()
+    .from(orderItems)
+    .where(eq(orderItems.orderId, orderId));
+  const amount = (value: string | null) => parseFloat(value || '0');
+
+  const fbrOrder: Order = {
+    id: order.id,
+    orderNumber: order.orderNumber,
+    email: order.email,
+    subtotal: amount(order.subtotal),
+    taxAmount: amount(order.taxAmount),
+    shippingAmount: amount(order.shippingAmount),
+    discountAmount: amount(order.discountAmount),
+    totalAmount: amount(order.totalAmount),
+    currency: order.currency || undefined,
+    invoiceType: order.invoiceType || undefined,
+    invoiceRefNo: order.invoiceRefNo || undefined,
+    scenarioId: order.scenarioId || undefined,
+    invoiceDate: (order.invoiceDate || order.createdAt || new Date()).toISOString().split('T')[0],
+    billingAddress1: order.billingAddress1 || undefined,
+    billingCity: order.billingCity || undefined,
+    billingState: order.billingState || undefined,
+    shippingAddress1: order.shippingAddress1 || undefined,
+    shippingCity: order.shippingCity || undefined,
+    shippingState: order.shippingState || undefined,
+    buyerNTNCNIC: order.buyerNTNCNIC || undefined,
+    buyerBusinessName: order.buyerBusinessName || undefined,
+    buyerProvince: order.buyerProvince || undefined,
+    buyerAddress: order.buyerAddress || undefined,
+    buyerRegistrationType: (order.buyerRegistrationType as Order['buyerRegistrationType']) || 'Unregistered',
+    items: items.map(item => {
+      const weightQuantity = amount(item.weightQuantity);
+      return {
+        id: item.id,
+        productId: item.productId,
+        variantId: item.variantId || undefined,
+        productName: item.productName,
+        productDescription: item.productDescription || undefined,
+        variantTitle: item.variantTitle || undefined,
+        sku: item.sku || undefined,
+        hsCode: item.hsCode || undefined,
+        uom: item.uom || undefined,
+        itemSerialNumber: item.itemSerialNumber || undefined,
+        sroScheduleNumber: item.sroScheduleNumber || undefined,
+        quantity: item.quantity,
+        price: amount(item.price),
+        totalPrice: amount(item.totalPrice),
+        isWeightBased: weightQuantity > 0,
+        weightQuantity: weightQuantity > 0 ? weightQuantity : undefined,
+        weightUnit: item.weightUnit || undefined,
+        taxAmount: amount(item.taxAmount),
+        taxPercentage: amount(item.taxPercentage),
+        priceIncludingTax: amount(item.priceIncludingTax),
+        priceExcludingTax: amount(item.priceExcludingTax),
+        extraTax: amount(item.extraTax),
+        furtherTax: amount(item.furtherTax),
+        fedPayableTax: amount(item.fedPayableTax),
+        discount: amount(item.discount),
+        fixedNotifiedValueOrRetailPrice: amount(item.fixedNotifiedValueOrRetailPrice),
+        saleType: item.saleType || undefined,
+      };
+    }),
+  };
+
+  const reference = await loadFbrReferenceForOrder(fbrOrder);
+  const rules = await getScenarioRules(tenantId, fbrOrder.invoiceDate);
+  return prepareFbrInvoice(fbrOrder, undefined, { reference, rules });
+}
+
+/**
+ * Record a submission that was attempted inline (e.g. during order creation).
+ * Retryable failures are queued for the worker; everything else is stored for audit.
+ *
+ * @returns The queue entry ID
+ */
+export async function recordFbrSubmission(
+  tenantId: string,
+  orderId: string,
+  result: FbrAttemptResult,
+  isProduction: boolean = false,
+  noteId?: string
+): Promise<string> {
+  const id = uuidv4();
+  const now = new Date();
+  const status: FbrSubmissionStatus = result.ok ? 'posted' : result.retryable ? 'queued' : 'rejected';
+
+  await db.insert(fbrSubmissions).values({
+    id,
+    tenantId,
+    orderId,
+    noteId: noteId || null,
+    status,
+    isProduction,
+    payload: result.fbrInvoice || {},
+    attempts: 1,
+    maxAttempts: DEFAULT_MAX_ATTEMPTS,
+    nextAttemptAt: status === 'queued' ? getNextAttemptAt(1) : null,
+    lastAttemptAt: now,
+    lastStep: result.step,
+    lastError: result.error || null,
+    validationResponse: result.validation || (result.step === 'validate' ? result.response : null) || null,
+    postResponse: result.step === 'post' ? result.response : null,
+    invoiceNumber: result.invoiceNumber || null,
+    postedAt: result.ok ? now : null,
+  });
+
+  await syncSubmissionTarget({ tenantId, orderId, noteId }, status, result);
+
+  console.log(`📥 FBR submission ${id} recorded for ${noteId ? `note ${noteId}` : `order ${orderId}`}: ${status}`);
+  return id;
+}
+
+/**
+ * Queue a submission without attempting it
+ *
+ * Meant to run in the transaction that saves the order (or note), which is
+ * saved as 'queued' itself. The entry is due at once: pass it to
+ * processFbrSubmission after the commit to post it now, or leave it to the worker.
+ *
+ * @returns The queue entry ID
+ */
+export async function enqueueFbrSubmission(
+  executor: DbExecutor,
+  tenantId: string,
+  orderId: string,
+  fbrInvoice: FbrInvoice,
+  isProduction: boolean = false,
+  noteId?: string
+): Promise<string> {
+  const id = uuidv4();
+
+  await executor.insert(fbrSubmissions).values({
+    id,
+    tenantId,
+    orderId,
+    noteId: noteId || null,
+    status: 'queued',
+    isProduction,
+    payload: fbrInvoice,
+    attempts: 0,
+    maxAttempts: DEFAULT_MAX_ATTEMPTS,
+    nextAttemptAt: new Date(),
+  });
+
+  console.log(`📥 FBR submission ${id} queued for ${noteId ? `note ${noteId}` : `order ${orderId}`}`);
+  return id;
+}
+
+/**
+ * Process a single queued submission (one validate → post attempt)
+ *
+ * @param submissionId The queue entry ID
+ * @param tenantId Optional tenant guard; when set, entries of other tenants are ignored
+ * @param force Retry even if the entry was rejected/failed or is not due yet
+ * @param userId User the attempt is made for, for the production token audit log
+ */
+export async function processFbrSubmission(
+  submissionId: string,
+  tenantId?: string,
+  force: boolean = false,
+  userId?: string
+): Promise<{ id: string; status: FbrSubmissionStatus; error?: string; invoiceNumber?: string } | null> {
+  const conditions = [eq(fbrSubmissions.id, submissionId)];
+  if (tenantId) {
+    conditions.push(eq(fbrSubmissions.tenantId, tenantId));
+  }
+
+  const [submission] = await db
+    .select()
+    .from(fbrSubmissions)
+    .where(and(...conditions))
+    .limit(1);
+
+  if (!submission) {
+    return null;
+  }
+
+  if (submission.status === 'posted') {
+    return { id: submission.id, status: 'posted', invoiceNumber: submission.invoiceNumber || undefined };
+  }
+
+  if (!canProcessFbrSubmission(submission, force)) {
+    return { id: submission.id, status: submission.status as FbrSubmissionStatus, error: submission.lastError || undefined };
+  }
+
+  if (submission.status === 'validating') {
+    console.warn(`⚠️ Reclaiming FBR submission ${submission.id}, claimed at ${submission.claimedAt?.toISOString() || 'unknown'}`);
+  }
+
+  // Claim the entry so concurrent workers skip it; a stale claim is only taken over once
+  const [claim] = await db
+    .update(fbrSubmissions)
+    .set({ status: 'validating', claimedAt: new Date(), updatedAt: new Date() })
+    .where(and(
+      eq(fbrSubmissions.id, submission.id),
+      eq(fbrSubmissions.status, submission.status),
+      submission.claimedAt ? eq(fbrSubmissions.claimedAt, submission.claimedAt) : isNull(fbrSubmissions.claimedAt)
+    ));
+
+  if (claim.affectedRows === 0) {
+    return { id: submission.id, status: 'validating' };
+  }
+
+  await syncSubmissionTarget(submission, 'validating');
+
+  const attempts = (force ? 0 : submission.attempts || 0) + 1;
+  const maxAttempts = submission.maxAttempts || DEFAULT_MAX_ATTEMPTS;
+  const now = new Date();
+
+  console.log(`🔄 Processing FBR submission ${submission.id} (attempt ${attempts}/${maxAttempts})`);
+
+  // FBR never accepted a payload that failed mapping or validation, so a manual
+  // retry sends the order as it is now
+  let payload = submission.payload as FbrInvoice;
+  const neverAccepted = !payload?.items?.length || ['validation', 'mapping', 'validate'].includes(submission.lastStep || '');
+  let result: FbrAttemptResult | null = null;
+  if (force && !submission.noteId && neverAccepted) {
+    const rebuilt = await rebuildOrderInvoice(submission.tenantId, submission.orderId);
+    if (rebuilt.ok) {
+      payload = rebuilt.fbrInvoice!;
+    } else {
+      result = rebuilt;
+    }
+  }
+
+  if (!result && !payload?.items?.length) {
+    result = { step: 'mapping', ok: false, retryable: false, error: 'No FBR invoice payload is stored for this submission' };
+  }
+  if (!result && submission.postStartedAt && !force) {
+    result = {
+      step: 'post',
+      ok: false,
+      retryable: false,
+      error: `An earlier attempt started posting this invoice at ${submission.postStartedAt.toISOString()} and never finished. Check whether FBR holds the invoice before retrying it`,
+      fbrInvoice: payload,
+    };
+  }
+  if (!result) {
+    result = await attemptFbrSubmission(
+      payload,
+      submission.tenantId,
+      submission.isProduction || false,
+      { orderId: submission.orderId, noteId: submission.noteId, submissionId: submission.id, userId },
+      async () => {
+        await db
+          .update(fbrSubmissions)
+          .set({ postStartedAt: new Date(), payload, updatedAt: new Date() })
+          .where(eq(fbrSubmissions.id, submission.id));
+      }
+    );
+  }
+
+  const postUncertain = !result.ok && !!submission.postStartedAt && !force;
+  const status = getFbrSubmissionOutcome(result, attempts, maxAttempts, postUncertain);
+
+  await db
+    .update(fbrSubmissions)
+    .set({
+      status,
+      attempts,
+      lastAttemptAt: now,
+      nextAttemptAt: status === 'queued' ? getNextAttemptAt(attempts) : null,
+      lastStep: result.step,
+      lastError: result.error || null,
+      claimedAt: null,
+      // Kept while it is unknown whether FBR received the post
+      postStartedAt: postUncertain ? submission.postStartedAt : null,
+      payload,
+      validationResponse: result.validation || (result.step === 'validate' ? result.response : submission.validationResponse) || null,
+      postResponse: result.step === 'post' ? result.response : submission.postResponse,
+      invoiceNumber: result.invoiceNumber || submission.invoiceNumber,
+      postedAt: result.ok ? now : null,
+      updatedAt: now,
+    })
+    .where(eq(fbrSubmissions.id, submission.id));
+
+  await syncSubmissionTarget(submission, status, result);
+
+  if (result.ok) {
+    console.log(`✅ FBR submission ${submission.id} posted: ${result.invoiceNumber}`);
+  } else {
+    console.error(`❌ FBR submission ${submission.id} ${status}:`, result.error);
+  }
+
+  return { id: submission.id, status, error: result.error, invoiceNumber: result.invoiceNumber };
+}
+
+/**
+ * Process all queued submissions that are due for another attempt, and
+ * re-queue those whose worker claim has gone stale
+ *
+ * @param tenantId Optional tenant to restrict processing to
+ * @param limit Maximum number of submissions to process in this run
+ */
+export async function processDueFbrSubmissions(tenantId?: string, limit: number = 20) {
+  const conditions = [
+    or(
+      and(
+        eq(fbrSubmissions.status, 'queued'),
+        or(isNull(fbrSubmissions.nextAttemptAt), lte(fbrSubmissions.nextAttemptAt, new Date()))
+      ),
+      and(
+        eq(fbrSubmissions.status, 'validating'),
+        or(isNull(fbrSubmissions.claimedAt), lte(fbrSubmissions.claimedAt, new Date(Date.now() - CLAIM_TIMEOUT_MS)))
+      )
+    ),
+  ];
+  if (tenantId) {
+    conditions.push(eq(fbrSubmissions.tenantId, tenantId));
+  }
+
+  const due = await db
+    .select({ id: fbrSubmissions.id })
+    .from(fbrSubmissions)
+    .where(and(...conditions))
+    .orderBy(asc(fbrSubmissions.nextAttemptAt))
+    .limit(limit);
+
+  const results = [];
+  for (const entry of due) {
+    try {
+      const result = await processFbrSubmission(entry.id, tenantId);
+      if (result) results.push(result);
+    } catch (error) {
+      console.error(`❌ Error processing FBR submission ${entry.id}:`, error);
+      results.push({ id: entry.id, status: 'queued' as FbrSubmissionStatus, error: errorMessage(error) });
+    }
+  }
+
+  return {
+    processed: results.length,
+    posted: results.filter(r => r.status === 'posted').length,
+    rejected: results.filter(r => r.status === 'rejected').length,
+    failed: results.filter(r => r.status === 'failed').length,
+    requeued: results.filter(r => r.status === 'queued').length,
+    results,
+  };
+}
+
+/**
+ * List submissions that have not been posted to FBR yet
+ */
+export async function getUnsubmittedFbrSubmissions(tenantId: string, statuses: FbrSubmissionStatus[] = ['queued', 'validating', 'rejected', 'failed']) {
+  return db
+    .select({
+      id: fbrSubmissions.id,
+      orderId: fbrSubmissions.orderId,
+      orderNumber: orders.orderNumber,
+      noteId: fbrSubmissions.noteId,
+      noteNumber: fbrNotes.noteNumber,
+      noteType: fbrNotes.noteType,
+      email: orders.email,
+      totalAmount: orders.totalAmount,
+      invoiceDate: orders.invoiceDate,
+      status: fbrSubmissions.status,
+      isProduction: fbrSubmissions.isProduction,
+      attempts: fbrSubmissions.attempts,
+      maxAttempts: fbrSubmissions.maxAttempts,
+      nextAttemptAt: fbrSubmissions.nextAttemptAt,
+      lastAttemptAt: fbrSubmissions.lastAttemptAt,
+      lastStep: fbrSubmissions.lastStep,
+      lastError: fbrSubmissions.lastError,
+      createdAt: fbrSubmissions.createdAt,
+    })
+    .from(fbrSubmissions)
+    .leftJoin(orders, eq(fbrSubmissions.orderId, orders.id))
+    .leftJoin(fbrNotes, eq(fbrSubmissions.noteId, fbrNotes.id))
+    .where(and(eq(fbrSubmissions.tenantId, tenantId), inArray(fbrSubmissions.status, statuses)))
+    .orderBy(asc(fbrSubmissions.createdAt));
+}
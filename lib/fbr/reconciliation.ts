@@ -0,0 +1,441 @@
+/**
+ * FBR Invoice Reconciliation
+ *
+ * Compares local orders against what was actually posted to FBR for a date
+ * range. The posted invoice is taken from the latest posted `fbr_submissions`
+ * payload, falling back to the attempt stored in `orders.validationResponse`
+ * for orders submitted before the queue existed.
+ *
+ * Each order is flagged as:
+ * - missing:   has an invoice number but no posted FBR invoice (or posted without a number)
+ * - duplicate: its invoice number is used by another order, or it was posted more than once
+ * - rejected:  FBR rejected the invoice or the submission gave up
+ * - mismatch:  totals, tax, further tax or extra tax differ from the posted payload
+ */
+
+import { db } from '@/lib/db';
+import { fbrSubmissions, orderItems, orders } from '@/lib/schema';
+import { and, desc, eq, gte, inArray, isNotNull, isNull, lte, or, sql } from 'drizzle-orm';
+import { normalizeHsCodeDigits } from './mapper';
+import type { FbrInvoice, FbrItem } from './types';
+
+// Amounts within one rupee are treated as equal (FBR rounds each line independently)
+const AMOUNT_TOLERANCE = 1;
+
+export type ReconciliationIssueType = 'missing' | 'duplicate' | 'rejected' | 'mismatch';
+export type ReconciliationStatus = ReconciliationIssueType | 'matched' | 'pending';
+
+export interface ReconciliationIssue {
+  type: ReconciliationIssueType;
+  message: string;
+}
+
+export interface ReconciliationItemRow {
+  productName: string;
+  hsCode?: string | null;
+  quantity: number;
+  fbrQuantity?: number;
+  taxAmount: number;
+  fbrSalesTax?: number;
+  furtherTax: number;
+  fbrFurtherTax?: number;
+  extraTax: number;
+  fbrExtraTax?: number;
+  matched: boolean;
+}
+
+export interface ReconciliationRow {
+  orderId: string;
+  orderNumber: string;
+  createdAt: Date | null;
+  invoiceDate: Date | null;
+  invoiceNumber: string | null;
+  fbrInvoiceNumber: string | null;
+  fbrEnvironment: string | null;
+  submissionStatus: string | null;
+  postedAt: Date | null;
+  localTotal: number;
+  fbrTotal: number | null;
+  localTax: number;
+  fbrTax: number | null;
+  localFurtherTax: number;
+  fbrFurtherTax: number | null;
+  localExtraTax: number;
+  fbrExtraTax: number | null;
+  status: ReconciliationStatus;
+  issues: ReconciliationIssue[];
+  items: ReconciliationItemRow[];
+}
+
+export interface ReconciliationSummary {
+  totalOrders: number;
+  matched: number;
+  pending: number;
+  missing: number;
+  duplicate: number;
+  rejected: number;
+  mismatch: number;
+  localTotal: number;
+  fbrTotal: number;
+  localTax: number;
+  fbrTax: number;
+}
+
+export interface ReconciliationFilters {
+  startDate?: string;
+  endDate?: string;
+  environment?: 'sandbox' | 'production';
+}
+
+type OrderRow = typeof orders.$inferSelect;
+type SubmissionRow = typeof fbrSubmissions.$inferSelect;
+
+// Issue precedence when picking the single status shown for an order
+const STATUS_PRIORITY: ReconciliationIssueType[] = ['rejected', 'missing', 'duplicate', 'mismatch'];
+
+function toNumber(value: unknown): number {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? '0'));
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function differs(a: number, b: number): boolean {
+  return Math.abs(a - b) > AMOUNT_TOLERANCE;
+}
+
+function parseJson(value: unknown): any {
+  if (!value) return null;
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Pair each local item with a posted FBR item, preferring the same HS code and
+ * quantity and falling back to the item at the same position
+ */
+function pairItems<T extends { hsCode?: string | null; quantity: unknown }>(localItems: T[], fbrItems: FbrItem[]) {
+  const used = new Set<number>();
+  const pairs = localItems.map((item, index) => {
+    const hsCode = normalizeHsCodeDigits(item.hsCode || '');
+    let match = fbrItems.findIndex((fbrItem, i) =>
+      !used.has(i) &&
+      normalizeHsCodeDigits(fbrItem.hsCode || '') === hsCode &&
+      toNumber(fbrItem.quantity) === toNumber(item.quantity)
+    );
+    if (match === -1 && index < fbrItems.length && !used.has(index)) {
+      match = index;
+    }
+    if (match !== -1) used.add(match);
+    return { item, fbrItem: match === -1 ? undefined : fbrItems[match] };
+  });
+  return { pairs, unmatchedFbrItems: fbrItems.filter((_, i) => !used.has(i)).length };
+}
+
+/**
+ * Locate the invoice that was posted to FBR for an order: the latest posted
+ * queue payload first, then the successful attempt stored on the order
+ *
+ * @param order Order row (uses validationResponse)
+ * @param submissions The order's fbr_submissions rows, newest first
+ */
+export function findPostedFbrInvoice(
+  order: Pick<OrderRow, 'validationResponse'>,
+  submissions: SubmissionRow[]
+): { invoice: FbrInvoice | null; invoiceNumber: string | null; postedAt: Date | null } {
+  const posted = submissions.find(submission => submission.status === 'posted');
+  if (posted) {
+    return {
+      invoice: parseJson(posted.payload) as FbrInvoice,
+      invoiceNumber: posted.invoiceNumber || null,
+      postedAt: posted.postedAt || null,
+    };
+  }
+
+  const storedAttempt = parseJson(order.validationResponse);
+  if (storedAttempt?.ok && storedAttempt.step === 'post') {
+    return {
+      invoice: storedAttempt.fbrInvoice || null,
+      invoiceNumber: storedAttempt.invoiceNumber || storedAttempt.response?.invoiceNumber || null,
+      postedAt: null,
+    };
+  }
+
+  return { invoice: null, invoiceNumber: null, postedAt: null };
+}
+
+/**
+ * Build the reconciliation report for a tenant
+ *
+ * @param tenantId Tenant ID
+ * @param filters Date range (on order creation date) and FBR environment
+ */
+export async function getFbrReconciliationReport(
+  tenantId: string,
+  filters: ReconciliationFilters = {}
+): Promise<{ summary: ReconciliationSummary; rows: ReconciliationRow[] }> {
+  const conditions = [
+    eq(orders.tenantId, tenantId),
+    or(isNotNull(orders.invoiceNumber), isNotNull(orders.fbrSubmissionStatus)),
+  ];
+
+  if (filters.startDate) {
+    conditions.push(gte(orders.createdAt, new Date(filters.startDate)));
+  }
+  if (filters.endDate) {
+    const endDateTime = new Date(filters.endDate);
+    endDateTime.setDate(endDateTime.getDate() + 1);
+    conditions.push(lte(orders.createdAt, endDateTime));
+  }
+  if (filters.environment) {
+    conditions.push(eq(orders.fbrEnvironment, filters.environment));
+  }
+
+  const orderRows = await db
+    .select()
+    .from(orders)
+    .where(and(...conditions))
+    .orderBy(desc(orders.createdAt));
+
+  if (orderRows.length === 0) {
+    return { summary: summarize([]), rows: [] };
+  }
+
+  const orderIds = orderRows.map(order => order.id);
+
+  const [itemRows, submissionRows] = await Promise.all([
+    db.select().from(orderItems).where(inArray(orderItems.orderId, orderIds)),
+    db
+      .select()
+      .from(fbrSubmissions)
+      .where(and(
+        eq(fbrSubmissions.tenantId, tenantId),
+        inArray(fbrSubmissions.orderId, orderIds),
+        isNull(fbrSubmissions.noteId)
+      ))
+      .orderBy(desc(fbrSubmissions.createdAt)),
+  ]);
+
+  // Invoice numbers used by more than one order anywhere in the tenant
+  const invoiceNumbers = Array.from(new Set(orderRows.map(order => order.invoiceNumber).filter(Boolean))) as string[];
+  const duplicateInvoiceNumbers = new Set<string>();
+  if (invoiceNumbers.length > 0) {
+    const duplicates = await db
+      .select({ invoiceNumber: orders.invoiceNumber, count: sql<number>`COUNT(*)` })
+      .from(orders)
+      .where(and(eq(orders.tenantId, tenantId), inArray(orders.invoiceNumber, invoiceNumbers)))
+      .groupBy(orders.invoiceNumber)
+      .having(sql`COUNT(*) > 1`);
+    duplicates.forEach(row => row.invoiceNumber && duplicateInvoiceNumbers.add(row.invoiceNumber));
+  }
+
+  const itemsByOrder = new Map<string, typeof itemRows>();
+  for (const item of itemRows) {
+    const list = itemsByOrder.get(item.orderId) || [];
+    list.push(item);
+    itemsByOrder.set(item.orderId, list);
+  }
+
+  const submissionsByOrder = new Map<string, typeof submissionRows>();
+  for (const submission of submissionRows) {
+    const list = submissionsByOrder.get(submission.orderId) || [];
+    list.push(submission);
+    submissionsByOrder.set(submission.orderId, list);
+  }
+
+  const rows = orderRows.map((order): ReconciliationRow => {
+    const issues: ReconciliationIssue[] = [];
+    const localItems = itemsByOrder.get(order.id) || [];
+    const submissions = submissionsByOrder.get(order.id) || [];
+    const postedSubmissions = submissions.filter(submission => submission.status === 'posted');
+    const latestSubmission = submissions[0];
+
+    const storedAttempt = parseJson(order.validationResponse);
+    const { invoice: postedInvoice, invoiceNumber: fbrInvoiceNumber, postedAt } = findPostedFbrInvoice(order, submissions);
+
+    const submissionStatus = order.fbrSubmissionStatus || latestSubmission?.status || null;
+    const isPosted = !!postedInvoice || submissionStatus === 'posted';
+
+    if (submissionStatus === 'rejected' || submissionStatus === 'failed') {
+      const reason = latestSubmission?.lastError
+        || storedAttempt?.error
+        || storedAttempt?.response?.validationResponse?.error;
+      issues.push({ type: 'rejected', message: `FBR submission ${submissionStatus}${reason ? `: ${reason}` : ''}` });
+    }
+
+    if (order.invoiceNumber && !isPosted && submissionStatus !== 'queued' && submissionStatus !== 'validating') {
+      issues.push({ type: 'missing', message: 'Invoice number recorded but no posted FBR invoice was found' });
+    }
+    if (isPosted && !order.invoiceNumber) {
+      issues.push({ type: 'missing', message: 'Posted to FBR but the order has no invoice number' });
+    }
+    if (isPosted && !postedInvoice) {
+      issues.push({ type: 'missing', message: 'Posted to FBR but the posted payload was not stored' });
+    }
+
+    if (order.invoiceNumber && duplicateInvoiceNumbers.has(order.invoiceNumber)) {
+      issues.push({ type: 'duplicate', message: `Invoice number ${order.invoiceNumber} is used by more than one order` });
+    }
+    if (postedSubmissions.length > 1) {
+      issues.push({ type: 'duplicate', message: `Posted to FBR ${postedSubmissions.length} times` });
+    }
+
+    if (fbrInvoiceNumber && order.invoiceNumber && fbrInvoiceNumber !== order.invoiceNumber) {
+      issues.push({ type: 'mismatch', message: `Order invoice number ${order.invoiceNumber} differs from FBR invoice number ${fbrInvoiceNumber}` });
+    }
+
+    // Shipping is not invoiced to FBR, so it is left out of the local total
+    const localTotal = round2(toNumber(order.totalAmount) - toNumber(order.shippingAmount));
+    const localTax = round2(toNumber(order.taxAmount));
+    const localFurtherTax = round2(localItems.reduce((sum, item) => sum + toNumber(item.furtherTax), 0));
+    const localExtraTax = round2(localItems.reduce((sum, item) => sum + toNumber(item.extraTax), 0));
+
+    let fbrTotal: number | null = null;
+    let fbrTax: number | null = null;
+    let fbrFurtherTax: number | null = null;
+    let fbrExtraTax: number | null = null;
+    let items: ReconciliationItemRow[];
+
+    if (postedInvoice) {
+      const fbrItems = postedInvoice.items || [];
+      fbrTotal = round2(fbrItems.reduce((sum, item) => sum + toNumber(item.totalValues), 0));
+      fbrTax = round2(fbrItems.reduce((sum, item) => sum + toNumber(item.salesTaxApplicable), 0));
+      fbrFurtherTax = round2(fbrItems.reduce((sum, item) => sum + toNumber(item.furtherTax), 0));
+      fbrExtraTax = round2(fbrItems.reduce((sum, item) => sum + toNumber(item.extraTax), 0));
+
+      if (differs(localTotal, fbrTotal)) {
+        issues.push({ type: 'mismatch', message: `Total ${localTotal.toFixed(2)} vs FBR ${fbrTotal.toFixed(2)}` });
+      }
+      if (differs(localTax, fbrTax)) {
+        issues.push({ type: 'mismatch', message: `Sales tax ${localTax.toFixed(2)} vs FBR ${fbrTax.toFixed(2)}` });
+      }
+
+      const { pairs, unmatchedFbrItems } = pairItems(localItems, fbrItems);
+      if (unmatchedFbrItems > 0 || pairs.some(pair => !pair.fbrItem)) {
+        issues.push({ type: 'mismatch', message: `Order has ${localItems.length} item(s), FBR invoice has ${fbrItems.length}` });
+      }
+
+      items = pairs.map(({ item, fbrItem }) => {
+        const row: ReconciliationItemRow = {
+          productName: item.productName,
+          hsCode: item.hsCode,
+          quantity: toNumber(item.quantity),
+          taxAmount: round2(toNumber(item.taxAmount)),
+          furtherTax: round2(toNumber(item.furtherTax)),
+          extraTax: round2(toNumber(item.extraTax)),
+          matched: !!fbrItem,
+        };
+        if (fbrItem) {
+          row.fbrQuantity = toNumber(fbrItem.quantity);
+          row.fbrSalesTax = round2(toNumber(fbrItem.salesTaxApplicable));
+          row.fbrFurtherTax = round2(toNumber(fbrItem.furtherTax));
+          row.fbrExtraTax = round2(toNumber(fbrItem.extraTax));
+
+          const differences = [
+            row.quantity !== row.fbrQuantity ? 'quantity' : null,
+            differs(row.taxAmount, row.fbrSalesTax) ? 'tax' : null,
+            differs(row.furtherTax, row.fbrFurtherTax) ? 'further tax' : null,
+            differs(row.extraTax, row.fbrExtraTax) ? 'extra tax' : null,
+          ].filter(Boolean);
+
+          if (differences.length > 0) {
+            row.matched = false;
+            issues.push({ type: 'mismatch', message: `${item.productName}: ${differences.join(', ')} differ from FBR` });
+          }
+        }
+        return row;
+      });
+    } else {
+      items = localItems.map(item => ({
+        productName: item.productName,
+        hsCode: item.hsCode,
+        quantity: toNumber(item.quantity),
+        taxAmount: round2(toNumber(item.taxAmount)),
+        furtherTax: round2(toNumber(item.furtherTax)),
+        extraTax: round2(toNumber(item.extraTax)),
+        matched: false,
+      }));
+    }
+
+    const primaryIssue = STATUS_PRIORITY.find(type => issues.some(issue => issue.type === type));
+    const status: ReconciliationStatus = primaryIssue
+      || (submissionStatus === 'queued' || submissionStatus === 'validating' ? 'pending' : 'matched');
+
+    return {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      createdAt: order.createdAt,
+      invoiceDate: order.invoiceDate,
+      invoiceNumber: order.invoiceNumber,
+      fbrInvoiceNumber,
+      fbrEnvironment: order.fbrEnvironment,
+      submissionStatus,
+      postedAt,
+      localTotal,
+      fbrTotal,
+      localTax,
+      fbrTax,
+      localFurtherTax,
+      fbrFurtherTax,
+      localExtraTax,
+      fbrExtraTax,
+      status,
+      issues,
+      items,
+    };
+  });
+
+  return { summary: summarize(rows), rows };
+}
+
+function summarize(rows: ReconciliationRow[]): ReconciliationSummary {
+  const countWith = (type: ReconciliationIssueType) => rows.filter(row => row.issues.some(issue => issue.type === type)).length;
+
+  return {
+    totalOrders: rows.length,
+    matched: rows.filter(row => row.status === 'matched').length,
+    pending: rows.filter(row => row.status === 'pending').length,
+    missing: countWith('missing'),
+    duplicate: countWith('duplicate'),
+    rejected: countWith('rejected'),
+    mismatch: countWith('mismatch'),
+    localTotal: round2(rows.reduce((sum, row) => sum + row.localTotal, 0)),
+    fbrTotal: round2(rows.reduce((sum, row) => sum + (row.fbrTotal || 0), 0)),
+    localTax: round2(rows.reduce((sum, row) => sum + row.localTax, 0)),
+    fbrTax: round2(rows.reduce((sum, row) => sum + (row.fbrTax || 0), 0)),
+  };
+}
+
+/**
+ * Flatten report rows into export records keyed by column heading
+ */
+export function getReconciliationExportRows(rows: ReconciliationRow[]): Array<Record<string, string | number>> {
+  const formatDate = (date: Date | null) => date ? new Date(date).toISOString().split('T')[0] : '';
+  const formatAmount = (value: number | null) => value === null ? '' : value.toFixed(2);
+
+  return rows.map(row => ({
+    'Order Number': row.orderNumber,
+    'Order Date': formatDate(row.createdAt),
+    'Invoice Date': formatDate(row.invoiceDate),
+    'Invoice Number': row.invoiceNumber || '',
+    'FBR Invoice Number': row.fbrInvoiceNumber || '',
+    'Environment': row.fbrEnvironment || '',
+    'Submission Status': row.submissionStatus || '',
+    'Reconciliation Status': row.status,
+    'Local Total': formatAmount(row.localTotal),
+    'FBR Total': formatAmount(row.fbrTotal),
+    'Local Sales Tax': formatAmount(row.localTax),
+    'FBR Sales Tax': formatAmount(row.fbrTax),
+    'Local Further Tax': formatAmount(row.localFurtherTax),
+    'FBR Further Tax': formatAmount(row.fbrFurtherTax),
+    'Local Extra Tax': formatAmount(row.localExtraTax),
+    'FBR Extra Tax': formatAmount(row.fbrExtraTax),
+    'Issues': row.issues.map(issue => issue.message).join('; '),
+  }));
+}
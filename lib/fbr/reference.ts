@@ -0,0 +1,406 @@
+/**
+ * FBR Reference Data
+ *
+ * Imports FBR's reference lists (HS codes, UOMs, HS code → UOM mapping,
+ * provinces, sale type → rate tables and SRO schedules/items) into the
+ * `fbr_reference_data` cache, and serves searches against it.
+ *
+ * Lists that depend on a parent value (UOMs for an HS code, items of an SRO)
+ * are fetched from FBR the first time a search asks for them and cached. The
+ * full sync also downloads the UOMs of every HS code used on a product, as
+ * order checks (loadFbrReferenceForOrder) read the cache only and never call FBR.
+ *
+ * The data is published by FBR and shared by all tenants, so it is only ever
+ * downloaded from FBR's official gateway (FBR_REFERENCE_BASE_URL overrides it
+ * for testing) with the platform's own token, never
+ * through a tenant's settings. A full sync is started by a super admin or the
+ * scheduled job, and each list is swapped in one transaction so readers never
+ * see it half-replaced.
+ */
+
+import { db, type DbExecutor } from '@/lib/db';
+import { fbrReferenceData, products } from '@/lib/schema';
+import { and, asc, eq, inArray, isNotNull, isNull, like, ne, or, sql, type SQL } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { normalizeHsCodeDigits } from './mapper';
+import type { FbrReferenceLookup, FbrReferenceOption, FbrReferenceType, Order } from './types';
+
+const INSERT_CHUNK_SIZE = 500;
+
+const OFFICIAL_REFERENCE_BASE_URL = 'https://gw.fbr.gov.pk';
+
+// Lists imported by a full sync (hs_uom for the HS codes on products); sro_item is filled on demand
+const SYNCED_TYPES: FbrReferenceType[] = ['hs_code', 'uom', 'hs_uom', 'province', 'sale_type_rate', 'sro_schedule'];
+
+interface ReferenceRow {
+  code: string;
+  description: string;
+  parentCode?: string | null;
+  data: any;
+}
+
+export interface SyncFbrReferenceResult {
+  success: boolean;
+  counts: Partial<Record<FbrReferenceType, number>>;
+  errors: string[];
+}
+
+/**
+ * FBR's reference endpoints take dates as DD-Mon-YYYY
+ */
+function toFbrDate(date: string): string {
+  const parsed = new Date(date);
+  if (isNaN(parsed.getTime())) return date;
+  const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+  return `${String(parsed.getUTCDate()).padStart(2, '0')}-${months[parsed.getUTCMonth()]}-${parsed.getUTCFullYear()}`;
+}
+
+function getReferenceConnection(): { baseUrl: string; token: string } | null {
+  const baseUrl = process.env.FBR_REFERENCE_BASE_URL || OFFICIAL_REFERENCE_BASE_URL;
+  const token = process.env.FBR_REFERENCE_TOKEN || process.env.FBR_SANDBOX_TOKEN || '';
+  if (!token) return null;
+
+  return { baseUrl: baseUrl.replace(/\/$/, ''), token };
+}
+
+async function fetchReference(path: string, connection: { baseUrl: string; token: string }): Promise<any[]> {
+  const response = await fetch(`${connection.baseUrl}${path}`, {
+    headers: { 'Authorization': `Bearer ${connection.token}` },
+    signal: AbortSignal.timeout(Number(process.env.FBR_REQUEST_TIMEOUT_MS) || 30000),
+  });
+
+  if (!response.ok) {
+    throw new Error(`FBR ${path} returned HTTP ${response.status}`);
+  }
+
+  const result = await response.json();
+  return Array.isArray(result) ? result : [];
+}
+
+/**
+ * Replace cached rows for a type (and parent/date, for dependent lists)
+ *
+ * Run it inside a transaction so the old rows stay visible until the new ones are in.
+ */
+async function replaceReferenceRows(
+  tx: DbExecutor,
+  type: FbrReferenceType,
+  rows: ReferenceRow[],
+  scope: { parentCode?: string; effectiveDate?: string } = {}
+) {
+  const conditions: SQL[] = [eq(fbrReferenceData.type, type)];
+  if (scope.parentCode !== undefined) conditions.push(eq(fbrReferenceData.parentCode, scope.parentCode));
+  if (scope.effectiveDate !== undefined) conditions.push(eq(fbrReferenceData.effectiveDate, scope.effectiveDate));
+
+  await tx.delete(fbrReferenceData).where(and(...conditions));
+
+  const now = new Date();
+  const values = rows
+    .filter(row => row.code)
+    .map(row => ({
+      id: uuidv4(),
+      type,
+      code: String(row.code).substring(0, 100),
+      description: row.description,
+      parentCode: row.parentCode ?? scope.parentCode ?? null,
+      effectiveDate: scope.effectiveDate ?? null,
+      data: row.data,
+      syncedAt: now,
+    }));
+
+  for (let i = 0; i < values.length; i += INSERT_CHUNK_SIZE) {
+    await tx.insert(fbrReferenceData).values(values.slice(i, i + INSERT_CHUNK_SIZE));
+  }
+
+  return values.length;
+}
+
+/**
+ * Download a list, then swap it into the cache in one transaction
+ */
+function swapReferenceRows(
+  type: FbrReferenceType,
+  rows: ReferenceRow[],
+  scope: { parentCode?: string; effectiveDate?: string } = {}
+): Promise<number> {
+  return db.transaction(tx => replaceReferenceRows(tx, type, rows, scope));
+}
+
+/**
+ * Import FBR reference lists into the cache
+ *
+ * Only for super admins and the scheduled job: the lists are shared by every tenant.
+ *
+ * @param options.types Lists to import (defaults to all bulk lists)
+ * @param options.date Date for the rate and SRO schedule tables (defaults to today)
+ */
+export async function syncFbrReferenceData(
+  options: { types?: FbrReferenceType[]; date?: string } = {}
+): Promise<SyncFbrReferenceResult> {
+  const connection = getReferenceConnection();
+  if (!connection) {
+    return { success: false, counts: {}, errors: ['FBR_REFERENCE_TOKEN is not configured'] };
+  }
+
+  const types = (options.types || SYNCED_TYPES).filter(type => SYNCED_TYPES.includes(type));
+  const date = options.date || new Date().toISOString().split('T')[0];
+  const fbrDate = toFbrDate(date);
+  const counts: SyncFbrReferenceResult['counts'] = {};
+  const errors: string[] = [];
+
+  console.log(`📚 Syncing FBR reference data (${types.join(', ')}) for ${date}`);
+
+  const sync = async (type: FbrReferenceType, load: () => Promise<number>) => {
+    if (!types.includes(type)) return;
+    try {
+      counts[type] = await load();
+      console.log(`✅ FBR ${type}: ${counts[type]} records`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ FBR ${type} sync failed:`, message);
+      errors.push(`${type}: ${message}`);
+    }
+  };
+
+  await sync('hs_code', async () => {
+    const records = await fetchReference('/pdi/v1/itemdesccode', connection);
+    return swapReferenceRows('hs_code', records.map(r => ({ code: r.hS_CODE, description: r.description, data: r })));
+  });
+
+  await sync('uom', async () => {
+    const records = await fetchReference('/pdi/v1/uom', connection);
+    return swapReferenceRows('uom', records.map(r => ({ code: String(r.uoM_ID), description: r.description, data: r })));
+  });
+
+  await sync('province', async () => {
+    const records = await fetchReference('/pdi/v1/provinces', connection);
+    return swapReferenceRows('province', records.map(r => ({
+      code: String(r.stateProvinceCode),
+      description: r.stateProvinceDesc,
+      data: r,
+    })));
+  });
+
+  // Rates drive the SRO schedule download, so keep them even when only schedules were requested
+  let rates: Promise<any[]> | null = null;
+  const loadRates = () => {
+    rates = rates || fetchReference(`/pdi/v2/SaleTypeToRate?date=${fbrDate}&transTypeId=18&originationSupplier=1`, connection);
+    return rates;
+  };
+
+  await sync('sale_type_rate', async () => swapReferenceRows(
+    'sale_type_rate',
+    (await loadRates()).map(r => ({ code: String(r.ratE_ID), description: r.ratE_DESC, data: r })),
+    { effectiveDate: date }
+  ));
+
+  await sync('sro_schedule', async () => {
+    // Download every rate's schedules before replacing any of them
+    const downloads: Array<{ rateId: string; schedules: any[] }> = [];
+    for (const rate of await loadRates()) {
+      downloads.push({
+        rateId: String(rate.ratE_ID),
+        schedules: await fetchReference(
+          `/pdi/v1/SroSchedule?rate_id=${rate.ratE_ID}&date=${fbrDate}&origination_supplier_csv=1`,
+          connection
+        ),
+      });
+    }
+
+    return db.transaction(async (tx) => {
+      let total = 0;
+      for (const { rateId, schedules } of downloads) {
+        total += await replaceReferenceRows(
+          tx,
+          'sro_schedule',
+          schedules.map(s => ({ code: String(s.srO_ID), description: s.srO_DESC, data: s })),
+          { parentCode: rateId, effectiveDate: date }
+        );
+      }
+      return total;
+    });
+  });
+
+  await sync('hs_uom', async () => {
+    const hsCodes = await db
+      .selectDistinct({ hsCode: products.hsCode })
+      .from(products)
+      .where(and(isNotNull(products.hsCode), ne(products.hsCode, '')));
+
+    let total = 0;
+    for (const { hsCode } of hsCodes) {
+      const parentCode = hsCode!.trim();
+      total += await swapReferenceRows('hs_uom', await fetchHsUoms(parentCode, connection), { parentCode });
+    }
+    return total;
+  });
+
+  return { success: errors.length === 0, counts, errors };
+}
+
+async function fetchHsUoms(hsCode: string, connection: { baseUrl: string; token: string }): Promise<ReferenceRow[]> {
+  const records = await fetchReference(`/pdi/v2/HS_UOM?hs_code=${encodeURIComponent(hsCode)}&annexure_id=3`, connection);
+  return records.map(r => ({ code: String(r.uoM_ID), description: r.description, data: r }));
+}
+
+/**
+ * Fetch and cache a parent-dependent list (UOMs of an HS code, items of an SRO)
+ */
+async function loadDependentList(
+  type: 'hs_uom' | 'sro_item',
+  parentCode: string,
+  date?: string
+): Promise<number> {
+  const connection = getReferenceConnection();
+  if (!connection) return 0;
+
+  try {
+    if (type === 'hs_uom') {
+      return await swapReferenceRows('hs_uom', await fetchHsUoms(parentCode, connection), { parentCode });
+    }
+
+    const effectiveDate = date || new Date().toISOString().split('T')[0];
+    const records = await fetchReference(`/pdi/v2/SROItem?date=${effectiveDate}&sro_id=${encodeURIComponent(parentCode)}`, connection);
+    return await swapReferenceRows(
+      'sro_item',
+      records.map(r => ({ code: String(r.srO_ITEM_ID), description: r.srO_ITEM_DESC, data: r })),
+      { parentCode, effectiveDate }
+    );
+  } catch (error) {
+    console.warn(`⚠️  Could not load FBR ${type} for ${parentCode}:`, error);
+    return 0;
+  }
+}
+
+/**
+ * Search cached reference data
+ *
+ * @param type Reference list to search
+ * @param options.q Matches the start of the code or anywhere in the description
+ * @param options.parentCode HS code for hs_uom, rate id for sro_schedule, SRO id for sro_item
+ * @param options.date Effective date for date-dependent lists (latest cached when omitted)
+ */
+export async function searchFbrReference(
+  type: FbrReferenceType,
+  options: { q?: string; parentCode?: string; date?: string; limit?: number } = {}
+): Promise<FbrReferenceOption[]> {
+  const limit = Math.min(Math.max(options.limit || 20, 1), 100);
+  const parentCode = type === 'hs_uom' && options.parentCode ? options.parentCode.trim() : options.parentCode;
+
+  const conditions: SQL[] = [eq(fbrReferenceData.type, type)];
+  if (parentCode) conditions.push(eq(fbrReferenceData.parentCode, parentCode));
+  if (options.date) {
+    conditions.push(or(eq(fbrReferenceData.effectiveDate, options.date), isNull(fbrReferenceData.effectiveDate))!);
+  }
+  if (options.q) {
+    conditions.push(or(
+      like(fbrReferenceData.code, `${options.q}%`),
+      like(fbrReferenceData.description, `%${options.q}%`)
+    )!);
+  }
+
+  const query = () => db
+    .select({
+      code: fbrReferenceData.code,
+      description: fbrReferenceData.description,
+      parentCode: fbrReferenceData.parentCode,
+      effectiveDate: fbrReferenceData.effectiveDate,
+    })
+    .from(fbrReferenceData)
+    .where(and(...conditions))
+    .orderBy(asc(fbrReferenceData.code))
+    .limit(limit);
+
+  let rows = await query();
+
+  // Dependent lists are downloaded on first use
+  if (rows.length === 0 && parentCode && (type === 'hs_uom' || type === 'sro_item')) {
+    const loaded = await loadDependentList(type, parentCode, options.date);
+    if (loaded > 0) rows = await query();
+  }
+
+  return rows.map(row => ({ ...row, description: row.description || '' }));
+}
+
+/**
+ * Count cached records per type (used to show sync status)
+ */
+export async function getFbrReferenceStatus() {
+  const rows = await db
+    .select({
+      type: fbrReferenceData.type,
+      count: sql<number>`count(*)`,
+      lastSyncedAt: sql<string>`max(${fbrReferenceData.syncedAt})`,
+    })
+    .from(fbrReferenceData)
+    .groupBy(fbrReferenceData.type);
+
+  return rows.map(row => ({ ...row, count: Number(row.count) }));
+}
+
+/**
+ * Load the reference data needed to check an order with validateOrderForFbr
+ *
+ * Reads the cache only, so saving an order never waits on FBR. Lists that have
+ * never been synced are left undefined so the checks are skipped rather than
+ * rejecting every order.
+ */
+export async function loadFbrReferenceForOrder(order: Order): Promise<FbrReferenceLookup> {
+  const lookup: FbrReferenceLookup = {};
+
+  try {
+    const status = await getFbrReferenceStatus();
+    const synced = new Set(status.filter(s => s.count > 0).map(s => s.type));
+
+    const hsCodes = Array.from(new Set(
+      (order.items || []).map(item => item.hsCode).filter((code): code is string => !!code)
+    ));
+
+    if (synced.has('hs_code') && hsCodes.length > 0) {
+      const candidates = hsCodes.flatMap(code => {
+        const digits = normalizeHsCodeDigits(code);
+        return [code, digits, digits.length >= 8 ? `${digits.slice(0, 4)}.${digits.slice(4, 8)}` : digits];
+      });
+      const known = await db
+        .select({ code: fbrReferenceData.code })
+        .from(fbrReferenceData)
+        .where(and(eq(fbrReferenceData.type, 'hs_code'), inArray(fbrReferenceData.code, Array.from(new Set(candidates)))));
+      lookup.hsCodes = known.map(row => normalizeHsCodeDigits(row.code));
+    }
+
+    // UOMs are checked per HS code; codes without a cached mapping are not checked
+    if (hsCodes.length > 0) {
+      const uoms = await db
+        .select({ parentCode: fbrReferenceData.parentCode, description: fbrReferenceData.description })
+        .from(fbrReferenceData)
+        .where(and(eq(fbrReferenceData.type, 'hs_uom'), inArray(fbrReferenceData.parentCode, hsCodes.map(code => code.trim()))));
+
+      lookup.hsUoms = {};
+      for (const uom of uoms) {
+        const key = normalizeHsCodeDigits(uom.parentCode || '');
+        (lookup.hsUoms[key] ||= []).push(uom.description || '');
+      }
+    }
+
+    if (synced.has('province')) {
+      const provinces = await db
+        .select({ description: fbrReferenceData.description })
+        .from(fbrReferenceData)
+        .where(eq(fbrReferenceData.type, 'province'));
+      lookup.provinces = provinces.map(p => p.description || '');
+    }
+
+    if (synced.has('sro_schedule') && (order.items || []).some(item => item.sroScheduleNumber)) {
+      const schedules = await db
+        .selectDistinct({ description: fbrReferenceData.description })
+        .from(fbrReferenceData)
+        .where(eq(fbrReferenceData.type, 'sro_schedule'));
+      lookup.sroSchedules = schedules.map(s => s.description || '');
+    }
+  } catch (error) {
+    // Reference data is advisory; never block submission because the cache is unavailable
+    console.warn('⚠️  Could not load FBR reference data:', error);
+  }
+
+  return lookup;
+}
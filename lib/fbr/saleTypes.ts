@@ -3,9 +3,14 @@
  * 
  * Provides a robust scenario → saleType map using canonical strings
  * that have been tested to work with FBR's sandbox environment.
+ *
+ * These constants are the built-in defaults. Tenants (and the platform-wide
+ * global defaults) can override them with versioned rules stored in
+ * `fbr_scenario_rules`; see scenarioRules.ts. Every helper accepts the
+ * resolved rule set and falls back to the constants when it is omitted.
  */
 
-import type { ScenarioId } from './types';
+import type { ScenarioId, ScenarioRule, ScenarioRuleSet } from './types';
 
 // Local mapping of scenario IDs to their canonical saleType labels
 // These strings have been tested and verified to work with FBR's API
@@ -97,73 +102,81 @@ export const scenarioRequirements = {
 /**
  * Get the canonical saleType for a given scenario
  * @param scenarioId The FBR scenario ID
+ * @param rules Optional tenant rules (see getScenarioRules); built-in constants otherwise
  * @returns The canonical saleType string
  */
-export function getSaleTypeForScenario(scenarioId: ScenarioId): string {
-  return localSaleTypeByScenario[scenarioId] || localSaleTypeByScenario.SN001;
+export function getSaleTypeForScenario(scenarioId: ScenarioId, rules?: ScenarioRuleSet): string {
+  return rules?.[scenarioId]?.saleType || localSaleTypeByScenario[scenarioId] || localSaleTypeByScenario.SN001;
 }
 
 /**
  * Get the default rate for a given scenario
  * @param scenarioId The FBR scenario ID
+ * @param rules Optional tenant rules (see getScenarioRules); built-in constants otherwise
  * @returns The default rate string (e.g., "18%", "Exempt", "0%")
  */
-export function getDefaultRateForScenario(scenarioId: ScenarioId): string {
-  return defaultRateByScenario[scenarioId] || "18%";
+export function getDefaultRateForScenario(scenarioId: ScenarioId, rules?: ScenarioRuleSet): string {
+  return rules?.[scenarioId]?.defaultRate || defaultRateByScenario[scenarioId] || "18%";
 }
 
 /**
  * Check if a scenario requires withholding tax
  * @param scenarioId The FBR scenario ID
+ * @param rules Optional tenant rules (see getScenarioRules); built-in constants otherwise
  * @returns True if withholding tax is required
  */
-export function requiresWithholdingTax(scenarioId: ScenarioId): boolean {
-  return scenarioRequirements.witholdingTaxRequired.includes(scenarioId);
+export function requiresWithholdingTax(scenarioId: ScenarioId, rules?: ScenarioRuleSet): boolean {
+  return rules?.[scenarioId]?.requiresWithholdingTax ?? scenarioRequirements.witholdingTaxRequired.includes(scenarioId);
 }
 
 /**
  * Check if a scenario is exempt or zero-rated
  * @param scenarioId The FBR scenario ID
+ * @param rules Optional tenant rules (see getScenarioRules); built-in constants otherwise
  * @returns True if exempt or zero-rated
  */
-export function isExemptOrZeroRated(scenarioId: ScenarioId): boolean {
-  return scenarioRequirements.exemptOrZeroRated.includes(scenarioId);
+export function isExemptOrZeroRated(scenarioId: ScenarioId, rules?: ScenarioRuleSet): boolean {
+  return rules?.[scenarioId]?.exemptOrZeroRated ?? scenarioRequirements.exemptOrZeroRated.includes(scenarioId);
 }
 
 /**
  * Check if a scenario supports 3rd Schedule
  * @param scenarioId The FBR scenario ID
+ * @param rules Optional tenant rules (see getScenarioRules); built-in constants otherwise
  * @returns True if 3rd Schedule is supported
  */
-export function supportsThirdSchedule(scenarioId: ScenarioId): boolean {
-  return scenarioRequirements.thirdSchedule.includes(scenarioId);
+export function supportsThirdSchedule(scenarioId: ScenarioId, rules?: ScenarioRuleSet): boolean {
+  return rules?.[scenarioId]?.requiresRetailPrice ?? scenarioRequirements.thirdSchedule.includes(scenarioId);
 }
 
 /**
  * Check if a scenario requires FED payable
  * @param scenarioId The FBR scenario ID
+ * @param rules Optional tenant rules (see getScenarioRules); built-in constants otherwise
  * @returns True if FED payable is required
  */
-export function requiresFedPayable(scenarioId: ScenarioId): boolean {
-  return scenarioRequirements.fedInStMode.includes(scenarioId);
+export function requiresFedPayable(scenarioId: ScenarioId, rules?: ScenarioRuleSet): boolean {
+  return rules?.[scenarioId]?.requiresFedPayable ?? scenarioRequirements.fedInStMode.includes(scenarioId);
 }
 
 /**
  * Check if a scenario is a retail scenario
  * @param scenarioId The FBR scenario ID
+ * @param rules Optional tenant rules (see getScenarioRules); built-in constants otherwise
  * @returns True if it's a retail scenario
  */
-export function isRetailScenario(scenarioId: ScenarioId): boolean {
-  return scenarioRequirements.retail.includes(scenarioId);
+export function isRetailScenario(scenarioId: ScenarioId, rules?: ScenarioRuleSet): boolean {
+  return rules?.[scenarioId]?.isRetail ?? scenarioRequirements.retail.includes(scenarioId);
 }
 
 /**
  * Check if a scenario is a services scenario
  * @param scenarioId The FBR scenario ID
+ * @param rules Optional tenant rules (see getScenarioRules); built-in constants otherwise
  * @returns True if it's a services scenario
  */
-export function isServicesScenario(scenarioId: ScenarioId): boolean {
-  return scenarioRequirements.services.includes(scenarioId);
+export function isServicesScenario(scenarioId: ScenarioId, rules?: ScenarioRuleSet): boolean {
+  return rules?.[scenarioId]?.isServices ?? scenarioRequirements.services.includes(scenarioId);
 }
 
 // Export all scenario IDs for convenience
@@ -173,3 +186,26 @@ export const allScenarios: ScenarioId[] = [
   'SN017', 'SN018', 'SN019', 'SN020', 'SN021', 'SN022', 'SN023', 'SN024',
   'SN025', 'SN026', 'SN027', 'SN028'
 ];
+
+/**
+ * Build the built-in rule for a scenario from the constants above.
+ * These are the baseline when neither the tenant nor the global defaults define a rule.
+ * @param scenarioId The FBR scenario ID
+ * @returns The built-in scenario rule
+ */
+export function getBuiltInScenarioRule(scenarioId: ScenarioId): ScenarioRule {
+  return {
+    scenarioId,
+    saleType: getSaleTypeForScenario(scenarioId),
+    defaultRate: getDefaultRateForScenario(scenarioId),
+    requiresWithholdingTax: requiresWithholdingTax(scenarioId),
+    exemptOrZeroRated: isExemptOrZeroRated(scenarioId),
+    requiresRetailPrice: supportsThirdSchedule(scenarioId),
+    requiresFedPayable: requiresFedPayable(scenarioId),
+    isRetail: isRetailScenario(scenarioId),
+    isServices: isServicesScenario(scenarioId),
+    sroScheduleNo: null,
+    effectiveFrom: null,
+    source: 'built-in',
+  };
+}
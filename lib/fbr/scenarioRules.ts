@@ -0,0 +1,267 @@
+/**
+ * FBR Scenario Rules
+ *
+ * Resolves the scenario definitions (sale type, default rate and required
+ * fields) used by the mapper for a tenant and invoice date.
+ *
+ * Rules are versioned by `effectiveFrom`. For each scenario the newest version
+ * on or before the invoice date wins, looking first at the tenant's own rules,
+ * then at the global defaults (tenantId NULL), then at the built-in constants
+ * in saleTypes.ts.
+ */
+
+import { db } from '@/lib/db';
+import { fbrScenarioRules } from '@/lib/schema';
+import { and, asc, desc, eq, isNull, lte, or } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { allScenarios, getBuiltInScenarioRule } from './saleTypes';
+import type { ScenarioId, ScenarioRule, ScenarioRuleSet } from './types';
+
+// Rules change rarely; keep resolved sets briefly to avoid a query per invoice
+const CACHE_TTL = 60 * 1000;
+const RATE_PATTERN = /^(Exempt|\d+(\.\d+)?%)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const rulesCache = new Map<string, { rules: ScenarioRuleSet; timestamp: number }>();
+
+export interface ScenarioRuleInput {
+  scenarioId: string;
+  effectiveFrom: string;
+  saleType: string;
+  defaultRate: string;
+  requiresWithholdingTax?: boolean;
+  exemptOrZeroRated?: boolean;
+  requiresRetailPrice?: boolean;
+  requiresFedPayable?: boolean;
+  isRetail?: boolean;
+  isServices?: boolean;
+  sroScheduleNo?: string | null;
+  notes?: string | null;
+}
+
+export type ScenarioRuleRow = typeof fbrScenarioRules.$inferSelect;
+
+function rowToRule(row: ScenarioRuleRow): ScenarioRule {
+  return {
+    scenarioId: row.scenarioId as ScenarioId,
+    saleType: row.saleType,
+    defaultRate: row.defaultRate,
+    requiresWithholdingTax: !!row.requiresWithholdingTax,
+    exemptOrZeroRated: !!row.exemptOrZeroRated,
+    requiresRetailPrice: !!row.requiresRetailPrice,
+    requiresFedPayable: !!row.requiresFedPayable,
+    isRetail: !!row.isRetail,
+    isServices: !!row.isServices,
+    sroScheduleNo: row.sroScheduleNo,
+    effectiveFrom: row.effectiveFrom,
+    source: row.tenantId ? 'tenant' : 'global',
+  };
+}
+
+/**
+ * Clear cached rule sets (call after rules are edited)
+ */
+export function invalidateScenarioRulesCache() {
+  rulesCache.clear();
+}
+
+/**
+ * Pick the rule for every scenario from stored versions
+ *
+ * For each scenario the newest version on or before the date wins, a tenant
+ * version over a global one; scenarios without one keep the built-in rule.
+ *
+ * @param rows Stored versions visible to the tenant (its own and the global ones)
+ * @param effectiveDate Invoice date (YYYY-MM-DD)
+ */
+export function resolveScenarioRules(rows: ScenarioRuleRow[], effectiveDate: string): ScenarioRuleSet {
+  const rules: ScenarioRuleSet = {};
+  for (const scenarioId of allScenarios) {
+    rules[scenarioId] = getBuiltInScenarioRule(scenarioId);
+  }
+
+  const versions = rows
+    .filter(row => row.effectiveFrom <= effectiveDate && allScenarios.includes(row.scenarioId as ScenarioId))
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom));
+
+  // Global versions first, then tenant versions override them
+  for (const scope of ['global', 'tenant'] as const) {
+    const resolved = new Set<string>();
+    for (const row of versions) {
+      if ((scope === 'tenant') !== !!row.tenantId || resolved.has(row.scenarioId)) continue;
+      rules[row.scenarioId as ScenarioId] = rowToRule(row);
+      resolved.add(row.scenarioId);
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Resolve the rule for every scenario for a tenant on a given date
+ *
+ * @param tenantId Tenant to resolve for (global defaults only when omitted)
+ * @param date Invoice date (YYYY-MM-DD), defaults to today
+ * @returns A rule for each of the 28 scenarios
+ */
+export async function getScenarioRules(tenantId?: string, date?: string): Promise<ScenarioRuleSet> {
+  const effectiveDate = (date || new Date().toISOString()).substring(0, 10);
+  const cacheKey = `${tenantId || 'global'}|${effectiveDate}`;
+  const cached = rulesCache.get(cacheKey);
+  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+    return cached.rules;
+  }
+
+  let rules: ScenarioRuleSet;
+  try {
+    const rows = await db
+      .select()
+      .from(fbrScenarioRules)
+      .where(and(
+        tenantId
+          ? or(eq(fbrScenarioRules.tenantId, tenantId), isNull(fbrScenarioRules.tenantId))
+          : isNull(fbrScenarioRules.tenantId),
+        lte(fbrScenarioRules.effectiveFrom, effectiveDate)
+      ))
+      .orderBy(desc(fbrScenarioRules.effectiveFrom));
+
+    rules = resolveScenarioRules(rows, effectiveDate);
+  } catch (error) {
+    // Fall back to built-in rules so invoicing keeps working if the table is missing
+    console.warn('⚠️  Could not load FBR scenario rules, using built-in defaults:', error);
+    rules = resolveScenarioRules([], effectiveDate);
+  }
+
+  rulesCache.set(cacheKey, { rules, timestamp: Date.now() });
+  return rules;
+}
+
+/**
+ * List stored rule versions visible to a tenant (its own and the global defaults)
+ *
+ * @param tenantId Tenant ID
+ * @param scenarioId Optional scenario filter
+ */
+export async function listScenarioRuleVersions(tenantId: string, scenarioId?: string) {
+  const rows = await db
+    .select()
+    .from(fbrScenarioRules)
+    .where(and(
+      or(eq(fbrScenarioRules.tenantId, tenantId), isNull(fbrScenarioRules.tenantId)),
+      scenarioId ? eq(fbrScenarioRules.scenarioId, scenarioId) : undefined
+    ))
+    .orderBy(asc(fbrScenarioRules.scenarioId), desc(fbrScenarioRules.effectiveFrom));
+
+  return rows.map(row => ({ ...row, scope: row.tenantId ? 'tenant' : 'global' }));
+}
+
+/**
+ * Validate a rule before saving
+ */
+function validateRuleInput(input: ScenarioRuleInput): string | null {
+  if (!allScenarios.includes(input.scenarioId as ScenarioId)) {
+    return `Unknown scenario ${input.scenarioId}`;
+  }
+  if (!input.effectiveFrom || !DATE_PATTERN.test(input.effectiveFrom)) {
+    return 'effectiveFrom must be a date in YYYY-MM-DD format';
+  }
+  if (!input.saleType?.trim()) {
+    return 'saleType is required';
+  }
+  if (!input.defaultRate || !RATE_PATTERN.test(input.defaultRate)) {
+    return 'defaultRate must be a percentage like "18%" or "Exempt"';
+  }
+  if (input.exemptOrZeroRated && input.defaultRate !== 'Exempt' && parseFloat(input.defaultRate) !== 0) {
+    return 'Exempt or zero-rated scenarios must use "Exempt" or "0%" as the default rate';
+  }
+  return null;
+}
+
+/**
+ * Save a rule version. A version with the same effective date is updated in place.
+ *
+ * @param tenantId Tenant ID, or null for the global default
+ * @param input Rule definition
+ * @param createdBy Admin user making the change
+ */
+export async function saveScenarioRule(
+  tenantId: string | null,
+  input: ScenarioRuleInput,
+  createdBy?: string
+): Promise<{ success: boolean; rule?: ScenarioRuleRow; error?: string }> {
+  const validationError = validateRuleInput(input);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  const values = {
+    saleType: input.saleType.trim(),
+    defaultRate: input.defaultRate,
+    requiresWithholdingTax: !!input.requiresWithholdingTax,
+    exemptOrZeroRated: !!input.exemptOrZeroRated,
+    requiresRetailPrice: !!input.requiresRetailPrice,
+    requiresFedPayable: !!input.requiresFedPayable,
+    isRetail: !!input.isRetail,
+    isServices: !!input.isServices,
+    sroScheduleNo: input.sroScheduleNo?.trim() || null,
+    notes: input.notes || null,
+  };
+
+  const scopeCondition = tenantId ? eq(fbrScenarioRules.tenantId, tenantId) : isNull(fbrScenarioRules.tenantId);
+  const [existing] = await db
+    .select()
+    .from(fbrScenarioRules)
+    .where(and(
+      scopeCondition,
+      eq(fbrScenarioRules.scenarioId, input.scenarioId),
+      eq(fbrScenarioRules.effectiveFrom, input.effectiveFrom)
+    ))
+    .limit(1);
+
+  let id = existing?.id;
+  if (existing) {
+    await db
+      .update(fbrScenarioRules)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(fbrScenarioRules.id, existing.id));
+  } else {
+    id = uuidv4();
+    await db.insert(fbrScenarioRules).values({
+      id,
+      tenantId,
+      scenarioId: input.scenarioId,
+      effectiveFrom: input.effectiveFrom,
+      ...values,
+      createdBy: createdBy || null,
+    });
+  }
+
+  invalidateScenarioRulesCache();
+
+  const [rule] = await db.select().from(fbrScenarioRules).where(eq(fbrScenarioRules.id, id!)).limit(1);
+  console.log(`📐 FBR scenario rule ${input.scenarioId} (${tenantId ? 'tenant' : 'global'}) effective ${input.effectiveFrom} saved`);
+  return { success: true, rule };
+}
+
+/**
+ * Delete a rule version
+ *
+ * @param tenantId Tenant ID, or null for the global default
+ * @param id Rule version ID
+ */
+export async function deleteScenarioRule(tenantId: string | null, id: string): Promise<{ success: boolean; error?: string }> {
+  const scopeCondition = tenantId ? eq(fbrScenarioRules.tenantId, tenantId) : isNull(fbrScenarioRules.tenantId);
+  const [existing] = await db
+    .select({ id: fbrScenarioRules.id })
+    .from(fbrScenarioRules)
+    .where(and(eq(fbrScenarioRules.id, id), scopeCondition))
+    .limit(1);
+
+  if (!existing) {
+    return { success: false, error: 'Scenario rule not found' };
+  }
+
+  await db.delete(fbrScenarioRules).where(eq(fbrScenarioRules.id, id));
+  invalidateScenarioRulesCache();
+  return { success: true };
+}
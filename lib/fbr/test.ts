@@ -9,9 +9,19 @@
  * - Never run on the client side (contains sensitive API calls)
  */
 
-import { createTestFbrInvoice, validateOrderForFbr, mapOrderToFbrInvoice } from './mapper';
-import { validateInvoice, postInvoice, testFbrConnection, validateFbrConfig } from './client';
-import type { Order, ScenarioId } from './types';
+import { validateOrderForFbr, mapOrderToFbrInvoice } from './mapper';
+import { validateInvoice, postInvoice, testFbrConnection, validateFbrConfig, type FbrTestEndpoint } from './client';
+import { allScenarios, getDefaultRateForScenario } from './saleTypes';
+import type { Order, ScenarioId, SellerInfo } from './types';
+
+/**
+ * Where test invoices are sent. Defaults to the configured FBR environment;
+ * give an endpoint for the mock service (/api/fbr/mock/di_data/v1/di) to test offline.
+ */
+export interface FbrTestTarget {
+  endpoint?: FbrTestEndpoint;
+  sellerInfo?: SellerInfo;
+}
 
 /**
  * Test FBR configuration and connection
@@ -44,12 +54,12 @@ export async function testFbrSetup() {
 /**
  * Test FBR invoice validation with sample data
  */
-export async function testFbrValidation(scenarioId: ScenarioId = 'SN026') {
+export async function testFbrValidation(scenarioId: ScenarioId = 'SN026', target: FbrTestTarget = {}) {
   console.log(`🧪 Testing FBR validation with scenario ${scenarioId}...`);
   
   try {
     // Create test invoice
-    const testInvoice = await createTestFbrInvoice(scenarioId);
+    const testInvoice = await mapOrderToFbrInvoice(generateTestData(scenarioId), target.sellerInfo);
     console.log('Test invoice created:', {
       scenarioId: testInvoice.scenarioId,
       invoiceType: testInvoice.invoiceType,
@@ -58,7 +68,7 @@ export async function testFbrValidation(scenarioId: ScenarioId = 'SN026') {
     });
     
     // Validate with FBR
-    const validation = await validateInvoice(testInvoice);
+    const validation = await validateInvoice(testInvoice, undefined, undefined, target.endpoint);
     console.log('Validation result:', {
       status: validation.validationResponse?.status,
       hasError: !!validation.validationResponse?.error,
@@ -81,16 +91,16 @@ export async function testFbrValidation(scenarioId: ScenarioId = 'SN026') {
 /**
  * Test complete FBR flow (validate + post)
  */
-export async function testFbrFlow(scenarioId: ScenarioId = 'SN026') {
+export async function testFbrFlow(scenarioId: ScenarioId = 'SN026', target: FbrTestTarget = {}) {
   console.log(`🚀 Testing complete FBR flow with scenario ${scenarioId}...`);
   
   try {
     // Create test invoice
-    const testInvoice = await createTestFbrInvoice(scenarioId);
+    const testInvoice = await mapOrderToFbrInvoice(generateTestData(scenarioId), target.sellerInfo);
     
     // Step 1: Validate
     console.log('Step 1: Validating invoice...');
-    const validation = await validateInvoice(testInvoice);
+    const validation = await validateInvoice(testInvoice, undefined, undefined, target.endpoint);
     
     if (validation.validationResponse?.status !== 'Valid') {
       return {
@@ -104,7 +114,7 @@ export async function testFbrFlow(scenarioId: ScenarioId = 'SN026') {
     
     // Step 2: Post
     console.log('Step 2: Posting invoice...');
-    const post = await postInvoice(testInvoice);
+    const post = await postInvoice(testInvoice, undefined, undefined, undefined, target.endpoint);
     
     return {
       success: true,
@@ -178,24 +188,19 @@ export function testOrderMapping() {
 }
 
 /**
- * Test all scenarios with basic validation
+ * Test all 28 scenarios with basic validation
  */
-export async function testAllScenarios() {
+export async function testAllScenarios(target: FbrTestTarget = {}) {
   console.log('🎯 Testing all FBR scenarios...');
   
-  const scenarios: ScenarioId[] = [
-    'SN001', 'SN002', 'SN005', 'SN006', 'SN007', 'SN008',
-    'SN017', 'SN026', 'SN027', 'SN028'
-  ];
-  
   const results = [];
   
-  for (const scenario of scenarios) {
+  for (const scenario of allScenarios) {
     console.log(`Testing scenario ${scenario}...`);
     
     try {
-      const testInvoice = await createTestFbrInvoice(scenario);
-      const validation = await validateInvoice(testInvoice);
+      const testInvoice = await mapOrderToFbrInvoice(generateTestData(scenario), target.sellerInfo);
+      const validation = await validateInvoice(testInvoice, undefined, undefined, target.endpoint);
       
       results.push({
         scenario,
@@ -231,6 +236,7 @@ export function generateTestData(scenarioId: ScenarioId) {
     email: 'test@example.com',
     scenarioId,
     invoiceType: 'Sale Invoice',
+    invoiceDate: new Date().toISOString().split('T')[0],
     subtotal: 1000,
     totalAmount: 1180,
     taxAmount: 180,
@@ -298,6 +304,7 @@ export function generateTestData(scenarioId: ScenarioId) {
       break;
       
     case 'SN008': // 3rd Schedule
+    case 'SN027':
       baseOrder.items = [
         {
           productId: 'test-3rd-schedule',
@@ -329,7 +336,11 @@ export function generateTestData(scenarioId: ScenarioId) {
       ];
       break;
       
-    default: // Standard scenarios
+    default: { // Standard scenarios at their default rate
+      const defaultRate = getDefaultRateForScenario(scenarioId);
+      const taxPercentage = defaultRate === 'Exempt' ? 0 : parseFloat(defaultRate);
+      baseOrder.taxAmount = 1000 * taxPercentage / 100;
+      baseOrder.totalAmount = 1000 + baseOrder.taxAmount;
       baseOrder.items = [
         {
           productId: 'test-standard',
@@ -339,9 +350,10 @@ export function generateTestData(scenarioId: ScenarioId) {
           quantity: 1,
           price: 1000,
           totalPrice: 1000,
-          taxPercentage: 18,
+          taxPercentage,
         },
       ];
+    }
   }
   
   return baseOrder;
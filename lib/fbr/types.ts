@@ -33,7 +33,7 @@ export interface FbrItem {
 
 export interface FbrInvoice {
   // Header fields - using exact FBR field names
-  invoiceType: "Sale Invoice" | "Debit Note";
+  invoiceType: "Sale Invoice" | FbrNoteType;
   invoiceDate: string; // YYYY-MM-DD format
   sellerNTNCNIC: string;
   sellerBusinessName: string;
@@ -44,7 +44,7 @@ export interface FbrInvoice {
   buyerProvince?: string;
   buyerAddress?: string;
   buyerRegistrationType: "Registered" | "Unregistered";
-  invoiceRefNo?: string; // Required if Debit Note
+  invoiceRefNo?: string; // Required for Debit/Credit Notes (original FBR invoice number)
   scenarioId: string; // e.g., "SN002", "SN026"
   
   // Items array
@@ -154,12 +154,9 @@ export interface Order {
   sellerBusinessName?: string;
   sellerProvince?: string;
   sellerAddress?: string;
-  fbrSandboxToken?: string;
-  fbrBaseUrl?: string;
   
-  // Production environment fields
+  // Production environment fields (tokens are resolved server-side, see credentials.ts)
   isProductionSubmission?: boolean;
-  productionToken?: string;
   
   // Order items
   items: OrderItem[];
@@ -204,12 +201,80 @@ export interface FbrApiResponse {
   error?: string;
 }
 
+// Notes issued against an original invoice (returns/refunds)
+export type FbrNoteType = "Debit Note" | "Credit Note";
+
+// Submission queue state (mirrored on orders.fbrSubmissionStatus)
+export type FbrSubmissionStatus = "queued" | "validating" | "posted" | "rejected" | "failed";
+
+// Reference data cached from FBR's /pdi endpoints
+export type FbrReferenceType =
+  | "hs_code" | "uom" | "hs_uom" | "province" | "sale_type_rate" | "sro_schedule" | "sro_item";
+
+export interface FbrReferenceOption {
+  code: string;
+  description: string;
+  parentCode?: string | null;
+  effectiveDate?: string | null;
+}
+
+// Reference data needed to check one order; a missing list means "not synced, skip the check"
+export interface FbrReferenceLookup {
+  hsCodes?: string[];                  // Known HS codes (digits only) among the order's items
+  hsUoms?: Record<string, string[]>;   // HS code (digits only) → allowed UOM descriptions
+  provinces?: string[];                // Province descriptions
+  sroSchedules?: string[];             // SRO/schedule descriptions
+}
+
+// Scenario definition resolved for a tenant and invoice date
+export interface ScenarioRule {
+  scenarioId: ScenarioId;
+  saleType: string;                   // Canonical FBR sale type label
+  defaultRate: string;                // e.g., "18%", "Exempt"
+  requiresWithholdingTax: boolean;    // WHT at item level (SN002)
+  exemptOrZeroRated: boolean;         // Force salesTaxApplicable = 0
+  requiresRetailPrice: boolean;       // 3rd Schedule fixedNotifiedValueOrRetailPrice
+  requiresFedPayable: boolean;        // FED in ST mode
+  isRetail: boolean;
+  isServices: boolean;
+  sroScheduleNo?: string | null;      // Default SRO/schedule for items without one
+  effectiveFrom?: string | null;      // YYYY-MM-DD the rule version applies from
+  source: "built-in" | "global" | "tenant";
+}
+
+export type ScenarioRuleSet = Partial<Record<ScenarioId, ScenarioRule>>;
+
 // Seller information (from environment or settings)
 export interface SellerInfo {
   ntncnic: string;
   businessName: string;
   province: string;
   address: string;
+  strn?: string; // Sales tax registration number, printed on invoices (not sent to FBR)
+}
+
+// FBR API environment a token belongs to
+export type FbrEnvironment = "sandbox" | "production";
+
+// Current token state shown in settings and on the dashboard (never includes the token)
+export interface FbrCredentialStatus {
+  environment: FbrEnvironment;
+  configured: boolean;
+  legacy?: boolean;                   // Only a plain-text setting exists; import it to encrypt
+  tokenHint?: string | null;          // Last 4 characters
+  expiresAt?: string | null;          // ISO date
+  daysUntilExpiry?: number | null;
+  expired: boolean;
+  expiresSoon: boolean;
+  rotatedAt?: string | null;          // When the current token was set
+}
+
+// Where a production token was used, for the credential audit log
+export interface FbrTokenUsage {
+  orderId?: string;
+  noteId?: string | null;
+  submissionId?: string;
+  userId?: string;
 }
 
 // Rate conversion utility type
@@ -0,0 +1,515 @@
+/**
+ * Goods Receipts
+ *
+ * Goods received notes (GRNs) against purchase orders
+ * (orders.orderType = 'purchase_order'). Each receipt books full or partial
+ * amounts of the PO lines into stock at a location:
+ *
+ *   draft → pending/confirmed/… → partially_received → received
+ *
+ * A draft PO has to be sent before goods can be received against it. Every
+ * received line writes a "Purchase Receipt" Stock In movement with the PO
+ * number as reference and the receipt id set, and adds to the line's
+ * received amount. The PO is closed (received) once nothing is outstanding.
+ *
+ * Freight, duty and other costs on a receipt are landed cost: they are
+ * spread over its lines by value (or evenly when the goods have no cost) and
+ * added to each line's unit cost. The landed unit cost becomes the cost of
+ * the movement, of the lot when a lot number is given, and feeds the
+ * product's average cost (see lib/inventoryCosting.ts).
+ */
+
+import { db, type DbExecutor } from '@/lib/db';
+import { goodsReceiptItems, goodsReceipts, orderItems, orders, productInventory, products, productVariants, stockMovements, suppliers } from '@/lib/schema';
+import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { isWeightBasedProduct } from '@/utils/weightUtils';
+import {
+  findOrCreateInventoryAtLocation,
+  getDefaultLocation,
+  lockInventoryRows,
+  resolveLocation,
+} from '@/lib/inventoryLocations';
+import { normalizeExpiryDate, receiveLot } from '@/lib/inventoryLots';
+import { recordReceiptCost } from '@/lib/inventoryCosting';
+
+const RECEIPT_NUMBER_PREFIX = 'GRN-';
+const RECEIPT_NUMBER_DIGITS = 6;
+
+// Purchase order statuses goods can be received against
+const RECEIVABLE_STATUSES = ['pending', 'confirmed', 'processing', 'shipped', 'partially_received'];
+
+type GoodsReceiptRow = typeof goodsReceipts.$inferSelect;
+type OrderItemRow = typeof orderItems.$inferSelect;
+
+export interface GoodsReceiptLineInput {
+  orderItemId: string;
+  quantity?: number;
+  weightQuantity?: number; // grams, for weight-based products
+  unitCost?: number | string | null; // Actual supplier cost; defaults to the PO line cost
+  lotNumber?: string | null;
+  expiryDate?: string | null;
+}
+
+export interface ReceiveGoodsInput {
+  lines: GoodsReceiptLineInput[];
+  locationId?: string | null; // Defaults to the PO's location
+  supplierReference?: string | null;
+  freightCost?: number | string | null;
+  dutyCost?: number | string | null;
+  otherCost?: number | string | null;
+  notes?: string | null;
+  receivedBy?: string;
+}
+
+export interface GoodsReceiptResult {
+  success: boolean;
+  error?: string;
+  receipt?: GoodsReceiptRow;
+  orderStatus?: string;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const parseCost = (value: number | string | null | undefined) =>
+  value === undefined || value === null || value === '' ? 0 : parseFloat(String(value));
+
+async function generateReceiptNumber(tenantId: string, executor: DbExecutor = db): Promise<string> {
+  const [row] = await executor
+    .select({
+      maxNumber: sql<string | null>`MAX(CAST(SUBSTRING(${goodsReceipts.receiptNumber}, ${RECEIPT_NUMBER_PREFIX.length + 1}) AS UNSIGNED))`,
+    })
+    .from(goodsReceipts)
+    .where(and(
+      eq(goodsReceipts.tenantId, tenantId),
+      sql`${goodsReceipts.receiptNumber} REGEXP ${`^${RECEIPT_NUMBER_PREFIX}[0-9]{${RECEIPT_NUMBER_DIGITS},9}$`}`
+    ));
+
+  const next = parseInt(row?.maxNumber || '0') + 1;
+  return `${RECEIPT_NUMBER_PREFIX}${String(next).padStart(RECEIPT_NUMBER_DIGITS, '0')}`;
+}
+
+async function getPurchaseOrderRow(tenantId: string, orderId: string) {
+  const [order] = await db
+    .select()
+    .from(orders)
+    .where(and(eq(orders.id, orderId), eq(orders.tenantId, tenantId), eq(orders.orderType, 'purchase_order')))
+    .limit(1);
+
+  return order || null;
+}
+
+/**
+ * Amount still to be received on a PO line: units, or grams for weight-based products
+ */
+function outstandingAmount(item: OrderItemRow, isWeightBased: boolean): number {
+  return isWeightBased
+    ? Math.max(0, round2(parseFloat(item.weightQuantity || '0') - parseFloat(item.receivedWeight || '0')))
+    : Math.max(0, item.quantity - (item.receivedQuantity || 0));
+}
+
+/**
+ * Receive goods against a purchase order
+ *
+ * Lines are validated against what is outstanding on the PO, then all stock,
+ * lots, movements and received amounts are written in one transaction with
+ * the PO row locked, so concurrent receipts cannot over-receive a line.
+ */
+export async function receiveGoods(tenantId: string, orderId: string, input: ReceiveGoodsInput): Promise<GoodsReceiptResult> {
+  const order = await getPurchaseOrderRow(tenantId, orderId);
+  if (!order) {
+    return { success: false, error: 'Purchase order not found' };
+  }
+  if (order.status === 'draft') {
+    return { success: false, error: 'Send the purchase order before receiving goods against it' };
+  }
+  if (!RECEIVABLE_STATUSES.includes(order.status)) {
+    return { success: false, error: `Goods cannot be received against a ${order.status} purchase order` };
+  }
+
+  const location = input.locationId
+    ? await resolveLocation(tenantId, input.locationId)
+    : order.fulfillmentLocationId
+      ? await resolveLocation(tenantId, order.fulfillmentLocationId)
+      : await getDefaultLocation(tenantId);
+  if (!location) {
+    return { success: false, error: 'Receiving location not found or inactive' };
+  }
+
+  const extraCosts = {
+    freight: parseCost(input.freightCost),
+    duty: parseCost(input.dutyCost),
+    other: parseCost(input.otherCost),
+  };
+  if (Object.values(extraCosts).some(cost => isNaN(cost) || cost < 0)) {
+    return { success: false, error: 'Freight, duty and other costs must be zero or more' };
+  }
+
+  const items = await db
+    .select({ item: orderItems, stockManagementType: products.stockManagementType })
+    .from(orderItems)
+    .leftJoin(products, eq(orderItems.productId, products.id))
+    .where(eq(orderItems.orderId, order.id));
+  const itemById = new Map(items.map(row => [row.item.id, row]));
+
+  // Validate every line and settle its cost first
+  const plan: {
+    item: OrderItemRow;
+    isWeightBased: boolean;
+    amount: number;
+    unitCost: number;
+    value: number;
+    lotNumber: string | null;
+    expiryDate: string | null;
+    inventoryId: string;
+    landedCost: number;
+    landedUnitCost: number;
+  }[] = [];
+  const seen = new Set<string>();
+
+  for (const line of input.lines || []) {
+    const row = itemById.get(line.orderItemId);
+    if (!row) {
+      return { success: false, error: 'Line not found on this purchase order' };
+    }
+    if (seen.has(line.orderItemId)) {
+      return { success: false, error: `${row.item.productName} is listed more than once` };
+    }
+    seen.add(line.orderItemId);
+
+    const isWeightBased = isWeightBasedProduct(row.stockManagementType || 'quantity');
+    const amount = isWeightBased ? round2(Number(line.weightQuantity || 0)) : Number(line.quantity || 0);
+    if (amount === 0) continue;
+    if (isWeightBased ? !(amount > 0) : !(Number.isInteger(amount) && amount > 0)) {
+      return {
+        success: false,
+        error: isWeightBased
+          ? `Received weight for ${row.item.productName} must be greater than zero`
+          : `Received quantity for ${row.item.productName} must be a whole number greater than zero`,
+      };
+    }
+
+    const outstanding = outstandingAmount(row.item, isWeightBased);
+    if (amount > outstanding) {
+      return {
+        success: false,
+        error: `Cannot receive ${amount}${isWeightBased ? 'g' : ''} of ${row.item.productName}; ${outstanding}${isWeightBased ? 'g' : ''} outstanding`,
+      };
+    }
+
+    const unitCost = line.unitCost !== undefined && line.unitCost !== null && line.unitCost !== ''
+      ? parseFloat(String(line.unitCost))
+      : parseFloat(row.item.costPrice || row.item.price || '0');
+    if (isNaN(unitCost) || unitCost < 0) {
+      return { success: false, error: `Invalid unit cost for ${row.item.productName}` };
+    }
+
+    const expiryDate = normalizeExpiryDate(line.expiryDate);
+    if (expiryDate === undefined) {
+      return { success: false, error: `Invalid expiry date for ${row.item.productName}` };
+    }
+    const lotNumber = line.lotNumber && String(line.lotNumber).trim() ? String(line.lotNumber).trim() : null;
+    if (expiryDate && !lotNumber) {
+      return { success: false, error: `A lot number is required when an expiry date is given (${row.item.productName})` };
+    }
+
+    plan.push({
+      item: row.item,
+      isWeightBased,
+      amount,
+      unitCost,
+      // Costs are per unit, or per kg for weight-based products
+      value: round2(isWeightBased ? amount / 1000 * unitCost : amount * unitCost),
+      lotNumber,
+      expiryDate,
+      inventoryId: '',
+      landedCost: 0,
+      landedUnitCost: unitCost,
+    });
+  }
+
+  if (plan.length === 0) {
+    return { success: false, error: 'Enter the amount received for at least one line' };
+  }
+
+  // Spread the landed cost by value; the last line takes the rounding remainder
+  const goodsValue = round2(plan.reduce((sum, line) => sum + line.value, 0));
+  const totalExtra = round2(extraCosts.freight + extraCosts.duty + extraCosts.other);
+  let allocated = 0;
+  plan.forEach((line, index) => {
+    line.landedCost = index === plan.length - 1
+      ? round2(totalExtra - allocated)
+      : round2(goodsValue > 0 ? totalExtra * line.value / goodsValue : totalExtra / plan.length);
+    allocated = round2(allocated + line.landedCost);
+    const costUnits = line.isWeightBased ? line.amount / 1000 : line.amount;
+    line.landedUnitCost = round2(line.unitCost + line.landedCost / costUnits);
+  });
+
+  // Inventory rows need to exist before the transaction locks them
+  for (const line of plan) {
+    const inventory = await findOrCreateInventoryAtLocation(tenantId, line.item, location);
+    line.inventoryId = inventory.id;
+  }
+
+  const receiptId = uuidv4();
+  const now = new Date();
+
+  const outcome = await db.transaction(async (tx) => {
+    // The PO row lock serialises receipts against the same order
+    const [locked] = await tx
+      .select({ status: orders.status })
+      .from(orders)
+      .where(eq(orders.id, order.id))
+      .for('update');
+    if (!locked || !RECEIVABLE_STATUSES.includes(locked.status)) {
+      return { error: `Goods cannot be received against a ${locked?.status || 'missing'} purchase order` };
+    }
+
+    const currentItems = await tx.select().from(orderItems).where(eq(orderItems.orderId, order.id));
+    const currentById = new Map(currentItems.map(item => [item.id, item]));
+    for (const line of plan) {
+      const current = currentById.get(line.item.id);
+      if (!current || line.amount > outstandingAmount(current, line.isWeightBased)) {
+        return { error: `${line.item.productName} was received in the meantime; reload and try again` };
+      }
+      line.item = current;
+    }
+
+    // Retry on a duplicate number from a concurrent receipt for the same tenant
+    let receiptNumber = '';
+    for (let attempt = 0; ; attempt++) {
+      try {
+        receiptNumber = await generateReceiptNumber(tenantId, tx);
+        await tx.insert(goodsReceipts).values({
+          id: receiptId,
+          tenantId,
+          receiptNumber,
+          orderId: order.id,
+          supplierId: order.supplierId || null,
+          locationId: location.id,
+          supplierReference: input.supplierReference || null,
+          freightCost: extraCosts.freight.toFixed(2),
+          dutyCost: extraCosts.duty.toFixed(2),
+          otherCost: extraCosts.other.toFixed(2),
+          goodsValue: goodsValue.toFixed(2),
+          notes: input.notes || null,
+          receivedBy: input.receivedBy || null,
+          receivedAt: now,
+          createdAt: now,
+        });
+        break;
+      } catch (error: any) {
+        if (error?.code !== 'ER_DUP_ENTRY' || attempt >= 2) throw error;
+      }
+    }
+
+    const rows = await lockInventoryRows(tx, tenantId, plan.map(line => line.inventoryId));
+
+    for (const line of plan) {
+      const inventory = rows.get(line.inventoryId)!;
+      const { isWeightBased, amount } = line;
+
+      const previousQuantity = inventory.quantity;
+      const previousWeight = parseFloat(inventory.weightQuantity || '0');
+      const newQuantity = isWeightBased ? previousQuantity : previousQuantity + amount;
+      const newWeight = isWeightBased ? round2(previousWeight + amount) : previousWeight;
+
+      await tx
+        .update(productInventory)
+        .set({
+          ...(isWeightBased
+            ? {
+                weightQuantity: newWeight.toFixed(2),
+                availableWeight: (newWeight - parseFloat(inventory.reservedWeight || '0')).toFixed(2),
+              }
+            : {
+                quantity: newQuantity,
+                availableQuantity: newQuantity - (inventory.reservedQuantity || 0),
+              }),
+          supplierId: order.supplierId || inventory.supplierId,
+          lastRestockDate: now,
+          updatedAt: now,
+        })
+        .where(eq(productInventory.id, inventory.id));
+
+      const lot = line.lotNumber
+        ? await receiveLot(tenantId, inventory, {
+            lotNumber: line.lotNumber,
+            expiryDate: line.expiryDate,
+            amount,
+            isWeightBased,
+            unitCost: line.landedUnitCost,
+            reference: order.purchaseOrderNumber || order.orderNumber,
+          }, tx)
+        : null;
+
+      const movementId = uuidv4();
+      await tx.insert(stockMovements).values({
+        id: movementId,
+        tenantId,
+        inventoryId: inventory.id,
+        productId: line.item.productId,
+        variantId: line.item.variantId || null,
+        movementType: 'in',
+        quantity: isWeightBased ? 0 : amount,
+        previousQuantity,
+        newQuantity,
+        weightQuantity: isWeightBased ? amount.toFixed(2) : '0.00',
+        previousWeightQuantity: previousWeight.toFixed(2),
+        newWeightQuantity: newWeight.toFixed(2),
+        reason: 'Purchase Receipt',
+        locationId: location.id,
+        location: location.code,
+        receiptId,
+        lotId: lot?.id || null,
+        reference: order.purchaseOrderNumber || order.orderNumber,
+        notes: `${receiptNumber}${input.supplierReference ? ` (supplier ref ${input.supplierReference})` : ''}`,
+        costPrice: line.landedUnitCost.toFixed(2),
+        supplierId: order.supplierId || null,
+        processedBy: input.receivedBy || null,
+        createdAt: now,
+      });
+
+      await recordReceiptCost(tenantId, {
+        productId: line.item.productId,
+        variantId: line.item.variantId,
+        amount,
+        isWeightBased,
+        unitCost: line.landedUnitCost,
+        movementId,
+      }, tx);
+
+      await tx.insert(goodsReceiptItems).values({
+        id: uuidv4(),
+        tenantId,
+        receiptId,
+        orderItemId: line.item.id,
+        inventoryId: inventory.id,
+        productId: line.item.productId,
+        variantId: line.item.variantId || null,
+        quantity: isWeightBased ? 0 : amount,
+        weightQuantity: isWeightBased ? amount.toFixed(2) : '0.00',
+        unitCost: line.unitCost.toFixed(2),
+        landedCost: line.landedCost.toFixed(2),
+        landedUnitCost: line.landedUnitCost.toFixed(2),
+        lotId: lot?.id || null,
+        movementId,
+        createdAt: now,
+      });
+
+      await tx
+        .update(orderItems)
+        .set(isWeightBased
+          ? { receivedWeight: round2(parseFloat(line.item.receivedWeight || '0') + amount).toFixed(2) }
+          : { receivedQuantity: (line.item.receivedQuantity || 0) + amount })
+        .where(eq(orderItems.id, line.item.id));
+
+      const received = currentById.get(line.item.id)!;
+      if (isWeightBased) received.receivedWeight = round2(parseFloat(received.receivedWeight || '0') + amount).toFixed(2);
+      else received.receivedQuantity = (received.receivedQuantity || 0) + amount;
+    }
+
+    // Close the PO once every line is in
+    const types = new Map(items.map(row => [row.item.id, row.stockManagementType || 'quantity']));
+    const fullyReceived = currentItems.every(item => outstandingAmount(item, isWeightBasedProduct(types.get(item.id) || 'quantity')) === 0);
+    const orderStatus = fullyReceived ? 'received' : 'partially_received';
+
+    await tx
+      .update(orders)
+      .set({
+        status: orderStatus,
+        fulfillmentStatus: fullyReceived ? 'fulfilled' : 'partially_fulfilled',
+        updatedAt: now,
+      })
+      .where(eq(orders.id, order.id));
+
+    return { receiptNumber, orderStatus };
+  });
+
+  if ('error' in outcome) {
+    return { success: false, error: outcome.error };
+  }
+
+  console.log(`📥 Received ${outcome.receiptNumber} against ${order.purchaseOrderNumber || order.orderNumber} (${plan.length} line(s), PO ${outcome.orderStatus})`);
+
+  const [receipt] = await db.select().from(goodsReceipts).where(eq(goodsReceipts.id, receiptId)).limit(1);
+  return { success: true, receipt, orderStatus: outcome.orderStatus };
+}
+
+/**
+ * A purchase order with ordered, received and outstanding amounts per line,
+ * and its goods receipts
+ */
+export async function getPurchaseOrderReceiving(tenantId: string, orderId: string) {
+  const order = await getPurchaseOrderRow(tenantId, orderId);
+  if (!order) return null;
+
+  const [supplierRows, lineRows, receipts] = await Promise.all([
+    order.supplierId
+      ? db
+          .select({ id: suppliers.id, name: suppliers.name, companyName: suppliers.companyName })
+          .from(suppliers)
+          .where(and(eq(suppliers.id, order.supplierId), eq(suppliers.tenantId, tenantId)))
+          .limit(1)
+      : [],
+    db
+      .select({
+        item: orderItems,
+        stockManagementType: products.stockManagementType,
+        variantSku: productVariants.sku,
+      })
+      .from(orderItems)
+      .leftJoin(products, eq(orderItems.productId, products.id))
+      .leftJoin(productVariants, eq(orderItems.variantId, productVariants.id))
+      .where(eq(orderItems.orderId, order.id)),
+    db
+      .select()
+      .from(goodsReceipts)
+      .where(and(eq(goodsReceipts.orderId, order.id), eq(goodsReceipts.tenantId, tenantId)))
+      .orderBy(desc(goodsReceipts.receivedAt)),
+  ]);
+
+  const receiptLines = receipts.length > 0
+    ? await db
+        .select()
+        .from(goodsReceiptItems)
+        .where(and(eq(goodsReceiptItems.tenantId, tenantId), inArray(goodsReceiptItems.receiptId, receipts.map(receipt => receipt.id))))
+    : [];
+
+  const lines = lineRows.map(row => {
+    const stockManagementType = row.stockManagementType || 'quantity';
+    const isWeightBased = isWeightBasedProduct(stockManagementType);
+    return {
+      id: row.item.id,
+      productId: row.item.productId,
+      variantId: row.item.variantId,
+      productName: row.item.productName,
+      variantTitle: row.item.variantTitle,
+      sku: row.item.sku || row.variantSku,
+      stockManagementType,
+      isWeightBased,
+      ordered: isWeightBased ? parseFloat(row.item.weightQuantity || '0') : row.item.quantity,
+      received: isWeightBased ? parseFloat(row.item.receivedWeight || '0') : row.item.receivedQuantity || 0,
+      outstanding: outstandingAmount(row.item, isWeightBased),
+      unitCost: row.item.costPrice || row.item.price,
+    };
+  });
+
+  const lineById = new Map(lines.map(line => [line.id, line]));
+
+  return {
+    order,
+    supplier: supplierRows[0] || null,
+    lines,
+    receipts: receipts.map(receipt => ({
+      ...receipt,
+      items: receiptLines
+        .filter(item => item.receiptId === receipt.id)
+        .map(item => ({
+          ...item,
+          productName: lineById.get(item.orderItemId)?.productName || 'Unknown Product',
+          variantTitle: lineById.get(item.orderItemId)?.variantTitle || null,
+        })),
+    })),
+  };
+}
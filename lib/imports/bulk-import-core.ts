@@ -596,6 +596,7 @@ export async function processUserChunk(
         // Initialize loyalty points for the new user
         await db.insert(userLoyaltyPoints).values({
           id: uuidv4(),
+          tenantId,
           userId: newUserId,
           totalPointsEarned: 0,
           totalPointsRedeemed: 0,
@@ -1229,6 +1230,7 @@ export async function processOrderChunk(
         // Initialize loyalty points
         await db.insert(userLoyaltyPoints).values({
           id: uuidv4(),
+          tenantId,
           userId: customerId,
           totalPointsEarned: 0,
           totalPointsRedeemed: 0,
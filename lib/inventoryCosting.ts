@@ -0,0 +1,492 @@
+/**
+ * Inventory Costing
+ *
+ * Stock cost per product/variant, shared by all locations, in one of two
+ * methods chosen per tenant (settings key `inventory_costing_method`):
+ *
+ *   weighted_average  Moving average kept on products/product_variants
+ *                     .average_cost. Every costed Stock In re-averages the
+ *                     stock on hand with the incoming cost, and the result is
+ *                     also stamped on the movement (stock_movements.average_cost)
+ *                     so the average can be read back as of any date.
+ *   fifo              Layers are the Stock In movements themselves. Stock on
+ *                     hand is always the newest receipts, so the issue cost of
+ *                     a sale is the oldest part of the receipts covering the
+ *                     stock on hand, and the stock value is all of them.
+ *
+ * Transfer In movements are not receipts and never form layers. Stock older
+ * than any costed receipt falls back to the average cost, then to the
+ * variant's or product's costPrice. Costs are per unit, or per kg for
+ * weight-based products, as everywhere else; amounts are units or grams.
+ */
+
+import { db, type DbExecutor } from '@/lib/db';
+import { categories, inventoryLocations, productInventory, products, productVariants, settings, stockMovements } from '@/lib/schema';
+import { and, asc, desc, eq, gt, isNotNull, isNull, lte, or, sql } from 'drizzle-orm';
+import { isWeightBasedProduct } from '@/utils/weightUtils';
+import { getDefaultLocation } from '@/lib/inventoryLocations';
+
+export type CostingMethod = 'weighted_average' | 'fifo';
+
+export const COSTING_METHODS: CostingMethod[] = ['weighted_average', 'fifo'];
+
+export const INVENTORY_COSTING_METHOD_KEY = 'inventory_costing_method';
+
+export interface CostKey {
+  productId: string;
+  variantId?: string | null;
+}
+
+export interface CostedAmount extends CostKey {
+  amount: number; // units, or grams for weight-based products
+  isWeightBased: boolean;
+}
+
+export interface ValuationOptions {
+  asOf?: Date | null; // Current stock when omitted
+  method?: CostingMethod; // The tenant's method when omitted
+  locationId?: string | null;
+  categoryId?: string | null;
+}
+
+export interface ValuationLine {
+  inventoryId: string;
+  productId: string;
+  variantId: string | null;
+  productName: string;
+  variantTitle: string | null;
+  sku: string | null;
+  categoryId: string | null;
+  categoryName: string;
+  locationId: string;
+  locationName: string;
+  isWeightBased: boolean;
+  onHand: number; // units, or grams for weight-based products
+  unitCost: number | null; // per unit, or per kg
+  value: number;
+}
+
+interface CostLayer {
+  amount: number;
+  unitCost: number | null;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+const costKey = (key: CostKey) => `${key.productId}:${key.variantId || ''}`;
+
+const parseCost = (value: string | null | undefined) => (value ? parseFloat(value) : null);
+
+// Value of an amount at a unit cost (per kg for weight-based products)
+const valueOf = (amount: number, unitCost: number, isWeightBased: boolean) =>
+  isWeightBased ? amount / 1000 * unitCost : amount * unitCost;
+
+export async function getCostingMethod(tenantId: string, executor: DbExecutor = db): Promise<CostingMethod> {
+  const [setting] = await executor
+    .select()
+    .from(settings)
+    .where(and(eq(settings.tenantId, tenantId), eq(settings.key, INVENTORY_COSTING_METHOD_KEY)))
+    .limit(1);
+
+  return COSTING_METHODS.includes(setting?.value as CostingMethod) ? setting!.value as CostingMethod : 'weighted_average';
+}
+
+/**
+ * Current average cost and fallback costPrice of a product or variant
+ */
+async function getCostRecord(tenantId: string, key: CostKey, executor: DbExecutor) {
+  const [product] = await executor
+    .select({ averageCost: products.averageCost, costPrice: products.costPrice })
+    .from(products)
+    .where(and(eq(products.id, key.productId), eq(products.tenantId, tenantId)))
+    .limit(1);
+
+  if (!key.variantId) {
+    return { averageCost: parseCost(product?.averageCost), costPrice: parseCost(product?.costPrice) };
+  }
+
+  const [variant] = await executor
+    .select({ averageCost: productVariants.averageCost, costPrice: productVariants.costPrice })
+    .from(productVariants)
+    .where(and(eq(productVariants.id, key.variantId), eq(productVariants.tenantId, tenantId)))
+    .limit(1);
+
+  return {
+    averageCost: parseCost(variant?.averageCost),
+    costPrice: parseCost(variant?.costPrice) ?? parseCost(product?.costPrice),
+  };
+}
+
+/**
+ * Stock on hand of a product or variant across all locations
+ */
+async function getOnHandTotal(tenantId: string, key: CostKey, isWeightBased: boolean, executor: DbExecutor): Promise<number> {
+  const [row] = await executor
+    .select({
+      total: isWeightBased
+        ? sql<string>`COALESCE(SUM(${productInventory.weightQuantity}), 0)`
+        : sql<string>`COALESCE(SUM(${productInventory.quantity}), 0)`,
+    })
+    .from(productInventory)
+    .where(and(
+      eq(productInventory.tenantId, tenantId),
+      eq(productInventory.productId, key.productId),
+      key.variantId ? eq(productInventory.variantId, key.variantId) : isNull(productInventory.variantId)
+    ));
+
+  return parseFloat(row?.total || '0');
+}
+
+/**
+ * Re-average a product's or variant's cost after a Stock In
+ *
+ * Call after the inventory row and the movement are written. A receipt
+ * without a cost comes in at the current cost and leaves the average as is.
+ *
+ * @returns The new average cost, or null when nothing about the cost is known
+ */
+export async function recordReceiptCost(
+  tenantId: string,
+  receipt: CostedAmount & { unitCost?: number | string | null; movementId: string },
+  executor: DbExecutor = db
+): Promise<number | null> {
+  const record = await getCostRecord(tenantId, receipt, executor);
+  const currentCost = record.averageCost ?? record.costPrice;
+  const incomingCost = receipt.unitCost !== undefined && receipt.unitCost !== null && receipt.unitCost !== ''
+    ? parseFloat(String(receipt.unitCost))
+    : currentCost;
+  if (incomingCost === null || isNaN(incomingCost)) return null;
+
+  const onHandAfter = await getOnHandTotal(tenantId, receipt, receipt.isWeightBased, executor);
+  const onHandBefore = Math.max(0, onHandAfter - receipt.amount);
+
+  const averageCost = round4(onHandBefore > 0 && currentCost !== null && onHandAfter > 0
+    ? (onHandBefore * currentCost + receipt.amount * incomingCost) / (onHandBefore + receipt.amount)
+    : incomingCost);
+
+  if (receipt.variantId) {
+    await executor
+      .update(productVariants)
+      .set({ averageCost: averageCost.toFixed(4) })
+      .where(and(eq(productVariants.id, receipt.variantId), eq(productVariants.tenantId, tenantId)));
+  } else {
+    await executor
+      .update(products)
+      .set({ averageCost: averageCost.toFixed(4) })
+      .where(and(eq(products.id, receipt.productId), eq(products.tenantId, tenantId)));
+  }
+
+  await executor
+    .update(stockMovements)
+    .set({ averageCost: averageCost.toFixed(4) })
+    .where(eq(stockMovements.id, receipt.movementId));
+
+  return averageCost;
+}
+
+/**
+ * FIFO layers (costed Stock In movements, newest first) of the given products,
+ * optionally as of a date
+ */
+async function getCostLayers(tenantId: string, asOf: Date | null, key?: CostKey, executor: DbExecutor = db) {
+  const conditions = [
+    eq(stockMovements.tenantId, tenantId),
+    eq(stockMovements.movementType, 'in'),
+    isNull(stockMovements.transferId),
+  ];
+  if (asOf) {
+    conditions.push(lte(stockMovements.createdAt, asOf));
+  }
+  if (key) {
+    conditions.push(eq(stockMovements.productId, key.productId));
+    conditions.push(key.variantId ? eq(stockMovements.variantId, key.variantId) : isNull(stockMovements.variantId));
+  }
+
+  const rows = await executor
+    .select({
+      productId: stockMovements.productId,
+      variantId: stockMovements.variantId,
+      quantity: stockMovements.quantity,
+      weightQuantity: stockMovements.weightQuantity,
+      costPrice: stockMovements.costPrice,
+      averageCost: stockMovements.averageCost,
+    })
+    .from(stockMovements)
+    .where(and(...conditions))
+    .orderBy(desc(stockMovements.createdAt));
+
+  const layers = new Map<string, { quantity: number; weight: number; unitCost: number | null }[]>();
+  for (const row of rows) {
+    const k = costKey(row);
+    layers.set(k, [...(layers.get(k) || []), {
+      quantity: row.quantity,
+      weight: parseFloat(row.weightQuantity || '0'),
+      unitCost: parseCost(row.costPrice) ?? parseCost(row.averageCost),
+    }]);
+  }
+  return layers;
+}
+
+/**
+ * The receipts that make up the stock on hand under FIFO, oldest first. Any
+ * part not covered by a receipt comes back with a null cost.
+ */
+function fifoWindow(
+  layers: { quantity: number; weight: number; unitCost: number | null }[],
+  onHand: number,
+  isWeightBased: boolean
+): CostLayer[] {
+  const window: CostLayer[] = [];
+  let remaining = onHand;
+
+  for (const layer of layers) {
+    if (remaining <= 0) break;
+    const amount = Math.min(isWeightBased ? layer.weight : layer.quantity, remaining);
+    if (amount <= 0) continue;
+    window.push({ amount, unitCost: layer.unitCost });
+    remaining -= amount;
+  }
+  if (remaining > 0) {
+    window.push({ amount: remaining, unitCost: null });
+  }
+
+  return window.reverse();
+}
+
+function priceWindow(window: CostLayer[], fallbackCost: number | null, isWeightBased: boolean) {
+  let value = 0;
+  let costed = 0;
+  for (const layer of window) {
+    const unitCost = layer.unitCost ?? fallbackCost;
+    if (unitCost === null) continue;
+    value += valueOf(layer.amount, unitCost, isWeightBased);
+    costed += layer.amount;
+  }
+  return { value, costed };
+}
+
+/**
+ * Unit cost to stamp on a sale of the given amount
+ *
+ * Weighted average: the current average. FIFO: the oldest receipts among the
+ * stock on hand, read before the sale leaves the shelf.
+ */
+export async function getIssueUnitCost(
+  tenantId: string,
+  issue: CostedAmount,
+  method?: CostingMethod,
+  executor: DbExecutor = db
+): Promise<number | null> {
+  const record = await getCostRecord(tenantId, issue, executor);
+  const fallbackCost = record.averageCost ?? record.costPrice;
+  if ((method || await getCostingMethod(tenantId, executor)) !== 'fifo' || !(issue.amount > 0)) {
+    return fallbackCost;
+  }
+
+  const onHand = await getOnHandTotal(tenantId, issue, issue.isWeightBased, executor);
+  const layers = (await getCostLayers(tenantId, null, issue, executor)).get(costKey(issue)) || [];
+
+  // Take the issue from the old end of the stock on hand
+  const issued: CostLayer[] = [];
+  let remaining = issue.amount;
+  for (const layer of fifoWindow(layers, Math.max(onHand, issue.amount), issue.isWeightBased)) {
+    if (remaining <= 0) break;
+    const amount = Math.min(layer.amount, remaining);
+    issued.push({ amount, unitCost: layer.unitCost });
+    remaining -= amount;
+  }
+
+  const { value, costed } = priceWindow(issued, fallbackCost, issue.isWeightBased);
+  if (costed <= 0) return fallbackCost;
+  return round4(issue.isWeightBased ? value / (costed / 1000) : value / costed);
+}
+
+/**
+ * Stock on hand of every inventory row as of a date: the amount before the
+ * row's first movement after the date, or the current amount when it has not
+ * moved since
+ */
+async function getOnHandAsOf(tenantId: string, asOf: Date): Promise<Map<string, { quantity: number; weight: number }>> {
+  const rows = await db
+    .select({
+      inventoryId: stockMovements.inventoryId,
+      previousQuantity: stockMovements.previousQuantity,
+      previousWeightQuantity: stockMovements.previousWeightQuantity,
+    })
+    .from(stockMovements)
+    .where(and(eq(stockMovements.tenantId, tenantId), gt(stockMovements.createdAt, asOf)))
+    .orderBy(asc(stockMovements.createdAt));
+
+  const onHand = new Map<string, { quantity: number; weight: number }>();
+  for (const row of rows) {
+    if (onHand.has(row.inventoryId)) continue;
+    onHand.set(row.inventoryId, {
+      quantity: row.previousQuantity,
+      weight: parseFloat(row.previousWeightQuantity || '0'),
+    });
+  }
+  return onHand;
+}
+
+/**
+ * Weighted-average cost of every product/variant as of a date: the average
+ * stamped on its last costed Stock In up to then
+ */
+async function getAverageCostsAsOf(tenantId: string, asOf: Date): Promise<Map<string, number>> {
+  const rows = await db
+    .select({
+      productId: stockMovements.productId,
+      variantId: stockMovements.variantId,
+      averageCost: stockMovements.averageCost,
+    })
+    .from(stockMovements)
+    .where(and(
+      eq(stockMovements.tenantId, tenantId),
+      isNotNull(stockMovements.averageCost),
+      lte(stockMovements.createdAt, asOf)
+    ))
+    .orderBy(desc(stockMovements.createdAt));
+
+  const costs = new Map<string, number>();
+  for (const row of rows) {
+    const k = costKey(row);
+    if (!costs.has(k)) costs.set(k, parseFloat(row.averageCost!));
+  }
+  return costs;
+}
+
+/**
+ * Value of the stock on hand, now or as of a date, by inventory row with
+ * totals per category and location
+ */
+export async function getInventoryValuation(tenantId: string, options: ValuationOptions = {}) {
+  const asOf = options.asOf || null;
+  const method = options.method || await getCostingMethod(tenantId);
+  const defaultLocation = await getDefaultLocation(tenantId);
+
+  const conditions = [eq(productInventory.tenantId, tenantId)];
+  if (options.locationId) {
+    conditions.push(options.locationId === defaultLocation.id
+      ? or(eq(productInventory.locationId, defaultLocation.id), isNull(productInventory.locationId))!
+      : eq(productInventory.locationId, options.locationId));
+  }
+  if (options.categoryId) {
+    conditions.push(eq(products.categoryId, options.categoryId));
+  }
+
+  const rows = await db
+    .select({
+      inventory: productInventory,
+      productId: products.id,
+      productName: products.name,
+      productSku: products.sku,
+      stockManagementType: products.stockManagementType,
+      categoryId: products.categoryId,
+      categoryName: categories.name,
+      productAverageCost: products.averageCost,
+      productCost: products.costPrice,
+      variantTitle: productVariants.title,
+      variantSku: productVariants.sku,
+      variantAverageCost: productVariants.averageCost,
+      variantCost: productVariants.costPrice,
+      locationName: inventoryLocations.name,
+    })
+    .from(productInventory)
+    .innerJoin(products, and(eq(productInventory.productId, products.id), eq(products.tenantId, tenantId)))
+    .leftJoin(productVariants, eq(productInventory.variantId, productVariants.id))
+    .leftJoin(categories, eq(products.categoryId, categories.id))
+    .leftJoin(inventoryLocations, eq(productInventory.locationId, inventoryLocations.id))
+    .where(and(...conditions));
+
+  const [onHandAsOf, averagesAsOf] = asOf
+    ? await Promise.all([getOnHandAsOf(tenantId, asOf), getAverageCostsAsOf(tenantId, asOf)])
+    : [null, null];
+
+  const lines: ValuationLine[] = [];
+  for (const row of rows) {
+    const { inventory } = row;
+    const isWeightBased = isWeightBasedProduct(row.stockManagementType || 'quantity');
+
+    let onHand: number;
+    if (asOf && inventory.createdAt && inventory.createdAt > asOf) {
+      onHand = 0;
+    } else {
+      const past = onHandAsOf?.get(inventory.id);
+      onHand = past
+        ? (isWeightBased ? past.weight : past.quantity)
+        : (isWeightBased ? parseFloat(inventory.weightQuantity || '0') : inventory.quantity);
+    }
+    if (!(onHand > 0)) continue;
+
+    const key = { productId: row.productId, variantId: inventory.variantId };
+    const currentAverage = inventory.variantId ? parseCost(row.variantAverageCost) : parseCost(row.productAverageCost);
+    const average = asOf ? averagesAsOf!.get(costKey(key)) ?? null : currentAverage;
+
+    lines.push({
+      inventoryId: inventory.id,
+      productId: row.productId,
+      variantId: inventory.variantId || null,
+      productName: row.productName,
+      variantTitle: row.variantTitle,
+      sku: row.variantSku || row.productSku,
+      categoryId: row.categoryId,
+      categoryName: row.categoryName || 'Uncategorized',
+      locationId: inventory.locationId || defaultLocation.id,
+      locationName: row.locationName || defaultLocation.name,
+      isWeightBased,
+      onHand: isWeightBased ? round2(onHand) : onHand,
+      unitCost: average ?? parseCost(row.variantCost) ?? parseCost(row.productCost),
+      value: 0,
+    });
+  }
+
+  // FIFO prices each product's total stock from its receipts, then spreads it over locations
+  if (method === 'fifo' && lines.length > 0) {
+    const layers = await getCostLayers(tenantId, asOf);
+    const totals = new Map<string, number>();
+    for (const line of lines) {
+      totals.set(costKey(line), (totals.get(costKey(line)) || 0) + line.onHand);
+    }
+    const fifoCosts = new Map<string, number | null>();
+    for (const line of lines) {
+      const k = costKey(line);
+      if (fifoCosts.has(k)) continue;
+      const total = totals.get(k)!;
+      const { value, costed } = priceWindow(fifoWindow(layers.get(k) || [], total, line.isWeightBased), line.unitCost, line.isWeightBased);
+      fifoCosts.set(k, costed > 0 ? round4(line.isWeightBased ? value / (costed / 1000) : value / costed) : line.unitCost);
+    }
+    for (const line of lines) {
+      line.unitCost = fifoCosts.get(costKey(line)) ?? null;
+    }
+  }
+
+  const byCategory = new Map<string, { categoryId: string | null; categoryName: string; lines: number; value: number }>();
+  const byLocation = new Map<string, { locationId: string; locationName: string; lines: number; value: number }>();
+  let totalValue = 0;
+
+  for (const line of lines) {
+    line.value = line.unitCost !== null ? round2(valueOf(line.onHand, line.unitCost, line.isWeightBased)) : 0;
+    totalValue += line.value;
+
+    const category = byCategory.get(line.categoryId || '') || { categoryId: line.categoryId, categoryName: line.categoryName, lines: 0, value: 0 };
+    category.lines++;
+    category.value = round2(category.value + line.value);
+    byCategory.set(line.categoryId || '', category);
+
+    const location = byLocation.get(line.locationId) || { locationId: line.locationId, locationName: line.locationName, lines: 0, value: 0 };
+    location.lines++;
+    location.value = round2(location.value + line.value);
+    byLocation.set(line.locationId, location);
+  }
+
+  return {
+    asOf: asOf ? asOf.toISOString() : null,
+    method,
+    totalValue: round2(totalValue),
+    uncostedLines: lines.filter(line => line.unitCost === null).length,
+    byCategory: [...byCategory.values()].sort((a, b) => b.value - a.value),
+    byLocation: [...byLocation.values()].sort((a, b) => b.value - a.value),
+    lines: lines.sort((a, b) => b.value - a.value),
+  };
+}
@@ -0,0 +1,517 @@
+/**
+ * Inventory Locations
+ *
+ * Tenant-scoped warehouses and stores that hold stock. Every product_inventory
+ * row belongs to one location, so stock for a product/variant is the sum of
+ * its rows across locations. Rows created before locations existed have a
+ * null location_id and are treated as (and lazily moved into) the tenant's
+ * default location.
+ */
+
+import { db, type DbExecutor, type DbTransaction } from '@/lib/db';
+import { inventoryLocations, productInventory } from '@/lib/schema';
+import { and, asc, desc, eq, inArray, isNull, ne, or, sql } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+
+export type InventoryLocationType = 'warehouse' | 'store';
+
+export const INVENTORY_LOCATION_TYPES: InventoryLocationType[] = ['warehouse', 'store'];
+
+const DEFAULT_LOCATION_NAME = 'Main Warehouse';
+const DEFAULT_LOCATION_CODE = 'MAIN';
+
+export type InventoryLocationRow = typeof inventoryLocations.$inferSelect;
+export type ProductInventoryRow = typeof productInventory.$inferSelect;
+
+export interface InventoryLocationInput {
+  name?: string;
+  code?: string;
+  type?: InventoryLocationType;
+  address?: string | null;
+  isDefault?: boolean;
+  isActive?: boolean;
+}
+
+export interface InventoryLocationResult {
+  success: boolean;
+  error?: string;
+  location?: InventoryLocationRow;
+}
+
+export interface StockKey {
+  productId: string;
+  variantId?: string | null;
+}
+
+export interface FulfillmentRequest extends StockKey {
+  quantity: number;
+  weightQuantity?: number; // grams, for weight-based products
+  isWeightBased: boolean;
+}
+
+/**
+ * Thrown inside a transaction when locked stock no longer covers a line, so
+ * the whole transaction rolls back
+ */
+export class InsufficientStockError extends Error {
+  constructor(message: string, public readonly available: number) {
+    super(message);
+    this.name = 'InsufficientStockError';
+  }
+}
+
+/**
+ * Stock that can still be sold from an inventory row
+ */
+export function getAvailableStock(inventory: ProductInventoryRow, isWeightBased: boolean): number {
+  if (isWeightBased) {
+    return parseFloat(inventory.weightQuantity || '0') - parseFloat(inventory.reservedWeight || '0');
+  }
+  return inventory.quantity - (inventory.reservedQuantity || 0);
+}
+
+/**
+ * Lock inventory rows until the transaction ends (SELECT ... FOR UPDATE) and
+ * return their current levels. Rows are locked in id order so two
+ * transactions touching the same rows cannot deadlock on each other.
+ *
+ * Lots hang off their inventory row and are only changed while it is locked.
+ */
+export async function lockInventoryRows(
+  tx: DbTransaction,
+  tenantId: string,
+  inventoryIds: string[]
+): Promise<Map<string, ProductInventoryRow>> {
+  const ids = [...new Set(inventoryIds)].sort();
+  if (ids.length === 0) return new Map();
+
+  const rows = await tx
+    .select()
+    .from(productInventory)
+    .where(and(eq(productInventory.tenantId, tenantId), inArray(productInventory.id, ids)))
+    .orderBy(asc(productInventory.id))
+    .for('update');
+
+  return new Map(rows.map(row => [row.id, row]));
+}
+
+/**
+ * Lock the inventory rows a set of order items return stock to (see
+ * findInventoryForOrderItem), all at once and in id order
+ *
+ * @returns The locked rows, and the row id for each order item id
+ */
+export async function lockInventoryForOrderItems(
+  tx: DbTransaction,
+  tenantId: string,
+  items: Array<StockKey & { id: string; locationId?: string | null }>
+): Promise<{ inventoryIds: Map<string, string>; rows: Map<string, ProductInventoryRow> }> {
+  const inventoryIds = new Map<string, string>();
+  for (const item of items) {
+    const inventory = await findInventoryForOrderItem(tenantId, item);
+    if (inventory) inventoryIds.set(item.id, inventory.id);
+  }
+
+  const rows = await lockInventoryRows(tx, tenantId, [...inventoryIds.values()]);
+  for (const [itemId, inventoryId] of inventoryIds) {
+    if (!rows.has(inventoryId)) inventoryIds.delete(itemId);
+  }
+  return { inventoryIds, rows };
+}
+
+/**
+ * List a tenant's locations, default first
+ *
+ * @param tenantId The tenant
+ * @param includeInactive Include deactivated locations (for admin screens)
+ */
+export async function listLocations(tenantId: string, includeInactive = false) {
+  const conditions = [eq(inventoryLocations.tenantId, tenantId)];
+  if (!includeInactive) {
+    conditions.push(eq(inventoryLocations.isActive, true));
+  }
+
+  return db
+    .select()
+    .from(inventoryLocations)
+    .where(and(...conditions))
+    .orderBy(desc(inventoryLocations.isDefault), asc(inventoryLocations.name));
+}
+
+export async function getLocation(
+  tenantId: string,
+  locationId: string,
+  executor: DbExecutor = db
+): Promise<InventoryLocationRow | null> {
+  const [location] = await executor
+    .select()
+    .from(inventoryLocations)
+    .where(and(eq(inventoryLocations.id, locationId), eq(inventoryLocations.tenantId, tenantId)))
+    .limit(1);
+
+  return location || null;
+}
+
+/**
+ * The tenant's default location, created on first use so tenants that never
+ * set up locations keep working with a single "Main Warehouse"
+ */
+export async function getDefaultLocation(tenantId: string, executor: DbExecutor = db): Promise<InventoryLocationRow> {
+  const [existing] = await executor
+    .select()
+    .from(inventoryLocations)
+    .where(and(eq(inventoryLocations.tenantId, tenantId), eq(inventoryLocations.isDefault, true)))
+    .limit(1);
+
+  if (existing) return existing;
+
+  const id = uuidv4();
+  try {
+    await executor.insert(inventoryLocations).values({
+      id,
+      tenantId,
+      name: DEFAULT_LOCATION_NAME,
+      code: DEFAULT_LOCATION_CODE,
+      type: 'warehouse',
+      isDefault: true,
+      isActive: true,
+    });
+    console.log(`🏬 Created default inventory location for tenant ${tenantId}`);
+  } catch (error: any) {
+    // A concurrent request created it first (or MAIN is taken by a non-default location)
+    if (error?.code !== 'ER_DUP_ENTRY') throw error;
+  }
+
+  const [created] = await executor
+    .select()
+    .from(inventoryLocations)
+    .where(and(
+      eq(inventoryLocations.tenantId, tenantId),
+      or(eq(inventoryLocations.isDefault, true), eq(inventoryLocations.code, DEFAULT_LOCATION_CODE))
+    ))
+    .orderBy(desc(inventoryLocations.isDefault))
+    .limit(1);
+
+  return created;
+}
+
+/**
+ * Resolve an optional location id from a request to an active location of the tenant
+ *
+ * @returns The location, the default location when no id was given, or null when the id is unknown/inactive
+ */
+export async function resolveLocation(tenantId: string, locationId?: string | null): Promise<InventoryLocationRow | null> {
+  if (!locationId) {
+    return getDefaultLocation(tenantId);
+  }
+
+  const location = await getLocation(tenantId, locationId);
+  return location && location.isActive ? location : null;
+}
+
+function stockKeyConditions(tenantId: string, key: StockKey) {
+  return [
+    eq(productInventory.tenantId, tenantId),
+    eq(productInventory.productId, key.productId),
+    key.variantId ? eq(productInventory.variantId, key.variantId) : isNull(productInventory.variantId),
+  ];
+}
+
+/**
+ * Inventory row for a product/variant at a location
+ *
+ * Legacy rows without a location are matched for the default location and
+ * stamped with its id so they are found directly next time.
+ */
+export async function findInventoryAtLocation(
+  tenantId: string,
+  key: StockKey,
+  location: InventoryLocationRow,
+  executor: DbExecutor = db
+): Promise<ProductInventoryRow | null> {
+  const locationCondition = location.isDefault
+    ? or(eq(productInventory.locationId, location.id), isNull(productInventory.locationId))
+    : eq(productInventory.locationId, location.id);
+
+  const [inventory] = await executor
+    .select()
+    .from(productInventory)
+    .where(and(...stockKeyConditions(tenantId, key), locationCondition))
+    .orderBy(sql`${productInventory.locationId} IS NULL`)
+    .limit(1);
+
+  if (!inventory) return null;
+
+  if (!inventory.locationId) {
+    await executor
+      .update(productInventory)
+      .set({ locationId: location.id })
+      .where(eq(productInventory.id, inventory.id));
+    inventory.locationId = location.id;
+  }
+
+  return inventory;
+}
+
+/**
+ * Inventory row for a product/variant at a location, creating an empty one if needed
+ */
+export async function findOrCreateInventoryAtLocation(
+  tenantId: string,
+  key: StockKey,
+  location: InventoryLocationRow,
+  executor: DbExecutor = db
+): Promise<ProductInventoryRow> {
+  const existing = await findInventoryAtLocation(tenantId, key, location, executor);
+  if (existing) return existing;
+
+  const inventoryId = uuidv4();
+  await executor.insert(productInventory).values({
+    id: inventoryId,
+    tenantId,
+    productId: key.productId,
+    variantId: key.variantId || null,
+    locationId: location.id,
+    quantity: 0,
+    reservedQuantity: 0,
+    availableQuantity: 0,
+    weightQuantity: '0.00',
+    reservedWeight: '0.00',
+    availableWeight: '0.00',
+  });
+
+  const [created] = await executor.select().from(productInventory).where(eq(productInventory.id, inventoryId)).limit(1);
+  return created;
+}
+
+/**
+ * Inventory row an order line was picked from
+ *
+ * Uses the location recorded on the order item; items created before
+ * locations existed fall back to the default location.
+ */
+export async function findInventoryForOrderItem(
+  tenantId: string,
+  item: StockKey & { locationId?: string | null }
+): Promise<ProductInventoryRow | null> {
+  const location = (item.locationId && await getLocation(tenantId, item.locationId)) || await getDefaultLocation(tenantId);
+  return findInventoryAtLocation(tenantId, item, location);
+}
+
+/**
+ * Pick the location an order line is fulfilled from
+ *
+ * When a location is requested only that location is considered. Otherwise
+ * the default location is preferred, then the active location with the most
+ * available stock that can cover the whole line.
+ *
+ * @returns The chosen inventory row and location, or an error describing the shortfall
+ */
+export async function pickFulfillmentInventory(
+  tenantId: string,
+  request: FulfillmentRequest,
+  preferredLocation?: InventoryLocationRow | null
+): Promise<{ inventory?: ProductInventoryRow; location?: InventoryLocationRow; error?: string; available?: number }> {
+  const needed = request.isWeightBased ? (request.weightQuantity || 0) : request.quantity;
+
+  if (preferredLocation) {
+    const inventory = await findInventoryAtLocation(tenantId, request, preferredLocation);
+    if (!inventory) {
+      return { error: `No inventory record at ${preferredLocation.name}`, available: 0 };
+    }
+    const available = getAvailableStock(inventory, request.isWeightBased);
+    if (available < needed) {
+      return { error: `Insufficient stock at ${preferredLocation.name}`, available };
+    }
+    return { inventory, location: preferredLocation };
+  }
+
+  const defaultLocation = await getDefaultLocation(tenantId);
+  const defaultInventory = await findInventoryAtLocation(tenantId, request, defaultLocation);
+  if (defaultInventory && getAvailableStock(defaultInventory, request.isWeightBased) >= needed) {
+    return { inventory: defaultInventory, location: defaultLocation };
+  }
+
+  const candidates = await db
+    .select({ inventory: productInventory, location: inventoryLocations })
+    .from(productInventory)
+    .innerJoin(inventoryLocations, and(
+      eq(productInventory.locationId, inventoryLocations.id),
+      eq(inventoryLocations.tenantId, tenantId)
+    ))
+    .where(and(
+      ...stockKeyConditions(tenantId, request),
+      eq(inventoryLocations.isActive, true),
+      ne(inventoryLocations.id, defaultLocation.id)
+    ));
+
+  let best: { inventory: ProductInventoryRow; location: InventoryLocationRow } | null = null;
+  let bestAvailable = defaultInventory ? getAvailableStock(defaultInventory, request.isWeightBased) : 0;
+  let anyRecord = !!defaultInventory;
+
+  for (const candidate of candidates) {
+    anyRecord = true;
+    const available = getAvailableStock(candidate.inventory, request.isWeightBased);
+    if (available >= needed && (!best || available > getAvailableStock(best.inventory, request.isWeightBased))) {
+      best = candidate;
+    }
+    if (available > bestAvailable) bestAvailable = available;
+  }
+
+  if (best) return best;
+
+  return {
+    error: anyRecord ? 'Insufficient stock at any single location' : 'No inventory record found',
+    available: bestAvailable,
+  };
+}
+
+/**
+ * Create a location for the tenant
+ */
+export async function createLocation(tenantId: string, input: InventoryLocationInput): Promise<InventoryLocationResult> {
+  const name = input.name?.trim();
+  const code = input.code?.trim().toUpperCase();
+
+  if (!name || !code) {
+    return { success: false, error: 'Name and code are required' };
+  }
+  if (input.type && !INVENTORY_LOCATION_TYPES.includes(input.type)) {
+    return { success: false, error: `Type must be one of: ${INVENTORY_LOCATION_TYPES.join(', ')}` };
+  }
+
+  // Make sure a default exists before adding others so legacy stock stays in MAIN
+  await getDefaultLocation(tenantId);
+
+  const id = uuidv4();
+  try {
+    await db.insert(inventoryLocations).values({
+      id,
+      tenantId,
+      name,
+      code,
+      type: input.type || 'warehouse',
+      address: input.address || null,
+      isDefault: false,
+      isActive: input.isActive !== false,
+    });
+  } catch (error: any) {
+    if (error?.code === 'ER_DUP_ENTRY') {
+      return { success: false, error: `Location code ${code} is already in use` };
+    }
+    throw error;
+  }
+
+  if (input.isDefault) {
+    return updateLocation(tenantId, id, { isDefault: true });
+  }
+
+  console.log(`🏬 Created inventory location ${code} for tenant ${tenantId}`);
+  return { success: true, location: (await getLocation(tenantId, id))! };
+}
+
+/**
+ * Update a location; making it the default clears the flag on the previous default
+ */
+export async function updateLocation(tenantId: string, locationId: string, input: InventoryLocationInput): Promise<InventoryLocationResult> {
+  const location = await getLocation(tenantId, locationId);
+  if (!location) {
+    return { success: false, error: 'Location not found' };
+  }
+
+  const updates: Partial<typeof inventoryLocations.$inferInsert> = { updatedAt: new Date() };
+
+  if (input.name !== undefined) {
+    if (!input.name.trim()) return { success: false, error: 'Name is required' };
+    updates.name = input.name.trim();
+  }
+  if (input.code !== undefined) {
+    if (!input.code.trim()) return { success: false, error: 'Code is required' };
+    updates.code = input.code.trim().toUpperCase();
+  }
+  if (input.type !== undefined) {
+    if (!INVENTORY_LOCATION_TYPES.includes(input.type)) {
+      return { success: false, error: `Type must be one of: ${INVENTORY_LOCATION_TYPES.join(', ')}` };
+    }
+    updates.type = input.type;
+  }
+  if (input.address !== undefined) {
+    updates.address = input.address || null;
+  }
+  if (input.isActive !== undefined) {
+    if (!input.isActive && (location.isDefault || input.isDefault)) {
+      return { success: false, error: 'The default location cannot be deactivated' };
+    }
+    updates.isActive = input.isActive;
+  }
+  if (input.isDefault === false && location.isDefault) {
+    return { success: false, error: 'Choose another location as default instead' };
+  }
+
+  try {
+    if (input.isDefault && !location.isDefault) {
+      if (location.isActive === false && input.isActive !== true) {
+        return { success: false, error: 'An inactive location cannot be the default' };
+      }
+      // Legacy rows without a location belong to the old default; pin them there first
+      const previousDefault = await getDefaultLocation(tenantId);
+      await db
+        .update(productInventory)
+        .set({ locationId: previousDefault.id })
+        .where(and(eq(productInventory.tenantId, tenantId), isNull(productInventory.locationId)));
+      await db
+        .update(inventoryLocations)
+        .set({ isDefault: false, updatedAt: new Date() })
+        .where(and(eq(inventoryLocations.tenantId, tenantId), eq(inventoryLocations.isDefault, true)));
+      updates.isDefault = true;
+    }
+
+    await db
+      .update(inventoryLocations)
+      .set(updates)
+      .where(and(eq(inventoryLocations.id, locationId), eq(inventoryLocations.tenantId, tenantId)));
+  } catch (error: any) {
+    if (error?.code === 'ER_DUP_ENTRY') {
+      return { success: false, error: `Location code ${updates.code} is already in use` };
+    }
+    throw error;
+  }
+
+  return { success: true, location: (await getLocation(tenantId, locationId))! };
+}
+
+/**
+ * Delete a location that holds no stock
+ */
+export async function deleteLocation(tenantId: string, locationId: string): Promise<InventoryLocationResult> {
+  const location = await getLocation(tenantId, locationId);
+  if (!location) {
+    return { success: false, error: 'Location not found' };
+  }
+  if (location.isDefault) {
+    return { success: false, error: 'The default location cannot be deleted' };
+  }
+
+  const [stock] = await db
+    .select({ rows: sql<number>`COUNT(*)` })
+    .from(productInventory)
+    .where(and(
+      eq(productInventory.tenantId, tenantId),
+      eq(productInventory.locationId, locationId),
+      or(sql`${productInventory.quantity} <> 0`, sql`${productInventory.weightQuantity} <> 0`)
+    ));
+
+  if (Number(stock?.rows || 0) > 0) {
+    return { success: false, error: 'Transfer or adjust the stock held at this location before deleting it' };
+  }
+
+  await db
+    .delete(productInventory)
+    .where(and(eq(productInventory.tenantId, tenantId), eq(productInventory.locationId, locationId)));
+  await db
+    .delete(inventoryLocations)
+    .where(and(eq(inventoryLocations.id, locationId), eq(inventoryLocations.tenantId, tenantId)));
+
+  console.log(`🗑️ Deleted inventory location ${location.code} for tenant ${tenantId}`);
+  return { success: true, location };
+}
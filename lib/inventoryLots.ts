@@ -0,0 +1,598 @@
+/**
+ * Inventory Lots
+ *
+ * Batch/lot breakdown of product_inventory rows. Each lot carries its own
+ * lot number, expiry date and unit cost; the inventory row stays the source
+ * of truth for on-hand totals, and any stock not covered by lots (received
+ * before lots existed, or without a lot number) is untracked.
+ *
+ * Outgoing stock is taken first-expiry-first-out (FEFO): unexpired lots with
+ * the earliest expiry date go first, lots without an expiry date last. Order
+ * items record the lots they consumed in order_item_lots so cancellations,
+ * deletions and returns put stock back into the same lots. Expired lots are
+ * written off by writeOffExpiredLots (see /api/cron/expired-lots).
+ */
+
+import { db, type DbExecutor } from '@/lib/db';
+import { inventoryLocations, inventoryLots, orderItemLots, productInventory, products, productVariants, stockMovements } from '@/lib/schema';
+import { and, asc, eq, lt, lte, sql, type SQL } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { isWeightBasedProduct } from '@/utils/weightUtils';
+import type { ProductInventoryRow } from '@/lib/inventoryLocations';
+
+export type InventoryLotRow = typeof inventoryLots.$inferSelect;
+export type InventoryLotStatus = 'active' | 'depleted' | 'expired';
+
+export interface ReceiveLotInput {
+  lotNumber: string;
+  expiryDate?: string | null; // YYYY-MM-DD
+  amount: number; // units, or grams for weight-based products
+  isWeightBased: boolean;
+  unitCost?: number | string | null;
+  supplier?: string | null;
+  reference?: string | null;
+}
+
+export interface LotAllocation {
+  lotId: string;
+  lotNumber: string;
+  expiryDate: string | null;
+  unitCost: string | null;
+  supplier: string | null;
+  amount: number; // units, or grams for weight-based products
+}
+
+export interface SellableStock {
+  onHand: number;
+  inLots: number;
+  expired: number;
+  sellable: number;
+}
+
+export interface ExpiredLotWriteOffSummary {
+  processed: number;
+  writtenOff: number;
+  failed: number;
+  errors: string[];
+}
+
+export interface ListLotsFilters {
+  status?: InventoryLotStatus | 'all';
+  expiringWithinDays?: number; // Active lots expiring within N days (including already expired)
+  expiredOnly?: boolean;
+  locationId?: string;
+  productId?: string;
+}
+
+/**
+ * Today's date as YYYY-MM-DD; a lot expires at the end of its expiry date
+ */
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function lotAmount(lot: InventoryLotRow, isWeightBased: boolean): number {
+  return isWeightBased ? parseFloat(lot.weightQuantity || '0') : lot.quantity;
+}
+
+function isExpired(lot: InventoryLotRow, asOf: string): boolean {
+  return !!lot.expiryDate && lot.expiryDate < asOf;
+}
+
+/**
+ * FEFO order: earliest expiry first, lots without an expiry last, then oldest receipt
+ */
+function compareFefo(a: InventoryLotRow, b: InventoryLotRow): number {
+  if (a.expiryDate !== b.expiryDate) {
+    if (!a.expiryDate) return 1;
+    if (!b.expiryDate) return -1;
+    return a.expiryDate < b.expiryDate ? -1 : 1;
+  }
+  return (a.receivedAt?.getTime() || 0) - (b.receivedAt?.getTime() || 0);
+}
+
+/**
+ * Normalise a user-supplied expiry date to YYYY-MM-DD
+ *
+ * @returns The normalised date, null when empty, or undefined when it cannot be parsed
+ */
+export function normalizeExpiryDate(value: unknown): string | null | undefined {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string' && !(value instanceof Date)) return undefined;
+
+  const parsed = new Date(value);
+  if (isNaN(parsed.getTime())) return undefined;
+  return parsed.toISOString().split('T')[0];
+}
+
+async function getActiveLots(tenantId: string, inventoryId: string, executor: DbExecutor = db): Promise<InventoryLotRow[]> {
+  return executor
+    .select()
+    .from(inventoryLots)
+    .where(and(
+      eq(inventoryLots.tenantId, tenantId),
+      eq(inventoryLots.inventoryId, inventoryId),
+      eq(inventoryLots.status, 'active')
+    ));
+}
+
+/**
+ * Lots still holding stock on an inventory row, in FEFO order
+ */
+export async function getInventoryLots(tenantId: string, inventoryId: string): Promise<InventoryLotRow[]> {
+  const lots = await getActiveLots(tenantId, inventoryId);
+  return lots.sort(compareFefo);
+}
+
+/**
+ * How much of an inventory row can be sold: on-hand stock minus stock sitting
+ * in expired lots that have not been written off yet
+ */
+export async function getSellableStock(
+  tenantId: string,
+  inventory: ProductInventoryRow,
+  isWeightBased: boolean,
+  executor: DbExecutor = db
+): Promise<SellableStock> {
+  const onHand = isWeightBased ? parseFloat(inventory.weightQuantity || '0') : inventory.quantity;
+  const lots = await getActiveLots(tenantId, inventory.id, executor);
+  const asOf = today();
+
+  let inLots = 0;
+  let expired = 0;
+  for (const lot of lots) {
+    const amount = lotAmount(lot, isWeightBased);
+    inLots += amount;
+    if (isExpired(lot, asOf)) expired += amount;
+  }
+
+  const untracked = Math.max(0, onHand - inLots);
+  const sellable = Math.max(0, Math.min(onHand, inLots - expired + untracked));
+
+  return { onHand, inLots: round2(inLots), expired: round2(expired), sellable: round2(sellable) };
+}
+
+/**
+ * Book received stock into a lot on an inventory row. Receiving the same lot
+ * number and expiry again tops up the existing lot.
+ *
+ * The caller is responsible for increasing the inventory row itself.
+ *
+ * @param executor Transaction holding the inventory row lock, if any
+ */
+export async function receiveLot(
+  tenantId: string,
+  inventory: ProductInventoryRow,
+  input: ReceiveLotInput,
+  executor: DbExecutor = db
+): Promise<InventoryLotRow> {
+  const lotNumber = input.lotNumber.trim();
+  const expiryDate = input.expiryDate || null;
+  const amount = input.isWeightBased ? round2(input.amount) : Math.round(input.amount);
+  const unitCost = input.unitCost !== undefined && input.unitCost !== null && input.unitCost !== ''
+    ? parseFloat(String(input.unitCost)).toFixed(2)
+    : null;
+  const now = new Date();
+
+  const [existing] = await executor
+    .select()
+    .from(inventoryLots)
+    .where(and(
+      eq(inventoryLots.tenantId, tenantId),
+      eq(inventoryLots.inventoryId, inventory.id),
+      eq(inventoryLots.lotNumber, lotNumber),
+      expiryDate ? eq(inventoryLots.expiryDate, expiryDate) : sql`${inventoryLots.expiryDate} IS NULL`
+    ))
+    .limit(1);
+
+  if (existing) {
+    await executor
+      .update(inventoryLots)
+      .set(input.isWeightBased
+        ? {
+            receivedWeight: round2(parseFloat(existing.receivedWeight || '0') + amount).toFixed(2),
+            weightQuantity: round2(parseFloat(existing.weightQuantity || '0') + amount).toFixed(2),
+            status: 'active',
+            unitCost: unitCost ?? existing.unitCost,
+            updatedAt: now,
+          }
+        : {
+            receivedQuantity: existing.receivedQuantity + amount,
+            quantity: existing.quantity + amount,
+            status: 'active',
+            unitCost: unitCost ?? existing.unitCost,
+            updatedAt: now,
+          })
+      .where(eq(inventoryLots.id, existing.id));
+
+    const [updated] = await executor.select().from(inventoryLots).where(eq(inventoryLots.id, existing.id)).limit(1);
+    return updated;
+  }
+
+  const lot = {
+    id: uuidv4(),
+    tenantId,
+    inventoryId: inventory.id,
+    productId: inventory.productId!,
+    variantId: inventory.variantId || null,
+    locationId: inventory.locationId || null,
+    lotNumber,
+    expiryDate,
+    receivedQuantity: input.isWeightBased ? 0 : amount,
+    receivedWeight: input.isWeightBased ? amount.toFixed(2) : '0.00',
+    quantity: input.isWeightBased ? 0 : amount,
+    weightQuantity: input.isWeightBased ? amount.toFixed(2) : '0.00',
+    unitCost,
+    supplier: input.supplier || null,
+    reference: input.reference || null,
+    status: 'active',
+    receivedAt: now,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await executor.insert(inventoryLots).values(lot);
+
+  console.log(`📦 Received lot ${lotNumber}${expiryDate ? ` (exp ${expiryDate})` : ''} into inventory ${inventory.id}`);
+  return lot;
+}
+
+/**
+ * Take stock out of an inventory row's lots in FEFO order, skipping expired
+ * lots. Anything beyond the unexpired lots comes from untracked stock and
+ * has no allocation.
+ *
+ * The caller is responsible for decreasing the inventory row itself.
+ *
+ * @param orderLink When set, the allocations are recorded against the order item
+ * @param executor Transaction holding the inventory row lock, if any
+ */
+export async function consumeLots(
+  tenantId: string,
+  inventory: ProductInventoryRow,
+  amount: number,
+  isWeightBased: boolean,
+  orderLink?: { orderId: string; orderItemId: string },
+  executor: DbExecutor = db
+): Promise<LotAllocation[]> {
+  const asOf = today();
+  const lots = (await getActiveLots(tenantId, inventory.id, executor))
+    .filter(lot => !isExpired(lot, asOf))
+    .sort(compareFefo);
+
+  const allocations: LotAllocation[] = [];
+  let remaining = amount;
+  const now = new Date();
+
+  for (const lot of lots) {
+    if (remaining <= 0) break;
+
+    const inLot = lotAmount(lot, isWeightBased);
+    const take = isWeightBased ? round2(Math.min(inLot, remaining)) : Math.min(inLot, remaining);
+    if (take <= 0) continue;
+
+    const left = isWeightBased ? round2(inLot - take) : inLot - take;
+    await executor
+      .update(inventoryLots)
+      .set({
+        ...(isWeightBased ? { weightQuantity: left.toFixed(2) } : { quantity: left }),
+        status: left <= 0 ? 'depleted' : 'active',
+        updatedAt: now,
+      })
+      .where(eq(inventoryLots.id, lot.id));
+
+    if (orderLink) {
+      await executor.insert(orderItemLots).values({
+        id: uuidv4(),
+        tenantId,
+        orderId: orderLink.orderId,
+        orderItemId: orderLink.orderItemId,
+        lotId: lot.id,
+        quantity: isWeightBased ? 0 : take,
+        weightQuantity: isWeightBased ? take.toFixed(2) : '0.00',
+        createdAt: now,
+      });
+    }
+
+    allocations.push({
+      lotId: lot.id,
+      lotNumber: lot.lotNumber,
+      expiryDate: lot.expiryDate,
+      unitCost: lot.unitCost,
+      supplier: lot.supplier,
+      amount: take,
+    });
+    remaining = isWeightBased ? round2(remaining - take) : remaining - take;
+  }
+
+  return allocations;
+}
+
+/**
+ * Lot number and expiry to show on an order item for its allocations: the
+ * lot numbers joined, and the earliest expiry
+ */
+export function describeLotAllocations(allocations: LotAllocation[]): { lotNumber: string | null; expiryDate: string | null } {
+  if (allocations.length === 0) {
+    return { lotNumber: null, expiryDate: null };
+  }
+
+  const lotNumbers = [...new Set(allocations.map(allocation => allocation.lotNumber))];
+  const expiries = allocations
+    .map(allocation => allocation.expiryDate)
+    .filter((date): date is string => !!date)
+    .sort();
+
+  return {
+    lotNumber: lotNumbers.join(', ').slice(0, 100),
+    expiryDate: expiries[0] || null,
+  };
+}
+
+/**
+ * Put stock taken by an order item back into the lots it came from, latest
+ * expiry first
+ *
+ * The caller is responsible for increasing the inventory row itself.
+ *
+ * @param amount How much to put back (units or grams); everything not yet returned when omitted
+ * @param executor Transaction holding the inventory row lock, if any
+ * @returns The amount put back into lots
+ */
+export async function restoreOrderItemLots(
+  tenantId: string,
+  orderItemId: string,
+  isWeightBased: boolean,
+  amount?: number,
+  executor: DbExecutor = db
+): Promise<number> {
+  const allocations = await executor
+    .select({ allocation: orderItemLots, lot: inventoryLots })
+    .from(orderItemLots)
+    .innerJoin(inventoryLots, eq(orderItemLots.lotId, inventoryLots.id))
+    .where(and(eq(orderItemLots.tenantId, tenantId), eq(orderItemLots.orderItemId, orderItemId)));
+
+  allocations.sort((a, b) => compareFefo(b.lot, a.lot));
+
+  let remaining = amount ?? Number.POSITIVE_INFINITY;
+  let restored = 0;
+  const now = new Date();
+
+  for (const { allocation, lot } of allocations) {
+    if (remaining <= 0) break;
+
+    const outstanding = isWeightBased
+      ? round2(parseFloat(allocation.weightQuantity || '0') - parseFloat(allocation.returnedWeight || '0'))
+      : allocation.quantity - allocation.returnedQuantity;
+    const give = isWeightBased ? round2(Math.min(outstanding, remaining)) : Math.min(outstanding, remaining);
+    if (give <= 0) continue;
+
+    await executor
+      .update(orderItemLots)
+      .set(isWeightBased
+        ? { returnedWeight: round2(parseFloat(allocation.returnedWeight || '0') + give).toFixed(2) }
+        : { returnedQuantity: allocation.returnedQuantity + give })
+      .where(eq(orderItemLots.id, allocation.id));
+
+    // Written-off lots become active again; the next expiry run writes them off if they are past date
+    await executor
+      .update(inventoryLots)
+      .set({
+        ...(isWeightBased
+          ? { weightQuantity: round2(parseFloat(lot.weightQuantity || '0') + give).toFixed(2) }
+          : { quantity: lot.quantity + give }),
+        status: 'active',
+        updatedAt: now,
+      })
+      .where(eq(inventoryLots.id, lot.id));
+
+    restored = isWeightBased ? round2(restored + give) : restored + give;
+    remaining = isWeightBased ? round2(remaining - give) : remaining - give;
+  }
+
+  return restored;
+}
+
+/**
+ * Carry lots along with stock moved between two inventory rows (stock
+ * transfers): consumes FEFO at the source and books the same lots at the
+ * destination
+ */
+export async function transferLots(
+  tenantId: string,
+  source: ProductInventoryRow,
+  destination: ProductInventoryRow,
+  amount: number,
+  isWeightBased: boolean,
+  reference: string
+): Promise<LotAllocation[]> {
+  const allocations = await consumeLots(tenantId, source, amount, isWeightBased);
+
+  for (const allocation of allocations) {
+    await receiveLot(tenantId, destination, {
+      lotNumber: allocation.lotNumber,
+      expiryDate: allocation.expiryDate,
+      amount: allocation.amount,
+      isWeightBased,
+      unitCost: allocation.unitCost,
+      supplier: allocation.supplier,
+      reference,
+    });
+  }
+
+  return allocations;
+}
+
+/**
+ * Lots with product, variant and location details for the lots / near-expiry report
+ */
+export async function listLots(tenantId: string, filters: ListLotsFilters = {}) {
+  const asOf = today();
+  const conditions: SQL[] = [eq(inventoryLots.tenantId, tenantId)];
+
+  if (filters.expiredOnly) {
+    conditions.push(eq(inventoryLots.status, 'active'), lt(inventoryLots.expiryDate, asOf));
+  } else if (filters.expiringWithinDays !== undefined) {
+    conditions.push(
+      eq(inventoryLots.status, 'active'),
+      lte(inventoryLots.expiryDate, addDays(asOf, filters.expiringWithinDays))
+    );
+  } else if (filters.status && filters.status !== 'all') {
+    conditions.push(eq(inventoryLots.status, filters.status));
+  }
+  if (filters.locationId) {
+    conditions.push(eq(inventoryLots.locationId, filters.locationId));
+  }
+  if (filters.productId) {
+    conditions.push(eq(inventoryLots.productId, filters.productId));
+  }
+
+  const rows = await db
+    .select({
+      lot: inventoryLots,
+      product: {
+        id: products.id,
+        name: products.name,
+        sku: products.sku,
+        stockManagementType: products.stockManagementType,
+      },
+      variant: {
+        id: productVariants.id,
+        title: productVariants.title,
+        sku: productVariants.sku,
+      },
+      location: {
+        id: inventoryLocations.id,
+        name: inventoryLocations.name,
+        code: inventoryLocations.code,
+      },
+    })
+    .from(inventoryLots)
+    .leftJoin(products, eq(inventoryLots.productId, products.id))
+    .leftJoin(productVariants, eq(inventoryLots.variantId, productVariants.id))
+    .leftJoin(inventoryLocations, eq(inventoryLots.locationId, inventoryLocations.id))
+    .where(and(...conditions))
+    .orderBy(sql`${inventoryLots.expiryDate} IS NULL`, asc(inventoryLots.expiryDate), asc(inventoryLots.receivedAt));
+
+  const todayMs = new Date(`${asOf}T00:00:00Z`).getTime();
+  return rows.map(row => ({
+    ...row,
+    daysToExpiry: row.lot.expiryDate
+      ? Math.round((new Date(`${row.lot.expiryDate}T00:00:00Z`).getTime() - todayMs) / (1000 * 60 * 60 * 24))
+      : null,
+  }));
+}
+
+/**
+ * Write off stock in expired lots with an "Expired Products" stock-out
+ * movement per lot
+ *
+ * @param tenantId Limit to one tenant; all tenants when omitted (cron)
+ * @param userId Admin user recorded on the movements
+ */
+export async function writeOffExpiredLots(tenantId?: string, userId?: string): Promise<ExpiredLotWriteOffSummary> {
+  const asOf = today();
+  const conditions: SQL[] = [eq(inventoryLots.status, 'active'), lt(inventoryLots.expiryDate, asOf)];
+  if (tenantId) {
+    conditions.push(eq(inventoryLots.tenantId, tenantId));
+  }
+
+  const expiredLots = await db
+    .select({ lot: inventoryLots, stockManagementType: products.stockManagementType })
+    .from(inventoryLots)
+    .leftJoin(products, eq(inventoryLots.productId, products.id))
+    .where(and(...conditions));
+
+  const summary: ExpiredLotWriteOffSummary = { processed: expiredLots.length, writtenOff: 0, failed: 0, errors: [] };
+
+  for (const { lot, stockManagementType } of expiredLots) {
+    try {
+      await writeOffLot(lot, isWeightBasedProduct(stockManagementType || 'quantity'), userId);
+      summary.writtenOff++;
+    } catch (error) {
+      summary.failed++;
+      summary.errors.push(`Lot ${lot.lotNumber}: ${error instanceof Error ? error.message : String(error)}`);
+      console.error(`❌ Failed to write off expired lot ${lot.id}:`, error);
+    }
+  }
+
+  if (summary.writtenOff > 0) {
+    console.log(`🗑️ Wrote off ${summary.writtenOff} expired lot(s)${tenantId ? ` for tenant ${tenantId}` : ''}`);
+  }
+  return summary;
+}
+
+async function writeOffLot(lot: InventoryLotRow, isWeightBased: boolean, userId?: string) {
+  const [inventory] = await db
+    .select()
+    .from(productInventory)
+    .where(and(eq(productInventory.id, lot.inventoryId), eq(productInventory.tenantId, lot.tenantId)))
+    .limit(1);
+
+  const now = new Date();
+  const inLot = lotAmount(lot, isWeightBased);
+
+  if (inventory && inLot > 0) {
+    const previousQuantity = inventory.quantity;
+    const previousWeight = parseFloat(inventory.weightQuantity || '0');
+
+    // Never take the row below zero if it was already reduced outside the lots
+    const amount = isWeightBased ? round2(Math.min(inLot, previousWeight)) : Math.min(inLot, previousQuantity);
+    const newQuantity = isWeightBased ? previousQuantity : previousQuantity - amount;
+    const newWeight = isWeightBased ? round2(previousWeight - amount) : previousWeight;
+
+    if (amount > 0) {
+      await db
+        .update(productInventory)
+        .set(isWeightBased
+          ? {
+              weightQuantity: newWeight.toFixed(2),
+              availableWeight: (newWeight - parseFloat(inventory.reservedWeight || '0')).toFixed(2),
+              updatedAt: now,
+            }
+          : {
+              quantity: newQuantity,
+              availableQuantity: newQuantity - (inventory.reservedQuantity || 0),
+              updatedAt: now,
+            })
+        .where(eq(productInventory.id, inventory.id));
+
+      await db.insert(stockMovements).values({
+        id: uuidv4(),
+        tenantId: lot.tenantId,
+        inventoryId: inventory.id,
+        productId: lot.productId,
+        variantId: lot.variantId || null,
+        movementType: 'out',
+        quantity: isWeightBased ? 0 : amount,
+        previousQuantity,
+        newQuantity,
+        weightQuantity: isWeightBased ? amount.toFixed(2) : '0.00',
+        previousWeightQuantity: previousWeight.toFixed(2),
+        newWeightQuantity: newWeight.toFixed(2),
+        reason: 'Expired Products',
+        locationId: inventory.locationId,
+        lotId: lot.id,
+        reference: lot.lotNumber,
+        notes: `Lot ${lot.lotNumber} expired on ${lot.expiryDate}`,
+        costPrice: lot.unitCost,
+        processedBy: userId || null,
+        createdAt: now,
+      });
+    }
+  }
+
+  await db
+    .update(inventoryLots)
+    .set({ quantity: 0, weightQuantity: '0.00', status: 'expired', updatedAt: now })
+    .where(eq(inventoryLots.id, lot.id));
+}
@@ -0,0 +1,351 @@
+/**
+ * Loyalty Points
+ *
+ * The loyalty programme is run per tenant. Its rules are the tenant's
+ * loyalty_* / points_* settings (Settings > Loyalty), and every balance
+ * (user_loyalty_points) and history row (loyalty_points_history) carries the
+ * tenant of the customer it belongs to. Everything here takes the tenant
+ * explicitly, so one store never reads or moves another store's points.
+ *
+ * Points for an order start at points_earning_rate per currency unit of the
+ * earning basis. Each order line is then multiplied by the best active earning
+ * rule that matches it (a category, product or tag bonus, or a storewide
+ * campaign within its dates), lines with a discount can be excluded, and the
+ * whole order is multiplied by the customer's tier, reached by their spend
+ * over the last 12 months.
+ */
+
+import { db, type DbExecutor } from '@/lib/db';
+import {
+  loyaltyEarningRules,
+  loyaltyTiers,
+  orderItems,
+  orders,
+  productTags,
+  products,
+  productVariants,
+  settings,
+  user,
+  userLoyaltyPoints,
+} from '@/lib/schema';
+import { and, desc, eq, gte, inArray, isNull, ne, or, sql } from 'drizzle-orm';
+
+export const LOYALTY_SETTING_KEYS = [
+  'loyalty_enabled',
+  'points_earning_rate',
+  'points_earning_basis',
+  'points_redemption_value',
+  'points_expiry_months',
+  'points_minimum_order',
+  'points_max_redemption_percent',
+  'points_redemption_minimum',
+  'points_exclude_discounted_items',
+  'points_return_window_days',
+  'points_expiry_reminder_days',
+] as const;
+
+export const EARNING_RULE_SCOPES = ['all', 'category', 'product', 'tag'] as const;
+export type EarningRuleScope = typeof EARNING_RULE_SCOPES[number];
+
+// Spend that counts towards a tier
+const TIER_SPEND_MONTHS = 12;
+
+export interface LoyaltySettings {
+  enabled: boolean;
+  earningRate: number; // Points per currency unit
+  earningBasis: 'subtotal' | 'total';
+  redemptionValue: number; // Currency value of one point
+  expiryMonths: number; // 0 = points never expire
+  minimumOrder: number;
+  maxRedemptionPercent: number;
+  redemptionMinimum: number;
+  excludeDiscountedItems: boolean; // Discounted or on-sale lines earn no points
+  returnWindowDays: number; // Days after the order before its pending points activate
+  expiryReminderDays: number; // Days before expiry to remind the customer; 0 = no reminders
+}
+
+export interface LoyaltyTierStatus {
+  tier: { id: string; name: string; multiplier: number } | null;
+  spend: number; // Spend over the last 12 months
+  nextTier: { name: string; minSpend: number } | null;
+}
+
+export interface PointsBreakdownLine {
+  orderItemId: string;
+  productName: string;
+  amount: number; // Share of the earning basis
+  multiplier: number;
+  rule: string | null; // Earning rule that set the multiplier
+  excluded: boolean; // Discounted line left out of earning
+  points: number;
+}
+
+export interface PointsBreakdown {
+  earningBasis: 'subtotal' | 'total';
+  earningRate: number;
+  baseAmount: number;
+  lines: PointsBreakdownLine[];
+  otherAmount: number; // Part of the basis not on an order line (tax, shipping)
+  otherPoints: number;
+  linePoints: number; // Points from lines and other amount before the tier
+  tier: { id: string; name: string; multiplier: number } | null;
+  tierSpend: number;
+  tierBonus: number;
+  points: number;
+  belowMinimum: boolean;
+}
+
+/**
+ * The tenant's loyalty programme rules, with defaults for anything not set
+ */
+export async function getLoyaltySettings(tenantId: string, executor: DbExecutor = db): Promise<LoyaltySettings> {
+  const rows = await executor
+    .select({ key: settings.key, value: settings.value })
+    .from(settings)
+    .where(and(
+      eq(settings.tenantId, tenantId),
+      inArray(settings.key, [...LOYALTY_SETTING_KEYS])
+    ));
+
+  const values = new Map(rows.map(row => [row.key, row.value]));
+  const number = (key: string, fallback: number) => {
+    const value = parseFloat(values.get(key) ?? '');
+    return Number.isFinite(value) ? value : fallback;
+  };
+
+  return {
+    enabled: values.get('loyalty_enabled') === 'true',
+    earningRate: number('points_earning_rate', 1),
+    earningBasis: values.get('points_earning_basis') === 'total' ? 'total' : 'subtotal',
+    redemptionValue: number('points_redemption_value', 0.01),
+    expiryMonths: number('points_expiry_months', 12),
+    minimumOrder: number('points_minimum_order', 0),
+    maxRedemptionPercent: number('points_max_redemption_percent', 50),
+    redemptionMinimum: number('points_redemption_minimum', 100),
+    excludeDiscountedItems: values.get('points_exclude_discounted_items') === 'true',
+    returnWindowDays: number('points_return_window_days', 0),
+    expiryReminderDays: number('points_expiry_reminder_days', 7),
+  };
+}
+
+/**
+ * When points earned or activated now expire (points_expiry_months), or null if they never do
+ */
+export function getPointsExpiryDate(loyaltySettings: Pick<LoyaltySettings, 'expiryMonths'>, from: Date = new Date()): Date | null {
+  if (!(loyaltySettings.expiryMonths > 0)) return null;
+
+  const expiresAt = new Date(from);
+  expiresAt.setMonth(expiresAt.getMonth() + loyaltySettings.expiryMonths);
+  return expiresAt;
+}
+
+/**
+ * Whether the user is a customer of the tenant
+ */
+export async function isTenantUser(tenantId: string, userId: string, executor: DbExecutor = db): Promise<boolean> {
+  const [row] = await executor
+    .select({ id: user.id })
+    .from(user)
+    .where(and(eq(user.id, userId), eq(user.tenantId, tenantId)))
+    .limit(1);
+
+  return !!row;
+}
+
+/**
+ * The user's points balance with the tenant, or null before they earn any
+ */
+export async function getLoyaltyAccount(tenantId: string, userId: string, executor: DbExecutor = db) {
+  const [account] = await executor
+    .select()
+    .from(userLoyaltyPoints)
+    .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)))
+    .limit(1);
+
+  return account || null;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * The customer's tier from their spend over the last 12 months
+ *
+ * Spend is the total of their orders with the tenant that were not cancelled
+ * or refunded. The tier is the active one with the highest minimum spend the
+ * customer has reached.
+ *
+ * @param excludeOrderId Leave this order out of the spend, so an order is
+ *                       rated by the tier the customer held when placing it
+ */
+export async function getLoyaltyTier(
+  tenantId: string,
+  userId: string,
+  excludeOrderId?: string | null,
+  executor: DbExecutor = db
+): Promise<LoyaltyTierStatus> {
+  const since = new Date();
+  since.setMonth(since.getMonth() - TIER_SPEND_MONTHS);
+
+  const conditions = [
+    eq(orders.tenantId, tenantId),
+    eq(orders.userId, userId),
+    gte(orders.createdAt, since),
+    ne(orders.status, 'cancelled'),
+    or(isNull(orders.paymentStatus), ne(orders.paymentStatus, 'refunded')),
+    or(eq(orders.orderType, 'customer'), isNull(orders.orderType)),
+  ];
+  if (excludeOrderId) {
+    conditions.push(ne(orders.id, excludeOrderId));
+  }
+
+  const [[spendRow], tiers] = await Promise.all([
+    executor
+      .select({ spend: sql<string>`COALESCE(SUM(${orders.totalAmount}), 0)` })
+      .from(orders)
+      .where(and(...conditions)),
+    executor
+      .select()
+      .from(loyaltyTiers)
+      .where(and(eq(loyaltyTiers.tenantId, tenantId), eq(loyaltyTiers.isActive, true)))
+      .orderBy(desc(loyaltyTiers.minSpend)),
+  ]);
+
+  const spend = round2(parseFloat(spendRow?.spend || '0'));
+  const index = tiers.findIndex(tier => parseFloat(tier.minSpend) <= spend);
+  const current = index >= 0 ? tiers[index]! : null;
+  const next = index === -1 ? tiers[tiers.length - 1] : index > 0 ? tiers[index - 1] : undefined;
+
+  return {
+    tier: current ? { id: current.id, name: current.name, multiplier: parseFloat(current.multiplier) } : null,
+    spend,
+    nextTier: next ? { name: next.name, minSpend: parseFloat(next.minSpend) } : null,
+  };
+}
+
+/**
+ * Points an order earns, with the breakdown stored on the history row
+ *
+ * The earning basis (subtotal or total) is shared across the order lines by
+ * their totals; whatever is left over (tax, shipping) earns at the base rate.
+ * Each line earns at the base rate times the highest multiplier among the
+ * active earning rules matching it when the order was placed. The tier
+ * multiplier then applies to the whole order and the result is rounded down.
+ */
+export async function calculateOrderPoints(
+  tenantId: string,
+  order: { userId: string; orderId: string; orderAmount: number; subtotalAmount: number },
+  loyaltySettings: LoyaltySettings,
+  executor: DbExecutor = db
+): Promise<PointsBreakdown> {
+  const baseAmount = round2(loyaltySettings.earningBasis === 'total'
+    ? order.orderAmount
+    : (order.subtotalAmount || order.orderAmount));
+  const tierStatus = await getLoyaltyTier(tenantId, order.userId, order.orderId, executor);
+
+  const breakdown: PointsBreakdown = {
+    earningBasis: loyaltySettings.earningBasis,
+    earningRate: loyaltySettings.earningRate,
+    baseAmount,
+    lines: [],
+    otherAmount: 0,
+    otherPoints: 0,
+    linePoints: 0,
+    tier: tierStatus.tier,
+    tierSpend: tierStatus.spend,
+    tierBonus: 0,
+    points: 0,
+    belowMinimum: baseAmount < loyaltySettings.minimumOrder,
+  };
+  if (breakdown.belowMinimum || baseAmount <= 0) {
+    return breakdown;
+  }
+
+  const [orderRow] = await executor
+    .select({ createdAt: orders.createdAt })
+    .from(orders)
+    .where(and(eq(orders.id, order.orderId), eq(orders.tenantId, tenantId)))
+    .limit(1);
+  const placedAt = orderRow?.createdAt || new Date();
+
+  const items = await executor
+    .select({
+      id: orderItems.id,
+      productId: orderItems.productId,
+      productName: orderItems.productName,
+      price: orderItems.price,
+      totalPrice: orderItems.totalPrice,
+      discount: orderItems.discount,
+      categoryId: products.categoryId,
+      productComparePrice: products.comparePrice,
+      variantComparePrice: productVariants.comparePrice,
+    })
+    .from(orderItems)
+    .innerJoin(orders, and(eq(orderItems.orderId, orders.id), eq(orders.tenantId, tenantId)))
+    .leftJoin(products, eq(orderItems.productId, products.id))
+    .leftJoin(productVariants, eq(orderItems.variantId, productVariants.id))
+    .where(eq(orderItems.orderId, order.orderId));
+
+  const rules = (await executor
+    .select()
+    .from(loyaltyEarningRules)
+    .where(and(eq(loyaltyEarningRules.tenantId, tenantId), eq(loyaltyEarningRules.isActive, true))))
+    .filter(rule => (!rule.startsAt || rule.startsAt <= placedAt) && (!rule.endsAt || rule.endsAt >= placedAt));
+
+  const productIds = [...new Set(items.map(item => item.productId))];
+  const tagRows = productIds.length > 0 && rules.some(rule => rule.scope === 'tag')
+    ? await executor
+        .select({ productId: productTags.productId, tagId: productTags.tagId })
+        .from(productTags)
+        .where(inArray(productTags.productId, productIds))
+    : [];
+
+  const itemsTotal = items.reduce((sum, item) => sum + parseFloat(item.totalPrice || '0'), 0);
+  // Lines never earn on more than the basis, e.g. after an order-level discount
+  const share = itemsTotal > baseAmount ? baseAmount / itemsTotal : 1;
+
+  for (const item of items) {
+    const amount = round2(parseFloat(item.totalPrice || '0') * share);
+    const comparePrice = parseFloat(item.variantComparePrice || item.productComparePrice || '0');
+    const excluded = loyaltySettings.excludeDiscountedItems && (
+      parseFloat(item.discount || '0') > 0 || comparePrice > parseFloat(item.price || '0')
+    );
+
+    const tagIds = tagRows.filter(row => row.productId === item.productId).map(row => row.tagId);
+    let best: { name: string; multiplier: number } | null = null;
+    for (const rule of rules) {
+      const matches = rule.scope === 'all'
+        || (rule.scope === 'category' && rule.targetId === item.categoryId)
+        || (rule.scope === 'product' && rule.targetId === item.productId)
+        || (rule.scope === 'tag' && !!rule.targetId && tagIds.includes(rule.targetId));
+      const multiplier = parseFloat(rule.multiplier);
+      if (matches && (!best || multiplier > best.multiplier)) {
+        best = { name: rule.name, multiplier };
+      }
+    }
+
+    const multiplier = best ? best.multiplier : 1;
+    const points = excluded ? 0 : round2(amount * loyaltySettings.earningRate * multiplier);
+    breakdown.lines.push({
+      orderItemId: item.id,
+      productName: item.productName,
+      amount,
+      multiplier,
+      rule: best?.name || null,
+      excluded,
+      points,
+    });
+  }
+
+  breakdown.otherAmount = round2(Math.max(0, baseAmount - itemsTotal * share));
+  breakdown.otherPoints = round2(breakdown.otherAmount * loyaltySettings.earningRate);
+  breakdown.linePoints = round2(breakdown.lines.reduce((sum, line) => sum + line.points, 0) + breakdown.otherPoints);
+
+  const tierMultiplier = breakdown.tier ? breakdown.tier.multiplier : 1;
+  breakdown.points = Math.floor(breakdown.linePoints * tierMultiplier);
+  breakdown.tierBonus = breakdown.points - Math.floor(breakdown.linePoints);
+
+  console.log(`🎯 Order ${order.orderId} earns ${breakdown.points} points (${breakdown.linePoints} before tier${breakdown.tier ? ` ${breakdown.tier.name} x${tierMultiplier}` : ''})`);
+  return breakdown;
+}
@@ -0,0 +1,478 @@
+/**
+ * Loyalty Points Maintenance
+ *
+ * Scheduled upkeep of each tenant's loyalty accounts, run by
+ * app/api/cron/loyalty-points for every tenant with loyalty enabled:
+ *
+ * - Pending points of delivered or completed orders become available once the
+ *   tenant's return window (points_return_window_days, counted from the order
+ *   date) has passed, unless a return on the order is still open. Order status
+ *   changes call activateOrderPointsIfDue, which applies the same rules.
+ * - Earned points past their expires_at are expired and taken off the balance.
+ * - points_expiring_soon is recalculated for every account.
+ * - Customers with points expiring within points_expiry_reminder_days get one
+ *   reminder email for them (loyalty_points_history.reminder_sent_at).
+ */
+
+import { db } from '@/lib/db';
+import { loyaltyPointsHistory, orders, returns, settings, tenants, user, userLoyaltyPoints } from '@/lib/schema';
+import { and, eq, gt, inArray, isNull, lte, notExists, sql } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { getLoyaltySettings, getPointsExpiryDate, type LoyaltySettings } from '@/lib/loyalty';
+import { sendPointsExpiryReminderEmail } from '@/lib/email';
+
+// Window for userLoyaltyPoints.pointsExpiringSoon
+export const POINTS_EXPIRING_SOON_DAYS = 30;
+
+// Order statuses after which pending points can activate
+const DELIVERED_ORDER_STATUSES = ['delivered', 'completed'];
+
+// Return statuses that still hold an order's pending points
+const OPEN_RETURN_STATUSES = ['pending', 'approved', 'received'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LoyaltyMaintenanceSummary {
+  tenants: number;
+  activatedOrders: number;
+  activatedPoints: number;
+  expiredRecords: number;
+  expiredPoints: number;
+  accountsRefreshed: number;
+  remindersSent: number;
+  failed: number;
+  errors: string[];
+}
+
+/**
+ * Move an order's pending points to the customer's available balance
+ *
+ * The points expire points_expiry_months after activation, as pending points
+ * cannot be spent and should not run out before the customer can use them.
+ *
+ * @returns Points activated (0 when the order had none pending) and the new available balance
+ */
+export async function activatePendingOrderPoints(
+  tenantId: string,
+  userId: string,
+  orderId: string,
+  description?: string
+): Promise<{ activated: number; availablePoints: number }> {
+  return db.transaction(async (tx) => {
+    const [account] = await tx
+      .select()
+      .from(userLoyaltyPoints)
+      .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)))
+      .for('update');
+
+    const pending = await tx
+      .select({ id: loyaltyPointsHistory.id, points: loyaltyPointsHistory.points })
+      .from(loyaltyPointsHistory)
+      .where(and(
+        eq(loyaltyPointsHistory.tenantId, tenantId),
+        eq(loyaltyPointsHistory.userId, userId),
+        eq(loyaltyPointsHistory.orderId, orderId),
+        eq(loyaltyPointsHistory.transactionType, 'earned'),
+        eq(loyaltyPointsHistory.status, 'pending')
+      ));
+
+    const availablePoints = account?.availablePoints || 0;
+    if (!account || pending.length === 0) {
+      return { activated: 0, availablePoints };
+    }
+
+    const activated = pending.reduce((sum, row) => sum + row.points, 0);
+    const newBalance = availablePoints + activated;
+    const loyaltySettings = await getLoyaltySettings(tenantId, tx);
+
+    await tx
+      .update(userLoyaltyPoints)
+      .set({
+        availablePoints: newBalance,
+        pendingPoints: Math.max(0, (account.pendingPoints || 0) - activated),
+        updatedAt: new Date(),
+      })
+      .where(eq(userLoyaltyPoints.id, account.id));
+
+    await tx
+      .update(loyaltyPointsHistory)
+      .set({
+        status: 'available',
+        pointsBalance: newBalance,
+        description: description || `Points activated from delivered order #${orderId}`,
+        expiresAt: getPointsExpiryDate(loyaltySettings),
+      })
+      .where(inArray(loyaltyPointsHistory.id, pending.map(row => row.id)));
+
+    return { activated, availablePoints: newBalance };
+  });
+}
+
+/**
+ * Orders with pending earned points that may activate: delivered or
+ * completed, past the return window and with no open return
+ *
+ * @param orderId Limit to one order
+ */
+function findOrdersDueForActivation(tenantId: string, loyaltySettings: LoyaltySettings, orderId?: string) {
+  const placedBefore = new Date(Date.now() - Math.max(0, loyaltySettings.returnWindowDays) * DAY_MS);
+
+  return db
+    .selectDistinct({
+      userId: loyaltyPointsHistory.userId,
+      orderId: orders.id,
+      orderNumber: orders.orderNumber,
+    })
+    .from(loyaltyPointsHistory)
+    .innerJoin(orders, and(eq(loyaltyPointsHistory.orderId, orders.id), eq(orders.tenantId, tenantId)))
+    .where(and(
+      eq(loyaltyPointsHistory.tenantId, tenantId),
+      eq(loyaltyPointsHistory.transactionType, 'earned'),
+      eq(loyaltyPointsHistory.status, 'pending'),
+      orderId ? eq(orders.id, orderId) : undefined,
+      inArray(orders.status, DELIVERED_ORDER_STATUSES),
+      lte(orders.createdAt, placedBefore),
+      notExists(
+        db
+          .select({ id: returns.id })
+          .from(returns)
+          .where(and(
+            eq(returns.tenantId, tenantId),
+            eq(returns.orderId, orders.id),
+            inArray(returns.status, OPEN_RETURN_STATUSES)
+          ))
+      )
+    ));
+}
+
+/**
+ * Activate one order's pending points if it is already due (see
+ * findOrdersDueForActivation); otherwise the daily job activates them once
+ * the return window has passed
+ *
+ * @returns Points activated
+ */
+export async function activateOrderPointsIfDue(tenantId: string, orderId: string): Promise<number> {
+  const loyaltySettings = await getLoyaltySettings(tenantId);
+  if (!loyaltySettings.enabled) return 0;
+
+  const [order] = await findOrdersDueForActivation(tenantId, loyaltySettings, orderId);
+  if (!order) return 0;
+
+  const { activated } = await activatePendingOrderPoints(
+    tenantId,
+    order.userId,
+    order.orderId,
+    `Points activated from delivered order #${order.orderNumber}`
+  );
+  return activated;
+}
+
+/**
+ * Activate the pending points of orders that are delivered and past the return window
+ */
+export async function activateDeliveredOrderPoints(
+  tenantId: string,
+  loyaltySettings: LoyaltySettings,
+  summary: LoyaltyMaintenanceSummary
+): Promise<void> {
+  const due = await findOrdersDueForActivation(tenantId, loyaltySettings);
+
+  for (const order of due) {
+    try {
+      const { activated } = await activatePendingOrderPoints(
+        tenantId,
+        order.userId,
+        order.orderId,
+        `Points activated from delivered order #${order.orderNumber}`
+      );
+      if (activated > 0) {
+        summary.activatedOrders++;
+        summary.activatedPoints += activated;
+        console.log(`🎁 Activated ${activated} points from order ${order.orderNumber}`);
+      }
+    } catch (error) {
+      summary.failed++;
+      summary.errors.push(`Activate order ${order.orderNumber}: ${error instanceof Error ? error.message : String(error)}`);
+      console.error(`❌ Failed to activate points for order ${order.orderId}:`, error);
+    }
+  }
+}
+
+/**
+ * Expire available points past their expiry date
+ *
+ * Each expired record gets an 'expired' history row; the balance never goes
+ * below zero, so points already spent are not taken twice.
+ */
+export async function expireLoyaltyPoints(
+  tenantId: string
+): Promise<{ expiredRecords: number; expiredPoints: number; affectedUsers: number }> {
+  const now = new Date();
+
+  const expiring = await db
+    .select()
+    .from(loyaltyPointsHistory)
+    .where(and(
+      eq(loyaltyPointsHistory.tenantId, tenantId),
+      eq(loyaltyPointsHistory.transactionType, 'earned'),
+      eq(loyaltyPointsHistory.status, 'available'),
+      eq(loyaltyPointsHistory.isExpired, false),
+      lte(loyaltyPointsHistory.expiresAt, now)
+    ));
+
+  const byUser = new Map<string, typeof expiring>();
+  for (const row of expiring) {
+    byUser.set(row.userId, [...(byUser.get(row.userId) || []), row]);
+  }
+
+  let expiredPoints = 0;
+  for (const [userId, rows] of byUser) {
+    expiredPoints += await db.transaction(async (tx) => {
+      const [account] = await tx
+        .select()
+        .from(userLoyaltyPoints)
+        .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)))
+        .for('update');
+
+      let balance = account?.availablePoints || 0;
+      let deducted = 0;
+
+      for (const row of rows) {
+        const points = Math.min(row.points, balance);
+        balance -= points;
+        deducted += points;
+
+        await tx
+          .update(loyaltyPointsHistory)
+          .set({ isExpired: true })
+          .where(eq(loyaltyPointsHistory.id, row.id));
+
+        await tx.insert(loyaltyPointsHistory).values({
+          id: uuidv4(),
+          tenantId,
+          userId,
+          orderId: null,
+          transactionType: 'expired',
+          status: 'expired',
+          points: -points,
+          pointsBalance: balance,
+          description: `Points expired from ${row.createdAt?.toDateString() || 'unknown date'}`,
+          expiresAt: null,
+          isExpired: true,
+          metadata: {
+            originalEarnedDate: row.createdAt,
+            originalOrderId: row.orderId,
+            originalPoints: row.points,
+          },
+          createdAt: new Date(),
+        });
+      }
+
+      if (account && deducted > 0) {
+        await tx
+          .update(userLoyaltyPoints)
+          .set({ availablePoints: balance, updatedAt: new Date() })
+          .where(eq(userLoyaltyPoints.id, account.id));
+      }
+
+      return deducted;
+    });
+  }
+
+  if (expiring.length > 0) {
+    console.log(`⌛ Expired ${expiring.length} points record(s) (${expiredPoints} points) for ${byUser.size} customer(s)`);
+  }
+  return { expiredRecords: expiring.length, expiredPoints, affectedUsers: byUser.size };
+}
+
+/**
+ * Recalculate userLoyaltyPoints.pointsExpiringSoon for every account of the tenant
+ *
+ * @returns Number of accounts whose figure changed
+ */
+export async function refreshPointsExpiringSoon(tenantId: string): Promise<number> {
+  const now = new Date();
+  const until = new Date(now.getTime() + POINTS_EXPIRING_SOON_DAYS * DAY_MS);
+
+  const [expiring, accounts] = await Promise.all([
+    db
+      .select({
+        userId: loyaltyPointsHistory.userId,
+        points: sql<string>`COALESCE(SUM(${loyaltyPointsHistory.points}), 0)`,
+      })
+      .from(loyaltyPointsHistory)
+      .where(and(
+        eq(loyaltyPointsHistory.tenantId, tenantId),
+        eq(loyaltyPointsHistory.transactionType, 'earned'),
+        eq(loyaltyPointsHistory.status, 'available'),
+        eq(loyaltyPointsHistory.isExpired, false),
+        gt(loyaltyPointsHistory.expiresAt, now),
+        lte(loyaltyPointsHistory.expiresAt, until)
+      ))
+      .groupBy(loyaltyPointsHistory.userId),
+    db
+      .select({
+        id: userLoyaltyPoints.id,
+        userId: userLoyaltyPoints.userId,
+        availablePoints: userLoyaltyPoints.availablePoints,
+        pointsExpiringSoon: userLoyaltyPoints.pointsExpiringSoon,
+      })
+      .from(userLoyaltyPoints)
+      .where(eq(userLoyaltyPoints.tenantId, tenantId)),
+  ]);
+
+  const expiringByUser = new Map(expiring.map(row => [row.userId, parseInt(row.points) || 0]));
+
+  let changed = 0;
+  for (const account of accounts) {
+    // Points already spent cannot expire
+    const points = Math.min(expiringByUser.get(account.userId) || 0, account.availablePoints || 0);
+    if (points === (account.pointsExpiringSoon || 0)) continue;
+
+    await db
+      .update(userLoyaltyPoints)
+      .set({ pointsExpiringSoon: points, updatedAt: new Date() })
+      .where(eq(userLoyaltyPoints.id, account.id));
+    changed++;
+  }
+
+  return changed;
+}
+
+/**
+ * Email customers whose points expire within the tenant's reminder window
+ *
+ * Each earned record is reminded about once; a customer with several
+ * expiring records gets a single email for all of them.
+ */
+export async function sendExpiryReminders(
+  tenantId: string,
+  loyaltySettings: LoyaltySettings,
+  summary: LoyaltyMaintenanceSummary
+): Promise<void> {
+  if (loyaltySettings.expiryReminderDays <= 0) return;
+
+  const now = new Date();
+  const until = new Date(now.getTime() + loyaltySettings.expiryReminderDays * DAY_MS);
+
+  const rows = await db
+    .select({
+      id: loyaltyPointsHistory.id,
+      userId: loyaltyPointsHistory.userId,
+      points: loyaltyPointsHistory.points,
+      expiresAt: loyaltyPointsHistory.expiresAt,
+      email: user.email,
+      name: user.name,
+      availablePoints: userLoyaltyPoints.availablePoints,
+    })
+    .from(loyaltyPointsHistory)
+    .innerJoin(user, and(eq(loyaltyPointsHistory.userId, user.id), eq(user.tenantId, tenantId)))
+    .innerJoin(userLoyaltyPoints, and(
+      eq(userLoyaltyPoints.tenantId, tenantId),
+      eq(userLoyaltyPoints.userId, loyaltyPointsHistory.userId)
+    ))
+    .where(and(
+      eq(loyaltyPointsHistory.tenantId, tenantId),
+      eq(loyaltyPointsHistory.transactionType, 'earned'),
+      eq(loyaltyPointsHistory.status, 'available'),
+      eq(loyaltyPointsHistory.isExpired, false),
+      isNull(loyaltyPointsHistory.reminderSentAt),
+      gt(loyaltyPointsHistory.expiresAt, now),
+      lte(loyaltyPointsHistory.expiresAt, until)
+    ));
+  if (rows.length === 0) return;
+
+  const [tenant] = await db.select({ name: tenants.name }).from(tenants).where(eq(tenants.id, tenantId)).limit(1);
+
+  const byUser = new Map<string, typeof rows>();
+  for (const row of rows) {
+    byUser.set(row.userId, [...(byUser.get(row.userId) || []), row]);
+  }
+
+  for (const [userId, userRows] of byUser) {
+    const first = userRows[0]!;
+    const points = Math.min(userRows.reduce((sum, row) => sum + row.points, 0), first.availablePoints || 0);
+    const ids = userRows.map(row => row.id);
+
+    try {
+      // Nothing left to lose when the balance is already spent
+      if (points > 0) {
+        const expiresAt = userRows.reduce(
+          (earliest, row) => (row.expiresAt && row.expiresAt < earliest ? row.expiresAt : earliest),
+          first.expiresAt || until
+        );
+        await sendPointsExpiryReminderEmail(first.email, {
+          customerName: first.name,
+          storeName: tenant?.name || 'our store',
+          points,
+          availablePoints: first.availablePoints || 0,
+          expiresAt,
+        });
+        summary.remindersSent++;
+        console.log(`📧 Sent points expiry reminder to ${first.email} (${points} points)`);
+      }
+
+      await db
+        .update(loyaltyPointsHistory)
+        .set({ reminderSentAt: new Date() })
+        .where(inArray(loyaltyPointsHistory.id, ids));
+    } catch (error) {
+      summary.failed++;
+      summary.errors.push(`Reminder to user ${userId}: ${error instanceof Error ? error.message : String(error)}`);
+      console.error(`❌ Failed to send points expiry reminder to user ${userId}:`, error);
+    }
+  }
+}
+
+/**
+ * Run all loyalty upkeep for one tenant, or for every tenant with loyalty enabled
+ */
+export async function runLoyaltyMaintenance(tenantId?: string): Promise<LoyaltyMaintenanceSummary> {
+  const conditions = [eq(settings.key, 'loyalty_enabled'), eq(settings.value, 'true')];
+  if (tenantId) {
+    conditions.push(eq(settings.tenantId, tenantId));
+  }
+
+  const enabled = await db
+    .select({ tenantId: settings.tenantId })
+    .from(settings)
+    .where(and(...conditions));
+
+  const summary: LoyaltyMaintenanceSummary = {
+    tenants: 0,
+    activatedOrders: 0,
+    activatedPoints: 0,
+    expiredRecords: 0,
+    expiredPoints: 0,
+    accountsRefreshed: 0,
+    remindersSent: 0,
+    failed: 0,
+    errors: [],
+  };
+
+  for (const { tenantId: tenant } of enabled) {
+    if (!tenant) continue;
+    summary.tenants++;
+
+    try {
+      const loyaltySettings = await getLoyaltySettings(tenant);
+
+      await activateDeliveredOrderPoints(tenant, loyaltySettings, summary);
+
+      const expired = await expireLoyaltyPoints(tenant);
+      summary.expiredRecords += expired.expiredRecords;
+      summary.expiredPoints += expired.expiredPoints;
+
+      summary.accountsRefreshed += await refreshPointsExpiringSoon(tenant);
+
+      await sendExpiryReminders(tenant, loyaltySettings, summary);
+    } catch (error) {
+      summary.failed++;
+      summary.errors.push(`Tenant ${tenant}: ${error instanceof Error ? error.message : String(error)}`);
+      console.error(`❌ Loyalty maintenance failed for tenant ${tenant}:`, error);
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,262 @@
+/**
+ * Loyalty Tiers and Earning Rules
+ *
+ * Tenant-scoped configuration read by calculateOrderPoints (lib/loyalty.ts).
+ * Tiers are membership levels a customer reaches by spending a minimum over
+ * the last 12 months; each multiplies all points they earn. Earning rules
+ * multiply the points of matching order lines: every line ('all'), or lines
+ * of one category, product or tag. A rule with start and end dates is a
+ * campaign, such as double points for a weekend.
+ */
+
+import { db } from '@/lib/db';
+import { categories, loyaltyEarningRules, loyaltyTiers, products, tags } from '@/lib/schema';
+import { and, asc, desc, eq } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { EARNING_RULE_SCOPES, type EarningRuleScope } from '@/lib/loyalty';
+
+export type LoyaltyTierRow = typeof loyaltyTiers.$inferSelect;
+export type LoyaltyEarningRuleRow = typeof loyaltyEarningRules.$inferSelect;
+
+export interface LoyaltyTierInput {
+  name?: string;
+  minSpend?: number | string;
+  multiplier?: number | string;
+  isActive?: boolean;
+}
+
+export interface LoyaltyEarningRuleInput {
+  name?: string;
+  scope?: EarningRuleScope;
+  targetId?: string | null;
+  multiplier?: number | string;
+  startsAt?: string | null;
+  endsAt?: string | null;
+  isActive?: boolean;
+}
+
+export interface LoyaltyTierResult {
+  success: boolean;
+  error?: string;
+  tier?: LoyaltyTierRow;
+}
+
+export interface LoyaltyEarningRuleResult {
+  success: boolean;
+  error?: string;
+  rule?: LoyaltyEarningRuleRow & { targetName: string | null };
+}
+
+function parseMultiplier(value: number | string | undefined): number | null {
+  const multiplier = Number(value);
+  return Number.isFinite(multiplier) && multiplier > 0 && multiplier <= 100 ? multiplier : null;
+}
+
+function parseDate(value: string | null | undefined): Date | null | undefined {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * The tenant's tiers, lowest minimum spend first
+ */
+export async function listLoyaltyTiers(tenantId: string): Promise<LoyaltyTierRow[]> {
+  return db
+    .select()
+    .from(loyaltyTiers)
+    .where(eq(loyaltyTiers.tenantId, tenantId))
+    .orderBy(asc(loyaltyTiers.minSpend));
+}
+
+/**
+ * Create a tier, or update it when an id is given
+ */
+export async function saveLoyaltyTier(
+  tenantId: string,
+  tierId: string | null,
+  input: LoyaltyTierInput
+): Promise<LoyaltyTierResult> {
+  const name = (input.name || '').trim();
+  if (!name) {
+    return { success: false, error: 'Name is required' };
+  }
+  const minSpend = Number(input.minSpend);
+  if (!Number.isFinite(minSpend) || minSpend < 0) {
+    return { success: false, error: 'Minimum spend must be zero or more' };
+  }
+  const multiplier = parseMultiplier(input.multiplier);
+  if (multiplier === null) {
+    return { success: false, error: 'Multiplier must be greater than 0 and at most 100' };
+  }
+
+  const values = {
+    name,
+    minSpend: minSpend.toFixed(2),
+    multiplier: multiplier.toFixed(2),
+    isActive: input.isActive !== false,
+    updatedAt: new Date(),
+  };
+
+  const id = tierId || uuidv4();
+  if (tierId) {
+    const [existing] = await db
+      .select({ id: loyaltyTiers.id })
+      .from(loyaltyTiers)
+      .where(and(eq(loyaltyTiers.id, tierId), eq(loyaltyTiers.tenantId, tenantId)))
+      .limit(1);
+    if (!existing) {
+      return { success: false, error: 'Tier not found' };
+    }
+    await db
+      .update(loyaltyTiers)
+      .set(values)
+      .where(and(eq(loyaltyTiers.id, tierId), eq(loyaltyTiers.tenantId, tenantId)));
+  } else {
+    await db.insert(loyaltyTiers).values({ id, tenantId, ...values, createdAt: new Date() });
+  }
+
+  console.log(`🏅 Saved loyalty tier ${name} (${minSpend.toFixed(2)}+ spend, x${multiplier})`);
+  const [tier] = await db.select().from(loyaltyTiers).where(eq(loyaltyTiers.id, id)).limit(1);
+  return { success: true, tier };
+}
+
+/**
+ * Delete a tier; customers in it fall back to the next tier down
+ */
+export async function deleteLoyaltyTier(tenantId: string, tierId: string): Promise<LoyaltyTierResult> {
+  const [tier] = await db
+    .select()
+    .from(loyaltyTiers)
+    .where(and(eq(loyaltyTiers.id, tierId), eq(loyaltyTiers.tenantId, tenantId)))
+    .limit(1);
+  if (!tier) {
+    return { success: false, error: 'Tier not found' };
+  }
+
+  await db.delete(loyaltyTiers).where(and(eq(loyaltyTiers.id, tierId), eq(loyaltyTiers.tenantId, tenantId)));
+  return { success: true, tier };
+}
+
+/**
+ * The tenant's earning rules with the name of the category, product or tag they target
+ */
+export async function listEarningRules(tenantId: string) {
+  const rows = await db
+    .select({
+      rule: loyaltyEarningRules,
+      categoryName: categories.name,
+      productName: products.name,
+      tagName: tags.name,
+    })
+    .from(loyaltyEarningRules)
+    .leftJoin(categories, and(eq(loyaltyEarningRules.scope, 'category'), eq(loyaltyEarningRules.targetId, categories.id)))
+    .leftJoin(products, and(eq(loyaltyEarningRules.scope, 'product'), eq(loyaltyEarningRules.targetId, products.id)))
+    .leftJoin(tags, and(eq(loyaltyEarningRules.scope, 'tag'), eq(loyaltyEarningRules.targetId, tags.id)))
+    .where(eq(loyaltyEarningRules.tenantId, tenantId))
+    .orderBy(desc(loyaltyEarningRules.createdAt));
+
+  return rows.map(row => ({
+    ...row.rule,
+    targetName: row.categoryName || row.productName || row.tagName || null,
+  }));
+}
+
+/**
+ * Check that a rule's category, product or tag belongs to the tenant
+ */
+async function targetExists(tenantId: string, scope: EarningRuleScope, targetId: string): Promise<boolean> {
+  const table = scope === 'category' ? categories : scope === 'product' ? products : tags;
+  const [row] = await db
+    .select({ id: table.id })
+    .from(table)
+    .where(and(eq(table.id, targetId), eq(table.tenantId, tenantId)))
+    .limit(1);
+  return !!row;
+}
+
+/**
+ * Create an earning rule, or update it when an id is given
+ */
+export async function saveEarningRule(
+  tenantId: string,
+  ruleId: string | null,
+  input: LoyaltyEarningRuleInput
+): Promise<LoyaltyEarningRuleResult> {
+  const name = (input.name || '').trim();
+  if (!name) {
+    return { success: false, error: 'Name is required' };
+  }
+  const scope = input.scope || 'all';
+  if (!EARNING_RULE_SCOPES.includes(scope)) {
+    return { success: false, error: `Scope must be one of: ${EARNING_RULE_SCOPES.join(', ')}` };
+  }
+  const targetId = scope === 'all' ? null : (input.targetId || null);
+  if (scope !== 'all' && (!targetId || !(await targetExists(tenantId, scope, targetId)))) {
+    return { success: false, error: `Choose the ${scope} this rule applies to` };
+  }
+  const multiplier = parseMultiplier(input.multiplier);
+  if (multiplier === null) {
+    return { success: false, error: 'Multiplier must be greater than 0 and at most 100' };
+  }
+  const startsAt = parseDate(input.startsAt);
+  const endsAt = parseDate(input.endsAt);
+  if (startsAt === undefined || endsAt === undefined) {
+    return { success: false, error: 'Invalid start or end date' };
+  }
+  if (startsAt && endsAt && endsAt <= startsAt) {
+    return { success: false, error: 'End date must be after the start date' };
+  }
+
+  const values = {
+    name,
+    scope,
+    targetId,
+    multiplier: multiplier.toFixed(2),
+    startsAt,
+    endsAt,
+    isActive: input.isActive !== false,
+    updatedAt: new Date(),
+  };
+
+  const id = ruleId || uuidv4();
+  if (ruleId) {
+    const [existing] = await db
+      .select({ id: loyaltyEarningRules.id })
+      .from(loyaltyEarningRules)
+      .where(and(eq(loyaltyEarningRules.id, ruleId), eq(loyaltyEarningRules.tenantId, tenantId)))
+      .limit(1);
+    if (!existing) {
+      return { success: false, error: 'Rule not found' };
+    }
+    await db
+      .update(loyaltyEarningRules)
+      .set(values)
+      .where(and(eq(loyaltyEarningRules.id, ruleId), eq(loyaltyEarningRules.tenantId, tenantId)));
+  } else {
+    await db.insert(loyaltyEarningRules).values({ id, tenantId, ...values, createdAt: new Date() });
+  }
+
+  console.log(`🎯 Saved loyalty earning rule ${name} (${scope}, x${multiplier})`);
+  const rule = (await listEarningRules(tenantId)).find(row => row.id === id);
+  return { success: true, rule };
+}
+
+/**
+ * Delete an earning rule
+ */
+export async function deleteEarningRule(tenantId: string, ruleId: string): Promise<LoyaltyEarningRuleResult> {
+  const [rule] = await db
+    .select()
+    .from(loyaltyEarningRules)
+    .where(and(eq(loyaltyEarningRules.id, ruleId), eq(loyaltyEarningRules.tenantId, tenantId)))
+    .limit(1);
+  if (!rule) {
+    return { success: false, error: 'Rule not found' };
+  }
+
+  await db
+    .delete(loyaltyEarningRules)
+    .where(and(eq(loyaltyEarningRules.id, ruleId), eq(loyaltyEarningRules.tenantId, tenantId)));
+  return { success: true, rule: { ...rule, targetName: null } };
+}
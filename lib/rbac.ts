@@ -86,8 +86,8 @@ export async function getAdminUserWithPermissions(): Promise<{
  * Check if user has a specific permission
  */
 export function hasPermission(userPermissions: string[], requiredPermission: string): boolean {
-  // Super admin has all permissions
-  if (userPermissions.includes('*')) {
+  // Super admin has all permissions ('all' is what tenant registration grants the owner role)
+  if (userPermissions.includes('*') || userPermissions.includes('all')) {
     return true;
   }
   
@@ -154,7 +154,7 @@ export function withPermission(
 }
 
 /**
- * Permission constants for the 4 modules
+ * Permission constants per module
  */
 export const PERMISSIONS = {
   // Users Management
@@ -182,6 +182,14 @@ export const PERMISSIONS = {
   ORDERS_EDIT: 'orders_edit',
   ORDERS_DELETE: 'orders_delete',
   ORDERS_FULFILL: 'orders_fulfill',
+
+  // Returns (RMA) Management
+  RETURNS_VIEW: 'returns_view',
+  RETURNS_CREATE: 'returns_create',
+  RETURNS_APPROVE: 'returns_approve',
+  RETURNS_RECEIVE: 'returns_receive',
+  RETURNS_COMPLETE: 'returns_complete',
+  RETURNS_DELETE: 'returns_delete',
 } as const;
 
 /**
@@ -221,6 +229,12 @@ export function getPermissionName(permission: string): string {
     'orders_edit': 'Edit Orders',
     'orders_delete': 'Delete Orders',
     'orders_fulfill': 'Fulfill Orders',
+    'returns_view': 'View Returns',
+    'returns_create': 'Create Returns',
+    'returns_approve': 'Approve/Reject Returns',
+    'returns_receive': 'Receive Returned Goods',
+    'returns_complete': 'Complete Returns & Refund',
+    'returns_delete': 'Delete Returns',
   };
   
   return permissionNames[permission] || permission;
@@ -0,0 +1,572 @@
+/**
+ * Refund Processing
+ *
+ * Tenant-scoped refunds against an order, full or partial. Refunds are created
+ * as pending and take effect when processed (marked completed):
+ *
+ * - the order's payment status becomes partially_refunded or refunded
+ * - loyalty points earned on the order are clawed back in proportion to the
+ *   refunded share of the order total
+ * - points redeemed on the order are restored in the same proportion
+ *
+ * Pending and completed refunds together can never exceed the order total.
+ * Creating and processing refunds lock the order row, so the cap is checked
+ * and a refund's effects applied at most once even under concurrent requests.
+ * Loyalty adjustments are cumulative (recomputed from the total refunded so
+ * far), so a series of partial refunds ends at exactly the full reversal.
+ */
+
+import { db, type DbExecutor, type DbTransaction } from '@/lib/db';
+import { loyaltyPointsHistory, orders, refunds, returns, userLoyaltyPoints } from '@/lib/schema';
+import { and, desc, eq, inArray, ne, or } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+
+export type RefundStatus = 'pending' | 'completed' | 'failed';
+
+export const REFUND_METHODS = ['original_payment', 'store_credit', 'manual'];
+
+// History transaction type for refund-driven point changes
+export const LOYALTY_REFUND_TRANSACTION_TYPE = 'refund_adjustment';
+
+type RefundRow = typeof refunds.$inferSelect;
+type OrderRow = typeof orders.$inferSelect;
+
+export interface CreateRefundInput {
+  orderId: string;
+  returnId?: string | null;
+  amount: number;
+  reason?: string;
+  method?: string;
+  transactionId?: string;
+  notes?: string;
+  processedBy?: string;
+  process?: boolean; // Complete immediately instead of leaving it pending
+}
+
+export interface ProcessRefundInput {
+  processedBy?: string;
+  transactionId?: string;
+  notes?: string;
+}
+
+export interface RefundLoyaltyResult {
+  pointsClawedBack: number;
+  pointsRestored: number;
+}
+
+export interface RefundResult {
+  success: boolean;
+  error?: string;
+  refund?: RefundRow;
+  paymentStatus?: string;
+  loyalty?: RefundLoyaltyResult;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Sum refunds on an order by status (failed refunds never count)
+ */
+async function getOrderRefundTotals(tenantId: string, orderId: string, excludeRefundId?: string, executor: DbExecutor = db) {
+  const rows = await executor
+    .select({ id: refunds.id, amount: refunds.amount, status: refunds.status })
+    .from(refunds)
+    .where(and(eq(refunds.tenantId, tenantId), eq(refunds.orderId, orderId), ne(refunds.status, 'failed')));
+
+  let completed = 0;
+  let pending = 0;
+  for (const row of rows) {
+    if (row.id === excludeRefundId) continue;
+    if (row.status === 'completed') completed += parseFloat(row.amount);
+    else pending += parseFloat(row.amount);
+  }
+
+  return { completed: round2(completed), pending: round2(pending) };
+}
+
+/**
+ * Refund position of an order: how much is refunded, pending and still refundable
+ *
+ * @param tenantId The tenant that owns the order
+ * @param orderRef The order id or order number
+ * @returns null when the order does not belong to the tenant
+ */
+export async function getOrderRefundSummary(tenantId: string, orderRef: string) {
+  const [order] = await db
+    .select({
+      id: orders.id,
+      orderNumber: orders.orderNumber,
+      email: orders.email,
+      status: orders.status,
+      paymentStatus: orders.paymentStatus,
+      totalAmount: orders.totalAmount,
+    })
+    .from(orders)
+    .where(and(eq(orders.tenantId, tenantId), or(eq(orders.id, orderRef), eq(orders.orderNumber, orderRef))))
+    .limit(1);
+
+  if (!order) {
+    return null;
+  }
+
+  const totals = await getOrderRefundTotals(tenantId, order.id);
+  const orderTotal = parseFloat(order.totalAmount);
+
+  return {
+    order,
+    refundedAmount: totals.completed,
+    pendingAmount: totals.pending,
+    refundableAmount: Math.max(round2(orderTotal - totals.completed - totals.pending), 0),
+  };
+}
+
+/**
+ * Payment status for an order given how much of it has been refunded
+ */
+function getRefundPaymentStatus(order: OrderRow, refundedAmount: number): string {
+  if (refundedAmount <= 0) {
+    return order.paymentStatus || 'pending';
+  }
+  return refundedAmount >= parseFloat(order.totalAmount) - 0.005 ? 'refunded' : 'partially_refunded';
+}
+
+/**
+ * Bring the order's loyalty points in line with the share of it that has been refunded
+ *
+ * Earned points are clawed back from pending points while the order is not yet
+ * completed, otherwise from available points (never below zero). Redeemed points
+ * are returned to the customer's available balance.
+ */
+async function syncRefundLoyaltyPoints(
+  tx: DbTransaction,
+  order: OrderRow,
+  refundedAmount: number,
+  refund: RefundRow,
+  processedBy?: string
+): Promise<RefundLoyaltyResult> {
+  const result: RefundLoyaltyResult = { pointsClawedBack: 0, pointsRestored: 0 };
+  const orderTotal = parseFloat(order.totalAmount);
+  if (!order.userId || orderTotal <= 0) {
+    return result;
+  }
+
+  const userId = order.userId;
+  const tenantId = order.tenantId;
+  const ratio = Math.min(refundedAmount / orderTotal, 1);
+
+  const history = await tx
+    .select()
+    .from(loyaltyPointsHistory)
+    .where(and(
+      eq(loyaltyPointsHistory.tenantId, tenantId),
+      eq(loyaltyPointsHistory.userId, userId),
+      eq(loyaltyPointsHistory.orderId, order.id),
+      inArray(loyaltyPointsHistory.transactionType, ['earned', LOYALTY_REFUND_TRANSACTION_TYPE])
+    ));
+
+  // Pending earned rows shrunk by earlier refunds keep their original value in metadata
+  const originalPoints = (row: typeof history[number]) => (row.metadata as any)?.originalPoints ?? row.points;
+  const earnedRows = history.filter(row =>
+    row.transactionType === 'earned' && (row.status !== 'cancelled' || (row.metadata as any)?.originalPoints !== undefined)
+  );
+  const adjustments = history.filter(row => row.transactionType === LOYALTY_REFUND_TRANSACTION_TYPE);
+  const adjustedBy = (kind: string) => adjustments
+    .filter(row => (row.metadata as any)?.adjustmentType === kind)
+    .reduce((sum, row) => sum + Math.abs((row.metadata as any)?.points ?? row.points), 0);
+
+  // Earned points still owed back, based on the cumulative refunded share
+  const earnedPoints = earnedRows.reduce((sum, row) => sum + (originalPoints(row) || 0), 0);
+  const clawbackTarget = Math.floor(earnedPoints * ratio) - adjustedBy('earned_clawback');
+
+  // Redeemed points still owed to the customer
+  const redeemedPoints = order.pointsToRedeem || 0;
+  const restoreTarget = Math.floor(redeemedPoints * ratio) - adjustedBy('redeemed_restore');
+
+  if (clawbackTarget <= 0 && restoreTarget <= 0) {
+    return result;
+  }
+
+  let [account] = await tx
+    .select()
+    .from(userLoyaltyPoints)
+    .where(and(eq(userLoyaltyPoints.tenantId, tenantId), eq(userLoyaltyPoints.userId, userId)))
+    .for('update');
+
+  if (!account) {
+    if (restoreTarget <= 0) return result;
+    const now = new Date();
+    account = {
+      id: uuidv4(),
+      tenantId,
+      userId,
+      totalPointsEarned: 0,
+      totalPointsRedeemed: 0,
+      availablePoints: 0,
+      pendingPoints: 0,
+      pointsExpiringSoon: 0,
+      lastEarnedAt: null,
+      lastRedeemedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await tx.insert(userLoyaltyPoints).values(account);
+  }
+
+  let available = account.availablePoints || 0;
+  let pending = account.pendingPoints || 0;
+  let totalEarned = account.totalPointsEarned || 0;
+  let totalRedeemed = account.totalPointsRedeemed || 0;
+  const historyRows: (typeof loyaltyPointsHistory.$inferInsert)[] = [];
+
+  if (clawbackTarget > 0) {
+    const pendingEarned = earnedRows.filter(row => row.status === 'pending' && row.points > 0);
+
+    if (pendingEarned.length > 0) {
+      // Order not completed yet: shrink the pending credit so activation only releases what's left
+      let remaining = clawbackTarget;
+      for (const row of pendingEarned) {
+        if (remaining <= 0) break;
+        const deduct = Math.min(row.points, remaining);
+        await tx
+          .update(loyaltyPointsHistory)
+          .set({
+            points: row.points - deduct,
+            status: row.points - deduct > 0 ? 'pending' : 'cancelled',
+            metadata: { ...((row.metadata as object) || {}), originalPoints: originalPoints(row) },
+          })
+          .where(eq(loyaltyPointsHistory.id, row.id));
+        remaining -= deduct;
+      }
+      const deducted = clawbackTarget - remaining;
+      pending = Math.max(0, pending - deducted);
+      totalEarned = Math.max(0, totalEarned - deducted);
+      result.pointsClawedBack = deducted;
+    } else {
+      // Points already released: take back what the customer still has
+      const deducted = Math.min(clawbackTarget, available);
+      available -= deducted;
+      totalEarned = Math.max(0, totalEarned - clawbackTarget);
+      result.pointsClawedBack = deducted;
+    }
+
+    historyRows.push({
+      id: uuidv4(),
+      tenantId,
+      userId,
+      orderId: order.id,
+      transactionType: LOYALTY_REFUND_TRANSACTION_TYPE,
+      status: pendingEarned.length > 0 ? 'cancelled' : 'available',
+      points: -result.pointsClawedBack,
+      pointsBalance: available,
+      description: `Points reversed for refund on order ${order.orderNumber}`,
+      orderAmount: refund.amount,
+      processedBy: processedBy || null,
+      metadata: {
+        adjustmentType: 'earned_clawback',
+        refundId: refund.id,
+        points: clawbackTarget, // owed, even if the balance could not cover all of it
+        refundedRatio: round2(ratio),
+      },
+      createdAt: new Date(),
+    });
+  }
+
+  if (restoreTarget > 0) {
+    available += restoreTarget;
+    totalRedeemed = Math.max(0, totalRedeemed - restoreTarget);
+    result.pointsRestored = restoreTarget;
+
+    historyRows.push({
+      id: uuidv4(),
+      tenantId,
+      userId,
+      orderId: order.id,
+      transactionType: LOYALTY_REFUND_TRANSACTION_TYPE,
+      status: 'available',
+      points: restoreTarget,
+      pointsBalance: available,
+      description: `Redeemed points restored for refund on order ${order.orderNumber}`,
+      discountAmount: refund.amount,
+      processedBy: processedBy || null,
+      metadata: {
+        adjustmentType: 'redeemed_restore',
+        refundId: refund.id,
+        points: restoreTarget,
+        refundedRatio: round2(ratio),
+      },
+      createdAt: new Date(),
+    });
+  }
+
+  await tx
+    .update(userLoyaltyPoints)
+    .set({
+      availablePoints: available,
+      pendingPoints: pending,
+      totalPointsEarned: totalEarned,
+      totalPointsRedeemed: totalRedeemed,
+      updatedAt: new Date(),
+    })
+    .where(eq(userLoyaltyPoints.id, account.id));
+
+  if (historyRows.length > 0) {
+    await tx.insert(loyaltyPointsHistory).values(historyRows);
+  }
+
+  return result;
+}
+
+/**
+ * Create a refund for an order (pending unless `process` is set)
+ *
+ * @param tenantId The tenant that owns the order
+ * @param input Order, amount and refund details
+ * @param tx The caller's transaction, so the refund commits with its other
+ *   changes; `process` cannot be used with it
+ * @returns The created refund, plus payment/loyalty changes when processed
+ */
+export async function createRefund(tenantId: string, input: CreateRefundInput, tx?: DbTransaction): Promise<RefundResult> {
+  const amount = round2(Number(input.amount));
+  if (!input.orderId || !amount || amount <= 0) {
+    return { success: false, error: 'Order and a refund amount greater than zero are required' };
+  }
+  if (input.method && !REFUND_METHODS.includes(input.method)) {
+    return { success: false, error: `Method must be one of: ${REFUND_METHODS.join(', ')}` };
+  }
+  if (tx && input.process) {
+    return { success: false, error: 'Refunds created in a transaction must be processed after it commits' };
+  }
+
+  const executor: DbExecutor = tx || db;
+  const [order] = await executor
+    .select()
+    .from(orders)
+    .where(and(eq(orders.id, input.orderId), eq(orders.tenantId, tenantId)))
+    .limit(1);
+
+  if (!order) {
+    return { success: false, error: 'Order not found' };
+  }
+
+  if (input.returnId) {
+    const [returnRecord] = await executor
+      .select({ id: returns.id, orderId: returns.orderId })
+      .from(returns)
+      .where(and(eq(returns.id, input.returnId), eq(returns.tenantId, tenantId)))
+      .limit(1);
+
+    if (!returnRecord || returnRecord.orderId !== order.id) {
+      return { success: false, error: 'Return not found for this order' };
+    }
+  }
+
+  const now = new Date();
+  const refund: RefundRow = {
+    id: uuidv4(),
+    tenantId,
+    orderId: order.id,
+    returnId: input.returnId || null,
+    amount: amount.toFixed(2),
+    reason: input.reason?.trim() || null,
+    method: input.method || 'original_payment',
+    transactionId: input.transactionId?.trim() || null,
+    status: 'pending',
+    processedBy: input.processedBy || null,
+    notes: input.notes?.trim() || null,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  // The order row lock serialises refunds on the order, so two cannot both fit under the cap
+  const insertRefund = async (refundTx: DbTransaction) => {
+    await refundTx.select({ id: orders.id }).from(orders).where(eq(orders.id, order.id)).for('update');
+
+    const totals = await getOrderRefundTotals(tenantId, order.id, undefined, refundTx);
+    const refundable = round2(parseFloat(order.totalAmount) - totals.completed - totals.pending);
+    if (amount > refundable) {
+      return refundable > 0
+        ? `Refund exceeds the refundable amount of ${refundable.toFixed(2)} for order ${order.orderNumber}`
+        : `Order ${order.orderNumber} has already been fully refunded`;
+    }
+
+    await refundTx.insert(refunds).values(refund);
+    return null;
+  };
+  const error = tx ? await insertRefund(tx) : await db.transaction(insertRefund);
+
+  if (error) {
+    return { success: false, error };
+  }
+  console.log(`💰 Refund of ${refund.amount} created for order ${order.orderNumber}`);
+
+  if (input.process) {
+    return processRefund(tenantId, refund.id, { processedBy: input.processedBy });
+  }
+
+  return { success: true, refund };
+}
+
+/**
+ * Complete a pending refund and apply its effects to the order and loyalty points
+ *
+ * @param tenantId The tenant that owns the refund
+ * @param refundId The pending refund
+ * @param input Who processed it and the payment reference
+ */
+export async function processRefund(tenantId: string, refundId: string, input: ProcessRefundInput = {}): Promise<RefundResult> {
+  const [found] = await db
+    .select({ orderId: refunds.orderId })
+    .from(refunds)
+    .where(and(eq(refunds.id, refundId), eq(refunds.tenantId, tenantId)))
+    .limit(1);
+
+  if (!found) {
+    return { success: false, error: 'Refund not found' };
+  }
+
+  return db.transaction(async (tx): Promise<RefundResult> => {
+    // The order row first, as in createRefund, then the refund itself
+    const [order] = await tx
+      .select()
+      .from(orders)
+      .where(and(eq(orders.id, found.orderId), eq(orders.tenantId, tenantId)))
+      .for('update');
+
+    if (!order) {
+      return { success: false, error: 'Order not found' };
+    }
+
+    const [refund] = await tx
+      .select()
+      .from(refunds)
+      .where(eq(refunds.id, refundId))
+      .for('update');
+
+    if (!refund) {
+      return { success: false, error: 'Refund not found' };
+    }
+    if (refund.status !== 'pending') {
+      return { success: false, error: `A ${refund.status} refund cannot be processed` };
+    }
+
+    // Re-check the cap against refunds completed since this one was created
+    const totals = await getOrderRefundTotals(tenantId, order.id, refund.id, tx);
+    const amount = parseFloat(refund.amount);
+    const refundedAmount = round2(totals.completed + amount);
+    if (refundedAmount > parseFloat(order.totalAmount) + 0.005) {
+      return { success: false, error: `Completing this refund would exceed the order total of ${parseFloat(order.totalAmount).toFixed(2)}` };
+    }
+
+    const now = new Date();
+    const update: Partial<RefundRow> = {
+      status: 'completed',
+      processedBy: input.processedBy || refund.processedBy,
+      transactionId: input.transactionId?.trim() || refund.transactionId,
+      notes: input.notes !== undefined ? input.notes.trim() || null : refund.notes,
+      updatedAt: now,
+    };
+
+    const [updated] = await tx
+      .update(refunds)
+      .set(update)
+      .where(and(eq(refunds.id, refund.id), eq(refunds.status, 'pending')));
+    if (updated.affectedRows === 0) {
+      return { success: false, error: 'The refund was processed by another request' };
+    }
+    const completedRefund = { ...refund, ...update };
+
+    const paymentStatus = getRefundPaymentStatus(order, refundedAmount);
+    await tx
+      .update(orders)
+      .set({ paymentStatus, updatedAt: now })
+      .where(and(eq(orders.id, order.id), eq(orders.tenantId, tenantId)));
+
+    const loyalty = await syncRefundLoyaltyPoints(tx, order, refundedAmount, completedRefund, input.processedBy);
+
+    console.log(`💰 Refund ${refund.id} completed for order ${order.orderNumber} (${paymentStatus})`);
+    return { success: true, refund: completedRefund, paymentStatus, loyalty };
+  });
+}
+
+/**
+ * Mark a pending refund as failed (it no longer counts towards the order total)
+ */
+export async function failRefund(tenantId: string, refundId: string, notes?: string): Promise<RefundResult> {
+  const [refund] = await db
+    .select()
+    .from(refunds)
+    .where(and(eq(refunds.id, refundId), eq(refunds.tenantId, tenantId)))
+    .limit(1);
+
+  if (!refund) {
+    return { success: false, error: 'Refund not found' };
+  }
+  if (refund.status !== 'pending') {
+    return { success: false, error: `A ${refund.status} refund cannot be marked as failed` };
+  }
+
+  const update: Partial<RefundRow> = {
+    status: 'failed',
+    notes: notes !== undefined ? notes.trim() || null : refund.notes,
+    updatedAt: new Date(),
+  };
+  // A refund processed meanwhile stays completed
+  const [updated] = await db
+    .update(refunds)
+    .set(update)
+    .where(and(eq(refunds.id, refund.id), eq(refunds.status, 'pending')));
+  if (updated.affectedRows === 0) {
+    return { success: false, error: 'The refund was processed by another request' };
+  }
+
+  return { success: true, refund: { ...refund, ...update } };
+}
+
+/**
+ * List a tenant's refunds with order and return numbers
+ */
+export async function listRefunds(tenantId: string, orderId?: string) {
+  const conditions = [eq(refunds.tenantId, tenantId)];
+  if (orderId) {
+    conditions.push(eq(refunds.orderId, orderId));
+  }
+
+  return db
+    .select({
+      refund: refunds,
+      order: {
+        id: orders.id,
+        orderNumber: orders.orderNumber,
+      },
+      return: {
+        id: returns.id,
+        returnNumber: returns.returnNumber,
+      },
+    })
+    .from(refunds)
+    .leftJoin(orders, and(eq(refunds.orderId, orders.id), eq(orders.tenantId, tenantId)))
+    .leftJoin(returns, and(eq(refunds.returnId, returns.id), eq(returns.tenantId, tenantId)))
+    .where(and(...conditions))
+    .orderBy(desc(refunds.createdAt));
+}
+
+/**
+ * Delete a refund that never took effect (pending or failed)
+ */
+export async function deleteRefund(tenantId: string, refundId: string): Promise<RefundResult> {
+  const [refund] = await db
+    .select()
+    .from(refunds)
+    .where(and(eq(refunds.id, refundId), eq(refunds.tenantId, tenantId)))
+    .limit(1);
+
+  if (!refund) {
+    return { success: false, error: 'Refund not found' };
+  }
+  if (refund.status === 'completed') {
+    return { success: false, error: 'Completed refunds cannot be deleted' };
+  }
+
+  await db.delete(refunds).where(and(eq(refunds.id, refundId), eq(refunds.tenantId, tenantId)));
+  return { success: true, refund };
+}
@@ -0,0 +1,483 @@
+/**
+ * Replenishment
+ *
+ * Finds inventory rows that need restocking and turns them into draft
+ * purchase orders (orders.orderType = 'purchase_order', status 'draft').
+ *
+ * A row needs restocking when its stock position (available stock plus what
+ * is already on open purchase orders) is at or below its reorder point
+ * (reorderWeightPoint for weight-based products). With sales velocity on,
+ * rows whose position covers fewer days of sales than the cover target are
+ * suggested too, and the suggested amount tops the position up to that many
+ * days of sales.
+ *
+ * Suggestions are grouped by the product's preferred supplier (falling back
+ * to the supplier last used on the inventory row) and location; each group
+ * becomes one draft PO that a buyer reviews and sends.
+ */
+
+import { db } from '@/lib/db';
+import { inventoryLocations, orderItems, orders, productInventory, products, productVariants, suppliers } from '@/lib/schema';
+import { and, eq, gte, inArray, ne, notInArray, or, isNull, sql } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { isWeightBasedProduct, formatWeightAuto } from '@/utils/weightUtils';
+import { getDefaultLocation } from '@/lib/inventoryLocations';
+import { getStockTrackingDirect } from '@/lib/stockManagement';
+import { sendHtmlEmail } from '@/lib/email';
+
+const PO_NUMBER_PREFIX = 'PO-';
+const PO_NUMBER_DIGITS = 6;
+
+// Purchase order statuses that no longer bring stock in
+const CLOSED_PO_STATUSES = ['cancelled', 'delivered', 'completed', 'received'];
+
+export interface ReorderOptions {
+  locationId?: string | null;
+  supplierId?: string | null;
+  useSalesVelocity?: boolean;
+  velocityDays?: number; // Sales history window; default 30
+  coverDays?: number; // Days of sales to keep in stock; default 14
+}
+
+export interface ReorderSuggestion {
+  inventoryId: string;
+  productId: string;
+  variantId: string | null;
+  productName: string;
+  variantTitle: string | null;
+  sku: string | null;
+  locationId: string;
+  locationName: string;
+  supplierId: string | null;
+  supplierName: string | null;
+  isWeightBased: boolean;
+  // Units, or grams for weight-based products
+  available: number;
+  onOrder: number;
+  reorderPoint: number;
+  reorderQuantity: number;
+  dailySales: number | null;
+  daysOfCover: number | null;
+  suggestedQuantity: number;
+  unitCost: number | null; // Per unit, or per kg for weight-based products
+  estimatedCost: number | null;
+  reason: 'reorder_point' | 'low_cover';
+}
+
+export interface DraftPurchaseOrderLine {
+  inventoryId: string;
+  quantity?: number; // Overrides the suggested amount (grams for weight-based products)
+}
+
+export interface DraftPurchaseOrderResult {
+  success: boolean;
+  error?: string;
+  purchaseOrders?: { id: string; orderNumber: string; purchaseOrderNumber: string; supplierId: string; lineCount: number; totalAmount: number }[];
+  skipped?: { inventoryId: string; reason: string }[];
+}
+
+export interface SendPurchaseOrderResult {
+  success: boolean;
+  error?: string;
+  emailSent?: boolean;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+async function generatePurchaseOrderNumber(tenantId: string): Promise<string> {
+  const [row] = await db
+    .select({
+      maxNumber: sql<string | null>`MAX(CAST(SUBSTRING(${orders.purchaseOrderNumber}, ${PO_NUMBER_PREFIX.length + 1}) AS UNSIGNED))`,
+    })
+    .from(orders)
+    .where(and(
+      eq(orders.tenantId, tenantId),
+      sql`${orders.purchaseOrderNumber} REGEXP ${`^${PO_NUMBER_PREFIX}[0-9]{${PO_NUMBER_DIGITS},9}$`}`
+    ));
+
+  const next = parseInt(row?.maxNumber || '0') + 1;
+  return `${PO_NUMBER_PREFIX}${String(next).padStart(PO_NUMBER_DIGITS, '0')}`;
+}
+
+const stockKey = (productId: string, variantId: string | null, locationId: string) =>
+  `${productId}:${variantId || ''}:${locationId}`;
+
+/**
+ * Units (or grams) sold per product/variant/location over the last `days` days
+ */
+async function getSalesByStockKey(tenantId: string, days: number, defaultLocationId: string): Promise<Map<string, number>> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  const rows = await db
+    .select({
+      productId: orderItems.productId,
+      variantId: orderItems.variantId,
+      locationId: orderItems.locationId,
+      quantity: sql<string>`SUM(${orderItems.quantity})`,
+      weight: sql<string>`SUM(${orderItems.weightQuantity})`,
+    })
+    .from(orderItems)
+    .innerJoin(orders, eq(orderItems.orderId, orders.id))
+    .where(and(
+      eq(orders.tenantId, tenantId),
+      or(eq(orders.orderType, 'customer'), isNull(orders.orderType)),
+      ne(orders.status, 'cancelled'),
+      gte(orders.createdAt, since)
+    ))
+    .groupBy(orderItems.productId, orderItems.variantId, orderItems.locationId);
+
+  const sales = new Map<string, { quantity: number; weight: number }>();
+  for (const row of rows) {
+    const key = stockKey(row.productId, row.variantId, row.locationId || defaultLocationId);
+    const existing = sales.get(key) || { quantity: 0, weight: 0 };
+    sales.set(key, {
+      quantity: existing.quantity + parseFloat(row.quantity || '0'),
+      weight: existing.weight + parseFloat(row.weight || '0'),
+    });
+  }
+
+  // Weight-based lines carry their amount in weight, quantity-based in units
+  return new Map([...sales].map(([key, value]) => [key, value.weight > 0 ? value.weight : value.quantity]));
+}
+
+/**
+ * Amounts ordered from suppliers on open purchase orders and not yet received,
+ * by product/variant/location
+ */
+async function getOnOrderByStockKey(tenantId: string, defaultLocationId: string): Promise<Map<string, number>> {
+  const rows = await db
+    .select({
+      productId: orderItems.productId,
+      variantId: orderItems.variantId,
+      locationId: orders.fulfillmentLocationId,
+      // Weight-based lines carry their amount in weight, quantity-based in units
+      outstanding: sql<string>`SUM(CASE WHEN ${orderItems.weightQuantity} > 0
+        THEN GREATEST(${orderItems.weightQuantity} - ${orderItems.receivedWeight}, 0)
+        ELSE GREATEST(${orderItems.quantity} - ${orderItems.receivedQuantity}, 0) END)`,
+    })
+    .from(orderItems)
+    .innerJoin(orders, eq(orderItems.orderId, orders.id))
+    .where(and(
+      eq(orders.tenantId, tenantId),
+      eq(orders.orderType, 'purchase_order'),
+      notInArray(orders.status, CLOSED_PO_STATUSES)
+    ))
+    .groupBy(orderItems.productId, orderItems.variantId, orders.fulfillmentLocationId);
+
+  const onOrder = new Map<string, number>();
+  for (const row of rows) {
+    const key = stockKey(row.productId, row.variantId, row.locationId || defaultLocationId);
+    onOrder.set(key, (onOrder.get(key) || 0) + parseFloat(row.outstanding || '0'));
+  }
+  return onOrder;
+}
+
+/**
+ * Inventory rows that need restocking, with a suggested order amount
+ */
+export async function getReorderSuggestions(tenantId: string, options: ReorderOptions = {}): Promise<ReorderSuggestion[]> {
+  const velocityDays = options.velocityDays && options.velocityDays > 0 ? options.velocityDays : 30;
+  const coverDays = options.coverDays && options.coverDays > 0 ? options.coverDays : 14;
+  const defaultLocation = await getDefaultLocation(tenantId);
+
+  const conditions = [eq(productInventory.tenantId, tenantId)];
+  if (options.locationId) {
+    conditions.push(options.locationId === defaultLocation.id
+      ? or(eq(productInventory.locationId, defaultLocation.id), isNull(productInventory.locationId))!
+      : eq(productInventory.locationId, options.locationId));
+  }
+
+  const [rows, sales, onOrder] = await Promise.all([
+    db
+      .select({
+        inventory: productInventory,
+        productId: products.id,
+        productName: products.name,
+        productSku: products.sku,
+        productType: products.productType,
+        stockManagementType: products.stockManagementType,
+        productSupplierId: products.supplierId,
+        productCost: products.costPrice,
+        variantTitle: productVariants.title,
+        variantSku: productVariants.sku,
+        variantCost: productVariants.costPrice,
+        locationName: inventoryLocations.name,
+      })
+      .from(productInventory)
+      .innerJoin(products, and(eq(productInventory.productId, products.id), eq(products.tenantId, tenantId)))
+      .leftJoin(productVariants, eq(productInventory.variantId, productVariants.id))
+      .leftJoin(inventoryLocations, eq(productInventory.locationId, inventoryLocations.id))
+      .where(and(...conditions, eq(products.isActive, true))),
+    options.useSalesVelocity ? getSalesByStockKey(tenantId, velocityDays, defaultLocation.id) : Promise.resolve(new Map<string, number>()),
+    getOnOrderByStockKey(tenantId, defaultLocation.id),
+  ]);
+
+  // Untracked products are never short
+  const tracking = await getStockTrackingDirect(tenantId, rows.map(row => ({ productId: row.productId, variantId: row.inventory.variantId })));
+
+  const supplierIds = [...new Set(rows.map(row => row.productSupplierId || row.inventory.supplierId).filter((id): id is string => !!id))];
+  const supplierRows = supplierIds.length > 0
+    ? await db
+        .select({ id: suppliers.id, name: suppliers.name, companyName: suppliers.companyName })
+        .from(suppliers)
+        .where(and(eq(suppliers.tenantId, tenantId), inArray(suppliers.id, supplierIds)))
+    : [];
+  const supplierById = new Map(supplierRows.map(row => [row.id, row]));
+
+  const suggestions: ReorderSuggestion[] = [];
+  for (const row of rows) {
+    const { inventory } = row;
+    if (tracking.get(`${row.productId}:${inventory.variantId || ''}`) === 'untracked') continue;
+    // Variable products are stocked per variant
+    if (row.productType === 'variable' && !inventory.variantId) continue;
+
+    const isWeightBased = isWeightBasedProduct(row.stockManagementType || 'quantity');
+    const locationId = inventory.locationId || defaultLocation.id;
+    const key = stockKey(row.productId, inventory.variantId, locationId);
+
+    const available = isWeightBased
+      ? parseFloat(inventory.weightQuantity || '0') - parseFloat(inventory.reservedWeight || '0')
+      : inventory.quantity - (inventory.reservedQuantity || 0);
+    const reorderPoint = isWeightBased ? parseFloat(inventory.reorderWeightPoint || '0') : inventory.reorderPoint || 0;
+    const reorderQuantity = isWeightBased ? parseFloat(inventory.reorderWeightQuantity || '0') : inventory.reorderQuantity || 0;
+    const pending = onOrder.get(key) || 0;
+    const position = available + pending;
+
+    const dailySales = options.useSalesVelocity ? (sales.get(key) || 0) / velocityDays : null;
+    const daysOfCover = dailySales ? round2(position / dailySales) : null;
+
+    const atReorderPoint = reorderPoint > 0 && position <= reorderPoint;
+    const lowCover = daysOfCover !== null && daysOfCover < coverDays;
+    if (!atReorderPoint && !lowCover) continue;
+
+    // Order the reorder quantity (or back up to twice the reorder point), and at
+    // least enough to cover the target days of sales
+    let suggested = reorderQuantity > 0 ? reorderQuantity : Math.max(reorderPoint * 2 - position, 0);
+    if (dailySales) {
+      suggested = Math.max(suggested, dailySales * coverDays - position);
+    }
+    suggested = isWeightBased ? round2(suggested) : Math.ceil(suggested);
+    if (suggested <= 0) continue;
+
+    const supplierId = row.productSupplierId || inventory.supplierId || null;
+    const supplier = supplierId ? supplierById.get(supplierId) : undefined;
+    const cost = row.variantCost || row.productCost;
+    const unitCost = cost ? parseFloat(cost) : null;
+
+    suggestions.push({
+      inventoryId: inventory.id,
+      productId: row.productId,
+      variantId: inventory.variantId || null,
+      productName: row.productName,
+      variantTitle: row.variantTitle,
+      sku: row.variantSku || row.productSku,
+      locationId,
+      locationName: row.locationName || defaultLocation.name,
+      supplierId: supplier ? supplierId : null,
+      supplierName: supplier ? supplier.companyName || supplier.name : null,
+      isWeightBased,
+      available: isWeightBased ? round2(available) : available,
+      onOrder: pending,
+      reorderPoint,
+      reorderQuantity,
+      dailySales: dailySales === null ? null : round2(dailySales),
+      daysOfCover,
+      suggestedQuantity: suggested,
+      unitCost,
+      estimatedCost: unitCost === null ? null : round2(isWeightBased ? suggested / 1000 * unitCost : suggested * unitCost),
+      reason: atReorderPoint ? 'reorder_point' : 'low_cover',
+    });
+  }
+
+  return suggestions
+    .filter(suggestion => !options.supplierId || suggestion.supplierId === options.supplierId)
+    .sort((a, b) =>
+      (a.supplierName || '~').localeCompare(b.supplierName || '~') ||
+      a.productName.localeCompare(b.productName)
+    );
+}
+
+/**
+ * Create one draft purchase order per supplier and location from the
+ * current suggestions
+ *
+ * @param lines Suggestions to order, optionally with a different amount; all suggestions when omitted
+ */
+export async function createDraftPurchaseOrders(
+  tenantId: string,
+  options: ReorderOptions & { lines?: DraftPurchaseOrderLine[] } = {}
+): Promise<DraftPurchaseOrderResult> {
+  const suggestions = await getReorderSuggestions(tenantId, options);
+  const byInventoryId = new Map(suggestions.map(suggestion => [suggestion.inventoryId, suggestion]));
+  const skipped: { inventoryId: string; reason: string }[] = [];
+
+  const selected: { suggestion: ReorderSuggestion; quantity: number }[] = [];
+  const requested: DraftPurchaseOrderLine[] = options.lines || suggestions.map(suggestion => ({ inventoryId: suggestion.inventoryId }));
+  for (const line of requested) {
+    const suggestion = byInventoryId.get(line.inventoryId);
+    if (!suggestion) {
+      skipped.push({ inventoryId: line.inventoryId, reason: 'No longer needs reordering' });
+      continue;
+    }
+    if (!suggestion.supplierId) {
+      skipped.push({ inventoryId: line.inventoryId, reason: 'No supplier set for this product' });
+      continue;
+    }
+
+    const quantity = line.quantity !== undefined ? Number(line.quantity) : suggestion.suggestedQuantity;
+    if (suggestion.isWeightBased ? !(quantity > 0) : !(Number.isInteger(quantity) && quantity > 0)) {
+      return {
+        success: false,
+        error: suggestion.isWeightBased
+          ? 'Order weights must be greater than zero'
+          : 'Order quantities must be whole numbers greater than zero',
+      };
+    }
+    selected.push({ suggestion, quantity });
+  }
+
+  if (selected.length === 0) {
+    return { success: false, error: 'Nothing to order', skipped };
+  }
+
+  const groups = new Map<string, typeof selected>();
+  for (const entry of selected) {
+    const key = `${entry.suggestion.supplierId}:${entry.suggestion.locationId}`;
+    groups.set(key, [...(groups.get(key) || []), entry]);
+  }
+
+  const supplierRows = await db
+    .select()
+    .from(suppliers)
+    .where(and(eq(suppliers.tenantId, tenantId), inArray(suppliers.id, [...new Set(selected.map(entry => entry.suggestion.supplierId!))])));
+  const supplierById = new Map(supplierRows.map(row => [row.id, row]));
+
+  const created: NonNullable<DraftPurchaseOrderResult['purchaseOrders']> = [];
+  for (const entries of groups.values()) {
+    const { supplierId, locationId } = entries[0].suggestion;
+    const supplier = supplierById.get(supplierId!)!;
+
+    const lines = entries.map(({ suggestion, quantity }) => {
+      const unitCost = suggestion.unitCost || 0;
+      return {
+        suggestion,
+        quantity,
+        unitCost,
+        totalPrice: round2(suggestion.isWeightBased ? quantity / 1000 * unitCost : quantity * unitCost),
+      };
+    });
+    const totalAmount = round2(lines.reduce((sum, line) => sum + line.totalPrice, 0));
+
+    const orderId = uuidv4();
+    const orderNumber = 'ORD-' + Date.now() + '-' + Math.random().toString(36).substr(2, 5).toUpperCase();
+    const now = new Date();
+    const purchaseOrderNumber = await generatePurchaseOrderNumber(tenantId);
+
+    await db.transaction(async (tx) => {
+      await tx.insert(orders).values({
+        id: orderId,
+        tenantId,
+        orderNumber,
+        email: supplier.email,
+        phone: supplier.phone || null,
+        status: 'draft',
+        paymentStatus: 'pending',
+        fulfillmentStatus: 'pending',
+        subtotal: totalAmount.toFixed(2),
+        totalAmount: totalAmount.toFixed(2),
+        currency: supplier.currency || undefined,
+        orderType: 'purchase_order',
+        supplierId: supplier.id,
+        purchaseOrderNumber,
+        fulfillmentLocationId: locationId,
+        notes: `Generated from reorder suggestions${options.useSalesVelocity ? ` (${options.coverDays || 14} days of cover)` : ''}`,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      await tx.insert(orderItems).values(lines.map(({ suggestion, quantity, unitCost, totalPrice }) => ({
+        id: uuidv4(),
+        orderId,
+        productId: suggestion.productId,
+        variantId: suggestion.variantId,
+        productName: suggestion.productName,
+        variantTitle: suggestion.variantTitle,
+        sku: suggestion.sku,
+        quantity: suggestion.isWeightBased ? 1 : quantity,
+        weightQuantity: suggestion.isWeightBased ? quantity.toFixed(2) : '0.00',
+        weightUnit: suggestion.isWeightBased ? 'grams' : null,
+        locationId: suggestion.locationId,
+        price: unitCost.toFixed(2),
+        costPrice: unitCost.toFixed(2),
+        totalPrice: totalPrice.toFixed(2),
+        totalCost: totalPrice.toFixed(2),
+        createdAt: now,
+      })));
+    });
+
+    created.push({ id: orderId, orderNumber, purchaseOrderNumber, supplierId: supplier.id, lineCount: lines.length, totalAmount });
+    console.log(`🧾 Drafted purchase order ${purchaseOrderNumber} for ${supplier.name} (${lines.length} line(s))`);
+  }
+
+  return { success: true, purchaseOrders: created, skipped };
+}
+
+/**
+ * Send a draft purchase order: email it to the supplier and mark it pending
+ */
+export async function sendPurchaseOrder(tenantId: string, orderId: string): Promise<SendPurchaseOrderResult> {
+  const [order] = await db
+    .select()
+    .from(orders)
+    .where(and(eq(orders.id, orderId), eq(orders.tenantId, tenantId), eq(orders.orderType, 'purchase_order')))
+    .limit(1);
+
+  if (!order) {
+    return { success: false, error: 'Purchase order not found' };
+  }
+  if (order.status !== 'draft') {
+    return { success: false, error: `A ${order.status} purchase order has already been sent` };
+  }
+
+  const [[supplier], items] = await Promise.all([
+    order.supplierId
+      ? db.select().from(suppliers).where(and(eq(suppliers.id, order.supplierId), eq(suppliers.tenantId, tenantId))).limit(1)
+      : Promise.resolve([]),
+    db.select().from(orderItems).where(eq(orderItems.orderId, order.id)),
+  ]);
+
+  if (!supplier) {
+    return { success: false, error: 'Supplier not found for this purchase order' };
+  }
+
+  let emailSent = false;
+  try {
+    const rows = items.map(item => {
+      const weight = parseFloat(item.weightQuantity || '0');
+      const amount = weight > 0 ? formatWeightAuto(weight).formattedString : String(item.quantity);
+      return `<tr><td>${item.productName}${item.variantTitle ? ` (${item.variantTitle})` : ''}</td><td>${item.sku || ''}</td><td style="text-align:right">${amount}</td></tr>`;
+    }).join('');
+    const html = `
+      <h2>Purchase Order ${order.purchaseOrderNumber}</h2>
+      <p>Please supply the following items${order.expectedDeliveryDate ? ` by ${order.expectedDeliveryDate.toLocaleDateString()}` : ''}.</p>
+      <table cellpadding="6" border="1" style="border-collapse:collapse">
+        <thead><tr><th>Item</th><th>SKU</th><th>Quantity</th></tr></thead>
+        <tbody>${rows}</tbody>
+      </table>
+      <p>Total: ${order.currency} ${order.totalAmount}</p>
+    `;
+    await sendHtmlEmail(supplier.primaryContactEmail || supplier.email, `Purchase Order ${order.purchaseOrderNumber}`, html);
+    emailSent = true;
+  } catch (error) {
+    // The PO still counts as sent; the buyer can forward it by hand
+    console.error(`❌ Failed to email purchase order ${order.purchaseOrderNumber}:`, error);
+  }
+
+  await db
+    .update(orders)
+    .set({ status: 'pending', updatedAt: new Date() })
+    .where(eq(orders.id, order.id));
+
+  console.log(`📤 Sent purchase order ${order.purchaseOrderNumber} to ${supplier.name}`);
+  return { success: true, emailSent };
+}
@@ -0,0 +1,908 @@
+/**
+ * Returns (RMA) Workflow
+ *
+ * Tenant-scoped return merchandise authorisations. A return is opened against
+ * lines of an existing order and moves through:
+ *
+ *   pending → approved → received → completed
+ *        ↘ rejected (before the goods are received)
+ *
+ * Quantities are validated against what was sold minus what is already on
+ * other (non-rejected) returns. When goods are received, items in "new"
+ * condition are restocked and "damaged" items are recorded as a write-off
+ * movement. Completing a return creates the linked refund as pending (see
+ * lib/refunds.ts for processing).
+ */
+
+import { db, type DbExecutor, type DbTransaction } from '@/lib/db';
+import { orderItemComponents, orderItems, orders, productInventory, products, refunds, returnItems, returns, stockMovements, user } from '@/lib/schema';
+import { and, asc, desc, eq, inArray, isNull, ne, or, sql } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { getAdminUserWithPermissions, hasPermission, PERMISSIONS } from '@/lib/rbac';
+import {
+  findOrCreateInventoryAtLocation,
+  getDefaultLocation,
+  getLocation,
+  lockInventoryRows,
+  type InventoryLocationRow,
+  type ProductInventoryRow,
+} from '@/lib/inventoryLocations';
+import { restoreOrderItemLots } from '@/lib/inventoryLots';
+import { createRefund } from '@/lib/refunds';
+import { getStockTrackingDirect, type StockTrackingMode } from '@/lib/stockManagement';
+import { isWeightBasedProduct } from '@/utils/weightUtils';
+
+export type ReturnStatus = 'pending' | 'approved' | 'received' | 'completed' | 'rejected';
+export type ReturnItemCondition = 'new' | 'used' | 'damaged';
+export type ReturnRestockAction = 'restocked' | 'written_off' | 'none';
+
+export const RETURN_ITEM_CONDITIONS: ReturnItemCondition[] = ['new', 'used', 'damaged'];
+
+// Allowed next states for each state. A received return has been restocked,
+// so it cannot be rejected: rejected returns no longer count against the
+// returnable quantity and the same units could be returned again.
+export const RETURN_STATUS_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  pending: ['approved', 'rejected'],
+  approved: ['received', 'rejected'],
+  received: ['completed'],
+  completed: [],
+  rejected: [],
+};
+
+// Permission required to move a return INTO each state
+export const RETURN_STATUS_PERMISSIONS: Record<ReturnStatus, string> = {
+  pending: PERMISSIONS.RETURNS_CREATE,
+  approved: PERMISSIONS.RETURNS_APPROVE,
+  rejected: PERMISSIONS.RETURNS_APPROVE,
+  received: PERMISSIONS.RETURNS_RECEIVE,
+  completed: PERMISSIONS.RETURNS_COMPLETE,
+};
+
+// Orders in these states have nothing to return
+const NON_RETURNABLE_ORDER_STATUSES = ['cancelled'];
+
+const RETURN_NUMBER_PREFIX = 'RET-';
+const RETURN_NUMBER_DIGITS = 6;
+
+type ReturnRow = typeof returns.$inferSelect;
+type ReturnItemRow = typeof returnItems.$inferSelect;
+type OrderItemRow = typeof orderItems.$inferSelect;
+
+export interface CreateReturnItemInput {
+  orderItemId: string;
+  quantity: number;
+  condition?: ReturnItemCondition;
+}
+
+export interface CreateReturnInput {
+  orderId: string;
+  reason: string;
+  description?: string;
+  restockFee?: number;
+  adminNotes?: string;
+  items: CreateReturnItemInput[];
+  createdBy?: string;
+}
+
+export interface TransitionReturnInput {
+  status: ReturnStatus;
+  userId?: string;
+  adminNotes?: string;
+  restock?: boolean; // When receiving: apply stock changes by condition (default true)
+  items?: { id: string; condition: ReturnItemCondition }[]; // When receiving: conditions as inspected
+  refundMethod?: string; // When completing: method for the auto-created refund
+}
+
+export interface ReturnResult {
+  success: boolean;
+  error?: string;
+  return?: ReturnRow;
+  items?: ReturnItemRow[];
+  refund?: typeof refunds.$inferSelect;
+}
+
+export interface ReturnableOrderItem {
+  orderItemId: string;
+  productId: string;
+  variantId: string | null;
+  productName: string;
+  variantTitle: string | null;
+  sku: string | null;
+  unitPrice: number;
+  soldQuantity: number;
+  returnedQuantity: number;
+  returnableQuantity: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Check the signed-in admin's role for a returns permission
+ *
+ * @param permission One of the PERMISSIONS.RETURNS_* constants
+ * @returns Whether the action is allowed and the acting admin's id
+ */
+export async function authorizeReturnAction(permission: string): Promise<{ allowed: boolean; userId?: string }> {
+  const { user: adminUser, permissions } = await getAdminUserWithPermissions();
+
+  if (!adminUser || !permissions) {
+    return { allowed: false };
+  }
+
+  return { allowed: hasPermission(permissions.permissions, permission), userId: adminUser.id };
+}
+
+/**
+ * Price per unit that is refunded for an order line (line total incl. tax and discounts / units sold)
+ */
+function getRefundableUnitPrice(item: OrderItemRow): number {
+  return item.quantity > 0 ? round2(parseFloat(item.totalPrice || '0') / item.quantity) : 0;
+}
+
+/**
+ * Units of each order line already on returns that were not rejected
+ */
+async function getReturnedQuantities(
+  tenantId: string,
+  orderId: string,
+  executor: DbExecutor = db
+): Promise<Map<string, number>> {
+  const rows = await executor
+    .select({
+      orderItemId: returnItems.orderItemId,
+      quantity: sql<string>`SUM(${returnItems.quantity})`,
+    })
+    .from(returnItems)
+    .innerJoin(returns, eq(returnItems.returnId, returns.id))
+    .where(and(
+      eq(returns.tenantId, tenantId),
+      eq(returns.orderId, orderId),
+      ne(returns.status, 'rejected')
+    ))
+    .groupBy(returnItems.orderItemId);
+
+  return new Map(rows.map(row => [row.orderItemId, parseInt(row.quantity || '0')]));
+}
+
+/**
+ * Next sequential return number for a tenant (RET-000001, RET-000002, …)
+ *
+ * Numbers from the old `RET-<timestamp>` format are ignored when picking the next value.
+ */
+async function generateReturnNumber(tenantId: string, executor: DbExecutor = db): Promise<string> {
+  const [row] = await executor
+    .select({
+      maxNumber: sql<string | null>`MAX(CAST(SUBSTRING(${returns.returnNumber}, ${RETURN_NUMBER_PREFIX.length + 1}) AS UNSIGNED))`,
+    })
+    .from(returns)
+    .where(and(
+      eq(returns.tenantId, tenantId),
+      sql`${returns.returnNumber} REGEXP ${`^${RETURN_NUMBER_PREFIX}[0-9]{${RETURN_NUMBER_DIGITS},9}$`}`
+    ));
+
+  const next = parseInt(row?.maxNumber || '0') + 1;
+  return `${RETURN_NUMBER_PREFIX}${String(next).padStart(RETURN_NUMBER_DIGITS, '0')}`;
+}
+
+/**
+ * Order lines of an order with how many units can still be returned
+ *
+ * @param tenantId The tenant that owns the order
+ * @param orderRef The order id or order number
+ * @returns null when the order does not belong to the tenant
+ */
+export async function getReturnableOrderItems(tenantId: string, orderRef: string) {
+  const [order] = await db
+    .select({
+      id: orders.id,
+      orderNumber: orders.orderNumber,
+      status: orders.status,
+      email: orders.email,
+      totalAmount: orders.totalAmount,
+      createdAt: orders.createdAt,
+    })
+    .from(orders)
+    .where(and(eq(orders.tenantId, tenantId), or(eq(orders.id, orderRef), eq(orders.orderNumber, orderRef))))
+    .limit(1);
+
+  if (!order) {
+    return null;
+  }
+
+  const [items, returned] = await Promise.all([
+    db.select().from(orderItems).where(eq(orderItems.orderId, order.id)),
+    getReturnedQuantities(tenantId, order.id),
+  ]);
+
+  const returnableItems: ReturnableOrderItem[] = items.map(item => {
+    const returnedQuantity = returned.get(item.id) || 0;
+    return {
+      orderItemId: item.id,
+      productId: item.productId,
+      variantId: item.variantId,
+      productName: item.productName,
+      variantTitle: item.variantTitle,
+      sku: item.sku,
+      unitPrice: getRefundableUnitPrice(item),
+      soldQuantity: item.quantity,
+      returnedQuantity,
+      returnableQuantity: Math.max(item.quantity - returnedQuantity, 0),
+    };
+  });
+
+  return {
+    order,
+    returnable: !NON_RETURNABLE_ORDER_STATUSES.includes(order.status),
+    items: returnableItems,
+  };
+}
+
+/**
+ * Open a return for lines of an order
+ *
+ * @param tenantId The tenant that owns the order
+ * @param input Order, reason and the lines/quantities being returned
+ * @returns The created return and its items
+ */
+export async function createReturn(tenantId: string, input: CreateReturnInput): Promise<ReturnResult> {
+  if (!input.orderId || !input.reason?.trim()) {
+    return { success: false, error: 'Order and reason are required' };
+  }
+  if (!Array.isArray(input.items) || input.items.length === 0) {
+    return { success: false, error: 'Select at least one item to return' };
+  }
+
+  // Read committed, so a retry after a duplicate return number sees the return that took it
+  return db.transaction(async (tx): Promise<ReturnResult> => {
+    // The order row lock serialises returns on the order, so two cannot both take the same units
+    const [order] = await tx
+      .select()
+      .from(orders)
+      .where(and(eq(orders.id, input.orderId), eq(orders.tenantId, tenantId)))
+      .for('update');
+
+    if (!order) {
+      return { success: false, error: 'Order not found' };
+    }
+    if (NON_RETURNABLE_ORDER_STATUSES.includes(order.status)) {
+      return { success: false, error: `Items cannot be returned from a ${order.status} order` };
+    }
+
+    const soldItems = await tx
+      .select()
+      .from(orderItems)
+      .where(eq(orderItems.orderId, order.id));
+    const soldById = new Map(soldItems.map(item => [item.id, item]));
+    const returned = await getReturnedQuantities(tenantId, order.id, tx);
+
+    // Merge repeated lines so the same order item can't be split to bypass the limit
+    const requested = new Map<string, CreateReturnItemInput>();
+    for (const item of input.items) {
+      const quantity = Number(item.quantity);
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        return { success: false, error: 'Return quantities must be whole numbers greater than zero' };
+      }
+      if (item.condition && !RETURN_ITEM_CONDITIONS.includes(item.condition)) {
+        return { success: false, error: `Condition must be one of: ${RETURN_ITEM_CONDITIONS.join(', ')}` };
+      }
+
+      const existing = requested.get(item.orderItemId);
+      requested.set(item.orderItemId, {
+        orderItemId: item.orderItemId,
+        quantity: (existing?.quantity || 0) + quantity,
+        condition: item.condition || existing?.condition,
+      });
+    }
+
+    const now = new Date();
+    const returnId = uuidv4();
+    const newItems: ReturnItemRow[] = [];
+    let subtotal = 0;
+
+    for (const item of requested.values()) {
+      const sold = soldById.get(item.orderItemId);
+      if (!sold) {
+        return { success: false, error: 'One or more items do not belong to this order' };
+      }
+
+      const alreadyReturned = returned.get(sold.id) || 0;
+      const returnable = sold.quantity - alreadyReturned;
+      const label = `${sold.productName}${sold.variantTitle ? ` (${sold.variantTitle})` : ''}`;
+      if (item.quantity > returnable) {
+        return {
+          success: false,
+          error: returnable > 0
+            ? `Only ${returnable} of ${sold.quantity} ${label} can be returned (${alreadyReturned} already returned)`
+            : `All ${sold.quantity} ${label} have already been returned`,
+        };
+      }
+
+      const unitPrice = getRefundableUnitPrice(sold);
+      subtotal += unitPrice * item.quantity;
+
+      newItems.push({
+        id: uuidv4(),
+        tenantId,
+        returnId,
+        orderItemId: sold.id,
+        productId: sold.productId,
+        variantId: sold.variantId,
+        quantity: item.quantity,
+        unitPrice: unitPrice.toFixed(2),
+        condition: item.condition || null,
+        restockAction: null,
+        stockMovementId: null,
+        createdAt: now,
+      });
+    }
+
+    subtotal = round2(subtotal);
+    const restockFee = round2(Number(input.restockFee) || 0);
+    if (restockFee < 0 || restockFee > subtotal) {
+      return { success: false, error: 'Restock fee must be between 0 and the value of the returned items' };
+    }
+
+    // Retry on the rare race where another return takes the same number
+    let returnRecord: ReturnRow | undefined;
+    for (let attempt = 0; attempt < 3 && !returnRecord; attempt++) {
+      const candidate: ReturnRow = {
+        id: returnId,
+        tenantId,
+        returnNumber: await generateReturnNumber(tenantId, tx),
+        orderId: order.id,
+        userId: order.userId,
+        status: 'pending',
+        reason: input.reason.trim(),
+        description: input.description?.trim() || null,
+        refundAmount: round2(subtotal - restockFee).toFixed(2),
+        restockFee: restockFee.toFixed(2),
+        adminNotes: input.adminNotes?.trim() || null,
+        createdBy: input.createdBy || null,
+        approvedBy: null,
+        approvedAt: null,
+        receivedBy: null,
+        receivedAt: null,
+        completedBy: null,
+        completedAt: null,
+        rejectedBy: null,
+        rejectedAt: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      try {
+        await tx.insert(returns).values(candidate);
+        returnRecord = candidate;
+      } catch (error: any) {
+        if (error?.code !== 'ER_DUP_ENTRY') throw error;
+      }
+    }
+
+    if (!returnRecord) {
+      return { success: false, error: 'Could not allocate a return number, please try again' };
+    }
+
+    await tx.insert(returnItems).values(newItems);
+
+    console.log(`↩️ Return ${returnRecord.returnNumber} opened for order ${order.orderNumber}`);
+    return { success: true, return: returnRecord, items: newItems };
+  }, { isolationLevel: 'read committed' });
+}
+
+/**
+ * List a tenant's returns with order and customer summary
+ */
+export async function listReturns(tenantId: string, status?: string) {
+  const conditions = [eq(returns.tenantId, tenantId)];
+  if (status) {
+    conditions.push(eq(returns.status, status));
+  }
+
+  return db
+    .select({
+      return: returns,
+      order: {
+        id: orders.id,
+        orderNumber: orders.orderNumber,
+        totalAmount: orders.totalAmount,
+      },
+      user: {
+        id: user.id,
+        name: user.name,
+        email: user.email,
+      },
+    })
+    .from(returns)
+    .leftJoin(orders, and(eq(returns.orderId, orders.id), eq(orders.tenantId, tenantId)))
+    .leftJoin(user, eq(returns.userId, user.id))
+    .where(and(...conditions))
+    .orderBy(desc(returns.createdAt));
+}
+
+/**
+ * Load a return with its lines, order, customer and linked refunds
+ *
+ * @returns null when the return does not belong to the tenant
+ */
+export async function getReturnDetails(tenantId: string, returnId: string) {
+  const [row] = await db
+    .select({
+      return: returns,
+      order: {
+        id: orders.id,
+        orderNumber: orders.orderNumber,
+        totalAmount: orders.totalAmount,
+        status: orders.status,
+        createdAt: orders.createdAt,
+      },
+      user: {
+        id: user.id,
+        name: user.name,
+        email: user.email,
+      },
+    })
+    .from(returns)
+    .leftJoin(orders, and(eq(returns.orderId, orders.id), eq(orders.tenantId, tenantId)))
+    .leftJoin(user, eq(returns.userId, user.id))
+    .where(and(eq(returns.id, returnId), eq(returns.tenantId, tenantId)))
+    .limit(1);
+
+  if (!row) {
+    return null;
+  }
+
+  const [items, linkedRefunds] = await Promise.all([
+    db
+      .select({
+        item: returnItems,
+        orderItem: {
+          productName: orderItems.productName,
+          variantTitle: orderItems.variantTitle,
+          sku: orderItems.sku,
+          quantity: orderItems.quantity,
+        },
+      })
+      .from(returnItems)
+      .leftJoin(orderItems, eq(returnItems.orderItemId, orderItems.id))
+      .where(and(eq(returnItems.returnId, returnId), eq(returnItems.tenantId, tenantId)))
+      .orderBy(asc(returnItems.createdAt)),
+    db
+      .select()
+      .from(refunds)
+      .where(and(eq(refunds.returnId, returnId), eq(refunds.tenantId, tenantId)))
+      .orderBy(desc(refunds.createdAt)),
+  ]);
+
+  return {
+    ...row,
+    items: items.map(({ item, orderItem }) => ({
+      ...item,
+      productName: orderItem?.productName || 'Unknown Product',
+      variantTitle: orderItem?.variantTitle || null,
+      sku: orderItem?.sku || null,
+      soldQuantity: orderItem?.quantity || 0,
+    })),
+    refunds: linkedRefunds,
+    allowedTransitions: RETURN_STATUS_TRANSITIONS[(row.return.status || 'pending') as ReturnStatus] || [],
+  };
+}
+
+/**
+ * One stock change for a received return line: a plain line, or one
+ * component of a returned bundle
+ */
+interface ReturnStockLine {
+  stockLineId: string; // Order item, or bundle component, whose lots the goods go back into
+  productId: string;
+  variantId: string | null;
+  amount: number; // units, or grams for weight-based products
+  isWeightBased: boolean;
+  isRestock: boolean;
+  costPrice?: string | null;
+  bundleName?: string;
+  location: InventoryLocationRow;
+  inventoryId: string;
+}
+
+/**
+ * Work out the stock change for one received line based on its condition
+ *
+ * "new" goes back into inventory; "damaged" is logged as a write-off movement
+ * without changing on-hand stock; anything else is left alone. Inventory rows
+ * the goods go to are created here if missing, so the caller can lock them all
+ * at once before applying the changes with returnStock.
+ */
+async function planReturnItemStock(
+  tenantId: string,
+  item: ReturnItemRow,
+  executor: DbExecutor = db
+): Promise<ReturnStockLine[]> {
+  if (item.condition !== 'new' && item.condition !== 'damaged') {
+    return [];
+  }
+
+  const [[product], [orderItem]] = await Promise.all([
+    executor
+      .select({ stockManagementType: products.stockManagementType })
+      .from(products)
+      .where(and(eq(products.id, item.productId), eq(products.tenantId, tenantId)))
+      .limit(1),
+    executor
+      .select()
+      .from(orderItems)
+      .where(eq(orderItems.id, item.orderItemId))
+      .limit(1),
+  ]);
+
+  if (!product || !orderItem) {
+    console.warn(`Product not found for returned item ${item.id}, skipping restock`);
+    return [];
+  }
+
+  // Stock for a line that is only reserved never left inventory (see lib/stockReservations.ts)
+  if (orderItem.stockStatus === 'reserved') {
+    return [];
+  }
+
+  const isRestock = item.condition === 'new';
+
+  // Bundles come back as their components
+  const components = await executor
+    .select()
+    .from(orderItemComponents)
+    .where(and(eq(orderItemComponents.tenantId, tenantId), eq(orderItemComponents.orderItemId, orderItem.id)));
+  if (components.length > 0) {
+    return planBundleReturnStock(tenantId, item, orderItem, components, executor);
+  }
+
+  const isWeightBased = isWeightBasedProduct(product.stockManagementType || 'quantity');
+
+  // Weight-based lines restore the share of the sold weight that came back
+  const returnedWeight = isWeightBased && orderItem.quantity > 0
+    ? round2(parseFloat(orderItem.weightQuantity || '0') * item.quantity / orderItem.quantity)
+    : 0;
+
+  return [await resolveReturnStockLine(tenantId, executor, {
+    stockLineId: orderItem.id,
+    productId: item.productId,
+    variantId: item.variantId || null,
+    amount: isWeightBased ? returnedWeight : item.quantity,
+    isWeightBased,
+    isRestock,
+    costPrice: orderItem.costPrice || null,
+  }, orderItem.locationId)];
+}
+
+/**
+ * Plan the stock changes for the components of a returned bundle line, in
+ * the share of the bundles that came back
+ */
+async function planBundleReturnStock(
+  tenantId: string,
+  item: ReturnItemRow,
+  orderItem: typeof orderItems.$inferSelect,
+  components: Array<typeof orderItemComponents.$inferSelect>,
+  executor: DbExecutor
+): Promise<ReturnStockLine[]> {
+  const componentProducts = await executor
+    .select({ id: products.id, stockManagementType: products.stockManagementType })
+    .from(products)
+    .where(and(eq(products.tenantId, tenantId), inArray(products.id, components.map(component => component.productId))));
+  const share = orderItem.quantity > 0 ? item.quantity / orderItem.quantity : 0;
+  const isRestock = item.condition === 'new';
+
+  const lines: ReturnStockLine[] = [];
+  for (const component of components) {
+    // Components that were not stock-tracked when sold are left alone
+    if (component.stockStatus === 'none' || component.stockStatus === 'reserved') continue;
+
+    const product = componentProducts.find(row => row.id === component.productId);
+    if (!product) continue;
+
+    const isWeightBased = isWeightBasedProduct(product.stockManagementType || 'quantity');
+    const amount = isWeightBased
+      ? round2(parseFloat(component.weightQuantity || '0') * share)
+      : Math.round(component.quantity * share);
+    if (amount <= 0) continue;
+
+    lines.push(await resolveReturnStockLine(tenantId, executor, {
+      stockLineId: component.id,
+      productId: component.productId,
+      variantId: component.variantId,
+      amount,
+      isWeightBased,
+      isRestock,
+      bundleName: orderItem.productName,
+    }, component.locationId));
+  }
+
+  return lines;
+}
+
+/**
+ * Goods go back to the location the order line was picked from
+ */
+async function resolveReturnStockLine(
+  tenantId: string,
+  executor: DbExecutor,
+  line: Omit<ReturnStockLine, 'location' | 'inventoryId'>,
+  locationId: string | null
+): Promise<ReturnStockLine> {
+  const location = (locationId && await getLocation(tenantId, locationId, executor))
+    || await getDefaultLocation(tenantId, executor);
+  const inventory = await findOrCreateInventoryAtLocation(tenantId, line, location, executor);
+  return { ...line, location, inventoryId: inventory.id };
+}
+
+/**
+ * Put returned goods back on hand ("new") or log them as written off
+ * ("damaged") on an inventory row locked by the caller's transaction
+ *
+ * @returns The stock movement id
+ */
+async function returnStock(
+  tx: DbTransaction,
+  tenantId: string,
+  returnRecord: ReturnRow,
+  line: ReturnStockLine,
+  inventory: ProductInventoryRow,
+  userId?: string
+): Promise<string> {
+  const { amount, isWeightBased, isRestock } = line;
+
+  const previousQuantity = inventory.quantity;
+  const previousWeight = parseFloat(inventory.weightQuantity || '0');
+  let newQuantity = previousQuantity;
+  let newWeight = previousWeight;
+
+  if (isRestock) {
+    if (isWeightBased) {
+      newWeight = round2(previousWeight + amount);
+      inventory.weightQuantity = newWeight.toFixed(2);
+      inventory.availableWeight = (newWeight - parseFloat(inventory.reservedWeight || '0')).toFixed(2);
+      await tx
+        .update(productInventory)
+        .set({
+          weightQuantity: inventory.weightQuantity,
+          availableWeight: inventory.availableWeight,
+          lastRestockDate: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(productInventory.id, inventory.id));
+    } else {
+      newQuantity = previousQuantity + amount;
+      inventory.quantity = newQuantity;
+      inventory.availableQuantity = newQuantity - (inventory.reservedQuantity || 0);
+      await tx
+        .update(productInventory)
+        .set({
+          quantity: inventory.quantity,
+          availableQuantity: inventory.availableQuantity,
+          lastRestockDate: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(productInventory.id, inventory.id));
+    }
+
+    // Restocked goods go back into the lots the order line consumed
+    await restoreOrderItemLots(tenantId, line.stockLineId, isWeightBased, amount, tx);
+  }
+
+  const movementId = uuidv4();
+  const amountLabel = (isWeightBased ? `${amount}g` : `${amount} units`)
+    + (line.bundleName ? ` from bundle ${line.bundleName}` : '');
+
+  await tx.insert(stockMovements).values({
+    id: movementId,
+    tenantId,
+    inventoryId: inventory.id,
+    productId: line.productId,
+    variantId: line.variantId,
+    movementType: isRestock ? 'in' : 'write_off',
+    quantity: isWeightBased ? 0 : amount,
+    previousQuantity,
+    newQuantity,
+    weightQuantity: isWeightBased ? amount.toString() : '0',
+    previousWeightQuantity: previousWeight.toString(),
+    newWeightQuantity: newWeight.toString(),
+    reason: isRestock ? 'Return Restocked' : 'Return Write-off (Damaged)',
+    locationId: line.location.id,
+    reference: returnRecord.returnNumber,
+    notes: isRestock
+      ? `Return ${returnRecord.returnNumber}: ${amountLabel} returned in new condition and restocked`
+      : `Return ${returnRecord.returnNumber}: ${amountLabel} returned damaged and written off`,
+    costPrice: line.costPrice || null,
+    processedBy: userId || null,
+    createdAt: new Date(),
+  });
+
+  return movementId;
+}
+
+/**
+ * Move a return to its next state
+ *
+ * Runs in one transaction holding the return row lock, so two requests
+ * cannot both move the same return (and restock its goods twice); the
+ * inventory rows receiving goods are locked in id order as well.
+ *
+ * Callers must check RETURN_STATUS_PERMISSIONS[input.status] first.
+ *
+ * @param tenantId The tenant that owns the return
+ * @param returnId The return to update
+ * @param input Target status plus receiving/refund options
+ * @returns The updated return, and the refund when the return was completed
+ */
+export async function transitionReturn(tenantId: string, returnId: string, input: TransitionReturnInput): Promise<ReturnResult> {
+  return db.transaction(async (tx): Promise<ReturnResult> => {
+    const [returnRecord] = await tx
+      .select()
+      .from(returns)
+      .where(and(eq(returns.id, returnId), eq(returns.tenantId, tenantId)))
+      .for('update');
+
+    if (!returnRecord) {
+      return { success: false, error: 'Return not found' };
+    }
+
+    const currentStatus = (returnRecord.status || 'pending') as ReturnStatus;
+    const allowed = RETURN_STATUS_TRANSITIONS[currentStatus] || [];
+    if (!allowed.includes(input.status)) {
+      return {
+        success: false,
+        error: allowed.length > 0
+          ? `A ${currentStatus} return can only be moved to: ${allowed.join(', ')}`
+          : `A ${currentStatus} return can no longer be changed`,
+      };
+    }
+
+    const now = new Date();
+    const update: Partial<ReturnRow> = { status: input.status, updatedAt: now };
+    if (input.adminNotes !== undefined) {
+      update.adminNotes = input.adminNotes.trim() || null;
+    }
+
+    let items = await tx
+      .select()
+      .from(returnItems)
+      .where(and(eq(returnItems.returnId, returnId), eq(returnItems.tenantId, tenantId)));
+    let refund: typeof refunds.$inferSelect | undefined;
+
+    switch (input.status) {
+      case 'approved':
+        update.approvedBy = input.userId || null;
+        update.approvedAt = now;
+        break;
+
+      case 'rejected':
+        update.rejectedBy = input.userId || null;
+        update.rejectedAt = now;
+        break;
+
+      case 'received': {
+        // Record the condition found on inspection
+        for (const change of input.items || []) {
+          if (!RETURN_ITEM_CONDITIONS.includes(change.condition)) {
+            return { success: false, error: `Condition must be one of: ${RETURN_ITEM_CONDITIONS.join(', ')}` };
+          }
+          if (!items.some(item => item.id === change.id)) {
+            return { success: false, error: 'One or more items do not belong to this return' };
+          }
+        }
+        for (const change of input.items || []) {
+          await tx.update(returnItems).set({ condition: change.condition }).where(eq(returnItems.id, change.id));
+        }
+        items = items.map(item => {
+          const change = input.items?.find(c => c.id === item.id);
+          return change ? { ...item, condition: change.condition } : item;
+        });
+
+        // Products that are not stock-tracked (tenant setting or product/variant override) are left alone
+        const stockTracking = input.restock !== false
+          ? await getStockTrackingDirect(tenantId, items)
+          : new Map<string, StockTrackingMode>();
+        const plans = new Map<string, ReturnStockLine[]>();
+        for (const item of items) {
+          const tracking = stockTracking.get(`${item.productId}:${item.variantId || ''}`);
+          plans.set(item.id, tracking && tracking !== 'untracked' ? await planReturnItemStock(tenantId, item, tx) : []);
+        }
+
+        const rows = await lockInventoryRows(tx, tenantId, [...plans.values()].flat().map(line => line.inventoryId));
+
+        for (const item of items) {
+          const lines = plans.get(item.id) || [];
+          let movementId: string | null = null;
+          for (const line of lines) {
+            const lineMovementId = await returnStock(tx, tenantId, returnRecord, line, rows.get(line.inventoryId)!, input.userId);
+            movementId = movementId || lineMovementId;
+          }
+          const action: ReturnRestockAction = lines.length === 0
+            ? 'none'
+            : item.condition === 'new' ? 'restocked' : 'written_off';
+
+          await tx
+            .update(returnItems)
+            .set({ restockAction: action, stockMovementId: movementId })
+            .where(eq(returnItems.id, item.id));
+          item.restockAction = action;
+          item.stockMovementId = movementId;
+        }
+
+        update.receivedBy = input.userId || null;
+        update.receivedAt = now;
+        break;
+      }
+
+      case 'completed': {
+        update.completedBy = input.userId || null;
+        update.completedAt = now;
+
+        const [existingRefund] = await tx
+          .select()
+          .from(refunds)
+          .where(and(eq(refunds.returnId, returnId), eq(refunds.tenantId, tenantId), ne(refunds.status, 'failed')))
+          .limit(1);
+
+        const amount = parseFloat(returnRecord.refundAmount || '0');
+        if (existingRefund) {
+          refund = existingRefund;
+        } else if (amount > 0) {
+          const refundResult = await createRefund(tenantId, {
+            orderId: returnRecord.orderId,
+            returnId,
+            amount,
+            reason: returnRecord.reason,
+            method: input.refundMethod,
+            processedBy: input.userId,
+            notes: `Created automatically when return ${returnRecord.returnNumber} was completed`,
+          }, tx);
+          if (!refundResult.success) {
+            return { success: false, error: refundResult.error };
+          }
+          refund = refundResult.refund;
+        }
+        break;
+      }
+    }
+
+    // Only moves the return from the state checked above
+    const [updated] = await tx
+      .update(returns)
+      .set(update)
+      .where(and(
+        eq(returns.id, returnId),
+        eq(returns.tenantId, tenantId),
+        returnRecord.status === null ? isNull(returns.status) : eq(returns.status, returnRecord.status)
+      ));
+    if (updated.affectedRows === 0) {
+      throw new Error(`Return ${returnRecord.returnNumber} changed while it was being updated`);
+    }
+
+    console.log(`↩️ Return ${returnRecord.returnNumber}: ${currentStatus} → ${input.status}`);
+    return { success: true, return: { ...returnRecord, ...update }, items, refund };
+  });
+}
+
+/**
+ * Delete a return that never reached the warehouse (pending or rejected)
+ */
+export async function deleteReturn(tenantId: string, returnId: string): Promise<ReturnResult> {
+  const [returnRecord] = await db
+    .select()
+    .from(returns)
+    .where(and(eq(returns.id, returnId), eq(returns.tenantId, tenantId)))
+    .limit(1);
+
+  if (!returnRecord) {
+    return { success: false, error: 'Return not found' };
+  }
+  if (!['pending', 'rejected'].includes(returnRecord.status || 'pending')) {
+    return { success: false, error: 'Only pending or rejected returns can be deleted' };
+  }
+
+  await db.delete(returnItems).where(and(eq(returnItems.returnId, returnId), eq(returnItems.tenantId, tenantId)));
+  await db.delete(returns).where(and(eq(returns.id, returnId), eq(returns.tenantId, tenantId)));
+
+  return { success: true, return: returnRecord };
+}
+
@@ -174,6 +174,7 @@ export const products = mysqlTable("products", {
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
   comparePrice: decimal("compare_price", { precision: 10, scale: 2 }),
   costPrice: decimal("cost_price", { precision: 10, scale: 2 }),
+  averageCost: decimal("average_cost", { precision: 12, scale: 4 }), // Weighted-average stock cost from Stock In movements (per kg for weight-based); see lib/inventoryCosting.ts
   images: json("images"), // Array of image URLs
   banner: varchar("banner", { length: 500 }), // Banner image URL
   categoryId: varchar("category_id", { length: 255 }),
@@ -205,11 +206,12 @@ export const products = mysqlTable("products", {
   hsCode: varchar("hs_code", { length: 20 }), // Harmonized System Code
   
   // Variable Product Fields
-  productType: varchar("product_type", { length: 50 }).default("simple"), // 'simple' or 'variable'
+  productType: varchar("product_type", { length: 50 }).default("simple"), // 'simple', 'variable', 'group' or 'bundle' (components in product_bundle_items)
   variationAttributes: json("variation_attributes"), // Array of {name: string, values: string[]}
   
   // Stock Management Fields
   stockManagementType: varchar("stock_management_type", { length: 20 }).default("quantity"), // 'quantity' or 'weight'
+  stockTracking: varchar("stock_tracking", { length: 20 }), // track, untracked, backorder; null follows the tenant's stock management setting
   pricePerUnit: decimal("price_per_unit", { precision: 10, scale: 2 }), // Price per gram for weight-based products
   baseWeightUnit: varchar("base_weight_unit", { length: 10 }).default("grams"), // 'grams' or 'kg'
   
@@ -224,7 +226,7 @@ export const products = mysqlTable("products", {
   serialNumber: varchar("serial_number", { length: 100 }), // Product serial number
   listNumber: varchar("list_number", { length: 100 }), // List reference number
   bcNumber: varchar("bc_number", { length: 100 }), // BC identification number
-  lotNumber: varchar("lot_number", { length: 100 }), // Batch/lot number
+  lotNumber: varchar("lot_number", { length: 100 }), // Batch/lot number (informational; stock is tracked per lot in inventory_lots)
   expiryDate: varchar("expiry_date", { length: 20 }), // Expiry date (YYYY-MM-DD)
   
   // Additional tax fields
@@ -248,6 +250,7 @@ export const productVariants = mysqlTable("product_variants", {
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
   comparePrice: decimal("compare_price", { precision: 10, scale: 2 }),
   costPrice: decimal("cost_price", { precision: 10, scale: 2 }),
+  averageCost: decimal("average_cost", { precision: 12, scale: 4 }), // Weighted-average stock cost of this variant
   weight: decimal("weight", { precision: 8, scale: 2 }),
   image: varchar("image", { length: 500 }),
   position: int("position").default(0),
@@ -260,6 +263,21 @@ export const productVariants = mysqlTable("product_variants", {
   updatedAt: datetime("updated_at").default(sql`CURRENT_TIMESTAMP`),
 });
 
+// Product Bundle Items (components of a bundle product; see lib/bundles.ts)
+export const productBundleItems = mysqlTable("product_bundle_items", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  tenantId: varchar("tenant_id", { length: 255 }).notNull(), // Multi-tenant support
+  bundleProductId: varchar("bundle_product_id", { length: 255 }).notNull(),
+  productId: varchar("product_id", { length: 255 }).notNull(), // Component product
+  variantId: varchar("variant_id", { length: 255 }),
+  quantity: int("quantity").notNull().default(0), // Units per bundle
+  weightQuantity: decimal("weight_quantity", { precision: 12, scale: 2 }).default('0.00'), // Grams per bundle for weight-based components
+  sortOrder: int("sort_order").default(0),
+  createdAt: datetime("created_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  bundleIdx: index("idx_product_bundle_items_bundle").on(table.tenantId, table.bundleProductId),
+}));
+
 // Variation Attributes (Color, Size, Material, etc.)
 export const variationAttributes = mysqlTable("variation_attributes", {
   id: varchar("id", { length: 255 }).primaryKey(),
@@ -330,6 +348,22 @@ export const productAddons = mysqlTable("product_addons", {
   updatedAt: datetime("updated_at").default(sql`CURRENT_TIMESTAMP`),
 });
 
+// Inventory Locations (warehouses and stores that hold stock)
+export const inventoryLocations = mysqlTable("inventory_locations", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  tenantId: varchar("tenant_id", { length: 255 }).notNull(), // Multi-tenant support
+  name: varchar("name", { length: 255 }).notNull(),
+  code: varchar("code", { length: 50 }).notNull(), // Short code shown on transfers and pick lists (e.g. MAIN)
+  type: varchar("type", { length: 20 }).default("warehouse"), // warehouse, store
+  address: text("address"),
+  isDefault: boolean("is_default").default(false), // Fallback location for fulfilment and legacy stock
+  isActive: boolean("is_active").default(true),
+  createdAt: datetime("created_at").default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: datetime("updated_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  tenantCodeUnique: unique("inventory_locations_tenant_code_unique").on(table.tenantId, table.code),
+}));
+
 // Product Inventory
 export const productInventory = mysqlTable("product_inventory", {
   id: varchar("id", { length: 255 }).primaryKey(),
@@ -351,13 +385,16 @@ export const productInventory = mysqlTable("product_inventory", {
   reorderWeightPoint: decimal("reorder_weight_point", { precision: 12, scale: 2 }).default('0.00'), // Reorder point in grams
   reorderWeightQuantity: decimal("reorder_weight_quantity", { precision: 12, scale: 2 }).default('0.00'), // Reorder quantity in grams
   
-  location: varchar("location", { length: 255 }),
+  locationId: varchar("location_id", { length: 255 }), // Reference to inventory_locations (null = legacy row, treated as the default location)
+  location: varchar("location", { length: 255 }), // Free-text bin/shelf within the location
   supplierId: varchar("supplier_id", { length: 255 }), // Reference to suppliers table
   supplier: varchar("supplier", { length: 255 }), // Legacy field - keeping for backward compatibility
   lastRestockDate: datetime("last_restock_date"),
   createdAt: datetime("created_at").default(sql`CURRENT_TIMESTAMP`),
   updatedAt: datetime("updated_at").default(sql`CURRENT_TIMESTAMP`),
-});
+}, (table) => ({
+  stockKeyIdx: index("idx_product_inventory_stock_key").on(table.tenantId, table.productId, table.variantId, table.locationId),
+}));
 
 // Stock Movements (Audit trail for all inventory changes)
 export const stockMovements = mysqlTable("stock_movements", {
@@ -379,16 +416,207 @@ export const stockMovements = mysqlTable("stock_movements", {
   newWeightQuantity: decimal("new_weight_quantity", { precision: 12, scale: 2 }).default('0.00'), // New weight in grams
   
   reason: varchar("reason", { length: 255 }).notNull(),
+  locationId: varchar("location_id", { length: 255 }), // Reference to inventory_locations
   location: varchar("location", { length: 255 }),
+  transferId: varchar("transfer_id", { length: 255 }), // Set on the paired out/in movements of a stock transfer
+  countId: varchar("count_id", { length: 255 }), // Set on the adjustments posted by a stock count
+  receiptId: varchar("receipt_id", { length: 255 }), // Set on the Stock In movements of a goods receipt
+  lotId: varchar("lot_id", { length: 255 }), // Set on lot receipts and expiry write-offs
   reference: varchar("reference", { length: 255 }), // PO number, invoice, etc.
   notes: text("notes"),
   costPrice: decimal("cost_price", { precision: 10, scale: 2 }),
+  averageCost: decimal("average_cost", { precision: 12, scale: 4 }), // Product/variant weighted-average cost after this Stock In
   supplierId: varchar("supplier_id", { length: 255 }), // Reference to suppliers table
   supplier: varchar("supplier", { length: 255 }), // Legacy field - keeping for backward compatibility
   processedBy: varchar("processed_by", { length: 255 }), // Admin user who made the change
   createdAt: datetime("created_at").default(sql`CURRENT_TIMESTAMP`),
 });
 
+// Stock Transfers (moves stock between inventory locations)
+export const stockTransfers = mysqlTable("stock_transfers", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  tenantId: varchar("tenant_id", { length: 255 }).notNull(), // Multi-tenant support
+  transferNumber: varchar("transfer_number", { length: 100 }).notNull(), // Sequential per tenant (TRF-000001)
+  fromLocationId: varchar("from_location_id", { length: 255 }).notNull(),
+  toLocationId: varchar("to_location_id", { length: 255 }).notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("draft"), // draft, completed, cancelled
+  notes: text("notes"),
+  createdBy: varchar("created_by", { length: 255 }),
+  completedBy: varchar("completed_by", { length: 255 }),
+  completedAt: datetime("completed_at"),
+  cancelledBy: varchar("cancelled_by", { length: 255 }),
+  cancelledAt: datetime("cancelled_at"),
+  createdAt: datetime("created_at").default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: datetime("updated_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  tenantTransferNumberUnique: unique("stock_transfers_tenant_transfer_number_unique").on(table.tenantId, table.transferNumber),
+}));
+
+// Stock Transfer Items
+export const stockTransferItems = mysqlTable("stock_transfer_items", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  tenantId: varchar("tenant_id", { length: 255 }).notNull(), // Multi-tenant support
+  transferId: varchar("transfer_id", { length: 255 }).notNull(),
+  productId: varchar("product_id", { length: 255 }).notNull(),
+  variantId: varchar("variant_id", { length: 255 }),
+  quantity: int("quantity").notNull().default(0),
+  weightQuantity: decimal("weight_quantity", { precision: 12, scale: 2 }).default('0.00'), // Weight moved in grams
+  createdAt: datetime("created_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  transferIdx: index("idx_stock_transfer_items_transfer").on(table.transferId),
+}));
+
+// Stock Counts (stock-take sessions for one location, optionally one category)
+export const stockCounts = mysqlTable("stock_counts", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  tenantId: varchar("tenant_id", { length: 255 }).notNull(), // Multi-tenant support
+  countNumber: varchar("count_number", { length: 100 }).notNull(), // Sequential per tenant (CNT-000001)
+  locationId: varchar("location_id", { length: 255 }).notNull(),
+  categoryId: varchar("category_id", { length: 255 }), // null = every product at the location
+  status: varchar("status", { length: 20 }).notNull().default("open"), // open, posted, cancelled
+  notes: text("notes"),
+  createdBy: varchar("created_by", { length: 255 }),
+  postedBy: varchar("posted_by", { length: 255 }),
+  postedAt: datetime("posted_at"),
+  cancelledBy: varchar("cancelled_by", { length: 255 }),
+  cancelledAt: datetime("cancelled_at"),
+  createdAt: datetime("created_at").default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: datetime("updated_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  tenantCountNumberUnique: unique("stock_counts_tenant_count_number_unique").on(table.tenantId, table.countNumber),
+}));
+
+// Stock Count Items (expected stock frozen when the count starts, and what was counted)
+export const stockCountItems = mysqlTable("stock_count_items", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  tenantId: varchar("tenant_id", { length: 255 }).notNull(), // Multi-tenant support
+  countId: varchar("count_id", { length: 255 }).notNull(),
+  inventoryId: varchar("inventory_id", { length: 255 }), // null for items found that had no inventory row
+  productId: varchar("product_id", { length: 255 }).notNull(),
+  variantId: varchar("variant_id", { length: 255 }),
+  expectedQuantity: int("expected_quantity").notNull().default(0),
+  expectedWeight: decimal("expected_weight", { precision: 12, scale: 2 }).default('0.00'), // grams
+  countedQuantity: int("counted_quantity"), // null until counted
+  countedWeight: decimal("counted_weight", { precision: 12, scale: 2 }), // grams; null until counted
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }), // costPrice when the count started (per kg for weight-based)
+  approved: boolean("approved").notNull().default(false),
+  movementId: varchar("movement_id", { length: 255 }), // Adjustment posted for this line
+  countedBy: varchar("counted_by", { length: 255 }),
+  countedAt: datetime("counted_at"),
+  createdAt: datetime("created_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  countIdx: index("idx_stock_count_items_count").on(table.countId),
+}));
+
+// Goods Receipts (GRNs: stock received against a purchase order, with landed cost)
+export const goodsReceipts = mysqlTable("goods_receipts", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  tenantId: varchar("tenant_id", { length: 255 }).notNull(), // Multi-tenant support
+  receiptNumber: varchar("receipt_number", { length: 100 }).notNull(), // Sequential per tenant (GRN-000001)
+  orderId: varchar("order_id", { length: 255 }).notNull(), // Purchase order (orders.order_type = 'purchase_order')
+  supplierId: varchar("supplier_id", { length: 255 }),
+  locationId: varchar("location_id", { length: 255 }).notNull(), // Location the goods were received into
+  supplierReference: varchar("supplier_reference", { length: 255 }), // Supplier delivery note / invoice number
+  freightCost: decimal("freight_cost", { precision: 10, scale: 2 }).default('0.00'),
+  dutyCost: decimal("duty_cost", { precision: 10, scale: 2 }).default('0.00'),
+  otherCost: decimal("other_cost", { precision: 10, scale: 2 }).default('0.00'),
+  goodsValue: decimal("goods_value", { precision: 12, scale: 2 }).default('0.00'), // Received amount at supplier cost
+  notes: text("notes"),
+  receivedBy: varchar("received_by", { length: 255 }),
+  receivedAt: datetime("received_at").default(sql`CURRENT_TIMESTAMP`),
+  createdAt: datetime("created_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  tenantReceiptNumberUnique: unique("goods_receipts_tenant_receipt_number_unique").on(table.tenantId, table.receiptNumber),
+  orderIdx: index("idx_goods_receipts_order").on(table.orderId),
+}));
+
+// Goods Receipt Items (amount received per purchase order line and its landed cost)
+export const goodsReceiptItems = mysqlTable("goods_receipt_items", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  tenantId: varchar("tenant_id", { length: 255 }).notNull(), // Multi-tenant support
+  receiptId: varchar("receipt_id", { length: 255 }).notNull(),
+  orderItemId: varchar("order_item_id", { length: 255 }).notNull(),
+  inventoryId: varchar("inventory_id", { length: 255 }).notNull(),
+  productId: varchar("product_id", { length: 255 }).notNull(),
+  variantId: varchar("variant_id", { length: 255 }),
+  quantity: int("quantity").notNull().default(0),
+  weightQuantity: decimal("weight_quantity", { precision: 12, scale: 2 }).default('0.00'), // grams
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }), // Supplier cost (per kg for weight-based)
+  landedCost: decimal("landed_cost", { precision: 10, scale: 2 }).default('0.00'), // Share of freight/duty/other costs
+  landedUnitCost: decimal("landed_unit_cost", { precision: 10, scale: 2 }), // Unit cost including the landed share
+  lotId: varchar("lot_id", { length: 255 }),
+  movementId: varchar("movement_id", { length: 255 }), // Stock In movement for this line
+  createdAt: datetime("created_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  receiptIdx: index("idx_goods_receipt_items_receipt").on(table.receiptId),
+}));
+
+// Inventory Lots (batch breakdown of a product_inventory row, each with its own expiry and cost)
+// Stock on the inventory row that is not covered by lots is untracked legacy stock.
+export const inventoryLots = mysqlTable("inventory_lots", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  tenantId: varchar("tenant_id", { length: 255 }).notNull(), // Multi-tenant support
+  inventoryId: varchar("inventory_id", { length: 255 }).notNull(), // product_inventory row holding the lot
+  productId: varchar("product_id", { length: 255 }).notNull(),
+  variantId: varchar("variant_id", { length: 255 }),
+  locationId: varchar("location_id", { length: 255 }),
+  lotNumber: varchar("lot_number", { length: 100 }).notNull(),
+  expiryDate: varchar("expiry_date", { length: 20 }), // Expiry date (YYYY-MM-DD); null = does not expire
+
+  // Received and remaining amounts (weights in grams)
+  receivedQuantity: int("received_quantity").notNull().default(0),
+  receivedWeight: decimal("received_weight", { precision: 12, scale: 2 }).default('0.00'),
+  quantity: int("quantity").notNull().default(0),
+  weightQuantity: decimal("weight_quantity", { precision: 12, scale: 2 }).default('0.00'),
+
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }), // Per unit, or per kg for weight-based products
+  supplier: varchar("supplier", { length: 255 }),
+  reference: varchar("reference", { length: 255 }), // PO number, supplier invoice, etc.
+  status: varchar("status", { length: 20 }).notNull().default("active"), // active, depleted, expired (written off)
+  receivedAt: datetime("received_at").default(sql`CURRENT_TIMESTAMP`),
+  createdAt: datetime("created_at").default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: datetime("updated_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  inventoryIdx: index("idx_inventory_lots_inventory").on(table.tenantId, table.inventoryId),
+  expiryIdx: index("idx_inventory_lots_expiry").on(table.tenantId, table.status, table.expiryDate),
+}));
+
+// Order Item Lots (which lots each order item consumed)
+export const orderItemLots = mysqlTable("order_item_lots", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  tenantId: varchar("tenant_id", { length: 255 }).notNull(), // Multi-tenant support
+  orderId: varchar("order_id", { length: 255 }).notNull(),
+  orderItemId: varchar("order_item_id", { length: 255 }).notNull(),
+  lotId: varchar("lot_id", { length: 255 }).notNull(),
+  quantity: int("quantity").notNull().default(0),
+  weightQuantity: decimal("weight_quantity", { precision: 12, scale: 2 }).default('0.00'), // Weight consumed in grams
+  returnedQuantity: int("returned_quantity").notNull().default(0), // Put back by cancellation, deletion or returns
+  returnedWeight: decimal("returned_weight", { precision: 12, scale: 2 }).default('0.00'),
+  createdAt: datetime("created_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  orderItemIdx: index("idx_order_item_lots_order_item").on(table.tenantId, table.orderItemId),
+}));
+
+// Order Item Components (stock each bundle order item holds per component)
+export const orderItemComponents = mysqlTable("order_item_components", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  tenantId: varchar("tenant_id", { length: 255 }).notNull(), // Multi-tenant support
+  orderId: varchar("order_id", { length: 255 }).notNull(),
+  orderItemId: varchar("order_item_id", { length: 255 }).notNull(), // The bundle line
+  productId: varchar("product_id", { length: 255 }).notNull(),
+  variantId: varchar("variant_id", { length: 255 }),
+  productName: varchar("product_name", { length: 255 }).notNull(),
+  variantTitle: varchar("variant_title", { length: 255 }),
+  quantity: int("quantity").notNull().default(0), // Units for the whole line
+  weightQuantity: decimal("weight_quantity", { precision: 12, scale: 2 }).default('0.00'), // Grams for the whole line
+  locationId: varchar("location_id", { length: 255 }), // Inventory location the stock was picked from
+  stockStatus: varchar("stock_status", { length: 20 }).notNull().default("none"), // As order_items.stock_status
+  createdAt: datetime("created_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  orderItemIdx: index("idx_order_item_components_order_item").on(table.tenantId, table.orderItemId),
+  stockIdx: index("idx_order_item_components_stock").on(table.tenantId, table.productId, table.stockStatus),
+}));
+
 // Orders
 export const orders = mysqlTable("orders", {
   id: varchar("id", { length: 255 }).primaryKey(),
@@ -397,8 +625,8 @@ export const orders = mysqlTable("orders", {
   userId: varchar("user_id", { length: 255 }),
   email: varchar("email", { length: 255 }).notNull(),
   phone: varchar("phone", { length: 20 }),
-  status: varchar("status", { length: 50 }).notNull().default("pending"), // pending, confirmed, processing, shipped, delivered, cancelled
-  paymentStatus: varchar("payment_status", { length: 50 }).default("pending"), // pending, paid, failed, refunded
+  status: varchar("status", { length: 50 }).notNull().default("pending"), // pending, confirmed, processing, shipped, delivered, cancelled; purchase orders also draft, partially_received, received
+  paymentStatus: varchar("payment_status", { length: 50 }).default("pending"), // pending, paid, failed, partially_refunded, refunded
   fulfillmentStatus: varchar("fulfillment_status", { length: 50 }).default("pending"), // pending, fulfilled, partially_fulfilled
   subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
   taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).default('0.00'),
@@ -440,6 +668,11 @@ export const orders = mysqlTable("orders", {
   // Driver assignment fields
   assignedDriverId: varchar("assigned_driver_id", { length: 255 }), // Current assigned driver
   deliveryStatus: varchar("delivery_status", { length: 30 }).default("pending"), // pending, assigned, picked_up, out_for_delivery, delivered, failed
+  deliveryLatitude: decimal("delivery_latitude", { precision: 10, scale: 8 }), // Drop-off point used to plan delivery runs
+  deliveryLongitude: decimal("delivery_longitude", { precision: 11, scale: 8 }),
+
+  // Fulfilment location requested for the order (items record where stock was actually picked)
+  fulfillmentLocationId: varchar("fulfillment_location_id", { length: 255 }),
   
   // Loyalty points fields
   pointsToRedeem: int("points_to_redeem").default(0), // Points redeemed for this order
@@ -459,7 +692,8 @@ export const orders = mysqlTable("orders", {
   invoiceDate: datetime("invoice_date"),
   validationResponse: text("validation_response"),
   fbrEnvironment: varchar("fbr_environment", { length: 20 }).default("sandbox"), // 'sandbox' or 'production' env
-  
+  fbrSubmissionStatus: varchar("fbr_submission_status", { length: 20 }), // queued, validating, posted, rejected, failed (null when not submitted to FBR)
+
   // Buyer Information (from selected user/customer)
   buyerNTNCNIC: varchar("buyer_ntn_cnic", { length: 100 }),
   buyerBusinessName: varchar("buyer_business_name", { length: 255 }),
@@ -490,8 +724,8 @@ export const orderItems = mysqlTable("order_items", {
   serialNumber: varchar("serial_number", { length: 100 }), // Product serial number
   listNumber: varchar("list_number", { length: 100 }), // List reference number
   bcNumber: varchar("bc_number", { length: 100 }), // BC identification number
-  lotNumber: varchar("lot_number", { length: 100 }), // Batch/lot number
-  expiryDate: varchar("expiry_date", { length: 20 }), // Expiry date (YYYY-MM-DD)
+  lotNumber: varchar("lot_number", { length: 100 }), // Lot number(s) allocated to this item; see order_item_lots
+  expiryDate: varchar("expiry_date", { length: 20 }), // Earliest expiry of the allocated lots (YYYY-MM-DD)
   
   // Quantity-based order fields
   quantity: int("quantity").notNull().default(0),
@@ -499,6 +733,13 @@ export const orderItems = mysqlTable("order_items", {
   // Weight-based order fields (stored in grams)
   weightQuantity: decimal("weight_quantity", { precision: 12, scale: 2 }).default('0.00'), // Ordered weight in grams
   weightUnit: varchar("weight_unit", { length: 10 }), // Display unit (grams, kg)
+
+  // Purchase order lines: amount received so far through goods receipts
+  receivedQuantity: int("received_quantity").notNull().default(0),
+  receivedWeight: decimal("received_weight", { precision: 12, scale: 2 }).default('0.00'), // grams
+
+  locationId: varchar("location_id", { length: 255 }), // Inventory location the stock was picked from
+  stockStatus: varchar("stock_status", { length: 20 }).notNull().default("none"), // none, reserved, deducted, released (see lib/stockReservations.ts)
   
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
   costPrice: decimal("cost_price", { precision: 10, scale: 2 }), // Cost price at time of sale
@@ -528,30 +769,49 @@ export const orderItems = mysqlTable("order_items", {
 export const returns = mysqlTable("returns", {
   id: varchar("id", { length: 255 }).primaryKey(),
   tenantId: varchar("tenant_id", { length: 255 }).notNull(), // Multi-tenant support
-  returnNumber: varchar("return_number", { length: 100 }).notNull().unique(),
+  returnNumber: varchar("return_number", { length: 100 }).notNull(), // Sequential per tenant (RET-000001)
   orderId: varchar("order_id", { length: 255 }).notNull(),
   userId: varchar("user_id", { length: 255 }),
-  status: varchar("status", { length: 50 }).default("pending"), // pending, approved, rejected, completed
+  status: varchar("status", { length: 50 }).default("pending"), // pending, approved, received, completed, rejected
   reason: varchar("reason", { length: 255 }).notNull(),
   description: text("description"),
   refundAmount: decimal("refund_amount", { precision: 10, scale: 2 }),
   restockFee: decimal("restock_fee", { precision: 10, scale: 2 }).default('0.00'),
   adminNotes: text("admin_notes"),
+  createdBy: varchar("created_by", { length: 255 }), // Admin user who opened the RMA
+  approvedBy: varchar("approved_by", { length: 255 }),
+  approvedAt: datetime("approved_at"),
+  receivedBy: varchar("received_by", { length: 255 }),
+  receivedAt: datetime("received_at"),
+  completedBy: varchar("completed_by", { length: 255 }),
+  completedAt: datetime("completed_at"),
+  rejectedBy: varchar("rejected_by", { length: 255 }),
+  rejectedAt: datetime("rejected_at"),
   createdAt: datetime("created_at").default(sql`CURRENT_TIMESTAMP`),
   updatedAt: datetime("updated_at").default(sql`CURRENT_TIMESTAMP`),
-});
+}, (table) => ({
+  tenantReturnNumberUnique: unique("returns_tenant_return_number_unique").on(table.tenantId, table.returnNumber),
+  tenantOrderIdx: index("idx_returns_tenant_order").on(table.tenantId, table.orderId),
+}));
 
 // Return Items
 export const returnItems = mysqlTable("return_items", {
   id: varchar("id", { length: 255 }).primaryKey(),
+  tenantId: varchar("tenant_id", { length: 255 }).notNull(), // Multi-tenant support
   returnId: varchar("return_id", { length: 255 }).notNull(),
   orderItemId: varchar("order_item_id", { length: 255 }).notNull(),
   productId: varchar("product_id", { length: 255 }).notNull(),
   variantId: varchar("variant_id", { length: 255 }),
   quantity: int("quantity").notNull(),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).default('0.00'), // Refundable price per unit at time of sale
   condition: varchar("condition", { length: 50 }), // new, used, damaged
+  restockAction: varchar("restock_action", { length: 20 }), // restocked, written_off, none (null until received)
+  stockMovementId: varchar("stock_movement_id", { length: 255 }), // Movement created when the item was received
   createdAt: datetime("created_at").default(sql`CURRENT_TIMESTAMP`),
-});
+}, (table) => ({
+  returnIdx: index("idx_return_items_return").on(table.returnId),
+  orderItemIdx: index("idx_return_items_order_item").on(table.tenantId, table.orderItemId),
+}));
 
 // Refunds
 export const refunds = mysqlTable("refunds", {
@@ -644,6 +904,7 @@ export const drivers = mysqlTable("drivers", {
   status: varchar("status", { length: 20 }).default("offline"), // available, busy, offline
   isActive: boolean("is_active").default(true),
   maxDeliveryRadius: int("max_delivery_radius").default(50), // in kilometers
+  maxActiveOrders: int("max_active_orders").default(5), // open deliveries auto-dispatch may give the driver at once
   
   // Additional info
   emergencyContact: varchar("emergency_contact", { length: 20 }),
@@ -704,6 +965,68 @@ export const driverAssignmentHistory = mysqlTable("driver_assignment_history", {
   createdAt: datetime("created_at").default(sql`CURRENT_TIMESTAMP`),
 });
 
+// Driver Dispatch Queue - orders auto-dispatch could not give to any driver, awaiting manual assignment (see lib/driverDispatch.ts)
+export const driverDispatchQueue = mysqlTable("driver_dispatch_queue", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  tenantId: varchar("tenant_id", { length: 255 }).notNull(), // Multi-tenant support
+  orderId: varchar("order_id", { length: 255 }).notNull(),
+  priority: varchar("priority", { length: 20 }).default("normal"), // low, normal, high, urgent
+  reason: text("reason"), // why no driver qualified on the last attempt
+  attempts: int("attempts").notNull().default(1),
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, assigned, dismissed
+  lastAttemptAt: datetime("last_attempt_at").default(sql`CURRENT_TIMESTAMP`),
+  resolvedAt: datetime("resolved_at"),
+  resolvedBy: varchar("resolved_by", { length: 255 }),
+  createdAt: datetime("created_at").default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: datetime("updated_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  tenantStatusIdx: index("idx_driver_dispatch_queue_tenant_status").on(table.tenantId, table.status),
+  tenantOrderUnique: unique("driver_dispatch_queue_tenant_order_unique").on(table.tenantId, table.orderId),
+}));
+
+// Delivery Runs - a batch of orders for one date and time window, driven by one driver (see lib/deliveryRuns.ts)
+export const deliveryRuns = mysqlTable("delivery_runs", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  tenantId: varchar("tenant_id", { length: 255 }).notNull(), // Multi-tenant support
+  runNumber: varchar("run_number", { length: 100 }).notNull(), // Sequential per tenant (RUN-000001)
+  driverId: varchar("driver_id", { length: 255 }).notNull(),
+  runDate: varchar("run_date", { length: 10 }).notNull(), // YYYY-MM-DD
+  windowStart: varchar("window_start", { length: 5 }), // HH:MM; orders scheduled from this time
+  windowEnd: varchar("window_end", { length: 5 }), // HH:MM
+  departureTime: varchar("departure_time", { length: 5 }).notNull(), // HH:MM the driver leaves base
+  distanceMatrix: varchar("distance_matrix", { length: 30 }).notNull().default("straight_line"), // provider used to plan the route
+  averageSpeedKmh: decimal("average_speed_kmh", { precision: 6, scale: 2 }).notNull().default('30.00'),
+  serviceMinutes: int("service_minutes").notNull().default(5), // time spent at each stop
+  totalDistance: decimal("total_distance", { precision: 8, scale: 2 }), // km from base to the last stop
+  totalDuration: int("total_duration"), // minutes from departure to the last stop
+  status: varchar("status", { length: 20 }).notNull().default("planned"), // planned, in_progress, completed, cancelled
+  notes: text("notes"),
+  createdBy: varchar("created_by", { length: 255 }),
+  createdAt: datetime("created_at").default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: datetime("updated_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  tenantDateIdx: index("idx_delivery_runs_tenant_date").on(table.tenantId, table.runDate),
+  tenantRunNumberUnique: unique("delivery_runs_tenant_run_number_unique").on(table.tenantId, table.runNumber),
+}));
+
+// Delivery Run Stops - the orders of a run in driving order with their planned arrival
+export const deliveryRunStops = mysqlTable("delivery_run_stops", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  tenantId: varchar("tenant_id", { length: 255 }).notNull(), // Multi-tenant support
+  runId: varchar("run_id", { length: 255 }).notNull(),
+  orderId: varchar("order_id", { length: 255 }).notNull(),
+  assignmentId: varchar("assignment_id", { length: 255 }), // driver_assignments row created for the stop
+  sequence: int("sequence").notNull(), // 1-based driving order
+  latitude: decimal("latitude", { precision: 10, scale: 8 }), // NULL when the order has no drop-off point
+  longitude: decimal("longitude", { precision: 11, scale: 8 }),
+  distanceFromPrevious: decimal("distance_from_previous", { precision: 8, scale: 2 }), // km from base or the previous stop
+  plannedArrival: datetime("planned_arrival"), // NULL for stops without a location
+  createdAt: datetime("created_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  runIdx: index("idx_delivery_run_stops_run").on(table.runId),
+  tenantOrderIdx: index("idx_delivery_run_stops_tenant_order").on(table.tenantId, table.orderId),
+}));
+
 // Suppliers
 export const suppliers = mysqlTable("suppliers", {
   id: varchar("id", { length: 255 }).primaryKey(),
@@ -771,6 +1094,7 @@ export const settings = mysqlTable("settings", {
 // ✅ User Loyalty Points
 export const userLoyaltyPoints = mysqlTable("user_loyalty_points", {
   id: varchar("id", { length: 255 }).primaryKey(),
+  tenantId: varchar("tenant_id", { length: 255 }).notNull(), // Multi-tenant support
   userId: varchar("user_id", { length: 255 }).notNull(),
   totalPointsEarned: int("total_points_earned").default(0),
   totalPointsRedeemed: int("total_points_redeemed").default(0),
@@ -781,11 +1105,14 @@ export const userLoyaltyPoints = mysqlTable("user_loyalty_points", {
   lastRedeemedAt: datetime("last_redeemed_at"),
   createdAt: datetime("created_at").default(sql`CURRENT_TIMESTAMP`),
   updatedAt: datetime("updated_at").default(sql`CURRENT_TIMESTAMP`),
-});
+}, (table) => ({
+  tenantUserUnique: unique("user_loyalty_points_tenant_user_unique").on(table.tenantId, table.userId),
+}));
 
 // ✅ Loyalty Points History
 export const loyaltyPointsHistory = mysqlTable("loyalty_points_history", {
   id: varchar("id", { length: 255 }).primaryKey(),
+  tenantId: varchar("tenant_id", { length: 255 }).notNull(), // Multi-tenant support
   userId: varchar("user_id", { length: 255 }).notNull(),
   orderId: varchar("order_id", { length: 255 }), // reference to order when earned/redeemed
   transactionType: varchar("transaction_type", { length: 20 }).notNull(), // earned, redeemed, expired, manual_adjustment
@@ -799,8 +1126,43 @@ export const loyaltyPointsHistory = mysqlTable("loyalty_points_history", {
   isExpired: boolean("is_expired").default(false),
   processedBy: varchar("processed_by", { length: 255 }), // admin user ID for manual adjustments
   metadata: json("metadata"), // additional data like conversion rates, settings used
+  reminderSentAt: datetime("reminder_sent_at"), // when the customer was reminded these points expire (see lib/loyaltyMaintenance.ts)
   createdAt: datetime("created_at").default(sql`CURRENT_TIMESTAMP`),
-});
+}, (table) => ({
+  tenantUserIdx: index("idx_loyalty_points_history_tenant_user").on(table.tenantId, table.userId),
+  tenantExpiryIdx: index("idx_loyalty_points_history_tenant_expiry").on(table.tenantId, table.transactionType, table.expiresAt),
+}));
+
+// ✅ Loyalty Tiers - membership levels reached by rolling 12-month spend (see lib/loyalty.ts)
+export const loyaltyTiers = mysqlTable("loyalty_tiers", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  tenantId: varchar("tenant_id", { length: 255 }).notNull(), // Multi-tenant support
+  name: varchar("name", { length: 100 }).notNull(), // e.g., Silver, Gold, Platinum
+  minSpend: decimal("min_spend", { precision: 12, scale: 2 }).notNull().default('0.00'), // 12-month spend needed to reach the tier
+  multiplier: decimal("multiplier", { precision: 5, scale: 2 }).notNull().default('1.00'), // applied to all points earned in the tier
+  isActive: boolean("is_active").default(true),
+  createdAt: datetime("created_at").default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: datetime("updated_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  tenantIdIdx: index("idx_loyalty_tiers_tenant_id").on(table.tenantId),
+}));
+
+// ✅ Loyalty Earning Rules - bonus multipliers for categories, products or tags; campaigns are rules with dates
+export const loyaltyEarningRules = mysqlTable("loyalty_earning_rules", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  tenantId: varchar("tenant_id", { length: 255 }).notNull(), // Multi-tenant support
+  name: varchar("name", { length: 255 }).notNull(), // e.g., "Double points weekend"
+  scope: varchar("scope", { length: 20 }).notNull().default("all"), // all, category, product, tag
+  targetId: varchar("target_id", { length: 255 }), // category, product or tag id; NULL for scope 'all'
+  multiplier: decimal("multiplier", { precision: 5, scale: 2 }).notNull().default('2.00'), // applied to the base earning rate of matching items
+  startsAt: datetime("starts_at"), // NULL = no start date
+  endsAt: datetime("ends_at"), // NULL = no end date
+  isActive: boolean("is_active").default(true),
+  createdAt: datetime("created_at").default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: datetime("updated_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  tenantIdIdx: index("idx_loyalty_earning_rules_tenant_id").on(table.tenantId),
+}));
 
 // Relations
 export const usersRelations = relations(user, ({ many, one }) => ({
@@ -900,7 +1262,12 @@ export const productInventoryRelations = relations(productInventory, ({ one, man
     fields: [productInventory.supplierId],
     references: [suppliers.id],
   }),
+  inventoryLocation: one(inventoryLocations, {
+    fields: [productInventory.locationId],
+    references: [inventoryLocations.id],
+  }),
   stockMovements: many(stockMovements),
+  lots: many(inventoryLots),
 }));
 
 export const stockMovementsRelations = relations(stockMovements, ({ one }) => ({
@@ -920,6 +1287,77 @@ export const stockMovementsRelations = relations(stockMovements, ({ one }) => ({
     fields: [stockMovements.supplierId],
     references: [suppliers.id],
   }),
+  inventoryLocation: one(inventoryLocations, {
+    fields: [stockMovements.locationId],
+    references: [inventoryLocations.id],
+  }),
+  transfer: one(stockTransfers, {
+    fields: [stockMovements.transferId],
+    references: [stockTransfers.id],
+  }),
+}));
+
+export const inventoryLocationsRelations = relations(inventoryLocations, ({ many }) => ({
+  inventory: many(productInventory),
+}));
+
+export const stockTransfersRelations = relations(stockTransfers, ({ one, many }) => ({
+  fromLocation: one(inventoryLocations, {
+    fields: [stockTransfers.fromLocationId],
+    references: [inventoryLocations.id],
+  }),
+  toLocation: one(inventoryLocations, {
+    fields: [stockTransfers.toLocationId],
+    references: [inventoryLocations.id],
+  }),
+  items: many(stockTransferItems),
+  movements: many(stockMovements),
+}));
+
+export const stockTransferItemsRelations = relations(stockTransferItems, ({ one }) => ({
+  transfer: one(stockTransfers, {
+    fields: [stockTransferItems.transferId],
+    references: [stockTransfers.id],
+  }),
+  product: one(products, {
+    fields: [stockTransferItems.productId],
+    references: [products.id],
+  }),
+  variant: one(productVariants, {
+    fields: [stockTransferItems.variantId],
+    references: [productVariants.id],
+  }),
+}));
+
+export const inventoryLotsRelations = relations(inventoryLots, ({ one, many }) => ({
+  inventory: one(productInventory, {
+    fields: [inventoryLots.inventoryId],
+    references: [productInventory.id],
+  }),
+  product: one(products, {
+    fields: [inventoryLots.productId],
+    references: [products.id],
+  }),
+  variant: one(productVariants, {
+    fields: [inventoryLots.variantId],
+    references: [productVariants.id],
+  }),
+  inventoryLocation: one(inventoryLocations, {
+    fields: [inventoryLots.locationId],
+    references: [inventoryLocations.id],
+  }),
+  orderItemLots: many(orderItemLots),
+}));
+
+export const orderItemLotsRelations = relations(orderItemLots, ({ one }) => ({
+  orderItem: one(orderItems, {
+    fields: [orderItemLots.orderItemId],
+    references: [orderItems.id],
+  }),
+  lot: one(inventoryLots, {
+    fields: [orderItemLots.lotId],
+    references: [inventoryLots.id],
+  }),
 }));
 
 export const ordersRelations = relations(orders, ({ one, many }) => ({
@@ -945,6 +1383,8 @@ export const ordersRelations = relations(orders, ({ one, many }) => ({
   shippingLabels: many(shippingLabels),
   driverAssignments: many(driverAssignments),
   driverAssignmentHistory: many(driverAssignmentHistory),
+  fbrSubmissions: many(fbrSubmissions),
+  fbrNotes: many(fbrNotes),
 }));
 
 export const orderItemsRelations = relations(orderItems, ({ one, many }) => ({
@@ -961,6 +1401,7 @@ export const orderItemsRelations = relations(orderItems, ({ one, many }) => ({
     references: [productVariants.id],
   }),
   returnItems: many(returnItems),
+  lots: many(orderItemLots),
 }));
 
 export const returnsRelations = relations(returns, ({ one, many }) => ({
@@ -1218,6 +1659,148 @@ export const importJobs = mysqlTable("import_jobs", {
   createdBy: varchar("created_by", { length: 255 }).notNull(),
 });
 
+// FBR Submissions - durable queue of validate/post attempts against FBR Digital Invoicing
+export const fbrSubmissions = mysqlTable("fbr_submissions", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  tenantId: varchar("tenant_id", { length: 255 }).notNull(), // Multi-tenant support
+  orderId: varchar("order_id", { length: 255 }).notNull(),
+  noteId: varchar("note_id", { length: 255 }), // Set when the submission is a debit/credit note (fbr_notes)
+  status: varchar("status", { length: 20 }).notNull().default("queued"), // queued, validating, posted, rejected, failed
+  isProduction: boolean("is_production").default(false),
+  payload: json("payload").notNull(), // Mapped FbrInvoice sent to validate/post
+
+  // Retry tracking
+  attempts: int("attempts").default(0),
+  maxAttempts: int("max_attempts").default(8),
+  nextAttemptAt: datetime("next_attempt_at"),
+  lastAttemptAt: datetime("last_attempt_at"),
+  lastStep: varchar("last_step", { length: 20 }), // validate, post, error
+  lastError: text("last_error"),
+  claimedAt: datetime("claimed_at"), // When a worker took the entry ('validating'); stale claims are retried
+  postStartedAt: datetime("post_started_at"), // Set while the invoice is being posted; a reclaimed entry with it set is not re-posted
+
+  // FBR responses
+  validationResponse: json("validation_response"),
+  postResponse: json("post_response"),
+  invoiceNumber: varchar("invoice_number", { length: 255 }),
+  postedAt: datetime("posted_at"),
+
+  createdAt: datetime("created_at").default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: datetime("updated_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  tenantStatusIdx: index("idx_fbr_submissions_tenant_status").on(table.tenantId, table.status),
+  orderIdx: index("idx_fbr_submissions_order").on(table.orderId),
+}));
+
+// FBR Notes - debit/credit notes issued against an original FBR invoice (from returns/refunds)
+export const fbrNotes = mysqlTable("fbr_notes", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  tenantId: varchar("tenant_id", { length: 255 }).notNull(), // Multi-tenant support
+  noteNumber: varchar("note_number", { length: 100 }).notNull(), // DN-000001 / CN-000001, per tenant
+  noteType: varchar("note_type", { length: 20 }).notNull(), // 'Debit Note' or 'Credit Note'
+  orderId: varchar("order_id", { length: 255 }).notNull(), // Original order
+  returnId: varchar("return_id", { length: 255 }),
+  refundId: varchar("refund_id", { length: 255 }),
+  sourceKey: varchar("source_key", { length: 300 }), // 'return:<id>' or 'refund:<id>'; one note per source, cleared when a rejected note is superseded
+  invoiceRefNo: varchar("invoice_ref_no", { length: 255 }).notNull(), // Original order's FBR invoice number
+  invoiceDate: datetime("invoice_date").notNull(),
+  reason: varchar("reason", { length: 255 }),
+  items: json("items").notNull(), // Snapshot of the note lines (OrderItem[])
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).default('0.00'),
+  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
+
+  // FBR submission
+  fbrInvoiceNumber: varchar("fbr_invoice_number", { length: 255 }),
+  fbrSubmissionStatus: varchar("fbr_submission_status", { length: 20 }), // queued, validating, posted, rejected, failed
+  fbrEnvironment: varchar("fbr_environment", { length: 20 }).default("sandbox"),
+  validationResponse: text("validation_response"),
+
+  createdBy: varchar("created_by", { length: 255 }),
+  createdAt: datetime("created_at").default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: datetime("updated_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  tenantNoteNumberUnique: unique("fbr_notes_tenant_note_number_unique").on(table.tenantId, table.noteNumber),
+  tenantSourceUnique: unique("fbr_notes_tenant_source_unique").on(table.tenantId, table.sourceKey),
+  tenantOrderIdx: index("idx_fbr_notes_tenant_order").on(table.tenantId, table.orderId),
+  returnIdx: index("idx_fbr_notes_return").on(table.returnId),
+  refundIdx: index("idx_fbr_notes_refund").on(table.refundId),
+}));
+
+// FBR Reference Data (shared across tenants - published by FBR, not tenant-specific)
+export const fbrReferenceData = mysqlTable("fbr_reference_data", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  type: varchar("type", { length: 50 }).notNull(), // hs_code, uom, hs_uom, province, sale_type_rate, sro_schedule, sro_item
+  code: varchar("code", { length: 100 }).notNull(), // HS code, UOM description, province code, rate/SRO id
+  description: text("description"),
+  parentCode: varchar("parent_code", { length: 100 }), // HS code for hs_uom, rate id for sro_schedule, SRO id for sro_item
+  effectiveDate: varchar("effective_date", { length: 10 }), // YYYY-MM-DD for date-dependent lists
+  data: json("data"), // Raw FBR record
+  syncedAt: datetime("synced_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  typeCodeIdx: index("idx_fbr_reference_type_code").on(table.type, table.code),
+  typeParentIdx: index("idx_fbr_reference_type_parent").on(table.type, table.parentCode, table.effectiveDate),
+}));
+
+// FBR Scenario Rules (versioned per tenant; tenantId NULL = global default)
+export const fbrScenarioRules = mysqlTable("fbr_scenario_rules", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  tenantId: varchar("tenant_id", { length: 255 }), // NULL for the global default
+  scenarioId: varchar("scenario_id", { length: 10 }).notNull(), // SN001..SN028
+  effectiveFrom: varchar("effective_from", { length: 10 }).notNull(), // YYYY-MM-DD
+  saleType: varchar("sale_type", { length: 255 }).notNull(),
+  defaultRate: varchar("default_rate", { length: 20 }).notNull(), // "18%", "Exempt", ...
+  requiresWithholdingTax: boolean("requires_withholding_tax").default(false),
+  exemptOrZeroRated: boolean("exempt_or_zero_rated").default(false),
+  requiresRetailPrice: boolean("requires_retail_price").default(false), // 3rd Schedule
+  requiresFedPayable: boolean("requires_fed_payable").default(false),
+  isRetail: boolean("is_retail").default(false),
+  isServices: boolean("is_services").default(false),
+  sroScheduleNo: varchar("sro_schedule_no", { length: 255 }),
+  notes: text("notes"),
+  createdBy: varchar("created_by", { length: 255 }),
+  createdAt: datetime("created_at").default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: datetime("updated_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  tenantScenarioIdx: index("idx_fbr_scenario_rules_tenant_scenario").on(table.tenantId, table.scenarioId, table.effectiveFrom),
+}));
+
+// FBR Credentials - encrypted API tokens per tenant; older rows are the rotation history
+export const fbrCredentials = mysqlTable("fbr_credentials", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  tenantId: varchar("tenant_id", { length: 255 }).notNull(),
+  environment: varchar("environment", { length: 20 }).notNull(), // sandbox, production
+  encryptedToken: text("encrypted_token").notNull(), // AES-256-GCM, see lib/fbr/credentials.ts
+  tokenHint: varchar("token_hint", { length: 10 }), // Last 4 characters, for display
+  expiresAt: datetime("expires_at"),
+  isActive: boolean("is_active").default(true), // Only the current token per environment is active
+  createdBy: varchar("created_by", { length: 255 }),
+  createdAt: datetime("created_at").default(sql`CURRENT_TIMESTAMP`),
+  revokedAt: datetime("revoked_at"), // Set when the token is rotated out
+  revokedBy: varchar("revoked_by", { length: 255 }),
+}, (table) => ({
+  tenantEnvironmentIdx: index("idx_fbr_credentials_tenant_env").on(table.tenantId, table.environment, table.isActive),
+}));
+
+// FBR Credential Audit Log - token changes and every production post made with a token
+export const fbrCredentialAuditLogs = mysqlTable("fbr_credential_audit_logs", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  tenantId: varchar("tenant_id", { length: 255 }).notNull(),
+  credentialId: varchar("credential_id", { length: 255 }),
+  environment: varchar("environment", { length: 20 }).notNull(),
+  action: varchar("action", { length: 30 }).notNull(), // created, rotated, expiry_updated, used
+  orderId: varchar("order_id", { length: 255 }),
+  noteId: varchar("note_id", { length: 255 }),
+  invoiceNumber: varchar("invoice_number", { length: 255 }),
+  success: boolean("success"), // Outcome of the FBR post for "used" entries
+  userId: varchar("user_id", { length: 255 }),
+  details: json("details"),
+  createdAt: datetime("created_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  tenantCreatedIdx: index("idx_fbr_credential_audit_tenant").on(table.tenantId, table.createdAt),
+  credentialIdx: index("idx_fbr_credential_audit_credential").on(table.credentialId),
+}));
+
 // Suppliers Relations
 export const suppliersRelations = relations(suppliers, ({ many }) => ({
   products: many(products),
@@ -1226,6 +1809,34 @@ export const suppliersRelations = relations(suppliers, ({ many }) => ({
   orders: many(orders),
 }));
 
+// FBR Submissions Relations
+export const fbrSubmissionsRelations = relations(fbrSubmissions, ({ one }) => ({
+  order: one(orders, {
+    fields: [fbrSubmissions.orderId],
+    references: [orders.id],
+  }),
+  note: one(fbrNotes, {
+    fields: [fbrSubmissions.noteId],
+    references: [fbrNotes.id],
+  }),
+}));
+
+// FBR Notes Relations
+export const fbrNotesRelations = relations(fbrNotes, ({ one }) => ({
+  order: one(orders, {
+    fields: [fbrNotes.orderId],
+    references: [orders.id],
+  }),
+  return: one(returns, {
+    fields: [fbrNotes.returnId],
+    references: [returns.id],
+  }),
+  refund: one(refunds, {
+    fields: [fbrNotes.refundId],
+    references: [refunds.id],
+  }),
+}));
+
 // Tenant Relations
 export const tenantsRelations = relations(tenants, ({ many }) => ({
   adminUsers: many(adminUsers),
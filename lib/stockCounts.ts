@@ -0,0 +1,680 @@
+/**
+ * Stock Counts
+ *
+ * Stock-take sessions for one location, optionally limited to one category.
+ * Starting a count freezes the expected on-hand stock of every inventory row
+ * in scope; staff then enter counted values (by hand, scanner or CSV) and
+ * approve the variances they accept:
+ *
+ *   open → posted
+ *       ↘ cancelled
+ *
+ * Posting writes one "adjustment" movement per approved line with a
+ * variance, carrying the count id and the count number as reference. The
+ * variance (counted − expected) is applied to the row's current stock, so
+ * sales and receipts made while counting are kept.
+ */
+
+import { db } from '@/lib/db';
+import { categories, inventoryLocations, productInventory, products, productVariants, stockCountItems, stockCounts, stockMovements } from '@/lib/schema';
+import { and, desc, eq, inArray, isNull, or, sql } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { isWeightBasedProduct } from '@/utils/weightUtils';
+import {
+  findInventoryAtLocation,
+  findOrCreateInventoryAtLocation,
+  getLocation,
+  lockInventoryRows,
+  type InventoryLocationRow,
+  type ProductInventoryRow,
+} from '@/lib/inventoryLocations';
+import { consumeLots } from '@/lib/inventoryLots';
+import { getStockTrackingDirect } from '@/lib/stockManagement';
+
+export type StockCountStatus = 'open' | 'posted' | 'cancelled';
+
+const COUNT_NUMBER_PREFIX = 'CNT-';
+const COUNT_NUMBER_DIGITS = 6;
+
+type StockCountRow = typeof stockCounts.$inferSelect;
+type StockCountItemRow = typeof stockCountItems.$inferSelect;
+
+export interface CreateStockCountInput {
+  locationId: string;
+  categoryId?: string | null;
+  notes?: string;
+  createdBy?: string;
+}
+
+/**
+ * One counted value. Lines are matched by id, or by product/variant SKU for
+ * scanner and CSV input; a SKU in scope but not yet on the count adds a line.
+ */
+export interface StockCountEntryInput {
+  itemId?: string;
+  sku?: string;
+  quantity?: number;
+  weightQuantity?: number; // grams, for weight-based products
+  mode?: 'set' | 'add'; // 'add' for scans; defaults to 'set'
+  approved?: boolean;
+}
+
+export interface StockCountResult {
+  success: boolean;
+  error?: string;
+  count?: StockCountRow;
+}
+
+export interface StockCountEntryResult extends StockCountResult {
+  updated?: number;
+  unmatched?: string[]; // SKUs that are not products at this count's scope
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+async function generateCountNumber(tenantId: string): Promise<string> {
+  const [row] = await db
+    .select({
+      maxNumber: sql<string | null>`MAX(CAST(SUBSTRING(${stockCounts.countNumber}, ${COUNT_NUMBER_PREFIX.length + 1}) AS UNSIGNED))`,
+    })
+    .from(stockCounts)
+    .where(and(
+      eq(stockCounts.tenantId, tenantId),
+      sql`${stockCounts.countNumber} REGEXP ${`^${COUNT_NUMBER_PREFIX}[0-9]{${COUNT_NUMBER_DIGITS},9}$`}`
+    ));
+
+  const next = parseInt(row?.maxNumber || '0') + 1;
+  return `${COUNT_NUMBER_PREFIX}${String(next).padStart(COUNT_NUMBER_DIGITS, '0')}`;
+}
+
+async function getCountRow(tenantId: string, countId: string): Promise<StockCountRow | null> {
+  const [count] = await db
+    .select()
+    .from(stockCounts)
+    .where(and(eq(stockCounts.id, countId), eq(stockCounts.tenantId, tenantId)))
+    .limit(1);
+
+  return count || null;
+}
+
+// On-hand stock of an inventory row: units, or grams for weight-based products
+function onHandStock(inventory: ProductInventoryRow | null | undefined, isWeightBased: boolean): number {
+  if (!inventory) return 0;
+  return isWeightBased ? parseFloat(inventory.weightQuantity || '0') : inventory.quantity;
+}
+
+/**
+ * Variance and its cost for one line; null while the line is uncounted
+ *
+ * Cost follows order costing: the variant's or product's costPrice, per kg
+ * for weight-based products.
+ */
+function lineVariance(item: StockCountItemRow, isWeightBased: boolean) {
+  const expected = isWeightBased ? parseFloat(item.expectedWeight || '0') : item.expectedQuantity;
+  const counted = isWeightBased
+    ? (item.countedWeight === null ? null : parseFloat(item.countedWeight))
+    : item.countedQuantity;
+
+  if (counted === null) {
+    return { expected, counted: null, variance: null, costImpact: null };
+  }
+
+  const variance = isWeightBased ? round2(counted - expected) : counted - expected;
+  const unitCost = item.unitCost ? parseFloat(item.unitCost) : null;
+  const costImpact = unitCost === null
+    ? null
+    : round2(isWeightBased ? variance / 1000 * unitCost : variance * unitCost);
+
+  return { expected, counted, variance, costImpact };
+}
+
+// Inventory rows held at a location; legacy rows without a location belong to the default one
+function atLocation(location: InventoryLocationRow) {
+  return location.isDefault
+    ? or(eq(productInventory.locationId, location.id), isNull(productInventory.locationId))
+    : eq(productInventory.locationId, location.id);
+}
+
+/**
+ * Start a count, freezing the expected stock of every tracked product/variant
+ * with an inventory row at the location (and in the category, when given)
+ */
+export async function createStockCount(tenantId: string, input: CreateStockCountInput): Promise<StockCountResult> {
+  if (!input.locationId) {
+    return { success: false, error: 'Location is required' };
+  }
+
+  const location = await getLocation(tenantId, input.locationId);
+  if (!location?.isActive) {
+    return { success: false, error: 'Location not found' };
+  }
+
+  if (input.categoryId) {
+    const [category] = await db
+      .select({ id: categories.id })
+      .from(categories)
+      .where(and(eq(categories.id, input.categoryId), eq(categories.tenantId, tenantId)))
+      .limit(1);
+    if (!category) {
+      return { success: false, error: 'Category not found' };
+    }
+  }
+
+  const conditions = [eq(productInventory.tenantId, tenantId), atLocation(location)];
+  if (input.categoryId) {
+    conditions.push(eq(products.categoryId, input.categoryId));
+  }
+
+  const rows = await db
+    .select({
+      inventory: productInventory,
+      productId: products.id,
+      productCost: products.costPrice,
+      variantCost: productVariants.costPrice,
+    })
+    .from(productInventory)
+    .innerJoin(products, and(eq(productInventory.productId, products.id), eq(products.tenantId, tenantId)))
+    .leftJoin(productVariants, eq(productInventory.variantId, productVariants.id))
+    .where(and(...conditions));
+
+  // Untracked products have no stock to count
+  const tracking = await getStockTrackingDirect(tenantId, rows.map(row => ({ productId: row.productId, variantId: row.inventory.variantId })));
+  const snapshot = rows.filter(row =>
+    tracking.get(`${row.productId}:${row.inventory.variantId || ''}`) !== 'untracked'
+  );
+
+  if (snapshot.length === 0) {
+    return { success: false, error: 'No stock-tracked items to count at this location' };
+  }
+
+  const countId = uuidv4();
+  const now = new Date();
+
+  // Retry on a duplicate number from a concurrent count for the same tenant
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await db.insert(stockCounts).values({
+        id: countId,
+        tenantId,
+        countNumber: await generateCountNumber(tenantId),
+        locationId: location.id,
+        categoryId: input.categoryId || null,
+        status: 'open',
+        notes: input.notes || null,
+        createdBy: input.createdBy || null,
+        createdAt: now,
+        updatedAt: now,
+      });
+      break;
+    } catch (error: any) {
+      if (error?.code !== 'ER_DUP_ENTRY' || attempt >= 2) throw error;
+    }
+  }
+
+  await db.insert(stockCountItems).values(snapshot.map(row => ({
+    id: uuidv4(),
+    tenantId,
+    countId,
+    inventoryId: row.inventory.id,
+    productId: row.productId,
+    variantId: row.inventory.variantId || null,
+    expectedQuantity: row.inventory.quantity,
+    expectedWeight: row.inventory.weightQuantity || '0.00',
+    unitCost: row.variantCost || row.productCost || null,
+    createdAt: now,
+  })));
+
+  const count = (await getCountRow(tenantId, countId))!;
+  console.log(`📋 Started stock count ${count.countNumber} at ${location.code} (${snapshot.length} line(s))`);
+  return { success: true, count };
+}
+
+/**
+ * Add a line for a product/variant found during the count that was not in
+ * the snapshot, with its current stock at the location as the expected value
+ */
+async function addCountLine(
+  tenantId: string,
+  count: StockCountRow,
+  location: InventoryLocationRow,
+  key: { productId: string; variantId: string | null },
+  unitCost: string | null
+): Promise<StockCountItemRow> {
+  const inventory = await findInventoryAtLocation(tenantId, key, location);
+  const item: StockCountItemRow = {
+    id: uuidv4(),
+    tenantId,
+    countId: count.id,
+    inventoryId: inventory?.id || null,
+    productId: key.productId,
+    variantId: key.variantId,
+    expectedQuantity: inventory?.quantity || 0,
+    expectedWeight: inventory?.weightQuantity || '0.00',
+    countedQuantity: null,
+    countedWeight: null,
+    unitCost,
+    approved: false,
+    movementId: null,
+    countedBy: null,
+    countedAt: null,
+    createdAt: new Date(),
+  };
+
+  await db.insert(stockCountItems).values(item);
+  return item;
+}
+
+/**
+ * Record counted values (and approvals) on an open count
+ *
+ * Changing a line's counted value clears its approval unless the entry
+ * approves it again.
+ */
+export async function recordStockCountEntries(
+  tenantId: string,
+  countId: string,
+  entries: StockCountEntryInput[],
+  userId?: string
+): Promise<StockCountEntryResult> {
+  const count = await getCountRow(tenantId, countId);
+  if (!count) {
+    return { success: false, error: 'Count not found' };
+  }
+  if (count.status !== 'open') {
+    return { success: false, error: `A ${count.status} count cannot be changed` };
+  }
+  if (!Array.isArray(entries) || entries.length === 0) {
+    return { success: false, error: 'No counts to record' };
+  }
+
+  const location = await getLocation(tenantId, count.locationId);
+  if (!location) {
+    return { success: false, error: 'Count location not found' };
+  }
+
+  const items = await db
+    .select()
+    .from(stockCountItems)
+    .where(and(eq(stockCountItems.countId, count.id), eq(stockCountItems.tenantId, tenantId)));
+  const itemById = new Map(items.map(item => [item.id, item]));
+  const itemByKey = new Map(items.map(item => [`${item.productId}:${item.variantId || ''}`, item]));
+
+  // Resolve SKUs to product/variant keys in one go
+  const skus = [...new Set(entries.map(entry => entry.sku?.trim()).filter((sku): sku is string => !!sku))];
+  const skuKeys = new Map<string, { productId: string; variantId: string | null; unitCost: string | null }>();
+  if (skus.length > 0) {
+    const productConditions = [eq(products.tenantId, tenantId), inArray(products.sku, skus)];
+    const variantConditions = [eq(productVariants.tenantId, tenantId), inArray(productVariants.sku, skus)];
+    if (count.categoryId) {
+      productConditions.push(eq(products.categoryId, count.categoryId));
+      variantConditions.push(eq(products.categoryId, count.categoryId));
+    }
+
+    const [productRows, variantRows] = await Promise.all([
+      db
+        .select({ id: products.id, sku: products.sku, costPrice: products.costPrice, productType: products.productType })
+        .from(products)
+        .where(and(...productConditions)),
+      db
+        .select({ id: productVariants.id, productId: productVariants.productId, sku: productVariants.sku, costPrice: productVariants.costPrice, productCost: products.costPrice })
+        .from(productVariants)
+        .innerJoin(products, eq(productVariants.productId, products.id))
+        .where(and(...variantConditions)),
+    ]);
+
+    // Variable products are counted per variant
+    for (const row of productRows) {
+      if (row.sku && row.productType !== 'variable') {
+        skuKeys.set(row.sku.toLowerCase(), { productId: row.id, variantId: null, unitCost: row.costPrice });
+      }
+    }
+    for (const row of variantRows) {
+      if (row.sku) {
+        skuKeys.set(row.sku.toLowerCase(), { productId: row.productId, variantId: row.id, unitCost: row.costPrice || row.productCost });
+      }
+    }
+  }
+
+  const types = await db
+    .select({ id: products.id, stockManagementType: products.stockManagementType })
+    .from(products)
+    .where(and(eq(products.tenantId, tenantId), inArray(products.id, [
+      ...new Set([...items.map(item => item.productId), ...[...skuKeys.values()].map(key => key.productId)]),
+    ])));
+  const weightBased = new Map(types.map(row => [row.id, isWeightBasedProduct(row.stockManagementType || 'quantity')]));
+
+  const unmatched: string[] = [];
+  const changed = new Map<string, StockCountItemRow>();
+  const now = new Date();
+
+  for (const entry of entries) {
+    let item = entry.itemId ? changed.get(entry.itemId) || itemById.get(entry.itemId) : undefined;
+
+    if (!item && entry.sku?.trim()) {
+      const key = skuKeys.get(entry.sku.trim().toLowerCase());
+      if (!key) {
+        unmatched.push(entry.sku.trim());
+        continue;
+      }
+      const mapKey = `${key.productId}:${key.variantId || ''}`;
+      item = itemByKey.get(mapKey);
+      if (!item) {
+        item = await addCountLine(tenantId, count, location, key, key.unitCost);
+        itemById.set(item.id, item);
+        itemByKey.set(mapKey, item);
+      }
+      item = changed.get(item.id) || item;
+    }
+
+    if (!item) {
+      if (entry.itemId) {
+        return { success: false, error: 'One or more lines do not belong to this count' };
+      }
+      continue;
+    }
+
+    const isWeightBased = weightBased.get(item.productId) ?? false;
+    const next = { ...item };
+
+    const value = isWeightBased ? entry.weightQuantity : entry.quantity;
+    if (value !== undefined && value !== null && String(value) !== '') {
+      const amount = Number(value);
+      if (isWeightBased ? !(amount >= 0) : !(Number.isInteger(amount) && amount >= 0)) {
+        return {
+          success: false,
+          error: isWeightBased
+            ? 'Counted weights must be zero or more'
+            : 'Counted quantities must be whole numbers of zero or more',
+        };
+      }
+
+      if (isWeightBased) {
+        const base = entry.mode === 'add' ? parseFloat(item.countedWeight || '0') : 0;
+        next.countedWeight = round2(base + amount).toFixed(2);
+      } else {
+        const base = entry.mode === 'add' ? item.countedQuantity || 0 : 0;
+        next.countedQuantity = base + amount;
+      }
+      next.countedBy = userId || null;
+      next.countedAt = now;
+      next.approved = false;
+    }
+
+    if (entry.approved !== undefined) {
+      const counted = isWeightBased ? next.countedWeight : next.countedQuantity;
+      next.approved = !!entry.approved && counted !== null;
+    }
+
+    changed.set(next.id, next);
+  }
+
+  for (const item of changed.values()) {
+    await db
+      .update(stockCountItems)
+      .set({
+        countedQuantity: item.countedQuantity,
+        countedWeight: item.countedWeight,
+        approved: item.approved,
+        countedBy: item.countedBy,
+        countedAt: item.countedAt,
+      })
+      .where(eq(stockCountItems.id, item.id));
+  }
+
+  await db
+    .update(stockCounts)
+    .set({ updatedAt: now })
+    .where(eq(stockCounts.id, count.id));
+
+  return { success: true, count, updated: changed.size, unmatched };
+}
+
+/**
+ * Post the approved variances of an open count as adjustment movements
+ *
+ * All lines are posted in one transaction with their inventory rows locked.
+ * Shortfalls are taken out of the row's lots FEFO; surpluses go to stock not
+ * tracked by lots. Unapproved lines are left as they are.
+ */
+export async function postStockCount(tenantId: string, countId: string, userId?: string): Promise<StockCountResult & { posted?: number }> {
+  const count = await getCountRow(tenantId, countId);
+  if (!count) {
+    return { success: false, error: 'Count not found' };
+  }
+  if (count.status !== 'open') {
+    return { success: false, error: `A ${count.status} count cannot be posted` };
+  }
+
+  const location = await getLocation(tenantId, count.locationId);
+  if (!location) {
+    return { success: false, error: 'Count location not found' };
+  }
+
+  const items = await db
+    .select({ item: stockCountItems, stockManagementType: products.stockManagementType })
+    .from(stockCountItems)
+    .leftJoin(products, eq(stockCountItems.productId, products.id))
+    .where(and(
+      eq(stockCountItems.countId, count.id),
+      eq(stockCountItems.tenantId, tenantId),
+      eq(stockCountItems.approved, true)
+    ));
+
+  const plan = items
+    .map(row => {
+      const isWeightBased = isWeightBasedProduct(row.stockManagementType || 'quantity');
+      return { item: row.item, isWeightBased, ...lineVariance(row.item, isWeightBased) };
+    })
+    .filter(line => line.variance !== null && line.variance !== 0);
+
+  // Found stock without an inventory row needs one before the transaction locks it
+  for (const line of plan) {
+    if (!line.item.inventoryId && line.variance! > 0) {
+      const inventory = await findOrCreateInventoryAtLocation(tenantId, line.item, location);
+      line.item.inventoryId = inventory.id;
+    }
+  }
+
+  const now = new Date();
+  const posted = await db.transaction(async (tx) => {
+    // The count row lock makes a second post wait and then see it posted
+    const [locked] = await tx
+      .select({ status: stockCounts.status })
+      .from(stockCounts)
+      .where(eq(stockCounts.id, count.id))
+      .for('update');
+    if (locked?.status !== 'open') return null;
+
+    const rows = await lockInventoryRows(
+      tx,
+      tenantId,
+      plan.map(line => line.item.inventoryId).filter((id): id is string => !!id)
+    );
+
+    let postedLines = 0;
+    for (const line of plan) {
+      const inventory = line.item.inventoryId ? rows.get(line.item.inventoryId) : undefined;
+      if (!inventory) continue; // Shortfall on a row that no longer exists; nothing to take off
+
+      const { isWeightBased, expected, counted } = line;
+      const variance = line.variance!;
+      const previous = onHandStock(inventory, isWeightBased);
+      const next = isWeightBased ? Math.max(0, round2(previous + variance)) : Math.max(0, previous + variance);
+      const unit = isWeightBased ? 'g' : '';
+
+      await tx
+        .update(productInventory)
+        .set(isWeightBased
+          ? {
+              weightQuantity: next.toFixed(2),
+              availableWeight: (next - parseFloat(inventory.reservedWeight || '0')).toFixed(2),
+              updatedAt: now,
+            }
+          : {
+              quantity: next,
+              availableQuantity: next - (inventory.reservedQuantity || 0),
+              updatedAt: now,
+            })
+        .where(eq(productInventory.id, inventory.id));
+
+      if (next < previous) {
+        await consumeLots(tenantId, inventory, round2(previous - next), isWeightBased, undefined, tx);
+      }
+
+      const movementId = uuidv4();
+      await tx.insert(stockMovements).values({
+        id: movementId,
+        tenantId,
+        inventoryId: inventory.id,
+        productId: line.item.productId,
+        variantId: line.item.variantId || null,
+        movementType: 'adjustment',
+        // Adjustments carry the new total, as in manual stock movements
+        quantity: isWeightBased ? 0 : next,
+        previousQuantity: inventory.quantity,
+        newQuantity: isWeightBased ? inventory.quantity : next,
+        weightQuantity: isWeightBased ? next.toFixed(2) : '0.00',
+        previousWeightQuantity: isWeightBased ? previous.toFixed(2) : '0.00',
+        newWeightQuantity: isWeightBased ? next.toFixed(2) : '0.00',
+        reason: 'Stock Count Correction',
+        locationId: location.id,
+        location: location.code,
+        countId: count.id,
+        reference: count.countNumber,
+        notes: `Counted ${counted}${unit}, expected ${expected}${unit} (${variance > 0 ? '+' : ''}${variance}${unit})`,
+        costPrice: line.item.unitCost,
+        processedBy: userId || null,
+        createdAt: now,
+      });
+
+      await tx
+        .update(stockCountItems)
+        .set({ movementId })
+        .where(eq(stockCountItems.id, line.item.id));
+      postedLines++;
+    }
+
+    await tx
+      .update(stockCounts)
+      .set({ status: 'posted', postedBy: userId || null, postedAt: now, updatedAt: now })
+      .where(eq(stockCounts.id, count.id));
+
+    return postedLines;
+  });
+
+  if (posted === null) {
+    return { success: false, error: 'The count was already posted or cancelled' };
+  }
+
+  console.log(`✅ Posted stock count ${count.countNumber} (${posted} adjustment(s))`);
+  return { success: true, count: (await getCountRow(tenantId, count.id))!, posted };
+}
+
+/**
+ * Cancel an open count; nothing is posted
+ */
+export async function cancelStockCount(tenantId: string, countId: string, userId?: string): Promise<StockCountResult> {
+  const count = await getCountRow(tenantId, countId);
+  if (!count) {
+    return { success: false, error: 'Count not found' };
+  }
+  if (count.status !== 'open') {
+    return { success: false, error: `A ${count.status} count cannot be cancelled` };
+  }
+
+  const now = new Date();
+  await db
+    .update(stockCounts)
+    .set({ status: 'cancelled', cancelledBy: userId || null, cancelledAt: now, updatedAt: now })
+    .where(eq(stockCounts.id, count.id));
+
+  return { success: true, count: (await getCountRow(tenantId, count.id))! };
+}
+
+/**
+ * List a tenant's counts with location and category names and progress
+ */
+export async function listStockCounts(tenantId: string, status?: string) {
+  const conditions = [eq(stockCounts.tenantId, tenantId)];
+  if (status) {
+    conditions.push(eq(stockCounts.status, status));
+  }
+
+  return db
+    .select({
+      count: stockCounts,
+      locationName: inventoryLocations.name,
+      categoryName: categories.name,
+      itemCount: sql<number>`(SELECT COUNT(*) FROM ${stockCountItems} WHERE ${stockCountItems.countId} = ${stockCounts.id})`,
+      countedCount: sql<number>`(SELECT COUNT(*) FROM ${stockCountItems} WHERE ${stockCountItems.countId} = ${stockCounts.id} AND (${stockCountItems.countedQuantity} IS NOT NULL OR ${stockCountItems.countedWeight} IS NOT NULL))`,
+    })
+    .from(stockCounts)
+    .leftJoin(inventoryLocations, eq(stockCounts.locationId, inventoryLocations.id))
+    .leftJoin(categories, eq(stockCounts.categoryId, categories.id))
+    .where(and(...conditions))
+    .orderBy(desc(stockCounts.createdAt));
+}
+
+/**
+ * A count with its lines, their variances and cost impact, and totals
+ */
+export async function getStockCountDetails(tenantId: string, countId: string) {
+  const count = await getCountRow(tenantId, countId);
+  if (!count) return null;
+
+  const [location, category, rows] = await Promise.all([
+    getLocation(tenantId, count.locationId),
+    count.categoryId
+      ? db
+          .select({ id: categories.id, name: categories.name })
+          .from(categories)
+          .where(and(eq(categories.id, count.categoryId), eq(categories.tenantId, tenantId)))
+          .limit(1)
+          .then(result => result[0] || null)
+      : null,
+    db
+      .select({
+        item: stockCountItems,
+        productName: products.name,
+        productSku: products.sku,
+        stockManagementType: products.stockManagementType,
+        variantTitle: productVariants.title,
+        variantSku: productVariants.sku,
+      })
+      .from(stockCountItems)
+      .leftJoin(products, eq(stockCountItems.productId, products.id))
+      .leftJoin(productVariants, eq(stockCountItems.variantId, productVariants.id))
+      .where(and(eq(stockCountItems.countId, count.id), eq(stockCountItems.tenantId, tenantId)))
+      .orderBy(products.name, productVariants.title),
+  ]);
+
+  const summary = { lines: rows.length, counted: 0, withVariance: 0, approved: 0, costGain: 0, costLoss: 0, netCost: 0 };
+
+  const items = rows.map(row => {
+    const stockManagementType = row.stockManagementType || 'quantity';
+    const variance = lineVariance(row.item, isWeightBasedProduct(stockManagementType));
+
+    if (variance.counted !== null) summary.counted++;
+    if (variance.variance) summary.withVariance++;
+    if (row.item.approved) summary.approved++;
+    if (variance.costImpact) {
+      if (variance.costImpact > 0) summary.costGain += variance.costImpact;
+      else summary.costLoss += variance.costImpact;
+    }
+
+    return {
+      ...row.item,
+      productName: row.productName || 'Unknown Product',
+      variantTitle: row.variantTitle,
+      sku: row.variantSku || row.productSku,
+      stockManagementType,
+      ...variance,
+    };
+  });
+
+  summary.costGain = round2(summary.costGain);
+  summary.costLoss = round2(summary.costLoss);
+  summary.netCost = round2(summary.costGain + summary.costLoss);
+
+  return { count, location, category, items, summary };
+}
@@ -40,18 +40,49 @@ export async function updateStockManagementSetting(enabled: boolean): Promise<St
   }
 }
 
-// Server-side function to get stock management setting directly from database
-// This can be used in API routes to avoid HTTP calls
-export async function getStockManagementSettingDirect(): Promise<boolean> {
+// How stock is handled for a product or variant:
+// - track: orders check and reserve stock
+// - untracked: orders never touch stock
+// - backorder: stock is reserved and deducted, but may go below zero
+export type StockTrackingMode = 'track' | 'untracked' | 'backorder';
+
+export const STOCK_TRACKING_MODES: StockTrackingMode[] = ['track', 'untracked', 'backorder'];
+
+// Resolve the tracking mode of a product/variant. The product's stockTracking
+// overrides the tenant setting (null = follow it); a variant can then opt out
+// (inventoryManagement = false) or allow backorders on top of that.
+export function resolveStockTracking(
+  stockManagementEnabled: boolean,
+  product: { stockTracking?: string | null } | null | undefined,
+  variant?: { inventoryManagement?: boolean | null; allowBackorder?: boolean | null } | null
+): StockTrackingMode {
+  const productMode = STOCK_TRACKING_MODES.includes(product?.stockTracking as StockTrackingMode)
+    ? product!.stockTracking as StockTrackingMode
+    : (stockManagementEnabled ? 'track' : 'untracked');
+
+  if (productMode === 'untracked' || variant?.inventoryManagement === false) {
+    return 'untracked';
+  }
+  return productMode === 'backorder' || variant?.allowBackorder ? 'backorder' : 'track';
+}
+
+// Server-side function to get a tenant's stock management setting directly from database
+// This can be used in API routes to avoid HTTP calls. Falls back to the global
+// (tenant-less) setting, then to enabled.
+export async function getStockManagementSettingDirect(tenantId: string): Promise<boolean> {
   try {
     const { db } = await import('@/lib/db');
     const { settings } = await import('@/lib/schema');
-    const { eq } = await import('drizzle-orm');
+    const { and, eq, isNull, or, desc } = await import('drizzle-orm');
     
     const setting = await db
       .select()
       .from(settings)
-      .where(eq(settings.key, 'stock_management_enabled'))
+      .where(and(
+        eq(settings.key, 'stock_management_enabled'),
+        or(eq(settings.tenantId, tenantId), isNull(settings.tenantId))
+      ))
+      .orderBy(desc(settings.tenantId)) // Tenant row before the global one
       .limit(1);
 
     if (setting.length > 0) {
@@ -64,4 +95,43 @@ export async function getStockManagementSettingDirect(): Promise<boolean> {
     console.warn('Error fetching stock management setting from database, defaulting to enabled:', error);
     return true;
   }
-} 
\ No newline at end of file
+}
+
+// Server-side: tracking mode of each product/variant pair for a tenant, keyed by
+// `${productId}:${variantId || ''}`
+export async function getStockTrackingDirect(
+  tenantId: string,
+  keys: Array<{ productId: string; variantId?: string | null }>,
+  stockManagementEnabled?: boolean
+): Promise<Map<string, StockTrackingMode>> {
+  const { db } = await import('@/lib/db');
+  const { products, productVariants } = await import('@/lib/schema');
+  const { and, eq, inArray } = await import('drizzle-orm');
+
+  const enabled = stockManagementEnabled ?? await getStockManagementSettingDirect(tenantId);
+  const productIds = [...new Set(keys.map(key => key.productId))];
+  const variantIds = [...new Set(keys.map(key => key.variantId).filter((id): id is string => !!id))];
+
+  const [productRows, variantRows] = await Promise.all([
+    productIds.length > 0
+      ? db
+          .select({ id: products.id, stockTracking: products.stockTracking })
+          .from(products)
+          .where(and(eq(products.tenantId, tenantId), inArray(products.id, productIds)))
+      : [],
+    variantIds.length > 0
+      ? db
+          .select({ id: productVariants.id, inventoryManagement: productVariants.inventoryManagement, allowBackorder: productVariants.allowBackorder })
+          .from(productVariants)
+          .where(and(eq(productVariants.tenantId, tenantId), inArray(productVariants.id, variantIds)))
+      : [],
+  ]);
+
+  const productById = new Map(productRows.map(row => [row.id, row]));
+  const variantById = new Map(variantRows.map(row => [row.id, row]));
+
+  return new Map(keys.map(key => [
+    `${key.productId}:${key.variantId || ''}`,
+    resolveStockTracking(enabled, productById.get(key.productId), key.variantId ? variantById.get(key.variantId) : null),
+  ]));
+}
@@ -0,0 +1,634 @@
+/**
+ * Stock Reservations
+ *
+ * Order lines take stock in two steps. While an order is open its lines
+ * reserve stock on their inventory row (reserved up, available down, on-hand
+ * unchanged); once the order ships or is delivered the reservation becomes a
+ * real deduction with an "out" movement and FEFO lot allocation. Cancelling
+ * or deleting the order gives the stock back from whichever step it reached.
+ *
+ * order_items.stock_status records where each line stands:
+ * - none: the item was not stock-tracked when the line was created; never touched
+ * - reserved: held on the inventory row
+ * - deducted: taken off on-hand stock
+ * - released: nothing held (cancelled, deleted, or reservation expired unpaid)
+ *
+ * Bundle lines hold no stock themselves: each of their components has an
+ * order_item_components row with its own stock_status that moves through
+ * the same states, and the bundle line mirrors them.
+ *
+ * Reservations of unpaid orders are released after a per-tenant timeout by
+ * releaseExpiredReservations (see /api/cron/release-reservations), and
+ * checkStockConsistency compares inventory rows with their stock movements
+ * and open reservations (see /api/cron/stock-consistency).
+ */
+
+import { db, type DbExecutor, type DbTransaction } from '@/lib/db';
+import { orderItemComponents, orderItems, orders, productInventory, products, productVariants, settings, stockMovements } from '@/lib/schema';
+import { and, desc, eq, inArray, isNull, lt, notInArray, or } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { isWeightBasedProduct } from '@/utils/weightUtils';
+import {
+  getDefaultLocation,
+  InsufficientStockError,
+  lockInventoryForOrderItems,
+  lockInventoryRows,
+  type ProductInventoryRow,
+} from '@/lib/inventoryLocations';
+import { consumeLots, describeLotAllocations, getSellableStock, restoreOrderItemLots } from '@/lib/inventoryLots';
+import { resolveStockTracking } from '@/lib/stockManagement';
+
+export type OrderStockStatus = 'none' | 'reserved' | 'deducted' | 'released';
+
+export const STOCK_RESERVATION_TIMEOUT_KEY = 'stock_reservation_timeout_hours';
+
+// Order statuses at which the goods have left
+const FULFILLED_ORDER_STATUSES = ['shipped', 'delivered', 'completed'];
+
+// Payment statuses that let a reservation expire
+const UNPAID_PAYMENT_STATUSES = ['pending', 'failed'];
+
+type OrderItemRow = typeof orderItems.$inferSelect;
+
+export type OrderStockLine = Pick<
+  OrderItemRow,
+  'id' | 'orderId' | 'productId' | 'variantId' | 'productName' | 'variantTitle' | 'quantity' | 'weightQuantity'
+> & {
+  bundleName?: string; // Set for a bundle component; the id is then its order_item_components row
+};
+
+export interface OrderStockContext {
+  tenantId: string;
+  orderId: string;
+  orderNumber: string;
+  event: string; // Start of the movement reason, e.g. "Order Cancelled"
+  userId?: string | null;
+}
+
+export interface ReservationReleaseSummary {
+  processed: number;
+  released: number;
+  failed: number;
+  errors: string[];
+}
+
+export interface StockDrift {
+  inventoryId: string;
+  productId: string | null;
+  variantId: string | null;
+  locationId: string | null;
+  productName: string | null;
+  variantTitle: string | null;
+  isWeightBased: boolean;
+  onHand: number;
+  ledgerOnHand: number | null; // From the newest stock movement; null when the row has none
+  reserved: number;
+  expectedReserved: number;
+  available: number;
+  expectedAvailable: number;
+  fixed: boolean;
+}
+
+export interface StockConsistencyReport {
+  checked: number;
+  drifted: StockDrift[];
+  fixed: number;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function sameAmount(a: number, b: number): boolean {
+  return Math.abs(a - b) < 0.005;
+}
+
+function lineAmount(line: Pick<OrderItemRow, 'quantity' | 'weightQuantity'>, isWeightBased: boolean): number {
+  return isWeightBased ? parseFloat(line.weightQuantity || '0') : line.quantity;
+}
+
+function stockLevels(inventory: ProductInventoryRow, isWeightBased: boolean) {
+  return isWeightBased
+    ? {
+        onHand: parseFloat(inventory.weightQuantity || '0'),
+        reserved: parseFloat(inventory.reservedWeight || '0'),
+        available: parseFloat(inventory.availableWeight || '0'),
+      }
+    : {
+        onHand: inventory.quantity,
+        reserved: inventory.reservedQuantity || 0,
+        available: inventory.availableQuantity || 0,
+      };
+}
+
+/**
+ * On-hand and reserved stock after moving an amount from one line state to another
+ *
+ * Reserving holds stock without taking it off hand; deducting takes it off
+ * hand. Reserved stock never goes below zero.
+ */
+export function moveStockLevels(
+  levels: { onHand: number; reserved: number },
+  amount: number,
+  from: OrderStockStatus,
+  to: OrderStockStatus
+): { onHand: number; reserved: number } {
+  let onHand = levels.onHand;
+  let reserved = levels.reserved;
+  if (from === 'reserved') reserved -= amount;
+  if (from === 'deducted') onHand += amount;
+  if (to === 'reserved') reserved += amount;
+  if (to === 'deducted') onHand -= amount;
+  return { onHand: round2(onHand), reserved: Math.max(0, round2(reserved)) };
+}
+
+/**
+ * The stock state an order's lines should be in for its status
+ */
+export function stockStatusForOrder(status: string, fulfillmentStatus?: string | null): OrderStockStatus {
+  if (status === 'cancelled') return 'released';
+  if (FULFILLED_ORDER_STATUSES.includes(status) || fulfillmentStatus === 'fulfilled') return 'deducted';
+  return 'reserved';
+}
+
+/**
+ * Stock on a row that a new reservation can take: unexpired stock minus what
+ * open orders already hold
+ */
+export async function getReservableStock(
+  tenantId: string,
+  inventory: ProductInventoryRow,
+  isWeightBased: boolean,
+  executor: DbExecutor = db
+): Promise<{ reservable: number; expired: number }> {
+  const sellable = await getSellableStock(tenantId, inventory, isWeightBased, executor);
+  const { reserved } = stockLevels(inventory, isWeightBased);
+  return { reservable: round2(sellable.sellable - reserved), expired: sellable.expired };
+}
+
+/**
+ * Move one order line's stock between states on its inventory row and stamp
+ * the line with the new stock_status. On-hand changes get a stock movement
+ * and lot allocation (or restoration).
+ *
+ * The row must be locked by the caller's transaction.
+ *
+ * @param from The line's current state; use 'released' for a new line
+ * @param allowBackorder Skip the stock checks; levels may go negative until restocked
+ * @returns The inventory row with its new levels
+ * @throws InsufficientStockError when the row cannot cover a new reservation or deduction
+ */
+export async function transitionLineStock(
+  tx: DbTransaction,
+  inventory: ProductInventoryRow,
+  line: OrderStockLine,
+  isWeightBased: boolean,
+  from: OrderStockStatus,
+  to: OrderStockStatus,
+  context: OrderStockContext,
+  allowBackorder = false
+): Promise<ProductInventoryRow> {
+  if (from === to || from === 'none' || to === 'none') return inventory;
+
+  const amount = lineAmount(line, isWeightBased);
+  const unit = isWeightBased ? 'g' : ' units';
+  const label = `${line.productName}${line.variantTitle ? ` (${line.variantTitle})` : ''}`;
+  const levels = stockLevels(inventory, isWeightBased);
+
+  // A line that holds nothing yet needs free stock; a reserved line only needs it on hand
+  if (allowBackorder) {
+    // Backordered lines are held or shipped regardless of stock
+  } else if (from === 'released') {
+    const { reservable } = await getReservableStock(context.tenantId, inventory, isWeightBased, tx);
+    if (reservable < amount) {
+      throw new InsufficientStockError(
+        `Insufficient stock for ${label}. Available: ${reservable}${unit}, Requested: ${amount}${unit}`,
+        reservable
+      );
+    }
+  } else if (from === 'reserved' && to === 'deducted' && levels.onHand < amount) {
+    throw new InsufficientStockError(
+      `Only ${levels.onHand}${unit} of ${label} is on hand, ${amount}${unit} needed`,
+      levels.onHand
+    );
+  }
+
+  const { onHand, reserved } = moveStockLevels(levels, amount, from, to);
+
+  const now = new Date();
+  const levelUpdate = isWeightBased
+    ? {
+        weightQuantity: onHand.toFixed(2),
+        reservedWeight: reserved.toFixed(2),
+        availableWeight: (onHand - reserved).toFixed(2),
+        updatedAt: now,
+      }
+    : {
+        quantity: onHand,
+        reservedQuantity: reserved,
+        availableQuantity: onHand - reserved,
+        updatedAt: now,
+      };
+
+  await tx
+    .update(productInventory)
+    .set(levelUpdate)
+    .where(eq(productInventory.id, inventory.id));
+
+  if (onHand !== levels.onHand) {
+    const isOut = onHand < levels.onHand;
+    await tx.insert(stockMovements).values({
+      id: uuidv4(),
+      tenantId: context.tenantId,
+      inventoryId: inventory.id,
+      productId: line.productId,
+      variantId: line.variantId || null,
+      movementType: isOut ? 'out' : 'in',
+      quantity: isWeightBased ? 0 : amount,
+      previousQuantity: inventory.quantity,
+      newQuantity: isWeightBased ? inventory.quantity : onHand,
+      weightQuantity: isWeightBased ? amount.toString() : '0.00',
+      previousWeightQuantity: isWeightBased ? levels.onHand.toString() : '0.00',
+      newWeightQuantity: isWeightBased ? onHand.toString() : '0.00',
+      reason: `${context.event} - ${isOut ? 'Stock Sold' : 'Stock Restored'}`,
+      locationId: inventory.locationId,
+      reference: context.orderNumber,
+      notes: (isOut
+        ? `Sold ${amount}${unit} for order ${context.orderNumber}`
+        : `${amount}${unit} restored from order ${context.orderNumber}`)
+        + (line.bundleName ? ` (bundle ${line.bundleName})` : ''),
+      processedBy: context.userId || null,
+      createdAt: now,
+    });
+  }
+
+  let lotDetails = {};
+  if (to === 'deducted') {
+    const allocations = await consumeLots(
+      context.tenantId,
+      inventory,
+      amount,
+      isWeightBased,
+      { orderId: context.orderId, orderItemId: line.id },
+      tx
+    );
+    // Show the lots actually picked (FEFO)
+    if (allocations.length > 0) lotDetails = describeLotAllocations(allocations);
+  } else if (from === 'deducted') {
+    await restoreOrderItemLots(context.tenantId, line.id, isWeightBased, undefined, tx);
+  }
+
+  if (line.bundleName) {
+    await tx
+      .update(orderItemComponents)
+      .set({ stockStatus: to })
+      .where(eq(orderItemComponents.id, line.id));
+  } else {
+    await tx
+      .update(orderItems)
+      .set({ stockStatus: to, ...lotDetails })
+      .where(eq(orderItems.id, line.id));
+  }
+
+  return { ...inventory, ...levelUpdate };
+}
+
+/**
+ * Move every stock-tracked line of an order to the given state, locking the
+ * inventory rows involved first. Runs in the caller's transaction, which
+ * should already hold the order row lock.
+ *
+ * @param onlyFrom Only move lines currently in this state
+ * @returns The number of lines moved
+ * @throws InsufficientStockError when stock runs short; the caller rolls back
+ */
+export async function syncOrderStock(
+  tx: DbTransaction,
+  context: OrderStockContext,
+  target: OrderStockStatus,
+  onlyFrom?: OrderStockStatus
+): Promise<number> {
+  const lines = (await tx
+    .select()
+    .from(orderItems)
+    .where(eq(orderItems.orderId, context.orderId)))
+    .filter(line => line.stockStatus !== 'none' && line.stockStatus !== target && (!onlyFrom || line.stockStatus === onlyFrom));
+
+  if (lines.length === 0) return 0;
+
+  // Bundle lines move the stock of their components instead
+  const components = await tx
+    .select()
+    .from(orderItemComponents)
+    .where(and(
+      eq(orderItemComponents.tenantId, context.tenantId),
+      inArray(orderItemComponents.orderItemId, lines.map(line => line.id))
+    ));
+  const bundleLines = lines.filter(line => components.some(component => component.orderItemId === line.id));
+  const stockLines: Array<OrderStockLine & { locationId: string | null; stockStatus: string }> = [
+    ...lines.filter(line => !bundleLines.includes(line)),
+    ...components
+      .filter(component => component.stockStatus !== 'none' && component.stockStatus !== target && (!onlyFrom || component.stockStatus === onlyFrom))
+      .map(component => ({
+        ...component,
+        bundleName: bundleLines.find(line => line.id === component.orderItemId)!.productName,
+      })),
+  ];
+
+  const productRows = stockLines.length > 0
+    ? await tx
+        .select({ id: products.id, stockManagementType: products.stockManagementType, stockTracking: products.stockTracking })
+        .from(products)
+        .where(and(eq(products.tenantId, context.tenantId), inArray(products.id, [...new Set(stockLines.map(line => line.productId))])))
+    : [];
+  const productById = new Map(productRows.map(row => [row.id, row]));
+  const weightBased = new Map(productRows.map(row => [row.id, isWeightBasedProduct(row.stockManagementType || 'quantity')]));
+
+  const variantIds = [...new Set(stockLines.map(line => line.variantId).filter((id): id is string => !!id))];
+  const variantRows = variantIds.length > 0
+    ? await tx
+        .select({ id: productVariants.id, inventoryManagement: productVariants.inventoryManagement, allowBackorder: productVariants.allowBackorder })
+        .from(productVariants)
+        .where(inArray(productVariants.id, variantIds))
+    : [];
+  const variantById = new Map(variantRows.map(row => [row.id, row]));
+
+  // Stock comes from and goes back to the location each line was picked from
+  const { inventoryIds, rows } = await lockInventoryForOrderItems(tx, context.tenantId, stockLines);
+
+  for (const line of stockLines) {
+    const inventoryId = inventoryIds.get(line.id);
+    const inventory = inventoryId ? rows.get(inventoryId) : undefined;
+    const isWeightBased = weightBased.get(line.productId);
+
+    if (!inventory || isWeightBased === undefined) {
+      if (target !== 'released') {
+        throw new InsufficientStockError(`No inventory record found for ${line.productName}`, 0);
+      }
+      console.warn(`⚠️ No inventory record for ${line.productName} on order ${context.orderNumber}; nothing to give back`);
+      if (line.bundleName) {
+        await tx.update(orderItemComponents).set({ stockStatus: 'released' }).where(eq(orderItemComponents.id, line.id));
+      } else {
+        await tx.update(orderItems).set({ stockStatus: 'released' }).where(eq(orderItems.id, line.id));
+      }
+      continue;
+    }
+
+    // Lines already hold stock, so only the backorder override matters here
+    const allowBackorder = resolveStockTracking(
+      true,
+      productById.get(line.productId),
+      line.variantId ? variantById.get(line.variantId) : undefined
+    ) === 'backorder';
+
+    const from = line.stockStatus as OrderStockStatus;
+    rows.set(inventory.id, await transitionLineStock(tx, inventory, line, isWeightBased, from, target, context, allowBackorder));
+  }
+
+  if (bundleLines.length > 0) {
+    await tx
+      .update(orderItems)
+      .set({ stockStatus: target })
+      .where(inArray(orderItems.id, bundleLines.map(line => line.id)));
+  }
+
+  return lines.length;
+}
+
+/**
+ * Hours after which unpaid orders lose their stock reservations; 0 means never
+ */
+export async function getReservationTimeoutHours(tenantId: string): Promise<number> {
+  const [setting] = await db
+    .select()
+    .from(settings)
+    .where(and(eq(settings.tenantId, tenantId), eq(settings.key, STOCK_RESERVATION_TIMEOUT_KEY)))
+    .limit(1);
+
+  const hours = setting ? parseFloat(setting.value) : 0;
+  return Number.isFinite(hours) && hours > 0 ? hours : 0;
+}
+
+/**
+ * Release the reservations of open orders that are still unpaid after their
+ * tenant's timeout. The orders stay open; their lines are marked released
+ * and must find free stock again when the order moves on.
+ *
+ * @param tenantId Limit to one tenant; all tenants with a timeout when omitted (cron)
+ */
+export async function releaseExpiredReservations(tenantId?: string): Promise<ReservationReleaseSummary> {
+  const conditions = [eq(settings.key, STOCK_RESERVATION_TIMEOUT_KEY)];
+  if (tenantId) {
+    conditions.push(eq(settings.tenantId, tenantId));
+  }
+
+  const timeouts = await db
+    .select({ tenantId: settings.tenantId, value: settings.value })
+    .from(settings)
+    .where(and(...conditions));
+
+  const summary: ReservationReleaseSummary = { processed: 0, released: 0, failed: 0, errors: [] };
+
+  for (const timeout of timeouts) {
+    const hours = parseFloat(timeout.value);
+    if (!timeout.tenantId || !Number.isFinite(hours) || hours <= 0) continue;
+
+    const tenant = timeout.tenantId;
+    const cutoff = new Date(Date.now() - hours * 60 * 60 * 1000);
+
+    const expiredOrders = await db
+      .selectDistinct({ id: orders.id, orderNumber: orders.orderNumber })
+      .from(orders)
+      .innerJoin(orderItems, eq(orderItems.orderId, orders.id))
+      .where(and(
+        eq(orders.tenantId, tenant),
+        lt(orders.createdAt, cutoff),
+        notInArray(orders.status, [...FULFILLED_ORDER_STATUSES, 'cancelled']),
+        or(isNull(orders.paymentStatus), inArray(orders.paymentStatus, UNPAID_PAYMENT_STATUSES)),
+        eq(orderItems.stockStatus, 'reserved')
+      ));
+
+    for (const order of expiredOrders) {
+      summary.processed++;
+      try {
+        const released = await db.transaction(async (tx) => {
+          // Re-check under the order lock in case it was paid or shipped meanwhile
+          const [locked] = await tx
+            .select({ status: orders.status, paymentStatus: orders.paymentStatus, fulfillmentStatus: orders.fulfillmentStatus })
+            .from(orders)
+            .where(eq(orders.id, order.id))
+            .for('update');
+
+          if (!locked || stockStatusForOrder(locked.status, locked.fulfillmentStatus) !== 'reserved') return 0;
+          if (locked.paymentStatus && !UNPAID_PAYMENT_STATUSES.includes(locked.paymentStatus)) return 0;
+
+          return syncOrderStock(tx, {
+            tenantId: tenant,
+            orderId: order.id,
+            orderNumber: order.orderNumber,
+            event: 'Reservation Expired',
+          }, 'released', 'reserved');
+        });
+
+        if (released > 0) {
+          summary.released++;
+          console.log(`⌛ Released stock reserved by unpaid order ${order.orderNumber} after ${hours}h`);
+        }
+      } catch (error) {
+        summary.failed++;
+        summary.errors.push(`Order ${order.orderNumber}: ${error instanceof Error ? error.message : String(error)}`);
+        console.error(`❌ Failed to release reservation for order ${order.id}:`, error);
+      }
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Stock that open order lines hold on an inventory row
+ */
+async function getHeldStock(
+  executor: DbExecutor,
+  tenantId: string,
+  inventory: ProductInventoryRow,
+  defaultLocationId: string,
+  isWeightBased: boolean
+): Promise<number> {
+  // Lines without a location were picked from the default location
+  const locationCondition = !inventory.locationId || inventory.locationId === defaultLocationId
+    ? or(eq(orderItems.locationId, defaultLocationId), isNull(orderItems.locationId))
+    : eq(orderItems.locationId, inventory.locationId);
+
+  const lines = await executor
+    .select({ quantity: orderItems.quantity, weightQuantity: orderItems.weightQuantity })
+    .from(orderItems)
+    .innerJoin(orders, eq(orderItems.orderId, orders.id))
+    .where(and(
+      eq(orders.tenantId, tenantId),
+      eq(orderItems.stockStatus, 'reserved'),
+      eq(orderItems.productId, inventory.productId!),
+      inventory.variantId ? eq(orderItems.variantId, inventory.variantId) : isNull(orderItems.variantId),
+      locationCondition
+    ));
+
+  // Bundle components hold stock on their own rows
+  const components = await executor
+    .select({ quantity: orderItemComponents.quantity, weightQuantity: orderItemComponents.weightQuantity })
+    .from(orderItemComponents)
+    .where(and(
+      eq(orderItemComponents.tenantId, tenantId),
+      eq(orderItemComponents.stockStatus, 'reserved'),
+      eq(orderItemComponents.productId, inventory.productId!),
+      inventory.variantId ? eq(orderItemComponents.variantId, inventory.variantId) : isNull(orderItemComponents.variantId),
+      !inventory.locationId || inventory.locationId === defaultLocationId
+        ? or(eq(orderItemComponents.locationId, defaultLocationId), isNull(orderItemComponents.locationId))
+        : eq(orderItemComponents.locationId, inventory.locationId)
+    ));
+
+  return round2([...lines, ...components].reduce((sum, line) => sum + lineAmount(line, isWeightBased), 0));
+}
+
+/**
+ * Compare inventory rows with their stock movements and open reservations
+ *
+ * On-hand stock should match the newest movement of the row, reserved stock
+ * the order lines still holding it, and available stock the difference. With
+ * `fix`, reserved and available are rewritten for rows whose on-hand stock
+ * agrees with the movements; on-hand drift is only reported, since settling
+ * it needs a stock count.
+ *
+ * @param tenantId Limit to one tenant; all tenants when omitted (cron)
+ * @param fix Correct reserved/available stock where possible
+ */
+export async function checkStockConsistency(tenantId?: string, fix = false): Promise<StockConsistencyReport> {
+  const tenantIds = tenantId
+    ? [tenantId]
+    : (await db.selectDistinct({ tenantId: productInventory.tenantId }).from(productInventory)).map(row => row.tenantId);
+
+  const report: StockConsistencyReport = { checked: 0, drifted: [], fixed: 0 };
+
+  for (const tenant of tenantIds) {
+    const defaultLocation = await getDefaultLocation(tenant);
+    const rows = await db
+      .select({
+        inventory: productInventory,
+        productName: products.name,
+        variantTitle: productVariants.title,
+        stockManagementType: products.stockManagementType,
+      })
+      .from(productInventory)
+      .leftJoin(products, eq(productInventory.productId, products.id))
+      .leftJoin(productVariants, eq(productInventory.variantId, productVariants.id))
+      .where(eq(productInventory.tenantId, tenant));
+
+    for (const { inventory, productName, variantTitle, stockManagementType } of rows) {
+      report.checked++;
+      if (!inventory.productId) continue;
+
+      const isWeightBased = isWeightBasedProduct(stockManagementType || 'quantity');
+      const levels = stockLevels(inventory, isWeightBased);
+
+      const [lastMovement] = await db
+        .select({ newQuantity: stockMovements.newQuantity, newWeightQuantity: stockMovements.newWeightQuantity })
+        .from(stockMovements)
+        .where(and(eq(stockMovements.tenantId, tenant), eq(stockMovements.inventoryId, inventory.id)))
+        .orderBy(desc(stockMovements.createdAt))
+        .limit(1);
+
+      const ledgerOnHand = lastMovement
+        ? (isWeightBased ? parseFloat(lastMovement.newWeightQuantity || '0') : lastMovement.newQuantity)
+        : null;
+      const expectedReserved = await getHeldStock(db, tenant, inventory, defaultLocation.id, isWeightBased);
+      const expectedAvailable = round2((ledgerOnHand ?? levels.onHand) - expectedReserved);
+      const onHandDrift = ledgerOnHand !== null && !sameAmount(ledgerOnHand, levels.onHand);
+
+      if (!onHandDrift && sameAmount(levels.reserved, expectedReserved) && sameAmount(levels.available, expectedAvailable)) {
+        continue;
+      }
+
+      const drift: StockDrift = {
+        inventoryId: inventory.id,
+        productId: inventory.productId,
+        variantId: inventory.variantId,
+        locationId: inventory.locationId,
+        productName,
+        variantTitle,
+        isWeightBased,
+        onHand: levels.onHand,
+        ledgerOnHand,
+        reserved: levels.reserved,
+        expectedReserved,
+        available: levels.available,
+        expectedAvailable,
+        fixed: false,
+      };
+
+      if (fix && !onHandDrift) {
+        // Reservations only change while their row is locked, so recount under the lock
+        drift.fixed = await db.transaction(async (tx) => {
+          const locked = (await lockInventoryRows(tx, tenant, [inventory.id])).get(inventory.id);
+          if (!locked) return false;
+
+          const onHand = stockLevels(locked, isWeightBased).onHand;
+          const reserved = await getHeldStock(tx, tenant, locked, defaultLocation.id, isWeightBased);
+          await tx
+            .update(productInventory)
+            .set(isWeightBased
+              ? { reservedWeight: reserved.toFixed(2), availableWeight: (onHand - reserved).toFixed(2), updatedAt: new Date() }
+              : { reservedQuantity: reserved, availableQuantity: onHand - reserved, updatedAt: new Date() })
+            .where(eq(productInventory.id, locked.id));
+          return true;
+        });
+        if (drift.fixed) report.fixed++;
+      }
+
+      report.drifted.push(drift);
+    }
+  }
+
+  if (report.drifted.length > 0) {
+    console.log(`📊 Stock drift on ${report.drifted.length} of ${report.checked} inventory row(s)${fix ? `, ${report.fixed} fixed` : ''}`);
+  }
+  return report;
+}
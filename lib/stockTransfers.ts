@@ -0,0 +1,433 @@
+/**
+ * Stock Transfers
+ *
+ * Documents that move stock between two inventory locations of a tenant.
+ * A transfer is drafted with its lines and then either completed or
+ * cancelled:
+ *
+ *   draft → completed
+ *       ↘ cancelled
+ *
+ * Completing a transfer writes a paired "out" movement at the source and an
+ * "in" movement at the destination for every line, both carrying the
+ * transfer id and the transfer number as reference. Lots move FEFO along
+ * with the stock.
+ */
+
+import { db } from '@/lib/db';
+import { inventoryLocations, productInventory, products, productVariants, stockMovements, stockTransferItems, stockTransfers } from '@/lib/schema';
+import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/mysql-core';
+import { v4 as uuidv4 } from 'uuid';
+import { isWeightBasedProduct } from '@/utils/weightUtils';
+import {
+  findInventoryAtLocation,
+  findOrCreateInventoryAtLocation,
+  getAvailableStock,
+  getLocation,
+  type InventoryLocationRow,
+} from '@/lib/inventoryLocations';
+import { transferLots } from '@/lib/inventoryLots';
+
+export type StockTransferStatus = 'draft' | 'completed' | 'cancelled';
+
+const TRANSFER_NUMBER_PREFIX = 'TRF-';
+const TRANSFER_NUMBER_DIGITS = 6;
+
+type StockTransferRow = typeof stockTransfers.$inferSelect;
+type StockTransferItemRow = typeof stockTransferItems.$inferSelect;
+
+export interface StockTransferItemInput {
+  productId: string;
+  variantId?: string | null;
+  quantity?: number;
+  weightQuantity?: number; // grams, for weight-based products
+}
+
+export interface CreateStockTransferInput {
+  fromLocationId: string;
+  toLocationId: string;
+  notes?: string;
+  items: StockTransferItemInput[];
+  createdBy?: string;
+  complete?: boolean; // Complete immediately after drafting
+}
+
+export interface StockTransferResult {
+  success: boolean;
+  error?: string;
+  transfer?: StockTransferRow;
+  items?: StockTransferItemRow[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+async function generateTransferNumber(tenantId: string): Promise<string> {
+  const [row] = await db
+    .select({
+      maxNumber: sql<string | null>`MAX(CAST(SUBSTRING(${stockTransfers.transferNumber}, ${TRANSFER_NUMBER_PREFIX.length + 1}) AS UNSIGNED))`,
+    })
+    .from(stockTransfers)
+    .where(and(
+      eq(stockTransfers.tenantId, tenantId),
+      sql`${stockTransfers.transferNumber} REGEXP ${`^${TRANSFER_NUMBER_PREFIX}[0-9]{${TRANSFER_NUMBER_DIGITS},9}$`}`
+    ));
+
+  const next = parseInt(row?.maxNumber || '0') + 1;
+  return `${TRANSFER_NUMBER_PREFIX}${String(next).padStart(TRANSFER_NUMBER_DIGITS, '0')}`;
+}
+
+async function getTransferRow(tenantId: string, transferId: string): Promise<StockTransferRow | null> {
+  const [transfer] = await db
+    .select()
+    .from(stockTransfers)
+    .where(and(eq(stockTransfers.id, transferId), eq(stockTransfers.tenantId, tenantId)))
+    .limit(1);
+
+  return transfer || null;
+}
+
+async function getStockManagementTypes(tenantId: string, productIds: string[]): Promise<Map<string, string>> {
+  if (productIds.length === 0) return new Map();
+
+  const rows = await db
+    .select({ id: products.id, stockManagementType: products.stockManagementType })
+    .from(products)
+    .where(and(eq(products.tenantId, tenantId), inArray(products.id, productIds)));
+
+  return new Map(rows.map(row => [row.id, row.stockManagementType || 'quantity']));
+}
+
+/**
+ * Draft a transfer between two active locations
+ */
+export async function createStockTransfer(tenantId: string, input: CreateStockTransferInput): Promise<StockTransferResult> {
+  if (!input.fromLocationId || !input.toLocationId) {
+    return { success: false, error: 'Source and destination locations are required' };
+  }
+  if (input.fromLocationId === input.toLocationId) {
+    return { success: false, error: 'Source and destination must be different locations' };
+  }
+  if (!Array.isArray(input.items) || input.items.length === 0) {
+    return { success: false, error: 'Add at least one item to transfer' };
+  }
+
+  const [fromLocation, toLocation] = await Promise.all([
+    getLocation(tenantId, input.fromLocationId),
+    getLocation(tenantId, input.toLocationId),
+  ]);
+  if (!fromLocation?.isActive || !toLocation?.isActive) {
+    return { success: false, error: 'Source or destination location not found' };
+  }
+
+  const types = await getStockManagementTypes(tenantId, [...new Set(input.items.map(item => item.productId))]);
+
+  // Merge repeated product/variant lines into one
+  const lines = new Map<string, StockTransferItemInput & { isWeightBased: boolean }>();
+  for (const item of input.items) {
+    const type = types.get(item.productId);
+    if (!type) {
+      return { success: false, error: 'One or more products were not found' };
+    }
+
+    const isWeightBased = isWeightBasedProduct(type);
+    const quantity = isWeightBased ? 0 : Number(item.quantity);
+    const weightQuantity = isWeightBased ? round2(Number(item.weightQuantity)) : 0;
+
+    if (isWeightBased ? !(weightQuantity > 0) : !(Number.isInteger(quantity) && quantity > 0)) {
+      return {
+        success: false,
+        error: isWeightBased
+          ? 'Transfer weights must be greater than zero'
+          : 'Transfer quantities must be whole numbers greater than zero',
+      };
+    }
+
+    const key = `${item.productId}:${item.variantId || ''}`;
+    const existing = lines.get(key);
+    lines.set(key, {
+      productId: item.productId,
+      variantId: item.variantId || null,
+      quantity: (existing?.quantity || 0) + quantity,
+      weightQuantity: round2((existing?.weightQuantity || 0) + weightQuantity),
+      isWeightBased,
+    });
+  }
+
+  const variantIds = [...lines.values()].map(line => line.variantId).filter((id): id is string => !!id);
+  if (variantIds.length > 0) {
+    const variants = await db
+      .select({ id: productVariants.id, productId: productVariants.productId })
+      .from(productVariants)
+      .where(and(eq(productVariants.tenantId, tenantId), inArray(productVariants.id, variantIds)));
+    const variantProduct = new Map(variants.map(variant => [variant.id, variant.productId]));
+    if ([...lines.values()].some(line => line.variantId && variantProduct.get(line.variantId) !== line.productId)) {
+      return { success: false, error: 'One or more variants were not found' };
+    }
+  }
+
+  const transferId = uuidv4();
+  const now = new Date();
+
+  // Retry on a duplicate number from a concurrent transfer for the same tenant
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await db.insert(stockTransfers).values({
+        id: transferId,
+        tenantId,
+        transferNumber: await generateTransferNumber(tenantId),
+        fromLocationId: fromLocation.id,
+        toLocationId: toLocation.id,
+        status: 'draft',
+        notes: input.notes || null,
+        createdBy: input.createdBy || null,
+        createdAt: now,
+        updatedAt: now,
+      });
+      break;
+    } catch (error: any) {
+      if (error?.code !== 'ER_DUP_ENTRY' || attempt >= 2) throw error;
+    }
+  }
+
+  await db.insert(stockTransferItems).values([...lines.values()].map(line => ({
+    id: uuidv4(),
+    tenantId,
+    transferId,
+    productId: line.productId,
+    variantId: line.variantId || null,
+    quantity: line.quantity || 0,
+    weightQuantity: (line.weightQuantity || 0).toFixed(2),
+    createdAt: now,
+  })));
+
+  if (input.complete) {
+    const completed = await completeStockTransfer(tenantId, transferId, input.createdBy);
+    return completed.success
+      ? completed
+      : { ...completed, error: `${completed.error}. The transfer was saved as a draft.` };
+  }
+
+  const transfer = (await getTransferRow(tenantId, transferId))!;
+  console.log(`🚚 Drafted stock transfer ${transfer.transferNumber} (${fromLocation.code} → ${toLocation.code})`);
+  return { success: true, transfer };
+}
+
+/**
+ * Complete a draft transfer, moving stock from the source to the destination
+ *
+ * Every line is checked against the source's available stock before any
+ * stock is moved, so a transfer either moves all of its lines or none.
+ */
+export async function completeStockTransfer(tenantId: string, transferId: string, userId?: string): Promise<StockTransferResult> {
+  const transfer = await getTransferRow(tenantId, transferId);
+  if (!transfer) {
+    return { success: false, error: 'Transfer not found' };
+  }
+  if (transfer.status !== 'draft') {
+    return { success: false, error: `A ${transfer.status} transfer cannot be completed` };
+  }
+
+  const [fromLocation, toLocation] = await Promise.all([
+    getLocation(tenantId, transfer.fromLocationId),
+    getLocation(tenantId, transfer.toLocationId),
+  ]);
+  if (!fromLocation?.isActive || !toLocation?.isActive) {
+    return { success: false, error: 'Source or destination location is no longer active' };
+  }
+
+  const items = await db
+    .select()
+    .from(stockTransferItems)
+    .where(and(eq(stockTransferItems.transferId, transfer.id), eq(stockTransferItems.tenantId, tenantId)));
+  const types = await getStockManagementTypes(tenantId, [...new Set(items.map(item => item.productId))]);
+
+  const names = await db
+    .select({ id: products.id, name: products.name })
+    .from(products)
+    .where(and(eq(products.tenantId, tenantId), inArray(products.id, items.map(item => item.productId))));
+  const nameById = new Map(names.map(row => [row.id, row.name]));
+
+  // Validate every line first
+  const plan: { item: StockTransferItemRow; isWeightBased: boolean; amount: number }[] = [];
+  for (const item of items) {
+    const isWeightBased = isWeightBasedProduct(types.get(item.productId) || 'quantity');
+    const amount = isWeightBased ? parseFloat(item.weightQuantity || '0') : item.quantity;
+    const source = await findInventoryAtLocation(tenantId, item, fromLocation);
+    const available = source ? getAvailableStock(source, isWeightBased) : 0;
+
+    if (available < amount) {
+      return {
+        success: false,
+        error: `Insufficient stock for ${nameById.get(item.productId) || 'product'} at ${fromLocation.name}. Available: ${available}${isWeightBased ? 'g' : ''}, Requested: ${amount}${isWeightBased ? 'g' : ''}`,
+      };
+    }
+    plan.push({ item, isWeightBased, amount });
+  }
+
+  const now = new Date();
+
+  for (const { item, isWeightBased, amount } of plan) {
+    const source = await moveStock(tenantId, transfer, item, isWeightBased, amount, fromLocation, toLocation, 'out', userId, now);
+    const destination = await moveStock(tenantId, transfer, item, isWeightBased, amount, toLocation, fromLocation, 'in', userId, now);
+    // Lots travel with the stock so expiry tracking carries over
+    await transferLots(tenantId, source, destination, amount, isWeightBased, transfer.transferNumber);
+  }
+
+  await db
+    .update(stockTransfers)
+    .set({ status: 'completed', completedBy: userId || null, completedAt: now, updatedAt: now })
+    .where(eq(stockTransfers.id, transfer.id));
+
+  console.log(`✅ Completed stock transfer ${transfer.transferNumber} (${plan.length} line(s))`);
+  return { success: true, transfer: (await getTransferRow(tenantId, transfer.id))!, items };
+}
+
+/**
+ * Apply one side of a transfer line and record its movement
+ *
+ * @returns The inventory row the stock moved out of or into
+ */
+async function moveStock(
+  tenantId: string,
+  transfer: StockTransferRow,
+  item: StockTransferItemRow,
+  isWeightBased: boolean,
+  amount: number,
+  location: InventoryLocationRow,
+  counterpart: InventoryLocationRow,
+  direction: 'in' | 'out',
+  userId: string | undefined,
+  now: Date
+) {
+  const inventory = await findOrCreateInventoryAtLocation(tenantId, item, location);
+  const sign = direction === 'in' ? 1 : -1;
+
+  const previousQuantity = inventory.quantity;
+  const previousWeight = parseFloat(inventory.weightQuantity || '0');
+  const newQuantity = isWeightBased ? previousQuantity : previousQuantity + sign * amount;
+  const newWeight = isWeightBased ? round2(previousWeight + sign * amount) : previousWeight;
+
+  await db
+    .update(productInventory)
+    .set(isWeightBased
+      ? {
+          weightQuantity: newWeight.toFixed(2),
+          availableWeight: (newWeight - parseFloat(inventory.reservedWeight || '0')).toFixed(2),
+          updatedAt: now,
+        }
+      : {
+          quantity: newQuantity,
+          availableQuantity: newQuantity - (inventory.reservedQuantity || 0),
+          updatedAt: now,
+        })
+    .where(eq(productInventory.id, inventory.id));
+
+  await db.insert(stockMovements).values({
+    id: uuidv4(),
+    tenantId,
+    inventoryId: inventory.id,
+    productId: item.productId,
+    variantId: item.variantId || null,
+    movementType: direction,
+    quantity: isWeightBased ? 0 : amount,
+    previousQuantity,
+    newQuantity,
+    weightQuantity: isWeightBased ? amount.toFixed(2) : '0.00',
+    previousWeightQuantity: previousWeight.toFixed(2),
+    newWeightQuantity: newWeight.toFixed(2),
+    reason: direction === 'out' ? 'Transfer Out' : 'Transfer In',
+    locationId: location.id,
+    location: location.code,
+    transferId: transfer.id,
+    reference: transfer.transferNumber,
+    notes: direction === 'out' ? `Transferred to ${counterpart.code}` : `Transferred from ${counterpart.code}`,
+    processedBy: userId || null,
+    createdAt: now,
+  });
+
+  return inventory;
+}
+
+/**
+ * Cancel a draft transfer; completed transfers are reversed with a new transfer instead
+ */
+export async function cancelStockTransfer(tenantId: string, transferId: string, userId?: string): Promise<StockTransferResult> {
+  const transfer = await getTransferRow(tenantId, transferId);
+  if (!transfer) {
+    return { success: false, error: 'Transfer not found' };
+  }
+  if (transfer.status !== 'draft') {
+    return { success: false, error: `A ${transfer.status} transfer cannot be cancelled` };
+  }
+
+  const now = new Date();
+  await db
+    .update(stockTransfers)
+    .set({ status: 'cancelled', cancelledBy: userId || null, cancelledAt: now, updatedAt: now })
+    .where(eq(stockTransfers.id, transfer.id));
+
+  return { success: true, transfer: (await getTransferRow(tenantId, transfer.id))! };
+}
+
+/**
+ * List a tenant's transfers with location names and line counts
+ */
+export async function listStockTransfers(tenantId: string, status?: string) {
+  const fromLocation = alias(inventoryLocations, 'from_location');
+  const toLocation = alias(inventoryLocations, 'to_location');
+
+  const conditions = [eq(stockTransfers.tenantId, tenantId)];
+  if (status) {
+    conditions.push(eq(stockTransfers.status, status));
+  }
+
+  return db
+    .select({
+      transfer: stockTransfers,
+      fromLocationName: fromLocation.name,
+      toLocationName: toLocation.name,
+      itemCount: sql<number>`(SELECT COUNT(*) FROM ${stockTransferItems} WHERE ${stockTransferItems.transferId} = ${stockTransfers.id})`,
+    })
+    .from(stockTransfers)
+    .leftJoin(fromLocation, eq(stockTransfers.fromLocationId, fromLocation.id))
+    .leftJoin(toLocation, eq(stockTransfers.toLocationId, toLocation.id))
+    .where(and(...conditions))
+    .orderBy(desc(stockTransfers.createdAt));
+}
+
+/**
+ * A transfer with its lines and both locations
+ */
+export async function getStockTransferDetails(tenantId: string, transferId: string) {
+  const transfer = await getTransferRow(tenantId, transferId);
+  if (!transfer) return null;
+
+  const [fromLocation, toLocation, items] = await Promise.all([
+    getLocation(tenantId, transfer.fromLocationId),
+    getLocation(tenantId, transfer.toLocationId),
+    db
+      .select({
+        item: stockTransferItems,
+        productName: products.name,
+        stockManagementType: products.stockManagementType,
+        variantTitle: productVariants.title,
+      })
+      .from(stockTransferItems)
+      .leftJoin(products, eq(stockTransferItems.productId, products.id))
+      .leftJoin(productVariants, eq(stockTransferItems.variantId, productVariants.id))
+      .where(and(eq(stockTransferItems.transferId, transfer.id), eq(stockTransferItems.tenantId, tenantId))),
+  ]);
+
+  return {
+    transfer,
+    fromLocation,
+    toLocation,
+    items: items.map(row => ({
+      ...row.item,
+      productName: row.productName || 'Unknown Product',
+      variantTitle: row.variantTitle,
+      stockManagementType: row.stockManagementType || 'quantity',
+    })),
+  };
+}
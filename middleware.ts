@@ -14,7 +14,8 @@ export async function middleware(request: NextRequest) {
     pathname.startsWith('/api/auth') ||
     pathname.startsWith('/api/test') ||
     pathname.startsWith('/api/debug') ||
-    pathname.startsWith('/api/loyalty') ||
+    pathname.startsWith('/api/cron') || // Scheduled jobs authenticate with CRON_SECRET
+    pathname.startsWith('/api/fbr/mock') || // Offline FBR stand-in, disabled in production
     pathname.startsWith('/api/tenants/lookup') || // Skip tenant lookup API to avoid circular calls
     pathname.startsWith('/_next') ||
     pathname.startsWith('/favicon.ico') ||
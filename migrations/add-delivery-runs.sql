@@ -0,0 +1,52 @@
+-- Delivery runs
+-- A run batches the orders of one date and time window for one driver, with
+-- the stops in an optimised driving order from the driver's base and a
+-- planned arrival per stop. See lib/deliveryRuns.ts.
+
+-- 1. Drop-off point of each order, used to plan the route
+ALTER TABLE `orders`
+  ADD COLUMN `delivery_latitude` decimal(10,8) NULL AFTER `delivery_status`,
+  ADD COLUMN `delivery_longitude` decimal(11,8) NULL AFTER `delivery_latitude`;
+
+-- 2. Runs
+CREATE TABLE IF NOT EXISTS `delivery_runs` (
+  `id` varchar(255) NOT NULL,
+  `tenant_id` varchar(255) NOT NULL,
+  `run_number` varchar(100) NOT NULL,
+  `driver_id` varchar(255) NOT NULL,
+  `run_date` varchar(10) NOT NULL,
+  `window_start` varchar(5) NULL,
+  `window_end` varchar(5) NULL,
+  `departure_time` varchar(5) NOT NULL,
+  `distance_matrix` varchar(30) NOT NULL DEFAULT 'straight_line',
+  `average_speed_kmh` decimal(6,2) NOT NULL DEFAULT '30.00',
+  `service_minutes` int NOT NULL DEFAULT 5,
+  `total_distance` decimal(8,2) NULL,
+  `total_duration` int NULL,
+  `status` varchar(20) NOT NULL DEFAULT 'planned',
+  `notes` text NULL,
+  `created_by` varchar(255) NULL,
+  `created_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  KEY `idx_delivery_runs_tenant_date` (`tenant_id`, `run_date`),
+  UNIQUE KEY `delivery_runs_tenant_run_number_unique` (`tenant_id`, `run_number`)
+);
+
+-- 3. Stops in driving order
+CREATE TABLE IF NOT EXISTS `delivery_run_stops` (
+  `id` varchar(255) NOT NULL,
+  `tenant_id` varchar(255) NOT NULL,
+  `run_id` varchar(255) NOT NULL,
+  `order_id` varchar(255) NOT NULL,
+  `assignment_id` varchar(255) NULL,
+  `sequence` int NOT NULL,
+  `latitude` decimal(10,8) NULL,
+  `longitude` decimal(11,8) NULL,
+  `distance_from_previous` decimal(8,2) NULL,
+  `planned_arrival` datetime NULL,
+  `created_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  KEY `idx_delivery_run_stops_run` (`run_id`),
+  KEY `idx_delivery_run_stops_tenant_order` (`tenant_id`, `order_id`)
+);
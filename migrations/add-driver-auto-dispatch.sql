@@ -0,0 +1,28 @@
+-- Driver auto-dispatch
+-- Confirmed orders are assigned to the best placed driver by distance,
+-- delivery radius and open deliveries; orders no driver qualifies for wait on
+-- the dispatch queue for manual assignment. Enabled per tenant with the
+-- 'driver_auto_dispatch_enabled' setting. See lib/driverDispatch.ts.
+
+-- 1. How many open deliveries a driver can hold
+ALTER TABLE `drivers`
+  ADD COLUMN `max_active_orders` int DEFAULT 5 AFTER `max_delivery_radius`;
+
+-- 2. Orders waiting for manual assignment
+CREATE TABLE IF NOT EXISTS `driver_dispatch_queue` (
+  `id` varchar(255) NOT NULL,
+  `tenant_id` varchar(255) NOT NULL,
+  `order_id` varchar(255) NOT NULL,
+  `priority` varchar(20) DEFAULT 'normal',
+  `reason` text NULL,
+  `attempts` int NOT NULL DEFAULT 1,
+  `status` varchar(20) NOT NULL DEFAULT 'pending',
+  `last_attempt_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  `resolved_at` datetime NULL,
+  `resolved_by` varchar(255) NULL,
+  `created_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  KEY `idx_driver_dispatch_queue_tenant_status` (`tenant_id`, `status`),
+  UNIQUE KEY `driver_dispatch_queue_tenant_order_unique` (`tenant_id`, `order_id`)
+);
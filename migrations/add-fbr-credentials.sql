@@ -0,0 +1,40 @@
+-- Move FBR API tokens out of the plain-text settings table
+-- Tokens are encrypted with AES-256-GCM using FBR_TOKEN_ENCRYPTION_KEY (see lib/fbr/credentials.ts).
+-- Existing fbr_sandbox_token / fbr_production_token settings are imported and blanked
+-- automatically the first time a tenant's token is read with the key configured.
+
+-- 1. Credentials table (inactive rows are the rotation history)
+CREATE TABLE IF NOT EXISTS `fbr_credentials` (
+  `id` varchar(255) NOT NULL PRIMARY KEY,
+  `tenant_id` varchar(255) NOT NULL,
+  `environment` varchar(20) NOT NULL,
+  `encrypted_token` text NOT NULL,
+  `token_hint` varchar(10) NULL,
+  `expires_at` datetime NULL,
+  `is_active` boolean DEFAULT true,
+  `created_by` varchar(255) NULL,
+  `created_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  `revoked_at` datetime NULL,
+  `revoked_by` varchar(255) NULL,
+
+  INDEX `idx_fbr_credentials_tenant_env` (`tenant_id`, `environment`, `is_active`)
+) COMMENT = 'Encrypted FBR API tokens per tenant and environment';
+
+-- 2. Audit log of token changes and production posts
+CREATE TABLE IF NOT EXISTS `fbr_credential_audit_logs` (
+  `id` varchar(255) NOT NULL PRIMARY KEY,
+  `tenant_id` varchar(255) NOT NULL,
+  `credential_id` varchar(255) NULL,
+  `environment` varchar(20) NOT NULL,
+  `action` varchar(30) NOT NULL,
+  `order_id` varchar(255) NULL,
+  `note_id` varchar(255) NULL,
+  `invoice_number` varchar(255) NULL,
+  `success` boolean NULL,
+  `user_id` varchar(255) NULL,
+  `details` json NULL,
+  `created_at` datetime DEFAULT CURRENT_TIMESTAMP,
+
+  INDEX `idx_fbr_credential_audit_tenant` (`tenant_id`, `created_at`),
+  INDEX `idx_fbr_credential_audit_credential` (`credential_id`)
+) COMMENT = 'FBR token rotations and production invoice posts';
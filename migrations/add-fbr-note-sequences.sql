@@ -0,0 +1,18 @@
+-- Number FBR debit/credit notes per tenant and allow one note per return or refund
+-- New notes are numbered DN-000001 / CN-000001 per tenant (see lib/fbr/notes.ts).
+-- `source_key` is 'return:<id>' for notes of a return and 'refund:<id>' otherwise;
+-- a rejected note keeps NULL so the note that replaces it can take the key.
+
+ALTER TABLE `fbr_notes` ADD COLUMN `source_key` varchar(300) NULL AFTER `refund_id`;
+
+UPDATE `fbr_notes`
+SET `source_key` = IF(`return_id` IS NOT NULL, CONCAT('return:', `return_id`), CONCAT('refund:', `refund_id`))
+WHERE `fbr_submission_status` <> 'rejected';
+
+-- The unique index below fails if a source already has two live notes. Find them with:
+--   SELECT tenant_id, source_key, COUNT(*) FROM fbr_notes
+--   WHERE source_key IS NOT NULL GROUP BY tenant_id, source_key HAVING COUNT(*) > 1;
+
+ALTER TABLE `fbr_notes` DROP INDEX `note_number`;
+ALTER TABLE `fbr_notes` ADD UNIQUE INDEX `fbr_notes_tenant_note_number_unique` (`tenant_id`, `note_number`);
+ALTER TABLE `fbr_notes` ADD UNIQUE INDEX `fbr_notes_tenant_source_unique` (`tenant_id`, `source_key`);
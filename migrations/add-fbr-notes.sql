@@ -0,0 +1,41 @@
+-- Add FBR debit/credit notes issued against original invoices
+-- Run this migration to report completed returns/refunds to FBR
+
+-- 1. Notes table
+CREATE TABLE IF NOT EXISTS `fbr_notes` (
+  `id` varchar(255) NOT NULL PRIMARY KEY,
+  `tenant_id` varchar(255) NOT NULL,
+  `note_number` varchar(100) NOT NULL UNIQUE,
+  `note_type` varchar(20) NOT NULL,
+  `order_id` varchar(255) NOT NULL,
+  `return_id` varchar(255) NULL,
+  `refund_id` varchar(255) NULL,
+  `invoice_ref_no` varchar(255) NOT NULL,
+  `invoice_date` datetime NOT NULL,
+  `reason` varchar(255) NULL,
+  `items` json NOT NULL,
+  `subtotal` decimal(10,2) NOT NULL,
+  `tax_amount` decimal(10,2) DEFAULT 0.00,
+  `total_amount` decimal(10,2) NOT NULL,
+
+  -- FBR submission
+  `fbr_invoice_number` varchar(255) NULL,
+  `fbr_submission_status` varchar(20) NULL,
+  `fbr_environment` varchar(20) DEFAULT 'sandbox',
+  `validation_response` text,
+
+  `created_by` varchar(255) NULL,
+  `created_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` datetime DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (`tenant_id`) REFERENCES `tenants`(`id`) ON DELETE CASCADE,
+
+  INDEX `idx_fbr_notes_tenant_order` (`tenant_id`, `order_id`),
+  INDEX `idx_fbr_notes_return` (`return_id`),
+  INDEX `idx_fbr_notes_refund` (`refund_id`)
+);
+
+ALTER TABLE `fbr_notes` COMMENT = 'FBR debit/credit notes linked to the original invoice via invoice_ref_no';
+
+-- 2. Let the submission queue carry notes as well as orders
+ALTER TABLE `fbr_submissions` ADD COLUMN `note_id` varchar(255) NULL AFTER `order_id`;
@@ -0,0 +1,16 @@
+-- Add FBR reference data cache (HS codes, UOMs, provinces, sale type rates, SRO schedules)
+-- Run this migration, then sync with POST /api/fbr/reference
+
+CREATE TABLE IF NOT EXISTS `fbr_reference_data` (
+  `id` varchar(255) NOT NULL PRIMARY KEY,
+  `type` varchar(50) NOT NULL,
+  `code` varchar(100) NOT NULL,
+  `description` text,
+  `parent_code` varchar(100) NULL,
+  `effective_date` varchar(10) NULL,
+  `data` json NULL,
+  `synced_at` datetime DEFAULT CURRENT_TIMESTAMP,
+
+  INDEX `idx_fbr_reference_type_code` (`type`, `code`),
+  INDEX `idx_fbr_reference_type_parent` (`type`, `parent_code`, `effective_date`)
+) COMMENT = 'Cached FBR reference data shared across tenants';
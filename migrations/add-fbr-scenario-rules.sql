@@ -0,0 +1,25 @@
+-- Add versioned FBR scenario rules (replaces the compiled-in saleTypes constants)
+-- Rows with tenant_id NULL are the global defaults; tenant rows override them.
+-- Scenarios without any row keep using the built-in defaults in lib/fbr/saleTypes.ts
+
+CREATE TABLE IF NOT EXISTS `fbr_scenario_rules` (
+  `id` varchar(255) NOT NULL PRIMARY KEY,
+  `tenant_id` varchar(255) NULL,
+  `scenario_id` varchar(10) NOT NULL,
+  `effective_from` varchar(10) NOT NULL,
+  `sale_type` varchar(255) NOT NULL,
+  `default_rate` varchar(20) NOT NULL,
+  `requires_withholding_tax` boolean DEFAULT false,
+  `exempt_or_zero_rated` boolean DEFAULT false,
+  `requires_retail_price` boolean DEFAULT false,
+  `requires_fed_payable` boolean DEFAULT false,
+  `is_retail` boolean DEFAULT false,
+  `is_services` boolean DEFAULT false,
+  `sro_schedule_no` varchar(255) NULL,
+  `notes` text,
+  `created_by` varchar(255) NULL,
+  `created_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` datetime DEFAULT CURRENT_TIMESTAMP,
+
+  INDEX `idx_fbr_scenario_rules_tenant_scenario` (`tenant_id`, `scenario_id`, `effective_from`)
+) COMMENT = 'Versioned FBR scenario definitions per tenant, with global defaults';
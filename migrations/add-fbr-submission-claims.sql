@@ -0,0 +1,5 @@
+-- Record when a worker claimed an FBR submission
+-- A submission left in 'validating' by a worker that died mid-attempt is
+-- re-queued once its claim is older than the claim timeout (see lib/fbr/queue.ts)
+
+ALTER TABLE `fbr_submissions` ADD COLUMN `claimed_at` datetime NULL AFTER `last_error`;
@@ -0,0 +1,6 @@
+-- Mark FBR submissions while their invoice is being posted
+-- A worker that dies between posting and recording FBR's answer leaves
+-- post_started_at set; the reclaimed entry is then marked 'failed' for someone
+-- to check FBR instead of being posted twice (see lib/fbr/queue.ts)
+
+ALTER TABLE `fbr_submissions` ADD COLUMN `post_started_at` datetime NULL AFTER `claimed_at`;
@@ -0,0 +1,43 @@
+-- Add FBR submission queue for durable validate/post attempts with retries
+-- Run this migration to enable the FBR submission worker and unsubmitted invoices screen
+
+-- 1. Track the FBR submission state directly on orders
+ALTER TABLE `orders` ADD COLUMN `fbr_submission_status` varchar(20) NULL AFTER `fbr_environment`;
+
+-- 2. Backfill: orders that already carry an FBR invoice number were posted
+UPDATE `orders` SET `fbr_submission_status` = 'posted'
+WHERE `invoice_number` IS NOT NULL AND `scenario_id` IS NOT NULL;
+
+-- 3. Queue table
+CREATE TABLE IF NOT EXISTS `fbr_submissions` (
+  `id` varchar(255) NOT NULL PRIMARY KEY,
+  `tenant_id` varchar(255) NOT NULL,
+  `order_id` varchar(255) NOT NULL,
+  `status` varchar(20) NOT NULL DEFAULT 'queued',
+  `is_production` boolean DEFAULT false,
+  `payload` json NOT NULL,
+
+  -- Retry tracking
+  `attempts` int DEFAULT 0,
+  `max_attempts` int DEFAULT 8,
+  `next_attempt_at` datetime NULL,
+  `last_attempt_at` datetime NULL,
+  `last_step` varchar(20) NULL,
+  `last_error` text,
+
+  -- FBR responses
+  `validation_response` json,
+  `post_response` json,
+  `invoice_number` varchar(255) NULL,
+  `posted_at` datetime NULL,
+
+  `created_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` datetime DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (`tenant_id`) REFERENCES `tenants`(`id`) ON DELETE CASCADE,
+
+  INDEX `idx_fbr_submissions_tenant_status` (`tenant_id`, `status`),
+  INDEX `idx_fbr_submissions_order` (`order_id`)
+);
+
+ALTER TABLE `fbr_submissions` COMMENT = 'Durable queue of FBR validate/post attempts with retry backoff';
@@ -0,0 +1,56 @@
+-- Goods receipts (GRNs) against purchase orders
+-- A receipt books full or partial amounts of purchase order lines into stock,
+-- with freight/duty/other costs spread over the lines as landed cost.
+-- See lib/goodsReceipts.ts.
+
+-- 1. Receipts
+CREATE TABLE IF NOT EXISTS `goods_receipts` (
+  `id` varchar(255) NOT NULL,
+  `tenant_id` varchar(255) NOT NULL,
+  `receipt_number` varchar(100) NOT NULL,
+  `order_id` varchar(255) NOT NULL,
+  `supplier_id` varchar(255) NULL,
+  `location_id` varchar(255) NOT NULL,
+  `supplier_reference` varchar(255) NULL,
+  `freight_cost` decimal(10,2) DEFAULT '0.00',
+  `duty_cost` decimal(10,2) DEFAULT '0.00',
+  `other_cost` decimal(10,2) DEFAULT '0.00',
+  `goods_value` decimal(12,2) DEFAULT '0.00',
+  `notes` text NULL,
+  `received_by` varchar(255) NULL,
+  `received_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  `created_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `goods_receipts_tenant_receipt_number_unique` (`tenant_id`, `receipt_number`),
+  INDEX `idx_goods_receipts_order` (`order_id`)
+);
+
+-- 2. Receipt lines
+CREATE TABLE IF NOT EXISTS `goods_receipt_items` (
+  `id` varchar(255) NOT NULL,
+  `tenant_id` varchar(255) NOT NULL,
+  `receipt_id` varchar(255) NOT NULL,
+  `order_item_id` varchar(255) NOT NULL,
+  `inventory_id` varchar(255) NOT NULL,
+  `product_id` varchar(255) NOT NULL,
+  `variant_id` varchar(255) NULL,
+  `quantity` int NOT NULL DEFAULT 0,
+  `weight_quantity` decimal(12,2) DEFAULT '0.00',
+  `unit_cost` decimal(10,2) NULL,
+  `landed_cost` decimal(10,2) DEFAULT '0.00',
+  `landed_unit_cost` decimal(10,2) NULL,
+  `lot_id` varchar(255) NULL,
+  `movement_id` varchar(255) NULL,
+  `created_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  INDEX `idx_goods_receipt_items_receipt` (`receipt_id`)
+);
+
+-- 3. Received amounts on purchase order lines
+ALTER TABLE `order_items`
+  ADD COLUMN `received_quantity` int NOT NULL DEFAULT 0 AFTER `weight_unit`,
+  ADD COLUMN `received_weight` decimal(12,2) DEFAULT '0.00' AFTER `received_quantity`;
+
+-- 4. Stock In movements of a receipt point back to it
+ALTER TABLE `stock_movements`
+  ADD COLUMN `receipt_id` varchar(255) NULL AFTER `count_id`;
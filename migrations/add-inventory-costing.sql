@@ -0,0 +1,13 @@
+-- Inventory costing
+-- Weighted-average cost per product/variant, and the average after each
+-- costed Stock In movement so stock can be valued as of any date.
+-- See lib/inventoryCosting.ts.
+
+ALTER TABLE `products`
+  ADD COLUMN `average_cost` decimal(12,4) NULL AFTER `cost_price`;
+
+ALTER TABLE `product_variants`
+  ADD COLUMN `average_cost` decimal(12,4) NULL AFTER `cost_price`;
+
+ALTER TABLE `stock_movements`
+  ADD COLUMN `average_cost` decimal(12,4) NULL AFTER `cost_price`;
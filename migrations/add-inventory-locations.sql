@@ -0,0 +1,87 @@
+-- Multi-warehouse inventory
+-- Adds per-tenant inventory locations, keys product_inventory rows by location,
+-- and introduces stock transfer documents used by lib/stockTransfers.ts.
+
+-- 1. Locations
+CREATE TABLE IF NOT EXISTS `inventory_locations` (
+  `id` varchar(255) NOT NULL,
+  `tenant_id` varchar(255) NOT NULL,
+  `name` varchar(255) NOT NULL,
+  `code` varchar(50) NOT NULL,
+  `type` varchar(20) DEFAULT 'warehouse',
+  `address` text NULL,
+  `is_default` boolean DEFAULT false,
+  `is_active` boolean DEFAULT true,
+  `created_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `inventory_locations_tenant_code_unique` (`tenant_id`, `code`)
+);
+
+-- 2. Location references on inventory, movements and orders
+ALTER TABLE `product_inventory`
+  ADD COLUMN `location_id` varchar(255) NULL AFTER `reorder_weight_quantity`;
+
+ALTER TABLE `product_inventory`
+  ADD INDEX `idx_product_inventory_stock_key` (`tenant_id`, `product_id`, `variant_id`, `location_id`);
+
+ALTER TABLE `stock_movements`
+  ADD COLUMN `location_id` varchar(255) NULL AFTER `reason`,
+  ADD COLUMN `transfer_id` varchar(255) NULL AFTER `location`;
+
+ALTER TABLE `orders`
+  ADD COLUMN `fulfillment_location_id` varchar(255) NULL AFTER `delivery_status`;
+
+ALTER TABLE `order_items`
+  ADD COLUMN `location_id` varchar(255) NULL AFTER `weight_unit`;
+
+-- 3. Transfers
+CREATE TABLE IF NOT EXISTS `stock_transfers` (
+  `id` varchar(255) NOT NULL,
+  `tenant_id` varchar(255) NOT NULL,
+  `transfer_number` varchar(100) NOT NULL,
+  `from_location_id` varchar(255) NOT NULL,
+  `to_location_id` varchar(255) NOT NULL,
+  `status` varchar(20) NOT NULL DEFAULT 'draft',
+  `notes` text NULL,
+  `created_by` varchar(255) NULL,
+  `completed_by` varchar(255) NULL,
+  `completed_at` datetime NULL,
+  `cancelled_by` varchar(255) NULL,
+  `cancelled_at` datetime NULL,
+  `created_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `stock_transfers_tenant_transfer_number_unique` (`tenant_id`, `transfer_number`)
+);
+
+CREATE TABLE IF NOT EXISTS `stock_transfer_items` (
+  `id` varchar(255) NOT NULL,
+  `tenant_id` varchar(255) NOT NULL,
+  `transfer_id` varchar(255) NOT NULL,
+  `product_id` varchar(255) NOT NULL,
+  `variant_id` varchar(255) NULL,
+  `quantity` int NOT NULL DEFAULT 0,
+  `weight_quantity` decimal(12,2) DEFAULT '0.00',
+  `created_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  INDEX `idx_stock_transfer_items_transfer` (`transfer_id`)
+);
+
+-- 4. Seed a default location per tenant and move existing stock into it
+INSERT INTO `inventory_locations` (`id`, `tenant_id`, `name`, `code`, `type`, `is_default`, `is_active`)
+SELECT UUID(), t.`id`, 'Main Warehouse', 'MAIN', 'warehouse', true, true
+FROM `tenants` t
+WHERE NOT EXISTS (
+  SELECT 1 FROM `inventory_locations` l WHERE l.`tenant_id` = t.`id` AND l.`is_default` = true
+);
+
+UPDATE `product_inventory` pi
+JOIN `inventory_locations` l ON l.`tenant_id` = pi.`tenant_id` AND l.`is_default` = true
+SET pi.`location_id` = l.`id`
+WHERE pi.`location_id` IS NULL;
+
+UPDATE `stock_movements` sm
+JOIN `inventory_locations` l ON l.`tenant_id` = sm.`tenant_id` AND l.`is_default` = true
+SET sm.`location_id` = l.`id`
+WHERE sm.`location_id` IS NULL;
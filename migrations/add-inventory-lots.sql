@@ -0,0 +1,53 @@
+-- Batch/lot and expiry-tracked inventory
+-- Each product_inventory row can be broken down into lots with their own
+-- expiry date and cost (see lib/inventoryLots.ts). Order items record the
+-- lots they consumed so stock returns to the same lots.
+
+-- 1. Lots
+CREATE TABLE IF NOT EXISTS `inventory_lots` (
+  `id` varchar(255) NOT NULL,
+  `tenant_id` varchar(255) NOT NULL,
+  `inventory_id` varchar(255) NOT NULL,
+  `product_id` varchar(255) NOT NULL,
+  `variant_id` varchar(255) NULL,
+  `location_id` varchar(255) NULL,
+  `lot_number` varchar(100) NOT NULL,
+  `expiry_date` varchar(20) NULL,
+  `received_quantity` int NOT NULL DEFAULT 0,
+  `received_weight` decimal(12,2) DEFAULT '0.00',
+  `quantity` int NOT NULL DEFAULT 0,
+  `weight_quantity` decimal(12,2) DEFAULT '0.00',
+  `unit_cost` decimal(10,2) NULL,
+  `supplier` varchar(255) NULL,
+  `reference` varchar(255) NULL,
+  `status` varchar(20) NOT NULL DEFAULT 'active',
+  `received_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  `created_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  INDEX `idx_inventory_lots_inventory` (`tenant_id`, `inventory_id`),
+  INDEX `idx_inventory_lots_expiry` (`tenant_id`, `status`, `expiry_date`)
+);
+
+-- 2. Lots consumed by order items
+CREATE TABLE IF NOT EXISTS `order_item_lots` (
+  `id` varchar(255) NOT NULL,
+  `tenant_id` varchar(255) NOT NULL,
+  `order_id` varchar(255) NOT NULL,
+  `order_item_id` varchar(255) NOT NULL,
+  `lot_id` varchar(255) NOT NULL,
+  `quantity` int NOT NULL DEFAULT 0,
+  `weight_quantity` decimal(12,2) DEFAULT '0.00',
+  `returned_quantity` int NOT NULL DEFAULT 0,
+  `returned_weight` decimal(12,2) DEFAULT '0.00',
+  `created_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  INDEX `idx_order_item_lots_order_item` (`tenant_id`, `order_item_id`)
+);
+
+-- 3. Lot reference on stock movements (receipts and expiry write-offs)
+ALTER TABLE `stock_movements`
+  ADD COLUMN `lot_id` varchar(255) NULL AFTER `transfer_id`;
+
+-- Existing stock stays untracked; product-level lot_number/expiry_date are
+-- left in place and no longer copied onto new order items.
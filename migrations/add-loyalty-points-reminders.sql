@@ -0,0 +1,12 @@
+-- Loyalty points maintenance
+-- A daily job (/api/cron/loyalty-points, see lib/loyaltyMaintenance.ts)
+-- activates pending points of delivered orders, expires old points and emails
+-- customers before their points expire. Each earned record is reminded about
+-- once; reminder_sent_at records when.
+
+ALTER TABLE `loyalty_points_history`
+  ADD COLUMN `reminder_sent_at` datetime NULL AFTER `metadata`;
+
+-- Speeds up the job's scan for expiring and expired points
+CREATE INDEX `idx_loyalty_points_history_tenant_expiry`
+  ON `loyalty_points_history` (`tenant_id`, `transaction_type`, `expires_at`);
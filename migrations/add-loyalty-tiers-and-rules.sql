@@ -0,0 +1,37 @@
+-- Loyalty tiers and earning rules
+-- Tiers are membership levels reached by a customer's spend over the last
+-- 12 months and multiply all points they earn. Earning rules multiply the
+-- points of matching order items (all, a category, product or tag); a rule
+-- with start and end dates runs as a campaign. See lib/loyalty.ts.
+
+-- 1. Membership tiers
+CREATE TABLE IF NOT EXISTS `loyalty_tiers` (
+  `id` varchar(255) NOT NULL,
+  `tenant_id` varchar(255) NOT NULL,
+  `name` varchar(100) NOT NULL,
+  `min_spend` decimal(12,2) NOT NULL DEFAULT '0.00',
+  `multiplier` decimal(5,2) NOT NULL DEFAULT '1.00',
+  `is_active` boolean DEFAULT true,
+  `created_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  KEY `idx_loyalty_tiers_tenant_id` (`tenant_id`)
+);
+
+-- 2. Earning rules and campaigns
+CREATE TABLE IF NOT EXISTS `loyalty_earning_rules` (
+  `id` varchar(255) NOT NULL,
+  `tenant_id` varchar(255) NOT NULL,
+  `name` varchar(255) NOT NULL,
+  `scope` varchar(20) NOT NULL DEFAULT 'all',
+  `target_id` varchar(255) NULL,
+  `multiplier` decimal(5,2) NOT NULL DEFAULT '2.00',
+  `starts_at` datetime NULL,
+  `ends_at` datetime NULL,
+  `is_active` boolean DEFAULT true,
+  `created_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  KEY `idx_loyalty_earning_rules_tenant_id` (`tenant_id`)
+);
+
@@ -0,0 +1,40 @@
+-- Product bundles
+-- A bundle product (product_type = 'bundle') holds no stock of its own; it is
+-- made of existing products or variants. Ordering a bundle copies its
+-- components onto the order line, and those rows reserve and deduct the
+-- component stock. See lib/bundles.ts and lib/stockReservations.ts.
+
+-- 1. Components of each bundle product
+CREATE TABLE IF NOT EXISTS `product_bundle_items` (
+  `id` varchar(255) NOT NULL,
+  `tenant_id` varchar(255) NOT NULL,
+  `bundle_product_id` varchar(255) NOT NULL,
+  `product_id` varchar(255) NOT NULL,
+  `variant_id` varchar(255) NULL,
+  `quantity` int NOT NULL DEFAULT 0,
+  `weight_quantity` decimal(12,2) DEFAULT '0.00',
+  `sort_order` int DEFAULT 0,
+  `created_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  KEY `idx_product_bundle_items_bundle` (`tenant_id`, `bundle_product_id`)
+);
+
+-- 2. Component stock of each ordered bundle line
+CREATE TABLE IF NOT EXISTS `order_item_components` (
+  `id` varchar(255) NOT NULL,
+  `tenant_id` varchar(255) NOT NULL,
+  `order_id` varchar(255) NOT NULL,
+  `order_item_id` varchar(255) NOT NULL,
+  `product_id` varchar(255) NOT NULL,
+  `variant_id` varchar(255) NULL,
+  `product_name` varchar(255) NOT NULL,
+  `variant_title` varchar(255) NULL,
+  `quantity` int NOT NULL DEFAULT 0,
+  `weight_quantity` decimal(12,2) DEFAULT '0.00',
+  `location_id` varchar(255) NULL,
+  `stock_status` varchar(20) NOT NULL DEFAULT 'none',
+  `created_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  KEY `idx_order_item_components_order_item` (`tenant_id`, `order_item_id`),
+  KEY `idx_order_item_components_stock` (`tenant_id`, `product_id`, `stock_status`)
+);
@@ -0,0 +1,29 @@
+-- Tenant-scoped returns (RMA) workflow
+-- Adds the approval/receive/complete audit columns, per-tenant return numbers
+-- and per-item restock tracking used by lib/returns.ts.
+
+-- 1. Lifecycle columns on returns
+ALTER TABLE `returns`
+  ADD COLUMN `created_by` varchar(255) NULL AFTER `admin_notes`,
+  ADD COLUMN `approved_by` varchar(255) NULL AFTER `created_by`,
+  ADD COLUMN `approved_at` datetime NULL AFTER `approved_by`,
+  ADD COLUMN `received_by` varchar(255) NULL AFTER `approved_at`,
+  ADD COLUMN `received_at` datetime NULL AFTER `received_by`,
+  ADD COLUMN `completed_by` varchar(255) NULL AFTER `received_at`,
+  ADD COLUMN `completed_at` datetime NULL AFTER `completed_by`,
+  ADD COLUMN `rejected_by` varchar(255) NULL AFTER `completed_at`,
+  ADD COLUMN `rejected_at` datetime NULL AFTER `rejected_by`;
+
+-- 2. Return numbers are sequential per tenant, so uniqueness is per tenant too
+ALTER TABLE `returns` DROP INDEX `returns_return_number_unique`;
+ALTER TABLE `returns` ADD UNIQUE INDEX `returns_tenant_return_number_unique` (`tenant_id`, `return_number`);
+ALTER TABLE `returns` ADD INDEX `idx_returns_tenant_order` (`tenant_id`, `order_id`);
+
+-- 3. Refund price and restock outcome per returned line
+ALTER TABLE `return_items`
+  ADD COLUMN `unit_price` decimal(10,2) DEFAULT '0.00' AFTER `quantity`,
+  ADD COLUMN `restock_action` varchar(20) NULL AFTER `condition`,
+  ADD COLUMN `stock_movement_id` varchar(255) NULL AFTER `restock_action`;
+
+ALTER TABLE `return_items` ADD INDEX `idx_return_items_return` (`return_id`);
+ALTER TABLE `return_items` ADD INDEX `idx_return_items_order_item` (`tenant_id`, `order_item_id`);
@@ -0,0 +1,50 @@
+-- Stock counts (stock-take sessions)
+-- A count freezes the expected stock of a location (optionally one category),
+-- collects counted values and posts the approved variances as adjustment
+-- movements. See lib/stockCounts.ts.
+
+-- 1. Count sessions
+CREATE TABLE IF NOT EXISTS `stock_counts` (
+  `id` varchar(255) NOT NULL,
+  `tenant_id` varchar(255) NOT NULL,
+  `count_number` varchar(100) NOT NULL,
+  `location_id` varchar(255) NOT NULL,
+  `category_id` varchar(255) NULL,
+  `status` varchar(20) NOT NULL DEFAULT 'open',
+  `notes` text NULL,
+  `created_by` varchar(255) NULL,
+  `posted_by` varchar(255) NULL,
+  `posted_at` datetime NULL,
+  `cancelled_by` varchar(255) NULL,
+  `cancelled_at` datetime NULL,
+  `created_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `stock_counts_tenant_count_number_unique` (`tenant_id`, `count_number`)
+);
+
+-- 2. Count lines
+CREATE TABLE IF NOT EXISTS `stock_count_items` (
+  `id` varchar(255) NOT NULL,
+  `tenant_id` varchar(255) NOT NULL,
+  `count_id` varchar(255) NOT NULL,
+  `inventory_id` varchar(255) NULL,
+  `product_id` varchar(255) NOT NULL,
+  `variant_id` varchar(255) NULL,
+  `expected_quantity` int NOT NULL DEFAULT 0,
+  `expected_weight` decimal(12,2) DEFAULT '0.00',
+  `counted_quantity` int NULL,
+  `counted_weight` decimal(12,2) NULL,
+  `unit_cost` decimal(10,2) NULL,
+  `approved` boolean NOT NULL DEFAULT false,
+  `movement_id` varchar(255) NULL,
+  `counted_by` varchar(255) NULL,
+  `counted_at` datetime NULL,
+  `created_at` datetime DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  INDEX `idx_stock_count_items_count` (`count_id`)
+);
+
+-- 3. Adjustments posted by a count point back to it
+ALTER TABLE `stock_movements`
+  ADD COLUMN `count_id` varchar(255) NULL AFTER `transfer_id`;
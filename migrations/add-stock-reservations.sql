@@ -0,0 +1,17 @@
+-- Order stock reservations
+-- Order lines now reserve stock while the order is open and only take it off
+-- on-hand stock once the order ships (see lib/stockReservations.ts). Each line
+-- records where its stock stands in order_items.stock_status.
+
+-- 1. Stock state per order line
+ALTER TABLE `order_items`
+  ADD COLUMN `stock_status` varchar(20) NOT NULL DEFAULT 'none' AFTER `location_id`;
+
+-- 2. Existing orders deducted their stock when they were created, and
+-- cancelling gave it back
+UPDATE `order_items` oi
+  INNER JOIN `orders` o ON o.`id` = oi.`order_id`
+  SET oi.`stock_status` = IF(o.`status` = 'cancelled', 'released', 'deducted');
+
+-- Auto-release of unpaid reservations is off until a tenant sets
+-- stock_reservation_timeout_hours in settings (Settings > Stock Management).
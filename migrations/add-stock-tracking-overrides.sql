@@ -0,0 +1,9 @@
+-- Stock tracking overrides
+-- Stock management is now resolved per tenant (settings.stock_management_enabled
+-- for the tenant, falling back to the global row) and can be overridden per
+-- product. Variants keep using inventory_management / allow_backorder.
+-- See resolveStockTracking in lib/stockManagement.ts.
+
+-- track, untracked or backorder; NULL follows the tenant's setting
+ALTER TABLE `products`
+  ADD COLUMN `stock_tracking` varchar(20) NULL AFTER `stock_management_type`;
@@ -0,0 +1,59 @@
+-- Tenant-isolated loyalty points
+-- Balances and history now belong to a tenant, and the loyalty rules are read
+-- from the tenant's own settings only (see lib/loyalty.ts).
+
+-- 1. Add tenant_id to balances and history
+ALTER TABLE `user_loyalty_points` ADD COLUMN `tenant_id` varchar(255) NULL AFTER `id`;
+ALTER TABLE `loyalty_points_history` ADD COLUMN `tenant_id` varchar(255) NULL AFTER `id`;
+
+-- 2. Backfill ownership from the customer the points belong to
+UPDATE `user_loyalty_points` p
+  INNER JOIN `user` u ON u.`id` = p.`user_id`
+  SET p.`tenant_id` = u.`tenant_id`;
+
+UPDATE `loyalty_points_history` h
+  INNER JOIN `user` u ON u.`id` = h.`user_id`
+  SET h.`tenant_id` = u.`tenant_id`;
+
+-- History of deleted customers keeps the tenant of its order
+UPDATE `loyalty_points_history` h
+  INNER JOIN `orders` o ON o.`id` = h.`order_id`
+  SET h.`tenant_id` = o.`tenant_id`
+  WHERE h.`tenant_id` IS NULL;
+
+-- Rows that cannot be traced to any tenant belong to no store. They are moved
+-- to quarantine tables rather than deleted, so they can be reviewed and
+-- reassigned by hand; check what was moved with:
+--   SELECT COUNT(*) FROM `loyalty_points_history_orphaned`;
+--   SELECT COUNT(*) FROM `user_loyalty_points_orphaned`;
+CREATE TABLE IF NOT EXISTS `loyalty_points_history_orphaned` LIKE `loyalty_points_history`;
+CREATE TABLE IF NOT EXISTS `user_loyalty_points_orphaned` LIKE `user_loyalty_points`;
+
+INSERT INTO `loyalty_points_history_orphaned`
+  SELECT * FROM `loyalty_points_history` WHERE `tenant_id` IS NULL;
+INSERT INTO `user_loyalty_points_orphaned`
+  SELECT * FROM `user_loyalty_points` WHERE `tenant_id` IS NULL;
+
+DELETE FROM `loyalty_points_history` WHERE `tenant_id` IS NULL;
+DELETE FROM `user_loyalty_points` WHERE `tenant_id` IS NULL;
+
+ALTER TABLE `user_loyalty_points` MODIFY COLUMN `tenant_id` varchar(255) NOT NULL;
+ALTER TABLE `loyalty_points_history` MODIFY COLUMN `tenant_id` varchar(255) NOT NULL;
+
+-- 3. One balance per customer per tenant
+-- Fails if a customer has more than one balance row; check first with:
+--   SELECT `user_id`, COUNT(*) FROM `user_loyalty_points` GROUP BY `user_id` HAVING COUNT(*) > 1;
+ALTER TABLE `user_loyalty_points` ADD UNIQUE KEY `user_loyalty_points_tenant_user_unique` (`tenant_id`, `user_id`);
+ALTER TABLE `loyalty_points_history` ADD INDEX `idx_loyalty_points_history_tenant_user` (`tenant_id`, `user_id`);
+
+-- 4. Loyalty rules used to be read without a tenant, so global rows applied to
+-- every store. Give each tenant its own copy of any it does not have yet.
+INSERT INTO `settings` (`id`, `tenant_id`, `key`, `value`, `type`, `description`, `is_active`)
+  SELECT UUID(), t.`id`, s.`key`, s.`value`, s.`type`, s.`description`, s.`is_active`
+  FROM `settings` s
+  CROSS JOIN `tenants` t
+  WHERE s.`tenant_id` IS NULL
+    AND (s.`key` LIKE 'loyalty\_%' OR s.`key` LIKE 'points\_%')
+    AND NOT EXISTS (
+      SELECT 1 FROM `settings` ts WHERE ts.`tenant_id` = t.`id` AND ts.`key` = s.`key`
+    );
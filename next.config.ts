@@ -10,6 +10,10 @@ const nextConfig: NextConfig = {
     ignoreDuringBuilds: true,
   },
   serverExternalPackages: ["mysql2", "bcrypt"],
+  // Invoice PDFs read the FBR logos from disk (lib/fbr/invoicePdf.ts)
+  outputFileTracingIncludes: {
+    '/api/**/*': ['./public/fbr/**/*'],
+  },
   images: {
     remotePatterns: [
       {
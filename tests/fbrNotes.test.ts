@@ -0,0 +1,74 @@
+/**
+ * FBR note totals
+ *
+ * Line scaling and totals of debit/credit notes, checked without a database.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { getNoteTotals, scaleOrderItem } from '@/lib/fbr/notes';
+import type { orderItems } from '@/lib/schema';
+
+type OrderItemRow = typeof orderItems.$inferSelect;
+
+function orderItem(values: Partial<OrderItemRow>): OrderItemRow {
+  return {
+    id: 'item-1',
+    productId: 'product-1',
+    productName: 'Tea',
+    quantity: 4,
+    price: '100.00',
+    totalPrice: '472.00',
+    taxAmount: '72.00',
+    taxPercentage: '18',
+    priceIncludingTax: '118.00',
+    priceExcludingTax: '100.00',
+    ...values,
+  } as OrderItemRow;
+}
+
+describe('scaleOrderItem', () => {
+  it('scales amounts and recomputes unit prices from the scaled line', () => {
+    const item = scaleOrderItem(orderItem({}), 0.5, 2);
+
+    expect(item.quantity).toBe(2);
+    expect(item.totalPrice).toBe(236);
+    expect(item.taxAmount).toBe(36);
+    expect(item.priceIncludingTax).toBe(118);
+    expect(item.priceExcludingTax).toBe(100);
+  });
+
+  it('keeps the stored unit prices when no quantity is returned', () => {
+    const item = scaleOrderItem(orderItem({ priceIncludingTax: '118.00', priceExcludingTax: '100.00' }), 0.25, 0);
+
+    expect(item.totalPrice).toBe(118);
+    expect(item.priceIncludingTax).toBe(118);
+    expect(item.priceExcludingTax).toBe(100);
+  });
+
+  it('scales weights of weight-based lines', () => {
+    const item = scaleOrderItem(orderItem({ weightQuantity: '1.5', weightUnit: 'kg' }), 0.5, 1);
+
+    expect(item.isWeightBased).toBe(true);
+    expect(item.weightQuantity).toBe(0.75);
+  });
+});
+
+describe('getNoteTotals', () => {
+  it('takes tax out of the tax-inclusive line totals once', () => {
+    expect(getNoteTotals([
+      { totalPrice: 236, taxAmount: 36 },
+      { totalPrice: 118, taxAmount: 18 },
+    ])).toEqual({ subtotal: 300, taxAmount: 54, totalAmount: 354 });
+  });
+
+  it('rounds to two decimals', () => {
+    expect(getNoteTotals([
+      { totalPrice: 0.1, taxAmount: 0.015 },
+      { totalPrice: 0.2, taxAmount: 0.015 },
+    ])).toEqual({ subtotal: 0.27, taxAmount: 0.03, totalAmount: 0.3 });
+  });
+
+  it('treats lines without tax as untaxed', () => {
+    expect(getNoteTotals([{ totalPrice: 50, taxAmount: undefined }])).toEqual({ subtotal: 50, taxAmount: 0, totalAmount: 50 });
+  });
+});
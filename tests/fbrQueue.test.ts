@@ -0,0 +1,82 @@
+/**
+ * FBR submission queue transitions
+ *
+ * Which submissions a worker may claim, where an attempt leaves them and when
+ * they are retried, checked without a database.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { canProcessFbrSubmission, getFbrRetryDelayMs, getFbrSubmissionOutcome } from '@/lib/fbr/queue';
+
+const MINUTE = 60 * 1000;
+
+describe('canProcessFbrSubmission', () => {
+  const now = new Date('2026-01-15T12:00:00Z');
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('claims queued submissions', () => {
+    expect(canProcessFbrSubmission({ status: 'queued', claimedAt: null })).toBe(true);
+  });
+
+  it('leaves submissions another worker is validating', () => {
+    const claimedAt = new Date(now.getTime() - 5 * MINUTE);
+    expect(canProcessFbrSubmission({ status: 'validating', claimedAt })).toBe(false);
+    expect(canProcessFbrSubmission({ status: 'validating', claimedAt }, true)).toBe(false);
+  });
+
+  it('takes over abandoned claims', () => {
+    expect(canProcessFbrSubmission({ status: 'validating', claimedAt: new Date(now.getTime() - 10 * MINUTE) })).toBe(true);
+    expect(canProcessFbrSubmission({ status: 'validating', claimedAt: null })).toBe(true);
+  });
+
+  it('retries rejected and failed submissions only when forced', () => {
+    for (const status of ['rejected', 'failed']) {
+      expect(canProcessFbrSubmission({ status, claimedAt: null })).toBe(false);
+      expect(canProcessFbrSubmission({ status, claimedAt: null }, true)).toBe(true);
+    }
+  });
+
+  it('never reprocesses posted submissions', () => {
+    expect(canProcessFbrSubmission({ status: 'posted', claimedAt: null }, true)).toBe(false);
+  });
+});
+
+describe('getFbrSubmissionOutcome', () => {
+  it('posts successful attempts', () => {
+    expect(getFbrSubmissionOutcome({ ok: true, retryable: false }, 5, 5, true)).toBe('posted');
+  });
+
+  it('requeues retryable errors until attempts run out', () => {
+    expect(getFbrSubmissionOutcome({ ok: false, retryable: true }, 1, 5)).toBe('queued');
+    expect(getFbrSubmissionOutcome({ ok: false, retryable: true }, 5, 5)).toBe('failed');
+  });
+
+  it('rejects errors FBR will not accept on retry', () => {
+    expect(getFbrSubmissionOutcome({ ok: false, retryable: false }, 1, 5)).toBe('rejected');
+  });
+
+  it('fails an attempt whose earlier post may have reached FBR', () => {
+    expect(getFbrSubmissionOutcome({ ok: false, retryable: true }, 1, 5, true)).toBe('failed');
+    expect(getFbrSubmissionOutcome({ ok: false, retryable: false }, 1, 5, true)).toBe('failed');
+  });
+});
+
+describe('getFbrRetryDelayMs', () => {
+  it('doubles the delay after every attempt', () => {
+    expect(getFbrRetryDelayMs(1)).toBe(MINUTE);
+    expect(getFbrRetryDelayMs(2)).toBe(2 * MINUTE);
+    expect(getFbrRetryDelayMs(4)).toBe(8 * MINUTE);
+  });
+
+  it('caps the delay at six hours', () => {
+    expect(getFbrRetryDelayMs(20)).toBe(6 * 60 * MINUTE);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Inventory concurrency
+ *
+ * Races order stock changes (syncOrderStock) against shared inventory rows.
+ * Row locks cannot be faked, so this runs against a real MySQL database: point
+ * the DB_* variables at a throwaway database whose name ends in "_test" and
+ * push the schema to it first (npm run db:push). Without one the suite is skipped.
+ *
+ * Each test stocks its own product under a fresh tenant, and everything is
+ * deleted again afterwards.
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { eq, inArray } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '@/lib/db';
+import { inventoryLocations, orderItems, orders, productInventory, products, stockMovements, tenants } from '@/lib/schema';
+import { getDefaultLocation, InsufficientStockError } from '@/lib/inventoryLocations';
+import { syncOrderStock, type OrderStockStatus } from '@/lib/stockReservations';
+
+const hasTestDatabase = !!process.env.DB_NAME?.endsWith('_test');
+
+// Stay below the pool's 10 connections: each transaction holds one and the
+// location lookups inside syncOrderStock borrow another
+const PARALLEL_ORDERS = 8;
+
+interface TestOrder {
+  id: string;
+  orderNumber: string;
+}
+
+describe.skipIf(!hasTestDatabase)('order stock under concurrency', () => {
+  const tenantId = uuidv4();
+  const orderIds: string[] = [];
+
+  beforeAll(async () => {
+    await db.insert(tenants).values({
+      id: tenantId,
+      name: 'Concurrency Test',
+      slug: `concurrency-${tenantId}`,
+      email: 'concurrency@example.com',
+    });
+    // Created up front so parallel lookups do not race to create it
+    await getDefaultLocation(tenantId);
+  });
+
+  afterAll(async () => {
+    if (orderIds.length > 0) {
+      await db.delete(orderItems).where(inArray(orderItems.orderId, orderIds));
+    }
+    await db.delete(orders).where(eq(orders.tenantId, tenantId));
+    await db.delete(stockMovements).where(eq(stockMovements.tenantId, tenantId));
+    await db.delete(productInventory).where(eq(productInventory.tenantId, tenantId));
+    await db.delete(products).where(eq(products.tenantId, tenantId));
+    await db.delete(inventoryLocations).where(eq(inventoryLocations.tenantId, tenantId));
+    await db.delete(tenants).where(eq(tenants.id, tenantId));
+    await db.$client.end();
+  });
+
+  async function createStockedProduct(stock: number) {
+    const productId = uuidv4();
+    const inventoryId = uuidv4();
+    const location = await getDefaultLocation(tenantId);
+
+    await db.insert(products).values({
+      id: productId,
+      tenantId,
+      name: `Test product ${productId.slice(0, 8)}`,
+      slug: `test-product-${productId}`,
+      price: '10.00',
+      stockTracking: 'track',
+    });
+    await db.insert(productInventory).values({
+      id: inventoryId,
+      tenantId,
+      productId,
+      locationId: location.id,
+      quantity: stock,
+      reservedQuantity: 0,
+      availableQuantity: stock,
+    });
+
+    return { productId, inventoryId };
+  }
+
+  async function createOrder(lines: Array<{ productId: string; quantity: number }>): Promise<TestOrder> {
+    const id = uuidv4();
+    const orderNumber = `TEST-${id.slice(0, 8)}`;
+    orderIds.push(id);
+
+    await db.insert(orders).values({
+      id,
+      tenantId,
+      orderNumber,
+      email: 'buyer@example.com',
+      status: 'pending',
+      subtotal: '0.00',
+      totalAmount: '0.00',
+    });
+    await db.insert(orderItems).values(lines.map(line => ({
+      id: uuidv4(),
+      orderId: id,
+      productId: line.productId,
+      productName: 'Test product',
+      quantity: line.quantity,
+      stockStatus: 'released',
+      price: '10.00',
+      totalPrice: (10 * line.quantity).toFixed(2),
+    })));
+
+    return { id, orderNumber };
+  }
+
+  // The way the order routes move stock: lock the order row, then sync its lines
+  function moveOrderStock(order: TestOrder, target: OrderStockStatus, afterSync?: () => void) {
+    return db.transaction(async (tx) => {
+      await tx.select({ id: orders.id }).from(orders).where(eq(orders.id, order.id)).for('update');
+      const moved = await syncOrderStock(tx, {
+        tenantId,
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        event: 'Concurrency Test',
+      }, target);
+      afterSync?.();
+      return moved;
+    });
+  }
+
+  async function getInventory(inventoryId: string) {
+    const [row] = await db.select().from(productInventory).where(eq(productInventory.id, inventoryId));
+    return row;
+  }
+
+  async function getMovements(inventoryId: string) {
+    return db.select().from(stockMovements).where(eq(stockMovements.inventoryId, inventoryId));
+  }
+
+  it('never reserves more than is available', async () => {
+    const { productId, inventoryId } = await createStockedProduct(3);
+    const racing = await Promise.all(
+      Array.from({ length: PARALLEL_ORDERS }, () => createOrder([{ productId, quantity: 1 }]))
+    );
+
+    const results = await Promise.allSettled(racing.map(order => moveOrderStock(order, 'reserved')));
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(3);
+    for (const result of results) {
+      if (result.status === 'rejected') expect(result.reason).toBeInstanceOf(InsufficientStockError);
+    }
+
+    const inventory = await getInventory(inventoryId);
+    expect(inventory.quantity).toBe(3);
+    expect(inventory.reservedQuantity).toBe(3);
+    expect(inventory.availableQuantity).toBe(0);
+    // Reserving does not touch on-hand stock
+    expect(await getMovements(inventoryId)).toHaveLength(0);
+  });
+
+  it('never deducts on-hand stock below zero', async () => {
+    const { productId, inventoryId } = await createStockedProduct(3);
+    const racing = await Promise.all(
+      Array.from({ length: PARALLEL_ORDERS }, () => createOrder([{ productId, quantity: 1 }]))
+    );
+
+    const results = await Promise.allSettled(racing.map(order => moveOrderStock(order, 'deducted')));
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(3);
+
+    const inventory = await getInventory(inventoryId);
+    expect(inventory.quantity).toBe(0);
+    expect(inventory.availableQuantity).toBe(0);
+
+    const movements = await getMovements(inventoryId);
+    expect(movements).toHaveLength(3);
+    for (const movement of movements) {
+      expect(movement.movementType).toBe('out');
+      expect(movement.newQuantity).toBeGreaterThanOrEqual(0);
+    }
+  });
+
+  it('rolls back every line and movement when one line runs short', async () => {
+    const plenty = await createStockedProduct(5);
+    const scarce = await createStockedProduct(1);
+    const order = await createOrder([
+      { productId: plenty.productId, quantity: 2 },
+      { productId: scarce.productId, quantity: 2 },
+    ]);
+
+    await expect(moveOrderStock(order, 'deducted')).rejects.toBeInstanceOf(InsufficientStockError);
+
+    expect((await getInventory(plenty.inventoryId)).quantity).toBe(5);
+    expect((await getInventory(scarce.inventoryId)).quantity).toBe(1);
+    expect(await getMovements(plenty.inventoryId)).toHaveLength(0);
+
+    const lines = await db.select().from(orderItems).where(eq(orderItems.orderId, order.id));
+    expect(lines.every(line => line.stockStatus === 'released')).toBe(true);
+  });
+
+  it('rolls back the movements when the surrounding transaction fails', async () => {
+    const { productId, inventoryId } = await createStockedProduct(5);
+    const order = await createOrder([{ productId, quantity: 2 }]);
+
+    await expect(moveOrderStock(order, 'deducted', () => {
+      throw new Error('Order update failed');
+    })).rejects.toThrow('Order update failed');
+
+    const inventory = await getInventory(inventoryId);
+    expect(inventory.quantity).toBe(5);
+    expect(inventory.availableQuantity).toBe(5);
+    expect(await getMovements(inventoryId)).toHaveLength(0);
+  });
+});
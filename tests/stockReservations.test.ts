@@ -0,0 +1,57 @@
+/**
+ * Stock reservation math
+ *
+ * The level arithmetic behind syncOrderStock, checked without a database.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { moveStockLevels, stockStatusForOrder } from '@/lib/stockReservations';
+
+describe('moveStockLevels', () => {
+  const levels = { onHand: 10, reserved: 3 };
+
+  it('reserves without taking stock off hand', () => {
+    expect(moveStockLevels(levels, 2, 'released', 'reserved')).toEqual({ onHand: 10, reserved: 5 });
+  });
+
+  it('deducts a reservation from stock on hand', () => {
+    expect(moveStockLevels(levels, 2, 'reserved', 'deducted')).toEqual({ onHand: 8, reserved: 1 });
+  });
+
+  it('puts deducted stock back on hand when released', () => {
+    expect(moveStockLevels(levels, 2, 'deducted', 'released')).toEqual({ onHand: 12, reserved: 3 });
+  });
+
+  it('moves deducted stock back into a reservation', () => {
+    expect(moveStockLevels(levels, 2, 'deducted', 'reserved')).toEqual({ onHand: 12, reserved: 5 });
+  });
+
+  it('rounds weights to two decimals', () => {
+    expect(moveStockLevels({ onHand: 1.1, reserved: 0.2 }, 0.1, 'reserved', 'deducted')).toEqual({ onHand: 1, reserved: 0.1 });
+  });
+
+  it('never leaves reserved stock below zero', () => {
+    expect(moveStockLevels(levels, 5, 'reserved', 'released')).toEqual({ onHand: 10, reserved: 0 });
+  });
+
+  it('lets stock on hand go negative for back-orders', () => {
+    expect(moveStockLevels({ onHand: 1, reserved: 0 }, 3, 'released', 'deducted')).toEqual({ onHand: -2, reserved: 0 });
+  });
+});
+
+describe('stockStatusForOrder', () => {
+  it('reserves stock for open orders', () => {
+    expect(stockStatusForOrder('pending')).toBe('reserved');
+    expect(stockStatusForOrder('processing', 'unfulfilled')).toBe('reserved');
+  });
+
+  it('deducts stock once an order ships or is fulfilled', () => {
+    expect(stockStatusForOrder('shipped')).toBe('deducted');
+    expect(stockStatusForOrder('completed')).toBe('deducted');
+    expect(stockStatusForOrder('processing', 'fulfilled')).toBe('deducted');
+  });
+
+  it('releases stock for cancelled orders', () => {
+    expect(stockStatusForOrder('cancelled', 'fulfilled')).toBe('released');
+  });
+});